@@ -0,0 +1,56 @@
+-- Create debts table for debt payoff tracking
+-- Run this in your Supabase SQL editor after 002_budget_triggers.sql
+
+-- Create enum type first
+CREATE TYPE debt_type AS ENUM (
+  'credit_card',
+  'student_loan',
+  'personal_loan',
+  'mortgage',
+  'auto_loan',
+  'other'
+);
+
+-- Create debts table
+CREATE TABLE debts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  type debt_type NOT NULL DEFAULT 'credit_card',
+  balance DECIMAL(12, 2) NOT NULL CHECK (balance >= 0),
+  interest_rate DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (interest_rate >= 0),
+  minimum_payment DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (minimum_payment >= 0),
+  credit_limit DECIMAL(12, 2) CHECK (credit_limit IS NULL OR credit_limit >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_debts_user_id ON debts(user_id);
+CREATE INDEX idx_debts_type ON debts(type);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE debts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own debts" ON debts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own debts" ON debts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own debts" ON debts
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own debts" ON debts
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Reuse the updated_at function created in 001_create_goals_table.sql
+CREATE TRIGGER update_debts_updated_at
+  BEFORE UPDATE ON debts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Grant necessary permissions
+GRANT ALL ON debts TO authenticated;
+GRANT ALL ON debts TO service_role;
@@ -0,0 +1,214 @@
+-- Make budget spending period-aware and keep a history of closed periods
+-- Run this in your Supabase SQL editor after 003_create_debts_table.sql
+-- Replaces the all-time totals computed by 002_budget_triggers.sql
+
+-- Day the period starts on:
+--   weekly budgets: ISO day of week (1 = Monday ... 7 = Sunday)
+--   monthly, quarterly and yearly budgets: day of month (1-28)
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS period_start_day INTEGER NOT NULL DEFAULT 1 CHECK (period_start_day BETWEEN 1 AND 28),
+  ADD COLUMN IF NOT EXISTS current_period_start DATE;
+
+-- Closed budget periods
+CREATE TABLE IF NOT EXISTS budget_periods (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID REFERENCES budgets(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL, -- Exclusive
+  budget_amount DECIMAL(12, 2) NOT NULL,
+  spent_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (budget_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_periods_budget_id ON budget_periods(budget_id);
+CREATE INDEX IF NOT EXISTS idx_budget_periods_user_id ON budget_periods(user_id);
+
+ALTER TABLE budget_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own budget periods" ON budget_periods
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own budget periods" ON budget_periods
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budget periods" ON budget_periods
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budget periods" ON budget_periods
+  FOR DELETE USING (auth.uid() = user_id);
+
+GRANT ALL ON budget_periods TO authenticated;
+GRANT ALL ON budget_periods TO service_role;
+
+-- Window [period_start, period_end) of the budget period containing p_ref.
+-- Quarters start in January, April, July and October; years start in January.
+-- Keep in sync with getBudgetPeriodWindow in src/lib/budgetPeriods.ts
+CREATE OR REPLACE FUNCTION budget_period_window(p_period TEXT, p_start_day INTEGER, p_ref DATE)
+RETURNS TABLE (period_start DATE, period_end DATE) AS $$
+DECLARE
+  v_months INTEGER;
+  v_start DATE;
+BEGIN
+  IF lower(p_period) = 'weekly' THEN
+    v_start := p_ref - ((EXTRACT(ISODOW FROM p_ref)::INTEGER - p_start_day + 7) % 7);
+    RETURN QUERY SELECT v_start, v_start + 7;
+    RETURN;
+  END IF;
+
+  v_months := CASE lower(p_period)
+    WHEN 'quarterly' THEN 3
+    WHEN 'yearly' THEN 12
+    ELSE 1
+  END;
+
+  v_start := date_trunc('month', p_ref)::DATE + (p_start_day - 1);
+  IF p_ref < v_start THEN
+    v_start := (v_start - INTERVAL '1 month')::DATE;
+  END IF;
+  v_start := (v_start - make_interval(months => (EXTRACT(MONTH FROM v_start)::INTEGER - 1) % v_months))::DATE;
+
+  RETURN QUERY SELECT v_start, (v_start + make_interval(months => v_months))::DATE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Sum of expenses for a category within [p_start, p_end)
+CREATE OR REPLACE FUNCTION budget_spent_between(p_user_id UUID, p_category TEXT, p_start DATE, p_end DATE)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM transactions
+  WHERE user_id = p_user_id
+    AND category = p_category
+    AND type = 'expense'
+    AND date >= p_start
+    AND date < p_end;
+$$ LANGUAGE sql STABLE;
+
+-- Recalculate the current period of a budget, closing any periods that have ended
+CREATE OR REPLACE FUNCTION refresh_budget_spending(p_budget_id UUID)
+RETURNS void AS $$
+DECLARE
+  b budgets%ROWTYPE;
+  current_window RECORD;
+  closed_window RECORD;
+  closing_start DATE;
+BEGIN
+  SELECT * INTO b FROM budgets WHERE id = p_budget_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO current_window FROM budget_period_window(b.period, b.period_start_day, CURRENT_DATE);
+
+  closing_start := b.current_period_start;
+  WHILE closing_start IS NOT NULL AND closing_start < current_window.period_start LOOP
+    SELECT * INTO closed_window FROM budget_period_window(b.period, b.period_start_day, closing_start);
+
+    INSERT INTO budget_periods (budget_id, user_id, period_start, period_end, budget_amount, spent_amount)
+    VALUES (
+      b.id,
+      b.user_id,
+      closed_window.period_start,
+      closed_window.period_end,
+      b.budget_amount,
+      budget_spent_between(b.user_id, b.category, closed_window.period_start, closed_window.period_end)
+    )
+    ON CONFLICT (budget_id, period_start) DO NOTHING;
+
+    closing_start := closed_window.period_end;
+  END LOOP;
+
+  UPDATE budgets
+  SET spent_amount = budget_spent_between(b.user_id, b.category, current_window.period_start, current_window.period_end),
+      current_period_start = current_window.period_start
+  WHERE id = b.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refresh every budget (and closed period) affected by a transaction in a category on a date
+CREATE OR REPLACE FUNCTION refresh_budgets_for_transaction(p_user_id UUID, p_category TEXT, p_date DATE)
+RETURNS void AS $$
+DECLARE
+  budget_id UUID;
+BEGIN
+  FOR budget_id IN
+    SELECT id FROM budgets WHERE user_id = p_user_id AND category = p_category
+  LOOP
+    PERFORM refresh_budget_spending(budget_id);
+  END LOOP;
+
+  UPDATE budget_periods bp
+  SET spent_amount = budget_spent_between(p_user_id, p_category, bp.period_start, bp.period_end)
+  FROM budgets b
+  WHERE bp.budget_id = b.id
+    AND b.user_id = p_user_id
+    AND b.category = p_category
+    AND p_date >= bp.period_start
+    AND p_date < bp.period_end;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace the all-time trigger function from 002_budget_triggers.sql
+CREATE OR REPLACE FUNCTION update_budget_spent_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_budgets_for_transaction(OLD.user_id, OLD.category, OLD.date);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.category != NEW.category OR OLD.type != NEW.type OR OLD.amount != NEW.amount OR OLD.date != NEW.date THEN
+      PERFORM refresh_budgets_for_transaction(OLD.user_id, OLD.category, OLD.date);
+      PERFORM refresh_budgets_for_transaction(NEW.user_id, NEW.category, NEW.date);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM refresh_budgets_for_transaction(NEW.user_id, NEW.category, NEW.date);
+    RETURN NEW;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Changing the period or start day invalidates the current window; the history is kept as-is
+CREATE OR REPLACE FUNCTION reset_budget_period_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.period IS DISTINCT FROM NEW.period OR OLD.period_start_day IS DISTINCT FROM NEW.period_start_day THEN
+    NEW.current_period_start := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_budget_period_window_trigger ON budgets;
+
+CREATE TRIGGER reset_budget_period_window_trigger
+  BEFORE UPDATE ON budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_budget_period_window();
+
+-- Replace the all-time refresh from 002_budget_triggers.sql
+CREATE OR REPLACE FUNCTION refresh_all_budget_spent_amounts(target_user_id UUID DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  budget_id UUID;
+BEGIN
+  FOR budget_id IN
+    SELECT id FROM budgets WHERE target_user_id IS NULL OR user_id = target_user_id
+  LOOP
+    PERFORM refresh_budget_spending(budget_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION refresh_all_budget_spent_amounts TO authenticated;
+GRANT EXECUTE ON FUNCTION refresh_all_budget_spent_amounts TO service_role;
+
+-- Recalculate existing budgets for their current period
+SELECT refresh_all_budget_spent_amounts();
@@ -0,0 +1,128 @@
+-- Envelope-style budget rollover between periods
+-- Run this in your Supabase SQL editor after 004_budget_periods.sql
+
+-- Rollover policies:
+--   none          - every period starts fresh
+--   carry_surplus - unspent amounts carry forward, overspending does not
+--   carry_both    - unspent and overspent amounts both carry forward
+--   cap           - unspent amounts carry forward up to rollover_cap
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS rollover_policy TEXT NOT NULL DEFAULT 'none'
+    CHECK (rollover_policy IN ('none', 'carry_surplus', 'carry_both', 'cap')),
+  ADD COLUMN IF NOT EXISTS rollover_cap DECIMAL(12, 2) CHECK (rollover_cap IS NULL OR rollover_cap >= 0),
+  ADD COLUMN IF NOT EXISTS rollover_amount DECIMAL(12, 2) NOT NULL DEFAULT 0; -- Carried into the current period
+
+-- Amount carried into each closed period
+ALTER TABLE budget_periods
+  ADD COLUMN IF NOT EXISTS rollover_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+-- Amount carried into the next period given what was left over in this one.
+-- Keep in sync with calculateRollover in src/lib/budgetPeriods.ts
+CREATE OR REPLACE FUNCTION budget_next_rollover(p_policy TEXT, p_cap DECIMAL, p_leftover DECIMAL)
+RETURNS DECIMAL AS $$
+  SELECT CASE p_policy
+    WHEN 'carry_surplus' THEN GREATEST(p_leftover, 0)
+    WHEN 'carry_both' THEN p_leftover
+    WHEN 'cap' THEN LEAST(GREATEST(p_leftover, 0), COALESCE(p_cap, 0))
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Walk a budget's closed periods in order and recompute what each one carried in,
+-- ending with the amount carried into the current period
+CREATE OR REPLACE FUNCTION recompute_budget_rollover(p_budget_id UUID)
+RETURNS void AS $$
+DECLARE
+  b budgets%ROWTYPE;
+  p RECORD;
+  carry DECIMAL := 0;
+BEGIN
+  SELECT * INTO b FROM budgets WHERE id = p_budget_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR p IN
+    SELECT id, budget_amount, spent_amount
+    FROM budget_periods
+    WHERE budget_id = p_budget_id
+    ORDER BY period_start
+  LOOP
+    UPDATE budget_periods SET rollover_amount = carry WHERE id = p.id;
+    carry := budget_next_rollover(b.rollover_policy, b.rollover_cap, p.budget_amount + carry - p.spent_amount);
+  END LOOP;
+
+  UPDATE budgets SET rollover_amount = carry WHERE id = p_budget_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recalculate the current period of a budget, closing any periods that have ended
+-- (replaces the version from 004_budget_periods.sql to carry rollover forward)
+CREATE OR REPLACE FUNCTION refresh_budget_spending(p_budget_id UUID)
+RETURNS void AS $$
+DECLARE
+  b budgets%ROWTYPE;
+  current_window RECORD;
+  closed_window RECORD;
+  closing_start DATE;
+BEGIN
+  SELECT * INTO b FROM budgets WHERE id = p_budget_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO current_window FROM budget_period_window(b.period, b.period_start_day, CURRENT_DATE);
+
+  closing_start := b.current_period_start;
+  WHILE closing_start IS NOT NULL AND closing_start < current_window.period_start LOOP
+    SELECT * INTO closed_window FROM budget_period_window(b.period, b.period_start_day, closing_start);
+
+    INSERT INTO budget_periods (budget_id, user_id, period_start, period_end, budget_amount, spent_amount)
+    VALUES (
+      b.id,
+      b.user_id,
+      closed_window.period_start,
+      closed_window.period_end,
+      b.budget_amount,
+      budget_spent_between(b.user_id, b.category, closed_window.period_start, closed_window.period_end)
+    )
+    ON CONFLICT (budget_id, period_start) DO NOTHING;
+
+    closing_start := closed_window.period_end;
+  END LOOP;
+
+  UPDATE budgets
+  SET spent_amount = budget_spent_between(b.user_id, b.category, current_window.period_start, current_window.period_end),
+      current_period_start = current_window.period_start
+  WHERE id = b.id;
+
+  PERFORM recompute_budget_rollover(b.id);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refresh every budget (and closed period) affected by a transaction in a category on a date
+-- (replaces the version from 004_budget_periods.sql so edits to past periods re-flow rollover)
+CREATE OR REPLACE FUNCTION refresh_budgets_for_transaction(p_user_id UUID, p_category TEXT, p_date DATE)
+RETURNS void AS $$
+DECLARE
+  budget_id UUID;
+BEGIN
+  UPDATE budget_periods bp
+  SET spent_amount = budget_spent_between(p_user_id, p_category, bp.period_start, bp.period_end)
+  FROM budgets b
+  WHERE bp.budget_id = b.id
+    AND b.user_id = p_user_id
+    AND b.category = p_category
+    AND p_date >= bp.period_start
+    AND p_date < bp.period_end;
+
+  FOR budget_id IN
+    SELECT id FROM budgets WHERE user_id = p_user_id AND category = p_category
+  LOOP
+    PERFORM refresh_budget_spending(budget_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Apply the (default 'none') policy to existing budgets
+SELECT refresh_all_budget_spent_amounts();
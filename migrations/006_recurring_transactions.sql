@@ -0,0 +1,62 @@
+-- Create recurring_transactions table for confirmed recurring rules
+-- Run this in your Supabase SQL editor after 005_budget_rollover.sql
+
+CREATE TYPE recurring_frequency AS ENUM (
+  'weekly',
+  'biweekly',
+  'monthly',
+  'quarterly',
+  'yearly'
+);
+
+CREATE TABLE recurring_transactions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  description TEXT NOT NULL,
+  category TEXT NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
+  frequency recurring_frequency NOT NULL DEFAULT 'monthly',
+  start_date DATE NOT NULL,
+  end_date DATE CHECK (end_date IS NULL OR end_date >= start_date),
+  next_occurrence DATE NOT NULL,
+  -- Expected variation in percent; an existing transaction within this range
+  -- around an occurrence date counts as that occurrence instead of a new one
+  amount_variance DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (amount_variance >= 0 AND amount_variance <= 100),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_materialized_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_recurring_transactions_user_id ON recurring_transactions(user_id);
+CREATE INDEX idx_recurring_transactions_next_occurrence ON recurring_transactions(next_occurrence) WHERE is_active;
+
+-- Link materialized transactions back to the rule that created them
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS recurring_transaction_id UUID REFERENCES recurring_transactions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_recurring_transaction_id ON transactions(recurring_transaction_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recurring transactions" ON recurring_transactions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own recurring transactions" ON recurring_transactions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring transactions" ON recurring_transactions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring transactions" ON recurring_transactions
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_recurring_transactions_updated_at
+  BEFORE UPDATE ON recurring_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+GRANT ALL ON recurring_transactions TO authenticated;
+GRANT ALL ON recurring_transactions TO service_role;
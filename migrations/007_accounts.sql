@@ -0,0 +1,80 @@
+-- Create accounts table and link transactions to the account they belong to
+-- Run this in your Supabase SQL editor after 006_recurring_transactions.sql
+
+-- Create enum type first
+CREATE TYPE account_type AS ENUM (
+  'checking',
+  'savings',
+  'credit_card',
+  'cash',
+  'investment',
+  'other'
+);
+
+-- Create accounts table
+CREATE TABLE accounts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  type account_type NOT NULL DEFAULT 'checking',
+  institution TEXT,
+  opening_balance DECIMAL(12, 2) NOT NULL DEFAULT 0, -- Negative for money owed on credit cards
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (char_length(currency) = 3),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_accounts_user_id ON accounts(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own accounts" ON accounts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own accounts" ON accounts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own accounts" ON accounts
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own accounts" ON accounts
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Reuse the updated_at function created in 001_create_goals_table.sql
+CREATE TRIGGER update_accounts_updated_at
+  BEFORE UPDATE ON accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Grant necessary permissions
+GRANT ALL ON accounts TO authenticated;
+GRANT ALL ON accounts TO service_role;
+
+-- Link transactions and recurring rules to an account
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE recurring_transactions
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON transactions(account_id);
+
+-- Give every user with existing transactions a default checking account and move them into it
+INSERT INTO accounts (user_id, name, type)
+SELECT DISTINCT user_id, 'Main Account', 'checking'::account_type
+FROM transactions;
+
+UPDATE transactions t
+SET account_id = a.id
+FROM accounts a
+WHERE a.user_id = t.user_id
+  AND t.account_id IS NULL;
+
+UPDATE recurring_transactions r
+SET account_id = a.id
+FROM accounts a
+WHERE a.user_id = r.user_id
+  AND r.account_id IS NULL;
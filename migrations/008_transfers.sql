@@ -0,0 +1,53 @@
+-- Transfers between accounts, recorded as one transaction that is neither income nor expense
+-- Run this in your Supabase SQL editor after 007_accounts.sql
+
+-- New transaction kind. The comparisons below cast to text because a new enum value
+-- cannot be referenced in the same transaction that adds it.
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'transfer';
+
+-- account_id is the source of a transfer and transfer_account_id its destination
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS transfer_account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_transfer_account_check CHECK (
+    transfer_account_id IS NULL
+    OR (type::text = 'transfer' AND transfer_account_id IS DISTINCT FROM account_id)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_account_id ON transactions(transfer_account_id);
+
+-- Budget spending only ever sums expenses (see budget_spent_between in 004_budget_periods.sql),
+-- so transfers never count against a budget. Skip the refresh entirely when only transfers are involved.
+-- Replaces the version from 004_budget_periods.sql
+CREATE OR REPLACE FUNCTION update_budget_spent_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.type::text <> 'transfer' THEN
+      PERFORM refresh_budgets_for_transaction(OLD.user_id, OLD.category, OLD.date);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.type::text = 'transfer' AND NEW.type::text = 'transfer' THEN
+      RETURN NEW;
+    END IF;
+    IF OLD.category != NEW.category OR OLD.type != NEW.type OR OLD.amount != NEW.amount OR OLD.date != NEW.date THEN
+      PERFORM refresh_budgets_for_transaction(OLD.user_id, OLD.category, OLD.date);
+      PERFORM refresh_budgets_for_transaction(NEW.user_id, NEW.category, NEW.date);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.type::text <> 'transfer' THEN
+      PERFORM refresh_budgets_for_transaction(NEW.user_id, NEW.category, NEW.date);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
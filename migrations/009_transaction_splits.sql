@@ -0,0 +1,134 @@
+-- Split transactions: a parent transaction allocated across several categories
+-- Run this in your Supabase SQL editor after 008_transfers.sql
+
+-- Allocations of a split transaction. They sum to the parent amount (enforced by the app),
+-- and the parent itself is stored with the category 'Split'.
+CREATE TABLE transaction_splits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  category TEXT NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_transaction_splits_transaction_id ON transaction_splits(transaction_id);
+CREATE INDEX idx_transaction_splits_user_id ON transaction_splits(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transaction splits" ON transaction_splits
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own transaction splits" ON transaction_splits
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own transaction splits" ON transaction_splits
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction splits" ON transaction_splits
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_transaction_splits_updated_at
+  BEFORE UPDATE ON transaction_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+GRANT ALL ON transaction_splits TO authenticated;
+GRANT ALL ON transaction_splits TO service_role;
+
+-- Sum of expenses for a category within [p_start, p_end), counting split transactions
+-- by their allocations instead of their own category.
+-- Replaces the version from 004_budget_periods.sql
+CREATE OR REPLACE FUNCTION budget_spent_between(p_user_id UUID, p_category TEXT, p_start DATE, p_end DATE)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(SUM(allocations.amount), 0)
+  FROM (
+    SELECT t.amount
+    FROM transactions t
+    WHERE t.user_id = p_user_id
+      AND t.category = p_category
+      AND t.type = 'expense'
+      AND t.date >= p_start
+      AND t.date < p_end
+      AND NOT EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+    UNION ALL
+    SELECT s.amount
+    FROM transaction_splits s
+    JOIN transactions t ON t.id = s.transaction_id
+    WHERE t.user_id = p_user_id
+      AND s.category = p_category
+      AND t.type = 'expense'
+      AND t.date >= p_start
+      AND t.date < p_end
+  ) allocations;
+$$ LANGUAGE sql STABLE;
+
+-- Keep budgets in sync when allocations are added, changed or removed
+CREATE OR REPLACE FUNCTION update_budget_spent_for_split()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent_date DATE;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    SELECT date INTO parent_date FROM transactions WHERE id = OLD.transaction_id;
+    IF FOUND THEN
+      PERFORM refresh_budgets_for_transaction(OLD.user_id, OLD.category, parent_date);
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    SELECT date INTO parent_date FROM transactions WHERE id = NEW.transaction_id;
+    PERFORM refresh_budgets_for_transaction(NEW.user_id, NEW.category, parent_date);
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_budget_spent_for_split_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON transaction_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_budget_spent_for_split();
+
+-- Moving or retyping a split transaction moves all of its allocations
+CREATE OR REPLACE FUNCTION update_budget_spent_for_split_parent()
+RETURNS TRIGGER AS $$
+DECLARE
+  split_category TEXT;
+BEGIN
+  IF OLD.type != NEW.type OR OLD.date != NEW.date THEN
+    FOR split_category IN
+      SELECT DISTINCT category FROM transaction_splits WHERE transaction_id = NEW.id
+    LOOP
+      PERFORM refresh_budgets_for_transaction(NEW.user_id, split_category, OLD.date);
+      PERFORM refresh_budgets_for_transaction(NEW.user_id, split_category, NEW.date);
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_budget_spent_for_split_parent_trigger
+  AFTER UPDATE ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_budget_spent_for_split_parent();
+
+-- Remove allocations while the parent still exists, so their budgets are refreshed
+-- against its date rather than relying on the cascade
+CREATE OR REPLACE FUNCTION delete_transaction_splits()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM transaction_splits WHERE transaction_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER delete_transaction_splits_trigger
+  BEFORE DELETE ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_transaction_splits();
@@ -0,0 +1,157 @@
+-- User-managed categories with subcategories, colors and icons
+-- Run this in your Supabase SQL editor after 009_transaction_splits.sql
+
+-- Transactions, splits, budgets and recurring rules keep referring to categories by name;
+-- renaming or merging a category rewrites those names (see rename_category and merge_categories).
+CREATE TABLE categories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  parent_id UUID REFERENCES categories(id) ON DELETE SET NULL CHECK (parent_id IS DISTINCT FROM id),
+  color TEXT NOT NULL DEFAULT '#6b7280' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  icon TEXT NOT NULL DEFAULT 'tag', -- lucide-react icon name, see CATEGORY_ICONS in src/lib/categories.ts
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Names are unique per user regardless of case, so "Dining" and "dining" cannot drift apart
+CREATE UNIQUE INDEX idx_categories_user_id_name ON categories(user_id, lower(name));
+CREATE INDEX idx_categories_parent_id ON categories(parent_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own categories" ON categories
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own categories" ON categories
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categories" ON categories
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categories" ON categories
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+GRANT ALL ON categories TO authenticated;
+GRANT ALL ON categories TO service_role;
+
+-- Point every transaction, split and recurring rule using one category name at another.
+-- The transaction triggers refresh the budgets of both names.
+CREATE OR REPLACE FUNCTION rewrite_category_references(p_user_id UUID, p_from TEXT, p_to TEXT)
+RETURNS void AS $$
+BEGIN
+  UPDATE transactions SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE transaction_splits SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE recurring_transactions SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rename a category along with everything that uses it
+CREATE OR REPLACE FUNCTION rename_category(p_category_id UUID, p_new_name TEXT)
+RETURNS void AS $$
+DECLARE
+  c categories%ROWTYPE;
+  new_name TEXT := trim(p_new_name);
+BEGIN
+  SELECT * INTO c FROM categories WHERE id = p_category_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM categories
+    WHERE user_id = c.user_id AND lower(name) = lower(new_name) AND id <> c.id
+  ) THEN
+    RAISE EXCEPTION 'A category named "%" already exists. Merge the categories instead.', new_name;
+  END IF;
+
+  UPDATE categories SET name = new_name WHERE id = c.id;
+  UPDATE budgets SET category = new_name WHERE user_id = c.user_id AND category = c.name;
+  PERFORM rewrite_category_references(c.user_id, c.name, new_name);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Fold one category into another. A budget of the source on the same period as a budget of
+-- the target is added to it; other source budgets move to the target. Subcategories of the
+-- source move under the target.
+CREATE OR REPLACE FUNCTION merge_categories(p_source_id UUID, p_target_id UUID)
+RETURNS void AS $$
+DECLARE
+  source categories%ROWTYPE;
+  target categories%ROWTYPE;
+  budget_id UUID;
+BEGIN
+  SELECT * INTO source FROM categories WHERE id = p_source_id AND user_id = auth.uid();
+  SELECT * INTO target FROM categories WHERE id = p_target_id AND user_id = auth.uid();
+  IF source.id IS NULL OR target.id IS NULL THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+  IF source.id = target.id THEN
+    RAISE EXCEPTION 'Cannot merge a category into itself';
+  END IF;
+
+  UPDATE budgets t
+  SET budget_amount = t.budget_amount + s.budget_amount
+  FROM budgets s
+  WHERE s.user_id = source.user_id
+    AND s.category = source.name
+    AND t.user_id = source.user_id
+    AND t.category = target.name
+    AND t.period = s.period;
+
+  DELETE FROM budgets s
+  WHERE s.user_id = source.user_id
+    AND s.category = source.name
+    AND EXISTS (
+      SELECT 1 FROM budgets t
+      WHERE t.user_id = s.user_id AND t.category = target.name AND t.period = s.period
+    );
+
+  UPDATE budgets SET category = target.name WHERE user_id = source.user_id AND category = source.name;
+  PERFORM rewrite_category_references(source.user_id, source.name, target.name);
+
+  -- Merging a parent into one of its own children promotes the child to the parent's place
+  UPDATE categories SET parent_id = source.parent_id WHERE id = target.id AND parent_id = source.id;
+  UPDATE categories SET parent_id = target.id WHERE parent_id = source.id;
+  DELETE FROM categories WHERE id = source.id;
+
+  FOR budget_id IN
+    SELECT id FROM budgets WHERE user_id = target.user_id AND category = target.name
+  LOOP
+    PERFORM refresh_budget_spending(budget_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION rename_category TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_categories TO authenticated;
+
+-- Give existing users a category for every name they already use, with the default color and
+-- icon where the name is one of the defaults. Keep in sync with DEFAULT_CATEGORIES in src/lib/categories.ts
+INSERT INTO categories (user_id, name, color, icon)
+SELECT used.user_id, used.category, COALESCE(d.color, '#6b7280'), COALESCE(d.icon, 'tag')
+FROM (
+  SELECT user_id, category FROM transactions WHERE category NOT IN ('Split', 'Transfer')
+  UNION
+  SELECT user_id, category FROM transaction_splits
+  UNION
+  SELECT user_id, category FROM budgets
+) used
+LEFT JOIN (VALUES
+  ('Food & Dining', '#ef4444', 'utensils'),
+  ('Transportation', '#3b82f6', 'car'),
+  ('Shopping', '#8b5cf6', 'shopping-bag'),
+  ('Entertainment', '#ec4899', 'film'),
+  ('Bills & Utilities', '#f59e0b', 'receipt'),
+  ('Healthcare', '#10b981', 'heart-pulse'),
+  ('Income', '#06b6d4', 'banknote'),
+  ('Other', '#6b7280', 'tag')
+) AS d(name, color, icon) ON d.name = used.category
+WHERE trim(used.category) <> ''
+ON CONFLICT (user_id, lower(name)) DO NOTHING;
@@ -0,0 +1,56 @@
+-- Rules that categorize transactions by description, amount, account and type
+-- Run this in your Supabase SQL editor after 010_categories.sql
+
+CREATE TABLE categorization_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  match_type TEXT NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'equals', 'starts_with', 'regex')),
+  pattern TEXT, -- Matched against the description; NULL matches any description
+  amount_min DECIMAL(12,2),
+  amount_max DECIMAL(12,2),
+  account_id UUID REFERENCES accounts(id) ON DELETE CASCADE,
+  transaction_type TEXT CHECK (transaction_type IN ('income', 'expense')),
+  category TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0, -- Lower runs first; the first matching rule wins
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CHECK (amount_min IS NULL OR amount_max IS NULL OR amount_min <= amount_max)
+);
+
+CREATE INDEX idx_categorization_rules_user_id_priority ON categorization_rules(user_id, priority);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE categorization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own categorization rules" ON categorization_rules
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own categorization rules" ON categorization_rules
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categorization rules" ON categorization_rules
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categorization rules" ON categorization_rules
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_categorization_rules_updated_at
+  BEFORE UPDATE ON categorization_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+GRANT ALL ON categorization_rules TO authenticated;
+GRANT ALL ON categorization_rules TO service_role;
+
+-- Renaming or merging a category also retargets the rules assigning it
+CREATE OR REPLACE FUNCTION rewrite_category_references(p_user_id UUID, p_from TEXT, p_to TEXT)
+RETURNS void AS $$
+BEGIN
+  UPDATE transactions SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE transaction_splits SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE recurring_transactions SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE categorization_rules SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+END;
+$$ LANGUAGE plpgsql;
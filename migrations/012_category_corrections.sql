@@ -0,0 +1,49 @@
+-- Categories chosen while reviewing imports, remembered per merchant
+-- Run this in your Supabase SQL editor after 011_categorization_rules.sql
+
+CREATE TABLE category_corrections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  description_key TEXT NOT NULL CHECK (length(description_key) > 0), -- See normalizeDescription in src/lib/categoryLearning.ts
+  description TEXT NOT NULL,
+  category TEXT NOT NULL,
+  times_corrected INTEGER NOT NULL DEFAULT 1 CHECK (times_corrected > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (user_id, description_key)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE category_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own category corrections" ON category_corrections
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own category corrections" ON category_corrections
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own category corrections" ON category_corrections
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own category corrections" ON category_corrections
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_category_corrections_updated_at
+  BEFORE UPDATE ON category_corrections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+GRANT ALL ON category_corrections TO authenticated;
+GRANT ALL ON category_corrections TO service_role;
+
+-- Renaming or merging a category also updates what was learned about it
+CREATE OR REPLACE FUNCTION rewrite_category_references(p_user_id UUID, p_from TEXT, p_to TEXT)
+RETURNS void AS $$
+BEGIN
+  UPDATE transactions SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE transaction_splits SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE recurring_transactions SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE categorization_rules SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE category_corrections SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,8 @@
+-- Bank-assigned ids for imported statement lines (OFX/QFX FITID)
+-- Run this in your Supabase SQL editor after 012_category_corrections.sql
+
+ALTER TABLE transactions ADD COLUMN external_id TEXT;
+
+-- A bank never reuses an id within an account, so the same statement line can't be imported twice
+CREATE UNIQUE INDEX idx_transactions_external_id ON transactions(user_id, account_id, external_id)
+  WHERE external_id IS NOT NULL;
@@ -0,0 +1,56 @@
+-- Saved CSV column mappings, one per bank export format
+-- Run this in your Supabase SQL editor after 013_transaction_external_ids.sql
+
+CREATE TABLE bank_profiles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(name) > 0),
+  header_fingerprint TEXT NOT NULL, -- See getHeaderFingerprint in src/lib/csvMapping.ts
+  mapping JSONB NOT NULL,
+  category_mapping JSONB NOT NULL DEFAULT '{}'::jsonb, -- Bank category -> app category
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (user_id, header_fingerprint)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE bank_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bank profiles" ON bank_profiles
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own bank profiles" ON bank_profiles
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bank profiles" ON bank_profiles
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bank profiles" ON bank_profiles
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_bank_profiles_updated_at
+  BEFORE UPDATE ON bank_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+GRANT ALL ON bank_profiles TO authenticated;
+GRANT ALL ON bank_profiles TO service_role;
+
+-- Renaming or merging a category also updates the bank categories mapped to it
+CREATE OR REPLACE FUNCTION rewrite_category_references(p_user_id UUID, p_from TEXT, p_to TEXT)
+RETURNS void AS $$
+BEGIN
+  UPDATE transactions SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE transaction_splits SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE recurring_transactions SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE categorization_rules SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE category_corrections SET category = p_to WHERE user_id = p_user_id AND category = p_from;
+  UPDATE bank_profiles
+  SET category_mapping = (
+    SELECT jsonb_object_agg(key, CASE WHEN value = to_jsonb(p_from) THEN to_jsonb(p_to) ELSE value END)
+    FROM jsonb_each(category_mapping)
+  )
+  WHERE user_id = p_user_id
+    AND EXISTS (SELECT 1 FROM jsonb_each(category_mapping) WHERE value = to_jsonb(p_from));
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,44 @@
+-- Confirmed imports, so an import can be reviewed and reverted later
+-- Run this in your Supabase SQL editor after 014_bank_profiles.sql
+
+CREATE TABLE import_batches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  file_names TEXT[] NOT NULL DEFAULT '{}',
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  imported_count INTEGER NOT NULL DEFAULT 0 CHECK (imported_count >= 0),
+  duplicate_count INTEGER NOT NULL DEFAULT 0 CHECK (duplicate_count >= 0),
+  error_count INTEGER NOT NULL DEFAULT 0 CHECK (error_count >= 0),
+  reverted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Transactions remember the import that added them; clearing the history keeps the transactions
+ALTER TABLE transactions ADD COLUMN import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_import_batches_user_created ON import_batches(user_id, created_at DESC);
+CREATE INDEX idx_transactions_import_batch ON transactions(import_batch_id) WHERE import_batch_id IS NOT NULL;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import batches" ON import_batches
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own import batches" ON import_batches
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import batches" ON import_batches
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import batches" ON import_batches
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_import_batches_updated_at
+  BEFORE UPDATE ON import_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+GRANT ALL ON import_batches TO authenticated;
+GRANT ALL ON import_batches TO service_role;
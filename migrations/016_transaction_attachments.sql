@@ -0,0 +1,55 @@
+-- Files attached to transactions, such as receipt photos, kept in a private storage bucket
+-- Run this in your Supabase SQL editor after 015_import_batches.sql
+
+CREATE TABLE transaction_attachments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE NOT NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  storage_path TEXT NOT NULL UNIQUE,
+  ocr_text TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_transaction_attachments_transaction ON transaction_attachments(transaction_id);
+CREATE INDEX idx_transaction_attachments_user ON transaction_attachments(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE transaction_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transaction attachments" ON transaction_attachments
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own transaction attachments" ON transaction_attachments
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own transaction attachments" ON transaction_attachments
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction attachments" ON transaction_attachments
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_transaction_attachments_updated_at
+  BEFORE UPDATE ON transaction_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+GRANT ALL ON transaction_attachments TO authenticated;
+GRANT ALL ON transaction_attachments TO service_role;
+
+-- The files themselves; each user's files live under a folder named after their id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own attachment files" ON storage.objects
+  FOR SELECT USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload their own attachment files" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own attachment files" ON storage.objects
+  FOR DELETE USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
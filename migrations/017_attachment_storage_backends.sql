@@ -0,0 +1,7 @@
+-- Attachments record where their file is kept, so self-hosted installs can keep files on
+-- the server's disk (NEXT_PUBLIC_ATTACHMENT_STORAGE=local) instead of Supabase Storage
+-- Run this in your Supabase SQL editor after 016_transaction_attachments.sql
+
+ALTER TABLE transaction_attachments
+  ADD COLUMN storage_backend TEXT NOT NULL DEFAULT 'supabase'
+  CHECK (storage_backend IN ('supabase', 'local'));
@@ -0,0 +1,100 @@
+-- Restoring a JSON backup from the Data tab in one database transaction
+-- Run this in your Supabase SQL editor after 017_attachment_storage_backends.sql
+
+-- Create or overwrite the given transactions, budgets and goals of the current user. The
+-- rows are the database columns as JSON, with each transaction's allocations in "splits".
+-- A function runs as a single transaction, so if any row fails nothing is restored.
+-- Rows whose id belongs to another user are left alone.
+CREATE OR REPLACE FUNCTION restore_backup(p_transactions JSONB, p_budgets JSONB, p_goals JSONB)
+RETURNS void AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO transactions (
+    id, user_id, date, description, category, amount, type,
+    account_id, transfer_account_id, recurring_transaction_id, external_id, import_batch_id
+  )
+  SELECT
+    t.id, v_user_id, t.date, t.description, t.category, t.amount, t.type::transaction_type,
+    t.account_id, t.transfer_account_id, t.recurring_transaction_id, t.external_id, t.import_batch_id
+  FROM jsonb_to_recordset(COALESCE(p_transactions, '[]'::jsonb)) AS t(
+    id UUID, date DATE, description TEXT, category TEXT, amount DECIMAL(12, 2), type TEXT,
+    account_id UUID, transfer_account_id UUID, recurring_transaction_id UUID, external_id TEXT, import_batch_id UUID
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    date = EXCLUDED.date,
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    amount = EXCLUDED.amount,
+    type = EXCLUDED.type,
+    account_id = EXCLUDED.account_id,
+    transfer_account_id = EXCLUDED.transfer_account_id,
+    recurring_transaction_id = EXCLUDED.recurring_transaction_id,
+    external_id = EXCLUDED.external_id,
+    import_batch_id = EXCLUDED.import_batch_id
+  WHERE transactions.user_id = v_user_id;
+
+  -- The allocations of restored transactions are replaced by the backup's
+  DELETE FROM transaction_splits
+  WHERE user_id = v_user_id
+    AND transaction_id IN (SELECT (value->>'id')::UUID FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::jsonb)));
+
+  INSERT INTO transaction_splits (transaction_id, user_id, category, amount, note)
+  SELECT (t.value->>'id')::UUID, v_user_id, s.category, s.amount, s.note
+  FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::jsonb)) AS t,
+    jsonb_to_recordset(COALESCE(t.value->'splits', '[]'::jsonb)) AS s(category TEXT, amount DECIMAL(12, 2), note TEXT)
+  WHERE EXISTS (
+    SELECT 1 FROM transactions WHERE id = (t.value->>'id')::UUID AND user_id = v_user_id
+  );
+
+  INSERT INTO budgets (
+    id, user_id, category, budget_amount, spent_amount, period, period_start_day,
+    current_period_start, rollover_policy, rollover_cap
+  )
+  SELECT
+    b.id, v_user_id, b.category, b.budget_amount, 0, b.period, b.period_start_day,
+    b.current_period_start, b.rollover_policy, b.rollover_cap
+  FROM jsonb_to_recordset(COALESCE(p_budgets, '[]'::jsonb)) AS b(
+    id UUID, category TEXT, budget_amount DECIMAL(12, 2), period TEXT, period_start_day INTEGER,
+    current_period_start DATE, rollover_policy TEXT, rollover_cap DECIMAL(12, 2)
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    category = EXCLUDED.category,
+    budget_amount = EXCLUDED.budget_amount,
+    period = EXCLUDED.period,
+    period_start_day = EXCLUDED.period_start_day,
+    rollover_policy = EXCLUDED.rollover_policy,
+    rollover_cap = EXCLUDED.rollover_cap
+  WHERE budgets.user_id = v_user_id;
+
+  INSERT INTO goals (
+    id, user_id, name, type, target_amount, current_amount, target_date, priority, category, description
+  )
+  SELECT
+    g.id, v_user_id, g.name, g.type::goal_type, g.target_amount, g.current_amount, g.target_date,
+    g.priority::goal_priority, g.category, g.description
+  FROM jsonb_to_recordset(COALESCE(p_goals, '[]'::jsonb)) AS g(
+    id UUID, name TEXT, type TEXT, target_amount DECIMAL(12, 2), current_amount DECIMAL(12, 2),
+    target_date DATE, priority TEXT, category TEXT, description TEXT
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    type = EXCLUDED.type,
+    target_amount = EXCLUDED.target_amount,
+    current_amount = EXCLUDED.current_amount,
+    target_date = EXCLUDED.target_date,
+    priority = EXCLUDED.priority,
+    category = EXCLUDED.category,
+    description = EXCLUDED.description
+  WHERE goals.user_id = v_user_id;
+
+  -- Spending of every budget, including restored ones, from the restored transactions
+  PERFORM refresh_all_budget_spent_amounts(v_user_id);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION restore_backup TO authenticated;
@@ -0,0 +1,41 @@
+-- Settings from the Preferences and Appearance tabs, one row per user
+-- Run this in your Supabase SQL editor after 018_restore_backup.sql
+
+CREATE TABLE user_preferences (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'), -- ISO 4217 code
+  locale TEXT NOT NULL DEFAULT 'en-US', -- BCP 47 tag for number separators and month names
+  date_format TEXT NOT NULL DEFAULT 'MM/DD/YYYY' CHECK (date_format IN ('MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD')),
+  notifications BOOLEAN NOT NULL DEFAULT true,
+  email_reports BOOLEAN NOT NULL DEFAULT false,
+  budget_alerts BOOLEAN NOT NULL DEFAULT true,
+  theme TEXT NOT NULL DEFAULT 'light' CHECK (theme IN ('light', 'dark', 'system')),
+  accent_color TEXT NOT NULL DEFAULT 'blue',
+  font_size TEXT NOT NULL DEFAULT 'medium' CHECK (font_size IN ('small', 'medium', 'large')),
+  compact_mode BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own preferences" ON user_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own preferences" ON user_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own preferences" ON user_preferences
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own preferences" ON user_preferences
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_preferences_updated_at
+  BEFORE UPDATE ON user_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+GRANT ALL ON user_preferences TO authenticated;
+GRANT ALL ON user_preferences TO service_role;
@@ -0,0 +1,228 @@
+-- Transactions in other currencies, and the exchange rates that convert them to the base currency
+-- Run this in your Supabase SQL editor after 019_user_preferences.sql
+
+-- The currency from the user's preferences, US dollars until they pick one
+CREATE OR REPLACE FUNCTION user_base_currency(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE((SELECT currency FROM user_preferences WHERE user_id = p_user_id), 'USD');
+$$ LANGUAGE sql STABLE;
+
+-- Currency the amount is in. Existing transactions and recurring rules were entered in the
+-- base currency, so they keep it even if the user picks another one later.
+ALTER TABLE transactions ADD COLUMN currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
+UPDATE transactions SET currency = user_base_currency(user_id);
+ALTER TABLE transactions ALTER COLUMN currency SET NOT NULL;
+
+ALTER TABLE recurring_transactions ADD COLUMN currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
+UPDATE recurring_transactions SET currency = user_base_currency(user_id);
+ALTER TABLE recurring_transactions ALTER COLUMN currency SET NOT NULL;
+
+-- Rows added without a currency (older clients, backups from before this migration) get the
+-- base currency they were entered in
+CREATE OR REPLACE FUNCTION set_base_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    NEW.currency := user_base_currency(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_transactions_currency
+  BEFORE INSERT ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_base_currency();
+
+CREATE TRIGGER set_recurring_transactions_currency
+  BEFORE INSERT ON recurring_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_base_currency();
+
+-- What one unit of from_currency was worth in to_currency on a day
+CREATE TABLE exchange_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  date DATE NOT NULL,
+  from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate DECIMAL(18, 8) NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'csv' CHECK (source IN ('csv', 'manual', 'local')), -- 'local' for the built-in reference rates
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CHECK (from_currency <> to_currency),
+  UNIQUE (user_id, date, from_currency, to_currency)
+);
+
+CREATE INDEX idx_exchange_rates_pair ON exchange_rates(user_id, from_currency, to_currency, date);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exchange rates" ON exchange_rates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own exchange rates" ON exchange_rates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates" ON exchange_rates
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates" ON exchange_rates
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+GRANT ALL ON exchange_rates TO authenticated;
+GRANT ALL ON exchange_rates TO service_role;
+
+-- Rate from one currency to another on a day: the latest saved rate on or before it, else the
+-- earliest one after it, reading each pair in both directions. 1 when the user has no rate
+-- for the pair; the app saves reference rates for the transactions it adds, so that is rare.
+-- Mirrors createCurrencyConverter in src/lib/currency.ts
+CREATE OR REPLACE FUNCTION fx_rate(p_user_id UUID, p_from TEXT, p_to TEXT, p_date DATE)
+RETURNS DECIMAL AS $$
+  SELECT CASE WHEN p_from = p_to THEN 1 ELSE COALESCE((
+    SELECT rates.rate
+    FROM (
+      SELECT r.rate, r.date
+      FROM exchange_rates r
+      WHERE r.user_id = p_user_id AND r.from_currency = p_from AND r.to_currency = p_to
+      UNION ALL
+      SELECT 1 / r.rate, r.date
+      FROM exchange_rates r
+      WHERE r.user_id = p_user_id AND r.from_currency = p_to AND r.to_currency = p_from
+    ) rates
+    ORDER BY rates.date > p_date, ABS(rates.date - p_date)
+    LIMIT 1
+  ), 1) END;
+$$ LANGUAGE sql STABLE;
+
+-- Sum of expenses for a category within [p_start, p_end) in the user's base currency, counting
+-- split transactions by their allocations instead of their own category.
+-- Replaces the version from 009_transaction_splits.sql
+CREATE OR REPLACE FUNCTION budget_spent_between(p_user_id UUID, p_category TEXT, p_start DATE, p_end DATE)
+RETURNS DECIMAL AS $$
+  WITH base AS (SELECT user_base_currency(p_user_id) AS currency)
+  SELECT COALESCE(SUM(allocations.amount * fx_rate(p_user_id, allocations.currency, base.currency, allocations.date)), 0)
+  FROM base, (
+    SELECT t.amount, t.currency, t.date
+    FROM transactions t
+    WHERE t.user_id = p_user_id
+      AND t.category = p_category
+      AND t.type = 'expense'
+      AND t.date >= p_start
+      AND t.date < p_end
+      AND NOT EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id)
+    UNION ALL
+    SELECT s.amount, t.currency, t.date
+    FROM transaction_splits s
+    JOIN transactions t ON t.id = s.transaction_id
+    WHERE t.user_id = p_user_id
+      AND s.category = p_category
+      AND t.type = 'expense'
+      AND t.date >= p_start
+      AND t.date < p_end
+  ) allocations;
+$$ LANGUAGE sql STABLE;
+
+-- Backups carry each transaction's currency.
+-- Replaces the version from 018_restore_backup.sql
+CREATE OR REPLACE FUNCTION restore_backup(p_transactions JSONB, p_budgets JSONB, p_goals JSONB)
+RETURNS void AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO transactions (
+    id, user_id, date, description, category, amount, type,
+    account_id, transfer_account_id, recurring_transaction_id, external_id, import_batch_id, currency
+  )
+  SELECT
+    t.id, v_user_id, t.date, t.description, t.category, t.amount, t.type::transaction_type,
+    t.account_id, t.transfer_account_id, t.recurring_transaction_id, t.external_id, t.import_batch_id, t.currency
+  FROM jsonb_to_recordset(COALESCE(p_transactions, '[]'::jsonb)) AS t(
+    id UUID, date DATE, description TEXT, category TEXT, amount DECIMAL(12, 2), type TEXT,
+    account_id UUID, transfer_account_id UUID, recurring_transaction_id UUID, external_id TEXT, import_batch_id UUID,
+    currency TEXT
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    date = EXCLUDED.date,
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    amount = EXCLUDED.amount,
+    type = EXCLUDED.type,
+    account_id = EXCLUDED.account_id,
+    transfer_account_id = EXCLUDED.transfer_account_id,
+    recurring_transaction_id = EXCLUDED.recurring_transaction_id,
+    external_id = EXCLUDED.external_id,
+    import_batch_id = EXCLUDED.import_batch_id,
+    currency = EXCLUDED.currency
+  WHERE transactions.user_id = v_user_id;
+
+  -- The allocations of restored transactions are replaced by the backup's
+  DELETE FROM transaction_splits
+  WHERE user_id = v_user_id
+    AND transaction_id IN (SELECT (value->>'id')::UUID FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::jsonb)));
+
+  INSERT INTO transaction_splits (transaction_id, user_id, category, amount, note)
+  SELECT (t.value->>'id')::UUID, v_user_id, s.category, s.amount, s.note
+  FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::jsonb)) AS t,
+    jsonb_to_recordset(COALESCE(t.value->'splits', '[]'::jsonb)) AS s(category TEXT, amount DECIMAL(12, 2), note TEXT)
+  WHERE EXISTS (
+    SELECT 1 FROM transactions WHERE id = (t.value->>'id')::UUID AND user_id = v_user_id
+  );
+
+  INSERT INTO budgets (
+    id, user_id, category, budget_amount, spent_amount, period, period_start_day,
+    current_period_start, rollover_policy, rollover_cap
+  )
+  SELECT
+    b.id, v_user_id, b.category, b.budget_amount, 0, b.period, b.period_start_day,
+    b.current_period_start, b.rollover_policy, b.rollover_cap
+  FROM jsonb_to_recordset(COALESCE(p_budgets, '[]'::jsonb)) AS b(
+    id UUID, category TEXT, budget_amount DECIMAL(12, 2), period TEXT, period_start_day INTEGER,
+    current_period_start DATE, rollover_policy TEXT, rollover_cap DECIMAL(12, 2)
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    category = EXCLUDED.category,
+    budget_amount = EXCLUDED.budget_amount,
+    period = EXCLUDED.period,
+    period_start_day = EXCLUDED.period_start_day,
+    rollover_policy = EXCLUDED.rollover_policy,
+    rollover_cap = EXCLUDED.rollover_cap
+  WHERE budgets.user_id = v_user_id;
+
+  INSERT INTO goals (
+    id, user_id, name, type, target_amount, current_amount, target_date, priority, category, description
+  )
+  SELECT
+    g.id, v_user_id, g.name, g.type::goal_type, g.target_amount, g.current_amount, g.target_date,
+    g.priority::goal_priority, g.category, g.description
+  FROM jsonb_to_recordset(COALESCE(p_goals, '[]'::jsonb)) AS g(
+    id UUID, name TEXT, type TEXT, target_amount DECIMAL(12, 2), current_amount DECIMAL(12, 2),
+    target_date DATE, priority TEXT, category TEXT, description TEXT
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    type = EXCLUDED.type,
+    target_amount = EXCLUDED.target_amount,
+    current_amount = EXCLUDED.current_amount,
+    target_date = EXCLUDED.target_date,
+    priority = EXCLUDED.priority,
+    category = EXCLUDED.category,
+    description = EXCLUDED.description
+  WHERE goals.user_id = v_user_id;
+
+  -- Spending of every budget, including restored ones, from the restored transactions
+  PERFORM refresh_all_budget_spent_amounts(v_user_id);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION restore_backup TO authenticated;
@@ -0,0 +1,7 @@
+-- Existing transactions an import changed, so reverting it can put them back
+-- Run this in your Supabase SQL editor after 020_multi_currency.sql
+
+-- Each entry is a transaction as it was before the import merged a duplicate into it or
+-- turned it into a transfer: id, date, description, category, amount, currency, type,
+-- account_id, transfer_account_id and external_id
+ALTER TABLE import_batches ADD COLUMN changed_transactions JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,200 @@
+-- Backups also restore recurring rules, categorization rules, category corrections and preferences
+-- Run this in your Supabase SQL editor after 021_import_batch_changes.sql
+
+-- Replaced by the version below, which takes the rules, corrections and preferences too
+DROP FUNCTION IF EXISTS restore_backup(JSONB, JSONB, JSONB);
+
+-- Create or overwrite the given records of the current user in one database transaction; if any
+-- row fails nothing is restored. Preferences are left as they are when p_preferences is NULL.
+-- Replaces the version from 020_multi_currency.sql
+CREATE OR REPLACE FUNCTION restore_backup(
+  p_transactions JSONB,
+  p_budgets JSONB,
+  p_goals JSONB,
+  p_recurring_transactions JSONB,
+  p_categorization_rules JSONB,
+  p_category_corrections JSONB,
+  p_preferences JSONB
+)
+RETURNS void AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Recurring rules first, so the restored transactions can link to them
+  INSERT INTO recurring_transactions (
+    id, user_id, description, category, amount, currency, type, frequency, account_id,
+    start_date, end_date, next_occurrence, amount_variance, is_active
+  )
+  SELECT
+    r.id, v_user_id, r.description, r.category, r.amount, r.currency, r.type, r.frequency::recurring_frequency, r.account_id,
+    r.start_date, r.end_date, r.next_occurrence, r.amount_variance, r.is_active
+  FROM jsonb_to_recordset(COALESCE(p_recurring_transactions, '[]'::jsonb)) AS r(
+    id UUID, description TEXT, category TEXT, amount DECIMAL(12, 2), currency TEXT, type TEXT, frequency TEXT,
+    account_id UUID, start_date DATE, end_date DATE, next_occurrence DATE, amount_variance DECIMAL(5, 2), is_active BOOLEAN
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    amount = EXCLUDED.amount,
+    currency = EXCLUDED.currency,
+    type = EXCLUDED.type,
+    frequency = EXCLUDED.frequency,
+    account_id = EXCLUDED.account_id,
+    start_date = EXCLUDED.start_date,
+    end_date = EXCLUDED.end_date,
+    next_occurrence = EXCLUDED.next_occurrence,
+    amount_variance = EXCLUDED.amount_variance,
+    is_active = EXCLUDED.is_active
+  WHERE recurring_transactions.user_id = v_user_id;
+
+  INSERT INTO transactions (
+    id, user_id, date, description, category, amount, type,
+    account_id, transfer_account_id, recurring_transaction_id, external_id, import_batch_id, currency
+  )
+  SELECT
+    t.id, v_user_id, t.date, t.description, t.category, t.amount, t.type::transaction_type,
+    t.account_id, t.transfer_account_id, t.recurring_transaction_id, t.external_id, t.import_batch_id, t.currency
+  FROM jsonb_to_recordset(COALESCE(p_transactions, '[]'::jsonb)) AS t(
+    id UUID, date DATE, description TEXT, category TEXT, amount DECIMAL(12, 2), type TEXT,
+    account_id UUID, transfer_account_id UUID, recurring_transaction_id UUID, external_id TEXT, import_batch_id UUID,
+    currency TEXT
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    date = EXCLUDED.date,
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    amount = EXCLUDED.amount,
+    type = EXCLUDED.type,
+    account_id = EXCLUDED.account_id,
+    transfer_account_id = EXCLUDED.transfer_account_id,
+    recurring_transaction_id = EXCLUDED.recurring_transaction_id,
+    external_id = EXCLUDED.external_id,
+    import_batch_id = EXCLUDED.import_batch_id,
+    currency = EXCLUDED.currency
+  WHERE transactions.user_id = v_user_id;
+
+  -- The allocations of restored transactions are replaced by the backup's
+  DELETE FROM transaction_splits
+  WHERE user_id = v_user_id
+    AND transaction_id IN (SELECT (value->>'id')::UUID FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::jsonb)));
+
+  INSERT INTO transaction_splits (transaction_id, user_id, category, amount, note)
+  SELECT (t.value->>'id')::UUID, v_user_id, s.category, s.amount, s.note
+  FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::jsonb)) AS t,
+    jsonb_to_recordset(COALESCE(t.value->'splits', '[]'::jsonb)) AS s(category TEXT, amount DECIMAL(12, 2), note TEXT)
+  WHERE EXISTS (
+    SELECT 1 FROM transactions WHERE id = (t.value->>'id')::UUID AND user_id = v_user_id
+  );
+
+  INSERT INTO budgets (
+    id, user_id, category, budget_amount, spent_amount, period, period_start_day,
+    current_period_start, rollover_policy, rollover_cap
+  )
+  SELECT
+    b.id, v_user_id, b.category, b.budget_amount, 0, b.period, b.period_start_day,
+    b.current_period_start, b.rollover_policy, b.rollover_cap
+  FROM jsonb_to_recordset(COALESCE(p_budgets, '[]'::jsonb)) AS b(
+    id UUID, category TEXT, budget_amount DECIMAL(12, 2), period TEXT, period_start_day INTEGER,
+    current_period_start DATE, rollover_policy TEXT, rollover_cap DECIMAL(12, 2)
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    category = EXCLUDED.category,
+    budget_amount = EXCLUDED.budget_amount,
+    period = EXCLUDED.period,
+    period_start_day = EXCLUDED.period_start_day,
+    rollover_policy = EXCLUDED.rollover_policy,
+    rollover_cap = EXCLUDED.rollover_cap
+  WHERE budgets.user_id = v_user_id;
+
+  INSERT INTO goals (
+    id, user_id, name, type, target_amount, current_amount, target_date, priority, category, description
+  )
+  SELECT
+    g.id, v_user_id, g.name, g.type::goal_type, g.target_amount, g.current_amount, g.target_date,
+    g.priority::goal_priority, g.category, g.description
+  FROM jsonb_to_recordset(COALESCE(p_goals, '[]'::jsonb)) AS g(
+    id UUID, name TEXT, type TEXT, target_amount DECIMAL(12, 2), current_amount DECIMAL(12, 2),
+    target_date DATE, priority TEXT, category TEXT, description TEXT
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    type = EXCLUDED.type,
+    target_amount = EXCLUDED.target_amount,
+    current_amount = EXCLUDED.current_amount,
+    target_date = EXCLUDED.target_date,
+    priority = EXCLUDED.priority,
+    category = EXCLUDED.category,
+    description = EXCLUDED.description
+  WHERE goals.user_id = v_user_id;
+
+  INSERT INTO categorization_rules (
+    id, user_id, name, match_type, pattern, amount_min, amount_max, account_id, transaction_type,
+    category, priority, is_active
+  )
+  SELECT
+    r.id, v_user_id, r.name, r.match_type, r.pattern, r.amount_min, r.amount_max, r.account_id, r.transaction_type,
+    r.category, r.priority, r.is_active
+  FROM jsonb_to_recordset(COALESCE(p_categorization_rules, '[]'::jsonb)) AS r(
+    id UUID, name TEXT, match_type TEXT, pattern TEXT, amount_min DECIMAL(12, 2), amount_max DECIMAL(12, 2),
+    account_id UUID, transaction_type TEXT, category TEXT, priority INTEGER, is_active BOOLEAN
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    match_type = EXCLUDED.match_type,
+    pattern = EXCLUDED.pattern,
+    amount_min = EXCLUDED.amount_min,
+    amount_max = EXCLUDED.amount_max,
+    account_id = EXCLUDED.account_id,
+    transaction_type = EXCLUDED.transaction_type,
+    category = EXCLUDED.category,
+    priority = EXCLUDED.priority,
+    is_active = EXCLUDED.is_active
+  WHERE categorization_rules.user_id = v_user_id;
+
+  INSERT INTO category_corrections (id, user_id, description_key, description, category, times_corrected)
+  SELECT c.id, v_user_id, c.description_key, c.description, c.category, c.times_corrected
+  FROM jsonb_to_recordset(COALESCE(p_category_corrections, '[]'::jsonb)) AS c(
+    id UUID, description_key TEXT, description TEXT, category TEXT, times_corrected INTEGER
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    description_key = EXCLUDED.description_key,
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    times_corrected = EXCLUDED.times_corrected
+  WHERE category_corrections.user_id = v_user_id;
+
+  IF p_preferences IS NOT NULL THEN
+    INSERT INTO user_preferences (
+      user_id, currency, locale, date_format, notifications, email_reports, budget_alerts,
+      theme, accent_color, font_size, compact_mode
+    )
+    SELECT
+      v_user_id, p.currency, p.locale, p.date_format, p.notifications, p.email_reports, p.budget_alerts,
+      p.theme, p.accent_color, p.font_size, p.compact_mode
+    FROM jsonb_to_record(p_preferences) AS p(
+      currency TEXT, locale TEXT, date_format TEXT, notifications BOOLEAN, email_reports BOOLEAN, budget_alerts BOOLEAN,
+      theme TEXT, accent_color TEXT, font_size TEXT, compact_mode BOOLEAN
+    )
+    ON CONFLICT (user_id) DO UPDATE SET
+      currency = EXCLUDED.currency,
+      locale = EXCLUDED.locale,
+      date_format = EXCLUDED.date_format,
+      notifications = EXCLUDED.notifications,
+      email_reports = EXCLUDED.email_reports,
+      budget_alerts = EXCLUDED.budget_alerts,
+      theme = EXCLUDED.theme,
+      accent_color = EXCLUDED.accent_color,
+      font_size = EXCLUDED.font_size,
+      compact_mode = EXCLUDED.compact_mode;
+  END IF;
+
+  -- Spending of every budget, including restored ones, from the restored transactions
+  PERFORM refresh_all_budget_spent_amounts(v_user_id);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION restore_backup TO authenticated;
@@ -0,0 +1,275 @@
+'use client'
+
+import { useState } from 'react'
+import { Wallet, Plus, Trash2, Edit, Landmark } from 'lucide-react'
+import Header from '@/components/layout/Header'
+import Sidebar from '@/components/layout/Sidebar'
+import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { ACCOUNT_TYPES, affectsAccount, getAccountTypeLabel } from '@/lib/accounts'
+import { Account, AccountType } from '@/types'
+
+const emptyAccount = {
+  name: '',
+  type: 'checking' as AccountType,
+  institution: '',
+  openingBalance: 0,
+  currency: 'USD'
+}
+
+export default function AccountsPage() {
+  const { accounts, transactions, addAccount, updateAccount, deleteAccount, getAccountBalance, getTotalBalance } = useApp()
+  const { formatCurrency } = usePreferences()
+  const [showModal, setShowModal] = useState(false)
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null)
+  const [formData, setFormData] = useState(emptyAccount)
+  const [error, setError] = useState<string | null>(null)
+
+  const openAddModal = () => {
+    setEditingAccount(null)
+    setFormData(emptyAccount)
+    setError(null)
+    setShowModal(true)
+  }
+
+  const openEditModal = (account: Account) => {
+    setEditingAccount(account)
+    setFormData({
+      name: account.name,
+      type: account.type,
+      institution: account.institution || '',
+      openingBalance: account.openingBalance,
+      currency: account.currency
+    })
+    setError(null)
+    setShowModal(true)
+  }
+
+  const saveAccount = async () => {
+    if (!formData.name.trim()) {
+      setError('Please enter an account name')
+      return
+    }
+
+    try {
+      const account = {
+        ...formData,
+        name: formData.name.trim(),
+        institution: formData.institution.trim() || undefined,
+        currency: formData.currency.trim().toUpperCase() || 'USD'
+      }
+      if (editingAccount) {
+        await updateAccount(editingAccount.id, account)
+      } else {
+        await addAccount(account)
+      }
+      setShowModal(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save account')
+    }
+  }
+
+  const removeAccount = async (account: Account) => {
+    if (!confirm(`Delete ${account.name}? Its transactions will be kept without an account.`)) return
+    try {
+      await deleteAccount(account.id)
+    } catch (err) {
+      console.error('Failed to delete account:', err)
+    }
+  }
+
+  // Totals are in the base currency; each account's balance stays in its own
+  const liquidBalance = getTotalBalance()
+  const netWorth = getTotalBalance(ACCOUNT_TYPES.map(t => t.value))
+  const unassignedCount = transactions.filter(t => !t.accountId).length
+
+  return (
+    <div className="min-h-screen">
+      <Header title="Accounts" />
+
+      <div className="flex">
+        <Sidebar currentPage="accounts" />
+
+        <main className="flex-1 p-8">
+          <div className="max-w-7xl mx-auto space-y-8">
+            {/* Page Header */}
+            <div className="flex items-start justify-between mb-8 animate-in">
+              <div>
+                <h1 className="text-2xl font-bold text-secondary-900 dark:text-secondary-100 mb-2">Accounts</h1>
+                <p className="text-secondary-600 dark:text-secondary-400 font-medium">
+                  Checking, savings, credit cards and cash with balances computed from your transactions
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={openAddModal}
+                className="btn-primary inline-flex items-center space-x-2 px-6 py-3"
+              >
+                <Plus className="w-5 h-5" />
+                <span>Add Account</span>
+              </button>
+            </div>
+
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl p-6 border border-white/20 dark:border-secondary-700/50 shadow-soft">
+                <h3 className="font-bold text-secondary-900 dark:text-secondary-100 mb-2">Available Cash</h3>
+                <p className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">{formatCurrency(liquidBalance)}</p>
+                <p className="text-sm text-secondary-600 dark:text-secondary-400">Checking, savings and cash</p>
+              </div>
+              <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl p-6 border border-white/20 dark:border-secondary-700/50 shadow-soft">
+                <h3 className="font-bold text-secondary-900 dark:text-secondary-100 mb-2">Net Balance</h3>
+                <p className={`text-2xl font-bold ${netWorth < 0 ? 'text-danger-600' : 'text-secondary-900 dark:text-secondary-100'}`}>
+                  {formatCurrency(netWorth)}
+                </p>
+                <p className="text-sm text-secondary-600 dark:text-secondary-400">Across {accounts.length} accounts</p>
+              </div>
+              <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl p-6 border border-white/20 dark:border-secondary-700/50 shadow-soft">
+                <h3 className="font-bold text-secondary-900 dark:text-secondary-100 mb-2">Unassigned Transactions</h3>
+                <p className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">{unassignedCount}</p>
+                <p className="text-sm text-secondary-600 dark:text-secondary-400">Not counted in any account balance</p>
+              </div>
+            </div>
+
+            {/* Account List */}
+            {accounts.length === 0 ? (
+              <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-secondary-700/50 p-16 shadow-soft text-center">
+                <div className="w-16 h-16 bg-gradient-to-br from-primary-50 dark:from-primary-900/20 to-primary-100 dark:to-primary-900/20 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                  <Wallet className="w-8 h-8 text-primary-400" />
+                </div>
+                <h3 className="text-xl font-bold text-secondary-900 dark:text-secondary-100 mb-3">No accounts yet</h3>
+                <p className="text-secondary-600 dark:text-secondary-400 font-medium">Add your accounts so forecasts start from your real balances</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {accounts.map((account) => {
+                  const balance = getAccountBalance(account.id)
+                  const transactionCount = transactions.filter(t => affectsAccount(t, account.id)).length
+                  return (
+                    <div key={account.id} className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl p-6 border border-white/20 dark:border-secondary-700/50 shadow-soft">
+                      <div className="flex items-start justify-between mb-4">
+                        <div className="flex items-center space-x-3">
+                          <div className="w-10 h-10 bg-primary-100 dark:bg-primary-900/30 rounded-xl flex items-center justify-center">
+                            <Landmark className="w-5 h-5 text-primary-600" />
+                          </div>
+                          <div>
+                            <h4 className="font-bold text-secondary-900 dark:text-secondary-100">{account.name}</h4>
+                            <p className="text-xs text-secondary-600 dark:text-secondary-400">
+                              {getAccountTypeLabel(account.type)}
+                              {account.institution && ` · ${account.institution}`}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <button
+                            type="button"
+                            onClick={() => openEditModal(account)}
+                            className="p-2 text-secondary-400 dark:text-secondary-500 hover:text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/30 rounded-xl transition-colors"
+                            title="Edit account"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => removeAccount(account)}
+                            className="p-2 text-secondary-400 dark:text-secondary-500 hover:text-danger-600 hover:bg-danger-50 dark:hover:bg-danger-900/30 rounded-xl transition-colors"
+                            title="Delete account"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                      <p className={`text-2xl font-bold ${balance < 0 ? 'text-danger-600' : 'text-secondary-900 dark:text-secondary-100'}`}>
+                        {formatCurrency(balance, { currency: account.currency })}
+                      </p>
+                      <p className="text-sm text-secondary-600 dark:text-secondary-400">
+                        {transactionCount} transactions · opened with {formatCurrency(account.openingBalance, { currency: account.currency })}
+                      </p>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+
+      {/* Add/Edit Account Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 w-full max-w-md mx-4">
+            <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100 mb-4">{editingAccount ? 'Edit Account' : 'Add Account'}</h3>
+            {error && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 mb-4">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+            <div className="space-y-4">
+              <input
+                type="text"
+                placeholder="Account name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-primary-500"
+              />
+              <select
+                value={formData.type}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value as AccountType })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-primary-500"
+              >
+                {ACCOUNT_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>
+                    {type.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="Institution (optional)"
+                value={formData.institution}
+                onChange={(e) => setFormData({ ...formData, institution: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-primary-500"
+              />
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-secondary-400 mb-1">
+                  Opening balance {formData.type === 'credit_card' && '(negative for an amount owed)'}
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={formData.openingBalance}
+                  onChange={(e) => setFormData({ ...formData, openingBalance: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-primary-500"
+                />
+              </div>
+              <input
+                type="text"
+                placeholder="Currency (e.g. USD)"
+                maxLength={3}
+                value={formData.currency}
+                onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+            <div className="flex space-x-3 mt-6">
+              <button
+                type="button"
+                onClick={saveAccount}
+                className="flex-1 px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600"
+              >
+                {editingAccount ? 'Save Changes' : 'Add Account'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowModal(false)}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-secondary-600 text-gray-700 dark:text-secondary-300 rounded-lg hover:bg-gray-50 dark:hover:bg-secondary-700"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
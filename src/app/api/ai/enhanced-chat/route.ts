@@ -3,6 +3,10 @@ import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
 import { aiChatService } from '@/services/aiChatService'
 import { FinancialContext } from '@/types'
+import { DatabaseUserPreferences, mapDatabaseToPreferences } from '@/services/preferences'
+import { DatabaseExchangeRate, mapDatabaseToExchangeRate } from '@/services/exchangeRates'
+import { convertTransactions, createCurrencyConverter } from '@/lib/currency'
+import { DEFAULT_PREFERENCES } from '@/lib/formatting'
 
 // Ensure Node.js runtime for compatibility with Google Gemini SDK
 export const runtime = 'nodejs'
@@ -61,7 +65,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Fetch user's financial data
-    const [transactionsResult, budgetsResult] = await Promise.all([
+    const [transactionsResult, budgetsResult, preferencesResult, ratesResult] = await Promise.all([
       supabase
         .from('transactions')
         .select('*')
@@ -71,6 +75,15 @@ export async function POST(request: NextRequest) {
       supabase
         .from('budgets')
         .select('*')
+        .eq('user_id', user.id),
+      supabase
+        .from('user_preferences')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle(),
+      supabase
+        .from('exchange_rates')
+        .select('*')
         .eq('user_id', user.id)
     ])
 
@@ -90,10 +103,28 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const transactions = (transactionsResult.data || []).map(t => ({
+    // Without saved preferences the prompt falls back to US dollars
+    if (preferencesResult.error) {
+      console.warn('[enhanced-chat] Supabase preferences fetch error:', preferencesResult.error)
+    }
+    const preferences = preferencesResult.data
+      ? mapDatabaseToPreferences(preferencesResult.data as DatabaseUserPreferences)
+      : undefined
+
+    // Amounts in the base currency, converted at each transaction's date like the app does
+    if (ratesResult.error) {
+      console.warn('[enhanced-chat] Supabase exchange rates fetch error:', ratesResult.error)
+    }
+    const currencyConverter = createCurrencyConverter(
+      preferences?.currency || DEFAULT_PREFERENCES.currency,
+      ((ratesResult.data || []) as DatabaseExchangeRate[]).map(mapDatabaseToExchangeRate)
+    )
+    const transactions = convertTransactions((transactionsResult.data || []).map(t => ({
       ...t,
+      amount: Number(t.amount) || 0,
+      currency: t.currency || undefined,
       date: new Date(t.date)
-    }))
+    })), currencyConverter)
 
     // Map budgets from DB shape to app shape with safe defaults
     const budgets = (budgetsResult.data || []).map((b: any) => ({
@@ -122,7 +153,8 @@ export async function POST(request: NextRequest) {
       savingsRate: 0, // Will be calculated
       categoryBreakdown: {},
       recentTransactions: transactions.slice(0, 10),
-      budgetPerformance: []
+      budgetPerformance: [],
+      preferences
     }
 
     // Calculate derived metrics
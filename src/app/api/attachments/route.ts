@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+
+// Keeps attachment files on the server's disk for self-hosted installs
+// (NEXT_PUBLIC_ATTACHMENT_STORAGE=local). Files live under ATTACHMENTS_DIR in a folder per
+// user; the attachment rows themselves stay in Supabase.
+
+export const runtime = 'nodejs'
+
+const ATTACHMENTS_DIR = path.resolve(process.env.ATTACHMENTS_DIR || path.join(process.cwd(), 'data', 'attachments'))
+
+// Same limit as receipt OCR
+const MAX_FILE_SIZE = 10 * 1024 * 1024
+
+// Absolute path of a file the user may access: inside their own folder and nowhere else
+const resolveUserPath = (userId: string, storagePath: string): string | null => {
+  if (!storagePath.startsWith(`${userId}/`)) return null
+  const resolved = path.resolve(ATTACHMENTS_DIR, storagePath)
+  return resolved.startsWith(path.join(ATTACHMENTS_DIR, userId) + path.sep) ? resolved : null
+}
+
+const getUser = async () => {
+  const supabase = createRouteHandlerClient({ cookies })
+  const { data: { user }, error } = await supabase.auth.getUser()
+  return { supabase, user: error ? null : user }
+}
+
+const isMissingFile = (error: unknown) =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase, user } = await getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const storagePath = request.nextUrl.searchParams.get('path') || ''
+    const filePath = resolveUserPath(user.id, storagePath)
+    if (!filePath) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    // Serve only files recorded as the user's attachments, with the type they were uploaded as
+    const { data: attachment } = await supabase
+      .from('transaction_attachments')
+      .select('file_name, content_type')
+      .eq('storage_path', storagePath)
+      .single()
+
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    const content = await readFile(filePath)
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': attachment.content_type,
+        'Content-Disposition': `inline; filename="${encodeURIComponent(attachment.file_name)}"`,
+        'Cache-Control': 'private, max-age=3600'
+      }
+    })
+  } catch (error) {
+    if (isMissingFile(error)) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+    console.error('[attachments] Failed to read attachment:', error)
+    return NextResponse.json({ error: 'Failed to read attachment' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const form = await request.formData()
+    const storagePath = form.get('path')
+    const file = form.get('file')
+
+    if (typeof storagePath !== 'string' || !(file instanceof Blob)) {
+      return NextResponse.json({ error: 'A path and a file are required' }, { status: 400 })
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'Attachments can be at most 10MB' }, { status: 413 })
+    }
+
+    const filePath = resolveUserPath(user.id, storagePath)
+    if (!filePath) {
+      return NextResponse.json({ error: 'Invalid attachment path' }, { status: 400 })
+    }
+
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, Buffer.from(await file.arrayBuffer()), { flag: 'wx' })
+
+    return NextResponse.json({ path: storagePath })
+  } catch (error) {
+    console.error('[attachments] Failed to save attachment:', error)
+    return NextResponse.json({ error: 'Failed to save attachment' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user } = await getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { paths } = await request.json() as { paths?: unknown }
+    if (!Array.isArray(paths) || paths.some(p => typeof p !== 'string')) {
+      return NextResponse.json({ error: 'paths must be a list of attachment paths' }, { status: 400 })
+    }
+
+    const filePaths = (paths as string[]).map(p => resolveUserPath(user.id, p))
+    if (filePaths.some(p => !p)) {
+      return NextResponse.json({ error: 'Invalid attachment path' }, { status: 400 })
+    }
+
+    // A file already gone counts as deleted
+    await Promise.all((filePaths as string[]).map(filePath =>
+      unlink(filePath).catch(error => {
+        if (!isMissingFile(error)) throw error
+      })
+    ))
+
+    return NextResponse.json({ deleted: filePaths.length })
+  } catch (error) {
+    console.error('[attachments] Failed to delete attachments:', error)
+    return NextResponse.json({ error: 'Failed to delete attachments' }, { status: 500 })
+  }
+}
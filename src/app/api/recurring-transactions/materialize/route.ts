@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { getDueOccurrences, isWithinVariance } from '@/lib/recurrence'
+import { toDateString } from '@/lib/budgetPeriods'
+import { DatabaseRecurringTransaction, mapDatabaseToRecurringTransaction } from '@/services/recurringTransactions'
+import { RecurringMaterializationResult, RecurringTransaction } from '@/types'
+
+// Materializes due occurrences of recurring rules into transactions.
+// Called by the app for the signed-in user, or by a scheduler for every user
+// when the request carries `Authorization: Bearer <CRON_SECRET>`.
+
+export const runtime = 'nodejs'
+
+// Existing transactions this many days around an occurrence can stand in for it
+const MATCH_WINDOW_DAYS = 3
+
+const normalizeDescription = (description: string) =>
+  description.toLowerCase().replace(/[0-9]/g, '').replace(/\s+/g, ' ').trim()
+
+const shiftDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000)
+
+async function materialize(supabase: SupabaseClient<any, any, any>, userId?: string): Promise<RecurringMaterializationResult> {
+  const result: RecurringMaterializationResult = { created: 0, matched: 0, rulesProcessed: 0, errors: [] }
+  const today = new Date()
+
+  let rulesQuery = supabase
+    .from('recurring_transactions')
+    .select('*')
+    .eq('is_active', true)
+    .lte('next_occurrence', toDateString(today))
+
+  if (userId) {
+    rulesQuery = rulesQuery.eq('user_id', userId)
+  }
+
+  const { data: rules, error: rulesError } = await rulesQuery
+
+  if (rulesError) {
+    throw new Error(`Failed to fetch recurring transactions: ${rulesError.message}`)
+  }
+
+  for (const dbRule of (rules || []) as DatabaseRecurringTransaction[]) {
+    const rule = mapDatabaseToRecurringTransaction(dbRule)
+    const { dates, nextOccurrence } = getDueOccurrences(rule, today)
+
+    try {
+      // Claim the rule by advancing next_occurrence only if no other run already has,
+      // so concurrent runs can't both insert the same occurrences
+      const reachedEnd = rule.endDate ? nextOccurrence > rule.endDate : false
+      const { data: claimed, error: claimError } = await supabase
+        .from('recurring_transactions')
+        .update({
+          next_occurrence: toDateString(nextOccurrence),
+          is_active: !reachedEnd,
+          last_materialized_at: new Date().toISOString()
+        })
+        .eq('id', rule.id)
+        .eq('next_occurrence', dbRule.next_occurrence)
+        .select('id')
+
+      if (claimError) {
+        throw new Error(claimError.message)
+      }
+      if (!claimed || claimed.length === 0) {
+        continue
+      }
+      result.rulesProcessed++
+
+      try {
+        await materializeOccurrences(supabase, dbRule.user_id, rule, dates, result)
+      } catch (error) {
+        // Release the claim so the next run retries; occurrences already inserted are
+        // linked to the rule and will be matched instead of duplicated
+        await supabase
+          .from('recurring_transactions')
+          .update({ next_occurrence: dbRule.next_occurrence, is_active: true })
+          .eq('id', rule.id)
+          .eq('next_occurrence', toDateString(nextOccurrence))
+        throw error
+      }
+    } catch (error) {
+      console.error('[recurring] Failed to materialize rule:', rule.id, error)
+      result.errors.push(`Failed to materialize "${rule.description}": ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return result
+}
+
+// Links each due date to an existing matching transaction, or inserts one for it
+async function materializeOccurrences(
+  supabase: SupabaseClient<any, any, any>,
+  userId: string,
+  rule: RecurringTransaction,
+  dates: Date[],
+  result: RecurringMaterializationResult
+) {
+  if (dates.length === 0) return
+
+  const firstDate = dates[0] as Date
+  const lastDate = dates[dates.length - 1] as Date
+
+  const { data: existing, error: existingError } = await supabase
+    .from('transactions')
+    .select('id, date, description, amount, recurring_transaction_id')
+    .eq('user_id', userId)
+    .eq('type', rule.type)
+    .gte('date', toDateString(shiftDays(firstDate, -MATCH_WINDOW_DAYS)))
+    .lte('date', toDateString(shiftDays(lastDate, MATCH_WINDOW_DAYS)))
+
+  if (existingError) {
+    throw new Error(existingError.message)
+  }
+
+  const candidates = [...(existing || [])] as Array<{
+    id: string
+    date: string
+    description: string
+    amount: number
+    recurring_transaction_id: string | null
+  }>
+  const ruleDescription = normalizeDescription(rule.description)
+
+  for (const date of dates) {
+    const matchIndex = candidates.findIndex(t => {
+      const daysApart = Math.abs(new Date(t.date).getTime() - date.getTime()) / (24 * 60 * 60 * 1000)
+      if (daysApart > MATCH_WINDOW_DAYS) return false
+      if (t.recurring_transaction_id === rule.id) return true
+      return !t.recurring_transaction_id &&
+        normalizeDescription(t.description) === ruleDescription &&
+        isWithinVariance(Number(t.amount), rule.amount, rule.amountVariance)
+    })
+
+    if (matchIndex >= 0) {
+      // Already recorded (e.g. imported from a statement): link it instead of duplicating
+      const [match] = candidates.splice(matchIndex, 1)
+      if (match && !match.recurring_transaction_id) {
+        await supabase
+          .from('transactions')
+          .update({ recurring_transaction_id: rule.id })
+          .eq('id', match.id)
+      }
+      result.matched++
+      continue
+    }
+
+    const { error: insertError } = await supabase
+      .from('transactions')
+      .insert([{
+        user_id: userId,
+        date: toDateString(date),
+        description: rule.description,
+        category: rule.category,
+        amount: rule.amount,
+        currency: rule.currency,
+        type: rule.type,
+        account_id: rule.accountId || null,
+        recurring_transaction_id: rule.id
+      }])
+
+    if (insertError) {
+      throw new Error(insertError.message)
+    }
+    result.created++
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const authHeader = request.headers.get('authorization')
+
+    // Scheduled run across all users
+    if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+      const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+
+      if (!serviceRoleKey || !supabaseUrl) {
+        return NextResponse.json(
+          { error: 'Scheduled materialization requires SUPABASE_SERVICE_ROLE_KEY' },
+          { status: 500 }
+        )
+      }
+
+      const serviceClient = createClient(supabaseUrl, serviceRoleKey, {
+        auth: { persistSession: false }
+      })
+      return NextResponse.json(await materialize(serviceClient))
+    }
+
+    // Run for the signed-in user
+    const supabase = createRouteHandlerClient({ cookies })
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json(await materialize(supabase, user.id))
+  } catch (error) {
+    console.error('[recurring] Materialization failed:', error)
+    return NextResponse.json(
+      { error: 'Failed to materialize recurring transactions' },
+      { status: 500 }
+    )
+  }
+}
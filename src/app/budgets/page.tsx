@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { Plus } from 'lucide-react'
 import Header from '@/components/layout/Header'
 import Sidebar from '@/components/layout/Sidebar'
@@ -9,12 +9,38 @@ import BudgetCard from '@/components/budgets/BudgetCard'
 import AddBudgetModal from '@/components/budgets/AddBudgetModal'
 import { ToastContainer, useToast } from '@/components/ui/Toast'
 import { useApp } from '@/contexts/AppContext'
-import type { Budget } from '@/types'
+import { BudgetService } from '@/services/budgets'
+import { formatBudgetPeriodLabel, getAvailableAmount, getBudgetPeriodWindow } from '@/lib/budgetPeriods'
+import type { Budget, BudgetPeriodHistory } from '@/types'
 
 export default function BudgetsPage() {
-  const { budgets, addBudget, updateBudget } = useApp()
+  const { budgets, addBudget, updateBudget, categories } = useApp()
   const [isAddModalOpen, setIsAddModalOpen] = useState(false)
   const { toasts, removeToast, success, error: showError } = useToast()
+  const [previousPeriods, setPreviousPeriods] = useState<Record<string, BudgetPeriodHistory>>({})
+
+  // Load the most recent closed period of each budget for comparison
+  useEffect(() => {
+    let cancelled = false
+
+    const loadHistory = async () => {
+      const histories = await Promise.all(
+        budgets.map(async budget => [budget.id, await BudgetService.getBudgetHistory(budget.id)] as const)
+      )
+      if (cancelled) return
+
+      const latest: Record<string, BudgetPeriodHistory> = {}
+      histories.forEach(([budgetId, history]) => {
+        if (history[0]) latest[budgetId] = history[0]
+      })
+      setPreviousPeriods(latest)
+    }
+
+    loadHistory()
+    return () => {
+      cancelled = true
+    }
+  }, [budgets])
 
   const handleAddBudget = async (newBudget: Omit<Budget, 'id' | 'spentAmount'>) => {
     try {
@@ -49,22 +75,23 @@ export default function BudgetsPage() {
   // Calculate overview stats
   const totalBudget = budgets.reduce((sum, budget) => sum + budget.budgetAmount, 0)
   const totalSpent = budgets.reduce((sum, budget) => sum + budget.spentAmount, 0)
-  const categoriesOverBudget = budgets.filter(budget => budget.spentAmount > budget.budgetAmount).length
+  const totalRollover = budgets.reduce((sum, budget) => sum + (budget.rolloverAmount || 0), 0)
+  const categoriesOverBudget = budgets.filter(budget => getAvailableAmount(budget) < 0).length
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 dark:bg-secondary-900/50">
       <Header />
 
       <div className="flex">
         <Sidebar currentPage="budgets" />
 
-        <main className="flex-1 p-8 bg-gray-50">
+        <main className="flex-1 p-8 bg-gray-50 dark:bg-secondary-900/50">
           <div className="max-w-7xl mx-auto">
             {/* Page Header */}
             <div className="flex items-center justify-between mb-8">
               <div>
-                <h1 className="text-2xl font-bold text-gray-900 mb-2">Budgets</h1>
-                <p className="text-gray-600">Track and manage your spending budgets</p>
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-2">Budgets</h1>
+                <p className="text-gray-600 dark:text-secondary-400">Track and manage your spending budgets</p>
               </div>
               <div className="flex space-x-3">
                 {process.env.NODE_ENV === 'development' && (
@@ -91,23 +118,33 @@ export default function BudgetsPage() {
             <BudgetOverview
               totalBudget={totalBudget}
               totalSpent={totalSpent}
+              totalRollover={totalRollover}
               categoriesOverBudget={categoriesOverBudget}
               totalCategories={budgets.length}
             />
 
             {/* Budget Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {budgets.map((budget) => (
-                <BudgetCard
-                  key={budget.id}
-                  id={budget.id}
-                  category={budget.category}
-                  budgetAmount={budget.budgetAmount}
-                  spentAmount={budget.spentAmount}
-                  period={budget.period}
-                  onEdit={handleEditBudget}
-                />
-              ))}
+              {budgets.map((budget) => {
+                const previous = previousPeriods[budget.id]
+                return (
+                  <BudgetCard
+                    key={budget.id}
+                    id={budget.id}
+                    category={budget.category}
+                    budgetAmount={budget.budgetAmount}
+                    spentAmount={budget.spentAmount}
+                    period={budget.period}
+                    rolloverAmount={budget.rolloverAmount}
+                    rolloverPolicy={budget.rolloverPolicy}
+                    rolloverCap={budget.rolloverCap}
+                    periodLabel={formatBudgetPeriodLabel(budget.period, getBudgetPeriodWindow(budget.period, budget.periodStartDay))}
+                    previousSpentAmount={previous?.spentAmount}
+                    previousPeriodLabel={previous && formatBudgetPeriodLabel(budget.period, { start: previous.periodStart, end: previous.periodEnd })}
+                    onEdit={handleEditBudget}
+                  />
+                )
+              })}
             </div>
 
             {/* Add Budget Modal */}
@@ -115,6 +152,7 @@ export default function BudgetsPage() {
               isOpen={isAddModalOpen}
               onClose={() => setIsAddModalOpen(false)}
               onAdd={handleAddBudget}
+              categories={categories}
             />
           </div>
         </main>
@@ -0,0 +1,491 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { ShieldCheck, Calendar, Target, AlertTriangle, CheckCircle, TrendingUp, TrendingDown, Zap, Users } from 'lucide-react'
+import Header from '@/components/layout/Header'
+import Sidebar from '@/components/layout/Sidebar'
+import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { emergencyFundService } from '@/services/emergencyFundService'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts'
+
+type JobType = 'stable' | 'contract' | 'freelance'
+
+const JOB_TYPES: Array<{ value: JobType; label: string }> = [
+  { value: 'stable', label: 'Salaried, stable' },
+  { value: 'contract', label: 'Contract' },
+  { value: 'freelance', label: 'Freelance' }
+]
+
+const STRATEGY_COLORS = ['#10B981', '#3B82F6', '#8B5CF6']
+
+export default function EmergencyFundPage() {
+  const { transactions, budgets, goals, updateGoal, loading } = useApp()
+  const { formatCurrency } = usePreferences()
+  const [selectedGoalId, setSelectedGoalId] = useState<string | null>(null)
+  const [dependents, setDependents] = useState(0)
+  const [jobType, setJobType] = useState<JobType | ''>('')
+  const [industry, setIndustry] = useState('')
+  const [isUpdatingGoal, setIsUpdatingGoal] = useState(false)
+
+  const emergencyGoals = goals.filter(g => g.type === 'emergency_fund')
+  const linkedGoal = emergencyGoals.find(g => g.id === selectedGoalId) || emergencyGoals[0]
+  const currentFund = linkedGoal?.currentAmount ?? 0
+
+  const analysis = useMemo(() => {
+    const userProfile = {
+      dependents,
+      jobType: jobType || undefined,
+      industry: industry.trim() || undefined
+    }
+    const monthlyExpenses = emergencyFundService.calculateMonthlyExpenses(transactions)
+    const monthlyIncome = emergencyFundService.calculateMonthlyIncome(transactions)
+    const recommendation = emergencyFundService.generateRecommendation(transactions, budgets, currentFund, userProfile)
+
+    return {
+      monthlyExpenses,
+      monthlyIncome,
+      recommendation,
+      riskAssessment: emergencyFundService.assessRiskFactors(transactions, userProfile),
+      strategies: emergencyFundService.generateStrategies(recommendation, monthlyIncome),
+      scenarios: emergencyFundService.generateEmergencyScenarios(transactions, monthlyExpenses, userProfile)
+    }
+  }, [transactions, budgets, currentFund, dependents, jobType, industry])
+
+  const { monthlyExpenses, recommendation, riskAssessment, strategies, scenarios } = analysis
+
+  const formatMonths = (months: number) => `${months.toFixed(1)} ${months === 1 ? 'month' : 'months'}`
+
+  const getRiskColor = (level: 'low' | 'medium' | 'high') => {
+    switch (level) {
+      case 'low': return 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+      case 'medium': return 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300'
+      case 'high': return 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+    }
+  }
+
+  const handleUseRecommendedTarget = async () => {
+    if (!linkedGoal) return
+    setIsUpdatingGoal(true)
+    try {
+      await updateGoal(linkedGoal.id, { targetAmount: Math.round(recommendation.recommendedAmount) })
+    } catch (error) {
+      console.error('Error updating emergency fund goal:', error)
+    } finally {
+      setIsUpdatingGoal(false)
+    }
+  }
+
+  const strategyChartData = strategies
+    .filter(strategy => strategy.timeToTarget > 0)
+    .map(strategy => ({
+      strategy: strategy.strategy.replace(' Approach', ''),
+      months: strategy.timeToTarget
+    }))
+
+  // Whether the linked goal's target is more than 5% away from the recommendation
+  const targetDiffers = linkedGoal !== undefined && recommendation.recommendedAmount > 0 &&
+    Math.abs(linkedGoal.targetAmount - recommendation.recommendedAmount) > recommendation.recommendedAmount * 0.05
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 dark:from-green-900/20 via-white dark:via-secondary-900 to-blue-50 dark:to-blue-900/20">
+        <Header title="Emergency Fund" />
+        <div className="flex">
+          <Sidebar currentPage="emergency-fund" />
+          <main className="flex-1 p-8">
+            <div className="max-w-7xl mx-auto">
+              <div className="flex items-center justify-center h-64">
+                <div className="text-center">
+                  <ShieldCheck className="w-12 h-12 text-green-600 animate-pulse mx-auto mb-4" />
+                  <p className="text-gray-600 dark:text-secondary-400">Assessing your safety net...</p>
+                </div>
+              </div>
+            </div>
+          </main>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 dark:from-green-900/20 via-white dark:via-secondary-900 to-blue-50 dark:to-blue-900/20">
+      <Header title="Emergency Fund" />
+
+      <div className="flex">
+        <Sidebar currentPage="emergency-fund" />
+
+        <main className="flex-1 p-8">
+          <div className="max-w-7xl mx-auto space-y-8">
+
+            {/* Header Section */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center space-x-3 mb-4">
+                <div className="w-12 h-12 bg-gradient-to-br from-green-500 to-blue-600 rounded-xl flex items-center justify-center">
+                  <ShieldCheck className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-3xl font-bold text-gray-900 dark:text-secondary-100">Emergency Fund</h1>
+                  <p className="text-gray-600 dark:text-secondary-400">How long your safety net lasts and how to grow it</p>
+                </div>
+              </div>
+            </div>
+
+            {/* Linked Goal */}
+            <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
+              {linkedGoal ? (
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Emergency fund goal</label>
+                    {emergencyGoals.length > 1 ? (
+                      <select
+                        value={linkedGoal.id}
+                        onChange={(e) => setSelectedGoalId(e.target.value)}
+                        className="px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                        title="Emergency fund goal"
+                      >
+                        {emergencyGoals.map(goal => (
+                          <option key={goal.id} value={goal.id}>{goal.name}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <div className="font-medium text-gray-900 dark:text-secondary-100">{linkedGoal.name}</div>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-secondary-400 mt-1">
+                      {formatCurrency(linkedGoal.currentAmount)} saved of a {formatCurrency(linkedGoal.targetAmount)} target.
+                      Update the balance on the <Link href="/goals" className="text-green-600 hover:text-green-700">Goals</Link> page.
+                    </p>
+                  </div>
+                  {targetDiffers && (
+                    <button
+                      type="button"
+                      onClick={handleUseRecommendedTarget}
+                      disabled={isUpdatingGoal}
+                      className="px-4 py-2 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {isUpdatingGoal ? 'Updating...' : `Set target to ${formatCurrency(Math.round(recommendation.recommendedAmount))}`}
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <div className="flex items-start space-x-3">
+                  <AlertTriangle className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <h3 className="font-medium text-gray-900 dark:text-secondary-100">No emergency fund goal yet</h3>
+                    <p className="text-sm text-gray-600 dark:text-secondary-400">
+                      Your fund is counted as {formatCurrency(0)}. Create a goal of type Emergency Fund on the{' '}
+                      <Link href="/goals" className="text-green-600 hover:text-green-700">Goals</Link> page
+                      to track its balance here.
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Key Metrics Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="w-10 h-10 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center">
+                    <ShieldCheck className="w-5 h-5 text-green-600" />
+                  </div>
+                  <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">SAVED</span>
+                </div>
+                <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">{formatCurrency(currentFund)}</div>
+                <div className="text-sm text-gray-600 dark:text-secondary-400">Current Fund</div>
+              </div>
+
+              <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900/30 rounded-lg flex items-center justify-center">
+                    <Calendar className="w-5 h-5 text-blue-600" />
+                  </div>
+                  <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">COVERAGE</span>
+                </div>
+                <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
+                  {formatMonths(recommendation.monthsCovered)}
+                </div>
+                <div className="text-sm text-gray-600 dark:text-secondary-400">of {recommendation.targetMonths} months recommended</div>
+              </div>
+
+              <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="w-10 h-10 bg-yellow-100 dark:bg-yellow-900/30 rounded-lg flex items-center justify-center">
+                    <Target className="w-5 h-5 text-yellow-600" />
+                  </div>
+                  <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">TARGET</span>
+                </div>
+                <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">{formatCurrency(recommendation.recommendedAmount)}</div>
+                <div className="text-sm text-gray-600 dark:text-secondary-400">{formatCurrency(monthlyExpenses)} monthly expenses</div>
+              </div>
+
+              <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="w-10 h-10 bg-purple-100 dark:bg-purple-900/30 rounded-lg flex items-center justify-center">
+                    <AlertTriangle className="w-5 h-5 text-purple-600" />
+                  </div>
+                  <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">RISK</span>
+                </div>
+                <div className="mb-1">
+                  <span className={`px-2 py-1 text-sm font-bold rounded-full capitalize ${getRiskColor(recommendation.riskLevel)}`}>
+                    {recommendation.riskLevel}
+                  </span>
+                </div>
+                <div className="text-sm text-gray-600 dark:text-secondary-400 mt-2">Risk Profile</div>
+              </div>
+            </div>
+
+            {/* Coverage */}
+            <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
+              <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100 mb-4">Coverage</h3>
+              <div className="flex justify-between text-sm text-gray-600 dark:text-secondary-400 mb-2">
+                <span>{formatCurrency(recommendation.currentAmount)}</span>
+                <span>{recommendation.progressPercentage.toFixed(0)}% of {formatCurrency(recommendation.recommendedAmount)}</span>
+              </div>
+              <div className="w-full bg-gray-200 dark:bg-secondary-700 rounded-full h-3 mb-4">
+                <div
+                  className="bg-gradient-to-r from-green-500 to-blue-600 h-3 rounded-full"
+                  style={{ width: `${recommendation.progressPercentage}%` }}
+                />
+              </div>
+              <p className="text-gray-600 dark:text-secondary-400 mb-6">{recommendation.customRecommendation}</p>
+
+              <h4 className="font-medium text-gray-900 dark:text-secondary-100 mb-3">Savings Timeline</h4>
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+                {recommendation.savingsTimeline.map(step => (
+                  <div key={step.months} className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-3">
+                    <div className="text-xs text-gray-500 dark:text-secondary-400">{step.months === 0 ? 'Now' : `Month ${step.months}`}</div>
+                    <div className="font-medium text-gray-900 dark:text-secondary-100">{formatCurrency(step.amount)}</div>
+                    <div className="text-xs text-gray-600 dark:text-secondary-400">{step.description}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Risk Factors */}
+            <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
+              <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100 mb-4">Risk Factors</h3>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Dependents</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={dependents}
+                    onChange={(e) => setDependents(Math.max(0, Math.floor(Number(e.target.value))))}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                    title="Dependents"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Employment</label>
+                  <select
+                    value={jobType}
+                    onChange={(e) => setJobType(e.target.value as JobType | '')}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                    title="Employment"
+                  >
+                    <option value="">Not specified</option>
+                    {JOB_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Industry</label>
+                  <input
+                    type="text"
+                    value={industry}
+                    onChange={(e) => setIndustry(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                    placeholder="e.g. Healthcare, Retail"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <div className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-4 text-center">
+                  <div className="text-sm text-gray-500 dark:text-secondary-400 mb-1">Income</div>
+                  <div className="font-medium text-gray-900 dark:text-secondary-100 capitalize">{riskAssessment.incomeStability}</div>
+                </div>
+                <div className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-4 text-center">
+                  <div className="text-sm text-gray-500 dark:text-secondary-400 mb-1">Expense Volatility</div>
+                  <div className="font-medium text-gray-900 dark:text-secondary-100 capitalize">{riskAssessment.expenseVolatility}</div>
+                </div>
+                <div className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-4 text-center">
+                  <div className="text-sm text-gray-500 dark:text-secondary-400 mb-1">Job Security</div>
+                  <div className="font-medium text-gray-900 dark:text-secondary-100 capitalize">{riskAssessment.jobSecurity}</div>
+                </div>
+                <div className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-4 text-center">
+                  <div className="text-sm text-gray-500 dark:text-secondary-400 mb-1">Dependents</div>
+                  <div className="font-medium text-gray-900 dark:text-secondary-100 flex items-center justify-center space-x-1">
+                    <Users className="w-4 h-4 text-gray-400 dark:text-secondary-500" />
+                    <span>{riskAssessment.dependents}</span>
+                  </div>
+                </div>
+              </div>
+
+              {riskAssessment.factors.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-secondary-400">
+                  No strong risk factors found. Add more transactions or describe your situation above for a sharper assessment.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {riskAssessment.factors.map(factor => (
+                    <div key={factor.factor} className="flex items-center space-x-4 p-3 bg-gray-50 dark:bg-secondary-900/50 rounded-lg">
+                      {factor.impact === 'negative' ? (
+                        <TrendingUp className="w-5 h-5 text-red-500 flex-shrink-0" />
+                      ) : (
+                        <TrendingDown className="w-5 h-5 text-green-500 flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-gray-900 dark:text-secondary-100">{factor.factor}</div>
+                        <div className="text-sm text-gray-600 dark:text-secondary-400">{factor.description}</div>
+                      </div>
+                      <div className="w-32 flex-shrink-0">
+                        <div className="text-xs text-gray-500 dark:text-secondary-400 text-right mb-1">
+                          {factor.impact === 'negative' ? 'Raises' : 'Lowers'} risk
+                        </div>
+                        <div className="w-full bg-gray-200 dark:bg-secondary-700 rounded-full h-2">
+                          <div
+                            className={`h-2 rounded-full ${factor.impact === 'negative' ? 'bg-red-500' : 'bg-green-500'}`}
+                            style={{ width: `${Math.min(factor.weight / 0.3, 1) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Strategy Comparison */}
+            <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
+              <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100 mb-4">Strategy Comparison</h3>
+
+              {strategies.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-secondary-400">Add income transactions to compare savings strategies.</p>
+              ) : (
+                <>
+                  {strategyChartData.length > 0 && (
+                    <div className="h-64 mb-6">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={strategyChartData}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="strategy" fontSize={12} axisLine={false} tickLine={false} />
+                          <YAxis fontSize={12} axisLine={false} tickLine={false} />
+                          <Tooltip formatter={(value) => [`${value} months`, 'Time to target']} />
+                          <Bar dataKey="months" radius={[4, 4, 0, 0]}>
+                            {strategyChartData.map((_, index) => (
+                              <Cell key={index} fill={STRATEGY_COLORS[index % STRATEGY_COLORS.length]} />
+                            ))}
+                          </Bar>
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {strategies.map(strategy => (
+                      <div key={strategy.strategy} className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-6">
+                        <div className="flex items-center space-x-2 mb-3">
+                          <Zap className="w-4 h-4 text-green-600" />
+                          <h4 className="font-medium text-gray-900 dark:text-secondary-100">{strategy.strategy}</h4>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 mb-4">
+                          <div>
+                            <div className="text-lg font-bold text-green-600">{formatCurrency(strategy.monthlyAmount)}</div>
+                            <div className="text-xs text-gray-500 dark:text-secondary-400">per month</div>
+                          </div>
+                          <div>
+                            <div className="text-lg font-bold text-gray-900 dark:text-secondary-100">
+                              {strategy.timeToTarget === 0 ? 'Done' : `${strategy.timeToTarget} mo`}
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-secondary-400">to target</div>
+                          </div>
+                        </div>
+
+                        {strategy.milestones.length > 0 && (
+                          <div className="space-y-1 mb-4">
+                            {strategy.milestones.map(milestone => (
+                              <div key={milestone.achievement} className="flex justify-between text-sm">
+                                <span className="text-gray-600 dark:text-secondary-400">Month {milestone.month}</span>
+                                <span className="text-gray-900 dark:text-secondary-100">{milestone.achievement}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        <ul className="space-y-1">
+                          {strategy.tips.map(tip => (
+                            <li key={tip} className="flex items-start space-x-2 text-sm text-gray-600 dark:text-secondary-400">
+                              <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
+                              <span>{tip}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Scenario Stress Tests */}
+            <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
+              <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100 mb-4">Stress Tests</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {scenarios.map(scenario => {
+                  const covered = scenario.estimatedCost > 0 ? Math.min(currentFund / scenario.estimatedCost, 1) : 1
+                  const remaining = currentFund - scenario.estimatedCost
+                  return (
+                    <div
+                      key={scenario.scenario}
+                      className={`rounded-lg p-6 border ${remaining >= 0 ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'}`}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="font-medium text-gray-900 dark:text-secondary-100">{scenario.scenario}</h4>
+                        <span className={`px-2 py-1 text-xs rounded-full ${getRiskColor(scenario.probability)}`}>
+                          {scenario.probability} likelihood
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-secondary-400 mb-4">{scenario.description}</p>
+
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-gray-600 dark:text-secondary-400">Estimated cost</span>
+                        <span className="font-medium text-gray-900 dark:text-secondary-100">{formatCurrency(scenario.estimatedCost)}</span>
+                      </div>
+                      <div className="w-full bg-white dark:bg-secondary-800 rounded-full h-2 mb-2">
+                        <div
+                          className={`h-2 rounded-full ${remaining >= 0 ? 'bg-green-500' : 'bg-red-500'}`}
+                          style={{ width: `${covered * 100}%` }}
+                        />
+                      </div>
+                      <div className={`text-sm font-medium mb-4 ${remaining >= 0 ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+                        {remaining >= 0
+                          ? `Covered, leaving ${formatCurrency(remaining)}${monthlyExpenses > 0 ? ` (${formatMonths(remaining / monthlyExpenses)} of expenses)` : ''}`
+                          : `Short by ${formatCurrency(-remaining)}`}
+                      </div>
+
+                      <div className="text-xs text-gray-500 dark:text-secondary-400 mb-2">About {scenario.monthsToRecover} months to recover</div>
+                      <ul className="space-y-1">
+                        {scenario.mitigation.map(step => (
+                          <li key={step} className="flex items-start space-x-2 text-sm text-gray-600 dark:text-secondary-400">
+                            <span className="text-blue-500">•</span>
+                            <span>{step}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    </div>
+  )
+}
@@ -16,31 +16,31 @@ export default function Error({
   }, [error])
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
-      <div className="max-w-lg w-full bg-white rounded-2xl shadow-soft border border-white/20 p-8 text-center">
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 dark:from-blue-900/20 via-white dark:via-secondary-900 to-purple-50 dark:to-purple-900/20 flex items-center justify-center p-4">
+      <div className="max-w-lg w-full bg-white dark:bg-secondary-800 rounded-2xl shadow-soft border border-white/20 dark:border-secondary-700/50 p-8 text-center">
         {/* Error Icon */}
-        <div className="w-16 h-16 bg-orange-100 rounded-full flex items-center justify-center mx-auto mb-6">
+        <div className="w-16 h-16 bg-orange-100 dark:bg-orange-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
           <AlertCircle className="w-8 h-8 text-orange-600" />
         </div>
 
         {/* Error Title */}
-        <h1 className="text-2xl font-bold text-secondary-900 mb-4">
+        <h1 className="text-2xl font-bold text-secondary-900 dark:text-secondary-100 mb-4">
           Oops! Something went wrong
         </h1>
 
         {/* Error Description */}
-        <p className="text-secondary-600 mb-6 leading-relaxed">
+        <p className="text-secondary-600 dark:text-secondary-400 mb-6 leading-relaxed">
           We encountered an error while loading this page. Don't worry, this has been logged and we're working to fix it.
         </p>
 
         {/* Error Details (Development Only) */}
         {process.env.NODE_ENV === 'development' && (
-          <div className="mb-6 p-4 bg-gray-50 rounded-lg text-left border border-gray-200">
-            <h3 className="text-sm font-semibold text-gray-800 mb-2 flex items-center">
+          <div className="mb-6 p-4 bg-gray-50 dark:bg-secondary-900/50 rounded-lg text-left border border-gray-200 dark:border-secondary-700">
+            <h3 className="text-sm font-semibold text-gray-800 dark:text-secondary-100 mb-2 flex items-center">
               <AlertCircle className="w-4 h-4 mr-2" />
               Development Error Details:
             </h3>
-            <div className="text-xs text-gray-600 font-mono bg-white p-3 rounded border">
+            <div className="text-xs text-gray-600 dark:text-secondary-400 font-mono bg-white dark:bg-secondary-800 p-3 rounded border">
               <div className="mb-2">
                 <strong>Message:</strong> {error.message}
               </div>
@@ -74,7 +74,7 @@ export default function Error({
           <div className="flex space-x-3">
             <button
               onClick={() => window.history.back()}
-              className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 bg-secondary-100 text-secondary-700 rounded-lg hover:bg-secondary-200 transition-colors font-semibold"
+              className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg hover:bg-secondary-200 transition-colors font-semibold"
             >
               <ArrowLeft className="w-4 h-4" />
               <span>Go Back</span>
@@ -82,7 +82,7 @@ export default function Error({
             
             <button
               onClick={() => window.location.href = '/'}
-              className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 bg-secondary-100 text-secondary-700 rounded-lg hover:bg-secondary-200 transition-colors font-semibold"
+              className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg hover:bg-secondary-200 transition-colors font-semibold"
             >
               <Home className="w-4 h-4" />
               <span>Home</span>
@@ -91,8 +91,8 @@ export default function Error({
         </div>
 
         {/* Help Text */}
-        <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
-          <p className="text-sm text-blue-800">
+        <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
+          <p className="text-sm text-blue-800 dark:text-blue-300">
             <strong>Need help?</strong> If this error persists, try refreshing the page or clearing your browser cache.
           </p>
         </div>
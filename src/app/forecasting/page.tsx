@@ -1,24 +1,45 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { TrendingUp, TrendingDown, AlertTriangle, Calendar, Target, Clock, Sparkles } from 'lucide-react'
+import { useState, useEffect, useMemo } from 'react'
+import { TrendingUp, TrendingDown, AlertTriangle, Calendar, Target, Clock, Sparkles, Repeat, Check } from 'lucide-react'
 import Header from '@/components/layout/Header'
 import Sidebar from '@/components/layout/Sidebar'
 import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
 import { cashFlowForecastingService } from '@/services/cashFlowForecastingService'
 import { balancePredictionService } from '@/services/balancePredictionService'
-import { CashFlowForecast, BalancePrediction, ScenarioAnalysis } from '@/types'
+import { affectsAccount, LIQUID_ACCOUNT_TYPES } from '@/lib/accounts'
+import { CashFlowForecast, BalancePrediction, ScenarioAnalysis, RecurringPattern } from '@/types'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts'
 
 export default function ForecastingPage() {
-  const { transactions, budgets, getTotalIncome, getTotalExpenses, getNetIncome, loading: appLoading } = useApp()
+  const { transactions: allTransactions, budgets, accounts, recurringTransactions, addRecurringTransaction, getAccountBalance, getTotalBalance, currencyConverter, getTotalIncome, getTotalExpenses, getNetIncome, loading: appLoading } = useApp()
+  const { formatCurrency, formatCompactCurrency, formatDateLabel } = usePreferences()
   const [forecast, setForecast] = useState<CashFlowForecast | null>(null)
   const [balancePredictions, setBalancePredictions] = useState<BalancePrediction[]>([])
   const [scenarioAnalysis, setScenarioAnalysis] = useState<ScenarioAnalysis | null>(null)
   const [loading, setLoading] = useState(true)
-  const [currentBalance, setCurrentBalance] = useState(10000) // Default balance - could come from settings
+  const [selectedAccount, setSelectedAccount] = useState('all')
+  const [manualBalance, setManualBalance] = useState(0) // Only used until accounts are set up
   const [selectedPeriod, setSelectedPeriod] = useState<'30' | '90'>('30')
   const [activeTab, setActiveTab] = useState<'forecast' | 'scenarios' | 'predictions'>('forecast')
+  const [recurringPatterns, setRecurringPatterns] = useState<RecurringPattern[]>([])
+  const [confirmingPattern, setConfirmingPattern] = useState<string | null>(null)
+
+  const liquidAccounts = accounts.filter(a => LIQUID_ACCOUNT_TYPES.includes(a.type))
+
+  // Forecast a single account from its own history, or every cash account together
+  const transactions = useMemo(() => {
+    if (selectedAccount === 'all') return allTransactions
+    return allTransactions.filter(t => affectsAccount(t, selectedAccount))
+  }, [allTransactions, selectedAccount])
+
+  const currentBalance = useMemo(() => {
+    if (accounts.length === 0) return manualBalance
+    // In the base currency, like the transactions the forecast is made from
+    if (selectedAccount === 'all') return getTotalBalance()
+    return getAccountBalance(selectedAccount, currencyConverter.baseCurrency)
+  }, [accounts, selectedAccount, manualBalance, getAccountBalance, getTotalBalance, currencyConverter])
 
   useEffect(() => {
     generateForecast()
@@ -56,6 +77,9 @@ export default function ForecastingPage() {
         currentBalance
       )
       setScenarioAnalysis(scenarios)
+
+      // Detected patterns the user can confirm as recurring rules
+      setRecurringPatterns(cashFlowForecastingService.detectRecurringPatterns(transactions))
       
     } catch (error) {
       console.error('Error generating forecast:', error)
@@ -64,15 +88,35 @@ export default function ForecastingPage() {
     }
   }
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount)
+  // Forecast days are built from the local date, so they are labelled in local time
+  const formatDate = (date: Date) => {
+    return formatDateLabel(date, { month: 'short', day: 'numeric', timeZone: undefined })
   }
 
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+  const isPatternConfirmed = (pattern: RecurringPattern) => {
+    const description = pattern.description.toLowerCase().trim()
+    return recurringTransactions.some(r => r.description.toLowerCase().trim() === description && r.type === pattern.type)
+  }
+
+  const handleMakeRecurring = async (pattern: RecurringPattern) => {
+    setConfirmingPattern(pattern.description)
+    try {
+      const { frequency, amount, type, description, category, nextOccurrence } = pattern
+      await addRecurringTransaction({
+        description,
+        category: category || 'Other',
+        amount: Math.round(amount * 100) / 100,
+        currency: currencyConverter.baseCurrency,
+        type,
+        frequency,
+        startDate: nextOccurrence,
+        amountVariance: 10
+      })
+    } catch (error) {
+      console.error('Error creating recurring transaction:', error)
+    } finally {
+      setConfirmingPattern(null)
+    }
   }
 
   // Prepare chart data
@@ -86,7 +130,7 @@ export default function ForecastingPage() {
 
   if (loading || appLoading) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 dark:from-blue-900/20 via-white dark:via-secondary-900 to-purple-50 dark:to-purple-900/20">
         <Header title="Cash Flow Forecasting" />
         <div className="flex">
           <Sidebar currentPage="forecasting" />
@@ -95,7 +139,7 @@ export default function ForecastingPage() {
               <div className="flex items-center justify-center h-64">
                 <div className="text-center">
                   <Sparkles className="w-12 h-12 text-blue-600 animate-pulse mx-auto mb-4" />
-                  <p className="text-gray-600">Analyzing your transaction patterns...</p>
+                  <p className="text-gray-600 dark:text-secondary-400">Analyzing your transaction patterns...</p>
                 </div>
               </div>
             </div>
@@ -106,7 +150,7 @@ export default function ForecastingPage() {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 dark:from-blue-900/20 via-white dark:via-secondary-900 to-purple-50 dark:to-purple-900/20">
       <Header title="Cash Flow Forecasting" />
       
       <div className="flex">
@@ -122,8 +166,8 @@ export default function ForecastingPage() {
                   <TrendingUp className="w-6 h-6 text-white" />
                 </div>
                 <div>
-                  <h1 className="text-3xl font-bold text-gray-900">Cash Flow Forecasting</h1>
-                  <p className="text-gray-600">AI-powered predictions for your financial future</p>
+                  <h1 className="text-3xl font-bold text-gray-900 dark:text-secondary-100">Cash Flow Forecasting</h1>
+                  <p className="text-gray-600 dark:text-secondary-400">AI-powered predictions for your financial future</p>
                 </div>
               </div>
             </div>
@@ -131,26 +175,57 @@ export default function ForecastingPage() {
             {/* Controls */}
             <div className="flex justify-between items-center mb-6">
               <div className="flex space-x-4">
+                {accounts.length > 0 ? (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
+                        Account
+                      </label>
+                      <select
+                        value={selectedAccount}
+                        onChange={(e) => setSelectedAccount(e.target.value)}
+                        className="px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="all">All cash accounts ({liquidAccounts.length})</option>
+                        {accounts.map((account) => (
+                          <option key={account.id} value={account.id}>
+                            {account.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
+                        Current Balance
+                      </label>
+                      <div className="px-3 py-2 border border-gray-200 dark:border-secondary-700 bg-gray-50 dark:bg-secondary-900/50 rounded-lg text-gray-900 dark:text-secondary-100 font-medium">
+                        {formatCurrency(currentBalance)}
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
+                      Current Balance
+                    </label>
+                    <input
+                      type="number"
+                      value={manualBalance}
+                      onChange={(e) => setManualBalance(Number(e.target.value))}
+                      className="px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="Enter current balance"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-secondary-400 mt-1">Add your accounts to forecast from real balances</p>
+                  </div>
+                )}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Current Balance
-                  </label>
-                  <input
-                    type="number"
-                    value={currentBalance}
-                    onChange={(e) => setCurrentBalance(Number(e.target.value))}
-                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Enter current balance"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
                     Forecast Period
                   </label>
                   <select
                     value={selectedPeriod}
                     onChange={(e) => setSelectedPeriod(e.target.value as '30' | '90')}
-                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    className="px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   >
                     <option value="30">30 Days</option>
                     <option value="90">90 Days</option>
@@ -170,17 +245,17 @@ export default function ForecastingPage() {
               <>
                 {/* Summary Cards */}
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900/30 rounded-lg flex items-center justify-center">
                         <Target className="w-5 h-5 text-blue-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">30 DAYS</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">30 DAYS</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {formatCurrency(forecast.summary.projectedBalanceIn30Days)}
                     </div>
-                    <div className="text-sm text-gray-600">Projected Balance</div>
+                    <div className="text-sm text-gray-600 dark:text-secondary-400">Projected Balance</div>
                     <div className={`text-xs mt-2 ${
                       forecast.summary.projectedBalanceIn30Days > currentBalance 
                         ? 'text-green-600' 
@@ -191,46 +266,46 @@ export default function ForecastingPage() {
                     </div>
                   </div>
 
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center">
                         <TrendingUp className="w-5 h-5 text-green-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">MONTHLY</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">MONTHLY</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {formatCurrency(forecast.summary.averageMonthlyIncome)}
                     </div>
-                    <div className="text-sm text-gray-600">Average Income</div>
+                    <div className="text-sm text-gray-600 dark:text-secondary-400">Average Income</div>
                   </div>
 
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-red-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-red-100 dark:bg-red-900/30 rounded-lg flex items-center justify-center">
                         <TrendingDown className="w-5 h-5 text-red-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">MONTHLY</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">MONTHLY</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {formatCurrency(forecast.summary.averageMonthlyExpenses)}
                     </div>
-                    <div className="text-sm text-gray-600">Average Expenses</div>
+                    <div className="text-sm text-gray-600 dark:text-secondary-400">Average Expenses</div>
                   </div>
 
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-orange-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-orange-100 dark:bg-orange-900/30 rounded-lg flex items-center justify-center">
                         <Clock className="w-5 h-5 text-orange-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">BURN RATE</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">BURN RATE</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {forecast.summary.burnRate === Infinity 
                         ? '∞' 
                         : `${forecast.summary.burnRate.toFixed(1)}m`
                       }
                     </div>
-                    <div className="text-sm text-gray-600">
+                    <div className="text-sm text-gray-600 dark:text-secondary-400">
                       {forecast.summary.burnRate === Infinity 
                         ? 'Sustainable' 
                         : 'Months until zero'
@@ -240,10 +315,10 @@ export default function ForecastingPage() {
                 </div>
 
                 {/* Chart */}
-                <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100 mb-8">
+                <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700 mb-8">
                   <div className="flex items-center justify-between mb-6">
-                    <h2 className="text-xl font-bold text-gray-900">Balance Projection</h2>
-                    <div className="text-sm text-gray-500">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-secondary-100">Balance Projection</h2>
+                    <div className="text-sm text-gray-500 dark:text-secondary-400">
                       Confidence: {(forecast.summary.confidenceScore * 100).toFixed(0)}%
                     </div>
                   </div>
@@ -268,7 +343,7 @@ export default function ForecastingPage() {
                           fontSize={12}
                           axisLine={false}
                           tickLine={false}
-                          tickFormatter={(value) => `$${value.toLocaleString()}`}
+                          tickFormatter={(value) => formatCompactCurrency(value)}
                         />
                         <Tooltip 
                           formatter={(value, name) => [
@@ -293,18 +368,18 @@ export default function ForecastingPage() {
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                   {/* Insights */}
                   {forecast.insights.length > 0 && (
-                    <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                    <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                       <div className="flex items-center space-x-3 mb-4">
-                        <div className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center">
+                        <div className="w-8 h-8 bg-blue-100 dark:bg-blue-900/30 rounded-lg flex items-center justify-center">
                           <Sparkles className="w-4 h-4 text-blue-600" />
                         </div>
-                        <h3 className="text-lg font-bold text-gray-900">AI Insights</h3>
+                        <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100">AI Insights</h3>
                       </div>
                       <ul className="space-y-3">
                         {forecast.insights.map((insight, index) => (
                           <li key={index} className="flex items-start space-x-3">
                             <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0" />
-                            <span className="text-gray-700 text-sm">{insight}</span>
+                            <span className="text-gray-700 dark:text-secondary-300 text-sm">{insight}</span>
                           </li>
                         ))}
                       </ul>
@@ -313,18 +388,18 @@ export default function ForecastingPage() {
 
                   {/* Warnings */}
                   {forecast.warnings.length > 0 && (
-                    <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                    <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                       <div className="flex items-center space-x-3 mb-4">
-                        <div className="w-8 h-8 bg-yellow-100 rounded-lg flex items-center justify-center">
+                        <div className="w-8 h-8 bg-yellow-100 dark:bg-yellow-900/30 rounded-lg flex items-center justify-center">
                           <AlertTriangle className="w-4 h-4 text-yellow-600" />
                         </div>
-                        <h3 className="text-lg font-bold text-gray-900">Warnings</h3>
+                        <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100">Warnings</h3>
                       </div>
                       <ul className="space-y-3">
                         {forecast.warnings.map((warning, index) => (
                           <li key={index} className="flex items-start space-x-3">
                             <div className="w-2 h-2 bg-yellow-500 rounded-full mt-2 flex-shrink-0" />
-                            <span className="text-gray-700 text-sm">{warning}</span>
+                            <span className="text-gray-700 dark:text-secondary-300 text-sm">{warning}</span>
                           </li>
                         ))}
                       </ul>
@@ -332,14 +407,56 @@ export default function ForecastingPage() {
                   )}
                 </div>
 
+                {/* Detected Recurring Patterns */}
+                {recurringPatterns.length > 0 && (
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
+                    <div className="flex items-center space-x-3 mb-4">
+                      <div className="w-8 h-8 bg-purple-100 dark:bg-purple-900/30 rounded-lg flex items-center justify-center">
+                        <Repeat className="w-4 h-4 text-purple-600" />
+                      </div>
+                      <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100">Detected Recurring Transactions</h3>
+                    </div>
+                    <div className="space-y-3">
+                      {recurringPatterns.map((pattern) => {
+                        const confirmed = isPatternConfirmed(pattern)
+                        return (
+                          <div key={`${pattern.type}-${pattern.description}`} className="flex items-center justify-between p-4 bg-gray-50 dark:bg-secondary-900/50 rounded-lg">
+                            <div>
+                              <div className="font-medium text-gray-900 dark:text-secondary-100">{pattern.description}</div>
+                              <div className="text-sm text-gray-600 dark:text-secondary-400 capitalize">
+                                {pattern.type} · {formatCurrency(pattern.amount)} {pattern.frequency} · next {formatDate(pattern.nextOccurrence)} · {(pattern.confidence * 100).toFixed(0)}% confidence
+                              </div>
+                            </div>
+                            {confirmed ? (
+                              <span className="flex items-center space-x-1 text-sm text-green-600">
+                                <Check className="w-4 h-4" />
+                                <span>Recurring</span>
+                              </span>
+                            ) : (
+                              <button
+                                onClick={() => handleMakeRecurring(pattern)}
+                                disabled={confirmingPattern === pattern.description}
+                                className="px-3 py-2 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 flex items-center space-x-2"
+                              >
+                                <Repeat className="w-4 h-4" />
+                                <span>Make recurring</span>
+                              </button>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 {/* Data Quality Notice */}
                 {forecast.summary.confidenceScore < 0.5 && (
-                  <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+                  <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl p-4">
                     <div className="flex items-center space-x-3">
                       <AlertTriangle className="w-5 h-5 text-yellow-600" />
                       <div>
-                        <h4 className="font-medium text-yellow-900">Low Forecast Confidence</h4>
-                        <p className="text-sm text-yellow-700 mt-1">
+                        <h4 className="font-medium text-yellow-900 dark:text-yellow-300">Low Forecast Confidence</h4>
+                        <p className="text-sm text-yellow-700 dark:text-yellow-300 mt-1">
                           Add more transaction history to improve forecast accuracy. 
                           Consider importing older bank statements or manually adding past transactions.
                         </p>
@@ -19,32 +19,32 @@ export default function GlobalError({
   return (
     <html>
       <body>
-        <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-orange-50 flex items-center justify-center p-4">
-          <div className="max-w-md w-full bg-white rounded-2xl shadow-xl border border-red-100 p-8 text-center">
+        <div className="min-h-screen bg-gradient-to-br from-red-50 dark:from-red-900/20 via-white dark:via-secondary-900 to-orange-50 dark:to-orange-900/20 flex items-center justify-center p-4">
+          <div className="max-w-md w-full bg-white dark:bg-secondary-800 rounded-2xl shadow-xl border border-red-100 dark:border-red-800 p-8 text-center">
             {/* Error Icon */}
-            <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <div className="w-16 h-16 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
               <AlertTriangle className="w-8 h-8 text-red-600" />
             </div>
 
             {/* Error Title */}
-            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-4">
               Something went wrong!
             </h1>
 
             {/* Error Description */}
-            <p className="text-gray-600 mb-6 leading-relaxed">
+            <p className="text-gray-600 dark:text-secondary-400 mb-6 leading-relaxed">
               We encountered an unexpected error in the application. This has been logged and our team will investigate.
             </p>
 
             {/* Error Details (Development Only) */}
             {process.env.NODE_ENV === 'development' && (
-              <div className="mb-6 p-4 bg-gray-50 rounded-lg text-left">
-                <h3 className="text-sm font-semibold text-gray-800 mb-2">Error Details:</h3>
-                <p className="text-xs text-gray-600 font-mono break-all">
+              <div className="mb-6 p-4 bg-gray-50 dark:bg-secondary-900/50 rounded-lg text-left">
+                <h3 className="text-sm font-semibold text-gray-800 dark:text-secondary-100 mb-2">Error Details:</h3>
+                <p className="text-xs text-gray-600 dark:text-secondary-400 font-mono break-all">
                   {error.message}
                 </p>
                 {error.digest && (
-                  <p className="text-xs text-gray-500 mt-2">
+                  <p className="text-xs text-gray-500 dark:text-secondary-400 mt-2">
                     Digest: {error.digest}
                   </p>
                 )}
@@ -63,7 +63,7 @@ export default function GlobalError({
               
               <button
                 onClick={() => window.location.href = '/'}
-                className="w-full flex items-center justify-center space-x-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-semibold"
+                className="w-full flex items-center justify-center space-x-2 px-6 py-3 bg-gray-100 dark:bg-secondary-700 text-gray-700 dark:text-secondary-300 rounded-lg hover:bg-gray-200 transition-colors font-semibold"
               >
                 <Home className="w-4 h-4" />
                 <span>Go Home</span>
@@ -71,7 +71,7 @@ export default function GlobalError({
             </div>
 
             {/* Help Text */}
-            <p className="text-xs text-gray-500 mt-6">
+            <p className="text-xs text-gray-500 dark:text-secondary-400 mt-6">
               If this problem persists, please refresh the page or contact support.
             </p>
           </div>
@@ -8,7 +8,10 @@ import Sidebar from '@/components/layout/Sidebar'
 import dynamic from 'next/dynamic'
 import { useApp } from '@/contexts/AppContext'
 import { ToastContainer, useToast } from '@/components/ui/Toast'
-import { Transaction, ImportResult, ValidationResult } from '@/types'
+import ImportHistory from '@/components/import/ImportHistory'
+import { getMergeUpdates } from '@/lib/duplicates'
+import { convertTransactions, inOriginalCurrency } from '@/lib/currency'
+import { Transaction, TransferMatch, ImportResult, ValidationResult } from '@/types'
 
 // Dynamic imports to prevent SSR issues
 const ImportData = dynamic(() => import('@/components/import/ImportData'), {
@@ -23,11 +26,31 @@ const ImportValidation = dynamic(() => import('@/components/import/ImportValidat
 
 export default function ImportPage() {
   const router = useRouter()
-  const { transactions: existingTransactions, addTransaction } = useApp()
+  const {
+    transactions: existingTransactions,
+    addTransaction,
+    updateTransaction,
+    accounts,
+    categories,
+    categorizationRules,
+    categoryCorrections,
+    recordCategoryCorrections,
+    bankProfiles,
+    saveBankProfile,
+    deleteBankProfile,
+    importBatches,
+    createImportBatch,
+    updateImportBatch,
+    deleteImportBatch,
+    revertImportBatch,
+    currencyConverter
+  } = useApp()
   const [currentStep, setCurrentStep] = useState<'import' | 'validate' | 'complete'>('import')
   const [importResult, setImportResult] = useState<ImportResult | null>(null)
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null)
   const [importedCount, setImportedCount] = useState(0)
+  const [importBatchId, setImportBatchId] = useState<string | null>(null)
+  const [isReverting, setIsReverting] = useState(false)
   const { toasts, removeToast, success, error: showError } = useToast()
 
   const handleImportComplete = async (result: ImportResult) => {
@@ -37,8 +60,8 @@ export default function ImportPage() {
     if (result.transactions.length > 0) {
       // Dynamically import aiImportService to avoid SSR issues
       const { aiImportService } = await import('@/services/aiImportService')
-      // Validate against existing transactions
-      const validation = aiImportService.validateTransactions(result.transactions, existingTransactions)
+      // Validate against existing transactions, which are in the base currency
+      const validation = aiImportService.validateTransactions(convertTransactions(result.transactions, currencyConverter), existingTransactions)
       setValidationResult(validation)
       setCurrentStep('validate')
     } else {
@@ -47,7 +70,12 @@ export default function ImportPage() {
     }
   }
 
-  const handleValidationConfirm = async (selectedTransactions: Transaction[]) => {
+  const handleValidationConfirm = async (
+    selectedTransactions: Transaction[],
+    selectedTransfers: TransferMatch[],
+    corrections: Array<{ description: string; category: string }>,
+    merges: Array<{ existing: Transaction; imported: Transaction }>
+  ) => {
     try {
       console.log('ImportPage: Starting import process for', selectedTransactions.length, 'transactions')
       console.log('ImportPage: Selected transactions:', selectedTransactions.map(t => ({
@@ -58,8 +86,38 @@ export default function ImportPage() {
       })))
 
       let successCount = 0
+      let addedCount = 0
       const errors: string[] = []
 
+      // Existing transactions as they were before this import changed them, so reverting puts them back
+      const changedTransactions: Transaction[] = []
+      const rememberChanged = (id: string) => {
+        const before = existingTransactions.find(t => t.id === id)
+        if (before && !changedTransactions.some(t => t.id === id)) changedTransactions.push(inOriginalCurrency(before))
+      }
+
+      // Record the import first so the transactions it adds can be tagged with it and reverted later
+      let batchId: string | undefined
+      try {
+        const batch = await createImportBatch({
+          fileNames: importResult?.fileNames || [],
+          options: {
+            accountId: importResult?.options?.accountId,
+            dateFormat: importResult?.options?.dateFormat,
+            currency: importResult?.options?.currency,
+            skipDuplicates: importResult?.options?.skipDuplicates,
+            confidenceThreshold: importResult?.options?.confidenceThreshold,
+            csvMapping: importResult?.options?.csvMapping?.headerFingerprint
+          },
+          importedCount: 0,
+          duplicateCount: validationResult?.duplicates.length || 0,
+          errorCount: 0
+        })
+        batchId = batch.id
+      } catch (error) {
+        console.warn('ImportPage: Failed to create import batch, this import cannot be reverted:', error)
+      }
+
       for (const transaction of selectedTransactions) {
         try {
           console.log(`ImportPage: Processing transaction: ${transaction.description}`)
@@ -69,14 +127,19 @@ export default function ImportPage() {
             date: transaction.date,
             description: transaction.description,
             category: transaction.category,
-            amount: transaction.amount,
-            type: transaction.type
+            amount: transaction.originalAmount ?? transaction.amount,
+            currency: transaction.currency,
+            type: transaction.type,
+            accountId: transaction.accountId,
+            externalId: transaction.externalId,
+            importBatchId: batchId
           }
 
           console.log('ImportPage: Transaction data for addTransaction:', transactionWithoutId)
           await addTransaction(transactionWithoutId)
           console.log(`ImportPage: Successfully imported: ${transaction.description}`)
           successCount++
+          addedCount++
         } catch (error) {
           console.error('ImportPage: Error importing transaction:', error)
           console.error('ImportPage: Failed transaction:', transaction)
@@ -84,8 +147,65 @@ export default function ImportPage() {
         }
       }
 
+      for (const match of selectedTransfers) {
+        try {
+          // A line matched against an existing transaction turns that transaction into the transfer
+          if (match.existingTransactionId) {
+            await updateTransaction(match.existingTransactionId, {
+              type: 'transfer',
+              category: match.transfer.category,
+              accountId: match.transfer.accountId,
+              transferAccountId: match.transfer.transferAccountId
+            })
+            rememberChanged(match.existingTransactionId)
+          } else {
+            await addTransaction({ ...match.transfer, importBatchId: batchId })
+            addedCount++
+          }
+          successCount++
+        } catch (error) {
+          console.error('ImportPage: Error importing transfer:', error)
+          errors.push(`Failed to import transfer "${match.transfer.description}": ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+      }
+
+      for (const { existing, imported } of merges) {
+        try {
+          await updateTransaction(existing.id, getMergeUpdates(existing, imported))
+          rememberChanged(existing.id)
+          successCount++
+        } catch (error) {
+          console.error('ImportPage: Error merging transaction:', error)
+          errors.push(`Failed to merge "${imported.description}": ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+      }
+
       setImportedCount(successCount)
 
+      if (batchId) {
+        try {
+          // An import that added and changed nothing has nothing to revert
+          if (addedCount === 0 && changedTransactions.length === 0) {
+            await deleteImportBatch(batchId)
+            batchId = undefined
+          } else {
+            await updateImportBatch(batchId, { importedCount: addedCount, errorCount: errors.length, changedTransactions })
+          }
+        } catch (error) {
+          console.warn('ImportPage: Failed to update import batch:', error)
+        }
+      }
+      setImportBatchId(batchId || null)
+
+      // Remember the categories fixed during review; failing to learn doesn't fail the import
+      if (corrections.length > 0) {
+        try {
+          await recordCategoryCorrections(corrections)
+        } catch (error) {
+          console.warn('ImportPage: Failed to record category corrections:', error)
+        }
+      }
+
       if (errors.length > 0) {
         showError(`Imported ${successCount} transactions with ${errors.length} errors`)
         console.error('ImportPage: Import errors:', errors)
@@ -114,6 +234,23 @@ export default function ImportPage() {
     setImportResult(null)
     setValidationResult(null)
     setImportedCount(0)
+    setImportBatchId(null)
+  }
+
+  const handleRevert = async (batchId: string) => {
+    setIsReverting(true)
+    try {
+      const { deleted, restored } = await revertImportBatch(batchId)
+      success(`Reverted the import and removed ${deleted} transactions${restored > 0 ? `, restoring ${restored} it changed` : ''}`)
+      if (batchId === importBatchId) {
+        handleStartOver()
+      }
+    } catch (error) {
+      console.error('ImportPage: Error reverting import:', error)
+      showError('Failed to revert the import')
+    } finally {
+      setIsReverting(false)
+    }
   }
 
   return (
@@ -134,8 +271,8 @@ export default function ImportPage() {
                   }`}>
                     <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${
                       currentStep === 'import' 
-                        ? 'bg-blue-100 text-blue-600' 
-                        : 'bg-green-100 text-green-600'
+                        ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-600' 
+                        : 'bg-green-100 dark:bg-green-900/30 text-green-600'
                     }`}>
                       {currentStep === 'import' ? '1' : '✓'}
                     </div>
@@ -148,14 +285,14 @@ export default function ImportPage() {
                   
                   <div className={`flex items-center space-x-2 ${
                     currentStep === 'validate' ? 'text-blue-600' : 
-                    currentStep === 'complete' ? 'text-green-600' : 'text-gray-400'
+                    currentStep === 'complete' ? 'text-green-600' : 'text-gray-400 dark:text-secondary-500'
                   }`}>
                     <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${
                       currentStep === 'validate' 
-                        ? 'bg-blue-100 text-blue-600'
+                        ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-600'
                         : currentStep === 'complete'
-                        ? 'bg-green-100 text-green-600'
-                        : 'bg-gray-100 text-gray-400'
+                        ? 'bg-green-100 dark:bg-green-900/30 text-green-600'
+                        : 'bg-gray-100 dark:bg-secondary-700 text-gray-400 dark:text-secondary-500'
                     }`}>
                       {currentStep === 'complete' ? '✓' : '2'}
                     </div>
@@ -167,12 +304,12 @@ export default function ImportPage() {
                   }`} />
                   
                   <div className={`flex items-center space-x-2 ${
-                    currentStep === 'complete' ? 'text-green-600' : 'text-gray-400'
+                    currentStep === 'complete' ? 'text-green-600' : 'text-gray-400 dark:text-secondary-500'
                   }`}>
                     <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${
                       currentStep === 'complete'
-                        ? 'bg-green-100 text-green-600'
-                        : 'bg-gray-100 text-gray-400'
+                        ? 'bg-green-100 dark:bg-green-900/30 text-green-600'
+                        : 'bg-gray-100 dark:bg-secondary-700 text-gray-400 dark:text-secondary-500'
                     }`}>
                       {currentStep === 'complete' ? '✓' : '3'}
                     </div>
@@ -187,6 +324,23 @@ export default function ImportPage() {
               <ImportData
                 onImportComplete={handleImportComplete}
                 onClose={handleClose}
+                accounts={accounts}
+                categories={categories}
+                rules={categorizationRules}
+                corrections={categoryCorrections}
+                bankProfiles={bankProfiles}
+                onSaveBankProfile={saveBankProfile}
+                onDeleteBankProfile={deleteBankProfile}
+              />
+            )}
+
+            {currentStep === 'import' && importBatches.length > 0 && (
+              <ImportHistory
+                batches={importBatches}
+                transactions={existingTransactions}
+                accounts={accounts}
+                onRevert={handleRevert}
+                isReverting={isReverting}
               />
             )}
 
@@ -195,22 +349,23 @@ export default function ImportPage() {
                 validationResult={validationResult}
                 onConfirm={handleValidationConfirm}
                 onCancel={handleValidationCancel}
+                categories={categories}
               />
             )}
 
             {currentStep === 'complete' && (
-              <div className="bg-white rounded-2xl border border-white/20 shadow-soft p-8 text-center">
+              <div className="bg-white dark:bg-secondary-800 rounded-2xl border border-white/20 dark:border-secondary-700/50 shadow-soft p-8 text-center">
                 <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-6" />
                 
-                <h2 className="text-2xl font-bold text-gray-900 mb-4">Import Complete!</h2>
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-4">Import Complete!</h2>
                 
                 {importedCount > 0 ? (
                   <div className="mb-6">
-                    <p className="text-lg text-gray-600 mb-2">
+                    <p className="text-lg text-gray-600 dark:text-secondary-400 mb-2">
                       Successfully imported <span className="font-semibold text-green-600">{importedCount}</span> transactions
                     </p>
                     {importResult && (
-                      <div className="text-sm text-gray-500">
+                      <div className="text-sm text-gray-500 dark:text-secondary-400">
                         <p>Processed {importResult.summary.totalProcessed} files</p>
                         {importResult.errors.length > 0 && (
                           <p className="text-yellow-600">With {importResult.errors.length} warnings</p>
@@ -220,7 +375,7 @@ export default function ImportPage() {
                   </div>
                 ) : (
                   <div className="mb-6">
-                    <p className="text-lg text-gray-600 mb-2">
+                    <p className="text-lg text-gray-600 dark:text-secondary-400 mb-2">
                       No new transactions were imported
                     </p>
                     {importResult && importResult.errors.length > 0 && (
@@ -235,10 +390,24 @@ export default function ImportPage() {
                   <button
                     type="button"
                     onClick={handleStartOver}
-                    className="px-6 py-2 text-secondary-600 hover:text-secondary-800 hover:bg-secondary-50 rounded-lg transition-colors"
+                    className="px-6 py-2 text-secondary-600 dark:text-secondary-400 hover:text-secondary-800 dark:hover:text-secondary-100 hover:bg-secondary-50 dark:hover:bg-secondary-700 rounded-lg transition-colors"
                   >
                     Import More
                   </button>
+                  {importBatchId && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (window.confirm('Revert this import? The transactions it added will be deleted and the ones it changed restored.')) {
+                          handleRevert(importBatchId)
+                        }
+                      }}
+                      disabled={isReverting}
+                      className="px-6 py-2 text-red-600 hover:text-red-800 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {isReverting ? 'Reverting...' : 'Revert This Import'}
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={() => router.push('/transactions')}
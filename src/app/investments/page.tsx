@@ -5,12 +5,14 @@ import { TrendingUp, Target, Shield, DollarSign, AlertTriangle, BookOpen, CheckC
 import Header from '@/components/layout/Header'
 import Sidebar from '@/components/layout/Sidebar'
 import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
 import { investmentRecommendationsService } from '@/services/investmentRecommendationsService'
 import { InvestmentRecommendation, MarketInsight } from '@/types'
 import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 
 export default function InvestmentsPage() {
   const { transactions } = useApp()
+  const { formatCurrency } = usePreferences()
   const [recommendation, setRecommendation] = useState<InvestmentRecommendation | null>(null)
   const [marketInsights, setMarketInsights] = useState<MarketInsight[]>([])
   const [loading, setLoading] = useState(true)
@@ -50,13 +52,6 @@ export default function InvestmentsPage() {
     }
   }
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount)
-  }
-
   const formatPercentage = (value: number) => {
     return `${(value * 100).toFixed(1)}%`
   }
@@ -73,26 +68,26 @@ export default function InvestmentsPage() {
   // Risk level colors
   const getRiskColor = (level: string) => {
     switch (level) {
-      case 'low': return 'text-green-600 bg-green-100'
-      case 'medium': return 'text-yellow-600 bg-yellow-100'
-      case 'high': return 'text-red-600 bg-red-100'
-      default: return 'text-gray-600 bg-gray-100'
+      case 'low': return 'text-green-600 bg-green-100 dark:bg-green-900/30'
+      case 'medium': return 'text-yellow-600 bg-yellow-100 dark:bg-yellow-900/30'
+      case 'high': return 'text-red-600 bg-red-100 dark:bg-red-900/30'
+      default: return 'text-gray-600 dark:text-secondary-400 bg-gray-100 dark:bg-secondary-700'
     }
   }
 
   const getRecommendationColor = (rec: string) => {
     switch (rec) {
-      case 'highly_recommended': return 'text-green-600 bg-green-100'
-      case 'recommended': return 'text-blue-600 bg-blue-100'
-      case 'consider': return 'text-yellow-600 bg-yellow-100'
-      case 'avoid': return 'text-red-600 bg-red-100'
-      default: return 'text-gray-600 bg-gray-100'
+      case 'highly_recommended': return 'text-green-600 bg-green-100 dark:bg-green-900/30'
+      case 'recommended': return 'text-blue-600 bg-blue-100 dark:bg-blue-900/30'
+      case 'consider': return 'text-yellow-600 bg-yellow-100 dark:bg-yellow-900/30'
+      case 'avoid': return 'text-red-600 bg-red-100 dark:bg-red-900/30'
+      default: return 'text-gray-600 dark:text-secondary-400 bg-gray-100 dark:bg-secondary-700'
     }
   }
 
   if (loading) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50">
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 dark:from-blue-900/20 via-white dark:via-secondary-900 to-green-50 dark:to-green-900/20">
         <Header title="Investment Recommendations" />
         <div className="flex">
           <Sidebar currentPage="investments" />
@@ -101,7 +96,7 @@ export default function InvestmentsPage() {
               <div className="flex items-center justify-center h-64">
                 <div className="text-center">
                   <TrendingUp className="w-12 h-12 text-blue-600 animate-pulse mx-auto mb-4" />
-                  <p className="text-gray-600">Analyzing your investment profile...</p>
+                  <p className="text-gray-600 dark:text-secondary-400">Analyzing your investment profile...</p>
                 </div>
               </div>
             </div>
@@ -112,7 +107,7 @@ export default function InvestmentsPage() {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50">
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 dark:from-blue-900/20 via-white dark:via-secondary-900 to-green-50 dark:to-green-900/20">
       <Header title="Investment Recommendations" />
       
       <div className="flex">
@@ -128,31 +123,31 @@ export default function InvestmentsPage() {
                   <TrendingUp className="w-6 h-6 text-white" />
                 </div>
                 <div>
-                  <h1 className="text-3xl font-bold text-gray-900">Investment Recommendations</h1>
-                  <p className="text-gray-600">Personalized investment advice based on your financial profile</p>
+                  <h1 className="text-3xl font-bold text-gray-900 dark:text-secondary-100">Investment Recommendations</h1>
+                  <p className="text-gray-600 dark:text-secondary-400">Personalized investment advice based on your financial profile</p>
                 </div>
               </div>
             </div>
 
             {/* User Inputs */}
-            <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100 mb-8">
-              <h3 className="text-lg font-bold text-gray-900 mb-4">Your Investment Profile</h3>
+            <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700 mb-8">
+              <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100 mb-4">Your Investment Profile</h3>
               <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Age</label>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Age</label>
                   <input
                     type="number"
                     value={userInputs.age}
                     onChange={(e) => setUserInputs({...userInputs, age: Number(e.target.value)})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Risk Tolerance</label>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Risk Tolerance</label>
                   <select
                     value={userInputs.riskTolerance}
                     onChange={(e) => setUserInputs({...userInputs, riskTolerance: e.target.value as any})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   >
                     <option value="conservative">Conservative</option>
                     <option value="moderate">Moderate</option>
@@ -160,30 +155,30 @@ export default function InvestmentsPage() {
                   </select>
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Time Horizon (years)</label>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Time Horizon (years)</label>
                   <input
                     type="number"
                     value={userInputs.timeHorizon}
                     onChange={(e) => setUserInputs({...userInputs, timeHorizon: Number(e.target.value)})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Current Investments</label>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Current Investments</label>
                   <input
                     type="number"
                     value={userInputs.currentInvestments}
                     onChange={(e) => setUserInputs({...userInputs, currentInvestments: Number(e.target.value)})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     placeholder="$0"
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Knowledge Level</label>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Knowledge Level</label>
                   <select
                     value={userInputs.financialKnowledge}
                     onChange={(e) => setUserInputs({...userInputs, financialKnowledge: e.target.value as any})}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   >
                     <option value="beginner">Beginner</option>
                     <option value="intermediate">Intermediate</option>
@@ -197,62 +192,62 @@ export default function InvestmentsPage() {
               <>
                 {/* Key Metrics Cards */}
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900/30 rounded-lg flex items-center justify-center">
                         <Shield className="w-5 h-5 text-blue-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">RISK SCORE</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">RISK SCORE</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {recommendation.riskAssessment.score.toFixed(1)}/10
                     </div>
-                    <div className="text-sm text-gray-600 capitalize">{recommendation.riskAssessment.category}</div>
+                    <div className="text-sm text-gray-600 dark:text-secondary-400 capitalize">{recommendation.riskAssessment.category}</div>
                   </div>
 
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center">
                         <TrendingUp className="w-5 h-5 text-green-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">EXPECTED RETURN</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">EXPECTED RETURN</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {formatPercentage(recommendation.recommendedPortfolio.expectedReturn)}
                     </div>
-                    <div className="text-sm text-gray-600">Annual</div>
+                    <div className="text-sm text-gray-600 dark:text-secondary-400">Annual</div>
                   </div>
 
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-yellow-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-yellow-100 dark:bg-yellow-900/30 rounded-lg flex items-center justify-center">
                         <AlertTriangle className="w-5 h-5 text-yellow-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">VOLATILITY</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">VOLATILITY</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {formatPercentage(recommendation.recommendedPortfolio.volatility)}
                     </div>
-                    <div className="text-sm text-gray-600">Annual</div>
+                    <div className="text-sm text-gray-600 dark:text-secondary-400">Annual</div>
                   </div>
 
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-purple-100 dark:bg-purple-900/30 rounded-lg flex items-center justify-center">
                         <DollarSign className="w-5 h-5 text-purple-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">MONTHLY CAPACITY</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">MONTHLY CAPACITY</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {formatCurrency(recommendation.userProfile.monthlyInvestmentCapacity)}
                     </div>
-                    <div className="text-sm text-gray-600">Available</div>
+                    <div className="text-sm text-gray-600 dark:text-secondary-400">Available</div>
                   </div>
                 </div>
 
                 {/* Tab Navigation */}
-                <div className="bg-white rounded-xl shadow-sm border border-gray-100 mb-8">
-                  <div className="border-b border-gray-200">
+                <div className="bg-white dark:bg-secondary-800 rounded-xl shadow-sm border border-gray-100 dark:border-secondary-700 mb-8">
+                  <div className="border-b border-gray-200 dark:border-secondary-700">
                     <nav className="-mb-px flex">
                       {[
                         { id: 'portfolio', label: 'Portfolio', icon: Target },
@@ -266,7 +261,7 @@ export default function InvestmentsPage() {
                           className={`flex items-center space-x-2 px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
                             selectedTab === tab.id
                               ? 'border-blue-500 text-blue-600'
-                              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                              : 'border-transparent text-gray-500 dark:text-secondary-400 hover:text-gray-700 dark:hover:text-secondary-100 hover:border-gray-300 dark:hover:border-secondary-600'
                           }`}
                         >
                           <tab.icon className="w-4 h-4" />
@@ -282,7 +277,7 @@ export default function InvestmentsPage() {
                         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                           {/* Portfolio Pie Chart */}
                           <div>
-                            <h3 className="text-lg font-bold text-gray-900 mb-4">Recommended Allocation</h3>
+                            <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100 mb-4">Recommended Allocation</h3>
                             <div className="h-80">
                               <ResponsiveContainer width="100%" height="100%">
                                 <PieChart>
@@ -306,18 +301,18 @@ export default function InvestmentsPage() {
 
                           {/* Portfolio Details */}
                           <div>
-                            <h3 className="text-lg font-bold text-gray-900 mb-4">Portfolio Details</h3>
+                            <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100 mb-4">Portfolio Details</h3>
                             <div className="space-y-4">
-                              <div className="bg-gray-50 rounded-lg p-4">
-                                <h4 className="font-medium text-gray-900 mb-2">Description</h4>
-                                <p className="text-gray-600">{recommendation.recommendedPortfolio.description}</p>
+                              <div className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-4">
+                                <h4 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Description</h4>
+                                <p className="text-gray-600 dark:text-secondary-400">{recommendation.recommendedPortfolio.description}</p>
                               </div>
                               
-                              <div className="bg-gray-50 rounded-lg p-4">
-                                <h4 className="font-medium text-gray-900 mb-2">Key Reasoning</h4>
+                              <div className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-4">
+                                <h4 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Key Reasoning</h4>
                                 <ul className="space-y-1">
                                   {recommendation.recommendedPortfolio.reasoning.map((reason, index) => (
-                                    <li key={index} className="flex items-start space-x-2 text-sm text-gray-600">
+                                    <li key={index} className="flex items-start space-x-2 text-sm text-gray-600 dark:text-secondary-400">
                                       <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
                                       <span>{reason}</span>
                                     </li>
@@ -326,17 +321,17 @@ export default function InvestmentsPage() {
                               </div>
 
                               <div className="grid grid-cols-2 gap-4">
-                                <div className="bg-gray-50 rounded-lg p-4 text-center">
+                                <div className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-4 text-center">
                                   <div className="text-xl font-bold text-green-600">
                                     {formatPercentage(recommendation.recommendedPortfolio.expectedReturn)}
                                   </div>
-                                  <div className="text-sm text-gray-600">Expected Return</div>
+                                  <div className="text-sm text-gray-600 dark:text-secondary-400">Expected Return</div>
                                 </div>
-                                <div className="bg-gray-50 rounded-lg p-4 text-center">
+                                <div className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-4 text-center">
                                   <div className="text-xl font-bold text-yellow-600">
                                     {formatPercentage(recommendation.recommendedPortfolio.volatility)}
                                   </div>
-                                  <div className="text-sm text-gray-600">Expected Volatility</div>
+                                  <div className="text-sm text-gray-600 dark:text-secondary-400">Expected Volatility</div>
                                 </div>
                               </div>
                             </div>
@@ -347,13 +342,13 @@ export default function InvestmentsPage() {
 
                     {selectedTab === 'investments' && (
                       <div className="space-y-6">
-                        <h3 className="text-lg font-bold text-gray-900">Recommended Investment Options</h3>
+                        <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100">Recommended Investment Options</h3>
                         
                         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                           {recommendation.investmentOptions.map((option, index) => (
-                            <div key={index} className="bg-gray-50 rounded-lg p-6">
+                            <div key={index} className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-6">
                               <div className="flex items-center justify-between mb-4">
-                                <h4 className="text-lg font-medium text-gray-900">{option.name}</h4>
+                                <h4 className="text-lg font-medium text-gray-900 dark:text-secondary-100">{option.name}</h4>
                                 <div className="flex items-center space-x-2">
                                   <span className={`px-2 py-1 text-xs rounded-full ${getRiskColor(option.riskLevel)}`}>
                                     {option.riskLevel} risk
@@ -364,30 +359,30 @@ export default function InvestmentsPage() {
                                 </div>
                               </div>
                               
-                              <p className="text-gray-600 mb-4">{option.description}</p>
+                              <p className="text-gray-600 dark:text-secondary-400 mb-4">{option.description}</p>
                               
                               <div className="grid grid-cols-2 gap-4 mb-4">
                                 <div className="text-center">
-                                  <div className="text-lg font-bold text-gray-900">{option.ticker}</div>
-                                  <div className="text-sm text-gray-500">Ticker</div>
+                                  <div className="text-lg font-bold text-gray-900 dark:text-secondary-100">{option.ticker}</div>
+                                  <div className="text-sm text-gray-500 dark:text-secondary-400">Ticker</div>
                                 </div>
                                 <div className="text-center">
                                   <div className="text-lg font-bold text-blue-600">{option.allocationPercentage}%</div>
-                                  <div className="text-sm text-gray-500">Allocation</div>
+                                  <div className="text-sm text-gray-500 dark:text-secondary-400">Allocation</div>
                                 </div>
                                 <div className="text-center">
                                   <div className="text-lg font-bold text-green-600">{formatPercentage(option.expectedReturn)}</div>
-                                  <div className="text-sm text-gray-500">Expected Return</div>
+                                  <div className="text-sm text-gray-500 dark:text-secondary-400">Expected Return</div>
                                 </div>
                                 <div className="text-center">
                                   <div className="text-lg font-bold text-purple-600">{formatPercentage(option.expenseRatio)}</div>
-                                  <div className="text-sm text-gray-500">Expense Ratio</div>
+                                  <div className="text-sm text-gray-500 dark:text-secondary-400">Expense Ratio</div>
                                 </div>
                               </div>
 
                               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                 <div>
-                                  <h5 className="font-medium text-gray-900 mb-2">Pros:</h5>
+                                  <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Pros:</h5>
                                   <ul className="space-y-1">
                                     {option.pros.map((pro, proIndex) => (
                                       <li key={proIndex} className="text-sm text-green-600">+ {pro}</li>
@@ -395,7 +390,7 @@ export default function InvestmentsPage() {
                                   </ul>
                                 </div>
                                 <div>
-                                  <h5 className="font-medium text-gray-900 mb-2">Cons:</h5>
+                                  <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Cons:</h5>
                                   <ul className="space-y-1">
                                     {option.cons.map((con, conIndex) => (
                                       <li key={conIndex} className="text-sm text-red-600">- {con}</li>
@@ -411,34 +406,34 @@ export default function InvestmentsPage() {
 
                     {selectedTab === 'recommendations' && (
                       <div className="space-y-6">
-                        <h3 className="text-lg font-bold text-gray-900">Personalized Recommendations</h3>
+                        <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100">Personalized Recommendations</h3>
                         
                         {recommendation.recommendations.map((rec, index) => (
-                          <div key={index} className="bg-gray-50 rounded-lg p-6">
+                          <div key={index} className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-6">
                             <div className="flex items-center justify-between mb-4">
-                              <h4 className="text-lg font-medium text-gray-900">{rec.title}</h4>
+                              <h4 className="text-lg font-medium text-gray-900 dark:text-secondary-100">{rec.title}</h4>
                               <div className="flex items-center space-x-2">
                                 <span className={`px-2 py-1 text-xs rounded-full ${
-                                  rec.priority === 'high' ? 'bg-red-100 text-red-700' :
-                                  rec.priority === 'medium' ? 'bg-yellow-100 text-yellow-700' :
-                                  'bg-green-100 text-green-700'
+                                  rec.priority === 'high' ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300' :
+                                  rec.priority === 'medium' ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300' :
+                                  'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
                                 }`}>
                                   {rec.priority} priority
                                 </span>
-                                <span className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-700">
+                                <span className="px-2 py-1 text-xs rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
                                   {rec.timeframe.replace('_', ' ')}
                                 </span>
                               </div>
                             </div>
                             
-                            <p className="text-gray-600 mb-4">{rec.description}</p>
+                            <p className="text-gray-600 dark:text-secondary-400 mb-4">{rec.description}</p>
                             
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                               <div>
-                                <h5 className="font-medium text-gray-900 mb-2">Action Steps:</h5>
+                                <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Action Steps:</h5>
                                 <ul className="space-y-1">
                                   {rec.actionSteps.map((step, stepIndex) => (
-                                    <li key={stepIndex} className="flex items-start space-x-2 text-sm text-gray-600">
+                                    <li key={stepIndex} className="flex items-start space-x-2 text-sm text-gray-600 dark:text-secondary-400">
                                       <CheckCircle className="w-4 h-4 text-blue-500 mt-0.5 flex-shrink-0" />
                                       <span>{step}</span>
                                     </li>
@@ -446,19 +441,19 @@ export default function InvestmentsPage() {
                                 </ul>
                               </div>
                               <div>
-                                <h5 className="font-medium text-gray-900 mb-2">Expected Benefit:</h5>
-                                <p className="text-sm text-gray-600">{rec.expectedBenefit}</p>
+                                <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Expected Benefit:</h5>
+                                <p className="text-sm text-gray-600 dark:text-secondary-400">{rec.expectedBenefit}</p>
                               </div>
                             </div>
                           </div>
                         ))}
 
                         {/* Next Steps */}
-                        <div className="bg-blue-50 rounded-lg p-6">
-                          <h4 className="text-lg font-medium text-gray-900 mb-4">Your Next Steps</h4>
+                        <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-6">
+                          <h4 className="text-lg font-medium text-gray-900 dark:text-secondary-100 mb-4">Your Next Steps</h4>
                           <ul className="space-y-2">
                             {recommendation.nextSteps.map((step, index) => (
-                              <li key={index} className="flex items-start space-x-2 text-sm text-gray-700">
+                              <li key={index} className="flex items-start space-x-2 text-sm text-gray-700 dark:text-secondary-300">
                                 <span className="flex-shrink-0 w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center text-xs">
                                   {index + 1}
                                 </span>
@@ -472,46 +467,46 @@ export default function InvestmentsPage() {
 
                     {selectedTab === 'insights' && (
                       <div className="space-y-6">
-                        <h3 className="text-lg font-bold text-gray-900">Market Insights</h3>
+                        <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100">Market Insights</h3>
                         
                         {marketInsights.map((insight, index) => (
-                          <div key={index} className="bg-gray-50 rounded-lg p-6">
+                          <div key={index} className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-6">
                             <div className="flex items-center justify-between mb-4">
                               <div className="flex items-center space-x-3">
                                 <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${
-                                  insight.type === 'trend' ? 'bg-blue-100' :
-                                  insight.type === 'opportunity' ? 'bg-green-100' :
-                                  insight.type === 'warning' ? 'bg-red-100' : 'bg-gray-100'
+                                  insight.type === 'trend' ? 'bg-blue-100 dark:bg-blue-900/30' :
+                                  insight.type === 'opportunity' ? 'bg-green-100 dark:bg-green-900/30' :
+                                  insight.type === 'warning' ? 'bg-red-100 dark:bg-red-900/30' : 'bg-gray-100 dark:bg-secondary-700'
                                 }`}>
                                   {insight.type === 'trend' && <TrendingUp className="w-4 h-4 text-blue-600" />}
                                   {insight.type === 'opportunity' && <Star className="w-4 h-4 text-green-600" />}
                                   {insight.type === 'warning' && <AlertTriangle className="w-4 h-4 text-red-600" />}
-                                  {insight.type === 'general' && <BookOpen className="w-4 h-4 text-gray-600" />}
+                                  {insight.type === 'general' && <BookOpen className="w-4 h-4 text-gray-600 dark:text-secondary-400" />}
                                 </div>
-                                <h4 className="text-lg font-medium text-gray-900">{insight.title}</h4>
+                                <h4 className="text-lg font-medium text-gray-900 dark:text-secondary-100">{insight.title}</h4>
                               </div>
                               <div className="flex items-center space-x-2">
                                 <span className={`px-2 py-1 text-xs rounded-full ${
-                                  insight.impact === 'high' ? 'bg-red-100 text-red-700' :
-                                  insight.impact === 'medium' ? 'bg-yellow-100 text-yellow-700' :
-                                  'bg-green-100 text-green-700'
+                                  insight.impact === 'high' ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300' :
+                                  insight.impact === 'medium' ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300' :
+                                  'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
                                 }`}>
                                   {insight.impact} impact
                                 </span>
-                                <span className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-700">
+                                <span className="px-2 py-1 text-xs rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
                                   {insight.timeframe.replace('_', ' ')}
                                 </span>
                               </div>
                             </div>
                             
-                            <p className="text-gray-600 mb-4">{insight.description}</p>
+                            <p className="text-gray-600 dark:text-secondary-400 mb-4">{insight.description}</p>
                             
                             {insight.relevantAssets.length > 0 && (
                               <div>
-                                <h5 className="font-medium text-gray-900 mb-2">Relevant Assets:</h5>
+                                <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Relevant Assets:</h5>
                                 <div className="flex flex-wrap gap-2">
                                   {insight.relevantAssets.map((asset, assetIndex) => (
-                                    <span key={assetIndex} className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-sm">
+                                    <span key={assetIndex} className="px-3 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded-full text-sm">
                                       {asset}
                                     </span>
                                   ))}
@@ -3,6 +3,9 @@ import { Inter } from 'next/font/google'
 import './globals.css'
 import { AppProvider } from '@/contexts/AppContext'
 import { AuthProvider } from '@/contexts/AuthContext'
+import { PreferencesProvider } from '@/contexts/PreferencesContext'
+import { ThemeProvider } from '@/contexts/ThemeContext'
+import { THEME_SCRIPT } from '@/lib/theme'
 
 import BrowserExtensionSuppressor from '@/components/utils/BrowserExtensionSuppressor'
 import DevServiceWorkerGuard from '@/components/utils/DevServiceWorkerGuard'
@@ -34,14 +37,21 @@ export default function RootLayout({
   children: React.ReactNode
 }) {
   return (
-    <html lang="en">
+    <html lang="en" suppressHydrationWarning>
+      <head>
+        <script dangerouslySetInnerHTML={{ __html: THEME_SCRIPT }} />
+      </head>
       <body className={inter.className} suppressHydrationWarning={true}>
         <BrowserExtensionSuppressor />
         <DevServiceWorkerGuard />
         <AuthProvider>
-          <AppProvider>
-            {children}
-          </AppProvider>
+          <PreferencesProvider>
+            <ThemeProvider>
+              <AppProvider>
+                {children}
+              </AppProvider>
+            </ThemeProvider>
+          </PreferencesProvider>
         </AuthProvider>
       </body>
     </html>
@@ -5,22 +5,22 @@ import Link from 'next/link'
 
 export default function NotFound() {
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
-      <div className="max-w-lg w-full bg-white rounded-2xl shadow-soft border border-white/20 p-8 text-center">
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 dark:from-blue-900/20 via-white dark:via-secondary-900 to-purple-50 dark:to-purple-900/20 flex items-center justify-center p-4">
+      <div className="max-w-lg w-full bg-white dark:bg-secondary-800 rounded-2xl shadow-soft border border-white/20 dark:border-secondary-700/50 p-8 text-center">
         {/* 404 Icon */}
-        <div className="w-20 h-20 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-6">
+        <div className="w-20 h-20 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
           <Search className="w-10 h-10 text-blue-600" />
         </div>
 
         {/* 404 Title */}
-        <h1 className="text-6xl font-bold text-secondary-900 mb-4">404</h1>
+        <h1 className="text-6xl font-bold text-secondary-900 dark:text-secondary-100 mb-4">404</h1>
 
-        <h2 className="text-2xl font-bold text-secondary-900 mb-4">
+        <h2 className="text-2xl font-bold text-secondary-900 dark:text-secondary-100 mb-4">
           Page Not Found
         </h2>
 
         {/* Description */}
-        <p className="text-secondary-600 mb-8 leading-relaxed">
+        <p className="text-secondary-600 dark:text-secondary-400 mb-8 leading-relaxed">
           Sorry, we couldn't find the page you're looking for. It might have been moved, deleted, or you entered the wrong URL.
         </p>
 
@@ -36,7 +36,7 @@ export default function NotFound() {
 
           <button
             onClick={() => window.history.back()}
-            className="w-full flex items-center justify-center space-x-2 px-6 py-3 bg-secondary-100 text-secondary-700 rounded-lg hover:bg-secondary-200 transition-colors font-semibold"
+            className="w-full flex items-center justify-center space-x-2 px-6 py-3 bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg hover:bg-secondary-200 transition-colors font-semibold"
           >
             <ArrowLeft className="w-4 h-4" />
             <span>Go Back</span>
@@ -44,8 +44,8 @@ export default function NotFound() {
         </div>
 
         {/* Popular Pages */}
-        <div className="mt-8 p-4 bg-gray-50 rounded-lg">
-          <h3 className="text-sm font-semibold text-gray-800 mb-3">Popular Pages:</h3>
+        <div className="mt-8 p-4 bg-gray-50 dark:bg-secondary-900/50 rounded-lg">
+          <h3 className="text-sm font-semibold text-gray-800 dark:text-secondary-100 mb-3">Popular Pages:</h3>
           <div className="space-y-2">
             <Link
               href="/transactions"
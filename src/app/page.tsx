@@ -10,6 +10,7 @@ import IncomeVsExpensesChart from '@/components/charts/IncomeVsExpensesChart'
 
 import ProtectedRoute from '@/components/auth/ProtectedRoute'
 import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
 import { useResponsive } from '@/hooks/useResponsive'
 import {
   TrendingUp,
@@ -31,6 +32,7 @@ export default function Dashboard() {
     loading,
     error
   } = useApp()
+  const { formatCurrency } = usePreferences()
 
   const totalIncome = getTotalIncome()
   const totalExpenses = getTotalExpenses()
@@ -42,11 +44,11 @@ export default function Dashboard() {
 
   if (loading) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 dark:from-blue-900/20 via-white dark:via-secondary-900 to-purple-50 dark:to-purple-900/20 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading your financial data...</p>
-          <p className="text-sm text-gray-400 mt-2">This should only take a few seconds</p>
+          <p className="text-gray-600 dark:text-secondary-400">Loading your financial data...</p>
+          <p className="text-sm text-gray-400 dark:text-secondary-500 mt-2">This should only take a few seconds</p>
         </div>
       </div>
     )
@@ -54,13 +56,13 @@ export default function Dashboard() {
 
   if (error) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-orange-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gradient-to-br from-red-50 dark:from-red-900/20 via-white dark:via-secondary-900 to-orange-50 dark:to-orange-900/20 flex items-center justify-center">
         <div className="text-center max-w-md mx-auto p-8">
           <div className="text-red-600 mb-4">
             <DollarSign className="w-12 h-12 mx-auto" />
           </div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-4">Unable to Load Dashboard</h2>
-          <p className="text-gray-600 mb-6">{error}</p>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-4">Unable to Load Dashboard</h2>
+          <p className="text-gray-600 dark:text-secondary-400 mb-6">{error}</p>
           <button
             type="button"
             onClick={() => window.location.reload()}
@@ -95,7 +97,7 @@ export default function Dashboard() {
               <div className="grid mobile-grid gap-4 sm:gap-6">
                 <MetricCard
                   title="Total Income"
-                  value={`$${totalIncome.toLocaleString()}`}
+                  value={formatCurrency(totalIncome)}
                   subtitle={`${incomeTransactions} transactions`}
                   icon={<TrendingUp className="w-5 h-5 sm:w-6 sm:h-6 text-white" />}
                   iconColor="bg-gradient-to-br from-green-500 to-emerald-600"
@@ -103,7 +105,7 @@ export default function Dashboard() {
                 />
                 <MetricCard
                   title="Total Expenses"
-                  value={`$${totalExpenses.toLocaleString()}`}
+                  value={formatCurrency(totalExpenses)}
                   subtitle={`${expenseTransactions} transactions`}
                   icon={<TrendingDown className="w-5 h-5 sm:w-6 sm:h-6 text-white" />}
                   iconColor="bg-gradient-to-br from-red-500 to-pink-600"
@@ -111,7 +113,7 @@ export default function Dashboard() {
                 />
                 <MetricCard
                   title="Net Income"
-                  value={`$${netIncome.toLocaleString()}`}
+                  value={formatCurrency(netIncome)}
                   subtitle={netIncome >= 0 ? 'Positive cash flow' : 'Negative cash flow'}
                   icon={<DollarSign className="w-5 h-5 sm:w-6 sm:h-6 text-white" />}
                   iconColor={netIncome >= 0 ? "bg-gradient-to-br from-blue-500 to-indigo-600" : "bg-gradient-to-br from-orange-500 to-red-600"}
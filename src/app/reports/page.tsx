@@ -5,12 +5,14 @@ import { FileText, TrendingUp, PieChart, Calendar, Sparkles, Clock, Download } f
 import Header from '@/components/layout/Header'
 import Sidebar from '@/components/layout/Sidebar'
 import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
 import { ToastContainer, useToast } from '@/components/ui/Toast'
 import { aiReportService } from '@/services/aiReportService'
 import { ReportType, AIReport } from '@/types'
 
 export default function ReportsPage() {
   const { transactions, budgets } = useApp()
+  const { formatDateTime } = usePreferences()
   const [isGenerating, setIsGenerating] = useState(false)
   const [currentReport, setCurrentReport] = useState<AIReport | null>(null)
   const [generatingType, setGeneratingType] = useState<ReportType | null>(null)
@@ -110,8 +112,8 @@ export default function ReportsPage() {
                       <Sparkles className="w-6 h-6 text-white" />
                     </div>
                     <div>
-                      <h1 className="text-2xl font-bold text-secondary-900">AI-Powered Financial Reports</h1>
-                      <p className="text-secondary-600">Generate intelligent insights and recommendations from your financial data</p>
+                      <h1 className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">AI-Powered Financial Reports</h1>
+                      <p className="text-secondary-600 dark:text-secondary-400">Generate intelligent insights and recommendations from your financial data</p>
                     </div>
                   </div>
                 </div>
@@ -119,17 +121,17 @@ export default function ReportsPage() {
                 {/* Report Types */}
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
                   {reportTypes.map((report) => (
-                    <div key={report.type} className="bg-white rounded-2xl border border-white/20 shadow-soft p-6 hover:shadow-medium transition-all duration-300">
+                    <div key={report.type} className="bg-white dark:bg-secondary-800 rounded-2xl border border-white/20 dark:border-secondary-700/50 shadow-soft p-6 hover:shadow-medium transition-all duration-300">
                       <div className="flex items-center space-x-3 mb-4">
                         {report.icon}
-                        <h3 className="text-lg font-bold text-secondary-900">{report.title}</h3>
+                        <h3 className="text-lg font-bold text-secondary-900 dark:text-secondary-100">{report.title}</h3>
                       </div>
                       
-                      <p className="text-secondary-600 mb-4 text-sm leading-relaxed">{report.description}</p>
+                      <p className="text-secondary-600 dark:text-secondary-400 mb-4 text-sm leading-relaxed">{report.description}</p>
                       
                       <div className="mb-6">
-                        <h4 className="text-sm font-semibold text-secondary-800 mb-2">What's Included:</h4>
-                        <ul className="text-xs text-secondary-600 space-y-1">
+                        <h4 className="text-sm font-semibold text-secondary-800 dark:text-secondary-100 mb-2">What's Included:</h4>
+                        <ul className="text-xs text-secondary-600 dark:text-secondary-400 space-y-1">
                           {report.features.map((feature, index) => (
                             <li key={index} className="flex items-center space-x-2">
                               <div className="w-1.5 h-1.5 bg-primary-500 rounded-full"></div>
@@ -166,16 +168,16 @@ export default function ReportsPage() {
                 </div>
 
                 {/* Stats */}
-                <div className="bg-white rounded-2xl border border-white/20 shadow-soft p-6">
-                  <h2 className="text-lg font-bold text-secondary-900 mb-4">Your Data Overview</h2>
+                <div className="bg-white dark:bg-secondary-800 rounded-2xl border border-white/20 dark:border-secondary-700/50 shadow-soft p-6">
+                  <h2 className="text-lg font-bold text-secondary-900 dark:text-secondary-100 mb-4">Your Data Overview</h2>
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                     <div className="text-center">
                       <div className="text-2xl font-bold text-primary-600">{transactions.length}</div>
-                      <div className="text-sm text-secondary-600">Transactions Available</div>
+                      <div className="text-sm text-secondary-600 dark:text-secondary-400">Transactions Available</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-success-600">{budgets.length}</div>
-                      <div className="text-sm text-secondary-600">Active Budgets</div>
+                      <div className="text-sm text-secondary-600 dark:text-secondary-400">Active Budgets</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-blue-600">
@@ -184,25 +186,25 @@ export default function ReportsPage() {
                           : 0
                         }
                       </div>
-                      <div className="text-sm text-secondary-600">Days of Data</div>
+                      <div className="text-sm text-secondary-600 dark:text-secondary-400">Days of Data</div>
                     </div>
                   </div>
                 </div>
               </>
             ) : (
               /* Report Display */
-              <div className="bg-white rounded-2xl border border-white/20 shadow-soft overflow-hidden">
+              <div className="bg-white dark:bg-secondary-800 rounded-2xl border border-white/20 dark:border-secondary-700/50 shadow-soft overflow-hidden">
                 {/* Report Header */}
-                <div className="p-6 border-b border-secondary-100 bg-gradient-to-r from-blue-50 to-purple-50">
+                <div className="p-6 border-b border-secondary-100 dark:border-secondary-700 bg-gradient-to-r from-blue-50 dark:from-blue-900/20 to-purple-50 dark:to-purple-900/20">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-3">
                       <Sparkles className="w-6 h-6 text-primary-600" />
                       <div>
-                        <h2 className="text-xl font-bold text-secondary-900">{currentReport.title}</h2>
-                        <div className="flex items-center space-x-4 text-sm text-secondary-600 mt-1">
+                        <h2 className="text-xl font-bold text-secondary-900 dark:text-secondary-100">{currentReport.title}</h2>
+                        <div className="flex items-center space-x-4 text-sm text-secondary-600 dark:text-secondary-400 mt-1">
                           <div className="flex items-center space-x-1">
                             <Clock className="w-4 h-4" />
-                            <span>Generated {currentReport.generatedAt.toLocaleDateString()}</span>
+                            <span>Generated {formatDateTime(currentReport.generatedAt)}</span>
                           </div>
                           <div className="flex items-center space-x-1">
                             <FileText className="w-4 h-4" />
@@ -233,21 +235,21 @@ export default function ReportsPage() {
                 {/* Report Content */}
                 <div className="p-6">
                   {/* Summary */}
-                  <div className="mb-8 p-4 bg-blue-50 rounded-lg border-l-4 border-blue-500">
-                    <h3 className="text-lg font-semibold text-blue-900 mb-2">Executive Summary</h3>
-                    <p className="text-blue-800">{currentReport.summary}</p>
+                  <div className="mb-8 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border-l-4 border-blue-500">
+                    <h3 className="text-lg font-semibold text-blue-900 dark:text-blue-300 mb-2">Executive Summary</h3>
+                    <p className="text-blue-800 dark:text-blue-300">{currentReport.summary}</p>
                   </div>
 
                   {/* Key Insights */}
                   {currentReport.insights.length > 0 && (
                     <div className="mb-8">
-                      <h3 className="text-lg font-semibold text-secondary-900 mb-4">Key Insights</h3>
+                      <h3 className="text-lg font-semibold text-secondary-900 dark:text-secondary-100 mb-4">Key Insights</h3>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {currentReport.insights.map((insight, index) => (
-                          <div key={index} className="p-4 bg-green-50 rounded-lg border border-green-200">
+                          <div key={index} className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
                             <div className="flex items-start space-x-2">
                               <div className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0"></div>
-                              <p className="text-green-800 text-sm">{insight}</p>
+                              <p className="text-green-800 dark:text-green-300 text-sm">{insight}</p>
                             </div>
                           </div>
                         ))}
@@ -257,9 +259,9 @@ export default function ReportsPage() {
 
                   {/* Main Content */}
                   <div className="mb-8">
-                    <h3 className="text-lg font-semibold text-secondary-900 mb-4">Detailed Analysis</h3>
+                    <h3 className="text-lg font-semibold text-secondary-900 dark:text-secondary-100 mb-4">Detailed Analysis</h3>
                     <div 
-                      className="prose prose-sm max-w-none text-secondary-700"
+                      className="prose prose-sm max-w-none text-secondary-700 dark:text-secondary-300"
                       dangerouslySetInnerHTML={{ __html: `<p>${formatReportContent(currentReport.content)}</p>` }}
                     />
                   </div>
@@ -267,15 +269,15 @@ export default function ReportsPage() {
                   {/* Recommendations */}
                   {currentReport.recommendations.length > 0 && (
                     <div>
-                      <h3 className="text-lg font-semibold text-secondary-900 mb-4">AI Recommendations</h3>
+                      <h3 className="text-lg font-semibold text-secondary-900 dark:text-secondary-100 mb-4">AI Recommendations</h3>
                       <div className="space-y-3">
                         {currentReport.recommendations.map((recommendation, index) => (
-                          <div key={index} className="p-4 bg-purple-50 rounded-lg border border-purple-200">
+                          <div key={index} className="p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg border border-purple-200 dark:border-purple-800">
                             <div className="flex items-start space-x-3">
                               <div className="w-6 h-6 bg-purple-500 text-white rounded-full flex items-center justify-center text-xs font-bold flex-shrink-0">
                                 {index + 1}
                               </div>
-                              <p className="text-purple-800 text-sm">{recommendation}</p>
+                              <p className="text-purple-800 dark:text-purple-300 text-sm">{recommendation}</p>
                             </div>
                           </div>
                         ))}
@@ -5,21 +5,28 @@ import { TrendingUp, DollarSign, Target, Zap, Calendar, PiggyBank, ArrowRight, C
 import Header from '@/components/layout/Header'
 import Sidebar from '@/components/layout/Sidebar'
 import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
 import { savingsOptimizationService } from '@/services/savingsOptimizationService'
 import { SavingsOptimization, SavingsChallenge } from '@/types'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from 'recharts'
 
 export default function SavingsOptimizationPage() {
-  const { transactions, getTotalIncome, getTotalExpenses } = useApp()
+  const { transactions, accounts, categories, getTotalIncome, getTotalExpenses, getTotalBalance } = useApp()
+  const { formatCurrency, formatCompactCurrency } = usePreferences()
   const [optimization, setOptimization] = useState<SavingsOptimization | null>(null)
   const [challenges, setChallenges] = useState<SavingsChallenge[]>([])
   const [loading, setLoading] = useState(true)
-  const [currentSavings, setCurrentSavings] = useState(5000) // Default savings amount
+  const [manualSavings, setManualSavings] = useState(0) // Only used until a savings account is set up
   const [selectedTab, setSelectedTab] = useState<'overview' | 'opportunities' | 'automation' | 'challenges'>('overview')
 
+  const savingsAccounts = accounts.filter(a => a.type === 'savings')
+  const currentSavings = savingsAccounts.length > 0
+    ? getTotalBalance(['savings'])
+    : manualSavings
+
   useEffect(() => {
     generateOptimization()
-  }, [transactions, currentSavings])
+  }, [transactions, currentSavings, categories])
 
   const generateOptimization = () => {
     setLoading(true)
@@ -27,7 +34,9 @@ export default function SavingsOptimizationPage() {
       // Generate optimization analysis
       const optimizationData = savingsOptimizationService.optimizeSavings(
         transactions,
-        currentSavings
+        currentSavings,
+        undefined,
+        categories
       )
       setOptimization(optimizationData)
       
@@ -46,13 +55,6 @@ export default function SavingsOptimizationPage() {
     }
   }
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount)
-  }
-
   const formatPercentage = (value: number) => {
     return `${(value * 100).toFixed(1)}%`
   }
@@ -70,7 +72,7 @@ export default function SavingsOptimizationPage() {
 
   if (loading) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-blue-50">
+      <div className="min-h-screen bg-gradient-to-br from-green-50 dark:from-green-900/20 via-white dark:via-secondary-900 to-blue-50 dark:to-blue-900/20">
         <Header title="Savings Optimization" />
         <div className="flex">
           <Sidebar currentPage="savings" />
@@ -79,7 +81,7 @@ export default function SavingsOptimizationPage() {
               <div className="flex items-center justify-center h-64">
                 <div className="text-center">
                   <PiggyBank className="w-12 h-12 text-green-600 animate-pulse mx-auto mb-4" />
-                  <p className="text-gray-600">Analyzing your savings potential...</p>
+                  <p className="text-gray-600 dark:text-secondary-400">Analyzing your savings potential...</p>
                 </div>
               </div>
             </div>
@@ -90,7 +92,7 @@ export default function SavingsOptimizationPage() {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-blue-50">
+    <div className="min-h-screen bg-gradient-to-br from-green-50 dark:from-green-900/20 via-white dark:via-secondary-900 to-blue-50 dark:to-blue-900/20">
       <Header title="Savings Optimization" />
       
       <div className="flex">
@@ -106,8 +108,8 @@ export default function SavingsOptimizationPage() {
                   <PiggyBank className="w-6 h-6 text-white" />
                 </div>
                 <div>
-                  <h1 className="text-3xl font-bold text-gray-900">Savings Optimization</h1>
-                  <p className="text-gray-600">Maximize your savings potential with AI-powered strategies</p>
+                  <h1 className="text-3xl font-bold text-gray-900 dark:text-secondary-100">Savings Optimization</h1>
+                  <p className="text-gray-600 dark:text-secondary-400">Maximize your savings potential with AI-powered strategies</p>
                 </div>
               </div>
             </div>
@@ -115,16 +117,30 @@ export default function SavingsOptimizationPage() {
             {/* Controls */}
             <div className="flex justify-between items-center mb-6">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
                   Current Savings Amount
                 </label>
-                <input
-                  type="number"
-                  value={currentSavings}
-                  onChange={(e) => setCurrentSavings(Number(e.target.value))}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
-                  placeholder="Enter current savings"
-                />
+                {savingsAccounts.length > 0 ? (
+                  <>
+                    <div className="px-3 py-2 border border-gray-200 dark:border-secondary-700 bg-gray-50 dark:bg-secondary-900/50 rounded-lg text-gray-900 dark:text-secondary-100 font-medium">
+                      {formatCurrency(currentSavings)}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-secondary-400 mt-1">
+                      From {savingsAccounts.length} savings {savingsAccounts.length === 1 ? 'account' : 'accounts'}
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <input
+                      type="number"
+                      value={manualSavings}
+                      onChange={(e) => setManualSavings(Number(e.target.value))}
+                      className="px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      placeholder="Enter current savings"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-secondary-400 mt-1">Add a savings account to track this automatically</p>
+                  </>
+                )}
               </div>
               
               <button
@@ -139,62 +155,62 @@ export default function SavingsOptimizationPage() {
               <>
                 {/* Key Metrics Cards */}
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center">
                         <TrendingUp className="w-5 h-5 text-green-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">CURRENT</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">CURRENT</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {formatPercentage(optimization.currentSavingsRate)}
                     </div>
-                    <div className="text-sm text-gray-600">Savings Rate</div>
+                    <div className="text-sm text-gray-600 dark:text-secondary-400">Savings Rate</div>
                   </div>
 
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900/30 rounded-lg flex items-center justify-center">
                         <Target className="w-5 h-5 text-blue-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">TARGET</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">TARGET</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {formatPercentage(optimization.recommendedSavingsRate)}
                     </div>
-                    <div className="text-sm text-gray-600">Recommended Rate</div>
+                    <div className="text-sm text-gray-600 dark:text-secondary-400">Recommended Rate</div>
                   </div>
 
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-yellow-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-yellow-100 dark:bg-yellow-900/30 rounded-lg flex items-center justify-center">
                         <DollarSign className="w-5 h-5 text-yellow-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">POTENTIAL</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">POTENTIAL</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {formatCurrency(optimization.optimizationOpportunities.reduce((sum, opp) => sum + opp.potentialSavings, 0))}
                     </div>
-                    <div className="text-sm text-gray-600">Monthly Savings</div>
+                    <div className="text-sm text-gray-600 dark:text-secondary-400">Monthly Savings</div>
                   </div>
 
-                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                  <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 shadow-sm border border-gray-100 dark:border-secondary-700">
                     <div className="flex items-center justify-between mb-4">
-                      <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
+                      <div className="w-10 h-10 bg-purple-100 dark:bg-purple-900/30 rounded-lg flex items-center justify-center">
                         <Zap className="w-5 h-5 text-purple-600" />
                       </div>
-                      <span className="text-xs font-medium text-gray-500">AUTOMATION</span>
+                      <span className="text-xs font-medium text-gray-500 dark:text-secondary-400">AUTOMATION</span>
                     </div>
-                    <div className="text-2xl font-bold text-gray-900 mb-1">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-1">
                       {optimization.automationStrategies.length}
                     </div>
-                    <div className="text-sm text-gray-600">Strategies Available</div>
+                    <div className="text-sm text-gray-600 dark:text-secondary-400">Strategies Available</div>
                   </div>
                 </div>
 
                 {/* Tab Navigation */}
-                <div className="bg-white rounded-xl shadow-sm border border-gray-100 mb-8">
-                  <div className="border-b border-gray-200">
+                <div className="bg-white dark:bg-secondary-800 rounded-xl shadow-sm border border-gray-100 dark:border-secondary-700 mb-8">
+                  <div className="border-b border-gray-200 dark:border-secondary-700">
                     <nav className="-mb-px flex">
                       {[
                         { id: 'overview', label: 'Overview', icon: TrendingUp },
@@ -208,7 +224,7 @@ export default function SavingsOptimizationPage() {
                           className={`flex items-center space-x-2 px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
                             selectedTab === tab.id
                               ? 'border-green-500 text-green-600'
-                              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                              : 'border-transparent text-gray-500 dark:text-secondary-400 hover:text-gray-700 dark:hover:text-secondary-100 hover:border-gray-300 dark:hover:border-secondary-600'
                           }`}
                         >
                           <tab.icon className="w-4 h-4" />
@@ -223,7 +239,7 @@ export default function SavingsOptimizationPage() {
                       <div className="space-y-6">
                         {/* Compound Interest Projection Chart */}
                         <div className="mb-8">
-                          <h3 className="text-lg font-bold text-gray-900 mb-4">Compound Interest Projection</h3>
+                          <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100 mb-4">Compound Interest Projection</h3>
                           <div className="h-80">
                             <ResponsiveContainer width="100%" height="100%">
                               <LineChart data={chartData.slice(0, 20)}>
@@ -238,7 +254,7 @@ export default function SavingsOptimizationPage() {
                                   fontSize={12}
                                   axisLine={false}
                                   tickLine={false}
-                                  tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                                  tickFormatter={(value) => formatCompactCurrency(value)}
                                 />
                                 <Tooltip 
                                   formatter={(value, name) => [
@@ -276,21 +292,21 @@ export default function SavingsOptimizationPage() {
 
                         {/* Monthly Recommendations */}
                         <div>
-                          <h3 className="text-lg font-bold text-gray-900 mb-4">Monthly Action Plan</h3>
+                          <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100 mb-4">Monthly Action Plan</h3>
                           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                             {optimization.monthlyRecommendations.slice(0, 6).map((rec, index) => (
-                              <div key={index} className="bg-gray-50 rounded-lg p-4">
+                              <div key={index} className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-4">
                                 <div className="flex items-center justify-between mb-3">
-                                  <h4 className="font-medium text-gray-900">{rec.month}</h4>
+                                  <h4 className="font-medium text-gray-900 dark:text-secondary-100">{rec.month}</h4>
                                   <span className={`px-2 py-1 text-xs rounded-full ${
-                                    rec.difficulty === 'easy' ? 'bg-green-100 text-green-700' :
-                                    rec.difficulty === 'moderate' ? 'bg-yellow-100 text-yellow-700' :
-                                    'bg-red-100 text-red-700'
+                                    rec.difficulty === 'easy' ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' :
+                                    rec.difficulty === 'moderate' ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300' :
+                                    'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
                                   }`}>
                                     {rec.difficulty}
                                   </span>
                                 </div>
-                                <p className="text-sm text-gray-600 mb-2">{rec.focusArea}</p>
+                                <p className="text-sm text-gray-600 dark:text-secondary-400 mb-2">{rec.focusArea}</p>
                                 <div className="text-sm font-medium text-green-600">
                                   Save {formatCurrency(rec.expectedSavings)}
                                 </div>
@@ -303,60 +319,60 @@ export default function SavingsOptimizationPage() {
 
                     {selectedTab === 'opportunities' && (
                       <div className="space-y-6">
-                        <h3 className="text-lg font-bold text-gray-900">Optimization Opportunities</h3>
+                        <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100">Optimization Opportunities</h3>
                         
                         {optimization.optimizationOpportunities.map((opportunity, index) => (
-                          <div key={index} className="bg-gray-50 rounded-lg p-6">
+                          <div key={index} className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-6">
                             <div className="flex items-center justify-between mb-4">
-                              <h4 className="text-lg font-medium text-gray-900">{opportunity.category}</h4>
+                              <h4 className="text-lg font-medium text-gray-900 dark:text-secondary-100">{opportunity.category}</h4>
                               <div className="flex items-center space-x-2">
                                 <span className={`px-2 py-1 text-xs rounded-full ${
-                                  opportunity.impact === 'high' ? 'bg-red-100 text-red-700' :
-                                  opportunity.impact === 'medium' ? 'bg-yellow-100 text-yellow-700' :
-                                  'bg-green-100 text-green-700'
+                                  opportunity.impact === 'high' ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300' :
+                                  opportunity.impact === 'medium' ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300' :
+                                  'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
                                 }`}>
                                   {opportunity.impact} impact
                                 </span>
                                 <span className={`px-2 py-1 text-xs rounded-full ${
-                                  opportunity.effort === 'low' ? 'bg-green-100 text-green-700' :
-                                  opportunity.effort === 'medium' ? 'bg-yellow-100 text-yellow-700' :
-                                  'bg-red-100 text-red-700'
+                                  opportunity.effort === 'low' ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' :
+                                  opportunity.effort === 'medium' ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300' :
+                                  'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
                                 }`}>
                                   {opportunity.effort} effort
                                 </span>
                               </div>
                             </div>
                             
-                            <p className="text-gray-600 mb-4">{opportunity.description}</p>
+                            <p className="text-gray-600 dark:text-secondary-400 mb-4">{opportunity.description}</p>
                             
                             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
                               <div className="text-center">
-                                <div className="text-2xl font-bold text-gray-900">{formatCurrency(opportunity.currentSpending)}</div>
-                                <div className="text-sm text-gray-500">Current Spending</div>
+                                <div className="text-2xl font-bold text-gray-900 dark:text-secondary-100">{formatCurrency(opportunity.currentSpending)}</div>
+                                <div className="text-sm text-gray-500 dark:text-secondary-400">Current Spending</div>
                               </div>
                               <div className="text-center">
                                 <div className="text-2xl font-bold text-blue-600">{formatCurrency(opportunity.recommendedSpending)}</div>
-                                <div className="text-sm text-gray-500">Recommended</div>
+                                <div className="text-sm text-gray-500 dark:text-secondary-400">Recommended</div>
                               </div>
                               <div className="text-center">
                                 <div className="text-2xl font-bold text-green-600">{formatCurrency(opportunity.potentialSavings)}</div>
-                                <div className="text-sm text-gray-500">Monthly Savings</div>
+                                <div className="text-sm text-gray-500 dark:text-secondary-400">Monthly Savings</div>
                               </div>
                             </div>
 
                             <div className="mb-4">
-                              <h5 className="font-medium text-gray-900 mb-2">Action Steps:</h5>
+                              <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Action Steps:</h5>
                               <ul className="space-y-1">
                                 {opportunity.actionSteps.map((step, stepIndex) => (
-                                  <li key={stepIndex} className="flex items-start space-x-2 text-sm text-gray-600">
-                                    <ArrowRight className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                                  <li key={stepIndex} className="flex items-start space-x-2 text-sm text-gray-600 dark:text-secondary-400">
+                                    <ArrowRight className="w-4 h-4 text-gray-400 dark:text-secondary-500 mt-0.5 flex-shrink-0" />
                                     <span>{step}</span>
                                   </li>
                                 ))}
                               </ul>
                             </div>
 
-                            <div className="text-sm text-gray-500">
+                            <div className="text-sm text-gray-500 dark:text-secondary-400">
                               <strong>Timeline:</strong> {opportunity.timeline}
                             </div>
                           </div>
@@ -366,25 +382,25 @@ export default function SavingsOptimizationPage() {
 
                     {selectedTab === 'automation' && (
                       <div className="space-y-6">
-                        <h3 className="text-lg font-bold text-gray-900">Automation Strategies</h3>
+                        <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100">Automation Strategies</h3>
                         
                         {optimization.automationStrategies.map((strategy, index) => (
-                          <div key={index} className="bg-gray-50 rounded-lg p-6">
+                          <div key={index} className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-6">
                             <div className="flex items-center justify-between mb-4">
-                              <h4 className="text-lg font-medium text-gray-900">{strategy.strategy}</h4>
+                              <h4 className="text-lg font-medium text-gray-900 dark:text-secondary-100">{strategy.strategy}</h4>
                               <div className="text-lg font-bold text-green-600">
                                 {formatCurrency(strategy.potentialSavings)}/month
                               </div>
                             </div>
                             
-                            <p className="text-gray-600 mb-4">{strategy.description}</p>
+                            <p className="text-gray-600 dark:text-secondary-400 mb-4">{strategy.description}</p>
                             
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
                               <div>
-                                <h5 className="font-medium text-gray-900 mb-2">Implementation Steps:</h5>
+                                <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Implementation Steps:</h5>
                                 <ul className="space-y-1">
                                   {strategy.implementation.map((step, stepIndex) => (
-                                    <li key={stepIndex} className="flex items-start space-x-2 text-sm text-gray-600">
+                                    <li key={stepIndex} className="flex items-start space-x-2 text-sm text-gray-600 dark:text-secondary-400">
                                       <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
                                       <span>{step}</span>
                                     </li>
@@ -394,7 +410,7 @@ export default function SavingsOptimizationPage() {
                               
                               <div>
                                 <div className="mb-4">
-                                  <h5 className="font-medium text-gray-900 mb-2">Pros:</h5>
+                                  <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Pros:</h5>
                                   <ul className="space-y-1">
                                     {strategy.pros.map((pro, proIndex) => (
                                       <li key={proIndex} className="flex items-start space-x-2 text-sm text-green-600">
@@ -406,7 +422,7 @@ export default function SavingsOptimizationPage() {
                                 </div>
                                 
                                 <div>
-                                  <h5 className="font-medium text-gray-900 mb-2">Cons:</h5>
+                                  <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Cons:</h5>
                                   <ul className="space-y-1">
                                     {strategy.cons.map((con, conIndex) => (
                                       <li key={conIndex} className="flex items-start space-x-2 text-sm text-red-600">
@@ -419,7 +435,7 @@ export default function SavingsOptimizationPage() {
                               </div>
                             </div>
 
-                            <div className="flex justify-between text-sm text-gray-500">
+                            <div className="flex justify-between text-sm text-gray-500 dark:text-secondary-400">
                               <span><strong>Setup Effort:</strong> {strategy.setupEffort}</span>
                               <span><strong>Maintenance:</strong> {strategy.ongoingMaintenance}</span>
                             </div>
@@ -430,17 +446,17 @@ export default function SavingsOptimizationPage() {
 
                     {selectedTab === 'challenges' && (
                       <div className="space-y-6">
-                        <h3 className="text-lg font-bold text-gray-900">Savings Challenges</h3>
+                        <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100">Savings Challenges</h3>
                         
                         {challenges.map((challenge, index) => (
-                          <div key={index} className="bg-gray-50 rounded-lg p-6">
+                          <div key={index} className="bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-6">
                             <div className="flex items-center justify-between mb-4">
-                              <h4 className="text-lg font-medium text-gray-900">{challenge.challengeName}</h4>
+                              <h4 className="text-lg font-medium text-gray-900 dark:text-secondary-100">{challenge.challengeName}</h4>
                               <div className="flex items-center space-x-2">
                                 <span className={`px-2 py-1 text-xs rounded-full ${
-                                  challenge.difficulty === 'beginner' ? 'bg-green-100 text-green-700' :
-                                  challenge.difficulty === 'intermediate' ? 'bg-yellow-100 text-yellow-700' :
-                                  'bg-red-100 text-red-700'
+                                  challenge.difficulty === 'beginner' ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' :
+                                  challenge.difficulty === 'intermediate' ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300' :
+                                  'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
                                 }`}>
                                   {challenge.difficulty}
                                 </span>
@@ -452,20 +468,20 @@ export default function SavingsOptimizationPage() {
                             
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                               <div>
-                                <h5 className="font-medium text-gray-900 mb-2">Rules:</h5>
+                                <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Rules:</h5>
                                 <ul className="space-y-1 mb-4">
                                   {challenge.rules.map((rule, ruleIndex) => (
-                                    <li key={ruleIndex} className="flex items-start space-x-2 text-sm text-gray-600">
+                                    <li key={ruleIndex} className="flex items-start space-x-2 text-sm text-gray-600 dark:text-secondary-400">
                                       <span className="text-blue-500">•</span>
                                       <span>{rule}</span>
                                     </li>
                                   ))}
                                 </ul>
 
-                                <h5 className="font-medium text-gray-900 mb-2">Tips:</h5>
+                                <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Tips:</h5>
                                 <ul className="space-y-1">
                                   {challenge.tips.map((tip, tipIndex) => (
-                                    <li key={tipIndex} className="flex items-start space-x-2 text-sm text-gray-600">
+                                    <li key={tipIndex} className="flex items-start space-x-2 text-sm text-gray-600 dark:text-secondary-400">
                                       <span className="text-green-500">💡</span>
                                       <span>{tip}</span>
                                     </li>
@@ -474,13 +490,13 @@ export default function SavingsOptimizationPage() {
                               </div>
                               
                               <div>
-                                <h5 className="font-medium text-gray-900 mb-2">Milestones:</h5>
+                                <h5 className="font-medium text-gray-900 dark:text-secondary-100 mb-2">Milestones:</h5>
                                 <div className="space-y-2">
                                   {challenge.milestones.map((milestone, milestoneIndex) => (
-                                    <div key={milestoneIndex} className="flex items-center justify-between p-3 bg-white rounded-lg">
+                                    <div key={milestoneIndex} className="flex items-center justify-between p-3 bg-white dark:bg-secondary-800 rounded-lg">
                                       <div>
-                                        <div className="font-medium text-gray-900">Week {milestone.week}</div>
-                                        <div className="text-sm text-gray-600">{milestone.reward}</div>
+                                        <div className="font-medium text-gray-900 dark:text-secondary-100">Week {milestone.week}</div>
+                                        <div className="text-sm text-gray-600 dark:text-secondary-400">{milestone.reward}</div>
                                       </div>
                                       <div className="text-green-600 font-medium">
                                         {formatCurrency(milestone.target)}
@@ -491,8 +507,8 @@ export default function SavingsOptimizationPage() {
                               </div>
                             </div>
 
-                            <div className="mt-4 pt-4 border-t border-gray-200">
-                              <div className="text-sm text-gray-500">
+                            <div className="mt-4 pt-4 border-t border-gray-200 dark:border-secondary-700">
+                              <div className="text-sm text-gray-500 dark:text-secondary-400">
                                 <strong>Duration:</strong> {challenge.duration} weeks | 
                                 <strong> Target:</strong> {formatCurrency(challenge.targetSavings)}
                               </div>
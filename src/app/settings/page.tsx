@@ -5,7 +5,10 @@ import Header from '@/components/layout/Header'
 import Sidebar from '@/components/layout/Sidebar'
 import SettingsTabs from '@/components/settings/SettingsTabs'
 import PreferencesTab from '@/components/settings/PreferencesTab'
+import CurrenciesTab from '@/components/settings/CurrenciesTab'
 import AccountTab from '@/components/settings/AccountTab'
+import CategoriesTab from '@/components/settings/CategoriesTab'
+import CategorizationRulesTab from '@/components/settings/CategorizationRulesTab'
 import DataTab from '@/components/settings/DataTab'
 import AppearanceTab from '@/components/settings/AppearanceTab'
 
@@ -16,8 +19,14 @@ export default function SettingsPage() {
     switch (activeTab) {
       case 'preferences':
         return <PreferencesTab />
+      case 'currencies':
+        return <CurrenciesTab />
       case 'account':
         return <AccountTab />
+      case 'categories':
+        return <CategoriesTab />
+      case 'rules':
+        return <CategorizationRulesTab />
       case 'data':
         return <DataTab />
       case 'appearance':
@@ -28,17 +37,17 @@ export default function SettingsPage() {
   }
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 dark:bg-secondary-900/50">
       <Header />
 
       <div className="flex">
         <Sidebar currentPage="settings" />
 
-        <main className="flex-1 p-8 bg-gray-50">
+        <main className="flex-1 p-8 bg-gray-50 dark:bg-secondary-900/50">
           <div className="max-w-4xl mx-auto">
             <div className="mb-8">
-              <h1 className="text-2xl font-bold text-gray-900 mb-2">Settings</h1>
-              <p className="text-gray-600">Manage your account and application preferences</p>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-2">Settings</h1>
+              <p className="text-gray-600 dark:text-secondary-400">Manage your account and application preferences</p>
             </div>
 
             <SettingsTabs activeTab={activeTab} onTabChange={setActiveTab} />
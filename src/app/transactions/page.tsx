@@ -7,36 +7,74 @@ import Sidebar from '@/components/layout/Sidebar'
 import TransactionFilters from '@/components/transactions/TransactionFilters'
 import TransactionList from '@/components/transactions/TransactionList'
 import AddTransactionModal from '@/components/transactions/AddTransactionModal'
+import TransactionAttachments from '@/components/transactions/TransactionAttachments'
+import type { PendingAttachment } from '@/components/transactions/PendingAttachments'
 import { ToastContainer, useToast } from '@/components/ui/Toast'
 import { useApp } from '@/contexts/AppContext'
+import { affectsAccount, calculateRunningBalances } from '@/lib/accounts'
+import { convertTransactions } from '@/lib/currency'
+import { getCategoryAllocations } from '@/lib/splits'
+import { getRootCategoryName } from '@/lib/categories'
 import type { Transaction } from '@/types'
+import type { NewRecurringTransaction } from '@/services/recurringTransactions'
 
 export default function TransactionsPage() {
   const {
     transactions,
     addTransaction,
     updateTransaction,
-    deleteTransaction
+    deleteTransaction,
+    addRecurringTransaction,
+    addTransactionAttachment,
+    deleteTransactionAttachment,
+    attachments,
+    accounts,
+    categories,
+    categorizationRules,
+    categoryCorrections,
+    currencyConverter
   } = useApp()
 
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedCategory, setSelectedCategory] = useState('All Categories')
   const [dateRange, setDateRange] = useState('This Month')
+  const [selectedAccount, setSelectedAccount] = useState('All Accounts')
   const [isAddModalOpen, setIsAddModalOpen] = useState(false)
+  const [attachmentsTransactionId, setAttachmentsTransactionId] = useState<string | null>(null)
   const [testMessage, setTestMessage] = useState<string | null>(null)
-  const { toasts, removeToast, success, error: showError } = useToast()
+  const { toasts, removeToast, success, error: showError, warning } = useToast()
 
-  const handleAddTransaction = async (newTransaction: Omit<Transaction, 'id'>) => {
+  const handleAddTransaction = async (newTransaction: Omit<Transaction, 'id'>, newAttachments: PendingAttachment[] = []) => {
     try {
-      await addTransaction(newTransaction)
+      const added = await addTransaction(newTransaction)
       setIsAddModalOpen(false)
       success('Transaction Added', `${newTransaction.description} has been added successfully.`)
+
+      // The transaction is saved either way; a failed upload only loses that file
+      for (const attachment of newAttachments) {
+        try {
+          await addTransactionAttachment(added.id, attachment.file, attachment.ocrText)
+        } catch (uploadErr) {
+          warning(`${attachment.file.name} Not Attached`, uploadErr instanceof Error ? uploadErr.message : 'The file could not be uploaded.')
+        }
+      }
     } catch (err) {
       showError('Failed to Add Transaction', err instanceof Error ? err.message : 'Unknown error occurred')
       throw err
     }
   }
 
+  const handleAddRecurringTransaction = async (recurring: NewRecurringTransaction) => {
+    try {
+      await addRecurringTransaction(recurring)
+      setIsAddModalOpen(false)
+      success('Recurring Transaction Added', `${recurring.description} will repeat ${recurring.frequency}.`)
+    } catch (err) {
+      showError('Failed to Add Recurring Transaction', err instanceof Error ? err.message : 'Unknown error occurred')
+      throw err
+    }
+  }
+
   const handleEditTransaction = (transaction: Transaction) => {
     // TODO: Implement edit functionality
   }
@@ -68,14 +106,36 @@ export default function TransactionsPage() {
     }
   }
 
+  // Attachment file names and the text read from them, searched along with descriptions
+  const attachmentText = attachments.reduce<Record<string, string>>((texts, a) => {
+    texts[a.transactionId] = `${texts[a.transactionId] || ''} ${a.fileName} ${a.ocrText || ''}`.toLowerCase()
+    return texts
+  }, {})
+
   // Filter transactions based on search and filters
   const filteredTransactions = transactions.filter(transaction => {
-    const matchesSearch = transaction.description.toLowerCase().includes(searchTerm.toLowerCase())
-    const matchesCategory = selectedCategory === 'All Categories' || transaction.category === selectedCategory
+    const search = searchTerm.toLowerCase()
+    const matchesSearch = transaction.description.toLowerCase().includes(search) ||
+      (search !== '' && (attachmentText[transaction.id] || '').includes(search))
+    // A top-level category also matches transactions in its subcategories
+    const matchesCategory = selectedCategory === 'All Categories' ||
+      getCategoryAllocations(transaction).some(allocation =>
+        allocation.category === selectedCategory ||
+        getRootCategoryName(allocation.category, categories) === selectedCategory
+      )
+    const matchesAccount = selectedAccount === 'All Accounts' || affectsAccount(transaction, selectedAccount)
     // TODO: Implement date range filtering
-    return matchesSearch && matchesCategory
+    return matchesSearch && matchesCategory && matchesAccount
   })
 
+  const attachmentsTransaction = transactions.find(t => t.id === attachmentsTransactionId)
+
+  // Running balances are only meaningful within a single account
+  const filteredAccount = accounts.find(a => a.id === selectedAccount)
+  const runningBalances = filteredAccount
+    ? calculateRunningBalances(filteredAccount, convertTransactions(transactions, currencyConverter, filteredAccount.currency))
+    : undefined
+
   return (
     <div className="min-h-screen">
       <Header />
@@ -88,10 +148,10 @@ export default function TransactionsPage() {
             {/* Page Header */}
             <div className="flex items-start justify-between mb-8 animate-in">
               <div>
-                <h1 className="text-2xl font-bold text-secondary-900 mb-2">
+                <h1 className="text-2xl font-bold text-secondary-900 dark:text-secondary-100 mb-2">
                   Transaction Management 💳
                 </h1>
-                <p className="text-secondary-600 font-medium">
+                <p className="text-secondary-600 dark:text-secondary-400 font-medium">
                   Track, organize, and analyze all your financial transactions in one place
                 </p>
               </div>
@@ -118,41 +178,41 @@ export default function TransactionsPage() {
 
             {/* Test Message */}
             {testMessage && (
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
-                <p className="text-sm text-blue-700">{testMessage}</p>
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-3 mb-4">
+                <p className="text-sm text-blue-700 dark:text-blue-300">{testMessage}</p>
               </div>
             )}
 
             {/* Stats Cards */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-              <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 border border-white/20 shadow-soft">
+              <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl p-6 border border-white/20 dark:border-secondary-700/50 shadow-soft">
                 <div className="flex items-center space-x-3 mb-2">
-                  <div className="w-10 h-10 bg-success-100 rounded-xl flex items-center justify-center">
+                  <div className="w-10 h-10 bg-success-100 dark:bg-success-900/30 rounded-xl flex items-center justify-center">
                     <Plus className="w-5 h-5 text-success-600" />
                   </div>
-                  <h3 className="font-bold text-secondary-900">Total Transactions</h3>
+                  <h3 className="font-bold text-secondary-900 dark:text-secondary-100">Total Transactions</h3>
                 </div>
-                <p className="text-2xl font-bold text-secondary-900">{transactions.length}</p>
+                <p className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">{transactions.length}</p>
               </div>
 
-              <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 border border-white/20 shadow-soft">
+              <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl p-6 border border-white/20 dark:border-secondary-700/50 shadow-soft">
                 <div className="flex items-center space-x-3 mb-2">
-                  <div className="w-10 h-10 bg-primary-100 rounded-xl flex items-center justify-center">
+                  <div className="w-10 h-10 bg-primary-100 dark:bg-primary-900/30 rounded-xl flex items-center justify-center">
                     <TrendingUp className="w-5 h-5 text-primary-600" />
                   </div>
-                  <h3 className="font-bold text-secondary-900">This Month</h3>
+                  <h3 className="font-bold text-secondary-900 dark:text-secondary-100">This Month</h3>
                 </div>
-                <p className="text-2xl font-bold text-secondary-900">{filteredTransactions.length}</p>
+                <p className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">{filteredTransactions.length}</p>
               </div>
 
-              <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 border border-white/20 shadow-soft">
+              <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl p-6 border border-white/20 dark:border-secondary-700/50 shadow-soft">
                 <div className="flex items-center space-x-3 mb-2">
-                  <div className="w-10 h-10 bg-warning-100 rounded-xl flex items-center justify-center">
+                  <div className="w-10 h-10 bg-warning-100 dark:bg-warning-900/30 rounded-xl flex items-center justify-center">
                     <DollarSign className="w-5 h-5 text-warning-600" />
                   </div>
-                  <h3 className="font-bold text-secondary-900">Categories</h3>
+                  <h3 className="font-bold text-secondary-900 dark:text-secondary-100">Categories</h3>
                 </div>
-                <p className="text-2xl font-bold text-secondary-900">8</p>
+                <p className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">8</p>
               </div>
             </div>
 
@@ -164,6 +224,10 @@ export default function TransactionsPage() {
               onCategoryChange={setSelectedCategory}
               dateRange={dateRange}
               onDateRangeChange={setDateRange}
+              accounts={accounts}
+              selectedAccount={selectedAccount}
+              onAccountChange={setSelectedAccount}
+              categories={categories}
             />
 
             {/* Transaction List */}
@@ -171,13 +235,36 @@ export default function TransactionsPage() {
               transactions={filteredTransactions}
               onEdit={handleEditTransaction}
               onDelete={handleDeleteTransaction}
+              runningBalances={runningBalances}
+              balanceCurrency={filteredAccount?.currency}
+              accounts={accounts}
+              attachments={attachments}
+              onOpenAttachments={(transaction) => setAttachmentsTransactionId(transaction.id)}
             />
 
+            {/* Attachments of one transaction */}
+            {attachmentsTransaction && (
+              <TransactionAttachments
+                transaction={attachmentsTransaction}
+                attachments={attachments.filter(a => a.transactionId === attachmentsTransaction.id)}
+                onUpload={async (file) => {
+                  await addTransactionAttachment(attachmentsTransaction.id, file)
+                }}
+                onDelete={deleteTransactionAttachment}
+                onClose={() => setAttachmentsTransactionId(null)}
+              />
+            )}
+
             {/* Add Transaction Modal */}
             <AddTransactionModal
               isOpen={isAddModalOpen}
               onClose={() => setIsAddModalOpen(false)}
               onAdd={handleAddTransaction}
+              onAddRecurring={handleAddRecurringTransaction}
+              accounts={accounts}
+              categories={categories}
+              rules={categorizationRules}
+              corrections={categoryCorrections}
             />
           </div>
         </main>
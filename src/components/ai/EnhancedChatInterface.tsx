@@ -184,22 +184,22 @@ export default function EnhancedChatInterface() {
       case 'connected': return 'text-green-500'
       case 'connecting': return 'text-yellow-500'
       case 'error': return 'text-red-500'
-      default: return 'text-gray-500'
+      default: return 'text-gray-500 dark:text-secondary-400'
     }
   }
 
   return (
-    <div className="h-full flex flex-col bg-white rounded-2xl shadow-soft border border-white/20 overflow-hidden">
+    <div className="h-full flex flex-col bg-white dark:bg-secondary-800 rounded-2xl shadow-soft border border-white/20 dark:border-secondary-700/50 overflow-hidden">
       {/* Header */}
-      <div className="p-6 border-b border-secondary-100 bg-gradient-to-r from-blue-50 to-purple-50">
+      <div className="p-6 border-b border-secondary-100 dark:border-secondary-700 bg-gradient-to-r from-blue-50 dark:from-blue-900/20 to-purple-50 dark:to-purple-900/20">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
             <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-xl flex items-center justify-center">
               <Sparkles className="w-5 h-5 text-white" />
             </div>
             <div>
-              <h2 className="text-lg font-bold text-secondary-900">AI Financial Assistant</h2>
-              <div className="flex items-center space-x-2 text-sm text-secondary-600">
+              <h2 className="text-lg font-bold text-secondary-900 dark:text-secondary-100">AI Financial Assistant</h2>
+              <div className="flex items-center space-x-2 text-sm text-secondary-600 dark:text-secondary-400">
                 <div className={`w-2 h-2 rounded-full ${connectionStatus === 'connected' ? 'bg-green-500' : connectionStatus === 'connecting' ? 'bg-yellow-500' : 'bg-red-500'}`}></div>
                 <span className={getConnectionStatusColor()}>
                   {connectionStatus === 'connected' ? 'Connected' : connectionStatus === 'connecting' ? 'Connecting...' : 'Connection Error'}
@@ -207,7 +207,7 @@ export default function EnhancedChatInterface() {
               </div>
             </div>
           </div>
-          <div className="text-sm text-secondary-600">
+          <div className="text-sm text-secondary-600 dark:text-secondary-400">
             {transactions.length} transactions • {budgets.length} budgets
           </div>
         </div>
@@ -220,8 +220,8 @@ export default function EnhancedChatInterface() {
             <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-purple-600 rounded-2xl flex items-center justify-center mx-auto mb-4">
               <Sparkles className="w-8 h-8 text-white" />
             </div>
-            <h3 className="text-xl font-bold text-secondary-900 mb-2">Welcome to your AI Financial Assistant!</h3>
-            <p className="text-secondary-600 mb-6 max-w-md mx-auto">
+            <h3 className="text-xl font-bold text-secondary-900 dark:text-secondary-100 mb-2">Welcome to your AI Financial Assistant!</h3>
+            <p className="text-secondary-600 dark:text-secondary-400 mb-6 max-w-md mx-auto">
               I have access to your financial data and can help you understand your spending, create budgets, and improve your financial health.
             </p>
             
@@ -231,7 +231,7 @@ export default function EnhancedChatInterface() {
                 <button
                   key={index}
                   onClick={() => handleSuggestedQuestion(question)}
-                  className="p-3 text-left bg-white border border-secondary-200 rounded-lg hover:border-primary-300 hover:bg-primary-50 transition-all duration-200 text-sm"
+                  className="p-3 text-left bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg hover:border-primary-300 hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all duration-200 text-sm"
                 >
                   <MessageCircle className="w-4 h-4 text-primary-500 mb-1" />
                   {question}
@@ -261,13 +261,13 @@ export default function EnhancedChatInterface() {
               message.isUser
                 ? "bg-primary-500 text-white"
                 : message.isError
-                ? "bg-red-50 border border-red-200 text-red-800"
-                : "bg-secondary-50 border border-secondary-200 text-secondary-800"
+                ? "bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-300"
+                : "bg-secondary-50 dark:bg-secondary-900/50 border border-secondary-200 dark:border-secondary-700 text-secondary-800 dark:text-secondary-100"
             )}>
               <div className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</div>
               <div className={cn(
                 "text-xs mt-2 flex items-center space-x-2",
-                message.isUser ? "text-primary-100" : "text-secondary-500"
+                message.isUser ? "text-primary-100" : "text-secondary-500 dark:text-secondary-400"
               )}>
                 <Clock className="w-3 h-3" />
                 <span>{formatTimestamp(message.timestamp)}</span>
@@ -291,10 +291,10 @@ export default function EnhancedChatInterface() {
             <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
               <Bot className="w-4 h-4 text-white" />
             </div>
-            <div className="bg-secondary-50 border border-secondary-200 rounded-2xl px-4 py-3">
+            <div className="bg-secondary-50 dark:bg-secondary-900/50 border border-secondary-200 dark:border-secondary-700 rounded-2xl px-4 py-3">
               <div className="flex items-center space-x-2">
-                <Loader2 className="w-4 h-4 animate-spin text-secondary-600" />
-                <span className="text-sm text-secondary-600">AI is thinking...</span>
+                <Loader2 className="w-4 h-4 animate-spin text-secondary-600 dark:text-secondary-400" />
+                <span className="text-sm text-secondary-600 dark:text-secondary-400">AI is thinking...</span>
               </div>
             </div>
           </div>
@@ -304,7 +304,7 @@ export default function EnhancedChatInterface() {
       </div>
 
       {/* Input Area */}
-      <div className="border-t border-secondary-100 bg-white p-6">
+      <div className="border-t border-secondary-100 dark:border-secondary-700 bg-white dark:bg-secondary-800 p-6">
         {/* Suggested Questions (when not welcome screen) */}
         {!showWelcome && suggestedQuestions.length > 0 && (
           <div className="mb-4">
@@ -314,7 +314,7 @@ export default function EnhancedChatInterface() {
                   key={index}
                   onClick={() => handleSuggestedQuestion(question)}
                   disabled={isLoading}
-                  className="px-3 py-1.5 text-xs bg-secondary-100 text-secondary-700 rounded-full hover:bg-secondary-200 transition-colors disabled:opacity-50"
+                  className="px-3 py-1.5 text-xs bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-full hover:bg-secondary-200 transition-colors disabled:opacity-50"
                 >
                   {question}
                 </button>
@@ -335,7 +335,7 @@ export default function EnhancedChatInterface() {
               }}
               onKeyPress={handleKeyPress}
               placeholder="Ask me anything about your finances..."
-              className="w-full px-4 py-3 bg-white border border-secondary-200 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none text-sm placeholder-secondary-400 shadow-sm"
+              className="w-full px-4 py-3 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none text-sm placeholder-secondary-400 shadow-sm"
               rows={1}
               style={{
                 minHeight: '48px',
@@ -350,7 +350,7 @@ export default function EnhancedChatInterface() {
             className={cn(
               "px-4 py-3 rounded-xl font-semibold transition-all duration-200 flex items-center justify-center min-w-[48px]",
               !inputMessage.trim() || isLoading
-                ? "bg-secondary-200 text-secondary-400 cursor-not-allowed"
+                ? "bg-secondary-200 dark:bg-secondary-700 text-secondary-400 dark:text-secondary-500 cursor-not-allowed"
                 : "bg-primary-500 text-white hover:bg-primary-600 hover:scale-105 shadow-sm"
             )}
           >
@@ -363,7 +363,7 @@ export default function EnhancedChatInterface() {
         </form>
 
         {/* Status Bar */}
-        <div className="mt-3 flex items-center justify-between text-xs text-secondary-500">
+        <div className="mt-3 flex items-center justify-between text-xs text-secondary-500 dark:text-secondary-400">
           <div className="flex items-center space-x-4">
             <span>Powered by Google Gemini AI</span>
             <span>•</span>
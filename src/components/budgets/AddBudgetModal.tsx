@@ -2,6 +2,9 @@
 
 import { useState } from 'react'
 import { X, Plus } from 'lucide-react'
+import { BUDGET_PERIODS, ROLLOVER_POLICIES, WEEKDAY_NAMES } from '@/lib/budgetPeriods'
+import CategoryOptions from '@/components/ui/CategoryOptions'
+import type { BudgetRolloverPolicy, Category } from '@/types'
 
 interface AddBudgetModalProps {
   isOpen: boolean
@@ -10,34 +13,30 @@ interface AddBudgetModalProps {
     category: string
     budgetAmount: number
     period: string
+    periodStartDay: number
+    rolloverPolicy: BudgetRolloverPolicy
+    rolloverCap?: number
   }) => Promise<void>
+  categories?: Category[]
 }
 
-export default function AddBudgetModal({ isOpen, onClose, onAdd }: AddBudgetModalProps) {
+export default function AddBudgetModal({ isOpen, onClose, onAdd, categories = [] }: AddBudgetModalProps) {
   const [formData, setFormData] = useState({
     category: 'Food & Dining',
     amount: '',
-    period: 'Monthly'
+    period: 'Monthly',
+    periodStartDay: 1,
+    rolloverPolicy: 'none' as BudgetRolloverPolicy,
+    rolloverCap: ''
   })
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const categories = [
-    'Food & Dining',
-    'Transportation',
-    'Shopping',
-    'Entertainment',
-    'Bills & Utilities',
-    'Healthcare',
-    'Other'
-  ]
-
-  const periods = [
-    'Weekly',
-    'Monthly',
-    'Quarterly',
-    'Yearly'
-  ]
+  const periods = BUDGET_PERIODS
+
+  const startDayOptions = formData.period === 'Weekly'
+    ? WEEKDAY_NAMES.map((name, index) => ({ value: index + 1, label: name }))
+    : Array.from({ length: 28 }, (_, index) => ({ value: index + 1, label: `Day ${index + 1}` }))
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -47,6 +46,11 @@ export default function AddBudgetModal({ isOpen, onClose, onAdd }: AddBudgetModa
       return
     }
 
+    if (formData.rolloverPolicy === 'cap' && !formData.rolloverCap) {
+      setError('Please enter a rollover cap')
+      return
+    }
+
     setIsSubmitting(true)
     setError(null)
 
@@ -54,14 +58,20 @@ export default function AddBudgetModal({ isOpen, onClose, onAdd }: AddBudgetModa
       await onAdd({
         category: formData.category,
         budgetAmount: parseFloat(formData.amount),
-        period: formData.period
+        period: formData.period,
+        periodStartDay: formData.periodStartDay,
+        rolloverPolicy: formData.rolloverPolicy,
+        rolloverCap: formData.rolloverPolicy === 'cap' ? parseFloat(formData.rolloverCap) : undefined
       })
 
       // Reset form
       setFormData({
         category: 'Food & Dining',
         amount: '',
-        period: 'Monthly'
+        period: 'Monthly',
+        periodStartDay: 1,
+        rolloverPolicy: 'none',
+        rolloverCap: ''
       })
 
       onClose()
@@ -76,13 +86,13 @@ export default function AddBudgetModal({ isOpen, onClose, onAdd }: AddBudgetModa
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
-        <div className="flex items-center justify-between p-6 border-b border-gray-100">
-          <h2 className="text-xl font-semibold text-gray-900">Add Budget</h2>
+      <div className="bg-white dark:bg-secondary-800 rounded-xl shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100 dark:border-secondary-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-secondary-100">Add Budget</h2>
           <button
             type="button"
             onClick={onClose}
-            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            className="p-2 text-gray-400 dark:text-secondary-500 hover:text-gray-600 transition-colors"
           >
             <X className="w-5 h-5" />
           </button>
@@ -91,30 +101,26 @@ export default function AddBudgetModal({ isOpen, onClose, onAdd }: AddBudgetModa
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
           {/* Error Message */}
           {error && (
-            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
               <p className="text-sm text-red-600">{error}</p>
             </div>
           )}
 
           {/* Category */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Category</label>
             <select
               value={formData.category}
               onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
             >
-              {categories.map((category) => (
-                <option key={category} value={category}>
-                  {category}
-                </option>
-              ))}
+              <CategoryOptions categories={categories} />
             </select>
           </div>
 
           {/* Amount */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Budget Amount</label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Budget Amount</label>
             <input
               type="number"
               step="0.01"
@@ -122,18 +128,18 @@ export default function AddBudgetModal({ isOpen, onClose, onAdd }: AddBudgetModa
               required
               value={formData.amount}
               onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               placeholder="0.00"
             />
           </div>
 
           {/* Period */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Period</label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Period</label>
             <select
               value={formData.period}
-              onChange={(e) => setFormData({ ...formData, period: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              onChange={(e) => setFormData({ ...formData, period: e.target.value, periodStartDay: 1 })}
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
             >
               {periods.map((period) => (
                 <option key={period} value={period}>
@@ -143,12 +149,64 @@ export default function AddBudgetModal({ isOpen, onClose, onAdd }: AddBudgetModa
             </select>
           </div>
 
+          {/* Period Start Day */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
+              {formData.period === 'Weekly' ? 'Week Starts On' : 'Period Starts On'}
+            </label>
+            <select
+              value={formData.periodStartDay}
+              onChange={(e) => setFormData({ ...formData, periodStartDay: parseInt(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              {startDayOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Rollover */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Rollover</label>
+            <select
+              value={formData.rolloverPolicy}
+              onChange={(e) => setFormData({ ...formData, rolloverPolicy: e.target.value as BudgetRolloverPolicy })}
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              {ROLLOVER_POLICIES.map((policy) => (
+                <option key={policy.value} value={policy.value}>
+                  {policy.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-secondary-400">
+              {ROLLOVER_POLICIES.find(policy => policy.value === formData.rolloverPolicy)?.description}
+            </p>
+          </div>
+
+          {formData.rolloverPolicy === 'cap' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Rollover Cap</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.rolloverCap}
+                onChange={(e) => setFormData({ ...formData, rolloverCap: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                placeholder="0.00"
+              />
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex space-x-3 pt-4">
             <button
               type="button"
               onClick={onClose}
-              className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              className="flex-1 px-4 py-2 text-gray-700 dark:text-secondary-300 bg-gray-100 dark:bg-secondary-700 rounded-lg hover:bg-gray-200 transition-colors"
             >
               Cancel
             </button>
@@ -159,7 +217,7 @@ export default function AddBudgetModal({ isOpen, onClose, onAdd }: AddBudgetModa
             >
               {isSubmitting ? (
                 <>
-                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  <div className="w-4 h-4 border-2 border-white/30 dark:border-secondary-700/50 border-t-white rounded-full animate-spin" />
                   <span>Adding...</span>
                 </>
               ) : (
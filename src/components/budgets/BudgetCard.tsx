@@ -2,6 +2,9 @@
 
 import { AlertTriangle, TrendingUp, Edit } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { calculateRollover } from '@/lib/budgetPeriods'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import type { BudgetRolloverPolicy } from '@/types'
 
 interface BudgetCardProps {
   id: string
@@ -9,6 +12,12 @@ interface BudgetCardProps {
   budgetAmount: number
   spentAmount: number
   period: string
+  rolloverAmount?: number
+  rolloverPolicy?: BudgetRolloverPolicy
+  rolloverCap?: number
+  periodLabel?: string
+  previousSpentAmount?: number
+  previousPeriodLabel?: string
   onEdit: (id: string) => void
 }
 
@@ -18,11 +27,23 @@ export default function BudgetCard({
   budgetAmount, 
   spentAmount, 
   period, 
+  rolloverAmount = 0,
+  rolloverPolicy = 'none',
+  rolloverCap,
+  periodLabel,
+  previousSpentAmount,
+  previousPeriodLabel,
   onEdit 
 }: BudgetCardProps) {
-  const percentage = (spentAmount / budgetAmount) * 100
-  const remaining = budgetAmount - spentAmount
-  const isOverBudget = spentAmount > budgetAmount
+  const { formatCurrency } = usePreferences()
+  // Envelope-style: what is available this period includes what carried in
+  const availableAmount = budgetAmount + rolloverAmount
+  const percentage = availableAmount > 0 ? (spentAmount / availableAmount) * 100 : 100
+  const remaining = availableAmount - spentAmount
+  const isOverBudget = spentAmount > availableAmount
+  const carriesForward = calculateRollover(rolloverPolicy, rolloverCap, remaining)
+  const hasPrevious = previousSpentAmount !== undefined
+  const changeFromPrevious = hasPrevious ? spentAmount - previousSpentAmount : 0
 
   const getProgressColor = () => {
     if (isOverBudget) return 'bg-red-500'
@@ -39,7 +60,7 @@ export default function BudgetCard({
   }
 
   return (
-    <div className="group bg-white/80 backdrop-blur-sm rounded-2xl border border-white/20 p-8 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in">
+    <div className="group bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-secondary-700/50 p-8 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in">
       <div className="flex items-start justify-between mb-6">
         <div className="flex items-center space-x-4">
           <div className="relative">
@@ -47,14 +68,16 @@ export default function BudgetCard({
             <div className="absolute -inset-1 bg-gradient-to-r from-primary-500/30 to-success-500/30 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity duration-300 -z-10 blur-sm" />
           </div>
           <div>
-            <h3 className="text-xl font-bold text-secondary-900 mb-1">{category}</h3>
-            <p className="text-sm font-semibold text-secondary-600 uppercase tracking-wide">{period}</p>
+            <h3 className="text-xl font-bold text-secondary-900 dark:text-secondary-100 mb-1">{category}</h3>
+            <p className="text-sm font-semibold text-secondary-600 dark:text-secondary-400 uppercase tracking-wide">
+              {period}{periodLabel && <span className="normal-case font-medium text-secondary-500 dark:text-secondary-400"> · {periodLabel}</span>}
+            </p>
           </div>
         </div>
         <button
           type="button"
           onClick={() => onEdit(id)}
-          className="p-3 text-secondary-400 hover:text-primary-600 hover:bg-primary-50 rounded-xl transition-all duration-200 hover:scale-110"
+          className="p-3 text-secondary-400 dark:text-secondary-500 hover:text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/30 rounded-xl transition-all duration-200 hover:scale-110"
           title="Edit budget"
         >
           <Edit className="w-5 h-5" />
@@ -64,17 +87,17 @@ export default function BudgetCard({
       {/* Progress Bar */}
       <div className="mb-6">
         <div className="flex items-center justify-between mb-4">
-          <span className="text-base font-bold text-secondary-800">
-            ${spentAmount.toFixed(2)} of ${budgetAmount.toFixed(2)}
+          <span className="text-base font-bold text-secondary-800 dark:text-secondary-100">
+            {formatCurrency(spentAmount)} of {formatCurrency(availableAmount)}
           </span>
           <span className={cn(
             "text-lg font-bold px-3 py-1 rounded-xl",
-            isOverBudget ? 'text-danger-600 bg-danger-50' : 'text-secondary-700 bg-secondary-50'
+            isOverBudget ? 'text-danger-600 bg-danger-50 dark:bg-danger-900/20' : 'text-secondary-700 dark:text-secondary-300 bg-secondary-50 dark:bg-secondary-900/50'
           )}>
             {percentage.toFixed(1)}%
           </span>
         </div>
-        <div className="relative w-full bg-secondary-100 rounded-full h-4 overflow-hidden">
+        <div className="relative w-full bg-secondary-100 dark:bg-secondary-700 rounded-full h-4 overflow-hidden">
           <div
             className={cn(
               "h-4 rounded-full transition-all duration-500 relative overflow-hidden",
@@ -88,26 +111,55 @@ export default function BudgetCard({
         </div>
       </div>
 
+      {/* Rollover */}
+      {(rolloverAmount !== 0 || rolloverPolicy !== 'none') && (
+        <div className="flex items-center justify-between mb-4 text-sm">
+          <span className="text-secondary-600 dark:text-secondary-400">
+            {formatCurrency(budgetAmount)} base {rolloverAmount >= 0 ? '+' : '-'} {formatCurrency(Math.abs(rolloverAmount))} rollover
+          </span>
+          {rolloverPolicy !== 'none' && (
+            <span className="font-semibold text-secondary-700 dark:text-secondary-300">
+              Carries {formatCurrency(carriesForward)}
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Previous Period */}
+      {hasPrevious && (
+        <div className="flex items-center justify-between mb-4 text-sm">
+          <span className="text-secondary-600 dark:text-secondary-400">
+            {previousPeriodLabel || 'Last period'}: {formatCurrency(previousSpentAmount)}
+          </span>
+          <span className={cn(
+            "font-semibold",
+            changeFromPrevious > 0 ? 'text-danger-600' : 'text-success-600'
+          )}>
+            {formatCurrency(changeFromPrevious, { signDisplay: 'exceptZero' })}
+          </span>
+        </div>
+      )}
+
       {/* Status */}
       <div className="flex items-center justify-between">
         <div>
           {isOverBudget ? (
             <p className="text-base font-bold text-danger-600">
-              Over budget by ${Math.abs(remaining).toFixed(2)}
+              Over budget by {formatCurrency(Math.abs(remaining))}
             </p>
           ) : (
             <p className="text-base font-bold text-success-600">
-              ${remaining.toFixed(2)} remaining
+              {formatCurrency(remaining)} remaining
             </p>
           )}
         </div>
         <div className={cn(
           "px-4 py-2 rounded-xl text-sm font-bold uppercase tracking-wide",
           isOverBudget
-            ? 'bg-danger-100 text-danger-800'
+            ? 'bg-danger-100 dark:bg-danger-900/30 text-danger-800 dark:text-danger-300'
             : percentage > 80
-            ? 'bg-warning-100 text-warning-800'
-            : 'bg-success-100 text-success-800'
+            ? 'bg-warning-100 dark:bg-warning-900/30 text-warning-800 dark:text-warning-300'
+            : 'bg-success-100 dark:bg-success-900/30 text-success-800 dark:text-success-300'
         )}>
           {isOverBudget ? 'Over Budget' : percentage > 80 ? 'Warning' : 'On Track'}
         </div>
@@ -1,10 +1,12 @@
 'use client'
 
 import { TrendingUp, TrendingDown, AlertCircle, Target } from 'lucide-react'
+import { usePreferences } from '@/contexts/PreferencesContext'
 
 interface BudgetOverviewProps {
   totalBudget: number
   totalSpent: number
+  totalRollover?: number
   categoriesOverBudget: number
   totalCategories: number
 }
@@ -12,31 +14,37 @@ interface BudgetOverviewProps {
 export default function BudgetOverview({ 
   totalBudget, 
   totalSpent, 
+  totalRollover = 0,
   categoriesOverBudget, 
   totalCategories 
 }: BudgetOverviewProps) {
-  const remaining = totalBudget - totalSpent
-  const spentPercentage = (totalSpent / totalBudget) * 100
+  const { formatCurrency } = usePreferences()
+  // Available = base + rollover − spent
+  const totalAvailable = totalBudget + totalRollover
+  const remaining = totalAvailable - totalSpent
+  const spentPercentage = totalAvailable > 0 ? (totalSpent / totalAvailable) * 100 : 0
   const onTrackCategories = totalCategories - categoriesOverBudget
 
   const overviewCards = [
     {
       title: 'Total Budget',
-      value: `$${totalBudget.toFixed(2)}`,
-      subtitle: 'This month',
+      value: formatCurrency(totalBudget),
+      subtitle: totalRollover !== 0
+        ? `${formatCurrency(totalRollover, { signDisplay: 'always' })} rollover`
+        : 'Current periods',
       icon: <Target className="w-5 h-5 text-white" />,
       iconColor: 'bg-blue-500',
     },
     {
       title: 'Total Spent',
-      value: `$${totalSpent.toFixed(2)}`,
+      value: formatCurrency(totalSpent),
       subtitle: `${spentPercentage.toFixed(1)}% of budget`,
       icon: <TrendingDown className="w-5 h-5 text-white" />,
       iconColor: 'bg-red-500',
     },
     {
-      title: 'Remaining',
-      value: `$${remaining.toFixed(2)}`,
+      title: 'Available',
+      value: formatCurrency(remaining),
       subtitle: remaining >= 0 ? 'Available to spend' : 'Over budget',
       icon: <TrendingUp className="w-5 h-5 text-white" />,
       iconColor: remaining >= 0 ? 'bg-green-500' : 'bg-red-500',
@@ -53,7 +61,7 @@ export default function BudgetOverview({
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
       {overviewCards.map((card, index) => (
-        <div key={index} className="bg-white rounded-xl border border-gray-100 p-6 shadow-sm hover:shadow-md transition-shadow">
+        <div key={index} className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm hover:shadow-md transition-shadow">
           <div className="flex items-start justify-between mb-4">
             <div className={`w-12 h-12 rounded-xl flex items-center justify-center ${card.iconColor}`}>
               {card.icon}
@@ -61,9 +69,9 @@ export default function BudgetOverview({
           </div>
           
           <div className="space-y-1">
-            <p className="text-sm font-medium text-gray-600">{card.title}</p>
-            <p className="text-3xl font-bold text-gray-900">{card.value}</p>
-            <p className="text-sm text-gray-500">{card.subtitle}</p>
+            <p className="text-sm font-medium text-gray-600 dark:text-secondary-400">{card.title}</p>
+            <p className="text-3xl font-bold text-gray-900 dark:text-secondary-100">{card.value}</p>
+            <p className="text-sm text-gray-500 dark:text-secondary-400">{card.subtitle}</p>
           </div>
         </div>
       ))}
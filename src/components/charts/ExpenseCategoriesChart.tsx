@@ -2,7 +2,12 @@
 
 import { useState } from 'react'
 import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useTheme } from '@/contexts/ThemeContext'
 import { useChartResponsive } from '@/hooks/useResponsive'
+import { getCategoryAllocations } from '@/lib/splits'
+import { getCategoryColor, getRootCategoryName } from '@/lib/categories'
+import type { Transaction } from '@/types'
 import {
   PieChart,
   Pie,
@@ -27,7 +32,9 @@ type SortType = 'amount' | 'alphabetical' | 'percentage'
 type TimePeriod = 'all' | 'month' | 'quarter'
 
 export default function ExpenseCategoriesChart() {
-  const { transactions, budgets } = useApp()
+  const { transactions, budgets, categories } = useApp()
+  const { formatCurrency, formatDateLabel } = usePreferences()
+  const { chartPalette } = useTheme()
   const { chartConfig, isMobile } = useChartResponsive()
   const [chartType, setChartType] = useState<ChartType>('pie')
   const [sortType, setSortType] = useState<SortType>('amount')
@@ -69,33 +76,17 @@ export default function ExpenseCategoriesChart() {
   const expenseTransactions = getFilteredTransactions()
   const totalExpenses = expenseTransactions.reduce((sum, t) => sum + t.amount, 0)
 
-  // Enhanced color palette with more sophisticated colors
-  const categoryColors: Record<string, string> = {
-    'Food & Dining': '#ef4444',
-    'Transportation': '#3b82f6',
-    'Shopping': '#8b5cf6',
-    'Entertainment': '#ec4899',
-    'Bills & Utilities': '#f59e0b',
-    'Healthcare': '#10b981',
-    'Income': '#06b6d4',
-    'Other': '#6b7280',
-    'Travel': '#14b8a6',
-    'Education': '#f97316',
-    'Insurance': '#84cc16',
-    'Investments': '#6366f1'
-  }
-
   if (expenseTransactions.length === 0 || totalExpenses === 0) {
     const periodText = timePeriod === 'month' ? 'this month' :
                       timePeriod === 'quarter' ? 'this quarter' :
                       'in the selected period'
 
     return (
-      <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-white/20 p-8 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in">
+      <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-secondary-700/50 p-8 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in">
         <div className="flex items-center justify-between mb-8">
-          <h3 className="text-xl font-bold text-secondary-900">Expense Categories</h3>
-          <div className="px-2 py-1 bg-secondary-100 rounded-lg">
-            <span className="text-xs font-medium text-secondary-700">
+          <h3 className="text-xl font-bold text-secondary-900 dark:text-secondary-100">Expense Categories</h3>
+          <div className="px-2 py-1 bg-secondary-100 dark:bg-secondary-700 rounded-lg">
+            <span className="text-xs font-medium text-secondary-700 dark:text-secondary-300">
               {timePeriod === 'all' ? 'All Time' :
                timePeriod === 'month' ? 'This Month' :
                'This Quarter'}
@@ -105,13 +96,13 @@ export default function ExpenseCategoriesChart() {
 
         <div className="flex flex-col items-center justify-center py-20 text-center">
           <div className="relative">
-            <div className="w-24 h-24 bg-gradient-to-br from-primary-50 to-primary-100 rounded-2xl flex items-center justify-center mb-6">
+            <div className="w-24 h-24 bg-gradient-to-br from-primary-50 dark:from-primary-900/20 to-primary-100 dark:to-primary-900/20 rounded-2xl flex items-center justify-center mb-6">
               <PieChartIcon className="w-12 h-12 text-primary-400" />
             </div>
             <div className="absolute -inset-2 bg-gradient-to-r from-primary-500/20 to-success-500/20 rounded-2xl opacity-50 -z-10 blur-sm" />
           </div>
-          <p className="text-secondary-700 font-semibold mb-3 text-lg">No expense data available</p>
-          <p className="text-secondary-500 font-medium max-w-sm">
+          <p className="text-secondary-700 dark:text-secondary-300 font-semibold mb-3 text-lg">No expense data available</p>
+          <p className="text-secondary-500 dark:text-secondary-400 font-medium max-w-sm">
             No expenses found {periodText}. Try selecting a different time period or add some expenses.
           </p>
         </div>
@@ -119,16 +110,28 @@ export default function ExpenseCategoriesChart() {
     )
   }
 
-  // Group expenses by category with enhanced data
+  // Amount of a transaction in a top-level category, including its subcategories
+  const getRolledUpAmount = (transaction: Transaction, category: string) =>
+    getCategoryAllocations(transaction)
+      .filter(allocation => getRootCategoryName(allocation.category, categories) === category)
+      .reduce((sum, allocation) => sum + allocation.amount, 0)
+
+  // Group expenses by top-level category with enhanced data; split transactions count towards each of their categories
   const categoryTotals = expenseTransactions.reduce((acc, transaction) => {
-    if (!acc[transaction.category]) {
-      acc[transaction.category] = { amount: 0, count: 0 }
-    }
-    acc[transaction.category].amount += transaction.amount
-    acc[transaction.category].count += 1
+    getCategoryAllocations(transaction).forEach(({ category, amount }) => {
+      const rootCategory = getRootCategoryName(category, categories)
+      const totals = acc[rootCategory] || { amount: 0, count: 0 }
+      totals.amount += amount
+      totals.count += 1
+      acc[rootCategory] = totals
+    })
     return acc
   }, {} as Record<string, { amount: number; count: number }>)
 
+  const selectedCategoryTransactions = selectedCategory
+    ? expenseTransactions.filter(t => getRolledUpAmount(t, selectedCategory) > 0)
+    : []
+
   // Create enhanced category data with budget comparison
   const categoryData: CategoryData[] = Object.entries(categoryTotals)
     .map(([category, data]) => {
@@ -137,7 +140,7 @@ export default function ExpenseCategoriesChart() {
         category,
         amount: data.amount,
         percentage: (data.amount / totalExpenses) * 100,
-        color: categoryColors[category] || '#6b7280',
+        color: getCategoryColor(category, categories),
         transactionCount: data.count,
         budgetAmount: budget?.budgetAmount
       }
@@ -160,17 +163,17 @@ export default function ExpenseCategoriesChart() {
     if (active && payload && payload.length) {
       const data = payload[0].payload
       return (
-        <div className="bg-white/95 backdrop-blur-sm border border-white/20 rounded-xl p-4 shadow-large">
-          <p className="font-semibold text-secondary-900 mb-2">{data.category}</p>
+        <div className="bg-white/95 dark:bg-secondary-800/95 backdrop-blur-sm border border-white/20 dark:border-secondary-700/50 rounded-xl p-4 shadow-large">
+          <p className="font-semibold text-secondary-900 dark:text-secondary-100 mb-2">{data.category}</p>
           <div className="space-y-1">
-            <p className="text-secondary-700">Amount: ${data.amount.toFixed(2)}</p>
-            <p className="text-secondary-700">Percentage: {data.percentage.toFixed(1)}%</p>
-            <p className="text-secondary-700">Transactions: {data.transactionCount}</p>
+            <p className="text-secondary-700 dark:text-secondary-300">Amount: {formatCurrency(data.amount)}</p>
+            <p className="text-secondary-700 dark:text-secondary-300">Percentage: {data.percentage.toFixed(1)}%</p>
+            <p className="text-secondary-700 dark:text-secondary-300">Transactions: {data.transactionCount}</p>
             {data.budgetAmount && (
               <p className={`font-medium ${
                 data.amount > data.budgetAmount ? 'text-danger-600' : 'text-success-600'
               }`}>
-                Budget: ${data.budgetAmount.toFixed(2)}
+                Budget: {formatCurrency(data.budgetAmount)}
                 ({data.amount > data.budgetAmount ? 'Over' : 'Under'} budget)
               </p>
             )}
@@ -186,18 +189,18 @@ export default function ExpenseCategoriesChart() {
   }
 
   return (
-    <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-white/20 mobile-padding py-4 sm:py-6 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in h-full flex flex-col">
+    <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-secondary-700/50 mobile-padding py-4 sm:py-6 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in h-full flex flex-col">
       {/* Header with Controls */}
       <div className="flex flex-col space-y-3 sm:space-y-4 mb-4 sm:mb-6">
         {/* Title and Stats */}
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-2 sm:space-y-0">
-          <h3 className="text-lg sm:text-xl font-bold text-secondary-900">Expense Categories</h3>
+          <h3 className="text-lg sm:text-xl font-bold text-secondary-900 dark:text-secondary-100">Expense Categories</h3>
           <div className="flex items-center space-x-2">
-            <div className="px-2 sm:px-3 py-1 bg-danger-50 rounded-lg">
-              <span className="text-xs font-bold text-danger-700">${totalExpenses.toFixed(0)}</span>
+            <div className="px-2 sm:px-3 py-1 bg-danger-50 dark:bg-danger-900/20 rounded-lg">
+              <span className="text-xs font-bold text-danger-700 dark:text-danger-300">{formatCurrency(totalExpenses, { decimals: 0 })}</span>
             </div>
-            <div className="px-2 sm:px-3 py-1 bg-secondary-100 rounded-lg">
-              <span className="text-xs font-medium text-secondary-700">
+            <div className="px-2 sm:px-3 py-1 bg-secondary-100 dark:bg-secondary-700 rounded-lg">
+              <span className="text-xs font-medium text-secondary-700 dark:text-secondary-300">
                 {expenseTransactions.length} txns
               </span>
             </div>
@@ -208,11 +211,11 @@ export default function ExpenseCategoriesChart() {
         <div className="flex flex-col sm:flex-row sm:items-center space-y-2 sm:space-y-0 sm:space-x-4">
           {/* Time Period Selector */}
           <div className="flex items-center space-x-2">
-            <Calendar className="w-4 h-4 text-secondary-600" />
+            <Calendar className="w-4 h-4 text-secondary-600 dark:text-secondary-400" />
             <select
               value={timePeriod}
               onChange={(e) => setTimePeriod(e.target.value as TimePeriod)}
-              className="flex-1 sm:flex-none text-sm py-2 px-3 border border-secondary-200 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-transparent min-h-[44px]"
+              className="flex-1 sm:flex-none text-sm py-2 px-3 border border-secondary-200 dark:border-secondary-700 rounded-lg bg-white dark:bg-secondary-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent min-h-[44px]"
               aria-label="Select time period"
             >
               <option value="all">All Time</option>
@@ -223,11 +226,11 @@ export default function ExpenseCategoriesChart() {
 
           {/* Chart Type Selector */}
           <div className="flex items-center space-x-2">
-            <Grid3X3 className="w-4 h-4 text-secondary-600" />
+            <Grid3X3 className="w-4 h-4 text-secondary-600 dark:text-secondary-400" />
             <select
               value={chartType}
               onChange={(e) => setChartType(e.target.value as ChartType)}
-              className="flex-1 sm:flex-none text-sm py-2 px-3 border border-secondary-200 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-transparent min-h-[44px]"
+              className="flex-1 sm:flex-none text-sm py-2 px-3 border border-secondary-200 dark:border-secondary-700 rounded-lg bg-white dark:bg-secondary-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent min-h-[44px]"
               aria-label="Select chart type"
             >
               <option value="pie">Pie Chart</option>
@@ -237,11 +240,11 @@ export default function ExpenseCategoriesChart() {
 
           {/* Sort Selector */}
           <div className="flex items-center space-x-2">
-            <ArrowUpDown className="w-4 h-4 text-secondary-600" />
+            <ArrowUpDown className="w-4 h-4 text-secondary-600 dark:text-secondary-400" />
             <select
               value={sortType}
               onChange={(e) => setSortType(e.target.value as SortType)}
-              className="flex-1 sm:flex-none text-sm py-2 px-3 border border-secondary-200 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-transparent min-h-[44px]"
+              className="flex-1 sm:flex-none text-sm py-2 px-3 border border-secondary-200 dark:border-secondary-700 rounded-lg bg-white dark:bg-secondary-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent min-h-[44px]"
               aria-label="Select sort type"
             >
               <option value="amount">By Amount</option>
@@ -275,7 +278,7 @@ export default function ExpenseCategoriesChart() {
                   <Cell
                     key={`cell-${index}`}
                     fill={entry.color}
-                    stroke={selectedCategory === entry.category ? '#1f2937' : 'none'}
+                    stroke={selectedCategory === entry.category ? chartPalette.outline : 'none'}
                     strokeWidth={selectedCategory === entry.category ? 2 : 0}
                     className={`transition-all duration-200 ${
                       selectedCategory === entry.category ? 'brightness-110' : ''
@@ -312,9 +315,9 @@ export default function ExpenseCategoriesChart() {
 
         {/* Mobile-Optimized Category List */}
         <div className="w-full lg:w-80 space-y-2 max-h-64 sm:max-h-80 lg:max-h-96 overflow-y-auto">
-          <div className="flex items-center justify-between mb-3 sticky top-0 bg-white/90 backdrop-blur-sm py-2 z-10">
-            <h4 className="font-semibold text-secondary-900 text-sm sm:text-base">Categories</h4>
-            <span className="text-xs sm:text-sm text-secondary-600">{sortedCategoryData.length} total</span>
+          <div className="flex items-center justify-between mb-3 sticky top-0 bg-white/90 dark:bg-secondary-800/90 backdrop-blur-sm py-2 z-10">
+            <h4 className="font-semibold text-secondary-900 dark:text-secondary-100 text-sm sm:text-base">Categories</h4>
+            <span className="text-xs sm:text-sm text-secondary-600 dark:text-secondary-400">{sortedCategoryData.length} total</span>
           </div>
 
           {sortedCategoryData.slice(0, chartConfig.maxCategoriesShown).map((item, index) => (
@@ -322,8 +325,8 @@ export default function ExpenseCategoriesChart() {
               key={index}
               className={`p-3 sm:p-4 rounded-lg border transition-all duration-200 cursor-pointer touch-manipulation ${
                 selectedCategory === item.category
-                  ? 'border-primary-300 bg-primary-50 shadow-sm'
-                  : 'border-secondary-100 bg-secondary-50 hover:bg-secondary-100 hover:border-secondary-200 active:bg-secondary-200'
+                  ? 'border-primary-300 bg-primary-50 dark:bg-primary-900/20 shadow-sm'
+                  : 'border-secondary-100 dark:border-secondary-700 bg-secondary-50 dark:bg-secondary-900/50 hover:bg-secondary-100 dark:hover:bg-secondary-700 hover:border-secondary-200 active:bg-secondary-200'
               }`}
               onClick={() => handleCategoryClick(item.category)}
               role="button"
@@ -343,25 +346,25 @@ export default function ExpenseCategoriesChart() {
                     style={{ backgroundColor: item.color }}
                     aria-hidden="true"
                   />
-                  <span className="font-semibold text-secondary-900 text-sm sm:text-base truncate">
+                  <span className="font-semibold text-secondary-900 dark:text-secondary-100 text-sm sm:text-base truncate">
                     {item.category.length > (chartConfig.maxCategoryLength + 6)
                       ? item.category.substring(0, chartConfig.maxCategoryLength + 6) + '...'
                       : item.category}
                   </span>
                 </div>
                 <div className="text-right flex-shrink-0 ml-2">
-                  <p className="font-bold text-secondary-900 text-sm sm:text-base">${item.amount.toFixed(0)}</p>
-                  <p className="text-xs sm:text-sm text-secondary-600">{item.percentage.toFixed(0)}%</p>
+                  <p className="font-bold text-secondary-900 dark:text-secondary-100 text-sm sm:text-base">{formatCurrency(item.amount, { decimals: 0 })}</p>
+                  <p className="text-xs sm:text-sm text-secondary-600 dark:text-secondary-400">{item.percentage.toFixed(0)}%</p>
                 </div>
               </div>
 
               <div className="flex items-center justify-between text-xs sm:text-sm">
-                <span className="text-secondary-600">{item.transactionCount} transaction{item.transactionCount !== 1 ? 's' : ''}</span>
+                <span className="text-secondary-600 dark:text-secondary-400">{item.transactionCount} transaction{item.transactionCount !== 1 ? 's' : ''}</span>
                 {item.budgetAmount && (
                   <span className={`font-medium px-2 py-1 rounded text-xs ${
                     item.amount > item.budgetAmount
-                      ? 'bg-danger-100 text-danger-700'
-                      : 'bg-success-100 text-success-700'
+                      ? 'bg-danger-100 dark:bg-danger-900/30 text-danger-700 dark:text-danger-300'
+                      : 'bg-success-100 dark:bg-success-900/30 text-success-700 dark:text-success-300'
                   }`}>
                     {item.amount > item.budgetAmount ? 'Over Budget' : 'Under Budget'}
                   </span>
@@ -371,12 +374,12 @@ export default function ExpenseCategoriesChart() {
               {item.budgetAmount && (
                 <div className="mt-3">
                   <div className="flex items-center justify-between text-xs mb-1">
-                    <span className="text-secondary-600">Budget Progress</span>
-                    <span className="text-secondary-600">
-                      ${item.amount.toFixed(0)} / ${item.budgetAmount.toFixed(0)}
+                    <span className="text-secondary-600 dark:text-secondary-400">Budget Progress</span>
+                    <span className="text-secondary-600 dark:text-secondary-400">
+                      {formatCurrency(item.amount, { decimals: 0 })} / {formatCurrency(item.budgetAmount, { decimals: 0 })}
                     </span>
                   </div>
-                  <div className="w-full bg-secondary-200 rounded-full h-2">
+                  <div className="w-full bg-secondary-200 dark:bg-secondary-700 rounded-full h-2">
                     <div
                       className={`h-2 rounded-full transition-all duration-300 ${
                         item.amount > item.budgetAmount
@@ -396,7 +399,7 @@ export default function ExpenseCategoriesChart() {
 
           {sortedCategoryData.length > chartConfig.maxCategoriesShown && (
             <div className="text-center py-3">
-              <span className="text-xs sm:text-sm text-secondary-600">
+              <span className="text-xs sm:text-sm text-secondary-600 dark:text-secondary-400">
                 +{sortedCategoryData.length - chartConfig.maxCategoriesShown} more categories
               </span>
             </div>
@@ -406,9 +409,9 @@ export default function ExpenseCategoriesChart() {
 
       {/* Compact Selected Category Details */}
       {selectedCategory && (
-        <div className="mt-4 p-4 bg-primary-50 rounded-lg border border-primary-200">
+        <div className="mt-4 p-4 bg-primary-50 dark:bg-primary-900/20 rounded-lg border border-primary-200 dark:border-primary-800">
           <div className="flex items-center justify-between mb-3">
-            <h4 className="font-bold text-primary-900 text-sm">
+            <h4 className="font-bold text-primary-900 dark:text-primary-300 text-sm">
               {selectedCategory} Transactions
             </h4>
             <button
@@ -420,28 +423,27 @@ export default function ExpenseCategoriesChart() {
             </button>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-            {expenseTransactions
-              .filter(t => t.category === selectedCategory)
+            {selectedCategoryTransactions
               .slice(0, 4)
               .map((transaction, index) => (
-                <div key={index} className="bg-white rounded-lg p-2 border border-primary-100">
-                  <p className="font-semibold text-secondary-900 text-xs truncate">
+                <div key={index} className="bg-white dark:bg-secondary-800 rounded-lg p-2 border border-primary-100 dark:border-primary-800">
+                  <p className="font-semibold text-secondary-900 dark:text-secondary-100 text-xs truncate">
                     {transaction.description.length > 20
                       ? transaction.description.substring(0, 20) + '...'
                       : transaction.description}
                   </p>
                   <div className="flex items-center justify-between mt-1">
-                    <span className="text-xs text-secondary-600">
-                      {new Date(transaction.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    <span className="text-xs text-secondary-600 dark:text-secondary-400">
+                      {formatDateLabel(new Date(transaction.date), { month: 'short', day: 'numeric' })}
                     </span>
-                    <span className="font-bold text-danger-600 text-xs">${transaction.amount.toFixed(0)}</span>
+                    <span className="font-bold text-danger-600 text-xs">{formatCurrency(getRolledUpAmount(transaction, selectedCategory), { decimals: 0 })}</span>
                   </div>
                 </div>
               ))}
           </div>
-          {expenseTransactions.filter(t => t.category === selectedCategory).length > 4 && (
-            <p className="text-xs text-primary-700 mt-2 text-center">
-              +{expenseTransactions.filter(t => t.category === selectedCategory).length - 4} more
+          {selectedCategoryTransactions.length > 4 && (
+            <p className="text-xs text-primary-700 dark:text-primary-300 mt-2 text-center">
+              +{selectedCategoryTransactions.length - 4} more
             </p>
           )}
         </div>
@@ -3,7 +3,10 @@
 // Performance optimized chart component
 import { useState } from 'react'
 import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useTheme } from '@/contexts/ThemeContext'
 import { useChartResponsive } from '@/hooks/useResponsive'
+import { excludeTransfers } from '@/lib/transfers'
 import {
   ComposedChart,
   Bar,
@@ -33,6 +36,8 @@ interface ChartData {
 
 export default function IncomeVsExpensesChart() {
   const { transactions, getTotalIncome, getTotalExpenses } = useApp()
+  const { formatCurrency, formatCompactCurrency, formatDateLabel } = usePreferences()
+  const { chartPalette } = useTheme()
   const { chartConfig, isMobile } = useChartResponsive()
   const [timePeriod, setTimePeriod] = useState<TimePeriod>('monthly')
   const [chartType, setChartType] = useState<ChartType>('combo')
@@ -43,21 +48,21 @@ export default function IncomeVsExpensesChart() {
 
   if (transactions.length === 0) {
     return (
-      <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-white/20 p-8 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in">
+      <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-secondary-700/50 p-8 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in">
         <div className="flex items-center justify-between mb-8">
-          <h3 className="text-xl font-bold text-secondary-900">Income vs Expenses</h3>
+          <h3 className="text-xl font-bold text-secondary-900 dark:text-secondary-100">Income vs Expenses</h3>
           <div className="w-2 h-2 bg-primary-500 rounded-full animate-pulse-soft" />
         </div>
 
         <div className="flex flex-col items-center justify-center py-20 text-center">
           <div className="relative">
-            <div className="w-24 h-24 bg-gradient-to-br from-primary-50 to-primary-100 rounded-2xl flex items-center justify-center mb-6">
+            <div className="w-24 h-24 bg-gradient-to-br from-primary-50 dark:from-primary-900/20 to-primary-100 dark:to-primary-900/20 rounded-2xl flex items-center justify-center mb-6">
               <BarChart3 className="w-12 h-12 text-primary-400" />
             </div>
             <div className="absolute -inset-2 bg-gradient-to-r from-primary-500/20 to-success-500/20 rounded-2xl opacity-50 -z-10 blur-sm" />
           </div>
-          <p className="text-secondary-700 font-semibold mb-3 text-lg">No transaction data available</p>
-          <p className="text-secondary-500 font-medium max-w-sm">Add transactions to view spending comparison</p>
+          <p className="text-secondary-700 dark:text-secondary-300 font-semibold mb-3 text-lg">No transaction data available</p>
+          <p className="text-secondary-500 dark:text-secondary-400 font-medium max-w-sm">Add transactions to view spending comparison</p>
         </div>
       </div>
     )
@@ -67,7 +72,7 @@ export default function IncomeVsExpensesChart() {
   const processDataByPeriod = (): ChartData[] => {
     const dataMap = new Map<string, ChartData>()
 
-    transactions.forEach(transaction => {
+    excludeTransfers(transactions).forEach(transaction => {
       const date = new Date(transaction.date)
       let periodKey: string
 
@@ -130,17 +135,17 @@ export default function IncomeVsExpensesChart() {
     if (active && payload && payload.length) {
       const data = payload[0].payload
       return (
-        <div className="bg-white/95 backdrop-blur-sm border border-white/20 rounded-xl p-4 shadow-large">
-          <p className="font-semibold text-secondary-900 mb-2">{label}</p>
+        <div className="bg-white/95 dark:bg-secondary-800/95 backdrop-blur-sm border border-white/20 dark:border-secondary-700/50 rounded-xl p-4 shadow-large">
+          <p className="font-semibold text-secondary-900 dark:text-secondary-100 mb-2">{label}</p>
           <div className="space-y-1">
             <p className="text-success-600 font-medium">
-              Income: ${data.income.toFixed(2)} ({data.incomeCount} transactions)
+              Income: {formatCurrency(data.income)} ({data.incomeCount} transactions)
             </p>
             <p className="text-danger-600 font-medium">
-              Expenses: ${data.expenses.toFixed(2)} ({data.expenseCount} transactions)
+              Expenses: {formatCurrency(data.expenses)} ({data.expenseCount} transactions)
             </p>
-            <p className={`font-bold ${data.net >= 0 ? 'text-success-700' : 'text-danger-700'}`}>
-              Net: ${data.net.toFixed(2)}
+            <p className={`font-bold ${data.net >= 0 ? 'text-success-700 dark:text-success-300' : 'text-danger-700 dark:text-danger-300'}`}>
+              Net: {formatCurrency(data.net)}
             </p>
           </div>
         </div>
@@ -153,11 +158,11 @@ export default function IncomeVsExpensesChart() {
     if (timePeriod === 'quarterly') {
       return period.replace('-Q', ' Q')
     } else if (timePeriod === 'weekly') {
-      return new Date(period).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+      return formatDateLabel(new Date(period), { month: 'short', day: 'numeric' })
     } else {
       const [year, month] = period.split('-')
-      const date = new Date(parseInt(year), parseInt(month) - 1)
-      return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' })
+      const date = new Date(Date.UTC(parseInt(year), parseInt(month) - 1))
+      return formatDateLabel(date, { month: 'short', year: '2-digit' })
     }
   }
 
@@ -165,23 +170,23 @@ export default function IncomeVsExpensesChart() {
     if (timePeriod === 'quarterly') {
       return period.replace('-Q', '\nQ')
     } else if (timePeriod === 'weekly') {
-      return new Date(period).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })
+      return formatDateLabel(new Date(period), { month: 'numeric', day: 'numeric' })
     } else {
       const [year, month] = period.split('-')
-      const date = new Date(parseInt(year), parseInt(month) - 1)
-      return date.toLocaleDateString('en-US', { month: 'short' })
+      const date = new Date(Date.UTC(parseInt(year), parseInt(month) - 1))
+      return formatDateLabel(date, { month: 'short' })
     }
   }
 
   return (
-    <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-white/20 mobile-padding py-4 sm:py-6 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in h-full flex flex-col">
+    <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-secondary-700/50 mobile-padding py-4 sm:py-6 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in h-full flex flex-col">
       {/* Mobile-Optimized Header with Controls */}
       <div className="flex flex-col space-y-3 sm:space-y-4 mb-4 sm:mb-6">
         {/* Title and Net Income */}
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-2 sm:space-y-0">
-          <h3 className="text-lg sm:text-xl font-bold text-secondary-900">Income vs Expenses</h3>
-          <div className="px-2 sm:px-3 py-1 bg-success-50 rounded-lg self-start sm:self-auto">
-            <span className="text-xs sm:text-sm font-bold text-success-700">Net: ${netIncome.toFixed(0)}</span>
+          <h3 className="text-lg sm:text-xl font-bold text-secondary-900 dark:text-secondary-100">Income vs Expenses</h3>
+          <div className="px-2 sm:px-3 py-1 bg-success-50 dark:bg-success-900/20 rounded-lg self-start sm:self-auto">
+            <span className="text-xs sm:text-sm font-bold text-success-700 dark:text-success-300">Net: {formatCurrency(netIncome, { decimals: 0 })}</span>
           </div>
         </div>
 
@@ -189,11 +194,11 @@ export default function IncomeVsExpensesChart() {
         <div className="flex flex-col sm:flex-row sm:items-center space-y-2 sm:space-y-0 sm:space-x-4">
           {/* Time Period Selector */}
           <div className="flex items-center space-x-2 flex-1 sm:flex-none">
-            <Calendar className="w-4 h-4 text-secondary-600 flex-shrink-0" />
+            <Calendar className="w-4 h-4 text-secondary-600 dark:text-secondary-400 flex-shrink-0" />
             <select
               value={timePeriod}
               onChange={(e) => setTimePeriod(e.target.value as TimePeriod)}
-              className="flex-1 sm:w-auto text-sm py-2 px-3 border border-secondary-200 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-transparent touch-target"
+              className="flex-1 sm:w-auto text-sm py-2 px-3 border border-secondary-200 dark:border-secondary-700 rounded-lg bg-white dark:bg-secondary-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent touch-target"
               aria-label="Select time period"
             >
               <option value="weekly">Weekly</option>
@@ -204,11 +209,11 @@ export default function IncomeVsExpensesChart() {
 
           {/* Chart Type Selector */}
           <div className="flex items-center space-x-2 flex-1 sm:flex-none">
-            <Filter className="w-4 h-4 text-secondary-600 flex-shrink-0" />
+            <Filter className="w-4 h-4 text-secondary-600 dark:text-secondary-400 flex-shrink-0" />
             <select
               value={chartType}
               onChange={(e) => setChartType(e.target.value as ChartType)}
-              className="flex-1 sm:w-auto text-sm py-2 px-3 border border-secondary-200 rounded-lg bg-white focus:ring-2 focus:ring-primary-500 focus:border-transparent touch-target"
+              className="flex-1 sm:w-auto text-sm py-2 px-3 border border-secondary-200 dark:border-secondary-700 rounded-lg bg-white dark:bg-secondary-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent touch-target"
               aria-label="Select chart type"
             >
               <option value="combo">Combo Chart</option>
@@ -231,19 +236,19 @@ export default function IncomeVsExpensesChart() {
             >
               <defs>
                 <linearGradient id="incomeGradient" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#10b981" stopOpacity={0.8}/>
-                  <stop offset="95%" stopColor="#10b981" stopOpacity={0.2}/>
+                  <stop offset="5%" stopColor={chartPalette.income} stopOpacity={0.8}/>
+                  <stop offset="95%" stopColor={chartPalette.income} stopOpacity={0.2}/>
                 </linearGradient>
                 <linearGradient id="expenseGradient" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#ef4444" stopOpacity={0.8}/>
-                  <stop offset="95%" stopColor="#ef4444" stopOpacity={0.2}/>
+                  <stop offset="5%" stopColor={chartPalette.expense} stopOpacity={0.8}/>
+                  <stop offset="95%" stopColor={chartPalette.expense} stopOpacity={0.2}/>
                 </linearGradient>
               </defs>
-              <CartesianGrid strokeDasharray="2 2" stroke="#e2e8f0" opacity={0.3} />
+              <CartesianGrid strokeDasharray="2 2" stroke={chartPalette.grid} opacity={0.3} />
               <XAxis
                 dataKey="period"
                 tickFormatter={formatAxisLabel}
-                stroke="#64748b"
+                stroke={chartPalette.axis}
                 fontSize={chartConfig.fontSize}
                 fontWeight={500}
                 interval="preserveStartEnd"
@@ -252,10 +257,10 @@ export default function IncomeVsExpensesChart() {
                 height={chartConfig.xAxisHeight}
               />
               <YAxis
-                stroke="#64748b"
+                stroke={chartPalette.axis}
                 fontSize={chartConfig.fontSize}
                 fontWeight={500}
-                tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                tickFormatter={(value) => formatCompactCurrency(value)}
                 width={chartConfig.yAxisWidth}
               />
               <Tooltip
@@ -286,11 +291,11 @@ export default function IncomeVsExpensesChart() {
               <Line
                 type="monotone"
                 dataKey="net"
-                stroke="#6366f1"
+                stroke={chartPalette.net}
                 strokeWidth={chartConfig.strokeWidth}
                 name="Net"
-                dot={{ fill: '#6366f1', strokeWidth: 1, r: chartConfig.dotRadius }}
-                activeDot={{ r: chartConfig.activeDotRadius, stroke: '#6366f1', strokeWidth: 1 }}
+                dot={{ fill: chartPalette.net, strokeWidth: 1, r: chartConfig.dotRadius }}
+                activeDot={{ r: chartConfig.activeDotRadius, stroke: chartPalette.net, strokeWidth: 1 }}
               />
             </ComposedChart>
           ) : chartType === 'area' ? (
@@ -300,19 +305,19 @@ export default function IncomeVsExpensesChart() {
             >
               <defs>
                 <linearGradient id="incomeAreaGradient" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#10b981" stopOpacity={0.6}/>
-                  <stop offset="95%" stopColor="#10b981" stopOpacity={0.1}/>
+                  <stop offset="5%" stopColor={chartPalette.income} stopOpacity={0.6}/>
+                  <stop offset="95%" stopColor={chartPalette.income} stopOpacity={0.1}/>
                 </linearGradient>
                 <linearGradient id="expenseAreaGradient" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#ef4444" stopOpacity={0.6}/>
-                  <stop offset="95%" stopColor="#ef4444" stopOpacity={0.1}/>
+                  <stop offset="5%" stopColor={chartPalette.expense} stopOpacity={0.6}/>
+                  <stop offset="95%" stopColor={chartPalette.expense} stopOpacity={0.1}/>
                 </linearGradient>
               </defs>
-              <CartesianGrid strokeDasharray="2 2" stroke="#e2e8f0" opacity={0.3} />
+              <CartesianGrid strokeDasharray="2 2" stroke={chartPalette.grid} opacity={0.3} />
               <XAxis
                 dataKey="period"
                 tickFormatter={formatAxisLabel}
-                stroke="#64748b"
+                stroke={chartPalette.axis}
                 fontSize={10}
                 fontWeight={500}
                 interval="preserveStartEnd"
@@ -321,10 +326,10 @@ export default function IncomeVsExpensesChart() {
                 height={60}
               />
               <YAxis
-                stroke="#64748b"
+                stroke={chartPalette.axis}
                 fontSize={10}
                 fontWeight={500}
-                tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                tickFormatter={(value) => formatCompactCurrency(value)}
                 width={40}
               />
               <Tooltip content={<CustomTooltip />} />
@@ -333,7 +338,7 @@ export default function IncomeVsExpensesChart() {
                 type="monotone"
                 dataKey="income"
                 stackId="1"
-                stroke="#10b981"
+                stroke={chartPalette.income}
                 fill="url(#incomeAreaGradient)"
                 name="Income"
               />
@@ -341,7 +346,7 @@ export default function IncomeVsExpensesChart() {
                 type="monotone"
                 dataKey="expenses"
                 stackId="2"
-                stroke="#ef4444"
+                stroke={chartPalette.expense}
                 fill="url(#expenseAreaGradient)"
                 name="Expenses"
               />
@@ -351,11 +356,11 @@ export default function IncomeVsExpensesChart() {
               data={chartData}
               margin={{ top: 10, right: 10, left: 10, bottom: 40 }}
             >
-              <CartesianGrid strokeDasharray="2 2" stroke="#e2e8f0" opacity={0.3} />
+              <CartesianGrid strokeDasharray="2 2" stroke={chartPalette.grid} opacity={0.3} />
               <XAxis
                 dataKey="period"
                 tickFormatter={formatAxisLabel}
-                stroke="#64748b"
+                stroke={chartPalette.axis}
                 fontSize={10}
                 fontWeight={500}
                 interval="preserveStartEnd"
@@ -364,23 +369,23 @@ export default function IncomeVsExpensesChart() {
                 height={60}
               />
               <YAxis
-                stroke="#64748b"
+                stroke={chartPalette.axis}
                 fontSize={10}
                 fontWeight={500}
-                tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                tickFormatter={(value) => formatCompactCurrency(value)}
                 width={40}
               />
               <Tooltip content={<CustomTooltip />} />
               <Legend wrapperStyle={{ paddingTop: '10px', fontSize: '12px' }} iconSize={8} />
               <Bar
                 dataKey="income"
-                fill="#10b981"
+                fill={chartPalette.income}
                 name="Income"
                 radius={[2, 2, 0, 0]}
               />
               <Bar
                 dataKey="expenses"
-                fill="#ef4444"
+                fill={chartPalette.expense}
                 name="Expenses"
                 radius={[2, 2, 0, 0]}
               />
@@ -391,29 +396,29 @@ export default function IncomeVsExpensesChart() {
 
       {/* Compact Period Summary */}
       {chartData.length > 1 && (
-        <div className="pt-3 border-t border-secondary-200">
+        <div className="pt-3 border-t border-secondary-200 dark:border-secondary-700">
           <div className="flex items-center justify-between mb-3">
-            <h4 className="font-semibold text-secondary-900 text-sm">Recent Periods</h4>
-            <span className="text-xs text-secondary-600">{chartData.length} periods</span>
+            <h4 className="font-semibold text-secondary-900 dark:text-secondary-100 text-sm">Recent Periods</h4>
+            <span className="text-xs text-secondary-600 dark:text-secondary-400">{chartData.length} periods</span>
           </div>
           <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
             {chartData.slice(-6).map((entry, index) => {
               const periodLabel = formatPeriodLabel(entry.period)
               return (
-                <div key={index} className="bg-secondary-50 rounded-lg p-2 hover:bg-secondary-100 transition-colors">
+                <div key={index} className="bg-secondary-50 dark:bg-secondary-900/50 rounded-lg p-2 hover:bg-secondary-100 dark:hover:bg-secondary-700 transition-colors">
                   <div className="flex items-center justify-between mb-1">
-                    <span className="font-semibold text-secondary-900 text-xs">{periodLabel}</span>
+                    <span className="font-semibold text-secondary-900 dark:text-secondary-100 text-xs">{periodLabel}</span>
                     <span className={`text-xs font-bold px-1 py-0.5 rounded ${
                       entry.net >= 0
-                        ? 'bg-success-100 text-success-700'
-                        : 'bg-danger-100 text-danger-700'
+                        ? 'bg-success-100 dark:bg-success-900/30 text-success-700 dark:text-success-300'
+                        : 'bg-danger-100 dark:bg-danger-900/30 text-danger-700 dark:text-danger-300'
                     }`}>
-                      ${entry.net.toFixed(0)}
+                      {formatCurrency(entry.net, { decimals: 0 })}
                     </span>
                   </div>
                   <div className="flex items-center justify-between text-xs">
-                    <span className="text-success-600">+${entry.income.toFixed(0)}</span>
-                    <span className="text-danger-600">-${entry.expenses.toFixed(0)}</span>
+                    <span className="text-success-600">+{formatCurrency(entry.income, { decimals: 0 })}</span>
+                    <span className="text-danger-600">-{formatCurrency(entry.expenses, { decimals: 0 })}</span>
                   </div>
                 </div>
               )
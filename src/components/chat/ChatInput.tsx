@@ -30,7 +30,7 @@ export default function ChatInput({ onSendMessage, isLoading = false }: ChatInpu
   }
 
   return (
-    <div className="border-t border-white/20 bg-white/90 backdrop-blur-sm p-6">
+    <div className="border-t border-white/20 dark:border-secondary-700/50 bg-white/90 dark:bg-secondary-800/90 backdrop-blur-sm p-6">
       <form onSubmit={handleSubmit} className="flex gap-4">
         <div className="flex-1">
           <textarea
@@ -38,7 +38,7 @@ export default function ChatInput({ onSendMessage, isLoading = false }: ChatInpu
             onChange={(e) => setMessage(e.target.value)}
             onKeyPress={handleKeyPress}
             placeholder="Ask me anything about your finances..."
-            className="w-full px-6 py-4 bg-white border border-secondary-200 rounded-2xl focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none text-base font-medium placeholder-secondary-400 shadow-soft"
+            className="w-full px-6 py-4 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-2xl focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none text-base font-medium placeholder-secondary-400 shadow-soft"
             rows={1}
             style={{
               minHeight: '56px',
@@ -66,8 +66,8 @@ export default function ChatInput({ onSendMessage, isLoading = false }: ChatInpu
         </button>
       </form>
 
-      <div className="mt-4 text-sm text-secondary-500 text-center font-medium">
-        Press <kbd className="px-2 py-1 bg-secondary-100 rounded text-xs font-bold">Enter</kbd> to send, <kbd className="px-2 py-1 bg-secondary-100 rounded text-xs font-bold">Shift+Enter</kbd> for new line
+      <div className="mt-4 text-sm text-secondary-500 dark:text-secondary-400 text-center font-medium">
+        Press <kbd className="px-2 py-1 bg-secondary-100 dark:bg-secondary-700 rounded text-xs font-bold">Enter</kbd> to send, <kbd className="px-2 py-1 bg-secondary-100 dark:bg-secondary-700 rounded text-xs font-bold">Shift+Enter</kbd> for new line
       </div>
     </div>
   )
@@ -33,14 +33,14 @@ export default function ChatMessage({ message }: ChatMessageProps) {
         "max-w-[75%] rounded-3xl px-6 py-4 shadow-soft",
         isUser
           ? "bg-gradient-to-br from-primary-500 to-primary-600 text-white"
-          : "bg-white/90 backdrop-blur-sm text-secondary-900 border border-white/20"
+          : "bg-white/90 dark:bg-secondary-800/90 backdrop-blur-sm text-secondary-900 dark:text-secondary-100 border border-white/20 dark:border-secondary-700/50"
       )}>
         <p className="text-base leading-relaxed whitespace-pre-wrap font-medium">
           {message.content}
         </p>
         <p className={cn(
           "text-xs mt-3 font-semibold",
-          isUser ? "text-primary-100" : "text-secondary-500"
+          isUser ? "text-primary-100" : "text-secondary-500 dark:text-secondary-400"
         )}>
           {message.timestamp.toLocaleTimeString([], {
             hour: '2-digit',
@@ -52,7 +52,7 @@ export default function ChatMessage({ message }: ChatMessageProps) {
       {isUser && (
         <div className="relative">
           <div className="w-10 h-10 bg-gradient-to-br from-secondary-200 to-secondary-300 rounded-2xl flex items-center justify-center flex-shrink-0 shadow-soft">
-            <User className="w-5 h-5 text-secondary-700" />
+            <User className="w-5 h-5 text-secondary-700 dark:text-secondary-300" />
           </div>
           <div className="absolute -inset-1 bg-gradient-to-r from-secondary-300/30 to-secondary-400/30 rounded-2xl opacity-50 -z-10 blur-sm" />
         </div>
@@ -36,11 +36,11 @@ export default function ChatWelcome({ onSuggestedQuestion }: ChatWelcomeProps) {
         <Bot className="w-8 h-8 text-white" />
       </div>
       
-      <h2 className="text-2xl font-bold text-gray-900 mb-2">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-2">
         Welcome to your AI Financial Assistant
       </h2>
       
-      <p className="text-gray-600 mb-8 max-w-md">
+      <p className="text-gray-600 dark:text-secondary-400 mb-8 max-w-md">
         I'm here to help you understand your finances, track your spending, and provide personalized insights. Ask me anything!
       </p>
 
@@ -49,17 +49,17 @@ export default function ChatWelcome({ onSuggestedQuestion }: ChatWelcomeProps) {
           <button
             key={index}
             onClick={() => onSuggestedQuestion(item.question)}
-            className="p-4 bg-white border border-gray-200 rounded-xl hover:border-primary-300 hover:shadow-md transition-all text-left group"
+            className="p-4 bg-white dark:bg-secondary-800 border border-gray-200 dark:border-secondary-700 rounded-xl hover:border-primary-300 hover:shadow-md transition-all text-left group"
           >
             <div className="flex items-start space-x-3">
-              <div className="w-10 h-10 bg-primary-50 rounded-lg flex items-center justify-center text-primary-500 group-hover:bg-primary-100 transition-colors">
+              <div className="w-10 h-10 bg-primary-50 dark:bg-primary-900/20 rounded-lg flex items-center justify-center text-primary-500 group-hover:bg-primary-100 transition-colors">
                 {item.icon}
               </div>
               <div className="flex-1">
-                <p className="text-sm font-medium text-gray-900 mb-1">
+                <p className="text-sm font-medium text-gray-900 dark:text-secondary-100 mb-1">
                   {item.question}
                 </p>
-                <p className="text-xs text-gray-500">
+                <p className="text-xs text-gray-500 dark:text-secondary-400">
                   {item.category}
                 </p>
               </div>
@@ -68,7 +68,7 @@ export default function ChatWelcome({ onSuggestedQuestion }: ChatWelcomeProps) {
         ))}
       </div>
 
-      <div className="mt-8 text-sm text-gray-500">
+      <div className="mt-8 text-sm text-gray-500 dark:text-secondary-400">
         You can also type your own questions in the chat box below
       </div>
     </div>
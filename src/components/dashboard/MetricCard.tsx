@@ -20,7 +20,7 @@ export default function MetricCard({
   trend
 }: MetricCardProps) {
   return (
-    <div className="group relative bg-white/80 backdrop-blur-sm border border-white/20 rounded-2xl p-6 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in">
+    <div className="group relative bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm border border-white/20 dark:border-secondary-700/50 rounded-2xl p-6 shadow-soft hover:shadow-large transition-all duration-300 card-hover animate-in">
       {/* Gradient overlay */}
       <div className="absolute inset-0 bg-gradient-to-br from-white/50 to-transparent rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
 
@@ -33,16 +33,16 @@ export default function MetricCard({
             {icon}
           </div>
           {trend && (
-            <div className="px-3 py-1 bg-secondary-50 rounded-full">
-              <span className="text-xs text-secondary-600 font-semibold">{trend}</span>
+            <div className="px-3 py-1 bg-secondary-50 dark:bg-secondary-900/50 rounded-full">
+              <span className="text-xs text-secondary-600 dark:text-secondary-400 font-semibold">{trend}</span>
             </div>
           )}
         </div>
 
         <div className="space-y-2">
-          <p className="text-sm font-semibold text-secondary-600 uppercase tracking-wide">{title}</p>
-          <p className="text-3xl font-bold text-secondary-900 leading-none">{value}</p>
-          <p className="text-sm text-secondary-500 font-medium">{subtitle}</p>
+          <p className="text-sm font-semibold text-secondary-600 dark:text-secondary-400 uppercase tracking-wide">{title}</p>
+          <p className="text-3xl font-bold text-secondary-900 dark:text-secondary-100 leading-none">{value}</p>
+          <p className="text-sm text-secondary-500 dark:text-secondary-400 font-medium">{subtitle}</p>
         </div>
       </div>
 
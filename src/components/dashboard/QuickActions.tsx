@@ -13,7 +13,7 @@ interface QuickActionProps {
 
 function QuickActionButton({ icon, label, color, onClick }: QuickActionProps) {
   return (
-    <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-white/20 shadow-soft hover:shadow-medium transition-all duration-300 card-hover animate-in">
+    <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-secondary-700/50 shadow-soft hover:shadow-medium transition-all duration-300 card-hover animate-in">
       <button
         type="button"
         onClick={onClick}
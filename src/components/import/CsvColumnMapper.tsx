@@ -0,0 +1,402 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Table, AlertCircle, Sparkles, Trash2 } from 'lucide-react'
+import { BankProfile, Category, CsvColumnMapping } from '@/types'
+import { cn } from '@/lib/utils'
+import { formatCurrency } from '@/lib/formatting'
+import { CSV_DELIMITERS, getHeaderFingerprint, guessColumnMapping, matchesMapping, parseCSV, parseMappedCSV } from '@/lib/csvMapping'
+import CategoryOptions from '@/components/ui/CategoryOptions'
+
+interface CsvColumnMapperProps {
+  fileName: string
+  content: string
+  profiles: BankProfile[]
+  categories: Category[]
+  onConfirm: (mapping: CsvColumnMapping, categoryMapping: Record<string, string>, profileName?: string) => void
+  onUseAI: () => void
+  onCancel: () => void
+  onDeleteProfile?: (id: string) => Promise<void>
+}
+
+type ColumnRole = 'ignore' | 'date' | 'description' | 'amount' | 'debit' | 'credit' | 'balance' | 'category'
+
+// Mapping fields that hold a column number
+type ColumnField = Extract<keyof CsvColumnMapping, `${string}Column`>
+
+const COLUMN_ROLES: Array<{ value: ColumnRole; label: string; field?: ColumnField }> = [
+  { value: 'ignore', label: 'Ignore' },
+  { value: 'date', label: 'Date', field: 'dateColumn' },
+  { value: 'description', label: 'Description', field: 'descriptionColumn' },
+  { value: 'amount', label: 'Amount (signed)', field: 'amountColumn' },
+  { value: 'debit', label: 'Debit (money out)', field: 'debitColumn' },
+  { value: 'credit', label: 'Credit (money in)', field: 'creditColumn' },
+  { value: 'balance', label: 'Balance', field: 'balanceColumn' },
+  { value: 'category', label: 'Category', field: 'categoryColumn' }
+]
+
+// Rows shown in the preview tables
+const PREVIEW_ROWS = 5
+
+// Bank category values offered for mapping
+const MAX_BANK_CATEGORIES = 30
+
+// The date and description columns are required; this marks them as not chosen
+const UNSET_COLUMN = -1
+
+const getColumnRole = (mapping: CsvColumnMapping, column: number): ColumnRole =>
+  COLUMN_ROLES.find(role => role.field && mapping[role.field] === column)?.value || 'ignore'
+
+// Give a column a role, taking that role from any other column. A signed amount and debit/credit columns exclude each other.
+const setColumnRole = (mapping: CsvColumnMapping, column: number, role: ColumnRole): CsvColumnMapping => {
+  const updated: CsvColumnMapping = { ...mapping }
+  COLUMN_ROLES.forEach(({ field }) => {
+    if (!field || updated[field] !== column) return
+    if (field === 'dateColumn' || field === 'descriptionColumn') {
+      updated[field] = UNSET_COLUMN
+    } else {
+      updated[field] = undefined
+    }
+  })
+
+  const field = COLUMN_ROLES.find(r => r.value === role)?.field
+  if (field) updated[field] = column
+  if (role === 'amount') {
+    updated.debitColumn = undefined
+    updated.creditColumn = undefined
+  } else if (role === 'debit' || role === 'credit') {
+    updated.amountColumn = undefined
+  }
+  return updated
+}
+
+export default function CsvColumnMapper({
+  fileName,
+  content,
+  profiles,
+  categories,
+  onConfirm,
+  onUseAI,
+  onCancel,
+  onDeleteProfile
+}: CsvColumnMapperProps) {
+  // A saved profile for these columns is picked automatically, only on first render;
+  // picking another profile is up to the user afterwards
+  const [matchedProfile] = useState(() => profiles.find(profile => matchesMapping(content, profile.mapping)))
+  const [profileId, setProfileId] = useState(matchedProfile?.id || '')
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => matchedProfile?.mapping || guessColumnMapping(content))
+  const [categoryMapping, setCategoryMapping] = useState<Record<string, string>>(matchedProfile?.categoryMapping || {})
+  const [saveProfile, setSaveProfile] = useState(!matchedProfile)
+  const [profileName, setProfileName] = useState(matchedProfile?.name || '')
+
+  const rows = useMemo(() => parseCSV(content, mapping.delimiter), [content, mapping.delimiter])
+  const headers = mapping.hasHeader ? rows[0] || [] : []
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows
+  const columnCount = Math.max(0, ...rows.slice(0, PREVIEW_ROWS + 1).map(row => row.length))
+
+  // The fingerprint follows the delimiter and header settings
+  const currentMapping = useMemo<CsvColumnMapping>(
+    () => ({ ...mapping, headerFingerprint: getHeaderFingerprint(rows, mapping.hasHeader) }),
+    [mapping, rows]
+  )
+  const preview = useMemo(
+    () => parseMappedCSV(content, currentMapping, categoryMapping),
+    [content, currentMapping, categoryMapping]
+  )
+
+  const bankCategories = mapping.categoryColumn !== undefined
+    ? Array.from(new Set(dataRows.map(row => row[mapping.categoryColumn as number] || '').filter(Boolean))).sort().slice(0, MAX_BANK_CATEGORIES)
+    : []
+
+  const hasAmount = mapping.amountColumn !== undefined || mapping.debitColumn !== undefined || mapping.creditColumn !== undefined
+  const isChosen = (column: number) => column !== UNSET_COLUMN && column < columnCount
+  const isComplete = isChosen(mapping.dateColumn) && isChosen(mapping.descriptionColumn) && hasAmount
+  const canConfirm = isComplete && preview.transactions.length > 0 && (!saveProfile || profileName.trim() !== '')
+
+  const selectProfile = (id: string) => {
+    setProfileId(id)
+    const profile = profiles.find(p => p.id === id)
+    if (profile) {
+      setMapping(profile.mapping)
+      setCategoryMapping(profile.categoryMapping)
+      setProfileName(profile.name)
+      setSaveProfile(false)
+    } else {
+      setMapping(guessColumnMapping(content))
+      setCategoryMapping({})
+      setProfileName('')
+      setSaveProfile(true)
+    }
+  }
+
+  const handleDeleteProfile = async () => {
+    if (!profileId || !onDeleteProfile) return
+    const profile = profiles.find(p => p.id === profileId)
+    if (!window.confirm(`Delete the "${profile?.name}" bank profile?`)) return
+
+    try {
+      await onDeleteProfile(profileId)
+      selectProfile('')
+    } catch (error) {
+      console.error('CsvColumnMapper: Error deleting bank profile:', error)
+    }
+  }
+
+  const handleConfirm = () => {
+    onConfirm(currentMapping, categoryMapping, saveProfile ? profileName.trim() : undefined)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3">
+        <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900/30 rounded-lg flex items-center justify-center">
+          <Table className="w-5 h-5 text-blue-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100">Map CSV Columns</h3>
+          <p className="text-sm text-gray-600 dark:text-secondary-400">
+            {fileName} is read with this mapping, without AI. Other CSV files with the same columns use it too.
+          </p>
+        </div>
+      </div>
+
+      {/* Bank profile and file settings */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 p-4 bg-gray-50 dark:bg-secondary-900/50 rounded-lg">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-secondary-300 mb-1">Bank profile</label>
+          <div className="flex items-center space-x-1">
+            <select
+              value={profileId}
+              onChange={(e) => selectProfile(e.target.value)}
+              className="w-full text-xs border border-gray-300 dark:border-secondary-600 rounded px-2 py-1"
+            >
+              <option value="">New mapping</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}{profile.id === matchedProfile?.id ? ' (matches this file)' : ''}
+                </option>
+              ))}
+            </select>
+            {profileId && onDeleteProfile && (
+              <button
+                type="button"
+                onClick={handleDeleteProfile}
+                className="p-1 text-gray-400 dark:text-secondary-500 hover:text-red-600"
+                title="Delete bank profile"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-secondary-300 mb-1">Delimiter</label>
+          <select
+            value={mapping.delimiter}
+            onChange={(e) => setMapping(prev => ({ ...prev, delimiter: e.target.value }))}
+            className="w-full text-xs border border-gray-300 dark:border-secondary-600 rounded px-2 py-1"
+          >
+            {CSV_DELIMITERS.map(({ value, label }) => (
+              <option key={label} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-secondary-300 mb-1">Date Format</label>
+          <select
+            value={mapping.dateFormat}
+            onChange={(e) => setMapping(prev => ({ ...prev, dateFormat: e.target.value as CsvColumnMapping['dateFormat'] }))}
+            className="w-full text-xs border border-gray-300 dark:border-secondary-600 rounded px-2 py-1"
+          >
+            <option value="auto">Auto-detect</option>
+            <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+            <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+            <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="csvHasHeader"
+              checked={mapping.hasHeader}
+              onChange={(e) => setMapping(prev => ({ ...prev, hasHeader: e.target.checked }))}
+              className="mr-2"
+            />
+            <label htmlFor="csvHasHeader" className="text-xs font-medium text-gray-700 dark:text-secondary-300">First row is a header</label>
+          </div>
+          {mapping.amountColumn !== undefined && (
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="csvNegateAmounts"
+                checked={mapping.negateAmounts || false}
+                onChange={(e) => setMapping(prev => ({ ...prev, negateAmounts: e.target.checked }))}
+                className="mr-2"
+              />
+              <label htmlFor="csvNegateAmounts" className="text-xs font-medium text-gray-700 dark:text-secondary-300">Spending is positive</label>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Column roles over the first rows of the file */}
+      <div className="overflow-x-auto border border-gray-200 dark:border-secondary-700 rounded-lg">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50 dark:bg-secondary-900/50">
+            <tr>
+              {Array.from({ length: columnCount }, (_, column) => (
+                <th key={column} className="px-2 py-2 text-left align-top">
+                  <select
+                    value={getColumnRole(mapping, column)}
+                    onChange={(e) => setMapping(prev => setColumnRole(prev, column, e.target.value as ColumnRole))}
+                    className={cn(
+                      "w-full text-xs border rounded px-1 py-1",
+                      getColumnRole(mapping, column) === 'ignore' ? "border-gray-200 dark:border-secondary-700 text-gray-500 dark:text-secondary-400" : "border-blue-300 text-blue-700 dark:text-blue-300"
+                    )}
+                  >
+                    {COLUMN_ROLES.map(role => (
+                      <option key={role.value} value={role.value}>{role.label}</option>
+                    ))}
+                  </select>
+                  {headers[column] && <div className="mt-1 font-medium text-gray-700 dark:text-secondary-300">{headers[column]}</div>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-secondary-700">
+            {dataRows.slice(0, PREVIEW_ROWS).map((row, index) => (
+              <tr key={index}>
+                {Array.from({ length: columnCount }, (_, column) => (
+                  <td key={column} className="px-2 py-1 text-gray-600 dark:text-secondary-400 whitespace-nowrap">{row[column]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {!isComplete && (
+        <p className="text-sm text-yellow-700 dark:text-yellow-300">
+          Pick a date, a description, and either a signed amount or debit/credit columns.
+        </p>
+      )}
+
+      {/* Bank categories translated to the user's categories */}
+      {bankCategories.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-secondary-100 mb-2">Categories</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {bankCategories.map(bankCategory => (
+              <div key={bankCategory} className="flex items-center space-x-2 text-xs">
+                <span className="w-1/2 truncate text-gray-700 dark:text-secondary-300" title={bankCategory}>{bankCategory}</span>
+                <select
+                  value={categoryMapping[bankCategory] || ''}
+                  onChange={(e) => setCategoryMapping(prev => {
+                    const { [bankCategory]: _previous, ...rest } = prev
+                    return e.target.value ? { ...rest, [bankCategory]: e.target.value } : rest
+                  })}
+                  className="w-1/2 border border-gray-300 dark:border-secondary-600 rounded px-2 py-1"
+                >
+                  <option value="">Keep as is</option>
+                  <CategoryOptions categories={categories} />
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* What the mapping reads */}
+      {isComplete && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-secondary-100 mb-2">
+            Preview ({preview.transactions.length} transactions)
+          </h4>
+          <div className="space-y-1">
+            {preview.transactions.slice(0, PREVIEW_ROWS).map((line, index) => (
+              <div key={index} className="grid grid-cols-4 gap-4 text-xs p-2 bg-gray-50 dark:bg-secondary-900/50 rounded">
+                <span className="text-gray-900 dark:text-secondary-100">{line.date}</span>
+                <span className="text-gray-900 dark:text-secondary-100 truncate">{line.description}</span>
+                <span className="text-gray-500 dark:text-secondary-400">{line.category || 'Uncategorized'}</span>
+                <span className={line.type === 'income' ? 'text-green-600' : 'text-red-600'}>
+                  {line.type === 'income' ? '+' : '-'}{formatCurrency(line.amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+          {(preview.errors.length > 0 || preview.warnings.length > 0) && (
+            <ul className="mt-2 text-xs space-y-1">
+              {preview.errors.slice(0, PREVIEW_ROWS).map((error, index) => (
+                <li key={`error-${index}`} className="flex items-center space-x-1 text-red-700 dark:text-red-300">
+                  <AlertCircle className="w-3 h-3" />
+                  <span>{error}</span>
+                </li>
+              ))}
+              {preview.errors.length > PREVIEW_ROWS && (
+                <li className="text-red-700 dark:text-red-300">…and {preview.errors.length - PREVIEW_ROWS} more rows that couldn&apos;t be read</li>
+              )}
+              {preview.warnings.map((warning, index) => (
+                <li key={`warning-${index}`} className="flex items-center space-x-1 text-yellow-700 dark:text-yellow-300">
+                  <AlertCircle className="w-3 h-3" />
+                  <span>{warning}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Save as bank profile */}
+      <div className="flex flex-col md:flex-row md:items-center gap-2">
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="saveBankProfile"
+            checked={saveProfile}
+            onChange={(e) => setSaveProfile(e.target.checked)}
+            className="mr-2"
+          />
+          <label htmlFor="saveBankProfile" className="text-sm text-gray-700 dark:text-secondary-300">
+            Save as a bank profile
+          </label>
+        </div>
+        {saveProfile && (
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="e.g. Chase Checking"
+            className="flex-1 text-sm border border-gray-300 dark:border-secondary-600 rounded-lg px-3 py-1"
+          />
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={!canConfirm}
+          className="flex-1 px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Import with this mapping
+        </button>
+        <button
+          type="button"
+          onClick={onUseAI}
+          className="px-4 py-2 border border-gray-300 dark:border-secondary-600 text-gray-700 dark:text-secondary-300 rounded-lg hover:bg-gray-50 dark:hover:bg-secondary-700 transition-colors flex items-center justify-center space-x-2"
+        >
+          <Sparkles className="w-4 h-4" />
+          <span>Parse with AI instead</span>
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-600 dark:text-secondary-400 hover:text-gray-800 dark:hover:text-secondary-100 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -3,14 +3,37 @@
 import { useState, useRef } from 'react'
 import { Upload, FileText, Sparkles, AlertCircle, CheckCircle, X, Download } from 'lucide-react'
 import { aiImportService } from '@/services/aiImportService'
-import { ImportResult, ImportOptions } from '@/types'
+import { isCSVFile } from '@/lib/csvMapping'
+import { Account, BankProfile, CategorizationRule, Category, CategoryCorrection, CsvColumnMapping, ImportResult, ImportOptions, ImportProgress } from '@/types'
+import CsvColumnMapper from './CsvColumnMapper'
+import { cn } from '@/lib/utils'
+import { CURRENCIES } from '@/lib/formatting'
+import { usePreferences } from '@/contexts/PreferencesContext'
 
 interface ImportDataProps {
   onImportComplete?: (result: ImportResult) => void
   onClose?: () => void
+  accounts?: Account[]
+  categories?: Category[]
+  rules?: CategorizationRule[]
+  corrections?: CategoryCorrection[]
+  bankProfiles?: BankProfile[]
+  onSaveBankProfile?: (profile: Omit<BankProfile, 'id' | 'headerFingerprint' | 'createdAt' | 'updatedAt'>) => Promise<void>
+  onDeleteBankProfile?: (id: string) => Promise<void>
 }
 
-export default function ImportData({ onImportComplete, onClose }: ImportDataProps) {
+export default function ImportData({
+  onImportComplete,
+  onClose,
+  accounts = [],
+  categories = [],
+  rules = [],
+  corrections = [],
+  bankProfiles = [],
+  onSaveBankProfile,
+  onDeleteBankProfile
+}: ImportDataProps) {
+  const { preferences } = usePreferences()
   const [dragActive, setDragActive] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
   const [result, setResult] = useState<ImportResult | null>(null)
@@ -19,11 +42,30 @@ export default function ImportData({ onImportComplete, onClose }: ImportDataProp
   const [options, setOptions] = useState<ImportOptions>({
     skipDuplicates: true,
     dateFormat: 'auto',
-    currency: 'USD',
     confidenceThreshold: 0.7
   })
+  // Files waiting on the column mapping step, which is shown for the first CSV among them
+  const [pendingCsv, setPendingCsv] = useState<{ files: File[]; fileName: string; content: string } | null>(null)
+  // Chunk progress of large files, by file name
+  const [progress, setProgress] = useState<Record<string, ImportProgress['chunks']>>({})
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  const handleProgress = (update: ImportProgress) => {
+    setProgress(prev => ({ ...prev, [update.fileName]: update.chunks }))
+  }
+
+  // Post to the first account unless another one was picked, in that account's currency unless
+  // another one was picked, and categorize with the user's rules, categories and earlier review choices
+  const accountId = options.accountId || accounts[0]?.id
+  const importOptions: ImportOptions = {
+    ...options,
+    accountId,
+    currency: options.currency || accounts.find(a => a.id === accountId)?.currency || preferences.currency,
+    categories: categories.map(c => c.name),
+    rules,
+    corrections
+  }
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault()
     e.stopPropagation()
@@ -51,12 +93,56 @@ export default function ImportData({ onImportComplete, onClose }: ImportDataProp
   const handleFiles = async (files: File[]) => {
     if (files.length === 0) return
 
+    // CSV files are mapped to columns first, so they can be read without the AI
+    const csvFile = files.find(file => isCSVFile(file.name))
+    if (csvFile) {
+      setResult(null)
+      setPendingCsv({ files, fileName: csvFile.name, content: await csvFile.text() })
+      return
+    }
+
+    await processFiles(files, importOptions)
+  }
+
+  const handleMappingConfirm = async (mapping: CsvColumnMapping, categoryMapping: Record<string, string>, profileName?: string) => {
+    if (!pendingCsv) return
+    const { files } = pendingCsv
+    setPendingCsv(null)
+
+    if (profileName && onSaveBankProfile) {
+      try {
+        await onSaveBankProfile({ name: profileName, mapping, categoryMapping })
+      } catch (error) {
+        // The mapping still applies to this import
+        console.warn('ImportData: Failed to save bank profile:', error)
+      }
+    }
+
+    await processFiles(files, { ...importOptions, csvMapping: mapping, categoryMapping })
+  }
+
+  const handleMappingSkip = async () => {
+    if (!pendingCsv) return
+    const { files } = pendingCsv
+    setPendingCsv(null)
+    await processFiles(files, importOptions)
+  }
+
+  const handleMappingCancel = () => {
+    setPendingCsv(null)
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }
+
+  const processFiles = async (files: File[], processOptions: ImportOptions) => {
     setIsProcessing(true)
     setResult(null)
+    setProgress({})
 
     try {
-      console.log('ImportData: Processing files with AI:', files.map(f => f.name))
-      const importResult = await aiImportService.processFiles(files, options)
+      console.log('ImportData: Processing files:', files.map(f => f.name))
+      const importResult = await aiImportService.processFiles(files, processOptions, handleProgress)
       console.log('ImportData: AI Import result:', importResult)
       
       setResult(importResult)
@@ -96,10 +182,11 @@ export default function ImportData({ onImportComplete, onClose }: ImportDataProp
 
     setIsProcessing(true)
     setResult(null)
+    setProgress({})
 
     try {
       console.log('ImportData: Processing text input with AI')
-      const importResult = await aiImportService.processText(textInput, options)
+      const importResult = await aiImportService.processText(textInput, importOptions, handleProgress)
       console.log('ImportData: AI Text import result:', importResult)
       
       setResult(importResult)
@@ -164,7 +251,7 @@ export default function ImportData({ onImportComplete, onClose }: ImportDataProp
   }
 
   return (
-    <div className="bg-white rounded-2xl border border-white/20 shadow-soft p-6">
+    <div className="bg-white dark:bg-secondary-800 rounded-2xl border border-white/20 dark:border-secondary-700/50 shadow-soft p-6">
       {/* Header */}
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center space-x-3">
@@ -172,30 +259,46 @@ export default function ImportData({ onImportComplete, onClose }: ImportDataProp
             <Sparkles className="w-6 h-6 text-white" />
           </div>
           <div>
-            <h2 className="text-xl font-bold text-secondary-900">AI-Powered Data Import</h2>
-            <p className="text-secondary-600">Upload files or paste data - AI will intelligently parse your transactions</p>
+            <h2 className="text-xl font-bold text-secondary-900 dark:text-secondary-100">AI-Powered Data Import</h2>
+            <p className="text-secondary-600 dark:text-secondary-400">Upload files or paste data - AI will intelligently parse your transactions</p>
           </div>
         </div>
         {onClose && (
           <button
             onClick={onClose}
-            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            className="p-2 hover:bg-gray-100 dark:hover:bg-secondary-700 rounded-lg transition-colors"
           >
-            <X className="w-5 h-5 text-gray-500" />
+            <X className="w-5 h-5 text-gray-500 dark:text-secondary-400" />
           </button>
         )}
       </div>
 
       {/* Import Options */}
-      <div className="mb-6 p-4 bg-gray-50 rounded-lg">
-        <h3 className="text-sm font-semibold text-gray-900 mb-3">Import Options</h3>
+      <div className="mb-6 p-4 bg-gray-50 dark:bg-secondary-900/50 rounded-lg">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-secondary-100 mb-3">Import Options</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {accounts.length > 0 && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-secondary-300 mb-1">Account</label>
+              <select
+                value={importOptions.accountId}
+                onChange={(e) => setOptions(prev => ({ ...prev, accountId: e.target.value }))}
+                className="w-full text-xs border border-gray-300 dark:border-secondary-600 rounded px-2 py-1"
+              >
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           <div>
-            <label className="block text-xs font-medium text-gray-700 mb-1">Date Format</label>
+            <label className="block text-xs font-medium text-gray-700 dark:text-secondary-300 mb-1">Date Format</label>
             <select
               value={options.dateFormat}
               onChange={(e) => setOptions(prev => ({ ...prev, dateFormat: e.target.value as any }))}
-              className="w-full text-xs border border-gray-300 rounded px-2 py-1"
+              className="w-full text-xs border border-gray-300 dark:border-secondary-600 rounded px-2 py-1"
             >
               <option value="auto">Auto-detect</option>
               <option value="MM/DD/YYYY">MM/DD/YYYY</option>
@@ -204,23 +307,23 @@ export default function ImportData({ onImportComplete, onClose }: ImportDataProp
             </select>
           </div>
           <div>
-            <label className="block text-xs font-medium text-gray-700 mb-1">Currency</label>
+            <label className="block text-xs font-medium text-gray-700 dark:text-secondary-300 mb-1">Currency</label>
             <select
-              value={options.currency}
+              value={importOptions.currency}
               onChange={(e) => setOptions(prev => ({ ...prev, currency: e.target.value }))}
-              className="w-full text-xs border border-gray-300 rounded px-2 py-1"
+              className="w-full text-xs border border-gray-300 dark:border-secondary-600 rounded px-2 py-1"
             >
-              <option value="USD">USD ($)</option>
-              <option value="EUR">EUR (€)</option>
-              <option value="GBP">GBP (£)</option>
+              {CURRENCIES.map(currency => (
+                <option key={currency.value} value={currency.value}>{currency.value}</option>
+              ))}
             </select>
           </div>
           <div>
-            <label className="block text-xs font-medium text-gray-700 mb-1">Confidence</label>
+            <label className="block text-xs font-medium text-gray-700 dark:text-secondary-300 mb-1">Confidence</label>
             <select
               value={options.confidenceThreshold}
               onChange={(e) => setOptions(prev => ({ ...prev, confidenceThreshold: parseFloat(e.target.value) }))}
-              className="w-full text-xs border border-gray-300 rounded px-2 py-1"
+              className="w-full text-xs border border-gray-300 dark:border-secondary-600 rounded px-2 py-1"
             >
               <option value={0.5}>Low (50%)</option>
               <option value={0.7}>Medium (70%)</option>
@@ -235,20 +338,20 @@ export default function ImportData({ onImportComplete, onClose }: ImportDataProp
               onChange={(e) => setOptions(prev => ({ ...prev, skipDuplicates: e.target.checked }))}
               className="mr-2"
             />
-            <label htmlFor="skipDuplicates" className="text-xs font-medium text-gray-700">Skip duplicates</label>
+            <label htmlFor="skipDuplicates" className="text-xs font-medium text-gray-700 dark:text-secondary-300">Skip duplicates</label>
           </div>
         </div>
       </div>
 
       {/* Tab Navigation */}
-      <div className="flex space-x-1 mb-6 bg-gray-100 rounded-lg p-1">
+      <div className="flex space-x-1 mb-6 bg-gray-100 dark:bg-secondary-700 rounded-lg p-1">
         <button
           type="button"
           onClick={() => setActiveTab('file')}
           className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
             activeTab === 'file'
-              ? 'bg-white text-secondary-900 shadow-sm'
-              : 'text-secondary-600 hover:text-secondary-900'
+              ? 'bg-white dark:bg-secondary-800 text-secondary-900 dark:text-secondary-100 shadow-sm'
+              : 'text-secondary-600 dark:text-secondary-400 hover:text-secondary-900 dark:hover:text-secondary-100'
           }`}
         >
           <Upload className="w-4 h-4 inline mr-2" />
@@ -259,8 +362,8 @@ export default function ImportData({ onImportComplete, onClose }: ImportDataProp
           onClick={() => setActiveTab('text')}
           className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
             activeTab === 'text'
-              ? 'bg-white text-secondary-900 shadow-sm'
-              : 'text-secondary-600 hover:text-secondary-900'
+              ? 'bg-white dark:bg-secondary-800 text-secondary-900 dark:text-secondary-100 shadow-sm'
+              : 'text-secondary-600 dark:text-secondary-400 hover:text-secondary-900 dark:hover:text-secondary-100'
           }`}
         >
           <FileText className="w-4 h-4 inline mr-2" />
@@ -268,27 +371,41 @@ export default function ImportData({ onImportComplete, onClose }: ImportDataProp
         </button>
       </div>
 
+      {/* CSV Column Mapping */}
+      {activeTab === 'file' && pendingCsv && (
+        <CsvColumnMapper
+          fileName={pendingCsv.fileName}
+          content={pendingCsv.content}
+          profiles={bankProfiles}
+          categories={categories}
+          onConfirm={handleMappingConfirm}
+          onUseAI={handleMappingSkip}
+          onCancel={handleMappingCancel}
+          onDeleteProfile={onDeleteBankProfile}
+        />
+      )}
+
       {/* File Upload Tab */}
-      {activeTab === 'file' && (
+      {activeTab === 'file' && !pendingCsv && (
         <div className="space-y-4">
           {/* Drag & Drop Area */}
           <div
             className={`border-2 border-dashed rounded-xl p-8 text-center transition-colors ${
               dragActive
-                ? 'border-blue-500 bg-blue-50'
-                : 'border-gray-300 hover:border-gray-400'
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                : 'border-gray-300 dark:border-secondary-600 hover:border-gray-400'
             }`}
             onDragEnter={handleDrag}
             onDragLeave={handleDrag}
             onDragOver={handleDrag}
             onDrop={handleDrop}
           >
-            <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            <Upload className="w-12 h-12 text-gray-400 dark:text-secondary-500 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100 mb-2">
               Drop files here or click to browse
             </h3>
-            <p className="text-gray-600 mb-4">
-              Supports CSV, TXT, PDF, and Image files (max 10MB each)<br />
+            <p className="text-gray-600 dark:text-secondary-400 mb-4">
+              Supports CSV, TXT, PDF, OFX, QFX, QIF, and Image files (max 10MB each)<br />
               <span className="text-sm text-green-600">✅ PDF & OCR processing now available! Bank statements, receipts, and invoices supported</span>
             </p>
             
@@ -296,7 +413,7 @@ export default function ImportData({ onImportComplete, onClose }: ImportDataProp
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".csv,.txt,.pdf,.jpg,.jpeg,.png,.gif,.bmp,.webp"
+              accept=".csv,.txt,.pdf,.ofx,.qfx,.qif,.jpg,.jpeg,.png,.gif,.bmp,.webp"
               onChange={handleFileInput}
               className="hidden"
             />
@@ -329,7 +446,7 @@ export default function ImportData({ onImportComplete, onClose }: ImportDataProp
       {activeTab === 'text' && (
         <div className="space-y-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
               Paste your transaction data
             </label>
             <textarea
@@ -345,7 +462,7 @@ Date,Description,Amount,Category
 Bank statement format:
 01/15/2024  -45.67  Grocery Store
 01/16/2024  2500.00  Salary Deposit`}
-              className="w-full h-64 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+              className="w-full h-64 p-3 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
             />
           </div>
           
@@ -369,14 +486,40 @@ Bank statement format:
 
       {/* Processing Status */}
       {isProcessing && (
-        <div className="mt-6 p-4 bg-blue-50 rounded-lg">
+        <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
           <div className="flex items-center space-x-3">
             <Sparkles className="w-5 h-5 text-blue-600 animate-pulse" />
             <div>
-              <p className="text-sm font-medium text-blue-900">AI is processing your data...</p>
-              <p className="text-xs text-blue-700">This may take a few moments</p>
+              <p className="text-sm font-medium text-blue-900 dark:text-blue-300">AI is processing your data...</p>
+              <p className="text-xs text-blue-700 dark:text-blue-300">This may take a few moments</p>
             </div>
           </div>
+          {Object.entries(progress).map(([fileName, chunks]) => (
+            <div key={fileName} className="mt-3">
+              <div className="flex items-center justify-between text-xs text-blue-900 dark:text-blue-300 mb-1">
+                <span className="truncate">{fileName === 'text-input' ? 'Pasted text' : fileName}</span>
+                <span>
+                  {chunks.filter(status => status === 'done' || status === 'failed').length} of {chunks.length} parts
+                  {chunks.includes('failed') && ` (${chunks.filter(status => status === 'failed').length} failed)`}
+                </span>
+              </div>
+              <div className="flex space-x-0.5">
+                {chunks.map((status, index) => (
+                  <div
+                    key={index}
+                    title={`Part ${index + 1}: ${status}`}
+                    className={cn(
+                      "h-1.5 flex-1 rounded-full",
+                      status === 'done' && "bg-blue-600",
+                      status === 'processing' && "bg-blue-300 animate-pulse",
+                      status === 'failed' && "bg-red-500",
+                      status === 'pending' && "bg-blue-100 dark:bg-blue-900/30"
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
         </div>
       )}
 
@@ -384,11 +527,11 @@ Bank statement format:
       {result && !isProcessing && (
         <div className="mt-6 space-y-4">
           <div className="flex items-center justify-between">
-            <h3 className="text-lg font-semibold text-gray-900">Import Results</h3>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100">Import Results</h3>
             <button
               type="button"
               onClick={clearResults}
-              className="text-sm text-gray-600 hover:text-gray-800"
+              className="text-sm text-gray-600 dark:text-secondary-400 hover:text-gray-800 dark:hover:text-secondary-100"
             >
               Clear Results
             </button>
@@ -396,32 +539,32 @@ Bank statement format:
 
           {/* Summary Stats */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <div className="bg-green-50 p-3 rounded-lg">
+            <div className="bg-green-50 dark:bg-green-900/20 p-3 rounded-lg">
               <div className="text-2xl font-bold text-green-600">{result.transactions.length}</div>
-              <div className="text-xs text-green-700">Transactions Found</div>
+              <div className="text-xs text-green-700 dark:text-green-300">Transactions Found</div>
             </div>
-            <div className="bg-blue-50 p-3 rounded-lg">
+            <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg">
               <div className="text-2xl font-bold text-blue-600">{result.summary.successfullyParsed}</div>
-              <div className="text-xs text-blue-700">Successfully Parsed</div>
+              <div className="text-xs text-blue-700 dark:text-blue-300">Successfully Parsed</div>
             </div>
-            <div className="bg-yellow-50 p-3 rounded-lg">
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 p-3 rounded-lg">
               <div className="text-2xl font-bold text-yellow-600">{result.warnings.length}</div>
-              <div className="text-xs text-yellow-700">Warnings</div>
+              <div className="text-xs text-yellow-700 dark:text-yellow-300">Warnings</div>
             </div>
-            <div className="bg-red-50 p-3 rounded-lg">
+            <div className="bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">
               <div className="text-2xl font-bold text-red-600">{result.errors.length}</div>
-              <div className="text-xs text-red-700">Errors</div>
+              <div className="text-xs text-red-700 dark:text-red-300">Errors</div>
             </div>
           </div>
 
           {/* Errors */}
           {result.errors.length > 0 && (
-            <div className="p-4 bg-red-50 rounded-lg">
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
               <div className="flex items-center space-x-2 mb-2">
                 <AlertCircle className="w-5 h-5 text-red-600" />
-                <h4 className="font-medium text-red-900">Errors</h4>
+                <h4 className="font-medium text-red-900 dark:text-red-300">Errors</h4>
               </div>
-              <ul className="text-sm text-red-700 space-y-1">
+              <ul className="text-sm text-red-700 dark:text-red-300 space-y-1">
                 {result.errors.map((error, index) => (
                   <li key={index}>• {error}</li>
                 ))}
@@ -431,12 +574,12 @@ Bank statement format:
 
           {/* Warnings */}
           {result.warnings.length > 0 && (
-            <div className="p-4 bg-yellow-50 rounded-lg">
+            <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
               <div className="flex items-center space-x-2 mb-2">
                 <AlertCircle className="w-5 h-5 text-yellow-600" />
-                <h4 className="font-medium text-yellow-900">Warnings</h4>
+                <h4 className="font-medium text-yellow-900 dark:text-yellow-300">Warnings</h4>
               </div>
-              <ul className="text-sm text-yellow-700 space-y-1">
+              <ul className="text-sm text-yellow-700 dark:text-yellow-300 space-y-1">
                 {result.warnings.map((warning, index) => (
                   <li key={index}>• {warning}</li>
                 ))}
@@ -446,10 +589,10 @@ Bank statement format:
 
           {/* Success Message */}
           {result.transactions.length > 0 && (
-            <div className="p-4 bg-green-50 rounded-lg">
+            <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
               <div className="flex items-center space-x-2">
                 <CheckCircle className="w-5 h-5 text-green-600" />
-                <p className="text-sm font-medium text-green-900">
+                <p className="text-sm font-medium text-green-900 dark:text-green-300">
                   Successfully parsed {result.transactions.length} transactions! 
                   Review them in the next step before importing.
                 </p>
@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import { History, FileText, RotateCcw } from 'lucide-react'
+import { Account, ImportBatch, Transaction } from '@/types'
+import { cn } from '@/lib/utils'
+import { formatDateTime } from '@/lib/formatting'
+
+interface ImportHistoryProps {
+  batches: ImportBatch[]
+  transactions: Transaction[]
+  accounts?: Account[]
+  onRevert: (batchId: string) => Promise<void>
+  isReverting?: boolean
+}
+
+// Imports listed before "Show all"
+const VISIBLE_BATCHES = 5
+
+export default function ImportHistory({ batches, transactions, accounts = [], onRevert, isReverting = false }: ImportHistoryProps) {
+  const [showAll, setShowAll] = useState(false)
+
+  // Transactions still in the app per import; some may have been deleted by hand since
+  const remainingByBatch = transactions.reduce<Record<string, number>>((counts, t) => {
+    if (t.importBatchId) counts[t.importBatchId] = (counts[t.importBatchId] || 0) + 1
+    return counts
+  }, {})
+
+  const visibleBatches = showAll ? batches : batches.slice(0, VISIBLE_BATCHES)
+
+  const handleRevert = (batch: ImportBatch) => {
+    const remaining = remainingByBatch[batch.id] || 0
+    const changed = batch.changedTransactions.length
+    const restoreNote = changed > 0 ? ` and the ${changed} it changed put back as they were` : ''
+    if (!window.confirm(`Revert this import? The ${remaining} transactions it added will be deleted${restoreNote}.`)) return
+    onRevert(batch.id)
+  }
+
+  return (
+    <div className="mt-6 bg-white dark:bg-secondary-800 rounded-2xl border border-white/20 dark:border-secondary-700/50 shadow-soft p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <History className="w-5 h-5 text-secondary-600 dark:text-secondary-400" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100">Import History</h3>
+      </div>
+
+      <div className="divide-y divide-gray-100 dark:divide-secondary-700">
+        {visibleBatches.map(batch => {
+          const remaining = remainingByBatch[batch.id] || 0
+          const account = accounts.find(a => a.id === batch.options.accountId)
+
+          return (
+            <div key={batch.id} className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <FileText className="w-4 h-4 text-gray-400 dark:text-secondary-500 flex-shrink-0" />
+                  <span className={cn("text-sm font-medium truncate", batch.revertedAt ? "text-gray-400 dark:text-secondary-500 line-through" : "text-gray-900 dark:text-secondary-100")}>
+                    {batch.fileNames.join(', ') || 'Import'}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 dark:text-secondary-400 mt-1">
+                  {formatDateTime(batch.createdAt)}
+                  {account && ` · ${account.name}`}
+                  {` · ${batch.importedCount} imported`}
+                  {batch.changedTransactions.length > 0 && ` · ${batch.changedTransactions.length} existing changed`}
+                  {batch.duplicateCount > 0 && ` · ${batch.duplicateCount} duplicates skipped`}
+                  {batch.errorCount > 0 && ` · ${batch.errorCount} failed`}
+                  {!batch.revertedAt && remaining !== batch.importedCount && ` · ${remaining} still in your transactions`}
+                </div>
+              </div>
+
+              {batch.revertedAt ? (
+                <span className="text-xs text-gray-500 dark:text-secondary-400 whitespace-nowrap">Reverted {formatDateTime(batch.revertedAt)}</span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleRevert(batch)}
+                  disabled={isReverting || (remaining === 0 && batch.changedTransactions.length === 0)}
+                  className="flex items-center space-x-1 px-3 py-1 text-sm text-red-600 hover:text-red-800 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>Revert</span>
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {batches.length > VISIBLE_BATCHES && (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="mt-3 text-sm text-blue-600 hover:text-blue-800"
+        >
+          {showAll ? 'Show fewer' : `Show all ${batches.length} imports`}
+        </button>
+      )}
+    </div>
+  )
+}
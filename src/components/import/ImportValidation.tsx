@@ -1,32 +1,56 @@
 'use client'
 
 import { useState } from 'react'
-import { CheckCircle, AlertTriangle, XCircle, Eye, EyeOff } from 'lucide-react'
-import { Transaction, ValidationResult } from '@/types'
+import { CheckCircle, AlertTriangle, XCircle, Eye, EyeOff, ArrowLeftRight, GitMerge } from 'lucide-react'
+import { Category, Transaction, TransferMatch, ValidationResult } from '@/types'
 import { cn } from '@/lib/utils'
+import { formatCurrency, formatDate } from '@/lib/formatting'
+import { getCategoryOptions } from '@/lib/categories'
+import { DUPLICATE_SCORE } from '@/lib/duplicates'
+import CategoryOptions from '@/components/ui/CategoryOptions'
 
 interface ImportValidationProps {
   validationResult: ValidationResult
-  onConfirm: (selectedTransactions: Transaction[]) => Promise<void>
+  onConfirm: (
+    selectedTransactions: Transaction[],
+    selectedTransfers: TransferMatch[],
+    corrections: Array<{ description: string; category: string }>,
+    merges: Array<{ existing: Transaction; imported: Transaction }>
+  ) => Promise<void>
   onCancel: () => void
+  categories?: Category[]
 }
 
-export default function ImportValidation({ validationResult, onConfirm, onCancel }: ImportValidationProps) {
+// Rows parsed with less confidence than this are flagged for a closer look
+const LOW_CONFIDENCE = 0.7
+
+// What to do with a line that resembles an existing transaction
+type DuplicateDecision = 'skip' | 'keep' | 'merge'
+
+export default function ImportValidation({ validationResult, onConfirm, onCancel, categories = [] }: ImportValidationProps) {
   const [selectedTransactions, setSelectedTransactions] = useState<Set<string>>(
     new Set(validationResult.valid.map(t => t.id))
   )
+  // Detected transfers are recorded as transfers unless unchecked, in which case their lines import as-is
+  const [selectedTransfers, setSelectedTransfers] = useState<Set<string>>(
+    new Set((validationResult.transfers || []).map(t => t.id))
+  )
   const [showDuplicates, setShowDuplicates] = useState(false)
   const [showConflicts, setShowConflicts] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
+  // Categories changed during review, by transaction id; they are remembered for later imports
+  const [categoryEdits, setCategoryEdits] = useState<Record<string, string>>({})
+  // Duplicates and possible duplicates are skipped unless the user keeps or merges them, by transaction id
+  const [duplicateDecisions, setDuplicateDecisions] = useState<Record<string, DuplicateDecision>>({})
 
   // Safety check for validationResult
   if (!validationResult) {
     return (
-      <div className="bg-white rounded-2xl border border-white/20 shadow-soft p-6">
+      <div className="bg-white dark:bg-secondary-800 rounded-2xl border border-white/20 dark:border-secondary-700/50 shadow-soft p-6">
         <div className="text-center">
           <AlertTriangle className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
-          <h2 className="text-xl font-bold text-gray-900 mb-2">Validation Error</h2>
-          <p className="text-gray-600 mb-4">No validation result available.</p>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-secondary-100 mb-2">Validation Error</h2>
+          <p className="text-gray-600 dark:text-secondary-400 mb-4">No validation result available.</p>
           <button
             type="button"
             onClick={onCancel}
@@ -49,13 +73,56 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
     setSelectedTransactions(newSelected)
   }
 
+  const toggleTransfer = (transferId: string) => {
+    const newSelected = new Set(selectedTransfers)
+    if (newSelected.has(transferId)) {
+      newSelected.delete(transferId)
+    } else {
+      newSelected.add(transferId)
+    }
+    setSelectedTransfers(newSelected)
+  }
+
+  const transfers = validationResult.transfers || []
+  const matches = validationResult.matches || {}
+  const decidedCount = Object.values(duplicateDecisions).filter(decision => decision !== 'skip').length
+  const selectedCount = selectedTransactions.size + selectedTransfers.size + decidedCount
+
+  const decide = (transactionId: string, decision: DuplicateDecision) => {
+    setDuplicateDecisions(prev => ({ ...prev, [transactionId]: decision }))
+  }
+  const categoryOptionNames = new Set(getCategoryOptions(categories).map(option => option.name))
+
+  const changeCategory = (transaction: Transaction, category: string) => {
+    setCategoryEdits(prev => ({ ...prev, [transaction.id]: category }))
+  }
+
   const handleConfirm = async () => {
     console.log('ImportValidation: handleConfirm called')
     console.log('ImportValidation: Selected transaction IDs:', Array.from(selectedTransactions))
 
-    const transactionsToImport = validationResult.valid.filter(t =>
-      selectedTransactions.has(t.id)
-    )
+    const reviewed = validationResult.valid.filter(t => selectedTransactions.has(t.id))
+    const transactionsToImport = reviewed.map(t => {
+      const category = categoryEdits[t.id]
+      return category ? { ...t, category } : t
+    })
+    const corrections = reviewed
+      .filter(t => categoryEdits[t.id] && categoryEdits[t.id] !== t.category)
+      .map(t => ({ description: t.description, category: categoryEdits[t.id] as string }))
+    const transfersToImport = transfers.filter(t => selectedTransfers.has(t.id))
+
+    // Duplicates the user kept are imported as new lines; merged ones update the transaction they repeat
+    const possibleDuplicates = [...validationResult.duplicates, ...validationResult.conflicts]
+    transactionsToImport.push(...possibleDuplicates.filter(t => duplicateDecisions[t.id] === 'keep'))
+    const merges = possibleDuplicates.flatMap(t => {
+      const match = matches[t.id]
+      return match && duplicateDecisions[t.id] === 'merge' ? [{ existing: match.existing, imported: t }] : []
+    })
+
+    // Lines of a rejected transfer match are imported as ordinary transactions
+    transfers
+      .filter(t => !selectedTransfers.has(t.id))
+      .forEach(t => transactionsToImport.push(...t.imported))
 
     console.log('ImportValidation: Transactions to import:', transactionsToImport.length)
     console.log('ImportValidation: Transaction details:', transactionsToImport.map(t => ({
@@ -67,7 +134,7 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
     setIsImporting(true)
 
     try {
-      await onConfirm(transactionsToImport)
+      await onConfirm(transactionsToImport, transfersToImport, corrections, merges)
       console.log('ImportValidation: onConfirm completed successfully')
     } catch (error) {
       console.error('ImportValidation: Error in onConfirm:', error)
@@ -76,30 +143,16 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
     }
   }
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount)
-  }
-
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric'
-    })
-  }
-
-  const TransactionRow = ({ transaction, isSelected, onToggle, showCheckbox = true }: {
+  const TransactionRow = ({ transaction, isSelected, onToggle, showCheckbox = true, onCategoryChange }: {
     transaction: Transaction
     isSelected?: boolean
     onToggle?: () => void
     showCheckbox?: boolean
+    onCategoryChange?: (category: string) => void
   }) => (
     <div className={cn(
       "flex items-center space-x-3 p-3 rounded-lg border",
-      isSelected ? "bg-blue-50 border-blue-200" : "bg-white border-gray-200"
+      isSelected ? "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800" : "bg-white dark:bg-secondary-800 border-gray-200 dark:border-secondary-700"
     )}>
       {showCheckbox && (
         <input
@@ -111,24 +164,53 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
       )}
       <div className="flex-1 grid grid-cols-4 gap-4 text-sm">
         <div>
-          <div className="font-medium text-gray-900">{formatDate(transaction.date)}</div>
+          <div className="font-medium text-gray-900 dark:text-secondary-100">{formatDate(transaction.date)}</div>
         </div>
         <div>
-          <div className="text-gray-900">{transaction.description}</div>
-          <div className="text-xs text-gray-500">{transaction.category}</div>
+          <div className="text-gray-900 dark:text-secondary-100">{transaction.description}</div>
+          {onCategoryChange ? (
+            <div className="flex items-center space-x-2 mt-1">
+              <select
+                value={transaction.category}
+                onChange={(e) => onCategoryChange(e.target.value)}
+                className="text-xs px-2 py-1 border border-gray-200 dark:border-secondary-700 rounded focus:ring-2 focus:ring-primary-500"
+                title="Category"
+              >
+                {!categoryOptionNames.has(transaction.category) && (
+                  <option value={transaction.category}>{transaction.category} (new)</option>
+                )}
+                <CategoryOptions categories={categories} />
+              </select>
+              {transaction.confidence !== undefined && (
+                <span
+                  className={cn(
+                    "text-xs",
+                    transaction.confidence < LOW_CONFIDENCE ? "text-yellow-600 font-medium" : "text-gray-400 dark:text-secondary-500"
+                  )}
+                  title="How sure the import is about this line"
+                >
+                  {Math.round(transaction.confidence * 100)}%
+                </span>
+              )}
+            </div>
+          ) : (
+            <div className="text-xs text-gray-500 dark:text-secondary-400">{transaction.category}</div>
+          )}
         </div>
         <div className={cn(
           "font-medium",
-          transaction.type === 'income' ? "text-green-600" : "text-red-600"
+          transaction.type === 'income' ? "text-green-600" : transaction.type === 'transfer' ? "text-blue-600" : "text-red-600"
         )}>
-          {transaction.type === 'income' ? '+' : '-'}{formatCurrency(transaction.amount)}
+          {transaction.type === 'income' ? '+' : transaction.type === 'transfer' ? '' : '-'}{formatCurrency(transaction.amount)}
         </div>
         <div>
           <span className={cn(
             "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
             transaction.type === 'income' 
-              ? "bg-green-100 text-green-800" 
-              : "bg-red-100 text-red-800"
+              ? "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300" 
+              : transaction.type === 'transfer'
+              ? "bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300"
+              : "bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300"
           )}>
             {transaction.type}
           </span>
@@ -137,32 +219,104 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
     </div>
   )
 
+  // An imported line next to the existing transaction it resembles, with the choice of what to do
+  const DuplicateReview = ({ transaction }: { transaction: Transaction }) => {
+    const match = matches[transaction.id]
+    const decision = duplicateDecisions[transaction.id] || 'skip'
+    const actions: Array<{ value: DuplicateDecision; label: string; title: string }> = [
+      { value: 'merge', label: 'Merge', title: 'Update the existing transaction with the imported date and amount' },
+      { value: 'keep', label: 'Keep both', title: 'Import this line as a new transaction' },
+      { value: 'skip', label: 'Skip', title: 'Don\'t import this line' }
+    ]
+
+    if (!match) {
+      // Repeated within the file itself, so there is nothing to merge into
+      return <TransactionRow transaction={transaction} showCheckbox={false} />
+    }
+
+    return (
+      <div className="p-3 rounded-lg border border-gray-200 dark:border-secondary-700">
+        <div className="flex items-center justify-between mb-2">
+          <span className={cn(
+            "text-xs font-medium px-2 py-0.5 rounded-full",
+            match.score >= DUPLICATE_SCORE ? "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300" : "bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300"
+          )}>
+            {Math.round(match.score * 100)}% similar
+          </span>
+          <div className="flex items-center space-x-1">
+            {actions.map(action => (
+              <button
+                key={action.value}
+                type="button"
+                onClick={() => decide(transaction.id, action.value)}
+                title={action.title}
+                className={cn(
+                  "flex items-center space-x-1 px-2 py-1 text-xs rounded-md border transition-colors",
+                  decision === action.value
+                    ? "bg-blue-600 border-blue-600 text-white"
+                    : "border-gray-200 dark:border-secondary-700 text-gray-600 dark:text-secondary-400 hover:bg-gray-50 dark:hover:bg-secondary-700"
+                )}
+              >
+                {action.value === 'merge' && <GitMerge className="w-3 h-3" />}
+                <span>{action.label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+          {[{ label: 'Imported', t: transaction }, { label: 'Existing', t: match.existing }].map(({ label, t }) => (
+            <div key={label} className="p-2 rounded bg-gray-50 dark:bg-secondary-900/50">
+              <div className="text-xs font-medium text-gray-500 dark:text-secondary-400 mb-1">{label}</div>
+              <div className={cn("text-gray-900 dark:text-secondary-100", t.date.toDateString() !== match.existing.date.toDateString() && "text-orange-700 dark:text-orange-300")}>
+                {formatDate(t.date)}
+              </div>
+              <div className="text-gray-900 dark:text-secondary-100 truncate" title={t.description}>{t.description}</div>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500 dark:text-secondary-400">{t.category}</span>
+                <span className={cn(
+                  "font-medium",
+                  Math.abs(t.amount - match.existing.amount) >= 0.01 ? "text-orange-700 dark:text-orange-300" : "text-gray-900 dark:text-secondary-100"
+                )}>
+                  {formatCurrency(t.amount)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
   return (
-    <div className="bg-white rounded-2xl border border-white/20 shadow-soft overflow-hidden">
+    <div className="bg-white dark:bg-secondary-800 rounded-2xl border border-white/20 dark:border-secondary-700/50 shadow-soft overflow-hidden">
       {/* Header */}
-      <div className="p-6 border-b border-secondary-100">
-        <h2 className="text-2xl font-bold text-secondary-900">Review Import Data</h2>
-        <p className="text-secondary-600 mt-1">Review and confirm the transactions to import</p>
+      <div className="p-6 border-b border-secondary-100 dark:border-secondary-700">
+        <h2 className="text-2xl font-bold text-secondary-900 dark:text-secondary-100">Review Import Data</h2>
+        <p className="text-secondary-600 dark:text-secondary-400 mt-1">Review and confirm the transactions to import</p>
       </div>
 
       {/* Summary Stats */}
-      <div className="p-6 border-b border-secondary-100">
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="p-6 border-b border-secondary-100 dark:border-secondary-700">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
           <div className="text-center">
             <div className="text-2xl font-bold text-green-600">{validationResult.valid.length}</div>
-            <div className="text-sm text-gray-600">Valid</div>
+            <div className="text-sm text-gray-600 dark:text-secondary-400">Valid</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-blue-600">{transfers.length}</div>
+            <div className="text-sm text-gray-600 dark:text-secondary-400">Transfers</div>
           </div>
           <div className="text-center">
             <div className="text-2xl font-bold text-yellow-600">{validationResult.duplicates.length}</div>
-            <div className="text-sm text-gray-600">Duplicates</div>
+            <div className="text-sm text-gray-600 dark:text-secondary-400">Duplicates</div>
           </div>
           <div className="text-center">
             <div className="text-2xl font-bold text-orange-600">{validationResult.conflicts.length}</div>
-            <div className="text-sm text-gray-600">Conflicts</div>
+            <div className="text-sm text-gray-600 dark:text-secondary-400">Possible Duplicates</div>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-blue-600">{selectedTransactions.size}</div>
-            <div className="text-sm text-gray-600">Selected</div>
+            <div className="text-2xl font-bold text-blue-600">{selectedCount}</div>
+            <div className="text-sm text-gray-600 dark:text-secondary-400">Selected</div>
           </div>
         </div>
       </div>
@@ -173,7 +327,7 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
         {validationResult.valid.length > 0 && (
           <div className="mb-6">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-secondary-900 flex items-center space-x-2">
+              <h3 className="text-lg font-semibold text-secondary-900 dark:text-secondary-100 flex items-center space-x-2">
                 <CheckCircle className="w-5 h-5 text-success-600" />
                 <span>Valid Transactions ({validationResult.valid.length})</span>
               </h3>
@@ -188,7 +342,7 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
                 <button
                   type="button"
                   onClick={() => setSelectedTransactions(new Set())}
-                  className="text-xs text-gray-600 hover:text-gray-800"
+                  className="text-xs text-gray-600 dark:text-secondary-400 hover:text-gray-800 dark:hover:text-secondary-100"
                 >
                   Select None
                 </button>
@@ -198,82 +352,121 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
               {validationResult.valid.map((transaction) => (
                 <TransactionRow
                   key={transaction.id}
-                  transaction={transaction}
+                  transaction={{ ...transaction, category: categoryEdits[transaction.id] || transaction.category }}
                   isSelected={selectedTransactions.has(transaction.id)}
                   onToggle={() => toggleTransaction(transaction.id)}
+                  onCategoryChange={(category) => changeCategory(transaction, category)}
                 />
               ))}
             </div>
           </div>
         )}
 
+        {/* Transfers */}
+        {transfers.length > 0 && (
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-secondary-900 dark:text-secondary-100 flex items-center space-x-2">
+                <ArrowLeftRight className="w-5 h-5 text-primary-600" />
+                <span>Detected Transfers ({transfers.length})</span>
+              </h3>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-secondary-400 mb-3">
+              These lines move money between your own accounts and will be recorded as transfers instead of income and expenses.
+              Uncheck a match to import its lines separately.
+            </p>
+            <div className="space-y-2">
+              {transfers.map((match) => (
+                <div
+                  key={match.id}
+                  className={cn(
+                    "flex items-center justify-between p-3 rounded-lg border",
+                    selectedTransfers.has(match.id) ? "border-primary-200 dark:border-primary-800 bg-primary-50 dark:bg-primary-900/20" : "border-gray-200 dark:border-secondary-700 bg-white dark:bg-secondary-800"
+                  )}
+                >
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedTransfers.has(match.id)}
+                      onChange={() => toggleTransfer(match.id)}
+                      className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+                      title={`Record "${match.transfer.description}" as a transfer`}
+                    />
+                    <div>
+                      <div className="font-medium text-gray-900 dark:text-secondary-100">{match.transfer.description}</div>
+                      <div className="text-sm text-gray-500 dark:text-secondary-400">
+                        {formatDate(match.transfer.date)} • {match.existingTransactionId
+                          ? 'Matches an existing transaction'
+                          : `${match.imported.length} imported lines`}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="font-semibold text-blue-600">{formatCurrency(match.transfer.amount)}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Duplicates */}
         {validationResult.duplicates.length > 0 && (
           <div className="mb-6">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-secondary-900 flex items-center space-x-2">
+              <h3 className="text-lg font-semibold text-secondary-900 dark:text-secondary-100 flex items-center space-x-2">
                 <AlertTriangle className="w-5 h-5 text-warning-600" />
                 <span>Duplicate Transactions ({validationResult.duplicates.length})</span>
               </h3>
               <button
                 type="button"
                 onClick={() => setShowDuplicates(!showDuplicates)}
-                className="flex items-center space-x-1 text-xs text-gray-600 hover:text-gray-800"
+                className="flex items-center space-x-1 text-xs text-gray-600 dark:text-secondary-400 hover:text-gray-800 dark:hover:text-secondary-100"
               >
                 {showDuplicates ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                 <span>{showDuplicates ? 'Hide' : 'Show'}</span>
               </button>
             </div>
             {showDuplicates && (
-              <div className="space-y-2">
+              <div className="space-y-3">
                 {validationResult.duplicates.map((transaction) => (
-                  <TransactionRow
-                    key={transaction.id}
-                    transaction={transaction}
-                    showCheckbox={false}
-                  />
+                  <DuplicateReview key={transaction.id} transaction={transaction} />
                 ))}
               </div>
             )}
             {!showDuplicates && (
-              <p className="text-sm text-gray-600 italic">
-                These transactions appear to already exist in your account and will be skipped.
+              <p className="text-sm text-gray-600 dark:text-secondary-400 italic">
+                These transactions appear to already exist in your account and will be skipped unless you keep or merge them.
               </p>
             )}
           </div>
         )}
 
-        {/* Conflicts */}
+        {/* Possible duplicates */}
         {validationResult.conflicts.length > 0 && (
           <div className="mb-6">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-secondary-900 flex items-center space-x-2">
+              <h3 className="text-lg font-semibold text-secondary-900 dark:text-secondary-100 flex items-center space-x-2">
                 <XCircle className="w-5 h-5 text-error-600" />
-                <span>Conflicting Transactions ({validationResult.conflicts.length})</span>
+                <span>Possible Duplicates ({validationResult.conflicts.length})</span>
               </h3>
               <button
                 type="button"
                 onClick={() => setShowConflicts(!showConflicts)}
-                className="flex items-center space-x-1 text-xs text-gray-600 hover:text-gray-800"
+                className="flex items-center space-x-1 text-xs text-gray-600 dark:text-secondary-400 hover:text-gray-800 dark:hover:text-secondary-100"
               >
                 {showConflicts ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                 <span>{showConflicts ? 'Hide' : 'Show'}</span>
               </button>
             </div>
             {showConflicts && (
-              <div className="space-y-2">
+              <div className="space-y-3">
                 {validationResult.conflicts.map((transaction) => (
-                  <TransactionRow
-                    key={transaction.id}
-                    transaction={transaction}
-                    showCheckbox={false}
-                  />
+                  <DuplicateReview key={transaction.id} transaction={transaction} />
                 ))}
               </div>
             )}
             {!showConflicts && (
-              <p className="text-sm text-gray-600 italic">
-                These transactions have similar dates/descriptions but different amounts. Review manually.
+              <p className="text-sm text-gray-600 dark:text-secondary-400 italic">
+                These transactions resemble existing ones but differ in date, amount or description. Review them to keep, merge or skip each one.
               </p>
             )}
           </div>
@@ -282,12 +475,12 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
         {/* Errors */}
         {validationResult.errors.length > 0 && (
           <div className="mb-6">
-            <h3 className="text-lg font-semibold text-red-900 flex items-center space-x-2 mb-4">
+            <h3 className="text-lg font-semibold text-red-900 dark:text-red-300 flex items-center space-x-2 mb-4">
               <XCircle className="w-5 h-5 text-red-600" />
               <span>Validation Errors</span>
             </h3>
-            <div className="bg-red-50 rounded-lg p-4">
-              <ul className="text-sm text-red-700 space-y-1">
+            <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4">
+              <ul className="text-sm text-red-700 dark:text-red-300 space-y-1">
                 {validationResult.errors.map((error, index) => (
                   <li key={index}>• {error}</li>
                 ))}
@@ -299,12 +492,12 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
         {/* Warnings */}
         {validationResult.warnings.length > 0 && (
           <div className="mb-6">
-            <h3 className="text-lg font-semibold text-yellow-900 flex items-center space-x-2 mb-4">
+            <h3 className="text-lg font-semibold text-yellow-900 dark:text-yellow-300 flex items-center space-x-2 mb-4">
               <AlertTriangle className="w-5 h-5 text-yellow-600" />
               <span>Warnings</span>
             </h3>
-            <div className="bg-yellow-50 rounded-lg p-4">
-              <ul className="text-sm text-yellow-700 space-y-1">
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-4">
+              <ul className="text-sm text-yellow-700 dark:text-yellow-300 space-y-1">
                 {validationResult.warnings.map((warning, index) => (
                   <li key={index}>• {warning}</li>
                 ))}
@@ -315,23 +508,24 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
       </div>
 
       {/* Footer */}
-      <div className="p-6 border-t border-secondary-100">
+      <div className="p-6 border-t border-secondary-100 dark:border-secondary-700">
         <div className="flex items-center justify-between">
           <button
             type="button"
             onClick={onCancel}
-            className="px-6 py-2 text-secondary-600 hover:text-secondary-800 hover:bg-secondary-50 rounded-lg transition-colors"
+            className="px-6 py-2 text-secondary-600 dark:text-secondary-400 hover:text-secondary-800 dark:hover:text-secondary-100 hover:bg-secondary-50 dark:hover:bg-secondary-700 rounded-lg transition-colors"
           >
             Cancel
           </button>
           <div className="flex items-center space-x-4">
-            <span className="text-sm text-gray-600">
-              {selectedTransactions.size} of {validationResult.valid.length} transactions selected
+            <span className="text-sm text-gray-600 dark:text-secondary-400">
+              {selectedTransactions.size} of {validationResult.valid.length} transactions
+              {transfers.length > 0 && ` and ${selectedTransfers.size} of ${transfers.length} transfers`} selected
             </span>
             <button
               type="button"
               onClick={handleConfirm}
-              disabled={selectedTransactions.size === 0 || isImporting}
+              disabled={selectedCount === 0 || isImporting}
               className="px-6 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
             >
               {isImporting ? (
@@ -340,7 +534,7 @@ export default function ImportValidation({ validationResult, onConfirm, onCancel
                   <span>Importing...</span>
                 </>
               ) : (
-                <span>Import {selectedTransactions.size} Transactions</span>
+                <span>Import {selectedCount} Transactions</span>
               )}
             </button>
           </div>
@@ -60,7 +60,7 @@ export default function Header({ title, onMenuToggle, isMobileMenuOpen }: Header
     }
   }
   return (
-    <header className="relative bg-white/80 backdrop-blur-md border-b border-white/20 mobile-padding py-4 sm:py-6 shadow-soft safe-area">
+    <header className="relative bg-white/80 dark:bg-secondary-800/80 backdrop-blur-md border-b border-white/20 dark:border-secondary-700/50 mobile-padding py-4 sm:py-6 shadow-soft safe-area">
       {/* Gradient overlay */}
       <div className="absolute inset-0 bg-gradient-to-r from-primary-50/50 to-success-50/30 opacity-50" />
 
@@ -70,13 +70,13 @@ export default function Header({ title, onMenuToggle, isMobileMenuOpen }: Header
           <button
             type="button"
             onClick={onMenuToggle}
-            className="touch-target lg:hidden bg-white/60 hover:bg-white/80 rounded-xl border border-white/30 transition-all duration-200 mr-3"
+            className="touch-target lg:hidden bg-white/60 dark:bg-secondary-800/60 hover:bg-white/80 rounded-xl border border-white/30 dark:border-secondary-700/50 transition-all duration-200 mr-3"
             aria-label="Toggle menu"
           >
             {isMobileMenuOpen ? (
-              <X className="w-5 h-5 text-gray-700" />
+              <X className="w-5 h-5 text-gray-700 dark:text-secondary-300" />
             ) : (
-              <Menu className="w-5 h-5 text-gray-700" />
+              <Menu className="w-5 h-5 text-gray-700 dark:text-secondary-300" />
             )}
           </button>
         )}
@@ -91,22 +91,22 @@ export default function Header({ title, onMenuToggle, isMobileMenuOpen }: Header
           </div>
           <div className="flex flex-col">
             <span className="text-lg sm:text-2xl font-bold gradient-text">FinanceAI</span>
-            <span className="text-xs text-secondary-500 font-medium tracking-wide hidden sm:block">Smart Financial Management</span>
+            <span className="text-xs text-secondary-500 dark:text-secondary-400 font-medium tracking-wide hidden sm:block">Smart Financial Management</span>
           </div>
         </div>
 
         {/* Center - Page Title (Hidden on mobile) */}
         <div className="flex-1 text-center hidden md:block">
-          <h1 className="text-xl lg:text-2xl font-bold text-secondary-900 tracking-tight">{getPageTitle()}</h1>
+          <h1 className="text-xl lg:text-2xl font-bold text-secondary-900 dark:text-secondary-100 tracking-tight">{getPageTitle()}</h1>
           <div className="w-12 h-0.5 bg-gradient-to-r from-primary-500 to-success-500 mx-auto mt-2 rounded-full" />
         </div>
 
         {/* Right - User Menu and Status */}
         <div className="flex items-center space-x-2 sm:space-x-4">
           {/* Status Indicator (Simplified on mobile) */}
-          <div className="flex items-center space-x-2 px-3 sm:px-4 py-2 bg-success-50 rounded-full border border-success-200">
+          <div className="flex items-center space-x-2 px-3 sm:px-4 py-2 bg-success-50 dark:bg-success-900/20 rounded-full border border-success-200 dark:border-success-800">
             <div className="w-2 h-2 bg-success-500 rounded-full animate-pulse-soft" />
-            <span className="text-xs sm:text-sm font-semibold text-success-700">Live</span>
+            <span className="text-xs sm:text-sm font-semibold text-success-700 dark:text-success-300">Live</span>
           </div>
 
           {/* User Menu */}
@@ -115,28 +115,28 @@ export default function Header({ title, onMenuToggle, isMobileMenuOpen }: Header
               <button
                 type="button"
                 onClick={() => setShowUserMenu(!showUserMenu)}
-                className="flex items-center space-x-2 sm:space-x-3 px-2 sm:px-4 py-2 bg-white/60 hover:bg-white/80 rounded-xl border border-white/30 transition-all duration-200 group touch-target"
+                className="flex items-center space-x-2 sm:space-x-3 px-2 sm:px-4 py-2 bg-white/60 dark:bg-secondary-800/60 hover:bg-white/80 rounded-xl border border-white/30 dark:border-secondary-700/50 transition-all duration-200 group touch-target"
               >
                 <div className="w-7 h-7 sm:w-8 sm:h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
                   <User className="w-3 h-3 sm:w-4 sm:h-4 text-white" />
                 </div>
                 <div className="hidden sm:block text-left">
-                  <p className="text-sm font-medium text-gray-900 truncate max-w-24 lg:max-w-none">
+                  <p className="text-sm font-medium text-gray-900 dark:text-secondary-100 truncate max-w-24 lg:max-w-none">
                     {profile?.full_name || user.email?.split('@')[0] || 'User'}
                   </p>
-                  <p className="text-xs text-gray-500 truncate max-w-24 lg:max-w-none">{user.email}</p>
+                  <p className="text-xs text-gray-500 dark:text-secondary-400 truncate max-w-24 lg:max-w-none">{user.email}</p>
                 </div>
-                <ChevronDown className="w-4 h-4 text-gray-400 group-hover:text-gray-600 transition-colors hidden sm:block" />
+                <ChevronDown className="w-4 h-4 text-gray-400 dark:text-secondary-500 group-hover:text-gray-600 transition-colors hidden sm:block" />
               </button>
 
               {/* Dropdown Menu */}
               {showUserMenu && (
-                <div className="absolute right-0 mt-2 w-56 bg-white rounded-xl shadow-lg border border-gray-200 py-2 z-50">
-                  <div className="px-4 py-3 border-b border-gray-100">
-                    <p className="text-sm font-medium text-gray-900">
+                <div className="absolute right-0 mt-2 w-56 bg-white dark:bg-secondary-800 rounded-xl shadow-lg border border-gray-200 dark:border-secondary-700 py-2 z-50">
+                  <div className="px-4 py-3 border-b border-gray-100 dark:border-secondary-700">
+                    <p className="text-sm font-medium text-gray-900 dark:text-secondary-100">
                       {profile?.full_name || 'User'}
                     </p>
-                    <p className="text-xs text-gray-500">{user.email}</p>
+                    <p className="text-xs text-gray-500 dark:text-secondary-400">{user.email}</p>
                   </div>
 
                   <button
@@ -145,7 +145,7 @@ export default function Header({ title, onMenuToggle, isMobileMenuOpen }: Header
                       setShowUserMenu(false)
                       router.push('/settings')
                     }}
-                    className="w-full flex items-center space-x-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50 transition-colors touch-target"
+                    className="w-full flex items-center space-x-3 px-4 py-3 text-sm text-gray-700 dark:text-secondary-300 hover:bg-gray-50 dark:hover:bg-secondary-700 transition-colors touch-target"
                   >
                     <Settings className="w-4 h-4" />
                     <span>Settings</span>
@@ -162,7 +162,7 @@ export default function Header({ title, onMenuToggle, isMobileMenuOpen }: Header
                         console.error('Error signing out:', error)
                       }
                     }}
-                    className="w-full flex items-center space-x-3 px-4 py-3 text-sm text-red-600 hover:bg-red-50 transition-colors touch-target"
+                    className="w-full flex items-center space-x-3 px-4 py-3 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors touch-target"
                   >
                     <LogOut className="w-4 h-4" />
                     <span>Sign out</span>
@@ -177,7 +177,7 @@ export default function Header({ title, onMenuToggle, isMobileMenuOpen }: Header
       {/* Mobile Page Title */}
       {(isMobile || isTablet) && (
         <div className="mt-4 md:hidden">
-          <h1 className="text-xl font-bold text-secondary-900 tracking-tight">{getPageTitle()}</h1>
+          <h1 className="text-xl font-bold text-secondary-900 dark:text-secondary-100 tracking-tight">{getPageTitle()}</h1>
           <div className="w-12 h-0.5 bg-gradient-to-r from-primary-500 to-success-500 mt-2 rounded-full" />
         </div>
       )}
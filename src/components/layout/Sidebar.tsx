@@ -12,7 +12,9 @@ import {
   X,
   TrendingUp,
   Calendar,
-  Target
+  Target,
+  Wallet,
+  ShieldCheck
 } from 'lucide-react'
 import Link from 'next/link'
 import { cn } from '@/lib/utils'
@@ -35,18 +37,18 @@ function SidebarItem({ icon, label, href, isActive = false, onClick }: SidebarIt
         "group relative w-full flex items-center space-x-4 px-5 py-4 text-left rounded-2xl transition-all duration-300 font-semibold touch-target",
         isActive
           ? "bg-gradient-to-r from-primary-500 to-primary-600 text-white shadow-colored"
-          : "text-secondary-700 hover:bg-white/60 hover:shadow-soft hover:scale-105"
+          : "text-secondary-700 dark:text-secondary-300 hover:bg-white/60 hover:shadow-soft hover:scale-105"
       )}
       suppressHydrationWarning
     >
       {/* Active indicator */}
       {isActive && (
-        <div className="absolute left-0 top-1/2 -translate-y-1/2 w-1 h-8 bg-white rounded-r-full" />
+        <div className="absolute left-0 top-1/2 -translate-y-1/2 w-1 h-8 bg-white dark:bg-secondary-800 rounded-r-full" />
       )}
 
       <div className={cn(
         "w-6 h-6 transition-transform duration-300 group-hover:scale-110",
-        isActive ? "text-white" : "text-secondary-600"
+        isActive ? "text-white" : "text-secondary-600 dark:text-secondary-400"
       )}>
         {icon}
       </div>
@@ -92,11 +94,13 @@ export default function Sidebar({ currentPage = 'dashboard', isOpen = true, onCl
   const menuItems = [
     { icon: <LayoutDashboard />, label: 'Dashboard', href: '/', key: 'dashboard' },
     { icon: <CreditCard />, label: 'Transactions', href: '/transactions', key: 'transactions' },
+    { icon: <Wallet />, label: 'Accounts', href: '/accounts', key: 'accounts' },
     { icon: <PiggyBank />, label: 'Budgets', href: '/budgets', key: 'budgets' },
     { icon: <TrendingUp />, label: 'Forecasting', href: '/forecasting', key: 'forecasting' },
     { icon: <Calendar />, label: 'Seasonal Analysis', href: '/seasonal', key: 'seasonal' },
     { icon: <Target />, label: 'Goals', href: '/goals', key: 'goals' },
     { icon: <PiggyBank />, label: 'Savings', href: '/savings', key: 'savings' },
+    { icon: <ShieldCheck />, label: 'Emergency Fund', href: '/emergency-fund', key: 'emergency-fund' },
     { icon: <TrendingUp />, label: 'Investments', href: '/investments', key: 'investments' },
     { icon: <Upload />, label: 'Import Data', href: '/import', key: 'import' },
     { icon: <FileText />, label: 'AI Reports', href: '/reports', key: 'reports' },
@@ -125,21 +129,21 @@ export default function Sidebar({ currentPage = 'dashboard', isOpen = true, onCl
         {/* Mobile Drawer */}
         <aside 
           className={cn(
-            "fixed top-0 left-0 h-full w-80 bg-white/95 backdrop-blur-md border-r border-white/20 shadow-large z-50 transform transition-transform duration-300 ease-in-out lg:hidden safe-area",
+            "fixed top-0 left-0 h-full w-80 bg-white/95 dark:bg-secondary-800/95 backdrop-blur-md border-r border-white/20 dark:border-secondary-700/50 shadow-large z-50 transform transition-transform duration-300 ease-in-out lg:hidden safe-area",
             isOpen ? "translate-x-0" : "-translate-x-full"
           )}
           suppressHydrationWarning
         >
           {/* Header */}
-          <div className="flex items-center justify-between p-6 border-b border-white/20">
-            <h2 className="text-lg font-bold text-secondary-900">Menu</h2>
+          <div className="flex items-center justify-between p-6 border-b border-white/20 dark:border-secondary-700/50">
+            <h2 className="text-lg font-bold text-secondary-900 dark:text-secondary-100">Menu</h2>
             <button
               type="button"
               onClick={onClose}
-              className="touch-target bg-white/60 hover:bg-white/80 rounded-xl border border-white/30 transition-all duration-200"
+              className="touch-target bg-white/60 dark:bg-secondary-800/60 hover:bg-white/80 rounded-xl border border-white/30 dark:border-secondary-700/50 transition-all duration-200"
               aria-label="Close menu"
             >
-              <X className="w-5 h-5 text-gray-700" />
+              <X className="w-5 h-5 text-gray-700 dark:text-secondary-300" />
             </button>
           </div>
           
@@ -163,7 +167,7 @@ export default function Sidebar({ currentPage = 'dashboard', isOpen = true, onCl
 
   // Desktop Sidebar
   return (
-    <aside className="w-72 bg-white/80 backdrop-blur-md border-r border-white/20 px-6 py-8 shadow-soft hidden lg:block" suppressHydrationWarning>
+    <aside className="w-72 bg-white/80 dark:bg-secondary-800/80 backdrop-blur-md border-r border-white/20 dark:border-secondary-700/50 px-6 py-8 shadow-soft hidden lg:block" suppressHydrationWarning>
       <nav className="space-y-3" suppressHydrationWarning>
         {menuItems.map((item) => (
           <SidebarItem
@@ -31,35 +31,35 @@ export default function AccountTab() {
   return (
     <div className="space-y-6">
       {/* Profile Information */}
-      <div className="bg-white rounded-xl border border-gray-100 p-6 shadow-sm">
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
         <div className="flex items-center space-x-3 mb-6">
-          <User className="w-5 h-5 text-gray-600" />
-          <h3 className="text-lg font-semibold text-gray-900">Profile Information</h3>
+          <User className="w-5 h-5 text-gray-600 dark:text-secondary-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100">Profile Information</h3>
         </div>
         
         <form onSubmit={handleUpdateProfile} className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
                 Full Name
               </label>
               <input
                 type="text"
                 value={accountData.name}
                 onChange={(e) => handleInputChange('name', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               />
             </div>
             
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
                 Email Address
               </label>
               <input
                 type="email"
                 value={accountData.email}
                 onChange={(e) => handleInputChange('email', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               />
             </div>
           </div>
@@ -76,47 +76,47 @@ export default function AccountTab() {
       </div>
 
       {/* Change Password */}
-      <div className="bg-white rounded-xl border border-gray-100 p-6 shadow-sm">
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
         <div className="flex items-center space-x-3 mb-6">
-          <Lock className="w-5 h-5 text-gray-600" />
-          <h3 className="text-lg font-semibold text-gray-900">Change Password</h3>
+          <Lock className="w-5 h-5 text-gray-600 dark:text-secondary-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100">Change Password</h3>
         </div>
         
         <form onSubmit={handleChangePassword} className="space-y-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
               Current Password
             </label>
             <input
               type="password"
               value={accountData.currentPassword}
               onChange={(e) => handleInputChange('currentPassword', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
             />
           </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
                 New Password
               </label>
               <input
                 type="password"
                 value={accountData.newPassword}
                 onChange={(e) => handleInputChange('newPassword', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               />
             </div>
             
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
                 Confirm New Password
               </label>
               <input
                 type="password"
                 value={accountData.confirmPassword}
                 onChange={(e) => handleInputChange('confirmPassword', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               />
             </div>
           </div>
@@ -133,15 +133,15 @@ export default function AccountTab() {
       </div>
 
       {/* Danger Zone */}
-      <div className="bg-white rounded-xl border border-red-200 p-6 shadow-sm">
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-red-200 dark:border-red-800 p-6 shadow-sm">
         <div className="flex items-center space-x-3 mb-6">
           <Trash2 className="w-5 h-5 text-red-600" />
-          <h3 className="text-lg font-semibold text-red-900">Danger Zone</h3>
+          <h3 className="text-lg font-semibold text-red-900 dark:text-red-300">Danger Zone</h3>
         </div>
         
-        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-          <h4 className="text-sm font-medium text-red-900 mb-2">Delete Account</h4>
-          <p className="text-sm text-red-700 mb-4">
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <h4 className="text-sm font-medium text-red-900 dark:text-red-300 mb-2">Delete Account</h4>
+          <p className="text-sm text-red-700 dark:text-red-300 mb-4">
             Once you delete your account, there is no going back. Please be certain.
           </p>
           <button
@@ -1,21 +1,61 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Palette, Monitor, Sun, Moon } from 'lucide-react'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { useTheme } from '@/contexts/ThemeContext'
+import { ThemeMode, UserPreferences } from '@/types'
+
+// The theme is saved as soon as it is picked; the rest with Save Changes
+type AppearancePreferences = Pick<UserPreferences, 'accentColor' | 'fontSize' | 'compactMode'>
 
 export default function AppearanceTab() {
-  const [appearance, setAppearance] = useState({
-    theme: 'light',
-    accentColor: 'blue',
-    fontSize: 'medium',
-    compactMode: false
-  })
+  const { preferences, loading, savePreferences } = usePreferences()
+  const { theme: activeTheme, setTheme } = useTheme()
+  const [appearance, setAppearance] = useState<AppearancePreferences>(preferences)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Start from the saved appearance once the preferences load
+  useEffect(() => {
+    setAppearance(preferences)
+  }, [preferences])
 
-  const handleAppearanceChange = (key: string, value: any) => {
+  const handleAppearanceChange = <K extends keyof AppearancePreferences>(key: K, value: AppearancePreferences[K]) => {
     setAppearance(prev => ({ ...prev, [key]: value }))
+    setMessage(null)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    setMessage(null)
+    try {
+      await savePreferences({
+        accentColor: appearance.accentColor,
+        fontSize: appearance.fontSize,
+        compactMode: appearance.compactMode
+      })
+      setMessage('Appearance saved')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save appearance')
+    } finally {
+      setIsSaving(false)
+    }
   }
 
-  const themes = [
+  const handleThemeChange = async (theme: ThemeMode) => {
+    setError(null)
+    setMessage(null)
+    try {
+      await setTheme(theme)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save theme')
+    }
+  }
+
+  const themes: Array<{ id: ThemeMode; name: string; icon: React.ReactNode }> = [
     { id: 'light', name: 'Light', icon: <Sun className="w-5 h-5" /> },
     { id: 'dark', name: 'Dark', icon: <Moon className="w-5 h-5" /> },
     { id: 'system', name: 'System', icon: <Monitor className="w-5 h-5" /> }
@@ -33,10 +73,10 @@ export default function AppearanceTab() {
   return (
     <div className="space-y-6">
       {/* Theme Selection */}
-      <div className="bg-white rounded-xl border border-gray-100 p-6 shadow-sm">
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
         <div className="flex items-center space-x-3 mb-6">
-          <Palette className="w-5 h-5 text-gray-600" />
-          <h3 className="text-lg font-semibold text-gray-900">Theme</h3>
+          <Palette className="w-5 h-5 text-gray-600 dark:text-secondary-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100">Theme</h3>
         </div>
         
         <div className="grid grid-cols-3 gap-4">
@@ -44,11 +84,12 @@ export default function AppearanceTab() {
             <button
               key={theme.id}
               type="button"
-              onClick={() => handleAppearanceChange('theme', theme.id)}
+              onClick={() => handleThemeChange(theme.id)}
+              disabled={loading}
               className={`p-4 border-2 rounded-lg transition-colors ${
-                appearance.theme === theme.id
-                  ? 'border-primary-500 bg-primary-50'
-                  : 'border-gray-200 hover:border-gray-300'
+                activeTheme === theme.id
+                  ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                  : 'border-gray-200 dark:border-secondary-700 hover:border-gray-300 dark:hover:border-secondary-600'
               }`}
             >
               <div className="flex flex-col items-center space-y-2">
@@ -61,8 +102,8 @@ export default function AppearanceTab() {
       </div>
 
       {/* Accent Color */}
-      <div className="bg-white rounded-xl border border-gray-100 p-6 shadow-sm">
-        <h3 className="text-lg font-semibold text-gray-900 mb-6">Accent Color</h3>
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100 mb-6">Accent Color</h3>
         
         <div className="grid grid-cols-6 gap-3">
           {accentColors.map((color) => (
@@ -73,11 +114,11 @@ export default function AppearanceTab() {
               className={`relative p-3 rounded-lg border-2 transition-colors ${
                 appearance.accentColor === color.id
                   ? 'border-gray-400'
-                  : 'border-gray-200 hover:border-gray-300'
+                  : 'border-gray-200 dark:border-secondary-700 hover:border-gray-300 dark:hover:border-secondary-600'
               }`}
             >
               <div className={`w-8 h-8 rounded-full ${color.color} mx-auto`}></div>
-              <span className="text-xs text-gray-600 mt-1 block">{color.name}</span>
+              <span className="text-xs text-gray-600 dark:text-secondary-400 mt-1 block">{color.name}</span>
               {appearance.accentColor === color.id && (
                 <div className="absolute -top-1 -right-1 w-4 h-4 bg-primary-500 rounded-full flex items-center justify-center">
                   <div className="w-2 h-2 bg-white rounded-full"></div>
@@ -89,25 +130,25 @@ export default function AppearanceTab() {
       </div>
 
       {/* Display Options */}
-      <div className="bg-white rounded-xl border border-gray-100 p-6 shadow-sm">
-        <h3 className="text-lg font-semibold text-gray-900 mb-6">Display Options</h3>
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100 mb-6">Display Options</h3>
         
         <div className="space-y-6">
           {/* Font Size */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-3">
               Font Size
             </label>
             <div className="flex space-x-4">
-              {['small', 'medium', 'large'].map((size) => (
+              {(['small', 'medium', 'large'] as const).map((size) => (
                 <button
                   key={size}
                   type="button"
                   onClick={() => handleAppearanceChange('fontSize', size)}
                   className={`px-4 py-2 rounded-lg border transition-colors capitalize ${
                     appearance.fontSize === size
-                      ? 'border-primary-500 bg-primary-50 text-primary-700'
-                      : 'border-gray-200 hover:border-gray-300'
+                      ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300'
+                      : 'border-gray-200 dark:border-secondary-700 hover:border-gray-300 dark:hover:border-secondary-600'
                   }`}
                 >
                   {size}
@@ -119,8 +160,8 @@ export default function AppearanceTab() {
           {/* Compact Mode */}
           <div className="flex items-center justify-between">
             <div>
-              <h4 className="text-sm font-medium text-gray-900">Compact Mode</h4>
-              <p className="text-sm text-gray-500">Reduce spacing and padding for more content</p>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-secondary-100">Compact Mode</h4>
+              <p className="text-sm text-gray-500 dark:text-secondary-400">Reduce spacing and padding for more content</p>
             </div>
             <label className="relative inline-flex items-center cursor-pointer">
               <input
@@ -129,18 +170,27 @@ export default function AppearanceTab() {
                 onChange={(e) => handleAppearanceChange('compactMode', e.target.checked)}
                 className="sr-only peer"
               />
-              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-500"></div>
+              <div className="w-11 h-6 bg-gray-200 dark:bg-secondary-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-500"></div>
             </label>
           </div>
         </div>
       </div>
 
-      <div className="flex justify-end">
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end space-x-4">
+        {message && <span className="text-sm text-green-700 dark:text-green-300">{message}</span>}
         <button
           type="button"
-          className="px-6 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+          onClick={handleSave}
+          disabled={loading || isSaving}
+          className="px-6 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors disabled:opacity-50"
         >
-          Save Changes
+          {isSaving ? 'Saving...' : 'Save Changes'}
         </button>
       </div>
     </div>
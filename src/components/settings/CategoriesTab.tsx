@@ -0,0 +1,362 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Edit, Trash2, GitMerge, Tags } from 'lucide-react'
+import { useApp } from '@/contexts/AppContext'
+import { CATEGORY_COLORS, CATEGORY_ICONS, DEFAULT_CATEGORY_ICON, getCategoryIcon } from '@/lib/categories'
+import { getCategoryAllocations } from '@/lib/splits'
+import { cn } from '@/lib/utils'
+import type { Category } from '@/types'
+
+const emptyForm = {
+  name: '',
+  parentId: '',
+  color: CATEGORY_COLORS[0] || '#6b7280',
+  icon: DEFAULT_CATEGORY_ICON
+}
+
+export default function CategoriesTab() {
+  const {
+    categories,
+    transactions,
+    addCategory,
+    updateCategory,
+    renameCategory,
+    mergeCategories,
+    deleteCategory
+  } = useApp()
+  const [formData, setFormData] = useState(emptyForm)
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null)
+  const [mergingCategory, setMergingCategory] = useState<Category | null>(null)
+  const [mergeTargetId, setMergeTargetId] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const topLevelCategories = categories
+    .filter(c => !c.parentId)
+    .sort((a, b) => a.name.localeCompare(b.name))
+  const getSubcategories = (category: Category) => categories
+    .filter(c => c.parentId === category.id)
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  // Categories with subcategories stay top-level so the hierarchy is two levels deep
+  const parentOptions = topLevelCategories.filter(c => c.id !== editingCategory?.id)
+  const canHaveParent = !editingCategory || getSubcategories(editingCategory).length === 0
+
+  const getUsageCount = (category: Category) => transactions.filter(t =>
+    getCategoryAllocations(t).some(allocation => allocation.category === category.name)
+  ).length
+
+  const openEdit = (category: Category) => {
+    setEditingCategory(category)
+    setFormData({
+      name: category.name,
+      parentId: category.parentId || '',
+      color: category.color,
+      icon: category.icon
+    })
+    setError(null)
+  }
+
+  const resetForm = () => {
+    setEditingCategory(null)
+    setFormData(emptyForm)
+    setError(null)
+  }
+
+  const saveCategory = async () => {
+    const name = formData.name.trim()
+    if (!name) {
+      setError('Please enter a category name')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      if (editingCategory) {
+        if (name !== editingCategory.name) {
+          await renameCategory(editingCategory.id, name)
+        }
+        await updateCategory(editingCategory.id, {
+          parentId: formData.parentId || undefined,
+          color: formData.color,
+          icon: formData.icon
+        })
+      } else {
+        await addCategory({
+          name,
+          parentId: formData.parentId || undefined,
+          color: formData.color,
+          icon: formData.icon
+        })
+      }
+      resetForm()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save category')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const confirmMerge = async () => {
+    if (!mergingCategory || !mergeTargetId) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      await mergeCategories(mergingCategory.id, mergeTargetId)
+      setMergingCategory(null)
+      setMergeTargetId('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge categories')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removeCategory = async (category: Category) => {
+    const message = `Delete ${category.name}? Transactions keep the name but it will no longer appear in pickers. ` +
+      'Merge it into another category to move its transactions instead.'
+    if (!confirm(message)) return
+    try {
+      await deleteCategory(category.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete category')
+    }
+  }
+
+  const renderCategoryRow = (category: Category, depth: number) => {
+    const Icon = getCategoryIcon(category.icon)
+    return (
+      <div
+        key={category.id}
+        className={cn('flex items-center justify-between py-3 border-b border-gray-100 dark:border-secondary-700 last:border-0', depth > 0 && 'pl-8')}
+      >
+        <div className="flex items-center space-x-3">
+          <div
+            className="w-8 h-8 rounded-lg flex items-center justify-center"
+            style={{ backgroundColor: `${category.color}20` }}
+          >
+            <Icon className="w-4 h-4" style={{ color: category.color }} />
+          </div>
+          <div>
+            <p className="font-medium text-gray-900 dark:text-secondary-100">{category.name}</p>
+            <p className="text-xs text-gray-500 dark:text-secondary-400">{getUsageCount(category)} transactions</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={() => openEdit(category)}
+            className="p-2 text-gray-400 dark:text-secondary-500 hover:text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/30 rounded-lg transition-colors"
+            title="Edit category"
+          >
+            <Edit className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setMergingCategory(category)
+              setMergeTargetId('')
+              setError(null)
+            }}
+            className="p-2 text-gray-400 dark:text-secondary-500 hover:text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/30 rounded-lg transition-colors"
+            title="Merge into another category"
+          >
+            <GitMerge className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => removeCategory(category)}
+            className="p-2 text-gray-400 dark:text-secondary-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+            title="Delete category"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Add / Edit */}
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100 mb-4">
+          {editingCategory ? `Edit ${editingCategory.name}` : 'Add Category'}
+        </h3>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 mb-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Name</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              placeholder="e.g. Groceries"
+            />
+            {editingCategory && formData.name.trim() !== editingCategory.name && (
+              <p className="text-xs text-gray-500 dark:text-secondary-400 mt-1">Renaming updates every transaction, split and budget using it</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Parent category</label>
+            <select
+              value={formData.parentId}
+              onChange={(e) => setFormData({ ...formData, parentId: e.target.value })}
+              disabled={!canHaveParent}
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50"
+              title="Parent category"
+            >
+              <option value="">None (top-level)</option>
+              {parentOptions.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+            {!canHaveParent && (
+              <p className="text-xs text-gray-500 dark:text-secondary-400 mt-1">Categories with subcategories stay top-level</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Color</label>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setFormData({ ...formData, color })}
+                  className={cn(
+                    'w-7 h-7 rounded-full border-2 transition-transform',
+                    formData.color === color ? 'border-gray-900 scale-110' : 'border-transparent'
+                  )}
+                  style={{ backgroundColor: color }}
+                  title={color}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Icon</label>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => setFormData({ ...formData, icon: name })}
+                  className={cn(
+                    'w-8 h-8 rounded-lg flex items-center justify-center border transition-colors',
+                    formData.icon === name ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20' : 'border-gray-200 dark:border-secondary-700 hover:bg-gray-50 dark:hover:bg-secondary-700'
+                  )}
+                  title={name}
+                >
+                  <Icon className="w-4 h-4 text-gray-700 dark:text-secondary-300" />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={saveCategory}
+            disabled={isSaving}
+            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors inline-flex items-center space-x-2"
+          >
+            {!editingCategory && <Plus className="w-4 h-4" />}
+            <span>{editingCategory ? 'Save Changes' : 'Add Category'}</span>
+          </button>
+          {editingCategory && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 border border-gray-300 dark:border-secondary-600 text-gray-700 dark:text-secondary-300 rounded-lg hover:bg-gray-50 dark:hover:bg-secondary-700"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Category List */}
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
+        <div className="flex items-center space-x-3 mb-4">
+          <Tags className="w-5 h-5 text-gray-600 dark:text-secondary-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100">Your Categories</h3>
+        </div>
+
+        {categories.length === 0 ? (
+          <p className="text-gray-600 dark:text-secondary-400">No categories yet. Add one above to get started.</p>
+        ) : (
+          <div>
+            {topLevelCategories.map((category) => (
+              <div key={category.id}>
+                {renderCategoryRow(category, 0)}
+                {getSubcategories(category).map((subcategory) => renderCategoryRow(subcategory, 1))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Merge Modal */}
+      {mergingCategory && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-secondary-800 rounded-xl p-6 w-full max-w-md mx-4">
+            <h3 className="text-lg font-bold text-gray-900 dark:text-secondary-100 mb-2">Merge {mergingCategory.name}</h3>
+            <p className="text-sm text-gray-600 dark:text-secondary-400 mb-4">
+              Its transactions, splits, budgets and subcategories move to the category you choose,
+              and {mergingCategory.name} is removed.
+            </p>
+            <select
+              value={mergeTargetId}
+              onChange={(e) => setMergeTargetId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-secondary-600 rounded-lg focus:ring-2 focus:ring-primary-500"
+              title="Merge into"
+            >
+              <option value="">Choose a category...</option>
+              {categories
+                .filter(c => c.id !== mergingCategory.id)
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+            </select>
+            <div className="flex space-x-3 mt-6">
+              <button
+                type="button"
+                onClick={confirmMerge}
+                disabled={!mergeTargetId || isSaving}
+                className="flex-1 px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Merging...' : 'Merge'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setMergingCategory(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-secondary-600 text-gray-700 dark:text-secondary-300 rounded-lg hover:bg-gray-50 dark:hover:bg-secondary-700"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,449 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Edit, Trash2, Wand2, ChevronDown, ChevronRight } from 'lucide-react'
+import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { RULE_MATCH_TYPES, RuleChange, previewRuleChanges, validateRule } from '@/lib/categorizationRules'
+import CategoryOptions from '@/components/ui/CategoryOptions'
+import type { CategorizationRule, RuleMatchType } from '@/types'
+
+const emptyForm = {
+  name: '',
+  matchType: 'contains' as RuleMatchType,
+  pattern: '',
+  amountMin: '',
+  amountMax: '',
+  accountId: '',
+  transactionType: '' as '' | 'income' | 'expense',
+  category: '',
+  priority: '0',
+  isActive: true
+}
+
+// Changes listed under a rule before the rest are summarized
+const PREVIEW_LIMIT = 5
+
+export default function CategorizationRulesTab() {
+  const {
+    categorizationRules,
+    transactions,
+    accounts,
+    categories,
+    addCategorizationRule,
+    updateCategorizationRule,
+    deleteCategorizationRule,
+    applyCategorizationRules
+  } = useApp()
+  const [formData, setFormData] = useState(emptyForm)
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(null)
+  const [expandedRuleId, setExpandedRuleId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const { formatCurrency } = usePreferences()
+
+  const parseAmount = (value: string) => (value.trim() === '' ? undefined : parseFloat(value))
+
+  const ruleFromForm = (): Omit<CategorizationRule, 'id' | 'createdAt' | 'updatedAt'> => ({
+    name: formData.name.trim() || formData.pattern.trim() || formData.category,
+    matchType: formData.matchType,
+    pattern: formData.pattern.trim() || undefined,
+    amountMin: parseAmount(formData.amountMin),
+    amountMax: parseAmount(formData.amountMax),
+    accountId: formData.accountId || undefined,
+    transactionType: formData.transactionType || undefined,
+    category: formData.category,
+    priority: parseInt(formData.priority) || 0,
+    isActive: formData.isActive
+  })
+
+  const draftRule: CategorizationRule = {
+    ...ruleFromForm(),
+    id: editingRule?.id || 'draft',
+    isActive: true,
+    createdAt: editingRule?.createdAt || new Date(),
+    updatedAt: new Date()
+  }
+  const draftError = validateRule(draftRule)
+  const draftChanges = draftError ? [] : previewRuleChanges([draftRule], transactions)
+  const allChanges = previewRuleChanges(categorizationRules, transactions)
+
+  const sortedRules = [...categorizationRules].sort((a, b) =>
+    a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime()
+  )
+
+  const describeRule = (rule: CategorizationRule) => {
+    const conditions: string[] = []
+    if (rule.pattern) {
+      const label = RULE_MATCH_TYPES.find(t => t.value === rule.matchType)?.label || 'Description contains'
+      conditions.push(`${label} "${rule.pattern}"`)
+    }
+    if (rule.amountMin !== undefined && rule.amountMax !== undefined) {
+      conditions.push(`amount ${formatCurrency(rule.amountMin)}–${formatCurrency(rule.amountMax)}`)
+    } else if (rule.amountMin !== undefined) {
+      conditions.push(`amount at least ${formatCurrency(rule.amountMin)}`)
+    } else if (rule.amountMax !== undefined) {
+      conditions.push(`amount at most ${formatCurrency(rule.amountMax)}`)
+    }
+    if (rule.accountId) {
+      conditions.push(`account ${accounts.find(a => a.id === rule.accountId)?.name || 'unknown'}`)
+    }
+    if (rule.transactionType) conditions.push(rule.transactionType)
+    return conditions.join(', ')
+  }
+
+  const openEdit = (rule: CategorizationRule) => {
+    setEditingRule(rule)
+    setFormData({
+      name: rule.name,
+      matchType: rule.matchType,
+      pattern: rule.pattern || '',
+      amountMin: rule.amountMin?.toString() || '',
+      amountMax: rule.amountMax?.toString() || '',
+      accountId: rule.accountId || '',
+      transactionType: rule.transactionType || '',
+      category: rule.category,
+      priority: rule.priority.toString(),
+      isActive: rule.isActive
+    })
+    setError(null)
+  }
+
+  const resetForm = () => {
+    setEditingRule(null)
+    setFormData(emptyForm)
+    setError(null)
+  }
+
+  const saveRule = async () => {
+    if (draftError) {
+      setError(draftError)
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      if (editingRule) {
+        await updateCategorizationRule(editingRule.id, ruleFromForm())
+      } else {
+        await addCategorizationRule(ruleFromForm())
+      }
+      resetForm()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removeRule = async (rule: CategorizationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"? Transactions it already categorized keep their category.`)) return
+    try {
+      await deleteCategorizationRule(rule.id)
+      if (editingRule?.id === rule.id) resetForm()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule')
+    }
+  }
+
+  const applyRules = async () => {
+    if (!confirm(`Recategorize ${allChanges.length} existing transactions with your rules?`)) return
+
+    setIsApplying(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const changed = await applyCategorizationRules()
+      setMessage(`${changed} transactions recategorized`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply rules')
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const renderChanges = (changes: RuleChange[]) => (
+    <div className="space-y-1">
+      {changes.slice(0, PREVIEW_LIMIT).map(({ transaction, category }) => (
+        <div key={transaction.id} className="flex items-center justify-between text-sm">
+          <span className="text-gray-700 dark:text-secondary-300 truncate mr-4">{transaction.description}</span>
+          <span className="text-gray-500 dark:text-secondary-400 whitespace-nowrap">
+            {transaction.category} → <span className="font-medium text-gray-900 dark:text-secondary-100">{category}</span>
+          </span>
+        </div>
+      ))}
+      {changes.length > PREVIEW_LIMIT && (
+        <p className="text-xs text-gray-500 dark:text-secondary-400">and {changes.length - PREVIEW_LIMIT} more</p>
+      )}
+    </div>
+  )
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+
+  return (
+    <div className="space-y-6">
+      {/* Add / Edit */}
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100 mb-1">
+          {editingRule ? `Edit ${editingRule.name}` : 'Add Rule'}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-secondary-400 mb-4">
+          Rules categorize imported transactions and transactions added without a category.
+          Every condition you fill in must match; the first matching rule wins.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 mb-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Description</label>
+            <div className="flex space-x-2">
+              <select
+                value={formData.matchType}
+                onChange={(e) => setFormData({ ...formData, matchType: e.target.value as RuleMatchType })}
+                className="px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                title="Match type"
+              >
+                {RULE_MATCH_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={formData.pattern}
+                onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+                className={inputClass}
+                placeholder={formData.matchType === 'regex' ? '^AMZN\\s' : 'AMZN'}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Amount range</label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.amountMin}
+                onChange={(e) => setFormData({ ...formData, amountMin: e.target.value })}
+                className={inputClass}
+                placeholder="Min"
+              />
+              <span className="text-gray-400 dark:text-secondary-500">–</span>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.amountMax}
+                onChange={(e) => setFormData({ ...formData, amountMax: e.target.value })}
+                className={inputClass}
+                placeholder="Max"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Account</label>
+            <select
+              value={formData.accountId}
+              onChange={(e) => setFormData({ ...formData, accountId: e.target.value })}
+              className={inputClass}
+              title="Account"
+            >
+              <option value="">Any account</option>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>{account.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Type</label>
+            <select
+              value={formData.transactionType}
+              onChange={(e) => setFormData({ ...formData, transactionType: e.target.value as '' | 'income' | 'expense' })}
+              className={inputClass}
+              title="Transaction type"
+            >
+              <option value="">Income or expense</option>
+              <option value="expense">Expense</option>
+              <option value="income">Income</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Assign category</label>
+            <select
+              value={formData.category}
+              onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+              className={inputClass}
+              title="Category"
+            >
+              <option value="">Choose a category...</option>
+              <CategoryOptions categories={categories} />
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Priority</label>
+              <input
+                type="number"
+                step="1"
+                value={formData.priority}
+                onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                className={inputClass}
+                title="Lower runs first"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+        </div>
+
+        <label className="flex items-center space-x-2 mt-4">
+          <input
+            type="checkbox"
+            checked={formData.isActive}
+            onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+            className="rounded border-gray-300 dark:border-secondary-600 text-primary-600 focus:ring-primary-500"
+          />
+          <span className="text-sm text-gray-700 dark:text-secondary-300">Active</span>
+        </label>
+
+        {/* Preview */}
+        {!draftError && (
+          <div className="mt-4 bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-4">
+            <p className="text-sm font-medium text-gray-900 dark:text-secondary-100 mb-2">
+              {draftChanges.length === 0
+                ? 'This rule would not change any existing transactions'
+                : `This rule would change ${draftChanges.length} existing transactions`}
+            </p>
+            {renderChanges(draftChanges)}
+          </div>
+        )}
+
+        <div className="flex items-center space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={saveRule}
+            disabled={isSaving}
+            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors inline-flex items-center space-x-2"
+          >
+            {!editingRule && <Plus className="w-4 h-4" />}
+            <span>{editingRule ? 'Save Changes' : 'Add Rule'}</span>
+          </button>
+          {editingRule && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 border border-gray-300 dark:border-secondary-600 text-gray-700 dark:text-secondary-300 rounded-lg hover:bg-gray-50 dark:hover:bg-secondary-700"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Rule List */}
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100">Your Rules</h3>
+          <button
+            type="button"
+            onClick={applyRules}
+            disabled={isApplying || allChanges.length === 0}
+            className="px-4 py-2 border border-gray-300 dark:border-secondary-600 text-gray-700 dark:text-secondary-300 rounded-lg hover:bg-gray-50 dark:hover:bg-secondary-700 disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center space-x-2"
+          >
+            <Wand2 className="w-4 h-4" />
+            <span>
+              {isApplying ? 'Applying...' : `Apply to existing transactions (${allChanges.length})`}
+            </span>
+          </button>
+        </div>
+
+        {message && (
+          <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-3 mb-4">
+            <p className="text-sm text-green-700 dark:text-green-300">{message}</p>
+          </div>
+        )}
+
+        {sortedRules.length === 0 ? (
+          <p className="text-gray-600 dark:text-secondary-400">No rules yet. Add one above to categorize transactions automatically.</p>
+        ) : (
+          <div>
+            {sortedRules.map((rule) => {
+              const changes = previewRuleChanges([{ ...rule, isActive: true }], transactions)
+              const isExpanded = expandedRuleId === rule.id
+              return (
+                <div key={rule.id} className="py-3 border-b border-gray-100 dark:border-secondary-700 last:border-0">
+                  <div className="flex items-center justify-between">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedRuleId(isExpanded ? null : rule.id)}
+                      className="flex items-start space-x-2 text-left"
+                    >
+                      {isExpanded
+                        ? <ChevronDown className="w-4 h-4 mt-1 text-gray-400 dark:text-secondary-500" />
+                        : <ChevronRight className="w-4 h-4 mt-1 text-gray-400 dark:text-secondary-500" />}
+                      <div>
+                        <p className={rule.isActive ? 'font-medium text-gray-900 dark:text-secondary-100' : 'font-medium text-gray-400 dark:text-secondary-500'}>
+                          {rule.name} → {rule.category}
+                          {!rule.isActive && <span className="ml-2 text-xs">(inactive)</span>}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-secondary-400">
+                          {describeRule(rule)} · priority {rule.priority} · would change {changes.length}
+                        </p>
+                      </div>
+                    </button>
+                    <div className="flex items-center space-x-1">
+                      <button
+                        type="button"
+                        onClick={() => openEdit(rule)}
+                        className="p-2 text-gray-400 dark:text-secondary-500 hover:text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/30 rounded-lg transition-colors"
+                        title="Edit rule"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeRule(rule)}
+                        className="p-2 text-gray-400 dark:text-secondary-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  {isExpanded && (
+                    <div className="mt-3 ml-6">
+                      {changes.length === 0
+                        ? <p className="text-sm text-gray-500 dark:text-secondary-400">No existing transactions would change</p>
+                        : renderChanges(changes)}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
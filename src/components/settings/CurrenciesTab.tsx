@@ -0,0 +1,186 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Upload, Trash2, RefreshCw } from 'lucide-react'
+import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { CURRENCIES } from '@/lib/formatting'
+import { findMissingRates, isForeignCurrency, parseExchangeRatesCsv } from '@/lib/currency'
+import type { ExchangeRateSource } from '@/types'
+
+// Saved rates listed before the rest are summarized
+const RATE_LIST_LIMIT = 50
+
+const SOURCE_LABELS: Record<ExchangeRateSource, string> = {
+  csv: 'Imported',
+  manual: 'Entered',
+  local: 'Reference'
+}
+
+export default function CurrenciesTab() {
+  const { transactions, exchangeRates, currencyConverter, saveExchangeRates, deleteExchangeRate, addReferenceRates } = useApp()
+  const { formatDate } = usePreferences()
+  const [isSaving, setIsSaving] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const baseCurrency = currencyConverter.baseCurrency
+  const foreignCount = transactions.filter(t => isForeignCurrency(t, currencyConverter)).length
+  const missingRates = findMissingRates(transactions, currencyConverter)
+  const newestFirst = [...exchangeRates].sort((a, b) => b.date.getTime() - a.date.getTime())
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setErrors([])
+    setMessage(null)
+    setIsSaving(true)
+    try {
+      const { rates, errors: parseErrors } = parseExchangeRatesCsv(await file.text(), baseCurrency)
+      setErrors(parseErrors)
+      if (rates.length > 0) {
+        const saved = await saveExchangeRates(rates)
+        setMessage(`${saved} rates saved from ${file.name}`)
+      }
+    } catch (err) {
+      console.error('CurrenciesTab: Failed to import rates:', err)
+      setErrors([err instanceof Error ? err.message : 'The file could not be read'])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAddReferenceRates = async () => {
+    setErrors([])
+    setMessage(null)
+    setIsSaving(true)
+    try {
+      const saved = await addReferenceRates()
+      setMessage(`${saved} reference rates saved`)
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to save reference rates'])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removeRate = async (id: string) => {
+    try {
+      await deleteExchangeRate(id)
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to delete rate'])
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Base Currency */}
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100 mb-1">Base Currency</h3>
+        <p className="text-sm text-gray-600 dark:text-secondary-400 mb-4">
+          Totals, budgets and reports are in {CURRENCIES.find(c => c.value === baseCurrency)?.label || baseCurrency}.
+          Transactions in other currencies keep their own amount and are converted at the rate of their date.
+          Change the base currency under Preferences.
+        </p>
+
+        <div className="flex items-center justify-between bg-gray-50 dark:bg-secondary-900/50 rounded-lg p-4">
+          <div>
+            <p className="text-sm font-medium text-gray-900 dark:text-secondary-100">
+              {foreignCount} transactions in other currencies
+            </p>
+            <p className="text-sm text-gray-600 dark:text-secondary-400">
+              {missingRates.length === 0
+                ? 'Every one of them is converted with a saved rate.'
+                : `${missingRates.length} of their days have no saved rate and use built-in reference rates.`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleAddReferenceRates}
+            disabled={isSaving || missingRates.length === 0}
+            className="px-4 py-2 border border-gray-300 dark:border-secondary-600 text-gray-700 dark:text-secondary-300 rounded-lg hover:bg-gray-50 dark:hover:bg-secondary-700 disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center space-x-2"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span>Save reference rates</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Import */}
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100 mb-1">Import Exchange Rates</h3>
+        <p className="text-sm text-gray-600 dark:text-secondary-400 mb-4">
+          A CSV file with date, from, to and rate columns, where rate is what one unit of &quot;from&quot; was worth in &quot;to&quot;.
+          Without a to column the rates are read as rates into {baseCurrency}. A rate for a day that already has one replaces it.
+        </p>
+
+        {errors.length > 0 && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 mb-4 space-y-1">
+            {errors.map((error, index) => (
+              <p key={index} className="text-sm text-red-600">{error}</p>
+            ))}
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-3 mb-4">
+            <p className="text-sm text-green-700 dark:text-green-300">{message}</p>
+          </div>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileSelected}
+          className="hidden"
+          title="Exchange rates file"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isSaving}
+          className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors inline-flex items-center space-x-2"
+        >
+          <Upload className="w-4 h-4" />
+          <span>{isSaving ? 'Saving...' : 'Choose CSV File'}</span>
+        </button>
+      </div>
+
+      {/* Saved Rates */}
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100 mb-4">Saved Rates</h3>
+
+        {newestFirst.length === 0 ? (
+          <p className="text-gray-600 dark:text-secondary-400">No rates saved yet. Transactions in other currencies use the built-in reference rates.</p>
+        ) : (
+          <div>
+            {newestFirst.slice(0, RATE_LIST_LIMIT).map((rate) => (
+              <div key={rate.id} className="flex items-center justify-between py-2 border-b border-gray-100 dark:border-secondary-700 last:border-0 text-sm">
+                <span className="text-gray-500 dark:text-secondary-400 w-28">{formatDate(rate.date)}</span>
+                <span className="flex-1 text-gray-900 dark:text-secondary-100">
+                  1 {rate.fromCurrency} = {rate.rate.toLocaleString(undefined, { maximumFractionDigits: 6 })} {rate.toCurrency}
+                </span>
+                <span className="text-gray-500 dark:text-secondary-400 w-24">{SOURCE_LABELS[rate.source]}</span>
+                <button
+                  type="button"
+                  onClick={() => removeRate(rate.id)}
+                  className="p-1 text-gray-400 dark:text-secondary-500 hover:text-danger-600"
+                  title="Delete rate"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {newestFirst.length > RATE_LIST_LIMIT && (
+              <p className="text-xs text-gray-500 dark:text-secondary-400 mt-2">and {newestFirst.length - RATE_LIST_LIMIT} older rates</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,115 +1,431 @@
 'use client'
 
-import { Download, Upload, Database, FileText } from 'lucide-react'
+import { useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Download, Upload, Database, FileText, FileSpreadsheet, Landmark } from 'lucide-react'
+import { useApp } from '@/contexts/AppContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { cn } from '@/lib/utils'
+import { countChanges, getPlanChanges, parseBackup, planRestore } from '@/lib/backupRestore'
+import { inOriginalCurrency } from '@/lib/currency'
+import type { DataBackup, RestoreConflictPolicy } from '@/types'
+import RestorePreview from './RestorePreview'
+import {
+  CSV_COLUMNS,
+  EXPORT_DATASETS,
+  ExportData,
+  ExportDataset,
+  ExportDateRange,
+  ExportFormat,
+  buildBackup,
+  buildCSV,
+  buildOFX,
+  buildPdfReport,
+  getDefaultColumns,
+  isInDateRange
+} from '@/lib/dataExport'
+
+const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string; description: string; icon: typeof FileText }> = [
+  { value: 'csv', label: 'CSV Format', description: 'Spreadsheet compatible', icon: FileSpreadsheet },
+  { value: 'json', label: 'JSON Backup', description: 'Everything, for restoring', icon: Database },
+  { value: 'ofx', label: 'OFX Statement', description: 'For other finance apps', icon: Landmark },
+  { value: 'pdf', label: 'PDF Report', description: 'Formatted summary', icon: FileText }
+]
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  ofx: 'application/x-ofx',
+  pdf: 'application/pdf'
+}
+
+const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
 
 export default function DataTab() {
-  const handleExportData = (format: string) => {
-    // TODO: Implement data export
-    console.log('Export data as:', format)
+  const {
+    transactions,
+    budgets,
+    goals,
+    debts,
+    accounts,
+    categories,
+    recurringTransactions,
+    categorizationRules,
+    categoryCorrections,
+    importBatches,
+    currencyConverter,
+    restoreBackup
+  } = useApp()
+  const { preferences } = usePreferences()
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [dataset, setDataset] = useState<ExportDataset>('transactions')
+  const [columns, setColumns] = useState<string[]>(getDefaultColumns('transactions'))
+  const [range, setRange] = useState<ExportDateRange>({})
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [backup, setBackup] = useState<{ data: DataBackup; fileName: string } | null>(null)
+  const [policy, setPolicy] = useState<RestoreConflictPolicy>('overwrite')
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [restoreErrors, setRestoreErrors] = useState<string[]>([])
+  const [restoreMessage, setRestoreMessage] = useState<string | null>(null)
+
+  const data: ExportData = {
+    transactions,
+    budgets,
+    goals,
+    debts,
+    accounts,
+    categories,
+    recurringTransactions,
+    categorizationRules,
+    categoryCorrections,
+    preferences,
+    currencyConverter
+  }
+  const transactionsInRange = transactions.filter(t => isInDateRange(t.date, range)).length
+  const usesDateRange = format !== 'json' && (format !== 'csv' || dataset === 'transactions')
+
+  const handleDatasetChange = (value: ExportDataset) => {
+    setDataset(value)
+    setColumns(getDefaultColumns(value))
+  }
+
+  const toggleColumn = (key: string) => {
+    setColumns(columns.includes(key) ? columns.filter(c => c !== key) : [...columns, key])
+  }
+
+  const handleExportData = () => {
+    setError(null)
+    const today = new Date().toISOString().split('T')[0]
+    const period = range.from || range.to ? `-${range.from || 'start'}-to-${range.to || today}` : ''
+
+    try {
+      switch (format) {
+        case 'csv':
+          if (columns.length === 0) {
+            setError('Choose at least one column to export.')
+            return
+          }
+          downloadFile(
+            buildCSV(dataset, data, columns, range),
+            `financeai-${dataset}${dataset === 'transactions' ? period : `-${today}`}.csv`,
+            MIME_TYPES.csv
+          )
+          break
+
+        case 'json':
+          downloadFile(JSON.stringify(buildBackup(data), null, 2), `financeai-backup-${today}.json`, MIME_TYPES.json)
+          break
+
+        case 'ofx':
+          if (transactionsInRange === 0) {
+            setError('There are no transactions in this date range.')
+            return
+          }
+          downloadFile(buildOFX(data, range), `financeai-transactions${period}.ofx`, MIME_TYPES.ofx)
+          break
+
+        case 'pdf':
+          downloadFile(buildPdfReport(data, range), `financeai-report${period || `-${today}`}.pdf`, MIME_TYPES.pdf)
+          break
+      }
+    } catch (err) {
+      console.error('DataTab: Export failed:', err)
+      setError(err instanceof Error ? err.message : 'Export failed')
+    }
   }
 
+  const restorePlan = useMemo(() => {
+    if (!backup) return null
+    // Backups keep transactions in their own currency, so they are compared that way
+    return planRestore(backup.data, {
+      transactions: transactions.map(inOriginalCurrency),
+      budgets,
+      goals,
+      recurringTransactions,
+      categorizationRules,
+      categoryCorrections,
+      preferences,
+      accountIds: accounts.map(a => a.id),
+      recurringTransactionIds: recurringTransactions.map(r => r.id),
+      importBatchIds: importBatches.map(b => b.id)
+    }, policy)
+  }, [backup, transactions, budgets, goals, recurringTransactions, categorizationRules, categoryCorrections, preferences, accounts, importBatches, policy])
+
   const handleImportData = () => {
-    // TODO: Implement data import
-    console.log('Import data')
+    fileInputRef.current?.click()
+  }
+
+  const handleBackupSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setRestoreErrors([])
+    setRestoreMessage(null)
+    try {
+      const { backup: parsed, errors } = parseBackup(await file.text())
+      if (!parsed) {
+        setRestoreErrors(errors)
+        return
+      }
+      setPolicy('overwrite')
+      setBackup({ data: parsed, fileName: file.name })
+    } catch (err) {
+      console.error('DataTab: Failed to read backup:', err)
+      setRestoreErrors(['The file could not be read'])
+    }
   }
 
+  const handleRestore = async () => {
+    if (!restorePlan) return
+    setIsRestoring(true)
+    setRestoreErrors([])
+    try {
+      await restoreBackup(restorePlan)
+      const counts = countChanges(getPlanChanges(restorePlan))
+      setRestoreMessage(`Backup restored: ${counts.create} created, ${counts.update} updated, ${counts.skip} skipped.`)
+      setBackup(null)
+    } catch (err) {
+      setRestoreErrors([err instanceof Error ? err.message : 'Failed to restore backup'])
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+
   return (
     <div className="space-y-6">
       {/* Data Export */}
-      <div className="bg-white rounded-xl border border-gray-100 p-6 shadow-sm">
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
         <div className="flex items-center space-x-3 mb-6">
-          <Download className="w-5 h-5 text-gray-600" />
-          <h3 className="text-lg font-semibold text-gray-900">Export Data</h3>
+          <Download className="w-5 h-5 text-gray-600 dark:text-secondary-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100">Export Data</h3>
         </div>
         
-        <p className="text-gray-600 mb-6">
+        <p className="text-gray-600 dark:text-secondary-400 mb-6">
           Download your financial data in various formats for backup or analysis.
         </p>
         
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <button
-            type="button"
-            onClick={() => handleExportData('csv')}
-            className="p-4 border border-gray-200 rounded-lg hover:border-primary-300 hover:bg-primary-50 transition-colors text-center"
-          >
-            <FileText className="w-8 h-8 text-gray-600 mx-auto mb-2" />
-            <h4 className="font-medium text-gray-900">CSV Format</h4>
-            <p className="text-sm text-gray-500">Spreadsheet compatible</p>
-          </button>
-          
-          <button
-            type="button"
-            onClick={() => handleExportData('json')}
-            className="p-4 border border-gray-200 rounded-lg hover:border-primary-300 hover:bg-primary-50 transition-colors text-center"
-          >
-            <Database className="w-8 h-8 text-gray-600 mx-auto mb-2" />
-            <h4 className="font-medium text-gray-900">JSON Format</h4>
-            <p className="text-sm text-gray-500">Developer friendly</p>
-          </button>
-          
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {EXPORT_FORMATS.map(({ value, label, description, icon: Icon }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => {
+                setFormat(value)
+                setError(null)
+              }}
+              className={cn(
+                'p-4 border rounded-lg transition-colors text-center',
+                format === value
+                  ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                  : 'border-gray-200 dark:border-secondary-700 hover:border-primary-300 hover:bg-primary-50 dark:hover:bg-primary-900/30'
+              )}
+            >
+              <Icon className="w-8 h-8 text-gray-600 dark:text-secondary-400 mx-auto mb-2" />
+              <h4 className="font-medium text-gray-900 dark:text-secondary-100">{label}</h4>
+              <p className="text-sm text-gray-500 dark:text-secondary-400">{description}</p>
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-4">
+          {format === 'csv' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Data</label>
+                <select
+                  value={dataset}
+                  onChange={(e) => handleDatasetChange(e.target.value as ExportDataset)}
+                  className={inputClass}
+                  title="Data to export"
+                >
+                  {EXPORT_DATASETS.map(d => (
+                    <option key={d.value} value={d.value}>{d.label} ({data[d.value].length})</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Columns</label>
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                  {CSV_COLUMNS[dataset].map(column => (
+                    <label key={column.key} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-secondary-300">
+                      <input
+                        type="checkbox"
+                        checked={columns.includes(column.key)}
+                        onChange={() => toggleColumn(column.key)}
+                        className="rounded border-gray-300 dark:border-secondary-600 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span>{column.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {usesDateRange && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Transaction dates</label>
+              <div className="flex items-center space-x-2 max-w-md">
+                <input
+                  type="date"
+                  value={range.from || ''}
+                  onChange={(e) => setRange({ ...range, from: e.target.value || undefined })}
+                  className={inputClass}
+                  title="From"
+                />
+                <span className="text-gray-400 dark:text-secondary-500">–</span>
+                <input
+                  type="date"
+                  value={range.to || ''}
+                  onChange={(e) => setRange({ ...range, to: e.target.value || undefined })}
+                  className={inputClass}
+                  title="To"
+                />
+              </div>
+              <p className="text-xs text-gray-500 dark:text-secondary-400 mt-1">
+                {transactionsInRange} of {transactions.length} transactions. Leave empty to export all.
+              </p>
+            </div>
+          )}
+
+          {format === 'json' && (
+            <p className="text-sm text-gray-600 dark:text-secondary-400">
+              A complete backup of {transactions.length} transactions, {budgets.length} budgets, {goals.length} goals,{' '}
+              {debts.length} debts, {accounts.length} accounts, {categories.length} categories,{' '}
+              {recurringTransactions.length} recurring rules, {categorizationRules.length} categorization rules,{' '}
+              {categoryCorrections.length} learned categories and your preferences.
+            </p>
+          )}
+          {format === 'ofx' && (
+            <p className="text-sm text-gray-600 dark:text-secondary-400">
+              One statement per account, for importing into other finance apps. Transfers appear in both accounts.
+            </p>
+          )}
+          {format === 'pdf' && (
+            <p className="text-sm text-gray-600 dark:text-secondary-400">
+              Income and spending for the period, spending by category, budgets, goals, debts, account balances and the transactions.
+            </p>
+          )}
+
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
           <button
             type="button"
-            onClick={() => handleExportData('pdf')}
-            className="p-4 border border-gray-200 rounded-lg hover:border-primary-300 hover:bg-primary-50 transition-colors text-center"
+            onClick={handleExportData}
+            className="flex items-center space-x-2 px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
           >
-            <FileText className="w-8 h-8 text-gray-600 mx-auto mb-2" />
-            <h4 className="font-medium text-gray-900">PDF Report</h4>
-            <p className="text-sm text-gray-500">Formatted report</p>
+            <Download className="w-4 h-4" />
+            <span>Export {EXPORT_FORMATS.find(f => f.value === format)?.label}</span>
           </button>
         </div>
       </div>
 
       {/* Data Import */}
-      <div className="bg-white rounded-xl border border-gray-100 p-6 shadow-sm">
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
         <div className="flex items-center space-x-3 mb-6">
-          <Upload className="w-5 h-5 text-gray-600" />
-          <h3 className="text-lg font-semibold text-gray-900">Import Data</h3>
+          <Upload className="w-5 h-5 text-gray-600 dark:text-secondary-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100">Restore Backup</h3>
         </div>
         
-        <p className="text-gray-600 mb-6">
-          Import transactions from bank statements or other financial apps.
+        <p className="text-gray-600 dark:text-secondary-400 mb-6">
+          Restore transactions, budgets, goals, recurring and categorization rules, learned categories and preferences from a JSON backup.
+          You can review every change before anything is saved.
+          To add transactions from bank statements, use{' '}
+          <Link href="/import" className="text-primary-600 hover:text-primary-700">Import</Link>.
         </p>
-        
-        <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
-          <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-          <h4 className="text-lg font-medium text-gray-900 mb-2">
-            Drop files here or click to browse
-          </h4>
-          <p className="text-gray-500 mb-4">
-            Supports CSV, OFX, QIF, PDF, and Image files (JPG, PNG, etc.)
-          </p>
-          <button
-            type="button"
-            onClick={handleImportData}
-            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
-          >
-            Choose Files
-          </button>
-        </div>
+
+        {restoreErrors.length > 0 && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 mb-4">
+            {restoreErrors.map(message => (
+              <p key={message} className="text-sm text-red-600">{message}</p>
+            ))}
+          </div>
+        )}
+        {restoreMessage && (
+          <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-3 mb-4">
+            <p className="text-sm text-green-700 dark:text-green-300">{restoreMessage}</p>
+          </div>
+        )}
+
+        {backup && restorePlan ? (
+          <RestorePreview
+            plan={restorePlan}
+            fileName={backup.fileName}
+            exportedAt={backup.data.exportedAt}
+            policy={policy}
+            isRestoring={isRestoring}
+            onPolicyChange={setPolicy}
+            onRestore={handleRestore}
+            onCancel={() => setBackup(null)}
+          />
+        ) : (
+          <div className="border-2 border-dashed border-gray-300 dark:border-secondary-600 rounded-lg p-8 text-center">
+            <Upload className="w-12 h-12 text-gray-400 dark:text-secondary-500 mx-auto mb-4" />
+            <h4 className="text-lg font-medium text-gray-900 dark:text-secondary-100 mb-2">
+              Choose a backup file
+            </h4>
+            <p className="text-gray-500 dark:text-secondary-400 mb-4">
+              JSON backups exported from this app
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleBackupSelected}
+              className="hidden"
+              title="Backup file"
+            />
+            <button
+              type="button"
+              onClick={handleImportData}
+              className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+            >
+              Choose File
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Data Management */}
-      <div className="bg-white rounded-xl border border-gray-100 p-6 shadow-sm">
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
         <div className="flex items-center space-x-3 mb-6">
-          <Database className="w-5 h-5 text-gray-600" />
-          <h3 className="text-lg font-semibold text-gray-900">Data Management</h3>
+          <Database className="w-5 h-5 text-gray-600 dark:text-secondary-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100">Data Management</h3>
         </div>
         
         <div className="space-y-4">
-          <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-secondary-900/50 rounded-lg">
             <div>
-              <h4 className="font-medium text-gray-900">Storage Used</h4>
-              <p className="text-sm text-gray-500">2.4 MB of 100 MB used</p>
+              <h4 className="font-medium text-gray-900 dark:text-secondary-100">Storage Used</h4>
+              <p className="text-sm text-gray-500 dark:text-secondary-400">2.4 MB of 100 MB used</p>
             </div>
-            <div className="w-32 bg-gray-200 rounded-full h-2">
+            <div className="w-32 bg-gray-200 dark:bg-secondary-700 rounded-full h-2">
               <div className="bg-primary-500 h-2 rounded-full" style={{ width: '2.4%' }}></div>
             </div>
           </div>
           
-          <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-secondary-900/50 rounded-lg">
             <div>
-              <h4 className="font-medium text-gray-900">Last Backup</h4>
-              <p className="text-sm text-gray-500">January 15, 2024 at 3:42 PM</p>
+              <h4 className="font-medium text-gray-900 dark:text-secondary-100">Last Backup</h4>
+              <p className="text-sm text-gray-500 dark:text-secondary-400">January 15, 2024 at 3:42 PM</p>
             </div>
             <button
               type="button"
@@ -119,10 +435,10 @@ export default function DataTab() {
             </button>
           </div>
           
-          <div className="flex items-center justify-between p-4 bg-red-50 rounded-lg border border-red-200">
+          <div className="flex items-center justify-between p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
             <div>
-              <h4 className="font-medium text-red-900">Clear All Data</h4>
-              <p className="text-sm text-red-700">Permanently delete all transactions and budgets</p>
+              <h4 className="font-medium text-red-900 dark:text-red-300">Clear All Data</h4>
+              <p className="text-sm text-red-700 dark:text-red-300">Permanently delete all transactions and budgets</p>
             </div>
             <button
               type="button"
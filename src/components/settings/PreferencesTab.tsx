@@ -1,88 +1,133 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import { CURRENCIES, DATE_FORMATS, LOCALES, createFormatters } from '@/lib/formatting'
+import { UserPreferences } from '@/types'
+
+type GeneralPreferences = Pick<UserPreferences, 'currency' | 'locale' | 'dateFormat' | 'notifications' | 'emailReports' | 'budgetAlerts'>
 
 export default function PreferencesTab() {
-  const [preferences, setPreferences] = useState({
-    currency: 'USD',
-    dateFormat: 'MM/DD/YYYY',
-    notifications: true,
-    emailReports: false,
-    budgetAlerts: true,
-    language: 'English'
-  })
-
-  const handlePreferenceChange = (key: string, value: any) => {
+  const { preferences: saved, loading, savePreferences } = usePreferences()
+  const [preferences, setPreferences] = useState<GeneralPreferences>(saved)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Start from the saved preferences once they load
+  useEffect(() => {
+    setPreferences(saved)
+  }, [saved])
+
+  const handlePreferenceChange = <K extends keyof GeneralPreferences>(key: K, value: GeneralPreferences[K]) => {
     setPreferences(prev => ({ ...prev, [key]: value }))
+    setMessage(null)
   }
 
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    setMessage(null)
+    try {
+      await savePreferences({
+        currency: preferences.currency,
+        locale: preferences.locale,
+        dateFormat: preferences.dateFormat,
+        notifications: preferences.notifications,
+        emailReports: preferences.emailReports,
+        budgetAlerts: preferences.budgetAlerts
+      })
+      setMessage('Preferences saved')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save preferences')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // How amounts and dates will look with the choices so far
+  const preview = createFormatters(preferences)
+
   return (
     <div className="space-y-6">
-      <div className="bg-white rounded-xl border border-gray-100 p-6 shadow-sm">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">General Preferences</h3>
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100 mb-4">General Preferences</h3>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Currency */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Default Currency
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
+              Base Currency
             </label>
             <select
               value={preferences.currency}
               onChange={(e) => handlePreferenceChange('currency', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              title="Base Currency"
             >
-              <option value="USD">USD - US Dollar</option>
-              <option value="EUR">EUR - Euro</option>
-              <option value="GBP">GBP - British Pound</option>
-              <option value="CAD">CAD - Canadian Dollar</option>
-              <option value="AUD">AUD - Australian Dollar</option>
+              {CURRENCIES.map(currency => (
+                <option key={currency.value} value={currency.value}>{currency.label}</option>
+              ))}
             </select>
+            <p className="text-xs text-gray-500 dark:text-secondary-400 mt-1">
+              Totals and budgets are converted to it; transactions keep their own currency
+            </p>
           </div>
 
           {/* Date Format */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
               Date Format
             </label>
             <select
               value={preferences.dateFormat}
-              onChange={(e) => handlePreferenceChange('dateFormat', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              onChange={(e) => handlePreferenceChange('dateFormat', e.target.value as UserPreferences['dateFormat'])}
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              title="Date Format"
             >
-              <option value="MM/DD/YYYY">MM/DD/YYYY</option>
-              <option value="DD/MM/YYYY">DD/MM/YYYY</option>
-              <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+              {DATE_FORMATS.map(format => (
+                <option key={format} value={format}>{format}</option>
+              ))}
             </select>
           </div>
 
-          {/* Language */}
+          {/* Locale */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Language
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
+              Number Format
             </label>
             <select
-              value={preferences.language}
-              onChange={(e) => handlePreferenceChange('language', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              value={preferences.locale}
+              onChange={(e) => handlePreferenceChange('locale', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              title="Number Format"
             >
-              <option value="English">English</option>
-              <option value="Spanish">Spanish</option>
-              <option value="French">French</option>
-              <option value="German">German</option>
+              {LOCALES.map(locale => (
+                <option key={locale.value} value={locale.value}>{locale.label}</option>
+              ))}
             </select>
           </div>
+
+          {/* Preview */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
+              Preview
+            </label>
+            <div className="px-3 py-2 bg-gray-50 dark:bg-secondary-900/50 border border-gray-200 dark:border-secondary-700 rounded-lg text-gray-900 dark:text-secondary-100">
+              {preview.formatCurrency(1234.56)} · {preview.formatDate(new Date(Date.UTC(new Date().getFullYear(), 11, 31)))}
+            </div>
+          </div>
         </div>
       </div>
 
-      <div className="bg-white rounded-xl border border-gray-100 p-6 shadow-sm">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Notifications</h3>
+      <div className="bg-white dark:bg-secondary-800 rounded-xl border border-gray-100 dark:border-secondary-700 p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-secondary-100 mb-4">Notifications</h3>
         
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <div>
-              <h4 className="text-sm font-medium text-gray-900">Push Notifications</h4>
-              <p className="text-sm text-gray-500">Receive notifications in the app</p>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-secondary-100">Push Notifications</h4>
+              <p className="text-sm text-gray-500 dark:text-secondary-400">Receive notifications in the app</p>
             </div>
             <label className="relative inline-flex items-center cursor-pointer">
               <input
@@ -91,14 +136,14 @@ export default function PreferencesTab() {
                 onChange={(e) => handlePreferenceChange('notifications', e.target.checked)}
                 className="sr-only peer"
               />
-              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-500"></div>
+              <div className="w-11 h-6 bg-gray-200 dark:bg-secondary-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-500"></div>
             </label>
           </div>
 
           <div className="flex items-center justify-between">
             <div>
-              <h4 className="text-sm font-medium text-gray-900">Email Reports</h4>
-              <p className="text-sm text-gray-500">Receive monthly financial reports via email</p>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-secondary-100">Email Reports</h4>
+              <p className="text-sm text-gray-500 dark:text-secondary-400">Receive monthly financial reports via email</p>
             </div>
             <label className="relative inline-flex items-center cursor-pointer">
               <input
@@ -107,14 +152,14 @@ export default function PreferencesTab() {
                 onChange={(e) => handlePreferenceChange('emailReports', e.target.checked)}
                 className="sr-only peer"
               />
-              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-500"></div>
+              <div className="w-11 h-6 bg-gray-200 dark:bg-secondary-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-500"></div>
             </label>
           </div>
 
           <div className="flex items-center justify-between">
             <div>
-              <h4 className="text-sm font-medium text-gray-900">Budget Alerts</h4>
-              <p className="text-sm text-gray-500">Get notified when approaching budget limits</p>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-secondary-100">Budget Alerts</h4>
+              <p className="text-sm text-gray-500 dark:text-secondary-400">Get notified when approaching budget limits</p>
             </div>
             <label className="relative inline-flex items-center cursor-pointer">
               <input
@@ -123,18 +168,27 @@ export default function PreferencesTab() {
                 onChange={(e) => handlePreferenceChange('budgetAlerts', e.target.checked)}
                 className="sr-only peer"
               />
-              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-500"></div>
+              <div className="w-11 h-6 bg-gray-200 dark:bg-secondary-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-500"></div>
             </label>
           </div>
         </div>
       </div>
 
-      <div className="flex justify-end">
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end space-x-4">
+        {message && <span className="text-sm text-green-700 dark:text-green-300">{message}</span>}
         <button
           type="button"
-          className="px-6 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+          onClick={handleSave}
+          disabled={loading || isSaving}
+          className="px-6 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors disabled:opacity-50"
         >
-          Save Changes
+          {isSaving ? 'Saving...' : 'Save Changes'}
         </button>
       </div>
     </div>
@@ -0,0 +1,188 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { countChanges, getPlanChanges, isConflict } from '@/lib/backupRestore'
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/formatting'
+import type {
+  Budget,
+  CategorizationRule,
+  CategoryCorrection,
+  FinancialGoal,
+  RecurringTransaction,
+  RestoreChange,
+  RestoreConflictPolicy,
+  RestorePlan,
+  Transaction,
+  UserPreferences
+} from '@/types'
+
+interface RestorePreviewProps {
+  plan: RestorePlan
+  fileName: string
+  exportedAt?: string
+  policy: RestoreConflictPolicy
+  isRestoring: boolean
+  onPolicyChange: (policy: RestoreConflictPolicy) => void
+  onRestore: () => void
+  onCancel: () => void
+}
+
+// Changes listed per section before the rest are summarized
+const LIST_LIMIT = 50
+
+const ACTION_STYLES: Record<RestoreChange<unknown>['action'], { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300' },
+  update: { label: 'Update', className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300' },
+  skip: { label: 'Skip', className: 'bg-gray-100 dark:bg-secondary-700 text-gray-600 dark:text-secondary-400' }
+}
+
+const describeTransaction = (t: Transaction) => `${formatDate(t.date)} · ${t.description} · ${t.category} · ${formatCurrency(t.amount)}`
+const describeBudget = (b: Budget) => `${b.category} · ${b.period} · ${formatCurrency(b.budgetAmount)}`
+const describeGoal = (g: FinancialGoal) => `${g.name} · ${formatCurrency(g.currentAmount)} of ${formatCurrency(g.targetAmount)} by ${formatDate(g.targetDate)}`
+const describeRecurring = (r: RecurringTransaction) => `${r.description} · ${r.frequency} · ${formatCurrency(r.amount, { currency: r.currency })}`
+const describeRule = (r: CategorizationRule) => `${r.name} · ${r.category}`
+const describeCorrection = (c: CategoryCorrection) => `${c.description} · ${c.category}`
+const describePreferences = (p: UserPreferences) => `${p.currency} · ${p.locale} · ${p.dateFormat} · ${p.theme} theme`
+
+function ChangeSection<T>({ title, changes, describe }: { title: string; changes: RestoreChange<T>[]; describe: (record: T) => string }) {
+  const [expanded, setExpanded] = useState(false)
+  const counts = countChanges(changes)
+
+  return (
+    <div className="border border-gray-100 dark:border-secondary-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        disabled={changes.length === 0}
+        className="w-full flex items-center justify-between p-3 text-left disabled:cursor-default"
+      >
+        <span className="flex items-center space-x-2">
+          {changes.length > 0 && (expanded ? <ChevronDown className="w-4 h-4 text-gray-400 dark:text-secondary-500" /> : <ChevronRight className="w-4 h-4 text-gray-400 dark:text-secondary-500" />)}
+          <span className="font-medium text-gray-900 dark:text-secondary-100">{title}</span>
+        </span>
+        <span className="text-sm text-gray-500 dark:text-secondary-400">
+          {changes.length === 0
+            ? 'None in backup'
+            : `${counts.create} new · ${counts.update} updated · ${counts.skip} skipped`}
+        </span>
+      </button>
+      {expanded && (
+        <ul className="border-t border-gray-100 dark:border-secondary-700 max-h-64 overflow-y-auto divide-y divide-gray-50">
+          {changes.slice(0, LIST_LIMIT).map((change, index) => (
+            <li key={index} className="px-3 py-2 text-sm">
+              <div className="flex items-start space-x-2">
+                <span className={cn('px-2 py-0.5 rounded text-xs font-medium flex-shrink-0', ACTION_STYLES[change.action].className)}>
+                  {ACTION_STYLES[change.action].label}
+                </span>
+                <div className="min-w-0">
+                  <p className="text-gray-900 dark:text-secondary-100 truncate">{describe(change.record)}</p>
+                  {change.action === 'update' && change.existing && (
+                    <p className="text-xs text-gray-500 dark:text-secondary-400 truncate">Currently: {describe(change.existing)}</p>
+                  )}
+                  {change.reason && <p className="text-xs text-gray-500 dark:text-secondary-400">{change.reason}</p>}
+                </div>
+              </div>
+            </li>
+          ))}
+          {changes.length > LIST_LIMIT && (
+            <li className="px-3 py-2 text-xs text-gray-500 dark:text-secondary-400">and {changes.length - LIST_LIMIT} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default function RestorePreview({
+  plan,
+  fileName,
+  exportedAt,
+  policy,
+  isRestoring,
+  onPolicyChange,
+  onRestore,
+  onCancel
+}: RestorePreviewProps) {
+  const all = getPlanChanges(plan)
+  const changeCount = all.filter(change => change.action !== 'skip').length
+  const conflictCount = all.filter(isConflict).length
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="font-medium text-gray-900 dark:text-secondary-100">{fileName}</h4>
+        {exportedAt && (
+          <p className="text-sm text-gray-500 dark:text-secondary-400">Backed up {formatDateTime(new Date(exportedAt))}</p>
+        )}
+      </div>
+
+      <ChangeSection title="Transactions" changes={plan.transactions} describe={describeTransaction} />
+      <ChangeSection title="Budgets" changes={plan.budgets} describe={describeBudget} />
+      <ChangeSection title="Goals" changes={plan.goals} describe={describeGoal} />
+      <ChangeSection title="Recurring Rules" changes={plan.recurringTransactions} describe={describeRecurring} />
+      <ChangeSection title="Categorization Rules" changes={plan.categorizationRules} describe={describeRule} />
+      <ChangeSection title="Learned Categories" changes={plan.categoryCorrections} describe={describeCorrection} />
+      <ChangeSection title="Preferences" changes={plan.preferences ? [plan.preferences] : []} describe={describePreferences} />
+
+      {conflictCount > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
+            {conflictCount} {conflictCount === 1 ? 'record differs' : 'records differ'} from the current version
+          </label>
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-secondary-300">
+              <input
+                type="radio"
+                checked={policy === 'overwrite'}
+                onChange={() => onPolicyChange('overwrite')}
+                className="border-gray-300 dark:border-secondary-600 text-primary-600 focus:ring-primary-500"
+              />
+              <span>Overwrite with the backup</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-secondary-300">
+              <input
+                type="radio"
+                checked={policy === 'keep'}
+                onChange={() => onPolicyChange('keep')}
+                className="border-gray-300 dark:border-secondary-600 text-primary-600 focus:ring-primary-500"
+              />
+              <span>Keep the current version</span>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {plan.warnings.map(warning => (
+        <div key={warning} className="flex items-start space-x-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3">
+          <AlertTriangle className="w-4 h-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-yellow-800 dark:text-yellow-300">{warning}</p>
+        </div>
+      ))}
+
+      <p className="text-sm text-gray-500 dark:text-secondary-400">
+        Debts, accounts and categories in the backup are not restored. The restore is applied all at once: if anything fails, nothing changes.
+      </p>
+
+      <div className="flex items-center space-x-3">
+        <button
+          type="button"
+          onClick={onRestore}
+          disabled={isRestoring || changeCount === 0}
+          className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors disabled:opacity-50"
+        >
+          {isRestoring ? 'Restoring...' : changeCount === 0 ? 'Nothing to restore' : `Restore ${changeCount} ${changeCount === 1 ? 'change' : 'changes'}`}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isRestoring}
+          className="px-4 py-2 text-gray-600 dark:text-secondary-400 hover:text-gray-800 dark:hover:text-secondary-100 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
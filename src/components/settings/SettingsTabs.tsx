@@ -10,13 +10,16 @@ interface SettingsTabsProps {
 export default function SettingsTabs({ activeTab, onTabChange }: SettingsTabsProps) {
   const tabs = [
     { id: 'preferences', label: 'Preferences' },
+    { id: 'currencies', label: 'Currencies' },
     { id: 'account', label: 'Account' },
+    { id: 'categories', label: 'Categories' },
+    { id: 'rules', label: 'Rules' },
     { id: 'data', label: 'Data & Import' },
     { id: 'appearance', label: 'Appearance' },
   ]
 
   return (
-    <div className="border-b border-gray-200 mb-8">
+    <div className="border-b border-gray-200 dark:border-secondary-700 mb-8">
       <nav className="-mb-px flex space-x-8">
         {tabs.map((tab) => (
           <button
@@ -27,7 +30,7 @@ export default function SettingsTabs({ activeTab, onTabChange }: SettingsTabsPro
               "py-2 px-1 border-b-2 font-medium text-sm transition-colors",
               activeTab === tab.id
                 ? "border-primary-500 text-primary-600"
-                : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                : "border-transparent text-gray-500 dark:text-secondary-400 hover:text-gray-700 dark:hover:text-secondary-100 hover:border-gray-300 dark:hover:border-secondary-600"
             )}
           >
             {tab.label}
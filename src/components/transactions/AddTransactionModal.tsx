@@ -1,7 +1,21 @@
 'use client'
 
 import { useState } from 'react'
-import { X, Plus } from 'lucide-react'
+import { X, Plus, Repeat, Split, Trash2 } from 'lucide-react'
+import { RECURRING_FREQUENCIES } from '@/lib/recurrence'
+import { TRANSFER_CATEGORY } from '@/lib/transfers'
+import { SPLIT_CATEGORY, validateSplits } from '@/lib/splits'
+import { UNCATEGORIZED_CATEGORY } from '@/lib/categories'
+import { getRuleCategory } from '@/lib/categorizationRules'
+import { classifyFromCorrections } from '@/lib/categoryLearning'
+import { categorizeLineItems, proposeReceiptSplit } from '@/lib/receipts'
+import { CURRENCIES, formatCurrency } from '@/lib/formatting'
+import { usePreferences } from '@/contexts/PreferencesContext'
+import CategoryOptions from '@/components/ui/CategoryOptions'
+import ReceiptScanner from './ReceiptScanner'
+import PendingAttachments, { type PendingAttachment } from './PendingAttachments'
+import type { Account, CategorizationRule, Category, CategoryCorrection, Receipt, RecurringFrequency, TransactionSplit, TransactionType } from '@/types'
+import type { NewRecurringTransaction } from '@/services/recurringTransactions'
 
 interface AddTransactionModalProps {
   isOpen: boolean
@@ -9,33 +23,112 @@ interface AddTransactionModalProps {
   onAdd: (transaction: {
     description: string
     amount: number
+    currency?: string
     category: string
     date: Date
-    type: 'income' | 'expense'
-  }) => Promise<void>
+    type: TransactionType
+    accountId?: string
+    transferAccountId?: string
+    splits?: TransactionSplit[]
+  }, attachments: PendingAttachment[]) => Promise<void>
+  onAddRecurring?: (recurring: NewRecurringTransaction) => Promise<void>
+  accounts?: Account[]
+  categories?: Category[]
+  rules?: CategorizationRule[] // Used with corrections to categorize scanned receipt items
+  corrections?: CategoryCorrection[]
 }
 
-export default function AddTransactionModal({ isOpen, onClose, onAdd }: AddTransactionModalProps) {
+export default function AddTransactionModal({ isOpen, onClose, onAdd, onAddRecurring, accounts = [], categories = [], rules = [], corrections = [] }: AddTransactionModalProps) {
+  const { preferences } = usePreferences()
   const [formData, setFormData] = useState({
     description: '',
     amount: '',
-    category: 'Food & Dining',
-    date: new Date().toISOString().split('T')[0],
-    type: 'expense' as 'income' | 'expense'
+    currency: '', // Empty uses the account's currency
+    category: '', // Empty lets the categorization rules decide
+    date: new Date().toISOString().split('T')[0] || '',
+    type: 'expense' as TransactionType,
+    accountId: '',
+    transferAccountId: ''
   })
+  const [recurrence, setRecurrence] = useState({
+    enabled: false,
+    frequency: 'monthly' as RecurringFrequency,
+    endDate: '',
+    amountVariance: '0'
+  })
+  // Category allocations, only used when the transaction is split
+  const [split, setSplit] = useState({
+    enabled: false,
+    rows: [
+      { category: 'Food & Dining', amount: '', note: '' },
+      { category: 'Shopping', amount: '', note: '' }
+    ]
+  })
+  const [scannedReceipt, setScannedReceipt] = useState<{ receipt: Receipt; file: File } | null>(null)
+  // Files uploaded once the transaction is added; a scanned receipt's photo comes first
+  const [pendingFiles, setPendingFiles] = useState<PendingAttachment[]>([])
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const categories = [
-    'Food & Dining',
-    'Transportation',
-    'Shopping',
-    'Entertainment',
-    'Bills & Utilities',
-    'Healthcare',
-    'Income',
-    'Other'
-  ]
+  const isSplitting = split.enabled && formData.type !== 'transfer'
+  // Amounts are in the account's currency unless another one is picked
+  const currency = formData.currency || accounts.find(a => a.id === (formData.accountId || accounts[0]?.id))?.currency || preferences.currency
+  const splits: TransactionSplit[] = split.rows.map(row => ({
+    category: row.category,
+    amount: parseFloat(row.amount) || 0,
+    note: row.note.trim() || undefined
+  }))
+  const unallocated = (parseFloat(formData.amount) || 0) - splits.reduce((sum, s) => sum + s.amount, 0)
+
+  const updateSplitRow = (index: number, changes: Partial<{ category: string; amount: string; note: string }>) => {
+    setSplit({
+      ...split,
+      rows: split.rows.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    })
+  }
+
+  const attachments: PendingAttachment[] = scannedReceipt
+    ? [{ file: scannedReceipt.file, ocrText: scannedReceipt.receipt.text }, ...pendingFiles]
+    : pendingFiles
+
+  const removeAttachment = (index: number) => {
+    if (scannedReceipt && index === 0) {
+      setScannedReceipt(null)
+      setPendingFiles([])
+    } else {
+      const fileIndex = scannedReceipt ? index - 1 : index
+      setPendingFiles(pendingFiles.filter((_, i) => i !== fileIndex))
+    }
+  }
+
+  const categorize = (description: string, amount: number) =>
+    getRuleCategory(rules, { description, amount, type: 'expense' }) ||
+    classifyFromCorrections(description, corrections)?.category
+
+  // Fill the form from a scanned receipt, splitting it when its items span several categories
+  const handleReceiptScanned = (receipt: Receipt, file: File) => {
+    const merchantCategory = (receipt.merchant && categorize(receipt.merchant, receipt.total || 0)) || UNCATEGORIZED_CATEGORY
+    const lineItems = categorizeLineItems(receipt.lineItems, categories, categorize, merchantCategory)
+    const proposed = receipt.total ? proposeReceiptSplit(lineItems, receipt.total) : []
+    const itemCategories = Array.from(new Set(lineItems.map(item => item.category)))
+    const singleCategory = itemCategories.length === 1 && itemCategories[0] !== UNCATEGORIZED_CATEGORY ? itemCategories[0] : undefined
+
+    setFormData({
+      ...formData,
+      description: receipt.merchant || formData.description,
+      amount: receipt.total ? receipt.total.toFixed(2) : formData.amount,
+      date: receipt.date ? receipt.date.toISOString().split('T')[0] || formData.date : formData.date,
+      type: 'expense',
+      category: singleCategory || formData.category
+    })
+    if (proposed.length > 0) {
+      setSplit({
+        enabled: true,
+        rows: proposed.map(s => ({ category: s.category, amount: s.amount.toFixed(2), note: s.note || '' }))
+      })
+    }
+    setScannedReceipt({ receipt: { ...receipt, lineItems }, file })
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -45,26 +138,80 @@ export default function AddTransactionModal({ isOpen, onClose, onAdd }: AddTrans
       return
     }
 
+    const isTransfer = formData.type === 'transfer'
+    // Fall back to the first account when none was picked, and to the next one as a transfer destination
+    const selectedAccountId = formData.accountId || accounts[0]?.id
+    const transferAccountId = formData.transferAccountId || accounts.find(a => a.id !== selectedAccountId)?.id
+
+    if (isTransfer && (!transferAccountId || transferAccountId === selectedAccountId)) {
+      setError('Choose two different accounts for a transfer')
+      return
+    }
+
+    if (isSplitting) {
+      const splitError = validateSplits(splits, parseFloat(formData.amount))
+      if (splitError) {
+        setError(splitError)
+        return
+      }
+    }
+
+    if (recurrence.enabled && !isTransfer && !isSplitting && !formData.category) {
+      setError('Choose a category for a recurring transaction')
+      return
+    }
+
+    if (recurrence.enabled && recurrence.endDate && recurrence.endDate < formData.date) {
+      setError('End date must be on or after the first occurrence')
+      return
+    }
+
     setIsSubmitting(true)
     setError(null)
 
     try {
-      await onAdd({
-        description: formData.description,
-        amount: parseFloat(formData.amount),
-        category: formData.category,
-        date: new Date(formData.date), // Convert string to Date
-        type: formData.type
-      })
+      if (recurrence.enabled && onAddRecurring && formData.type !== 'transfer' && !isSplitting) {
+        // The rule creates this and every later occurrence as they come due
+        await onAddRecurring({
+          description: formData.description,
+          amount: parseFloat(formData.amount),
+          currency: preferences.currency,
+          category: formData.category,
+          type: formData.type,
+          accountId: selectedAccountId,
+          frequency: recurrence.frequency,
+          startDate: new Date(formData.date),
+          endDate: recurrence.endDate ? new Date(recurrence.endDate) : undefined,
+          amountVariance: parseFloat(recurrence.amountVariance) || 0
+        })
+      } else {
+        await onAdd({
+          description: formData.description,
+          amount: parseFloat(formData.amount),
+          currency,
+          category: isTransfer ? TRANSFER_CATEGORY : isSplitting ? SPLIT_CATEGORY : formData.category,
+          date: new Date(formData.date), // Convert string to Date
+          type: formData.type,
+          accountId: selectedAccountId,
+          ...(isTransfer && { transferAccountId }),
+          ...(isSplitting && { splits })
+        }, attachments)
+      }
 
       // Reset form
       setFormData({
         description: '',
         amount: '',
-        category: 'Food & Dining',
-        date: new Date().toISOString().split('T')[0],
-        type: 'expense'
+        currency: '',
+        category: '',
+        date: new Date().toISOString().split('T')[0] || '',
+        type: 'expense',
+        accountId: formData.accountId,
+        transferAccountId: formData.transferAccountId
       })
+      setRecurrence({ enabled: false, frequency: 'monthly', endDate: '', amountVariance: '0' })
+      setSplit({ enabled: false, rows: split.rows.map(row => ({ ...row, amount: '', note: '' })) })
+      setScannedReceipt(null)
 
       onClose()
     } catch (err) {
@@ -78,12 +225,12 @@ export default function AddTransactionModal({ isOpen, onClose, onAdd }: AddTrans
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
-        <div className="flex items-center justify-between p-6 border-b border-gray-100">
-          <h2 className="text-xl font-semibold text-gray-900">Add Transaction</h2>
+      <div className="bg-white dark:bg-secondary-800 rounded-xl shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100 dark:border-secondary-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-secondary-100">Add Transaction</h2>
           <button
             onClick={onClose}
-            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            className="p-2 text-gray-400 dark:text-secondary-500 hover:text-gray-600 transition-colors"
           >
             <X className="w-5 h-5" />
           </button>
@@ -92,13 +239,21 @@ export default function AddTransactionModal({ isOpen, onClose, onAdd }: AddTrans
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
           {/* Error Message */}
           {error && (
-            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
               <p className="text-sm text-red-600">{error}</p>
             </div>
           )}
+          {/* Receipt */}
+          <ReceiptScanner
+            receipt={scannedReceipt?.receipt || null}
+            fileName={scannedReceipt?.file.name}
+            onScanned={handleReceiptScanned}
+            onClear={() => setScannedReceipt(null)}
+          />
+
           {/* Transaction Type */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Type</label>
             <div className="flex space-x-4">
               <label className="flex items-center">
                 <input
@@ -109,7 +264,7 @@ export default function AddTransactionModal({ isOpen, onClose, onAdd }: AddTrans
                   onChange={(e) => setFormData({ ...formData, type: e.target.value as 'expense' })}
                   className="mr-2 text-primary-500"
                 />
-                <span className="text-sm text-gray-700">Expense</span>
+                <span className="text-sm text-gray-700 dark:text-secondary-300">Expense</span>
               </label>
               <label className="flex items-center">
                 <input
@@ -120,73 +275,273 @@ export default function AddTransactionModal({ isOpen, onClose, onAdd }: AddTrans
                   onChange={(e) => setFormData({ ...formData, type: e.target.value as 'income' })}
                   className="mr-2 text-primary-500"
                 />
-                <span className="text-sm text-gray-700">Income</span>
+                <span className="text-sm text-gray-700 dark:text-secondary-300">Income</span>
+              </label>
+              <label className={`flex items-center ${accounts.length < 2 ? 'opacity-50' : ''}`}>
+                <input
+                  type="radio"
+                  name="type"
+                  value="transfer"
+                  checked={formData.type === 'transfer'}
+                  disabled={accounts.length < 2}
+                  onChange={(e) => setFormData({ ...formData, type: e.target.value as 'transfer' })}
+                  className="mr-2 text-primary-500"
+                />
+                <span className="text-sm text-gray-700 dark:text-secondary-300">Transfer</span>
               </label>
             </div>
           </div>
 
           {/* Description */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Description</label>
             <input
               type="text"
               required
               value={formData.description}
               onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               placeholder="Enter transaction description"
             />
           </div>
 
           {/* Amount */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Amount</label>
-            <input
-              type="number"
-              step="0.01"
-              min="0"
-              required
-              value={formData.amount}
-              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-              placeholder="0.00"
-            />
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Amount</label>
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                required
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                className="flex-1 px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                placeholder="0.00"
+              />
+              {/* Recurring rules are created in the base currency and keep it */}
+              <select
+                value={recurrence.enabled ? preferences.currency : currency}
+                onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                disabled={recurrence.enabled}
+                className="px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50"
+              >
+                {CURRENCIES.map(c => (
+                  <option key={c.value} value={c.value}>{c.value}</option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {/* Category */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
-            <select
-              value={formData.category}
-              onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-            >
-              {categories.map((category) => (
-                <option key={category} value={category}>
-                  {category}
-                </option>
-              ))}
-            </select>
-          </div>
+          {formData.type !== 'transfer' && !split.enabled && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Category</label>
+              <select
+                value={formData.category}
+                onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                <option value="">Auto-categorize</option>
+                <CategoryOptions categories={categories} />
+              </select>
+            </div>
+          )}
+
+          {/* Split */}
+          {formData.type !== 'transfer' && (
+            <div className="border border-gray-100 dark:border-secondary-700 rounded-lg p-3 space-y-3">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={split.enabled}
+                  onChange={(e) => setSplit({ ...split, enabled: e.target.checked })}
+                  className="text-primary-500 rounded"
+                />
+                <Split className="w-4 h-4 text-gray-500 dark:text-secondary-400" />
+                <span className="text-sm font-medium text-gray-700 dark:text-secondary-300">Split across categories</span>
+              </label>
+
+              {split.enabled && (
+                <div className="space-y-2">
+                  {split.rows.map((row, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={row.category}
+                        onChange={(e) => updateSplitRow(index, { category: e.target.value })}
+                        className="col-span-5 px-2 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+                        title="Split category"
+                      >
+                        <CategoryOptions categories={categories} />
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={row.amount}
+                        onChange={(e) => updateSplitRow(index, { amount: e.target.value })}
+                        className="col-span-3 px-2 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+                        placeholder="0.00"
+                      />
+                      <input
+                        type="text"
+                        value={row.note}
+                        onChange={(e) => updateSplitRow(index, { note: e.target.value })}
+                        className="col-span-3 px-2 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+                        placeholder="Note"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setSplit({ ...split, rows: split.rows.filter((_, i) => i !== index) })}
+                        disabled={split.rows.length <= 2}
+                        className="col-span-1 p-1 text-gray-400 dark:text-secondary-500 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                        title="Remove split"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <button
+                      type="button"
+                      onClick={() => setSplit({ ...split, rows: [...split.rows, { category: 'Other', amount: unallocated > 0 ? unallocated.toFixed(2) : '', note: '' }] })}
+                      className="text-xs font-medium text-primary-600 hover:text-primary-800"
+                    >
+                      + Add split
+                    </button>
+                    <span className={`text-xs font-medium ${Math.abs(unallocated) < 0.01 ? 'text-green-600' : 'text-orange-600'}`}>
+                      {Math.abs(unallocated) < 0.01 ? 'Fully allocated' : `${formatCurrency(unallocated, { currency })} left to allocate`}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Account */}
+          {accounts.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">
+                {formData.type === 'transfer' ? 'From account' : 'Account'}
+              </label>
+              <select
+                value={formData.accountId || accounts[0]?.id}
+                onChange={(e) => setFormData({ ...formData, accountId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {formData.type === 'transfer' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">To account</label>
+              <select
+                value={formData.transferAccountId || accounts.find(a => a.id !== (formData.accountId || accounts[0]?.id))?.id}
+                onChange={(e) => setFormData({ ...formData, transferAccountId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
 
           {/* Date */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Date</label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Date</label>
             <input
               type="date"
               required
               value={formData.date}
               onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
             />
           </div>
 
+          {/* Attachments (a recurring rule has nothing to attach them to) */}
+          {!recurrence.enabled && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-secondary-300 mb-2">Attachments</label>
+              <PendingAttachments
+                attachments={attachments}
+                onAdd={(files) => setPendingFiles([...pendingFiles, ...files.map(file => ({ file }))])}
+                onRemove={removeAttachment}
+              />
+            </div>
+          )}
+
+          {/* Recurrence */}
+          {onAddRecurring && formData.type !== 'transfer' && !split.enabled && (
+            <div className="border border-gray-100 dark:border-secondary-700 rounded-lg p-3 space-y-3">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={recurrence.enabled}
+                  onChange={(e) => setRecurrence({ ...recurrence, enabled: e.target.checked })}
+                  className="text-primary-500 rounded"
+                />
+                <Repeat className="w-4 h-4 text-gray-500 dark:text-secondary-400" />
+                <span className="text-sm font-medium text-gray-700 dark:text-secondary-300">Make recurring</span>
+              </label>
+
+              {recurrence.enabled && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 dark:text-secondary-400 mb-1">Repeats</label>
+                    <select
+                      value={recurrence.frequency}
+                      onChange={(e) => setRecurrence({ ...recurrence, frequency: e.target.value as RecurringFrequency })}
+                      className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+                    >
+                      {RECURRING_FREQUENCIES.map((frequency) => (
+                        <option key={frequency.value} value={frequency.value}>
+                          {frequency.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 dark:text-secondary-400 mb-1">Ends (optional)</label>
+                    <input
+                      type="date"
+                      value={recurrence.endDate}
+                      min={formData.date}
+                      onChange={(e) => setRecurrence({ ...recurrence, endDate: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs font-medium text-gray-600 dark:text-secondary-400 mb-1">Amount varies by up to (%)</label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      max="100"
+                      value={recurrence.amountVariance}
+                      onChange={(e) => setRecurrence({ ...recurrence, amountVariance: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-200 dark:border-secondary-700 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex space-x-3 pt-4">
             <button
               type="button"
               onClick={onClose}
-              className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              className="flex-1 px-4 py-2 text-gray-700 dark:text-secondary-300 bg-gray-100 dark:bg-secondary-700 rounded-lg hover:bg-gray-200 transition-colors"
             >
               Cancel
             </button>
@@ -197,7 +552,7 @@ export default function AddTransactionModal({ isOpen, onClose, onAdd }: AddTrans
             >
               {isSubmitting ? (
                 <>
-                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  <div className="w-4 h-4 border-2 border-white/30 dark:border-secondary-700/50 border-t-white rounded-full animate-spin" />
                   <span>Adding...</span>
                 </>
               ) : (
@@ -0,0 +1,101 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { FileText, Paperclip, X } from 'lucide-react'
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENT_SIZE } from '@/services/attachments'
+
+// File to store with a transaction once it is added, with its text when already read (a scanned receipt)
+export interface PendingAttachment {
+  file: File
+  ocrText?: string
+}
+
+interface PendingAttachmentsProps {
+  attachments: PendingAttachment[]
+  onAdd: (files: File[]) => void
+  onRemove: (index: number) => void
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Thumbnail of a file that has not been uploaded yet
+function Thumbnail({ file }: { file: File }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!file.type.startsWith('image/')) return
+    const objectUrl = URL.createObjectURL(file)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [file])
+
+  return (
+    <div className="w-10 h-10 flex-shrink-0 rounded border border-gray-100 dark:border-secondary-700 bg-gray-50 dark:bg-secondary-900/50 overflow-hidden flex items-center justify-center">
+      {url ? (
+        // Local object URLs cannot go through next/image
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={url} alt="" className="w-full h-full object-cover" />
+      ) : (
+        <FileText className="w-5 h-5 text-gray-400 dark:text-secondary-500" />
+      )}
+    </div>
+  )
+}
+
+export default function PendingAttachments({ attachments, onAdd, onRemove }: PendingAttachmentsProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    const selected = Array.from(files)
+    const tooLarge = selected.find(file => file.size > MAX_ATTACHMENT_SIZE)
+    setError(tooLarge ? `${tooLarge.name} is larger than 10MB` : null)
+    onAdd(selected.filter(file => file.size <= MAX_ATTACHMENT_SIZE))
+    if (inputRef.current) inputRef.current.value = ''
+  }
+
+  return (
+    <div className="space-y-2">
+      {attachments.map((attachment, index) => (
+        <div key={`${attachment.file.name}-${index}`} className="flex items-center space-x-2">
+          <Thumbnail file={attachment.file} />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-gray-900 dark:text-secondary-100 truncate">{attachment.file.name}</p>
+            <p className="text-xs text-gray-500 dark:text-secondary-400">{formatFileSize(attachment.file.size)}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onRemove(index)}
+            className="p-1 text-gray-400 dark:text-secondary-500 hover:text-red-600"
+            title="Remove attachment"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ATTACHMENT_ACCEPT}
+        multiple
+        onChange={(e) => handleFiles(e.target.files)}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className="flex items-center space-x-1 text-xs font-medium text-primary-600 hover:text-primary-800"
+      >
+        <Paperclip className="w-3 h-3" />
+        <span>Attach receipt or document</span>
+      </button>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
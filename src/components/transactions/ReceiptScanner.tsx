@@ -0,0 +1,212 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Camera, Receipt as ReceiptIcon, X } from 'lucide-react'
+import { ocrService } from '@/services/ocrService'
+import { formatCurrency } from '@/lib/formatting'
+import type { ImagePreprocessing, OCRConfidenceComparison, Receipt } from '@/types'
+
+interface ReceiptScannerProps {
+  receipt: Receipt | null
+  fileName?: string
+  onScanned: (receipt: Receipt, file: File) => void
+  onClear: () => void
+}
+
+// Below this OCR confidence the user is asked to check the amounts read
+const LOW_CONFIDENCE = 0.6
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`
+
+// Image from a local file, shown for the before/after comparison
+function ImagePreview({ file, label, detail }: { file: File; label: string; detail?: string }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [file])
+
+  return (
+    <figure className="min-w-0">
+      <div className="h-40 rounded border border-gray-100 dark:border-secondary-700 bg-gray-50 dark:bg-secondary-900/50 overflow-hidden flex items-center justify-center">
+        {url && (
+          // Local object URLs cannot go through next/image
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={url} alt={label} className="max-h-full max-w-full object-contain" />
+        )}
+      </div>
+      <figcaption className="mt-1 text-xs text-gray-600 dark:text-secondary-400">
+        <span className="font-medium">{label}</span>
+        {detail && <span className="text-gray-500 dark:text-secondary-400"> · {detail}</span>}
+      </figcaption>
+    </figure>
+  )
+}
+
+export default function ReceiptScanner({ receipt, fileName, onScanned, onClear }: ReceiptScannerProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isScanning, setIsScanning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showItems, setShowItems] = useState(false)
+  const [showPreview, setShowPreview] = useState(false)
+  // What preprocessing did to the last scan, for the before/after preview
+  const [scan, setScan] = useState<{ file: File; preprocessing?: ImagePreprocessing; comparison?: OCRConfidenceComparison } | null>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    if (!ocrService.isSupported()) {
+      setError('Receipt scanning is not supported in this browser.')
+      return
+    }
+
+    setIsScanning(true)
+    setError(null)
+    try {
+      const { receipt: scanned, preprocessing, comparison } = await ocrService.processReceipt(file)
+      if (!scanned.total && scanned.lineItems.length === 0) {
+        throw new Error('No amounts found on the receipt. Try a sharper, well-lit photo.')
+      }
+      setScan({ file, preprocessing, comparison })
+      onScanned(scanned, file)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to scan receipt')
+    } finally {
+      setIsScanning(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const summary = receipt && [
+    receipt.subtotal !== undefined && `Subtotal ${formatCurrency(receipt.subtotal)}`,
+    receipt.tax !== undefined && `Tax ${formatCurrency(receipt.tax)}`,
+    receipt.tip !== undefined && `Tip ${formatCurrency(receipt.tip)}`,
+    receipt.total !== undefined && `Total ${formatCurrency(receipt.total)}`
+  ].filter(Boolean).join(' · ')
+
+  return (
+    <div className="border border-gray-100 dark:border-secondary-700 rounded-lg p-3 space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="hidden"
+      />
+
+      {!receipt ? (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={isScanning}
+          className="w-full flex items-center justify-center space-x-2 text-sm font-medium text-primary-600 hover:text-primary-800 disabled:opacity-50"
+        >
+          {isScanning ? (
+            <>
+              <div className="w-4 h-4 border-2 border-primary-200 dark:border-primary-800 border-t-primary-600 rounded-full animate-spin" />
+              <span>Reading receipt...</span>
+            </>
+          ) : (
+            <>
+              <Camera className="w-4 h-4" />
+              <span>Scan a receipt</span>
+            </>
+          )}
+        </button>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-2 min-w-0">
+              <ReceiptIcon className="w-4 h-4 text-gray-500 dark:text-secondary-400 mt-0.5 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-secondary-100 truncate">{receipt.merchant || fileName || 'Receipt'}</p>
+                {summary && <p className="text-xs text-gray-500 dark:text-secondary-400">{summary}</p>}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                setScan(null)
+                setShowPreview(false)
+                onClear()
+              }}
+              className="p-1 text-gray-400 dark:text-secondary-500 hover:text-gray-600"
+              title="Remove receipt"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {receipt.confidence < LOW_CONFIDENCE && (
+            <p className="text-xs text-orange-600">The photo was hard to read. Check the amounts before adding.</p>
+          )}
+
+          {scan?.preprocessing && (
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowPreview(!showPreview)}
+                className="text-xs font-medium text-primary-600 hover:text-primary-800"
+              >
+                {showPreview ? 'Hide' : 'Show'} before and after
+              </button>
+              {scan.comparison && (
+                <span className="ml-2 text-xs text-gray-500 dark:text-secondary-400">
+                  Confidence {formatPercent(scan.comparison.original)} → {formatPercent(scan.comparison.preprocessed)}
+                  {scan.comparison.used === 'original' && ' (original kept)'}
+                </span>
+              )}
+              {showPreview && (
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  <ImagePreview
+                    file={scan.file}
+                    label="Photo"
+                    detail={scan.comparison && formatPercent(scan.comparison.original)}
+                  />
+                  <ImagePreview
+                    file={scan.preprocessing.file}
+                    label="Preprocessed"
+                    detail={[
+                      scan.comparison && formatPercent(scan.comparison.preprocessed),
+                      scan.preprocessing.skewAngle !== 0 && `straightened ${Math.abs(scan.preprocessing.skewAngle)}°`,
+                      scan.preprocessing.width < scan.preprocessing.originalWidth && `${scan.preprocessing.width}×${scan.preprocessing.height}`
+                    ].filter(Boolean).join(' · ')}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {receipt.lineItems.length > 0 && (
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowItems(!showItems)}
+                className="text-xs font-medium text-primary-600 hover:text-primary-800"
+              >
+                {showItems ? 'Hide' : 'Show'} {receipt.lineItems.length} line items
+              </button>
+              {showItems && (
+                <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                  {receipt.lineItems.map((item, index) => (
+                    <li key={index} className="flex items-center justify-between text-xs text-gray-600 dark:text-secondary-400">
+                      <span className="truncate mr-2">
+                        {item.quantity && `${item.quantity} × `}{item.description}
+                        {item.category && <span className="text-gray-400 dark:text-secondary-500"> · {item.category}</span>}
+                      </span>
+                      <span className="whitespace-nowrap">{formatCurrency(item.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
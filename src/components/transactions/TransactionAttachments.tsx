@@ -0,0 +1,241 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { X, Paperclip, FileText, Trash2, Upload, ExternalLink } from 'lucide-react'
+import { AttachmentService, ATTACHMENT_ACCEPT, MAX_ATTACHMENT_SIZE } from '@/services/attachments'
+import { formatDateTime } from '@/lib/formatting'
+import type { Transaction, TransactionAttachment } from '@/types'
+
+interface TransactionAttachmentsProps {
+  transaction: Transaction
+  attachments: TransactionAttachment[]
+  onUpload: (file: File) => Promise<void>
+  onDelete: (id: string) => Promise<void>
+  onClose: () => void
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export default function TransactionAttachments({ transaction, attachments, onUpload, onDelete, onClose }: TransactionAttachmentsProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  // Preview URLs by attachment id; Supabase links are signed and expire, so they are fetched per visit
+  const [urls, setUrls] = useState<Record<string, string>>({})
+  const requestedIds = useRef<Set<string>>(new Set())
+  const [previewId, setPreviewId] = useState<string | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const missing = attachments.filter(a => !requestedIds.current.has(a.id))
+    if (missing.length === 0) return
+    missing.forEach(a => requestedIds.current.add(a.id))
+
+    Promise.all(missing.map(async attachment => {
+      try {
+        return [attachment.id, await AttachmentService.getAttachmentUrl(attachment)] as const
+      } catch (err) {
+        console.warn('TransactionAttachments: Failed to load attachment URL:', err)
+        return null
+      }
+    })).then(results => {
+      setUrls(prev => {
+        const next = { ...prev }
+        results.forEach(result => {
+          if (result) next[result[0]] = result[1]
+        })
+        return next
+      })
+    })
+  }, [attachments])
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setError(null)
+
+    const tooLarge = Array.from(files).find(file => file.size > MAX_ATTACHMENT_SIZE)
+    if (tooLarge) {
+      setError(`${tooLarge.name} is larger than 10MB`)
+      return
+    }
+
+    setIsUploading(true)
+    try {
+      for (const file of Array.from(files)) {
+        await onUpload(file)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload attachment')
+    } finally {
+      setIsUploading(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const handleDelete = async (attachment: TransactionAttachment) => {
+    if (!window.confirm(`Delete ${attachment.fileName}?`)) return
+    setDeletingId(attachment.id)
+    setError(null)
+    try {
+      await onDelete(attachment.id)
+      if (previewId === attachment.id) setPreviewId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete attachment')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  const preview = attachments.find(a => a.id === previewId)
+  const previewUrl = preview && urls[preview.id]
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-secondary-800 rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100 dark:border-secondary-700">
+          <div className="min-w-0">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-secondary-100">Attachments</h2>
+            <p className="text-sm text-gray-500 dark:text-secondary-400 truncate">{transaction.description}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 dark:text-secondary-500 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {preview && (
+            <div className="border border-gray-100 dark:border-secondary-700 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-900 dark:text-secondary-100 truncate">{preview.fileName}</span>
+                <button
+                  type="button"
+                  onClick={() => setPreviewId(null)}
+                  className="p-1 text-gray-400 dark:text-secondary-500 hover:text-gray-600"
+                  title="Close preview"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              {!previewUrl ? (
+                <div className="h-40 flex items-center justify-center text-sm text-gray-500 dark:text-secondary-400">Loading...</div>
+              ) : preview.contentType === 'application/pdf' ? (
+                <iframe src={previewUrl} title={preview.fileName} className="w-full h-96 rounded" />
+              ) : (
+                // Signed and same-origin file URLs are shown as-is rather than through next/image
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={previewUrl} alt={preview.fileName} className="max-h-96 mx-auto rounded" />
+              )}
+              {preview.ocrText && (
+                <details className="mt-2">
+                  <summary className="text-xs font-medium text-gray-600 dark:text-secondary-400 cursor-pointer">Text read from this file</summary>
+                  <pre className="mt-1 text-xs text-gray-600 dark:text-secondary-400 whitespace-pre-wrap max-h-40 overflow-y-auto">{preview.ocrText}</pre>
+                </details>
+              )}
+            </div>
+          )}
+
+          {attachments.length === 0 ? (
+            <div className="text-center py-8">
+              <Paperclip className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+              <p className="text-sm text-gray-500 dark:text-secondary-400">No receipts or documents attached yet</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-secondary-700">
+              {attachments.map(attachment => {
+                const url = urls[attachment.id]
+                const isImage = attachment.contentType.startsWith('image/')
+
+                return (
+                  <li key={attachment.id} className="py-3 flex items-center space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => setPreviewId(attachment.id)}
+                      className="w-14 h-14 flex-shrink-0 rounded-lg border border-gray-100 dark:border-secondary-700 bg-gray-50 dark:bg-secondary-900/50 overflow-hidden flex items-center justify-center"
+                      title="Preview"
+                    >
+                      {isImage && url ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={url} alt="" className="w-full h-full object-cover" />
+                      ) : (
+                        <FileText className="w-6 h-6 text-gray-400 dark:text-secondary-500" />
+                      )}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-secondary-100 truncate">{attachment.fileName}</p>
+                      <p className="text-xs text-gray-500 dark:text-secondary-400">
+                        {formatFileSize(attachment.size)} · {formatDateTime(attachment.createdAt)}
+                        {attachment.ocrText && ' · Searchable'}
+                      </p>
+                    </div>
+                    {url && (
+                      <a
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="p-2 text-gray-400 dark:text-secondary-500 hover:text-primary-600"
+                        title="Open in a new tab"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(attachment)}
+                      disabled={deletingId === attachment.id}
+                      className="p-2 text-gray-400 dark:text-secondary-500 hover:text-red-600 disabled:opacity-50"
+                      title="Delete attachment"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 dark:border-secondary-700">
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            onChange={(e) => handleFiles(e.target.files)}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={isUploading}
+            className="w-full px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+          >
+            {isUploading ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white/30 dark:border-secondary-700/50 border-t-white rounded-full animate-spin" />
+                <span>Uploading...</span>
+              </>
+            ) : (
+              <>
+                <Upload className="w-4 h-4" />
+                <span>Attach receipt or document</span>
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
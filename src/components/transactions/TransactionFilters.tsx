@@ -1,6 +1,8 @@
 'use client'
 
-import { Search, Filter, Calendar } from 'lucide-react'
+import { Search, Filter, Calendar, Wallet } from 'lucide-react'
+import CategoryOptions from '@/components/ui/CategoryOptions'
+import type { Account, Category } from '@/types'
 
 interface TransactionFiltersProps {
   searchTerm: string
@@ -9,6 +11,10 @@ interface TransactionFiltersProps {
   onCategoryChange: (value: string) => void
   dateRange: string
   onDateRangeChange: (value: string) => void
+  accounts?: Account[]
+  selectedAccount?: string
+  onAccountChange?: (value: string) => void
+  categories?: Category[]
 }
 
 export default function TransactionFilters({
@@ -17,19 +23,12 @@ export default function TransactionFilters({
   selectedCategory,
   onCategoryChange,
   dateRange,
-  onDateRangeChange
+  onDateRangeChange,
+  accounts = [],
+  selectedAccount = 'All Accounts',
+  onAccountChange,
+  categories = []
 }: TransactionFiltersProps) {
-  const categories = [
-    'All Categories',
-    'Food & Dining',
-    'Transportation',
-    'Shopping',
-    'Entertainment',
-    'Bills & Utilities',
-    'Healthcare',
-    'Income',
-    'Other'
-  ]
 
   const dateRanges = [
     'All Time',
@@ -41,18 +40,18 @@ export default function TransactionFilters({
   ]
 
   return (
-    <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-white/20 p-8 shadow-soft mb-8 animate-in">
+    <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-secondary-700/50 p-8 shadow-soft mb-8 animate-in">
       <div className="mb-6">
-        <h3 className="text-lg font-bold text-secondary-900 mb-2">Filter Transactions</h3>
-        <p className="text-secondary-600 font-medium">Find specific transactions quickly</p>
+        <h3 className="text-lg font-bold text-secondary-900 dark:text-secondary-100 mb-2">Filter Transactions</h3>
+        <p className="text-secondary-600 dark:text-secondary-400 font-medium">Find specific transactions quickly</p>
       </div>
 
       <div className="flex flex-col lg:flex-row gap-6">
         {/* Search */}
         <div className="flex-1">
-          <label className="block text-sm font-semibold text-secondary-700 mb-3">Search</label>
+          <label className="block text-sm font-semibold text-secondary-700 dark:text-secondary-300 mb-3">Search</label>
           <div className="relative group">
-            <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-secondary-400 w-5 h-5 group-focus-within:text-primary-500 transition-colors" />
+            <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-secondary-400 dark:text-secondary-500 w-5 h-5 group-focus-within:text-primary-500 transition-colors" />
             <input
               type="text"
               placeholder="Search transactions..."
@@ -65,29 +64,49 @@ export default function TransactionFilters({
 
         {/* Category Filter */}
         <div className="lg:w-56">
-          <label className="block text-sm font-semibold text-secondary-700 mb-3">Category</label>
+          <label className="block text-sm font-semibold text-secondary-700 dark:text-secondary-300 mb-3">Category</label>
           <div className="relative group">
-            <Filter className="absolute left-4 top-1/2 transform -translate-y-1/2 text-secondary-400 w-5 h-5 group-focus-within:text-primary-500 transition-colors" />
+            <Filter className="absolute left-4 top-1/2 transform -translate-y-1/2 text-secondary-400 dark:text-secondary-500 w-5 h-5 group-focus-within:text-primary-500 transition-colors" />
             <select
               value={selectedCategory}
               onChange={(e) => onCategoryChange(e.target.value)}
               className="input-field pl-12 h-12 text-base appearance-none cursor-pointer"
               aria-label="Filter by category"
             >
-              {categories.map((category) => (
-                <option key={category} value={category}>
-                  {category}
-                </option>
-              ))}
+              <option value="All Categories">All Categories</option>
+              <CategoryOptions categories={categories} />
             </select>
           </div>
         </div>
 
+        {/* Account Filter */}
+        {accounts.length > 0 && onAccountChange && (
+          <div className="lg:w-56">
+            <label className="block text-sm font-semibold text-secondary-700 dark:text-secondary-300 mb-3">Account</label>
+            <div className="relative group">
+              <Wallet className="absolute left-4 top-1/2 transform -translate-y-1/2 text-secondary-400 dark:text-secondary-500 w-5 h-5 group-focus-within:text-primary-500 transition-colors" />
+              <select
+                value={selectedAccount}
+                onChange={(e) => onAccountChange(e.target.value)}
+                className="input-field pl-12 h-12 text-base appearance-none cursor-pointer"
+                aria-label="Filter by account"
+              >
+                <option value="All Accounts">All Accounts</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
         {/* Date Range Filter */}
         <div className="lg:w-56">
-          <label className="block text-sm font-semibold text-secondary-700 mb-3">Date Range</label>
+          <label className="block text-sm font-semibold text-secondary-700 dark:text-secondary-300 mb-3">Date Range</label>
           <div className="relative group">
-            <Calendar className="absolute left-4 top-1/2 transform -translate-y-1/2 text-secondary-400 w-5 h-5 group-focus-within:text-primary-500 transition-colors" />
+            <Calendar className="absolute left-4 top-1/2 transform -translate-y-1/2 text-secondary-400 dark:text-secondary-500 w-5 h-5 group-focus-within:text-primary-500 transition-colors" />
             <select
               value={dateRange}
               onChange={(e) => onDateRangeChange(e.target.value)}
@@ -1,110 +1,218 @@
 'use client'
 
-import { Edit, Trash2, MoreHorizontal } from 'lucide-react'
+import { Fragment, useState } from 'react'
+import { Edit, Trash2, MoreHorizontal, ChevronDown, ChevronRight, Paperclip } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { isSplit } from '@/lib/splits'
+import { usePreferences } from '@/contexts/PreferencesContext'
 
-import type { Transaction } from '@/types'
+import type { Account, Transaction, TransactionAttachment, TransactionType } from '@/types'
 
 interface TransactionListProps {
   transactions: Transaction[]
   onEdit: (transaction: Transaction) => void
   onDelete: (id: string) => void
+  runningBalances?: Record<string, number> // Shown when the list is limited to one account
+  balanceCurrency?: string // Currency of the running balances, the account's own
+  accounts?: Account[]
+  attachments?: TransactionAttachment[]
+  onOpenAttachments?: (transaction: Transaction) => void // Shows the receipts and documents of a transaction
 }
 
-export default function TransactionList({ transactions, onEdit, onDelete }: TransactionListProps) {
-  const formatAmount = (amount: number, type: 'income' | 'expense') => {
-    const formatted = Math.abs(amount).toFixed(2)
-    return type === 'income' ? `+$${formatted}` : `-$${formatted}`
+export default function TransactionList({ transactions, onEdit, onDelete, runningBalances, balanceCurrency, accounts = [], attachments = [], onOpenAttachments }: TransactionListProps) {
+  const { preferences, formatCurrency, formatDate } = usePreferences()
+  // Split transactions whose allocations are shown
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
+
+  const attachmentCounts = attachments.reduce<Record<string, number>>((counts, a) => {
+    counts[a.transactionId] = (counts[a.transactionId] || 0) + 1
+    return counts
+  }, {})
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expandedIds)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setExpandedIds(next)
+  }
+
+  const formatAmount = (amount: number, type: TransactionType) => {
+    if (type === 'transfer') return formatCurrency(Math.abs(amount))
+    return formatCurrency(type === 'income' ? Math.abs(amount) : -Math.abs(amount), { signDisplay: 'always' })
+  }
+
+  const getAccountName = (accountId?: string) =>
+    accounts.find(a => a.id === accountId)?.name || 'Unknown account'
+
+  const formatBalance = (balance: number | undefined) => {
+    if (balance === undefined) return '—'
+    return formatCurrency(balance, { currency: balanceCurrency })
+  }
+
+  // Amount as it was made, for transactions in another currency than the base one
+  const formatOriginalAmount = (transaction: Transaction) => {
+    if (!transaction.currency || transaction.currency === preferences.currency || transaction.originalAmount === undefined) return null
+    return formatCurrency(Math.abs(transaction.originalAmount), { currency: transaction.currency })
   }
 
   const getCategoryColor = (category: string) => {
     const colors: { [key: string]: string } = {
-      'Food & Dining': 'bg-orange-100 text-orange-800',
-      'Transportation': 'bg-blue-100 text-blue-800',
-      'Shopping': 'bg-purple-100 text-purple-800',
-      'Entertainment': 'bg-pink-100 text-pink-800',
-      'Bills & Utilities': 'bg-red-100 text-red-800',
-      'Healthcare': 'bg-green-100 text-green-800',
-      'Income': 'bg-emerald-100 text-emerald-800',
-      'Other': 'bg-gray-100 text-gray-800'
+      'Food & Dining': 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300',
+      'Transportation': 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300',
+      'Shopping': 'bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300',
+      'Entertainment': 'bg-pink-100 dark:bg-pink-900/30 text-pink-800 dark:text-pink-300',
+      'Bills & Utilities': 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+      'Healthcare': 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+      'Income': 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-300',
+      'Other': 'bg-gray-100 dark:bg-secondary-700 text-gray-800 dark:text-secondary-100'
     }
-    return colors[category] || 'bg-gray-100 text-gray-800'
+    return colors[category] || 'bg-gray-100 dark:bg-secondary-700 text-gray-800 dark:text-secondary-100'
   }
 
   if (transactions.length === 0) {
     return (
-      <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-white/20 p-16 shadow-soft text-center animate-in">
+      <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-secondary-700/50 p-16 shadow-soft text-center animate-in">
         <div className="relative">
-          <div className="w-20 h-20 bg-gradient-to-br from-primary-50 to-primary-100 rounded-2xl flex items-center justify-center mx-auto mb-6">
+          <div className="w-20 h-20 bg-gradient-to-br from-primary-50 dark:from-primary-900/20 to-primary-100 dark:to-primary-900/20 rounded-2xl flex items-center justify-center mx-auto mb-6">
             <MoreHorizontal className="w-10 h-10 text-primary-400" />
           </div>
           <div className="absolute -inset-2 bg-gradient-to-r from-primary-500/20 to-success-500/20 rounded-2xl opacity-50 -z-10 blur-sm" />
         </div>
-        <h3 className="text-xl font-bold text-secondary-900 mb-3">No transactions found</h3>
-        <p className="text-secondary-600 font-medium">Add your first transaction to get started</p>
+        <h3 className="text-xl font-bold text-secondary-900 dark:text-secondary-100 mb-3">No transactions found</h3>
+        <p className="text-secondary-600 dark:text-secondary-400 font-medium">Add your first transaction to get started</p>
       </div>
     )
   }
 
   return (
-    <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-white/20 shadow-soft overflow-hidden animate-in">
+    <div className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-2xl border border-white/20 dark:border-secondary-700/50 shadow-soft overflow-hidden animate-in">
       <div className="overflow-x-auto">
         <table className="w-full">
-          <thead className="bg-gradient-to-r from-secondary-50 to-primary-50/30 border-b border-white/20">
+          <thead className="bg-gradient-to-r from-secondary-50 dark:from-secondary-900 to-primary-50/30 border-b border-white/20 dark:border-secondary-700/50">
             <tr>
-              <th className="px-8 py-5 text-left text-sm font-bold text-secondary-800 uppercase tracking-wide">Date</th>
-              <th className="px-8 py-5 text-left text-sm font-bold text-secondary-800 uppercase tracking-wide">Description</th>
-              <th className="px-8 py-5 text-left text-sm font-bold text-secondary-800 uppercase tracking-wide">Category</th>
-              <th className="px-8 py-5 text-right text-sm font-bold text-secondary-800 uppercase tracking-wide">Amount</th>
-              <th className="px-8 py-5 text-center text-sm font-bold text-secondary-800 uppercase tracking-wide">Actions</th>
+              <th className="px-8 py-5 text-left text-sm font-bold text-secondary-800 dark:text-secondary-100 uppercase tracking-wide">Date</th>
+              <th className="px-8 py-5 text-left text-sm font-bold text-secondary-800 dark:text-secondary-100 uppercase tracking-wide">Description</th>
+              <th className="px-8 py-5 text-left text-sm font-bold text-secondary-800 dark:text-secondary-100 uppercase tracking-wide">Category</th>
+              <th className="px-8 py-5 text-right text-sm font-bold text-secondary-800 dark:text-secondary-100 uppercase tracking-wide">Amount</th>
+              {runningBalances && (
+                <th className="px-8 py-5 text-right text-sm font-bold text-secondary-800 dark:text-secondary-100 uppercase tracking-wide">Balance</th>
+              )}
+              <th className="px-8 py-5 text-center text-sm font-bold text-secondary-800 dark:text-secondary-100 uppercase tracking-wide">Actions</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-white/20">
             {transactions.map((transaction) => (
-              <tr key={transaction.id} className="group hover:bg-white/60 transition-all duration-200 animate-in">
-                <td className="px-8 py-6 text-sm font-semibold text-secondary-700">
-                  {new Date(transaction.date).toLocaleDateString()}
-                </td>
-                <td className="px-8 py-6">
-                  <div className="text-base font-bold text-secondary-900">{transaction.description}</div>
-                </td>
-                <td className="px-8 py-6">
-                  <span className={cn(
-                    "inline-flex items-center px-3 py-1.5 rounded-xl text-xs font-bold uppercase tracking-wide",
-                    getCategoryColor(transaction.category)
-                  )}>
-                    {transaction.category}
-                  </span>
-                </td>
-                <td className="px-8 py-6 text-right">
-                  <span className={cn(
-                    "text-lg font-bold",
-                    transaction.type === 'income' ? 'text-success-600' : 'text-danger-600'
-                  )}>
-                    {formatAmount(transaction.amount, transaction.type)}
-                  </span>
-                </td>
-                <td className="px-8 py-6 text-center">
-                  <div className="flex items-center justify-center space-x-3">
-                    <button
-                      type="button"
-                      onClick={() => onEdit(transaction)}
-                      className="p-2 text-secondary-400 hover:text-primary-600 hover:bg-primary-50 rounded-xl transition-all duration-200 hover:scale-110"
-                      title="Edit transaction"
-                    >
-                      <Edit className="w-5 h-5" />
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => onDelete(transaction.id)}
-                      className="p-2 text-secondary-400 hover:text-danger-600 hover:bg-danger-50 rounded-xl transition-all duration-200 hover:scale-110"
-                      title="Delete transaction"
-                    >
-                      <Trash2 className="w-5 h-5" />
-                    </button>
-                  </div>
-                </td>
-              </tr>
+              <Fragment key={transaction.id}>
+                <tr className="group hover:bg-white/60 transition-all duration-200 animate-in">
+                  <td className="px-8 py-6 text-sm font-semibold text-secondary-700 dark:text-secondary-300">
+                    {formatDate(new Date(transaction.date))}
+                  </td>
+                  <td className="px-8 py-6">
+                    <div className="text-base font-bold text-secondary-900 dark:text-secondary-100">{transaction.description}</div>
+                    {transaction.type === 'transfer' && (
+                      <div className="text-xs font-medium text-secondary-500 dark:text-secondary-400">
+                        {getAccountName(transaction.accountId)} → {getAccountName(transaction.transferAccountId)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-8 py-6">
+                    {isSplit(transaction) ? (
+                      <button
+                        type="button"
+                        onClick={() => toggleExpanded(transaction.id)}
+                        className="inline-flex items-center space-x-1 px-3 py-1.5 rounded-xl text-xs font-bold uppercase tracking-wide bg-indigo-100 dark:bg-indigo-900/30 text-indigo-800 dark:text-indigo-300 hover:bg-indigo-200 transition-colors"
+                        title={expandedIds.has(transaction.id) ? 'Hide split' : 'Show split'}
+                      >
+                        {expandedIds.has(transaction.id) ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                        <span>Split · {transaction.splits?.length}</span>
+                      </button>
+                    ) : (
+                      <span className={cn(
+                        "inline-flex items-center px-3 py-1.5 rounded-xl text-xs font-bold uppercase tracking-wide",
+                        getCategoryColor(transaction.category)
+                      )}>
+                        {transaction.category}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-8 py-6 text-right">
+                    <span className={cn(
+                      "text-lg font-bold",
+                      transaction.type === 'income' ? 'text-success-600' : transaction.type === 'transfer' ? 'text-secondary-600 dark:text-secondary-400' : 'text-danger-600'
+                    )}>
+                      {formatAmount(transaction.amount, transaction.type)}
+                    </span>
+                    {formatOriginalAmount(transaction) && (
+                      <p className="text-xs text-secondary-500 dark:text-secondary-400 mt-1">{formatOriginalAmount(transaction)}</p>
+                    )}
+                  </td>
+                  {runningBalances && (
+                    <td className="px-8 py-6 text-right text-sm font-semibold text-secondary-700 dark:text-secondary-300">
+                      {formatBalance(runningBalances[transaction.id])}
+                    </td>
+                  )}
+                  <td className="px-8 py-6 text-center">
+                    <div className="flex items-center justify-center space-x-3">
+                      {onOpenAttachments && (
+                        <button
+                          type="button"
+                          onClick={() => onOpenAttachments(transaction)}
+                          className={cn(
+                            "relative p-2 hover:text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/30 rounded-xl transition-all duration-200 hover:scale-110",
+                            attachmentCounts[transaction.id] ? "text-primary-500" : "text-secondary-400 dark:text-secondary-500"
+                          )}
+                          title={attachmentCounts[transaction.id] ? `${attachmentCounts[transaction.id]} attachments` : 'Attach receipt'}
+                        >
+                          <Paperclip className="w-5 h-5" />
+                          {!!attachmentCounts[transaction.id] && (
+                            <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-primary-500 text-white text-[10px] font-bold flex items-center justify-center">
+                              {attachmentCounts[transaction.id]}
+                            </span>
+                          )}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => onEdit(transaction)}
+                        className="p-2 text-secondary-400 dark:text-secondary-500 hover:text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/30 rounded-xl transition-all duration-200 hover:scale-110"
+                        title="Edit transaction"
+                      >
+                        <Edit className="w-5 h-5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDelete(transaction.id)}
+                        className="p-2 text-secondary-400 dark:text-secondary-500 hover:text-danger-600 hover:bg-danger-50 dark:hover:bg-danger-900/30 rounded-xl transition-all duration-200 hover:scale-110"
+                        title="Delete transaction"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+                {expandedIds.has(transaction.id) && transaction.splits?.map((split, index) => (
+                  <tr key={split.id || index} className="bg-secondary-50/50">
+                    <td className="px-8 py-3" />
+                    <td className="px-8 py-3 text-sm text-secondary-600 dark:text-secondary-400">{split.note || '—'}</td>
+                    <td className="px-8 py-3">
+                      <span className={cn(
+                        "inline-flex items-center px-3 py-1 rounded-xl text-xs font-bold uppercase tracking-wide",
+                        getCategoryColor(split.category)
+                      )}>
+                        {split.category}
+                      </span>
+                    </td>
+                    <td className="px-8 py-3 text-right text-sm font-semibold text-secondary-700 dark:text-secondary-300">
+                      {formatAmount(split.amount, transaction.type)}
+                    </td>
+                    {runningBalances && <td className="px-8 py-3" />}
+                    <td className="px-8 py-3" />
+                  </tr>
+                ))}
+              </Fragment>
             ))}
           </tbody>
         </table>
@@ -46,12 +46,12 @@ export default function AccessibleChart({
 export function ChartSkeleton({ className }: { className?: string }) {
   return (
     <div className={cn("animate-pulse", className)}>
-      <div className="h-4 bg-secondary-200 rounded w-1/3 mb-4"></div>
-      <div className="h-64 bg-secondary-100 rounded-lg mb-4"></div>
+      <div className="h-4 bg-secondary-200 dark:bg-secondary-700 rounded w-1/3 mb-4"></div>
+      <div className="h-64 bg-secondary-100 dark:bg-secondary-700 rounded-lg mb-4"></div>
       <div className="flex space-x-4">
-        <div className="h-3 bg-secondary-200 rounded w-16"></div>
-        <div className="h-3 bg-secondary-200 rounded w-20"></div>
-        <div className="h-3 bg-secondary-200 rounded w-14"></div>
+        <div className="h-3 bg-secondary-200 dark:bg-secondary-700 rounded w-16"></div>
+        <div className="h-3 bg-secondary-200 dark:bg-secondary-700 rounded w-20"></div>
+        <div className="h-3 bg-secondary-200 dark:bg-secondary-700 rounded w-14"></div>
       </div>
     </div>
   )
@@ -69,13 +69,13 @@ export function ChartError({
 }) {
   return (
     <div className={cn("flex flex-col items-center justify-center p-8 text-center", className)}>
-      <div className="w-16 h-16 bg-danger-100 rounded-full flex items-center justify-center mb-4">
+      <div className="w-16 h-16 bg-danger-100 dark:bg-danger-900/30 rounded-full flex items-center justify-center mb-4">
         <svg className="w-8 h-8 text-danger-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
         </svg>
       </div>
-      <h3 className="text-lg font-semibold text-secondary-900 mb-2">Chart Error</h3>
-      <p className="text-secondary-600 mb-4">{error}</p>
+      <h3 className="text-lg font-semibold text-secondary-900 dark:text-secondary-100 mb-2">Chart Error</h3>
+      <p className="text-secondary-600 dark:text-secondary-400 mb-4">{error}</p>
       {retry && (
         <button
           onClick={retry}
@@ -23,9 +23,9 @@ export default function Card({
   const baseClasses = "rounded-2xl border transition-all duration-300 animate-in"
   
   const variantClasses = {
-    default: "bg-white border-gray-200 shadow-sm",
-    glass: "bg-white/80 backdrop-blur-sm border-white/20 shadow-soft",
-    solid: "bg-white border-gray-100 shadow-md"
+    default: "bg-white dark:bg-secondary-800 border-gray-200 dark:border-secondary-700 shadow-sm",
+    glass: "bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm border-white/20 dark:border-secondary-700/50 shadow-soft",
+    solid: "bg-white dark:bg-secondary-800 border-gray-100 dark:border-secondary-700 shadow-md"
   }
   
   const sizeClasses = {
@@ -78,17 +78,17 @@ export function MetricCard({
           {icon}
         </div>
         <div className="text-right">
-          <p className="text-xs font-semibold text-secondary-600 uppercase tracking-wide mb-1">
+          <p className="text-xs font-semibold text-secondary-600 dark:text-secondary-400 uppercase tracking-wide mb-1">
             {title}
           </p>
-          <p className="text-2xl font-bold text-secondary-900 group-hover:scale-105 transition-transform duration-200">
+          <p className="text-2xl font-bold text-secondary-900 dark:text-secondary-100 group-hover:scale-105 transition-transform duration-200">
             {value}
           </p>
         </div>
       </div>
       
       <div className="flex items-center justify-between">
-        <p className="text-sm text-secondary-600 font-medium">{subtitle}</p>
+        <p className="text-sm text-secondary-600 dark:text-secondary-400 font-medium">{subtitle}</p>
         <span className="text-sm font-bold text-success-600">{trend}</span>
       </div>
     </Card>
@@ -109,7 +109,7 @@ export function ChartCard({
   return (
     <Card className={className} fullHeight size="md">
       <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 space-y-2 sm:space-y-0">
-        <h3 className="text-lg sm:text-xl font-bold text-secondary-900">{title}</h3>
+        <h3 className="text-lg sm:text-xl font-bold text-secondary-900 dark:text-secondary-100">{title}</h3>
         {controls && <div className="flex items-center space-x-2">{controls}</div>}
       </div>
       <div className="flex-1 min-h-0">
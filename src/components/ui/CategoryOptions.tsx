@@ -0,0 +1,21 @@
+'use client'
+
+import { getCategoryOptions } from '@/lib/categories'
+import type { Category } from '@/types'
+
+interface CategoryOptionsProps {
+  categories: Category[]
+}
+
+// <option>s for a category <select>, with subcategories indented under their parent
+export default function CategoryOptions({ categories }: CategoryOptionsProps) {
+  return (
+    <>
+      {getCategoryOptions(categories).map(({ name, depth }) => (
+        <option key={name} value={name}>
+          {depth > 0 ? `\u00A0\u00A0\u00A0${name}` : name}
+        </option>
+      ))}
+    </>
+  )
+}
@@ -41,13 +41,13 @@ function ToastComponent({ toast, onClose }: ToastProps) {
   const getBackgroundColor = () => {
     switch (toast.type) {
       case 'success':
-        return 'bg-green-50 border-green-200'
+        return 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
       case 'error':
-        return 'bg-red-50 border-red-200'
+        return 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
       case 'warning':
-        return 'bg-yellow-50 border-yellow-200'
+        return 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'
       default:
-        return 'bg-blue-50 border-blue-200'
+        return 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800'
     }
   }
 
@@ -56,15 +56,15 @@ function ToastComponent({ toast, onClose }: ToastProps) {
       <div className="flex items-start space-x-3">
         {getIcon()}
         <div className="flex-1 min-w-0">
-          <h4 className="text-sm font-medium text-gray-900">{toast.title}</h4>
+          <h4 className="text-sm font-medium text-gray-900 dark:text-secondary-100">{toast.title}</h4>
           {toast.message && (
-            <p className="text-sm text-gray-600 mt-1">{toast.message}</p>
+            <p className="text-sm text-gray-600 dark:text-secondary-400 mt-1">{toast.message}</p>
           )}
         </div>
         <button
           type="button"
           onClick={() => onClose(toast.id)}
-          className="text-gray-400 hover:text-gray-600 transition-colors"
+          className="text-gray-400 dark:text-secondary-500 hover:text-gray-600 transition-colors"
         >
           <X className="w-4 h-4" />
         </button>
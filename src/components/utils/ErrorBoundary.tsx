@@ -38,15 +38,15 @@ class ErrorBoundary extends Component<Props, State> {
       }
 
       return (
-        <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-orange-50 flex items-center justify-center p-4">
+        <div className="min-h-screen bg-gradient-to-br from-red-50 dark:from-red-900/20 via-white dark:via-secondary-900 to-orange-50 dark:to-orange-900/20 flex items-center justify-center p-4">
           <div className="text-center max-w-md mx-auto">
             <div className="text-red-600 mb-6">
               <AlertTriangle className="w-16 h-16 mx-auto" />
             </div>
-            <h2 className="text-2xl font-bold text-gray-900 mb-4">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-secondary-100 mb-4">
               Something went wrong
             </h2>
-            <p className="text-gray-600 mb-6">
+            <p className="text-gray-600 dark:text-secondary-400 mb-6">
               We encountered an unexpected error. Please try refreshing the page or contact support if the problem persists.
             </p>
             <div className="space-y-3">
@@ -68,10 +68,10 @@ class ErrorBoundary extends Component<Props, State> {
             </div>
             {this.state.error && (
               <details className="mt-6 text-left">
-                <summary className="text-sm text-gray-500 cursor-pointer hover:text-gray-700">
+                <summary className="text-sm text-gray-500 dark:text-secondary-400 cursor-pointer hover:text-gray-700 dark:hover:text-secondary-100">
                   Error Details
                 </summary>
-                <pre className="mt-2 text-xs text-gray-600 bg-gray-100 p-3 rounded overflow-auto max-h-32">
+                <pre className="mt-2 text-xs text-gray-600 dark:text-secondary-400 bg-gray-100 dark:bg-secondary-700 p-3 rounded overflow-auto max-h-32">
                   {this.state.error.message}
                 </pre>
               </details>
@@ -1,19 +1,47 @@
 'use client'
 
-import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react'
-import { Transaction, Budget, AppContextType, FinancialGoal } from '@/types'
+import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect, useMemo, useRef } from 'react'
+import { Transaction, Budget, AppContextType, FinancialGoal, DebtAccount, RecurringTransaction, Account, Category, CategorizationRule, CategoryCorrection, BankProfile, ImportBatch, TransactionAttachment, RestorePlan, ExchangeRate, NewExchangeRate, AccountType } from '@/types'
 import { TransactionService } from '@/services/transactions'
 import { BudgetService } from '@/services/budgets'
 import { GoalService } from '@/services/goals'
+import { DebtService } from '@/services/debts'
+import { RecurringTransactionService, NewRecurringTransaction } from '@/services/recurringTransactions'
+import { AccountService } from '@/services/accounts'
+import { CategoryService } from '@/services/categories'
+import { CategorizationRuleService } from '@/services/categorizationRules'
+import { CategoryCorrectionService } from '@/services/categoryCorrections'
+import { BankProfileService } from '@/services/bankProfiles'
+import { ImportBatchService } from '@/services/importBatches'
+import { AttachmentService } from '@/services/attachments'
+import { BackupService } from '@/services/backups'
+import { ExchangeRateService } from '@/services/exchangeRates'
+import { LIQUID_ACCOUNT_TYPES, affectsAccount, calculateAccountBalance } from '@/lib/accounts'
+import { getCategoryAmount } from '@/lib/splits'
+import { previewRuleChanges } from '@/lib/categorizationRules'
+import { convertTransactions, createCurrencyConverter, findMissingRates, inOriginalCurrency } from '@/lib/currency'
 import { useAuth } from '@/contexts/AuthContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
 
 const AppContext = createContext<AppContextType | undefined>(undefined)
 
 export function AppProvider({ children }: { children: ReactNode }) {
   const { user, loading: authLoading } = useAuth()
-  const [transactions, setTransactions] = useState<Transaction[]>([])
+  const { preferences, loading: preferencesLoading, reloadPreferences } = usePreferences()
+  // Transactions as saved, with amounts in their own currency; the ones shared below are converted
+  const [storedTransactions, setTransactions] = useState<Transaction[]>([])
   const [budgets, setBudgets] = useState<Budget[]>([])
   const [goals, setGoals] = useState<FinancialGoal[]>([])
+  const [debts, setDebts] = useState<DebtAccount[]>([])
+  const [recurringTransactions, setRecurringTransactions] = useState<RecurringTransaction[]>([])
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [categorizationRules, setCategorizationRules] = useState<CategorizationRule[]>([])
+  const [categoryCorrections, setCategoryCorrections] = useState<CategoryCorrection[]>([])
+  const [bankProfiles, setBankProfiles] = useState<BankProfile[]>([])
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([])
+  const [attachments, setAttachments] = useState<TransactionAttachment[]>([])
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [dataLoaded, setDataLoaded] = useState(false)
@@ -50,6 +78,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
       setTransactions([])
       setBudgets([])
       setGoals([])
+      setDebts([])
+      setRecurringTransactions([])
+      setAccounts([])
+      setCategories([])
+      setCategorizationRules([])
+      setCategoryCorrections([])
+      setBankProfiles([])
+      setImportBatches([])
+      setAttachments([])
+      setExchangeRates([])
       setDataLoaded(false)
       setLoading(false)
     } else if (user && dataLoaded) {
@@ -69,25 +107,63 @@ export function AppProvider({ children }: { children: ReactNode }) {
         setTimeout(() => reject(new Error('Data loading timeout after 10 seconds')), 10000)
       })
 
-      console.log('AppContext: Fetching transactions, budgets, and goals...')
-      const [transactionsData, budgetsData, goalsData] = await Promise.race([
+      // Create any recurring transactions that came due since the last visit
+      try {
+        const materialized = await RecurringTransactionService.materializeDueOccurrences()
+        console.log('AppContext: Recurring transactions materialized:', materialized)
+      } catch (err) {
+        console.warn('AppContext: Failed to materialize recurring transactions:', err)
+      }
+
+      console.log('AppContext: Fetching transactions, budgets, goals, debts, recurring transactions, accounts, categories, categorization rules, category corrections, bank profiles, import batches, attachments, and exchange rates...')
+      const [transactionsData, budgetsData, goalsData, debtsData, recurringData, accountsData, categoriesData, rulesData, correctionsData, profilesData, batchesData, attachmentsData, ratesData] = await Promise.race([
         Promise.all([
           TransactionService.getTransactions(),
           BudgetService.getBudgets(),
-          GoalService.getGoals()
+          GoalService.getGoals(),
+          DebtService.getDebts(),
+          RecurringTransactionService.getRecurringTransactions(),
+          AccountService.getAccounts(),
+          CategoryService.getCategories(),
+          CategorizationRuleService.getRules(),
+          CategoryCorrectionService.getCorrections(),
+          BankProfileService.getProfiles(),
+          ImportBatchService.getBatches(),
+          AttachmentService.getAttachments(),
+          ExchangeRateService.getRates()
         ]),
         timeoutPromise
-      ]) as [Transaction[], Budget[], FinancialGoal[]]
+      ]) as [Transaction[], Budget[], FinancialGoal[], DebtAccount[], RecurringTransaction[], Account[], Category[], CategorizationRule[], CategoryCorrection[], BankProfile[], ImportBatch[], TransactionAttachment[], ExchangeRate[]]
 
       console.log('AppContext: Data loaded successfully:', {
         transactions: transactionsData.length,
         budgets: budgetsData.length,
-        goals: goalsData.length
+        goals: goalsData.length,
+        debts: debtsData.length,
+        recurringTransactions: recurringData.length,
+        accounts: accountsData.length,
+        categories: categoriesData.length,
+        categorizationRules: rulesData.length,
+        categoryCorrections: correctionsData.length,
+        bankProfiles: profilesData.length,
+        importBatches: batchesData.length,
+        attachments: attachmentsData.length,
+        exchangeRates: ratesData.length
       })
 
       setTransactions(transactionsData)
       setBudgets(budgetsData)
       setGoals(goalsData)
+      setDebts(debtsData)
+      setRecurringTransactions(recurringData)
+      setAccounts(accountsData)
+      setCategories(categoriesData)
+      setCategorizationRules(rulesData)
+      setCategoryCorrections(correctionsData)
+      setBankProfiles(profilesData)
+      setImportBatches(batchesData)
+      setAttachments(attachmentsData)
+      setExchangeRates(ratesData)
       setDataLoaded(true)
     } catch (err) {
       console.error('AppContext: Error loading data:', err)
@@ -99,24 +175,65 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }
 
-  // Transaction methods
+  // Every amount the app adds up is in the base currency, converted at the transaction's date
+  const currencyConverter = useMemo(
+    () => createCurrencyConverter(preferences.currency, exchangeRates),
+    [preferences.currency, exchangeRates]
+  )
+  const transactions = useMemo(
+    () => convertTransactions(storedTransactions, currencyConverter),
+    [storedTransactions, currencyConverter]
+  )
+
+  // Save the reference rates the app converts these transactions with, so the database
+  // converts them the same way when it adds up budget spending
+  const saveMissingRates = useCallback(async (converted: Transaction[]) => {
+    const missing = findMissingRates(converted, currencyConverter)
+    if (missing.length === 0) return
+    const saved = await ExchangeRateService.saveRates(missing)
+    setExchangeRates(prev => [...prev, ...saved])
+  }, [currencyConverter])
+
+  // Budget spending follows the base currency; rates for it are saved before it is recalculated
+  const baseCurrencyRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!dataLoaded || preferencesLoading) return
+    const previous = baseCurrencyRef.current
+    baseCurrencyRef.current = preferences.currency
+    if (previous === null || previous === preferences.currency) return
+
+    console.log('AppContext: Base currency changed to', preferences.currency)
+    saveMissingRates(convertTransactions(storedTransactions, currencyConverter))
+      .then(() => BudgetService.refreshSpentAmounts())
+      .then(() => BudgetService.getBudgets())
+      .then(setBudgets)
+      .catch(err => console.warn('AppContext: Failed to convert budgets to the new base currency:', err))
+  }, [dataLoaded, preferencesLoading, preferences.currency, storedTransactions, currencyConverter, saveMissingRates])
+
+  // Transaction methods (amounts are saved in the transaction's own currency)
   const addTransaction = useCallback(async (transaction: Omit<Transaction, 'id'>) => {
     try {
-      const newTransaction = await TransactionService.addTransaction(transaction)
+      const entered = inOriginalCurrency(transaction as Transaction)
+      await saveMissingRates(convertTransactions([entered], currencyConverter))
+      const newTransaction = await TransactionService.addTransaction(entered)
 
       setTransactions(prev => [newTransaction, ...prev])
 
       // Refresh budgets to get updated spent amounts
       const updatedBudgets = await BudgetService.getBudgets()
       setBudgets(updatedBudgets)
+      return newTransaction
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to add transaction')
       throw err
     }
-  }, [])
+  }, [currencyConverter, saveMissingRates])
 
-  const updateTransaction = useCallback(async (id: string, updates: Partial<Transaction>) => {
+  const updateTransaction = useCallback(async (id: string, { originalAmount, ...updates }: Partial<Transaction>) => {
     try {
+      if (originalAmount !== undefined) updates.amount = originalAmount
+      const stored = storedTransactions.find(t => t.id === id)
+      if (stored) await saveMissingRates(convertTransactions([{ ...stored, ...updates }], currencyConverter))
       const updatedTransaction = await TransactionService.updateTransaction(id, updates)
       setTransactions(prev => prev.map(t => t.id === id ? updatedTransaction : t))
 
@@ -127,13 +244,20 @@ export function AppProvider({ children }: { children: ReactNode }) {
       setError(err instanceof Error ? err.message : 'Failed to update transaction')
       throw err
     }
-  }, [])
+  }, [storedTransactions, currencyConverter, saveMissingRates])
 
   const deleteTransaction = useCallback(async (id: string) => {
     try {
       await TransactionService.deleteTransaction(id)
       setTransactions(prev => prev.filter(t => t.id !== id))
 
+      // The attachment rows cascade with the transaction; their files are removed here
+      const transactionAttachments = attachments.filter(a => a.transactionId === id)
+      if (transactionAttachments.length > 0) {
+        setAttachments(prev => prev.filter(a => a.transactionId !== id))
+        await AttachmentService.removeFiles(transactionAttachments)
+      }
+
       // Refresh budgets to get updated spent amounts
       const updatedBudgets = await BudgetService.getBudgets()
       setBudgets(updatedBudgets)
@@ -141,7 +265,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
       setError(err instanceof Error ? err.message : 'Failed to delete transaction')
       throw err
     }
-  }, [])
+  }, [attachments])
 
   // Budget methods
   const addBudget = useCallback(async (budget: Omit<Budget, 'id' | 'spentAmount'>) => {
@@ -215,7 +339,432 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, [])
 
-  // Computed values
+  // Debt methods
+  const addDebt = useCallback(async (debt: Omit<DebtAccount, 'id'>) => {
+    try {
+      const newDebt = await DebtService.addDebt(debt)
+      setDebts(prev => [...prev, newDebt])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add debt')
+      throw err
+    }
+  }, [])
+
+  const updateDebt = useCallback(async (id: string, updates: Partial<DebtAccount>) => {
+    try {
+      const updatedDebt = await DebtService.updateDebt(id, updates)
+      setDebts(prev => prev.map(d => d.id === id ? updatedDebt : d))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update debt')
+      throw err
+    }
+  }, [])
+
+  const deleteDebt = useCallback(async (id: string) => {
+    try {
+      await DebtService.deleteDebt(id)
+      setDebts(prev => prev.filter(d => d.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete debt')
+      throw err
+    }
+  }, [])
+
+  // Recurring transaction methods
+  const addRecurringTransaction = useCallback(async (recurring: NewRecurringTransaction) => {
+    try {
+      await RecurringTransactionService.addRecurringTransaction(recurring)
+
+      // Occurrences on or before today are created right away
+      await RecurringTransactionService.materializeDueOccurrences()
+      const [updatedRecurring, updatedTransactions, updatedBudgets] = await Promise.all([
+        RecurringTransactionService.getRecurringTransactions(),
+        TransactionService.getTransactions(),
+        BudgetService.getBudgets()
+      ])
+      setRecurringTransactions(updatedRecurring)
+      setTransactions(updatedTransactions)
+      setBudgets(updatedBudgets)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add recurring transaction')
+      throw err
+    }
+  }, [])
+
+  const updateRecurringTransaction = useCallback(async (id: string, updates: Partial<RecurringTransaction>) => {
+    try {
+      const updatedRecurring = await RecurringTransactionService.updateRecurringTransaction(id, updates)
+      setRecurringTransactions(prev => prev.map(r => r.id === id ? updatedRecurring : r))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update recurring transaction')
+      throw err
+    }
+  }, [])
+
+  const deleteRecurringTransaction = useCallback(async (id: string) => {
+    try {
+      await RecurringTransactionService.deleteRecurringTransaction(id)
+      setRecurringTransactions(prev => prev.filter(r => r.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete recurring transaction')
+      throw err
+    }
+  }, [])
+
+  // Account methods
+  const addAccount = useCallback(async (account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      const newAccount = await AccountService.addAccount(account)
+      setAccounts(prev => [...prev, newAccount])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add account')
+      throw err
+    }
+  }, [])
+
+  const updateAccount = useCallback(async (id: string, updates: Partial<Account>) => {
+    try {
+      const updatedAccount = await AccountService.updateAccount(id, updates)
+      setAccounts(prev => prev.map(a => a.id === id ? updatedAccount : a))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update account')
+      throw err
+    }
+  }, [])
+
+  const deleteAccount = useCallback(async (id: string) => {
+    try {
+      await AccountService.deleteAccount(id)
+      setAccounts(prev => prev.filter(a => a.id !== id))
+      // The database unlinks the account's transactions
+      setTransactions(prev => prev.map(t => ({
+        ...t,
+        accountId: t.accountId === id ? undefined : t.accountId,
+        transferAccountId: t.transferAccountId === id ? undefined : t.transferAccountId
+      })))
+      // ...and deletes the rules limited to it
+      setCategorizationRules(prev => prev.filter(r => r.accountId !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete account')
+      throw err
+    }
+  }, [])
+
+  // Category methods
+  const addCategory = useCallback(async (category: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      const newCategory = await CategoryService.addCategory(category)
+      setCategories(prev => [...prev, newCategory])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add category')
+      throw err
+    }
+  }, [])
+
+  const updateCategory = useCallback(async (id: string, updates: Partial<Pick<Category, 'parentId' | 'color' | 'icon'>>) => {
+    try {
+      const updatedCategory = await CategoryService.updateCategory(id, updates)
+      setCategories(prev => prev.map(c => c.id === id ? updatedCategory : c))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update category')
+      throw err
+    }
+  }, [])
+
+  // Renames and merges rewrite data in the database, so everything that references categories is reloaded
+  const reloadCategorizedData = async () => {
+    const [updatedCategories, updatedTransactions, updatedBudgets, updatedRecurring, updatedRules, updatedCorrections, updatedProfiles] = await Promise.all([
+      CategoryService.getCategories(),
+      TransactionService.getTransactions(),
+      BudgetService.getBudgets(),
+      RecurringTransactionService.getRecurringTransactions(),
+      CategorizationRuleService.getRules(),
+      CategoryCorrectionService.getCorrections(),
+      BankProfileService.getProfiles()
+    ])
+    setCategories(updatedCategories)
+    setTransactions(updatedTransactions)
+    setBudgets(updatedBudgets)
+    setRecurringTransactions(updatedRecurring)
+    setCategorizationRules(updatedRules)
+    setCategoryCorrections(updatedCorrections)
+    setBankProfiles(updatedProfiles)
+  }
+
+  const renameCategory = useCallback(async (id: string, name: string) => {
+    try {
+      await CategoryService.renameCategory(id, name)
+      await reloadCategorizedData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename category')
+      throw err
+    }
+  }, [])
+
+  const mergeCategories = useCallback(async (sourceId: string, targetId: string) => {
+    try {
+      await CategoryService.mergeCategories(sourceId, targetId)
+      await reloadCategorizedData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge categories')
+      throw err
+    }
+  }, [])
+
+  const deleteCategory = useCallback(async (id: string) => {
+    try {
+      await CategoryService.deleteCategory(id)
+      // The database moves subcategories to the top level
+      setCategories(prev => prev
+        .filter(c => c.id !== id)
+        .map(c => c.parentId === id ? { ...c, parentId: undefined } : c))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete category')
+      throw err
+    }
+  }, [])
+
+  // Categorization rule methods
+  const addCategorizationRule = useCallback(async (rule: Omit<CategorizationRule, 'id' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      const newRule = await CategorizationRuleService.addRule(rule)
+      setCategorizationRules(prev => [...prev, newRule])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add rule')
+      throw err
+    }
+  }, [])
+
+  const updateCategorizationRule = useCallback(async (id: string, updates: Partial<CategorizationRule>) => {
+    try {
+      const updatedRule = await CategorizationRuleService.updateRule(id, updates)
+      setCategorizationRules(prev => prev.map(r => r.id === id ? updatedRule : r))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rule')
+      throw err
+    }
+  }, [])
+
+  const deleteCategorizationRule = useCallback(async (id: string) => {
+    try {
+      await CategorizationRuleService.deleteRule(id)
+      setCategorizationRules(prev => prev.filter(r => r.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule')
+      throw err
+    }
+  }, [])
+
+  // Recategorize existing transactions with the rules; budgets are refreshed by the database triggers
+  const applyCategorizationRules = useCallback(async () => {
+    try {
+      const changes = previewRuleChanges(categorizationRules, transactions)
+      if (changes.length === 0) return 0
+
+      const idsByCategory = new Map<string, string[]>()
+      changes.forEach(({ transaction, category }) => {
+        idsByCategory.set(category, [...(idsByCategory.get(category) || []), transaction.id])
+      })
+      await Promise.all(Array.from(idsByCategory.entries()).map(([category, ids]) =>
+        TransactionService.recategorizeTransactions(ids, category)
+      ))
+
+      const [updatedTransactions, updatedBudgets] = await Promise.all([
+        TransactionService.getTransactions(),
+        BudgetService.getBudgets()
+      ])
+      setTransactions(updatedTransactions)
+      setBudgets(updatedBudgets)
+      return changes.length
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply rules')
+      throw err
+    }
+  }, [categorizationRules, transactions])
+
+  // Category learning methods
+  const recordCategoryCorrections = useCallback(async (corrections: Array<{ description: string; category: string }>) => {
+    try {
+      const recorded = await CategoryCorrectionService.recordCorrections(corrections)
+      const recordedKeys = new Set(recorded.map(c => c.descriptionKey))
+      setCategoryCorrections(prev => [...recorded, ...prev.filter(c => !recordedKeys.has(c.descriptionKey))])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record category corrections')
+      throw err
+    }
+  }, [])
+
+  // Bank profile methods
+  const saveBankProfile = useCallback(async (profile: Omit<BankProfile, 'id' | 'headerFingerprint' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      const saved = await BankProfileService.saveProfile(profile)
+      // Saving over a profile for the same columns replaces it
+      setBankProfiles(prev => [...prev.filter(p => p.headerFingerprint !== saved.headerFingerprint), saved]
+        .sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save bank profile')
+      throw err
+    }
+  }, [])
+
+  const deleteBankProfile = useCallback(async (id: string) => {
+    try {
+      await BankProfileService.deleteProfile(id)
+      setBankProfiles(prev => prev.filter(p => p.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete bank profile')
+      throw err
+    }
+  }, [])
+
+  // Import batch methods
+  const createImportBatch = useCallback(async (batch: Omit<ImportBatch, 'id' | 'changedTransactions' | 'revertedAt' | 'createdAt'>) => {
+    try {
+      const newBatch = await ImportBatchService.createBatch(batch)
+      setImportBatches(prev => [newBatch, ...prev])
+      return newBatch
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create import batch')
+      throw err
+    }
+  }, [])
+
+  const updateImportBatch = useCallback(async (id: string, updates: Partial<Pick<ImportBatch, 'importedCount' | 'duplicateCount' | 'errorCount' | 'changedTransactions'>>) => {
+    try {
+      const updatedBatch = await ImportBatchService.updateBatch(id, updates)
+      setImportBatches(prev => prev.map(b => b.id === id ? updatedBatch : b))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update import batch')
+      throw err
+    }
+  }, [])
+
+  const deleteImportBatch = useCallback(async (id: string) => {
+    try {
+      await ImportBatchService.deleteBatch(id)
+      setImportBatches(prev => prev.filter(b => b.id !== id))
+      setTransactions(prev => prev.map(t => t.importBatchId === id ? { ...t, importBatchId: undefined } : t))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete import batch')
+      throw err
+    }
+  }, [])
+
+  const revertImportBatch = useCallback(async (id: string) => {
+    try {
+      const { batch, deletedIds, restored } = await ImportBatchService.revertBatch(id)
+      const deleted = new Set(deletedIds)
+      const restoredById = new Map(restored.map(t => [t.id, t]))
+      setTransactions(prev => prev.filter(t => !deleted.has(t.id)).map(t => restoredById.get(t.id) || t))
+      setImportBatches(prev => prev.map(b => b.id === id ? batch : b))
+
+      const revertedAttachments = attachments.filter(a => deleted.has(a.transactionId))
+      if (revertedAttachments.length > 0) {
+        setAttachments(prev => prev.filter(a => !deleted.has(a.transactionId)))
+        await AttachmentService.removeFiles(revertedAttachments)
+      }
+
+      // Refresh budgets to get updated spent amounts
+      const updatedBudgets = await BudgetService.getBudgets()
+      setBudgets(updatedBudgets)
+      return { deleted: deletedIds.length, restored: restored.length }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert import')
+      throw err
+    }
+  }, [attachments])
+
+  // Backup methods
+  const restoreBackup = useCallback(async (plan: RestorePlan) => {
+    try {
+      const restored = plan.transactions.filter(change => change.action !== 'skip').map(change => change.record)
+      await saveMissingRates(convertTransactions(restored, currencyConverter))
+      await BackupService.restoreBackup(plan)
+
+      // Reload what the restore wrote, with the budgets' recalculated spent amounts
+      const [updatedTransactions, updatedBudgets, updatedGoals, updatedRecurring, updatedRules, updatedCorrections] = await Promise.all([
+        TransactionService.getTransactions(),
+        BudgetService.getBudgets(),
+        GoalService.getGoals(),
+        RecurringTransactionService.getRecurringTransactions(),
+        CategorizationRuleService.getRules(),
+        CategoryCorrectionService.getCorrections()
+      ])
+      setTransactions(updatedTransactions)
+      setBudgets(updatedBudgets)
+      setGoals(updatedGoals)
+      setRecurringTransactions(updatedRecurring)
+      setCategorizationRules(updatedRules)
+      setCategoryCorrections(updatedCorrections)
+      if (plan.preferences?.action === 'update') await reloadPreferences()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup')
+      throw err
+    }
+  }, [currencyConverter, saveMissingRates, reloadPreferences])
+
+  // Exchange rate methods; budget spending is recalculated with the new rates
+  const refreshBudgetSpending = async () => {
+    await BudgetService.refreshSpentAmounts()
+    setBudgets(await BudgetService.getBudgets())
+  }
+
+  const saveExchangeRates = useCallback(async (rates: NewExchangeRate[]) => {
+    try {
+      const saved = await ExchangeRateService.saveRates(rates)
+      const savedKeys = new Set(saved.map(r => `${r.date.getTime()}|${r.fromCurrency}|${r.toCurrency}`))
+      setExchangeRates(prev => [...prev.filter(r => !savedKeys.has(`${r.date.getTime()}|${r.fromCurrency}|${r.toCurrency}`)), ...saved]
+        .sort((a, b) => a.date.getTime() - b.date.getTime()))
+      await refreshBudgetSpending()
+      return saved.length
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save exchange rates')
+      throw err
+    }
+  }, [])
+
+  const deleteExchangeRate = useCallback(async (id: string) => {
+    try {
+      await ExchangeRateService.deleteRate(id)
+      setExchangeRates(prev => prev.filter(r => r.id !== id))
+      await refreshBudgetSpending()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete exchange rate')
+      throw err
+    }
+  }, [])
+
+  // Save the reference rates the foreign transactions are converted with until better ones are imported
+  const addReferenceRates = useCallback(async () => {
+    const missing = findMissingRates(transactions, currencyConverter)
+    return missing.length > 0 ? saveExchangeRates(missing) : 0
+  }, [transactions, currencyConverter, saveExchangeRates])
+
+  // Attachment methods
+  const addTransactionAttachment = useCallback(async (transactionId: string, file: File, ocrText?: string) => {
+    try {
+      const newAttachment = await AttachmentService.uploadAttachment(transactionId, file, ocrText)
+      setAttachments(prev => [newAttachment, ...prev])
+      return newAttachment
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add attachment')
+      throw err
+    }
+  }, [])
+
+  const deleteTransactionAttachment = useCallback(async (id: string) => {
+    const attachment = attachments.find(a => a.id === id)
+    if (!attachment) return
+    try {
+      await AttachmentService.deleteAttachment(attachment)
+      setAttachments(prev => prev.filter(a => a.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete attachment')
+      throw err
+    }
+  }, [attachments])
+
+  // Computed values (transfers between accounts are neither income nor expenses)
   const getTotalIncome = useCallback(() => {
     return transactions
       .filter(t => t.type === 'income')
@@ -240,14 +789,44 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   const getCategorySpending = useCallback((category: string) => {
     return transactions
-      .filter(t => t.type === 'expense' && t.category === category)
-      .reduce((sum, t) => sum + t.amount, 0)
+      .filter(t => t.type === 'expense')
+      .reduce((sum, t) => sum + getCategoryAmount(t, category), 0)
   }, [transactions])
 
+  // Worked out in the account's currency, so a foreign account's balance doesn't drift with the rates
+  const getAccountBalance = useCallback((accountId: string, currency?: string) => {
+    const account = accounts.find(a => a.id === accountId)
+    if (!account) return 0
+    const accountTransactions = convertTransactions(
+      storedTransactions.filter(t => affectsAccount(t, accountId)),
+      currencyConverter,
+      account.currency
+    )
+    const balance = calculateAccountBalance(account, accountTransactions)
+    return currency ? currencyConverter.convert(balance, account.currency, currency, new Date()) : balance
+  }, [accounts, storedTransactions, currencyConverter])
+
+  const getTotalBalance = useCallback((types: AccountType[] = LIQUID_ACCOUNT_TYPES) => {
+    return accounts
+      .filter(a => types.includes(a.type))
+      .reduce((sum, a) => sum + getAccountBalance(a.id, currencyConverter.baseCurrency), 0)
+  }, [accounts, getAccountBalance, currencyConverter])
+
   const contextValue: AppContextType = {
     transactions,
     budgets,
     goals,
+    debts,
+    recurringTransactions,
+    accounts,
+    categories,
+    categorizationRules,
+    categoryCorrections,
+    bankProfiles,
+    importBatches,
+    attachments,
+    exchangeRates,
+    currencyConverter,
     addTransaction,
     updateTransaction,
     deleteTransaction,
@@ -258,11 +837,44 @@ export function AppProvider({ children }: { children: ReactNode }) {
     updateGoal,
     deleteGoal,
     updateGoalProgress,
+    addDebt,
+    updateDebt,
+    deleteDebt,
+    addRecurringTransaction,
+    updateRecurringTransaction,
+    deleteRecurringTransaction,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    addCategory,
+    updateCategory,
+    renameCategory,
+    mergeCategories,
+    deleteCategory,
+    addCategorizationRule,
+    updateCategorizationRule,
+    deleteCategorizationRule,
+    applyCategorizationRules,
+    recordCategoryCorrections,
+    saveBankProfile,
+    deleteBankProfile,
+    createImportBatch,
+    updateImportBatch,
+    deleteImportBatch,
+    revertImportBatch,
+    restoreBackup,
+    saveExchangeRates,
+    deleteExchangeRate,
+    addReferenceRates,
+    addTransactionAttachment,
+    deleteTransactionAttachment,
     getTotalIncome,
     getTotalExpenses,
     getNetIncome,
     getSavingsRate,
     getCategorySpending,
+    getAccountBalance,
+    getTotalBalance,
     loading,
     error
   }
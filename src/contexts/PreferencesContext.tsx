@@ -0,0 +1,84 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { UserPreferences } from '@/types'
+import { PreferencesService } from '@/services/preferences'
+import { DEFAULT_PREFERENCES, Formatters, applyFormatPreferences, createFormatters } from '@/lib/formatting'
+import { useAuth } from '@/contexts/AuthContext'
+
+interface PreferencesContextType extends Formatters {
+  preferences: UserPreferences
+  loading: boolean
+  savePreferences: (updates: Partial<UserPreferences>) => Promise<void>
+  reloadPreferences: () => Promise<void> // After something other than savePreferences changed them, such as a restore
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined)
+
+export function PreferencesProvider({ children }: { children: React.ReactNode }) {
+  const { user, loading: authLoading } = useAuth()
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES)
+  const [loading, setLoading] = useState(true)
+
+  // Load the saved preferences when a user signs in, and go back to the defaults on sign out
+  useEffect(() => {
+    if (authLoading) return
+
+    if (!user) {
+      setPreferences(DEFAULT_PREFERENCES)
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    PreferencesService.getPreferences()
+      .then(saved => {
+        if (!cancelled) setPreferences(saved)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [user, authLoading])
+
+  // Applied while rendering, so formatting outside React matches what the children render
+  const formatters = useMemo(() => {
+    applyFormatPreferences(preferences)
+    return createFormatters(preferences)
+  }, [preferences])
+
+  const savePreferences = useCallback(async (updates: Partial<UserPreferences>) => {
+    const saved = await PreferencesService.savePreferences({ ...preferences, ...updates })
+    setPreferences(saved)
+  }, [preferences])
+
+  const reloadPreferences = useCallback(async () => {
+    setPreferences(await PreferencesService.getPreferences())
+  }, [])
+
+  const value = {
+    ...formatters,
+    preferences,
+    loading,
+    savePreferences,
+    reloadPreferences
+  }
+
+  return (
+    <PreferencesContext.Provider value={value}>
+      {children}
+    </PreferencesContext.Provider>
+  )
+}
+
+export function usePreferences() {
+  const context = useContext(PreferencesContext)
+  if (context === undefined) {
+    throw new Error('usePreferences must be used within a PreferencesProvider')
+  }
+  return context
+}
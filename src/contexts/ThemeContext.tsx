@@ -0,0 +1,69 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import { ResolvedTheme, ThemeMode } from '@/types'
+import { CHART_PALETTES, ChartPalette, DARK_MODE_QUERY, THEME_STORAGE_KEY } from '@/lib/theme'
+import { useAuth } from '@/contexts/AuthContext'
+import { usePreferences } from '@/contexts/PreferencesContext'
+
+interface ThemeContextType {
+  theme: ThemeMode // As chosen in Settings → Appearance
+  resolvedTheme: ResolvedTheme // What is shown, with 'system' worked out
+  chartPalette: ChartPalette
+  setTheme: (theme: ThemeMode) => Promise<void> // Applies and saves the theme for the user
+}
+
+const ThemeContext = createContext<ThemeContextType | undefined>(undefined)
+
+export function ThemeProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth()
+  const { preferences, loading, savePreferences } = usePreferences()
+  const [systemTheme, setSystemTheme] = useState<ResolvedTheme>('light')
+
+  // Follow the operating system setting, also when it changes while the app is open
+  useEffect(() => {
+    const query = window.matchMedia(DARK_MODE_QUERY)
+    const update = () => setSystemTheme(query.matches ? 'dark' : 'light')
+    update()
+    query.addEventListener('change', update)
+    return () => query.removeEventListener('change', update)
+  }, [])
+
+  const theme = preferences.theme
+  const resolvedTheme = theme === 'system' ? systemTheme : theme
+
+  // Signed out, the theme the head script applied from the last session stays
+  useEffect(() => {
+    if (!user || loading) return
+    document.documentElement.classList.toggle('dark', resolvedTheme === 'dark')
+    document.documentElement.style.colorScheme = resolvedTheme
+    try {
+      window.localStorage.setItem(THEME_STORAGE_KEY, theme)
+    } catch {
+      // Storage can be blocked; the theme then applies once the preferences load
+    }
+  }, [user, loading, theme, resolvedTheme])
+
+  const setTheme = useCallback((next: ThemeMode) => savePreferences({ theme: next }), [savePreferences])
+
+  const value = {
+    theme,
+    resolvedTheme,
+    chartPalette: CHART_PALETTES[resolvedTheme],
+    setTheme
+  }
+
+  return (
+    <ThemeContext.Provider value={value}>
+      {children}
+    </ThemeContext.Provider>
+  )
+}
+
+export function useTheme() {
+  const context = useContext(ThemeContext)
+  if (context === undefined) {
+    throw new Error('useTheme must be used within a ThemeProvider')
+  }
+  return context
+}
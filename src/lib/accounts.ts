@@ -0,0 +1,58 @@
+import { Account, AccountType, Transaction } from '@/types'
+
+// Account balances are derived from the opening balance plus every transaction posted to the account
+
+export const ACCOUNT_TYPES: Array<{ value: AccountType; label: string }> = [
+  { value: 'checking', label: 'Checking' },
+  { value: 'savings', label: 'Savings' },
+  { value: 'credit_card', label: 'Credit Card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'investment', label: 'Investment' },
+  { value: 'other', label: 'Other' }
+]
+
+// Accounts whose balance is money available to spend, used as the starting point for forecasts
+export const LIQUID_ACCOUNT_TYPES: AccountType[] = ['checking', 'savings', 'cash']
+
+export const getAccountTypeLabel = (type: AccountType): string =>
+  ACCOUNT_TYPES.find(t => t.value === type)?.label || 'Other'
+
+// Whether a transaction moves money in or out of the account
+export const affectsAccount = (transaction: Transaction, accountId: string): boolean =>
+  transaction.accountId === accountId || (transaction.type === 'transfer' && transaction.transferAccountId === accountId)
+
+// Effect of a transaction on the balance of the given account.
+// Transfers leave their source account and arrive in their destination account.
+export const getSignedAmount = (transaction: Transaction, accountId: string): number => {
+  if (transaction.type === 'transfer') {
+    if (transaction.transferAccountId === accountId) return transaction.amount
+    return transaction.accountId === accountId ? -transaction.amount : 0
+  }
+  if (transaction.accountId !== accountId) return 0
+  return transaction.type === 'income' ? transaction.amount : -transaction.amount
+}
+
+// Current balance of an account
+export const calculateAccountBalance = (account: Account, transactions: Transaction[]): number => {
+  return transactions
+    .filter(t => affectsAccount(t, account.id))
+    .reduce((balance, t) => balance + getSignedAmount(t, account.id), account.openingBalance)
+}
+
+// Balance of the account right after each of its transactions, keyed by transaction id.
+// Expects the newest-first order transactions are loaded in, so same-day ties are applied bottom-up.
+export const calculateRunningBalances = (account: Account, transactions: Transaction[]): Record<string, number> => {
+  const balances: Record<string, number> = {}
+  let balance = account.openingBalance
+
+  transactions
+    .filter(t => affectsAccount(t, account.id))
+    .map((t, index) => ({ t, index }))
+    .sort((a, b) => new Date(a.t.date).getTime() - new Date(b.t.date).getTime() || b.index - a.index)
+    .forEach(({ t }) => {
+      balance += getSignedAmount(t, account.id)
+      balances[t.id] = balance
+    })
+
+  return balances
+}
@@ -0,0 +1,516 @@
+import {
+  Budget,
+  CategorizationRule,
+  CategoryCorrection,
+  DataBackup,
+  FinancialGoal,
+  RecurringTransaction,
+  RestoreChange,
+  RestoreConflictPolicy,
+  RestorePlan,
+  Transaction,
+  TransactionSplit,
+  UserPreferences
+} from '@/types'
+import { BACKUP_APP_ID, BACKUP_SCHEMA_VERSION } from './dataExport'
+import { BUDGET_PERIODS, ROLLOVER_POLICIES } from './budgetPeriods'
+import { RECURRING_FREQUENCIES } from './recurrence'
+import { RULE_MATCH_TYPES } from './categorizationRules'
+import { DATE_FORMATS } from './formatting'
+
+// Reading a JSON backup from the Data tab and working out what restoring it changes
+
+// Problems listed before the rest are summarized
+const MAX_VALIDATION_ERRORS = 10
+
+// Reason given for records the backup doesn't change
+const UP_TO_DATE = 'Already up to date'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const GOAL_TYPES: FinancialGoal['type'][] = ['savings', 'debt_payoff', 'investment', 'emergency_fund', 'major_purchase', 'retirement', 'custom']
+const GOAL_PRIORITIES: FinancialGoal['priority'][] = ['low', 'medium', 'high', 'critical']
+const CURRENCY_PATTERN = /^[A-Z]{3}$/
+
+// Records in the current data a backup is compared with, and the ids its references may point at
+export interface RestoreTarget {
+  transactions: Transaction[]
+  budgets: Budget[]
+  goals: FinancialGoal[]
+  recurringTransactions: RecurringTransaction[]
+  categorizationRules: CategorizationRule[]
+  categoryCorrections: CategoryCorrection[]
+  preferences: UserPreferences
+  accountIds: string[]
+  recurringTransactionIds: string[]
+  importBatchIds: string[]
+}
+
+type Fields = Record<string, unknown>
+
+const isObject = (value: unknown): value is Fields => typeof value === 'object' && value !== null && !Array.isArray(value)
+const isText = (value: unknown): value is string => typeof value === 'string'
+const isAmount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+const isOptionalText = (value: unknown) => value === undefined || value === null || isText(value)
+const isOptionalAmount = (value: unknown) => value === undefined || value === null || isAmount(value)
+const isOptionalId = (value: unknown) => value === undefined || value === null || (isText(value) && UUID_PATTERN.test(value))
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean'
+const isDate = (value: unknown): value is string => isText(value) && !isNaN(new Date(value).getTime())
+
+// Dates in a backup are ISO strings; app dates are UTC midnight of the calendar date
+const toDate = (value: string) => new Date(value.split('T')[0] as string)
+const toDateKey = (date: Date) => date.toISOString().split('T')[0]
+const optionalText = (value: unknown) => (isText(value) && value ? value : undefined)
+
+// Problem with a record, or null when it can be restored
+const validateTransaction = (t: Fields): string | null => {
+  if (!isText(t.id) || !UUID_PATTERN.test(t.id)) return 'missing or invalid id'
+  if (!isDate(t.date)) return 'missing or invalid date'
+  if (!isText(t.description) || !t.description.trim()) return 'missing description'
+  if (!isText(t.category)) return 'missing category'
+  if (!isAmount(t.amount) || t.amount < 0) return 'missing or invalid amount'
+  if (!['income', 'expense', 'transfer'].includes(t.type as string)) return 'type must be income, expense or transfer'
+  for (const field of ['accountId', 'transferAccountId', 'recurringTransactionId', 'importBatchId']) {
+    if (t[field] !== undefined && t[field] !== null && !(isText(t[field]) && UUID_PATTERN.test(t[field] as string))) {
+      return `invalid ${field}`
+    }
+  }
+  if (!isOptionalText(t.externalId)) return 'invalid externalId'
+  if (t.currency !== undefined && t.currency !== null && !(isText(t.currency) && CURRENCY_PATTERN.test(t.currency))) return 'invalid currency'
+  if (t.splits !== undefined) {
+    if (!Array.isArray(t.splits)) return 'splits must be a list'
+    const invalidSplit = t.splits.some(split => !isObject(split) || !isText(split.category) || !isAmount(split.amount) || split.amount <= 0 || !isOptionalText(split.note))
+    if (invalidSplit) return 'invalid split'
+  }
+  return null
+}
+
+const validateBudget = (b: Fields): string | null => {
+  if (!isText(b.id) || !UUID_PATTERN.test(b.id)) return 'missing or invalid id'
+  if (!isText(b.category) || !b.category.trim()) return 'missing category'
+  if (!isAmount(b.budgetAmount) || b.budgetAmount < 0) return 'missing or invalid budgetAmount'
+  if (!isText(b.period) || !BUDGET_PERIODS.some(p => p.toLowerCase() === (b.period as string).toLowerCase())) {
+    return `period must be one of ${BUDGET_PERIODS.join(', ')}`
+  }
+  if (b.periodStartDay !== undefined && !(Number.isInteger(b.periodStartDay) && (b.periodStartDay as number) >= 1 && (b.periodStartDay as number) <= 28)) {
+    return 'periodStartDay must be between 1 and 28'
+  }
+  if (b.rolloverPolicy !== undefined && !ROLLOVER_POLICIES.some(p => p.value === b.rolloverPolicy)) return 'invalid rolloverPolicy'
+  if (b.rolloverCap !== undefined && !(isAmount(b.rolloverCap) && b.rolloverCap >= 0)) return 'invalid rolloverCap'
+  return null
+}
+
+const validateGoal = (g: Fields): string | null => {
+  if (!isText(g.id) || !UUID_PATTERN.test(g.id)) return 'missing or invalid id'
+  if (!isText(g.name) || !g.name.trim()) return 'missing name'
+  if (!GOAL_TYPES.includes(g.type as FinancialGoal['type'])) return 'invalid type'
+  if (!isAmount(g.targetAmount) || g.targetAmount <= 0) return 'targetAmount must be more than 0'
+  if (!isAmount(g.currentAmount) || g.currentAmount < 0) return 'invalid currentAmount'
+  if (!isDate(g.targetDate)) return 'missing or invalid targetDate'
+  if (!GOAL_PRIORITIES.includes(g.priority as FinancialGoal['priority'])) return 'invalid priority'
+  if (!isOptionalText(g.category) || !isOptionalText(g.description)) return 'invalid category or description'
+  return null
+}
+
+const validateRecurringTransaction = (r: Fields): string | null => {
+  if (!isText(r.id) || !UUID_PATTERN.test(r.id)) return 'missing or invalid id'
+  if (!isText(r.description) || !r.description.trim()) return 'missing description'
+  if (!isText(r.category)) return 'missing category'
+  if (!isAmount(r.amount) || r.amount < 0) return 'missing or invalid amount'
+  if (!isText(r.currency) || !CURRENCY_PATTERN.test(r.currency)) return 'missing or invalid currency'
+  if (!['income', 'expense'].includes(r.type as string)) return 'type must be income or expense'
+  if (!RECURRING_FREQUENCIES.some(f => f.value === r.frequency)) return 'invalid frequency'
+  if (!isOptionalId(r.accountId)) return 'invalid accountId'
+  if (!isDate(r.startDate) || !isDate(r.nextOccurrence)) return 'missing or invalid startDate or nextOccurrence'
+  if (r.endDate !== undefined && r.endDate !== null && !isDate(r.endDate)) return 'invalid endDate'
+  if (!isAmount(r.amountVariance) || r.amountVariance < 0) return 'invalid amountVariance'
+  if (!isBoolean(r.isActive)) return 'invalid isActive'
+  return null
+}
+
+const validateCategorizationRule = (r: Fields): string | null => {
+  if (!isText(r.id) || !UUID_PATTERN.test(r.id)) return 'missing or invalid id'
+  if (!isText(r.name) || !r.name.trim()) return 'missing name'
+  if (!RULE_MATCH_TYPES.some(t => t.value === r.matchType)) return 'invalid matchType'
+  if (!isOptionalText(r.pattern)) return 'invalid pattern'
+  if (!isOptionalAmount(r.amountMin) || !isOptionalAmount(r.amountMax)) return 'invalid amountMin or amountMax'
+  if (!isOptionalId(r.accountId)) return 'invalid accountId'
+  if (r.transactionType !== undefined && r.transactionType !== null && !['income', 'expense'].includes(r.transactionType as string)) {
+    return 'transactionType must be income or expense'
+  }
+  if (!isText(r.category) || !r.category.trim()) return 'missing category'
+  if (!Number.isInteger(r.priority)) return 'invalid priority'
+  if (!isBoolean(r.isActive)) return 'invalid isActive'
+  return null
+}
+
+const validateCategoryCorrection = (c: Fields): string | null => {
+  if (!isText(c.id) || !UUID_PATTERN.test(c.id)) return 'missing or invalid id'
+  if (!isText(c.descriptionKey) || !c.descriptionKey) return 'missing descriptionKey'
+  if (!isText(c.description) || !isText(c.category) || !c.category.trim()) return 'missing description or category'
+  if (!Number.isInteger(c.timesCorrected) || (c.timesCorrected as number) < 1) return 'invalid timesCorrected'
+  return null
+}
+
+const validatePreferences = (p: Fields): string | null => {
+  if (!isText(p.currency) || !CURRENCY_PATTERN.test(p.currency)) return 'invalid currency'
+  if (!isText(p.locale) || !p.locale) return 'invalid locale'
+  if (!DATE_FORMATS.includes(p.dateFormat as UserPreferences['dateFormat'])) return 'invalid dateFormat'
+  if (!['light', 'dark', 'system'].includes(p.theme as string)) return 'invalid theme'
+  if (!['small', 'medium', 'large'].includes(p.fontSize as string)) return 'invalid fontSize'
+  if (!isText(p.accentColor)) return 'invalid accentColor'
+  for (const field of ['notifications', 'emailReports', 'budgetAlerts', 'compactMode']) {
+    if (!isBoolean(p[field])) return `invalid ${field}`
+  }
+  return null
+}
+
+const toTransaction = (t: Fields): Transaction => ({
+  id: t.id as string,
+  date: toDate(t.date as string),
+  description: (t.description as string).trim(),
+  category: t.category as string,
+  amount: t.amount as number,
+  type: t.type as Transaction['type'],
+  accountId: optionalText(t.accountId),
+  transferAccountId: t.type === 'transfer' ? optionalText(t.transferAccountId) : undefined,
+  recurringTransactionId: optionalText(t.recurringTransactionId),
+  externalId: optionalText(t.externalId),
+  importBatchId: optionalText(t.importBatchId),
+  currency: optionalText(t.currency),
+  ...(Array.isArray(t.splits) && t.splits.length > 0 && {
+    splits: (t.splits as Fields[]).map((split): TransactionSplit => ({
+      category: split.category as string,
+      amount: split.amount as number,
+      note: optionalText(split.note)
+    }))
+  })
+})
+
+const toBudget = (b: Fields): Budget => ({
+  id: b.id as string,
+  category: (b.category as string).trim(),
+  budgetAmount: b.budgetAmount as number,
+  spentAmount: 0, // Worked out again from the transactions once restored
+  period: BUDGET_PERIODS.find(p => p.toLowerCase() === (b.period as string).toLowerCase()) as string,
+  periodStartDay: (b.periodStartDay as number | undefined) ?? 1,
+  rolloverPolicy: (b.rolloverPolicy as Budget['rolloverPolicy']) || 'none',
+  rolloverCap: b.rolloverCap as number | undefined
+})
+
+const toGoal = (g: Fields): FinancialGoal => ({
+  id: g.id as string,
+  name: (g.name as string).trim(),
+  type: g.type as FinancialGoal['type'],
+  targetAmount: g.targetAmount as number,
+  currentAmount: g.currentAmount as number,
+  targetDate: toDate(g.targetDate as string),
+  priority: g.priority as FinancialGoal['priority'],
+  category: optionalText(g.category),
+  description: optionalText(g.description),
+  createdAt: isDate(g.createdAt) ? new Date(g.createdAt) : new Date(),
+  updatedAt: isDate(g.updatedAt) ? new Date(g.updatedAt) : new Date()
+})
+
+const toRecurringTransaction = (r: Fields): RecurringTransaction => ({
+  id: r.id as string,
+  description: (r.description as string).trim(),
+  category: r.category as string,
+  amount: r.amount as number,
+  currency: r.currency as string,
+  type: r.type as RecurringTransaction['type'],
+  frequency: r.frequency as RecurringTransaction['frequency'],
+  accountId: optionalText(r.accountId),
+  startDate: toDate(r.startDate as string),
+  endDate: isDate(r.endDate) ? toDate(r.endDate) : undefined,
+  nextOccurrence: toDate(r.nextOccurrence as string),
+  amountVariance: r.amountVariance as number,
+  isActive: r.isActive as boolean,
+  lastMaterializedAt: isDate(r.lastMaterializedAt) ? new Date(r.lastMaterializedAt) : undefined,
+  createdAt: isDate(r.createdAt) ? new Date(r.createdAt) : new Date(),
+  updatedAt: isDate(r.updatedAt) ? new Date(r.updatedAt) : new Date()
+})
+
+const toCategorizationRule = (r: Fields): CategorizationRule => ({
+  id: r.id as string,
+  name: (r.name as string).trim(),
+  matchType: r.matchType as CategorizationRule['matchType'],
+  pattern: optionalText(r.pattern),
+  amountMin: isAmount(r.amountMin) ? r.amountMin : undefined,
+  amountMax: isAmount(r.amountMax) ? r.amountMax : undefined,
+  accountId: optionalText(r.accountId),
+  transactionType: optionalText(r.transactionType) as CategorizationRule['transactionType'],
+  category: (r.category as string).trim(),
+  priority: r.priority as number,
+  isActive: r.isActive as boolean,
+  createdAt: isDate(r.createdAt) ? new Date(r.createdAt) : new Date(),
+  updatedAt: isDate(r.updatedAt) ? new Date(r.updatedAt) : new Date()
+})
+
+const toCategoryCorrection = (c: Fields): CategoryCorrection => ({
+  id: c.id as string,
+  descriptionKey: c.descriptionKey as string,
+  description: c.description as string,
+  category: (c.category as string).trim(),
+  timesCorrected: c.timesCorrected as number,
+  updatedAt: isDate(c.updatedAt) ? new Date(c.updatedAt) : new Date()
+})
+
+const toPreferences = (p: Fields): UserPreferences => ({
+  currency: p.currency as string,
+  locale: p.locale as string,
+  dateFormat: p.dateFormat as UserPreferences['dateFormat'],
+  notifications: p.notifications as boolean,
+  emailReports: p.emailReports as boolean,
+  budgetAlerts: p.budgetAlerts as boolean,
+  theme: p.theme as UserPreferences['theme'],
+  accentColor: p.accentColor as string,
+  fontSize: p.fontSize as UserPreferences['fontSize'],
+  compactMode: p.compactMode as boolean
+})
+
+/**
+ * Read a backup file written by the Data tab. The whole file is checked against its schema
+ * version before anything is restored; any invalid record rejects the backup.
+ */
+export const parseBackup = (text: string): { backup: DataBackup | null; errors: string[] } => {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { backup: null, errors: ['The file is not valid JSON'] }
+  }
+
+  if (!isObject(json) || json.app !== BACKUP_APP_ID || !isObject(json.data)) {
+    return { backup: null, errors: ['The file is not a backup exported from this app'] }
+  }
+  if (!Number.isInteger(json.schemaVersion) || (json.schemaVersion as number) < 1) {
+    return { backup: null, errors: ['The backup has no valid schema version'] }
+  }
+  if ((json.schemaVersion as number) > BACKUP_SCHEMA_VERSION) {
+    return {
+      backup: null,
+      errors: [`The backup was made by a newer version of the app (schema ${json.schemaVersion}; this version reads up to ${BACKUP_SCHEMA_VERSION})`]
+    }
+  }
+
+  const data = json.data
+  const errors: string[] = []
+  const check = (name: string, validate: (record: Fields) => string | null): Fields[] => {
+    const records = data[name]
+    if (records === undefined) return []
+    if (!Array.isArray(records)) {
+      errors.push(`${name} must be a list`)
+      return []
+    }
+    const ids = new Set<unknown>()
+    records.forEach((record, index) => {
+      const problem = isObject(record) ? validate(record) : 'not an object'
+      if (problem) {
+        errors.push(`${name} ${index + 1}: ${problem}`)
+      } else if (ids.has(record.id)) {
+        errors.push(`${name} ${index + 1}: repeated id ${record.id}`)
+      }
+      if (isObject(record)) ids.add(record.id)
+    })
+    return records as Fields[]
+  }
+
+  const transactions = check('transactions', validateTransaction)
+  const budgets = check('budgets', validateBudget)
+  const goals = check('goals', validateGoal)
+  const recurringTransactions = check('recurringTransactions', validateRecurringTransaction)
+  const categorizationRules = check('categorizationRules', validateCategorizationRule)
+  const categoryCorrections = check('categoryCorrections', validateCategoryCorrection)
+  for (const name of ['debts', 'accounts', 'categories']) {
+    if (data[name] !== undefined && !Array.isArray(data[name])) errors.push(`${name} must be a list`)
+  }
+  if (data.preferences !== undefined) {
+    const problem = isObject(data.preferences) ? validatePreferences(data.preferences) : 'not an object'
+    if (problem) errors.push(`preferences: ${problem}`)
+  }
+
+  if (errors.length > 0) {
+    return {
+      backup: null,
+      errors: errors.length > MAX_VALIDATION_ERRORS
+        ? [...errors.slice(0, MAX_VALIDATION_ERRORS), `and ${errors.length - MAX_VALIDATION_ERRORS} more problems`]
+        : errors
+    }
+  }
+
+  return {
+    backup: {
+      app: BACKUP_APP_ID,
+      schemaVersion: json.schemaVersion as number,
+      exportedAt: isText(json.exportedAt) ? json.exportedAt : '',
+      data: {
+        transactions: transactions.map(toTransaction),
+        budgets: budgets.map(toBudget),
+        goals: goals.map(toGoal),
+        recurringTransactions: recurringTransactions.map(toRecurringTransaction),
+        categorizationRules: categorizationRules.map(toCategorizationRule),
+        categoryCorrections: categoryCorrections.map(toCategoryCorrection),
+        ...(isObject(data.preferences) && { preferences: toPreferences(data.preferences) }),
+        // Kept as they are; debts, accounts and categories are not restored
+        debts: (data.debts as DataBackup['data']['debts']) || [],
+        accounts: (data.accounts as DataBackup['data']['accounts']) || [],
+        categories: (data.categories as DataBackup['data']['categories']) || []
+      }
+    },
+    errors: []
+  }
+}
+
+// Fields compared to tell whether a record differs from the current one
+const transactionFields = (t: Transaction) => JSON.stringify([
+  toDateKey(t.date), t.description, t.category, t.amount, t.currency || null, t.type, t.accountId || null, t.transferAccountId || null,
+  (t.splits || []).map(split => [split.category, split.amount, split.note || null])
+])
+const budgetFields = (b: Budget) => JSON.stringify([
+  b.category, b.budgetAmount, b.period, b.periodStartDay ?? 1, b.rolloverPolicy || 'none', b.rolloverPolicy === 'cap' ? b.rolloverCap ?? 0 : null
+])
+const goalFields = (g: FinancialGoal) => JSON.stringify([
+  g.name, g.type, g.targetAmount, g.currentAmount, toDateKey(g.targetDate), g.priority, g.category || null, g.description || null
+])
+const recurringFields = (r: RecurringTransaction) => JSON.stringify([
+  r.description, r.category, r.amount, r.currency || null, r.type, r.frequency, r.accountId || null, toDateKey(r.startDate),
+  r.endDate ? toDateKey(r.endDate) : null, toDateKey(r.nextOccurrence), r.amountVariance, r.isActive
+])
+const ruleFields = (r: CategorizationRule) => JSON.stringify([
+  r.name, r.matchType, r.pattern || null, r.amountMin ?? null, r.amountMax ?? null, r.accountId || null,
+  r.transactionType || null, r.category, r.priority, r.isActive
+])
+const correctionFields = (c: CategoryCorrection) => JSON.stringify([c.descriptionKey, c.description, c.category, c.timesCorrected])
+const preferenceFields = (p: UserPreferences) => JSON.stringify([
+  p.currency, p.locale, p.dateFormat, p.notifications, p.emailReports, p.budgetAlerts, p.theme, p.accentColor, p.fontSize, p.compactMode
+])
+
+// What identifies a record whose id differs, e.g. in a backup from another account
+const transactionKey = (t: Transaction) => `${toDateKey(t.date)}|${t.amount.toFixed(2)}|${t.type}|${t.description.trim().toLowerCase()}`
+const budgetKey = (b: Budget) => `${b.category.trim().toLowerCase()}|${b.period.toLowerCase()}`
+const goalKey = (g: FinancialGoal) => g.name.trim().toLowerCase()
+const recurringKey = (r: RecurringTransaction) => `${r.description.trim().toLowerCase()}|${r.type}|${r.frequency}`
+const ruleKey = (r: CategorizationRule) => r.name.trim().toLowerCase()
+const correctionKey = (c: CategoryCorrection) => c.descriptionKey
+
+// Preferences are a single record per user, restored over the current ones
+const planPreferences = (record: UserPreferences, existing: UserPreferences, policy: RestoreConflictPolicy): RestoreChange<UserPreferences> => {
+  if (preferenceFields(record) === preferenceFields(existing)) return { action: 'skip', record, existing, reason: UP_TO_DATE }
+  if (policy === 'keep') return { action: 'skip', record, existing, reason: 'Kept the current version' }
+  return { action: 'update', record, existing }
+}
+
+const planChanges = <T extends { id: string }>(
+  records: T[],
+  current: T[],
+  fields: (record: T) => string,
+  key: (record: T) => string,
+  policy: RestoreConflictPolicy
+): RestoreChange<T>[] => {
+  const byId = new Map(current.map(record => [record.id, record]))
+  const byKey = new Map(current.map(record => [key(record), record]))
+  const claimed = new Set<string>()
+
+  return records.map((record): RestoreChange<T> => {
+    const existing = byId.get(record.id) || byKey.get(key(record))
+    if (!existing || claimed.has(existing.id)) return { action: 'create', record }
+    claimed.add(existing.id)
+
+    // Restored over the record it matches, keeping that record's id
+    const matched = { ...record, id: existing.id }
+    if (fields(matched) === fields(existing)) {
+      return { action: 'skip', record: matched, existing, reason: UP_TO_DATE }
+    }
+    if (policy === 'keep') {
+      return { action: 'skip', record: matched, existing, reason: 'Kept the current version' }
+    }
+    return { action: 'update', record: matched, existing }
+  })
+}
+
+/**
+ * Work out what restoring a backup creates, updates and skips. Records are matched to the
+ * current ones by id, then by what identifies them (date, amount and description; budget
+ * category and period; goal, rule name; merchant of a correction). References to accounts,
+ * recurring rules and imports that don't exist here are dropped, with a warning.
+ */
+export const planRestore = (backup: DataBackup, target: RestoreTarget, policy: RestoreConflictPolicy): RestorePlan => {
+  const warnings: string[] = []
+  const accountIds = new Set(target.accountIds)
+  const batchIds = new Set(target.importBatchIds)
+  let missingAccounts = 0
+  let missingLinks = 0
+
+  // Recurring rules are restored first, so transactions can keep their link to the rule's restored id
+  const recurringTransactions = planChanges(
+    backup.data.recurringTransactions.map(r => {
+      const accountId = r.accountId && accountIds.has(r.accountId) ? r.accountId : undefined
+      if (accountId !== r.accountId) missingAccounts++
+      return { ...r, accountId }
+    }),
+    target.recurringTransactions, recurringFields, recurringKey, policy
+  )
+  const restoredRecurringIds = new Map(backup.data.recurringTransactions.map((r, index) => [r.id, recurringTransactions[index]?.record.id || r.id]))
+  const recurringIds = new Set([...target.recurringTransactionIds, ...recurringTransactions.map(change => change.record.id)])
+
+  const categorizationRules = planChanges(
+    backup.data.categorizationRules.map(r => {
+      const accountId = r.accountId && accountIds.has(r.accountId) ? r.accountId : undefined
+      if (accountId !== r.accountId) missingAccounts++
+      return { ...r, accountId }
+    }),
+    target.categorizationRules, ruleFields, ruleKey, policy
+  )
+
+  const transactions = backup.data.transactions.map(t => {
+    const accountId = t.accountId && accountIds.has(t.accountId) ? t.accountId : undefined
+    const transferAccountId = t.transferAccountId && accountIds.has(t.transferAccountId) ? t.transferAccountId : undefined
+    if (accountId !== t.accountId || transferAccountId !== t.transferAccountId) missingAccounts++
+    const restoredRecurringId = t.recurringTransactionId && (restoredRecurringIds.get(t.recurringTransactionId) || t.recurringTransactionId)
+    const recurringTransactionId = restoredRecurringId && recurringIds.has(restoredRecurringId) ? restoredRecurringId : undefined
+    const importBatchId = t.importBatchId && batchIds.has(t.importBatchId) ? t.importBatchId : undefined
+    if ((t.recurringTransactionId && !recurringTransactionId) || importBatchId !== t.importBatchId) missingLinks++
+    return { ...t, accountId, transferAccountId, recurringTransactionId, importBatchId }
+  })
+
+  if (missingAccounts > 0) {
+    warnings.push(`${missingAccounts} record${missingAccounts === 1 ? ' uses an account that doesn\'t' : 's use accounts that don\'t'} exist here and will be restored without ${missingAccounts === 1 ? 'it' : 'them'}`)
+  }
+  if (missingLinks > 0) {
+    warnings.push(`${missingLinks} transaction${missingLinks === 1 ? '' : 's'} will lose ${missingLinks === 1 ? 'its' : 'their'} link to a recurring rule or import that doesn't exist here`)
+  }
+
+  return {
+    transactions: planChanges(transactions, target.transactions, transactionFields, transactionKey, policy),
+    budgets: planChanges(backup.data.budgets, target.budgets, budgetFields, budgetKey, policy),
+    goals: planChanges(backup.data.goals, target.goals, goalFields, goalKey, policy),
+    recurringTransactions,
+    categorizationRules,
+    categoryCorrections: planChanges(backup.data.categoryCorrections, target.categoryCorrections, correctionFields, correctionKey, policy),
+    ...(backup.data.preferences && { preferences: planPreferences(backup.data.preferences, target.preferences, policy) }),
+    warnings
+  }
+}
+
+// Every change in a plan, across all kinds of records
+export const getPlanChanges = (plan: RestorePlan): RestoreChange<unknown>[] => [
+  ...plan.transactions,
+  ...plan.budgets,
+  ...plan.goals,
+  ...plan.recurringTransactions,
+  ...plan.categorizationRules,
+  ...plan.categoryCorrections,
+  ...(plan.preferences ? [plan.preferences] : [])
+]
+
+// Number of changes of each kind in a list of changes
+export const countChanges = (changes: RestoreChange<unknown>[]): Record<RestoreChange<unknown>['action'], number> => ({
+  create: changes.filter(c => c.action === 'create').length,
+  update: changes.filter(c => c.action === 'update').length,
+  skip: changes.filter(c => c.action === 'skip').length
+})
+
+// Whether a change matched a current record that differs from the backup's
+export const isConflict = (change: RestoreChange<unknown>): boolean =>
+  change.existing !== undefined && change.reason !== UP_TO_DATE
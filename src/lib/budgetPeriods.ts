@@ -0,0 +1,120 @@
+import { Budget, BudgetPeriod, BudgetRolloverPolicy } from '@/types'
+import { formatDateLabel } from './formatting'
+
+// Budget period windows, mirroring budget_period_window in migrations/004_budget_periods.sql.
+// Dates are handled in UTC because transactions are stored as plain YYYY-MM-DD dates.
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['Weekly', 'Monthly', 'Quarterly', 'Yearly']
+
+export const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+export interface BudgetPeriodWindow {
+  start: Date
+  end: Date // Exclusive
+}
+
+const PERIOD_MONTHS: Record<string, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+}
+
+export const normalizeBudgetPeriod = (period: string): BudgetPeriod => {
+  const match = BUDGET_PERIODS.find(p => p.toLowerCase() === period.trim().toLowerCase())
+  return match || 'Monthly'
+}
+
+// Clamp a start day to the range the database accepts
+export const clampPeriodStartDay = (period: string, startDay: number | undefined): number => {
+  const max = normalizeBudgetPeriod(period) === 'Weekly' ? 7 : 28
+  if (!startDay || Number.isNaN(startDay)) return 1
+  return Math.min(Math.max(Math.round(startDay), 1), max)
+}
+
+export const toDateString = (date: Date): string => date.toISOString().split('T')[0] || ''
+
+// Window of the budget period that contains the reference date
+export const getBudgetPeriodWindow = (
+  period: string,
+  startDay: number | undefined,
+  reference: Date = new Date()
+): BudgetPeriodWindow => {
+  const normalized = normalizeBudgetPeriod(period)
+  const day = clampPeriodStartDay(normalized, startDay)
+  const ref = new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), reference.getUTCDate()))
+
+  if (normalized === 'Weekly') {
+    const isoDay = ref.getUTCDay() === 0 ? 7 : ref.getUTCDay()
+    const start = new Date(ref)
+    start.setUTCDate(ref.getUTCDate() - ((isoDay - day + 7) % 7))
+    const end = new Date(start)
+    end.setUTCDate(start.getUTCDate() + 7)
+    return { start, end }
+  }
+
+  const months = PERIOD_MONTHS[normalized.toLowerCase()] || 1
+  const year = ref.getUTCFullYear()
+  let month = ref.getUTCMonth()
+  if (ref.getUTCDate() < day) {
+    month -= 1
+  }
+  month -= ((month % 12) + 12) % 12 % months
+
+  const start = new Date(Date.UTC(year, month, day))
+  const end = new Date(Date.UTC(year, month + months, day))
+  return { start, end }
+}
+
+// Window of the period immediately before the one containing the reference date
+export const getPreviousBudgetPeriodWindow = (
+  period: string,
+  startDay: number | undefined,
+  reference: Date = new Date()
+): BudgetPeriodWindow => {
+  const current = getBudgetPeriodWindow(period, startDay, reference)
+  const dayBefore = new Date(current.start)
+  dayBefore.setUTCDate(dayBefore.getUTCDate() - 1)
+  return getBudgetPeriodWindow(period, startDay, dayBefore)
+}
+
+// Short label for a period window, e.g. "Oct 2025" or "Oct 6 – Oct 12"
+export const formatBudgetPeriodLabel = (period: string, window: BudgetPeriodWindow): string => {
+  const normalized = normalizeBudgetPeriod(period)
+  const lastDay = new Date(window.end)
+  lastDay.setUTCDate(lastDay.getUTCDate() - 1)
+  const short = (date: Date) => formatDateLabel(date, { month: 'short', day: 'numeric' })
+
+  if (normalized === 'Monthly' && window.start.getUTCDate() === 1) {
+    return formatDateLabel(window.start, { month: 'short', year: 'numeric' })
+  }
+  if (normalized === 'Yearly' && window.start.getUTCDate() === 1) {
+    return window.start.getUTCFullYear().toString()
+  }
+  return `${short(window.start)} – ${short(lastDay)}`
+}
+
+export const ROLLOVER_POLICIES: Array<{ value: BudgetRolloverPolicy; label: string; description: string }> = [
+  { value: 'none', label: 'No rollover', description: 'Every period starts fresh' },
+  { value: 'carry_surplus', label: 'Carry surplus', description: 'Unspent money carries into the next period' },
+  { value: 'carry_both', label: 'Carry surplus and overspending', description: 'Leftovers and overspending both carry forward' },
+  { value: 'cap', label: 'Carry surplus up to a cap', description: 'Unspent money carries forward up to a limit' }
+]
+
+// Amount carried into the next period, mirroring budget_next_rollover in migrations/005_budget_rollover.sql
+export const calculateRollover = (policy: BudgetRolloverPolicy | undefined, cap: number | undefined, leftover: number): number => {
+  switch (policy) {
+    case 'carry_surplus':
+      return Math.max(leftover, 0)
+    case 'carry_both':
+      return leftover
+    case 'cap':
+      return Math.min(Math.max(leftover, 0), cap || 0)
+    default:
+      return 0
+  }
+}
+
+// Available to spend this period: base amount plus rollover minus spent
+export const getAvailableAmount = (budget: Pick<Budget, 'budgetAmount' | 'spentAmount' | 'rolloverAmount'>): number => {
+  return budget.budgetAmount + (budget.rolloverAmount || 0) - budget.spentAmount
+}
@@ -0,0 +1,132 @@
+import {
+  Baby,
+  Banknote,
+  Car,
+  Coffee,
+  Dumbbell,
+  Film,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  PawPrint,
+  Plane,
+  Receipt,
+  Shield,
+  ShoppingBag,
+  Smartphone,
+  Tag,
+  TrendingUp,
+  Utensils,
+  Zap,
+  type LucideIcon
+} from 'lucide-react'
+import { Category } from '@/types'
+
+// Categories are referenced by name everywhere; the taxonomy adds hierarchy, colors and icons
+
+export const DEFAULT_CATEGORY_COLOR = '#6b7280'
+// Category for transactions nothing else could categorize
+export const UNCATEGORIZED_CATEGORY = 'Other'
+export const DEFAULT_CATEGORY_ICON = 'tag'
+
+// Created for users without any categories. Keep in sync with 010_categories.sql
+export const DEFAULT_CATEGORIES: Array<Pick<Category, 'name' | 'color' | 'icon'>> = [
+  { name: 'Food & Dining', color: '#ef4444', icon: 'utensils' },
+  { name: 'Transportation', color: '#3b82f6', icon: 'car' },
+  { name: 'Shopping', color: '#8b5cf6', icon: 'shopping-bag' },
+  { name: 'Entertainment', color: '#ec4899', icon: 'film' },
+  { name: 'Bills & Utilities', color: '#f59e0b', icon: 'receipt' },
+  { name: 'Healthcare', color: '#10b981', icon: 'heart-pulse' },
+  { name: 'Income', color: '#06b6d4', icon: 'banknote' },
+  { name: 'Other', color: '#6b7280', icon: 'tag' }
+]
+
+export const CATEGORY_COLORS = [
+  '#ef4444', '#f97316', '#f59e0b', '#84cc16', '#10b981', '#14b8a6',
+  '#06b6d4', '#3b82f6', '#6366f1', '#8b5cf6', '#ec4899', '#6b7280'
+]
+
+// Icons a category can use, keyed by the name stored in the database
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  'tag': Tag,
+  'utensils': Utensils,
+  'coffee': Coffee,
+  'car': Car,
+  'plane': Plane,
+  'shopping-bag': ShoppingBag,
+  'film': Film,
+  'receipt': Receipt,
+  'zap': Zap,
+  'smartphone': Smartphone,
+  'home': Home,
+  'heart-pulse': HeartPulse,
+  'dumbbell': Dumbbell,
+  'shield': Shield,
+  'graduation-cap': GraduationCap,
+  'baby': Baby,
+  'paw-print': PawPrint,
+  'gift': Gift,
+  'banknote': Banknote,
+  'trending-up': TrendingUp
+}
+
+export const getCategoryIcon = (icon: string): LucideIcon => CATEGORY_ICONS[icon] || Tag
+
+// Category with the given name, ignoring case and surrounding whitespace
+export const findCategory = (name: string, categories: Category[]): Category | undefined => {
+  const key = name.trim().toLowerCase()
+  return categories.find(c => c.name.toLowerCase() === key)
+}
+
+// Canonical spelling of a category name, or the name itself when it isn't in the taxonomy
+export const resolveCategoryName = (name: string, categories: Category[]): string =>
+  findCategory(name, categories)?.name || name
+
+export const getCategoryColor = (name: string, categories: Category[]): string =>
+  findCategory(name, categories)?.color ||
+  DEFAULT_CATEGORIES.find(c => c.name === name)?.color ||
+  DEFAULT_CATEGORY_COLOR
+
+// Top-level category a category rolls up into
+export const getRootCategory = (category: Category, categories: Category[]): Category => {
+  let current = category
+  const seen = new Set<string>([current.id])
+  while (current.parentId) {
+    const parent = categories.find(c => c.id === current.parentId)
+    if (!parent || seen.has(parent.id)) break
+    seen.add(parent.id)
+    current = parent
+  }
+  return current
+}
+
+// Name a category rolls up into, or the name itself when it isn't in the taxonomy
+export const getRootCategoryName = (name: string, categories: Category[]): string => {
+  const category = findCategory(name, categories)
+  return category ? getRootCategory(category, categories).name : name
+}
+
+/**
+ * Categories in picker order: each top-level category followed by its subcategories,
+ * alphabetically. Falls back to the default names while the user has none.
+ */
+export const getCategoryOptions = (categories: Category[]): Array<{ name: string; depth: number }> => {
+  if (categories.length === 0) {
+    return DEFAULT_CATEGORIES.map(c => ({ name: c.name, depth: 0 }))
+  }
+
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name)
+  const isTopLevel = (c: Category) => !c.parentId || !categories.some(p => p.id === c.parentId)
+
+  return categories
+    .filter(isTopLevel)
+    .sort(byName)
+    .flatMap(parent => [
+      { name: parent.name, depth: 0 },
+      ...categories
+        .filter(c => c.parentId === parent.id)
+        .sort(byName)
+        .map(c => ({ name: c.name, depth: 1 }))
+    ])
+}
@@ -0,0 +1,103 @@
+import { CategorizationRule, RuleMatchType, Transaction } from '@/types'
+
+// Deterministic categorization, applied before falling back to the user's choice or the AI's guess
+
+export const RULE_MATCH_TYPES: Array<{ value: RuleMatchType; label: string }> = [
+  { value: 'contains', label: 'Description contains' },
+  { value: 'starts_with', label: 'Description starts with' },
+  { value: 'equals', label: 'Description is' },
+  { value: 'regex', label: 'Description matches regex' }
+]
+
+type RuleInput = Pick<CategorizationRule, 'matchType' | 'pattern' | 'amountMin' | 'amountMax' | 'accountId' | 'transactionType'>
+type RuleSubject = Pick<Transaction, 'description' | 'amount' | 'type' | 'accountId' | 'splits'>
+
+// Descriptions are compared case-insensitively; an invalid regex never matches
+const matchesDescription = (matchType: RuleMatchType, pattern: string, description: string): boolean => {
+  const value = description.trim().toLowerCase()
+  const needle = pattern.trim().toLowerCase()
+
+  switch (matchType) {
+    case 'equals':
+      return value === needle
+    case 'starts_with':
+      return value.startsWith(needle)
+    case 'regex':
+      try {
+        return new RegExp(pattern, 'i').test(description)
+      } catch {
+        return false
+      }
+    case 'contains':
+    default:
+      return value.includes(needle)
+  }
+}
+
+export const ruleMatches = (rule: RuleInput, transaction: RuleSubject): boolean => {
+  // Transfers and split transactions carry sentinel categories that rules must not replace
+  if (transaction.type === 'transfer' || (transaction.splits?.length ?? 0) > 0) return false
+
+  if (rule.pattern?.trim() && !matchesDescription(rule.matchType, rule.pattern, transaction.description)) return false
+  if (rule.amountMin !== undefined && transaction.amount < rule.amountMin) return false
+  if (rule.amountMax !== undefined && transaction.amount > rule.amountMax) return false
+  if (rule.accountId && transaction.accountId !== rule.accountId) return false
+  if (rule.transactionType && transaction.type !== rule.transactionType) return false
+
+  return true
+}
+
+// Active rules in the order they are evaluated
+export const sortRules = (rules: CategorizationRule[]): CategorizationRule[] =>
+  rules
+    .filter(rule => rule.isActive)
+    .sort((a, b) => a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime())
+
+export const findMatchingRule = (rules: CategorizationRule[], transaction: RuleSubject): CategorizationRule | undefined =>
+  sortRules(rules).find(rule => ruleMatches(rule, transaction))
+
+// Category the first matching rule assigns, if any
+export const getRuleCategory = (rules: CategorizationRule[], transaction: RuleSubject): string | undefined =>
+  findMatchingRule(rules, transaction)?.category
+
+export interface RuleChange {
+  transaction: Transaction
+  rule: CategorizationRule
+  category: string
+}
+
+/**
+ * Transactions whose category would change if the rules were applied to them now.
+ * Pass a single rule to preview it on its own, ignoring the others.
+ */
+export const previewRuleChanges = (rules: CategorizationRule[], transactions: Transaction[]): RuleChange[] => {
+  const ordered = sortRules(rules)
+  return transactions.flatMap(transaction => {
+    const rule = ordered.find(r => ruleMatches(r, transaction))
+    return rule && rule.category !== transaction.category
+      ? [{ transaction, rule, category: rule.category }]
+      : []
+  })
+}
+
+// Error message when the rule cannot be saved, otherwise null
+export const validateRule = (rule: RuleInput & Pick<CategorizationRule, 'category'>): string | null => {
+  if (!rule.category) return 'Choose the category this rule assigns'
+
+  const hasCondition = !!rule.pattern?.trim() || rule.amountMin !== undefined || rule.amountMax !== undefined ||
+    !!rule.accountId || !!rule.transactionType
+  if (!hasCondition) return 'Add at least one condition'
+
+  if (rule.matchType === 'regex' && rule.pattern?.trim()) {
+    try {
+      new RegExp(rule.pattern)
+    } catch {
+      return 'The regular expression is not valid'
+    }
+  }
+
+  if (rule.amountMin !== undefined && rule.amountMax !== undefined && rule.amountMin > rule.amountMax) {
+    return 'Minimum amount must not exceed the maximum'
+  }
+  return null
+}
@@ -0,0 +1,80 @@
+import { CategoryCorrection } from '@/types'
+
+// Categories the user picked while reviewing imports, remembered per merchant description
+
+// Words banks add around the merchant name that say nothing about the category
+const NOISE_WORDS = new Set([
+  'pos', 'debit', 'credit', 'card', 'purchase', 'payment', 'visa', 'mastercard', 'contactless',
+  'recurring', 'online', 'ach', 'txn', 'transaction', 'ref', 'www', 'com', 'inc', 'ltd', 'llc'
+])
+
+// Confidence a learned category is given, growing with each time the user made the same choice
+const LEARNED_CONFIDENCE = 0.9
+const MAX_LEARNED_CONFIDENCE = 0.99
+const SIMILAR_CONFIDENCE = 0.75
+
+// Share of description words a learned description must have in common to count as the same merchant
+const MIN_SIMILARITY = 0.6
+
+/**
+ * Reduce a statement description to the words identifying the merchant, so
+ * "POS DEBIT AMZN Mktp US*2K4LL1234 04/12" and "AMZN MKTP US*9Z8" share the key "amzn mktp us".
+ */
+export const normalizeDescription = (description: string): string =>
+  description
+    .toLowerCase()
+    .replace(/[^a-z0-9&\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !/\d/.test(word) && !NOISE_WORDS.has(word))
+    .join(' ')
+
+const similarity = (a: string, b: string): number => {
+  const wordsA = new Set(a.split(' '))
+  const wordsB = new Set(b.split(' '))
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length
+  return shared / Math.max(wordsA.size, wordsB.size)
+}
+
+export interface LearnedCategory {
+  category: string
+  confidence: number
+  correction: CategoryCorrection
+}
+
+/**
+ * Category the user chose before for this merchant: an exact key match first, otherwise the
+ * closest learned description sharing most of its words. Undefined for unknown merchants.
+ */
+export const classifyFromCorrections = (description: string, corrections: CategoryCorrection[]): LearnedCategory | undefined => {
+  const key = normalizeDescription(description)
+  if (!key) return undefined
+
+  const exact = corrections.find(c => c.descriptionKey === key)
+  if (exact) {
+    return {
+      category: exact.category,
+      confidence: Math.min(LEARNED_CONFIDENCE + 0.02 * (exact.timesCorrected - 1), MAX_LEARNED_CONFIDENCE),
+      correction: exact
+    }
+  }
+
+  let best: { correction: CategoryCorrection; score: number } | undefined
+  corrections.forEach(correction => {
+    const score = similarity(key, correction.descriptionKey)
+    if (score >= MIN_SIMILARITY && (!best || score > best.score)) {
+      best = { correction, score }
+    }
+  })
+
+  return best && {
+    category: best.correction.category,
+    confidence: SIMILAR_CONFIDENCE * best.score,
+    correction: best.correction
+  }
+}
+
+// Corrections worth showing the AI as examples: the ones the user made most often, then most recently
+export const getFewShotExamples = (corrections: CategoryCorrection[], limit: number): CategoryCorrection[] =>
+  [...corrections]
+    .sort((a, b) => b.timesCorrected - a.timesCorrected || b.updatedAt.getTime() - a.updatedAt.getTime())
+    .slice(0, limit)
@@ -0,0 +1,261 @@
+import { CsvColumnMapping } from '@/types'
+import { ParsedStatement, StatementLine, parseAmount, parseStatementDate } from './statementParsers'
+
+// Reading bank CSV exports through a column mapping, without the AI
+
+export const CSV_DELIMITERS: Array<{ value: string; label: string }> = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+]
+
+// Lines looked at when detecting the delimiter and the header
+const SAMPLE_LINES = 20
+
+export const isCSVFile = (fileName: string): boolean => fileName.toLowerCase().endsWith('.csv')
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may contain the delimiter, newlines and
+ * doubled quotes. Blank lines are dropped.
+ */
+export const parseCSV = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(cell.trim())
+    if (row.some(value => value !== '')) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n') {
+      endRow()
+    } else if (char !== '\r') {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) endRow()
+
+  return rows
+}
+
+// The delimiter splitting the first lines into the same, largest number of columns
+export const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim()).slice(0, SAMPLE_LINES).join('\n')
+  let best = { delimiter: ',', score: 0 }
+
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const counts = parseCSV(sample, value).map(row => row.length)
+    const columns = counts[0] || 0
+    if (columns < 2) return
+    // Rows agreeing with the first row's column count, weighted by how many columns that is
+    const score = counts.filter(count => count === columns).length * columns
+    if (score > best.score) best = { delimiter: value, score }
+  })
+
+  return best.delimiter
+}
+
+const looksLikeValue = (cell: string) => !isNaN(parseAmount(cell)) || /^\d{1,4}[/.-]\d{1,2}[/.-]\d{1,4}/.test(cell)
+
+// A header row has no amounts or dates in it while the rows below do
+export const detectHeader = (rows: string[][]): boolean => {
+  const [first, ...rest] = rows
+  if (!first || rest.length === 0) return false
+  const firstHasValues = first.some(cell => cell && looksLikeValue(cell))
+  const restHaveValues = rest.slice(0, SAMPLE_LINES).some(row => row.some(cell => cell && looksLikeValue(cell)))
+  return !firstHasValues && restHaveValues
+}
+
+/**
+ * Identifies a bank's export format: its header names, or the column count for files without one.
+ * Banks keep their columns stable, so the same fingerprint means the same mapping applies.
+ */
+export const getHeaderFingerprint = (rows: string[][], hasHeader: boolean): string =>
+  hasHeader && rows[0]
+    ? rows[0].map(cell => cell.toLowerCase().replace(/\s+/g, ' ').trim()).join('|')
+    : `columns:${rows[0]?.length || 0}`
+
+// First column whose header contains one of the keywords
+const findColumn = (headers: string[], keywords: string[], exclude: Array<number | undefined> = []): number | undefined => {
+  const index = headers.findIndex((header, i) =>
+    !exclude.includes(i) && keywords.some(keyword => header.toLowerCase().includes(keyword))
+  )
+  return index >= 0 ? index : undefined
+}
+
+// Day-first when a first part is over 12, month-first when a second part is, ISO when the year leads
+export const detectDateFormat = (values: string[]): CsvColumnMapping['dateFormat'] => {
+  const parts = values.map(value => value.split(/[/.\-\s]/).filter(Boolean))
+  if (parts.some(p => (p[0]?.length || 0) === 4)) return 'YYYY-MM-DD'
+  if (parts.some(p => Number(p[0]) > 12)) return 'DD/MM/YYYY'
+  if (parts.some(p => Number(p[1]) > 12)) return 'MM/DD/YYYY'
+  return 'auto'
+}
+
+/**
+ * Best guess at which column is which, from header names when there are any and from
+ * the values otherwise
+ */
+export const guessColumnMapping = (text: string): CsvColumnMapping => {
+  const delimiter = detectDelimiter(text)
+  const rows = parseCSV(text, delimiter)
+  const hasHeader = detectHeader(rows)
+  const headers = hasHeader ? rows[0] || [] : []
+  const dataRows = hasHeader ? rows.slice(1) : rows
+  const sample = dataRows.slice(0, SAMPLE_LINES)
+  const columnCount = rows[0]?.length || 0
+
+  const valuesOf = (column: number) => sample.map(row => row[column] || '')
+  const isDateColumn = (column: number) => valuesOf(column).every(value => /^\d{1,4}[/.-]\d{1,2}[/.-]\d{1,4}/.test(value))
+  const isAmountColumn = (column: number) => valuesOf(column).every(value => value === '' || !isNaN(parseAmount(value)))
+  const columns = Array.from({ length: columnCount }, (_, i) => i)
+
+  const dateColumn = findColumn(headers, ['date', 'posted']) ?? columns.find(isDateColumn) ?? 0
+  const debitColumn = findColumn(headers, ['debit', 'withdrawal', 'paid out', 'money out'])
+  const creditColumn = findColumn(headers, ['credit', 'deposit', 'paid in', 'money in'], [debitColumn])
+  const balanceColumn = findColumn(headers, ['balance'])
+  const amountColumn = debitColumn !== undefined && creditColumn !== undefined
+    ? undefined
+    : findColumn(headers, ['amount', 'value'], [balanceColumn]) ??
+      columns.find(i => i !== dateColumn && i !== balanceColumn && isAmountColumn(i))
+  const categoryColumn = findColumn(headers, ['category'])
+  const taken = [dateColumn, amountColumn, debitColumn, creditColumn, balanceColumn, categoryColumn]
+  const descriptionColumn = findColumn(headers, ['description', 'payee', 'merchant', 'details', 'narrative', 'memo', 'name'], taken) ??
+    columns.find(i => !taken.includes(i) && !isAmountColumn(i)) ?? 1
+
+  return {
+    headerFingerprint: getHeaderFingerprint(rows, hasHeader),
+    delimiter,
+    hasHeader,
+    dateFormat: detectDateFormat(valuesOf(dateColumn)),
+    dateColumn,
+    descriptionColumn,
+    amountColumn,
+    debitColumn: amountColumn === undefined ? debitColumn : undefined,
+    creditColumn: amountColumn === undefined ? creditColumn : undefined,
+    balanceColumn,
+    categoryColumn
+  }
+}
+
+// Whether a file has the columns a mapping was made for
+export const matchesMapping = (text: string, mapping: CsvColumnMapping): boolean =>
+  getHeaderFingerprint(parseCSV(text, mapping.delimiter), mapping.hasHeader) === mapping.headerFingerprint
+
+// Positive for money in, negative for money out
+const getSignedAmount = (row: string[], mapping: CsvColumnMapping): number => {
+  if (mapping.amountColumn !== undefined) {
+    const amount = parseAmount(row[mapping.amountColumn] || '')
+    return mapping.negateAmounts ? -amount : amount
+  }
+
+  const debit = parseAmount(row[mapping.debitColumn ?? -1] || '')
+  const credit = parseAmount(row[mapping.creditColumn ?? -1] || '')
+  if (isNaN(debit) && isNaN(credit)) return NaN
+  return (isNaN(credit) ? 0 : Math.abs(credit)) - (isNaN(debit) ? 0 : Math.abs(debit))
+}
+
+/**
+ * Rows whose balance doesn't follow from the previous balance and the amount. Statements
+ * list oldest or newest first, so the order with fewer mismatches is the one checked.
+ */
+const findBalanceMismatches = (rows: Array<{ line: number; amount: number; balance: number }>): number[] => {
+  const mismatches = (ordered: typeof rows) => ordered
+    .slice(1)
+    .filter((row, i) => Math.abs((ordered[i] as typeof row).balance + row.amount - row.balance) >= 0.01)
+    .map(row => row.line)
+
+  const oldestFirst = mismatches(rows)
+  const newestFirst = mismatches([...rows].reverse())
+  return oldestFirst.length <= newestFirst.length ? oldestFirst : newestFirst
+}
+
+/**
+ * Read a CSV file through a column mapping. Bank categories are translated with
+ * categoryMapping, and a balance column, when mapped, is checked against the amounts.
+ */
+export const parseMappedCSV = (
+  text: string,
+  mapping: CsvColumnMapping,
+  categoryMapping: Record<string, string> = {}
+): ParsedStatement => {
+  const result: ParsedStatement = { transactions: [], errors: [], warnings: [] }
+  const rows = parseCSV(text, mapping.delimiter)
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows
+  const firstLine = mapping.hasHeader ? 2 : 1
+  const dateFormat = mapping.dateFormat === 'auto'
+    ? detectDateFormat(dataRows.map(row => row[mapping.dateColumn] || ''))
+    : mapping.dateFormat
+  const balances: Array<{ line: number; amount: number; balance: number }> = []
+
+  dataRows.forEach((row, index) => {
+    const line = `Row ${firstLine + index}`
+    // Drop any time of day after the date
+    const dateValue = (row[mapping.dateColumn] || '').replace(/[T\s]\d{1,2}:\d{2}.*$/, '')
+    const date = parseStatementDate(dateValue, dateFormat === 'DD/MM/YYYY')
+    const amount = getSignedAmount(row, mapping)
+    const description = row[mapping.descriptionColumn] || ''
+
+    if (!date) {
+      result.errors.push(`${line}: invalid date "${dateValue}"`)
+      return
+    }
+    if (isNaN(amount)) {
+      result.errors.push(`${line}: invalid amount`)
+      return
+    }
+    if (amount === 0) {
+      result.warnings.push(`${line}: skipped a zero amount line`)
+      return
+    }
+
+    if (mapping.balanceColumn !== undefined) {
+      const balance = parseAmount(row[mapping.balanceColumn] || '')
+      if (!isNaN(balance)) balances.push({ line: firstLine + index, amount, balance })
+    }
+
+    const bankCategory = mapping.categoryColumn !== undefined ? row[mapping.categoryColumn] : undefined
+    const transaction: StatementLine = {
+      date,
+      description: description || 'Transaction',
+      amount: Math.abs(amount),
+      type: amount > 0 ? 'income' : 'expense',
+      category: bankCategory ? categoryMapping[bankCategory] || bankCategory : undefined
+    }
+    result.transactions.push(transaction)
+  })
+
+  const mismatches = findBalanceMismatches(balances)
+  if (mismatches.length > 0) {
+    result.warnings.push(
+      `The running balance doesn't match the amounts on rows ${mismatches.slice(0, 10).join(', ')}` +
+      `${mismatches.length > 10 ? ` and ${mismatches.length - 10} more` : ''}. Check the amount columns.`
+    )
+  }
+  if (dataRows.length === 0) {
+    result.errors.push('No rows found in the CSV file')
+  }
+
+  return result
+}
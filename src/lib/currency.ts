@@ -0,0 +1,173 @@
+import { CurrencyConverter, ExchangeRate, ExchangeRateSource, NewExchangeRate, Transaction } from '@/types'
+import { detectDelimiter, parseCSV } from './csvMapping'
+import { parseAmount, parseStatementDate } from './statementParsers'
+
+// Transactions in other currencies than the user's base currency, and the exchange rates that
+// convert them. Rates the user imported come first; the reference rates below stand in for
+// a rate service until one is connected. Mirrors fx_rate in migrations/020_multi_currency.sql.
+
+// Rough value of one US dollar in each currency, used when no imported rate covers a pair
+export const REFERENCE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+  AUD: 1.52,
+  JPY: 150,
+  CHF: 0.88,
+  MXN: 17.5
+}
+
+export interface ExchangeRateProvider {
+  source: ExchangeRateSource
+  getRate: (fromCurrency: string, toCurrency: string, date: Date) => number | undefined
+}
+
+// The same rate for every day; replace with a provider backed by a rate service for real history
+export const referenceRateProvider: ExchangeRateProvider = {
+  source: 'local',
+  getRate: (fromCurrency, toCurrency) => {
+    const from = REFERENCE_RATES[fromCurrency]
+    const to = REFERENCE_RATES[toCurrency]
+    return from && to ? to / from : undefined
+  }
+}
+
+const pairKey = (fromCurrency: string, toCurrency: string) => `${fromCurrency}>${toCurrency}`
+
+export const createCurrencyConverter = (
+  baseCurrency: string,
+  rates: ExchangeRate[],
+  provider: ExchangeRateProvider = referenceRateProvider
+): CurrencyConverter => {
+  // Each pair also answers the opposite conversion with the inverse rate
+  const ratesByPair = new Map<string, Array<{ time: number; rate: number; source: ExchangeRateSource }>>()
+  const addRate = (fromCurrency: string, toCurrency: string, time: number, rate: number, source: ExchangeRateSource) => {
+    const key = pairKey(fromCurrency, toCurrency)
+    ratesByPair.set(key, [...(ratesByPair.get(key) || []), { time, rate, source }])
+  }
+  rates.forEach(r => {
+    if (!(r.rate > 0)) return
+    addRate(r.fromCurrency, r.toCurrency, r.date.getTime(), r.rate, r.source)
+    addRate(r.toCurrency, r.fromCurrency, r.date.getTime(), 1 / r.rate, r.source)
+  })
+
+  const getRate: CurrencyConverter['getRate'] = (fromCurrency, toCurrency, date) => {
+    // The latest rate on or before the day, else the earliest one after it
+    const candidates = ratesByPair.get(pairKey(fromCurrency, toCurrency))
+    if (candidates?.length) {
+      const time = date.getTime()
+      const best = candidates.reduce((best, candidate) => {
+        const before = candidate.time <= time
+        const bestBefore = best.time <= time
+        if (before !== bestBefore) return before ? candidate : best
+        return Math.abs(candidate.time - time) < Math.abs(best.time - time) ? candidate : best
+      })
+      return { rate: best.rate, source: best.source }
+    }
+
+    const rate = provider.getRate(fromCurrency, toCurrency, date)
+    return rate ? { rate, source: provider.source } : undefined
+  }
+
+  return {
+    baseCurrency,
+    getRate,
+    convert: (amount, fromCurrency, toCurrency, date) =>
+      fromCurrency === toCurrency ? amount : amount * (getRate(fromCurrency, toCurrency, date)?.rate ?? 1)
+  }
+}
+
+/**
+ * The transactions with amount and splits in the given currency (the base currency by default).
+ * Transactions made in a currency keep their amount in it as originalAmount. Works on transactions
+ * as loaded and on ones already in the base currency, so balances can be worked out in an
+ * account's own currency.
+ */
+export const convertTransactions = (
+  transactions: Transaction[],
+  converter: CurrencyConverter,
+  currency = converter.baseCurrency
+): Transaction[] => transactions.map(t => {
+  const fromCurrency = t.currency || converter.baseCurrency
+  const originalAmount = t.originalAmount ?? t.amount
+  const amount = converter.convert(originalAmount, fromCurrency, currency, t.date)
+  if (amount === t.amount && (!t.currency || t.originalAmount !== undefined)) return t
+
+  const factor = t.amount !== 0 ? amount / t.amount : 1
+  return {
+    ...t,
+    amount,
+    ...(t.currency && { originalAmount }),
+    ...(t.splits && { splits: t.splits.map(split => ({ ...split, amount: split.amount * factor })) })
+  }
+})
+
+// The transaction as it was entered, with amount and splits in its own currency
+export const inOriginalCurrency = ({ originalAmount, ...transaction }: Transaction): Transaction => {
+  if (originalAmount === undefined || originalAmount === transaction.amount) return transaction
+  const factor = transaction.amount !== 0 ? originalAmount / transaction.amount : 1
+  return {
+    ...transaction,
+    amount: originalAmount,
+    ...(transaction.splits && { splits: transaction.splits.map(split => ({ ...split, amount: split.amount * factor })) })
+  }
+}
+
+export const isForeignCurrency = (transaction: Pick<Transaction, 'currency'>, converter: CurrencyConverter): boolean =>
+  Boolean(transaction.currency && transaction.currency !== converter.baseCurrency)
+
+/**
+ * Reference rates for the foreign transactions no saved rate covers, one per currency and day.
+ * Saving them lets the database convert budget spending the same way the app does.
+ */
+export const findMissingRates = (transactions: Transaction[], converter: CurrencyConverter): NewExchangeRate[] => {
+  const missing = new Map<string, NewExchangeRate>()
+  transactions.filter(t => isForeignCurrency(t, converter)).forEach(t => {
+    const fromCurrency = t.currency as string
+    const found = converter.getRate(fromCurrency, converter.baseCurrency, t.date)
+    if (!found || found.source !== referenceRateProvider.source) return
+    const key = `${pairKey(fromCurrency, converter.baseCurrency)}|${t.date.toISOString().split('T')[0]}`
+    missing.set(key, { date: t.date, fromCurrency, toCurrency: converter.baseCurrency, rate: found.rate, source: 'local' })
+  })
+  return Array.from(missing.values())
+}
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/
+
+/**
+ * Read exchange rates from CSV with date, from, to and rate columns, where rate is what one unit
+ * of "from" is worth in "to". A file with only date, currency and rate columns is read as rates
+ * into the given base currency.
+ */
+export const parseExchangeRatesCsv = (text: string, baseCurrency: string): { rates: NewExchangeRate[]; errors: string[] } => {
+  const rows = parseCSV(text, detectDelimiter(text))
+  const header = (rows[0] || []).map(cell => cell.toLowerCase())
+  const column = (...names: string[]) => header.findIndex(cell => names.includes(cell))
+
+  const dateColumn = column('date', 'day')
+  const fromColumn = column('from', 'from_currency', 'currency', 'base')
+  const toColumn = column('to', 'to_currency', 'quote')
+  const rateColumn = column('rate', 'exchange_rate', 'value')
+  if (dateColumn < 0 || fromColumn < 0 || rateColumn < 0) {
+    return { rates: [], errors: ['The file needs a header row with date, from, to and rate columns'] }
+  }
+
+  const rates: NewExchangeRate[] = []
+  const errors: string[] = []
+  rows.slice(1).forEach((row, index) => {
+    const line = index + 2
+    const isoDate = parseStatementDate(row[dateColumn] || '', false)
+    const fromCurrency = (row[fromColumn] || '').toUpperCase()
+    const toCurrency = toColumn >= 0 ? (row[toColumn] || '').toUpperCase() : baseCurrency
+    const rate = parseAmount(row[rateColumn] || '')
+
+    if (!isoDate) errors.push(`Line ${line}: invalid date "${row[dateColumn] || ''}"`)
+    else if (!CURRENCY_PATTERN.test(fromCurrency) || !CURRENCY_PATTERN.test(toCurrency)) errors.push(`Line ${line}: currencies must be three-letter codes`)
+    else if (fromCurrency === toCurrency) errors.push(`Line ${line}: a rate needs two different currencies`)
+    else if (!(rate > 0)) errors.push(`Line ${line}: rate must be a number above 0`)
+    else rates.push({ date: new Date(isoDate), fromCurrency, toCurrency, rate, source: 'csv' })
+  })
+
+  return { rates, errors }
+}
@@ -0,0 +1,480 @@
+import {
+  Account,
+  Budget,
+  CategorizationRule,
+  Category,
+  CategoryCorrection,
+  CurrencyConverter,
+  DataBackup,
+  DebtAccount,
+  FinancialGoal,
+  RecurringTransaction,
+  Transaction,
+  UserPreferences
+} from '@/types'
+import { calculateAccountBalance, getAccountTypeLabel, getSignedAmount } from './accounts'
+import { calculateCategoryTotals } from './splits'
+import { convertTransactions, inOriginalCurrency } from './currency'
+import { PdfBlock, createPdfDocument } from './pdfDocument'
+import { formatCurrency, formatDateLabel } from './formatting'
+
+// Exporting the user's data as spreadsheets, a complete JSON backup, OFX statements and a PDF report
+
+// Bumped whenever the shape of DataBackup changes, so restores can tell old backups apart.
+// Version 2 added recurring rules, categorization rules, category corrections and preferences.
+export const BACKUP_SCHEMA_VERSION = 2
+export const BACKUP_APP_ID = 'financeai-dashboard'
+
+export type ExportFormat = 'csv' | 'json' | 'ofx' | 'pdf'
+
+export type ExportDataset = 'transactions' | 'budgets' | 'goals' | 'debts'
+
+export interface ExportData {
+  transactions: Transaction[] // In the base currency, as AppContext shares them
+  budgets: Budget[]
+  goals: FinancialGoal[]
+  debts: DebtAccount[]
+  accounts: Account[]
+  categories: Category[]
+  recurringTransactions: RecurringTransaction[]
+  categorizationRules: CategorizationRule[]
+  categoryCorrections: CategoryCorrection[]
+  preferences: UserPreferences
+  currencyConverter: CurrencyConverter
+}
+
+// Inclusive YYYY-MM-DD bounds; either may be left open
+export interface ExportDateRange {
+  from?: string
+  to?: string
+}
+
+interface ExportRows {
+  transactions: Transaction
+  budgets: Budget
+  goals: FinancialGoal
+  debts: DebtAccount
+}
+
+export interface CsvColumn<T> {
+  key: string
+  label: string
+  value: (row: T, data: ExportData) => string | number | undefined
+  optional?: boolean // Left out unless picked
+}
+
+export const EXPORT_DATASETS: Array<{ value: ExportDataset; label: string }> = [
+  { value: 'transactions', label: 'Transactions' },
+  { value: 'budgets', label: 'Budgets' },
+  { value: 'goals', label: 'Goals' },
+  { value: 'debts', label: 'Debts' }
+]
+
+// Dates are stored as UTC midnight, so the ISO date is the calendar date
+const toDateKey = (date: Date | string): string => new Date(date).toISOString().split('T')[0] as string
+
+const formatDate = (date: Date | string) =>
+  formatDateLabel(new Date(date), { year: 'numeric', month: 'short', day: 'numeric' })
+
+const getAccountName = (accountId: string | undefined, data: ExportData) =>
+  data.accounts.find(a => a.id === accountId)?.name || ''
+
+export const CSV_COLUMNS: { [K in ExportDataset]: Array<CsvColumn<ExportRows[K]>> } = {
+  transactions: [
+    { key: 'date', label: 'Date', value: t => toDateKey(t.date) },
+    { key: 'description', label: 'Description', value: t => t.description },
+    { key: 'category', label: 'Category', value: t => t.category },
+    { key: 'type', label: 'Type', value: t => t.type },
+    { key: 'amount', label: 'Amount', value: t => t.amount.toFixed(2) },
+    {
+      key: 'signedAmount',
+      label: 'Signed Amount',
+      value: t => (t.type === 'income' ? t.amount : -t.amount).toFixed(2),
+      optional: true
+    },
+    { key: 'currency', label: 'Currency', value: t => t.currency, optional: true },
+    { key: 'originalAmount', label: 'Original Amount', value: t => t.originalAmount?.toFixed(2), optional: true },
+    { key: 'account', label: 'Account', value: (t, data) => getAccountName(t.accountId, data) },
+    { key: 'transferAccount', label: 'To Account', value: (t, data) => getAccountName(t.transferAccountId, data), optional: true },
+    {
+      key: 'splits',
+      label: 'Splits',
+      value: t => t.splits?.map(split => `${split.category}: ${split.amount.toFixed(2)}`).join('; '),
+      optional: true
+    },
+    { key: 'id', label: 'ID', value: t => t.id, optional: true }
+  ],
+  budgets: [
+    { key: 'category', label: 'Category', value: b => b.category },
+    { key: 'period', label: 'Period', value: b => b.period },
+    { key: 'budgetAmount', label: 'Budget', value: b => b.budgetAmount.toFixed(2) },
+    { key: 'spentAmount', label: 'Spent', value: b => b.spentAmount.toFixed(2) },
+    { key: 'remaining', label: 'Remaining', value: b => (b.budgetAmount + (b.rolloverAmount || 0) - b.spentAmount).toFixed(2) },
+    { key: 'rolloverPolicy', label: 'Rollover', value: b => b.rolloverPolicy || 'none', optional: true },
+    { key: 'rolloverAmount', label: 'Rolled Over', value: b => (b.rolloverAmount || 0).toFixed(2), optional: true }
+  ],
+  goals: [
+    { key: 'name', label: 'Goal', value: g => g.name },
+    { key: 'type', label: 'Type', value: g => g.type },
+    { key: 'currentAmount', label: 'Saved', value: g => g.currentAmount.toFixed(2) },
+    { key: 'targetAmount', label: 'Target', value: g => g.targetAmount.toFixed(2) },
+    {
+      key: 'progress',
+      label: 'Progress %',
+      value: g => (g.targetAmount > 0 ? Math.round((g.currentAmount / g.targetAmount) * 100) : 0)
+    },
+    { key: 'targetDate', label: 'Target Date', value: g => toDateKey(g.targetDate) },
+    { key: 'priority', label: 'Priority', value: g => g.priority },
+    { key: 'category', label: 'Category', value: g => g.category, optional: true },
+    { key: 'description', label: 'Description', value: g => g.description, optional: true }
+  ],
+  debts: [
+    { key: 'name', label: 'Debt', value: d => d.name },
+    { key: 'type', label: 'Type', value: d => d.type },
+    { key: 'balance', label: 'Balance', value: d => d.balance.toFixed(2) },
+    { key: 'interestRate', label: 'Interest Rate %', value: d => d.interestRate },
+    { key: 'minimumPayment', label: 'Minimum Payment', value: d => d.minimumPayment.toFixed(2) },
+    { key: 'creditLimit', label: 'Credit Limit', value: d => d.creditLimit?.toFixed(2), optional: true }
+  ]
+}
+
+// Columns selected before the user picks their own
+export const getDefaultColumns = (dataset: ExportDataset): string[] =>
+  (CSV_COLUMNS[dataset] as Array<CsvColumn<unknown>>).filter(column => !column.optional).map(column => column.key)
+
+export const isInDateRange = (date: Date | string, range: ExportDateRange): boolean => {
+  const key = toDateKey(date)
+  return (!range.from || key >= range.from) && (!range.to || key <= range.to)
+}
+
+const escapeCSV = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One dataset as CSV with the chosen columns, in the order they are defined. Transactions
+ * are limited to the date range; budgets, goals and debts are exported as they are now.
+ */
+export const buildCSV = (
+  dataset: ExportDataset,
+  data: ExportData,
+  columnKeys: string[],
+  range: ExportDateRange = {}
+): string => {
+  const columns = (CSV_COLUMNS[dataset] as Array<CsvColumn<ExportRows[ExportDataset]>>)
+    .filter(column => columnKeys.includes(column.key))
+  const rows: Array<ExportRows[ExportDataset]> = dataset === 'transactions'
+    ? data.transactions.filter(t => isInDateRange(t.date, range))
+    : data[dataset]
+
+  return [
+    columns.map(column => escapeCSV(column.label)).join(','),
+    ...rows.map(row => columns.map(column => escapeCSV(column.value(row, data))).join(','))
+  ].join('\r\n')
+}
+
+/**
+ * Everything needed to restore the user's data, tagged with the schema version.
+ * Transactions are kept in their own currency, which every one names; import-time fields (confidence) are left out.
+ */
+export const buildBackup = (data: ExportData, exportedAt = new Date()): DataBackup => ({
+  app: BACKUP_APP_ID,
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  data: {
+    transactions: data.transactions.map(({ confidence: _confidence, ...transaction }) =>
+      inOriginalCurrency({ ...transaction, currency: transaction.currency || data.currencyConverter.baseCurrency })),
+    budgets: data.budgets,
+    goals: data.goals,
+    debts: data.debts,
+    accounts: data.accounts,
+    categories: data.categories,
+    recurringTransactions: data.recurringTransactions,
+    categorizationRules: data.categorizationRules,
+    categoryCorrections: data.categoryCorrections,
+    preferences: data.preferences
+  }
+})
+
+const inAccountCurrency = (transactions: Transaction[], account: Account, data: ExportData) =>
+  convertTransactions(transactions, data.currencyConverter, account.currency)
+
+// Balance of the account at the end of the range, in its own currency
+const getBalanceAt = (account: Account, range: ExportDateRange, data: ExportData) =>
+  calculateAccountBalance(account, inAccountCurrency(data.transactions.filter(t => !range.to || toDateKey(t.date) <= range.to), account, data))
+
+// OFX 1.x is SGML: element values end at the line break and may not contain markup
+const escapeOFX = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\s+/g, ' ').trim()
+
+const formatOFXDate = (date: Date | string) => toDateKey(date).replace(/-/g, '')
+
+const OFX_ACCOUNT_TYPES: Partial<Record<Account['type'], string>> = {
+  checking: 'CHECKING',
+  savings: 'SAVINGS',
+  credit_card: 'CREDITLINE'
+}
+
+/**
+ * Transactions as an OFX 1.02 bank statement, one statement per account so other tools can
+ * import them account by account. Transfers appear in both accounts, and FITIDs are the
+ * transaction ids so importing the file twice doesn't duplicate lines. Each statement is in
+ * its account's currency.
+ */
+export const buildOFX = (data: ExportData, range: ExportDateRange = {}, exportedAt = new Date()): string => {
+  const transactions = data.transactions.filter(t => isInDateRange(t.date, range))
+  const dates = transactions.map(t => toDateKey(t.date)).sort()
+  const start = (range.from || dates[0] || toDateKey(exportedAt)).replace(/-/g, '')
+  const end = (range.to || dates[dates.length - 1] || toDateKey(exportedAt)).replace(/-/g, '')
+
+  // Transactions without an account are listed under one statement of their own
+  const statements: Array<{ id: string; account?: Account }> = [
+    ...data.accounts.map(account => ({ id: account.id, account })),
+    { id: 'UNASSIGNED' }
+  ]
+
+  const statementsOFX = statements.map(({ id, account }) => {
+    const lines = account
+      ? inAccountCurrency(transactions, account, data)
+        .filter(t => t.accountId === account.id || (t.type === 'transfer' && t.transferAccountId === account.id))
+        .map(t => ({ t, amount: getSignedAmount(t, account.id), fitId: t.transferAccountId === account.id ? `${t.id}-IN` : t.id }))
+      : transactions
+        .filter(t => !t.accountId)
+        .map(t => ({ t, amount: t.type === 'income' ? t.amount : -t.amount, fitId: t.id }))
+    if (lines.length === 0) return ''
+
+    const balance = account
+      ? getBalanceAt(account, range, data)
+      : lines.reduce((sum, line) => sum + line.amount, 0)
+
+    return [
+      '<STMTTRNRS>',
+      `<TRNUID>${escapeOFX(id)}`,
+      '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+      '<STMTRS>',
+      `<CURDEF>${account?.currency || data.currencyConverter.baseCurrency}`,
+      '<BANKACCTFROM>',
+      '<BANKID>000000000',
+      `<ACCTID>${escapeOFX(id)}`,
+      `<ACCTTYPE>${(account && OFX_ACCOUNT_TYPES[account.type]) || 'CHECKING'}`,
+      '</BANKACCTFROM>',
+      '<BANKTRANLIST>',
+      `<DTSTART>${start}`,
+      `<DTEND>${end}`,
+      ...lines.flatMap(({ t, amount, fitId }) => [
+        '<STMTTRN>',
+        `<TRNTYPE>${t.type === 'transfer' ? 'XFER' : amount >= 0 ? 'CREDIT' : 'DEBIT'}`,
+        `<DTPOSTED>${formatOFXDate(t.date)}`,
+        `<TRNAMT>${amount.toFixed(2)}`,
+        `<FITID>${escapeOFX(fitId)}`,
+        // NAME is limited to 32 characters; the full description goes in MEMO
+        `<NAME>${escapeOFX(t.description).slice(0, 32)}`,
+        `<MEMO>${escapeOFX(`${t.description} (${t.category})`)}`,
+        '</STMTTRN>'
+      ]),
+      '</BANKTRANLIST>',
+      '<LEDGERBAL>',
+      `<BALAMT>${balance.toFixed(2)}`,
+      `<DTASOF>${end}`,
+      '</LEDGERBAL>',
+      '</STMTRS>',
+      '</STMTTRNRS>'
+    ].join('\n')
+  }).filter(Boolean)
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1>',
+    '<SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${formatOFXDate(exportedAt)}`,
+    '<LANGUAGE>ENG',
+    '</SONRS>',
+    '</SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1>',
+    ...statementsOFX,
+    '</BANKMSGSRSV1>',
+    '</OFX>',
+    ''
+  ].join('\n')
+}
+
+export const describeDateRange = (range: ExportDateRange): string => {
+  if (range.from && range.to) return `${formatDate(range.from)} - ${formatDate(range.to)}`
+  if (range.from) return `From ${formatDate(range.from)}`
+  if (range.to) return `Until ${formatDate(range.to)}`
+  return 'All transactions'
+}
+
+/**
+ * Summary report of the period as a PDF: income and spending, spending by category,
+ * budgets, goals, debts and account balances, followed by the transactions themselves.
+ */
+export const buildPdfReport = (data: ExportData, range: ExportDateRange = {}, generatedAt = new Date()): Uint8Array<ArrayBuffer> => {
+  const transactions = data.transactions
+    .filter(t => isInDateRange(t.date, range))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+  const income = transactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0)
+  const expenses = transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0)
+  const categoryTotals = Object.entries(calculateCategoryTotals(transactions)).sort(([, a], [, b]) => b - a)
+
+  const blocks: PdfBlock[] = [
+    { type: 'title', text: 'Financial Summary' },
+    { type: 'text', text: `${describeDateRange(range)} · Generated ${formatDate(generatedAt)}`, muted: true },
+    { type: 'heading', text: 'Overview' },
+    {
+      type: 'table',
+      columns: [{ label: '', width: 0.6 }, { label: 'Amount', width: 0.4, align: 'right' }],
+      rows: [
+        ['Income', formatCurrency(income)],
+        ['Expenses', formatCurrency(expenses)],
+        ['Net', formatCurrency(income - expenses)],
+        ['Savings rate', income > 0 ? `${(((income - expenses) / income) * 100).toFixed(1)}%` : '-'],
+        ['Transactions', String(transactions.length)]
+      ]
+    }
+  ]
+
+  if (categoryTotals.length > 0) {
+    blocks.push(
+      { type: 'heading', text: 'Spending by Category' },
+      {
+        type: 'table',
+        columns: [
+          { label: 'Category', width: 0.5 },
+          { label: 'Amount', width: 0.3, align: 'right' },
+          { label: 'Share', width: 0.2, align: 'right' }
+        ],
+        rows: [
+          ...categoryTotals.map(([category, amount]) => [
+            category,
+            formatCurrency(amount),
+            `${expenses > 0 ? ((amount / expenses) * 100).toFixed(1) : '0.0'}%`
+          ]),
+          ['Total', formatCurrency(expenses), '100%']
+        ],
+        boldLastRow: true
+      }
+    )
+  }
+
+  if (data.budgets.length > 0) {
+    blocks.push(
+      { type: 'heading', text: 'Budgets (current period)' },
+      {
+        type: 'table',
+        columns: [
+          { label: 'Category', width: 0.32 },
+          { label: 'Period', width: 0.14 },
+          { label: 'Budget', width: 0.18, align: 'right' },
+          { label: 'Spent', width: 0.18, align: 'right' },
+          { label: 'Remaining', width: 0.18, align: 'right' }
+        ],
+        rows: data.budgets.map(b => {
+          const available = b.budgetAmount + (b.rolloverAmount || 0)
+          return [b.category, b.period, formatCurrency(available), formatCurrency(b.spentAmount), formatCurrency(available - b.spentAmount)]
+        })
+      }
+    )
+  }
+
+  if (data.goals.length > 0) {
+    blocks.push(
+      { type: 'heading', text: 'Goals' },
+      {
+        type: 'table',
+        columns: [
+          { label: 'Goal', width: 0.34 },
+          { label: 'Target Date', width: 0.18 },
+          { label: 'Saved', width: 0.18, align: 'right' },
+          { label: 'Target', width: 0.18, align: 'right' },
+          { label: 'Progress', width: 0.12, align: 'right' }
+        ],
+        rows: data.goals.map(g => [
+          g.name,
+          formatDate(g.targetDate),
+          formatCurrency(g.currentAmount),
+          formatCurrency(g.targetAmount),
+          `${g.targetAmount > 0 ? Math.round((g.currentAmount / g.targetAmount) * 100) : 0}%`
+        ])
+      }
+    )
+  }
+
+  if (data.debts.length > 0) {
+    const totalDebt = data.debts.reduce((sum, d) => sum + d.balance, 0)
+    const totalMinimum = data.debts.reduce((sum, d) => sum + d.minimumPayment, 0)
+    blocks.push(
+      { type: 'heading', text: 'Debts' },
+      {
+        type: 'table',
+        columns: [
+          { label: 'Debt', width: 0.34 },
+          { label: 'Type', width: 0.18 },
+          { label: 'Balance', width: 0.18, align: 'right' },
+          { label: 'Rate', width: 0.12, align: 'right' },
+          { label: 'Minimum', width: 0.18, align: 'right' }
+        ],
+        rows: [
+          ...data.debts.map(d => [d.name, d.type.replace(/_/g, ' '), formatCurrency(d.balance), `${d.interestRate}%`, formatCurrency(d.minimumPayment)]),
+          ['Total', '', formatCurrency(totalDebt), '', formatCurrency(totalMinimum)]
+        ],
+        boldLastRow: true
+      }
+    )
+  }
+
+  if (data.accounts.length > 0) {
+    blocks.push(
+      { type: 'heading', text: 'Account Balances' },
+      {
+        type: 'table',
+        columns: [
+          { label: 'Account', width: 0.5 },
+          { label: 'Type', width: 0.25 },
+          { label: 'Balance', width: 0.25, align: 'right' }
+        ],
+        rows: data.accounts.map(a => [
+          a.name,
+          getAccountTypeLabel(a.type),
+          formatCurrency(getBalanceAt(a, range, data), { currency: a.currency })
+        ])
+      }
+    )
+  }
+
+  blocks.push({ type: 'heading', text: 'Transactions' })
+  if (transactions.length > 0) {
+    blocks.push({
+      type: 'table',
+      columns: [
+        { label: 'Date', width: 0.15 },
+        { label: 'Description', width: 0.4 },
+        { label: 'Category', width: 0.2 },
+        { label: 'Type', width: 0.1 },
+        { label: 'Amount', width: 0.15, align: 'right' }
+      ],
+      rows: transactions.map(t => [
+        formatDate(t.date),
+        t.description,
+        t.category,
+        t.type,
+        formatCurrency(t.type === 'expense' ? -t.amount : t.amount)
+      ])
+    })
+  } else {
+    blocks.push({ type: 'text', text: 'No transactions in this period.', muted: true })
+  }
+
+  return createPdfDocument(blocks, `Financial Summary · ${describeDateRange(range)}`)
+}
@@ -0,0 +1,112 @@
+import { DuplicateMatch, Transaction } from '@/types'
+import { normalizeDescription } from './categoryLearning'
+import { UNCATEGORIZED_CATEGORY } from './categories'
+
+// Finding imported lines that are already in the user's transactions, allowing for the
+// differences between how the same payment shows up in two exports
+
+// A payment can post a few days after it was made, so exports disagree on the date
+export const DUPLICATE_DATE_WINDOW_DAYS = 3
+
+// Amounts within this share of each other can be the same payment (tips, currency rounding)
+export const DUPLICATE_AMOUNT_TOLERANCE = 0.05
+
+// At or above this score a line is treated as already imported: the same merchant and amount at most a day apart
+export const DUPLICATE_SCORE = 0.95
+
+// At or above this score a line is shown next to its match for the user to decide
+export const POSSIBLE_DUPLICATE_SCORE = 0.65
+
+// How much each kind of agreement counts towards the score
+const DESCRIPTION_WEIGHT = 0.5
+const AMOUNT_WEIGHT = 0.3
+const DATE_WEIGHT = 0.2
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Truncated merchant names ("STARBUCKS" vs "STARBUC") still count as the same word
+const wordsMatch = (a: string, b: string) =>
+  a === b || (Math.min(a.length, b.length) >= 4 && (a.startsWith(b) || b.startsWith(a)))
+
+/**
+ * Share of merchant words two descriptions have in common (Dice coefficient), from 0 to 1.
+ * Descriptions without merchant words compare as written.
+ */
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const wordsA = normalizeDescription(a).split(' ').filter(Boolean)
+  const wordsB = normalizeDescription(b).split(' ').filter(Boolean)
+  if (wordsA.length === 0 || wordsB.length === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0
+  }
+
+  const unmatched = [...wordsB]
+  let shared = 0
+  wordsA.forEach(word => {
+    const index = unmatched.findIndex(other => wordsMatch(word, other))
+    if (index >= 0) {
+      shared++
+      unmatched.splice(index, 1)
+    }
+  })
+  return (2 * shared) / (wordsA.length + wordsB.length)
+}
+
+/**
+ * How likely two transactions are the same payment, from 0 to 1. Lines of a different type,
+ * in a different account, further apart than the date window or with amounts outside the
+ * tolerance score 0.
+ */
+export const scoreDuplicate = (imported: Transaction, existing: Transaction): number => {
+  if (imported.type !== existing.type) return 0
+  if (imported.accountId && existing.accountId && imported.accountId !== existing.accountId) return 0
+
+  const daysApart = Math.round(Math.abs(imported.date.getTime() - existing.date.getTime()) / DAY_MS)
+  if (daysApart > DUPLICATE_DATE_WINDOW_DAYS) return 0
+
+  const tolerance = Math.max(0.01, Math.max(imported.amount, existing.amount) * DUPLICATE_AMOUNT_TOLERANCE)
+  const amountDifference = Math.abs(imported.amount - existing.amount)
+  if (amountDifference > tolerance) return 0
+
+  const amountScore = amountDifference < 0.01 ? 1 : 1 - amountDifference / tolerance
+  const dateScore = 1 - daysApart / (DUPLICATE_DATE_WINDOW_DAYS + 1)
+  const score = DESCRIPTION_WEIGHT * descriptionSimilarity(imported.description, existing.description) +
+    AMOUNT_WEIGHT * amountScore +
+    DATE_WEIGHT * dateScore
+
+  return Math.round(score * 100) / 100
+}
+
+/**
+ * The existing transaction an imported line most likely repeats, skipping those already
+ * claimed by another imported line so two identical coffees only match one existing coffee.
+ * Undefined when nothing scores at least POSSIBLE_DUPLICATE_SCORE.
+ */
+export const findDuplicateMatch = (
+  imported: Transaction,
+  existingTransactions: Transaction[],
+  claimedIds: Set<string> = new Set()
+): DuplicateMatch | undefined => {
+  let best: DuplicateMatch | undefined
+
+  existingTransactions.forEach(existing => {
+    if (claimedIds.has(existing.id)) return
+    const score = scoreDuplicate(imported, existing)
+    if (score >= POSSIBLE_DUPLICATE_SCORE && (!best || score > best.score)) {
+      best = { existing, score }
+    }
+  })
+
+  return best
+}
+
+/**
+ * Changes that merge an imported line into the existing transaction it repeats. The statement
+ * is the record of what posted, so its date and amount win (a split keeps its amount so the
+ * allocations still add up); the user's description and category stay unless uncategorized.
+ */
+export const getMergeUpdates = (existing: Transaction, imported: Transaction): Partial<Transaction> => ({
+  date: imported.date,
+  ...(!existing.splits?.length && { amount: imported.originalAmount ?? imported.amount, currency: imported.currency }),
+  ...(imported.externalId && { externalId: imported.externalId }),
+  ...(existing.category === UNCATEGORIZED_CATEGORY && imported.category !== UNCATEGORIZED_CATEGORY && { category: imported.category })
+})
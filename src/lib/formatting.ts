@@ -0,0 +1,122 @@
+import { DateFormat, FormatPreferences, UserPreferences } from '@/types'
+
+// Amounts and dates written the way the user chose in Settings → Preferences.
+// Components get these from usePreferences so they re-render when the preferences change;
+// code running in the browser outside React uses the module-level functions below, which
+// follow whatever the PreferencesProvider last applied. Server code has no such default and
+// calls createFormatters with the preferences of the user it is serving.
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  currency: 'USD',
+  locale: 'en-US',
+  dateFormat: 'MM/DD/YYYY',
+  notifications: true,
+  emailReports: false,
+  budgetAlerts: true,
+  theme: 'light',
+  accentColor: 'blue',
+  fontSize: 'medium',
+  compactMode: false
+}
+
+export const CURRENCIES: Array<{ value: string; label: string }> = [
+  { value: 'USD', label: 'USD - US Dollar' },
+  { value: 'EUR', label: 'EUR - Euro' },
+  { value: 'GBP', label: 'GBP - British Pound' },
+  { value: 'CAD', label: 'CAD - Canadian Dollar' },
+  { value: 'AUD', label: 'AUD - Australian Dollar' },
+  { value: 'JPY', label: 'JPY - Japanese Yen' },
+  { value: 'CHF', label: 'CHF - Swiss Franc' },
+  { value: 'MXN', label: 'MXN - Mexican Peso' }
+]
+
+export const LOCALES: Array<{ value: string; label: string }> = [
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'en-CA', label: 'English (Canada)' },
+  { value: 'en-AU', label: 'English (Australia)' },
+  { value: 'es-ES', label: 'Spanish (Spain)' },
+  { value: 'fr-FR', label: 'French (France)' },
+  { value: 'de-DE', label: 'German (Germany)' }
+]
+
+export const DATE_FORMATS: DateFormat[] = ['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD']
+
+export interface CurrencyFormatOptions {
+  currency?: string // Another currency than the preferred one, such as an account's own
+  decimals?: number // Fixed number of decimals instead of the currency's usual
+  signDisplay?: 'auto' | 'always' | 'exceptZero' | 'never'
+}
+
+export interface Formatters {
+  formatCurrency: (amount: number, options?: CurrencyFormatOptions) => string
+  // Short amount for chart axes, such as $12K
+  formatCompactCurrency: (amount: number) => string
+  // Calendar date (stored as UTC midnight) in the preferred date format
+  formatDate: (date: Date) => string
+  // Moment in the user's time zone, such as when a file was uploaded
+  formatDateTime: (date: Date) => string
+  // Calendar date written out in the preferred locale, such as "Jan 5" or "March 2026"
+  formatDateLabel: (date: Date, options: Intl.DateTimeFormatOptions) => string
+  currencySymbol: string
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const writeDate = (day: number, month: number, year: number, dateFormat: DateFormat): string => {
+  switch (dateFormat) {
+    case 'DD/MM/YYYY': return `${pad(day)}/${pad(month)}/${year}`
+    case 'YYYY-MM-DD': return `${year}-${pad(month)}-${pad(day)}`
+    default: return `${pad(month)}/${pad(day)}/${year}`
+  }
+}
+
+// US dollars in en-US when Intl rejects the locale or currency
+const numberFormat = (locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat => {
+  try {
+    return new Intl.NumberFormat(locale, options)
+  } catch {
+    return new Intl.NumberFormat(DEFAULT_PREFERENCES.locale, { ...options, currency: DEFAULT_PREFERENCES.currency })
+  }
+}
+
+export const createFormatters = (preferences: FormatPreferences): Formatters => {
+  const { currency, locale, dateFormat } = preferences
+  const standard = numberFormat(locale, { style: 'currency', currency })
+  const compact = numberFormat(locale, { style: 'currency', currency, notation: 'compact', minimumFractionDigits: 0, maximumFractionDigits: 1 } as Intl.NumberFormatOptions)
+
+  const formatCurrency = (amount: number, options: CurrencyFormatOptions = {}): string => {
+    if (!options.currency && options.decimals === undefined && !options.signDisplay) return standard.format(amount)
+    return numberFormat(locale, {
+      style: 'currency',
+      currency: options.currency || currency,
+      ...(options.decimals !== undefined && { minimumFractionDigits: options.decimals, maximumFractionDigits: options.decimals }),
+      ...(options.signDisplay && { signDisplay: options.signDisplay })
+    } as Intl.NumberFormatOptions).format(amount)
+  }
+
+  const currencySymbol = standard.formatToParts(0).find(part => part.type === 'currency')?.value || currency
+
+  return {
+    formatCurrency,
+    formatCompactCurrency: (amount: number) => compact.format(amount),
+    formatDate: (date: Date) => writeDate(date.getUTCDate(), date.getUTCMonth() + 1, date.getUTCFullYear(), dateFormat),
+    formatDateTime: (date: Date) =>
+      `${writeDate(date.getDate(), date.getMonth() + 1, date.getFullYear(), dateFormat)} ${date.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' })}`,
+    formatDateLabel: (date: Date, options: Intl.DateTimeFormatOptions) => date.toLocaleDateString(locale, { timeZone: 'UTC', ...options }),
+    currencySymbol
+  }
+}
+
+let activeFormatters = createFormatters(DEFAULT_PREFERENCES)
+
+// Called by the PreferencesProvider whenever the preferences load or change
+export const applyFormatPreferences = (preferences: FormatPreferences) => {
+  activeFormatters = createFormatters(preferences)
+}
+
+export const formatCurrency = (amount: number, options?: CurrencyFormatOptions) => activeFormatters.formatCurrency(amount, options)
+export const formatCompactCurrency = (amount: number) => activeFormatters.formatCompactCurrency(amount)
+export const formatDate = (date: Date) => activeFormatters.formatDate(date)
+export const formatDateTime = (date: Date) => activeFormatters.formatDateTime(date)
+export const formatDateLabel = (date: Date, options: Intl.DateTimeFormatOptions) => activeFormatters.formatDateLabel(date, options)
@@ -0,0 +1,131 @@
+/**
+ * Pixel operations that make phone photos of receipts easier for OCR to read. They work on
+ * plain arrays of gray levels (0-255, row by row) so the canvas code in OCRService only has
+ * to move pixels in and out.
+ */
+
+// Share of the darkest and brightest pixels ignored when stretching contrast, so a few
+// specks or reflections don't decide the range
+const CONTRAST_CLIP = 0.01
+
+// A pixel is ink when this much darker (percent) than the average of its neighborhood
+const THRESHOLD_SENSITIVITY = 15
+
+// Skew is searched within this many degrees either way, in steps of SKEW_STEP
+export const MAX_SKEW_DEGREES = 10
+const SKEW_STEP_DEGREES = 0.5
+
+// Skew estimation samples at most this many ink pixels
+const MAX_SKEW_SAMPLES = 20000
+
+// Width and height that fit within maxDimension, keeping the aspect ratio; never upscales
+export const getScaledSize = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height))
+  return { width: Math.round(width * scale), height: Math.round(height * scale) }
+}
+
+// Gray level of every pixel of RGBA image data (perceived brightness)
+export const toGrayscale = (rgba: Uint8ClampedArray): Uint8ClampedArray => {
+  const gray = new Uint8ClampedArray(rgba.length / 4)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * (rgba[i * 4] as number) + 0.587 * (rgba[i * 4 + 1] as number) + 0.114 * (rgba[i * 4 + 2] as number)
+  }
+  return gray
+}
+
+// Stretch gray levels so the image runs from black to white, fixing dim or washed-out photos
+export const normalizeContrast = (gray: Uint8ClampedArray): Uint8ClampedArray => {
+  const histogram = new Array<number>(256).fill(0)
+  gray.forEach(value => {
+    histogram[value] = (histogram[value] as number) + 1
+  })
+
+  const clip = gray.length * CONTRAST_CLIP
+  let low = 0
+  let high = 255
+  for (let seen = 0; low < 255 && seen + (histogram[low] as number) <= clip; low++) seen += histogram[low] as number
+  for (let seen = 0; high > 0 && seen + (histogram[high] as number) <= clip; high--) seen += histogram[high] as number
+  if (high <= low) return gray
+
+  const range = high - low
+  return gray.map(value => ((value - low) * 255) / range)
+}
+
+/**
+ * Black and white version of the image, comparing each pixel with the average of the pixels
+ * around it rather than one global level, so shadows and uneven light across a receipt don't
+ * swallow the text (Bradley's method over an integral image).
+ */
+export const adaptiveThreshold = (gray: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const integral = new Uint32Array((width + 1) * (height + 1))
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x] as number
+      integral[(y + 1) * (width + 1) + x + 1] = (integral[y * (width + 1) + x + 1] as number) + rowSum
+    }
+  }
+
+  const half = Math.max(1, Math.floor(Math.max(width, height) / 32))
+  const binary = new Uint8ClampedArray(gray.length)
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - half)
+    const y2 = Math.min(height - 1, y + half)
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - half)
+      const x2 = Math.min(width - 1, x + half)
+      const count = (x2 - x1 + 1) * (y2 - y1 + 1)
+      const sum = (integral[(y2 + 1) * (width + 1) + x2 + 1] as number) -
+        (integral[y1 * (width + 1) + x2 + 1] as number) -
+        (integral[(y2 + 1) * (width + 1) + x1] as number) +
+        (integral[y1 * (width + 1) + x1] as number)
+      const index = y * width + x
+      binary[index] = (gray[index] as number) * count * 100 <= sum * (100 - THRESHOLD_SENSITIVITY) ? 0 : 255
+    }
+  }
+  return binary
+}
+
+/**
+ * Angle in degrees the text lines of a black and white image slope by, positive when they run
+ * downhill to the right. Found by projecting the ink onto rows at each candidate angle: rows
+ * line up with the text when the projection is sharpest. Rotating the image by the negative
+ * angle straightens it.
+ */
+export const estimateSkewAngle = (binary: Uint8ClampedArray, width: number, height: number): number => {
+  const points: Array<[number, number]> = []
+  let ink = 0
+  binary.forEach(value => {
+    if (value === 0) ink++
+  })
+  if (ink === 0) return 0
+
+  const stride = Math.max(1, Math.ceil(ink / MAX_SKEW_SAMPLES))
+  let seen = 0
+  for (let i = 0; i < binary.length; i++) {
+    if (binary[i] === 0 && seen++ % stride === 0) {
+      points.push([i % width, Math.floor(i / width)])
+    }
+  }
+
+  const diagonal = Math.ceil(Math.hypot(width, height))
+  let bestAngle = 0
+  let bestScore = -1
+  for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES; degrees += SKEW_STEP_DEGREES) {
+    const radians = (degrees * Math.PI) / 180
+    const sin = Math.sin(radians)
+    const cos = Math.cos(radians)
+    const rows = new Array<number>(diagonal * 2 + 1).fill(0)
+    points.forEach(([x, y]) => {
+      const row = Math.round(y * cos - x * sin) + diagonal
+      rows[row] = (rows[row] as number) + 1
+    })
+    const score = rows.reduce((sum, count) => sum + count * count, 0)
+    // Prefer the smaller correction when angles tie
+    if (score > bestScore || (score === bestScore && Math.abs(degrees) < Math.abs(bestAngle))) {
+      bestScore = score
+      bestAngle = degrees
+    }
+  }
+  return bestAngle
+}
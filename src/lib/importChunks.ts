@@ -0,0 +1,121 @@
+import { AIParseResponse } from '@/types'
+
+/**
+ * Splitting large statements into pieces the AI can parse in one request, parsing the
+ * pieces a few at a time, and putting the parsed pieces back together.
+ */
+
+export interface ContentChunk {
+  index: number
+  content: string
+}
+
+// Split text into pieces of at most maxSize characters, cutting only where a separator allows
+const packParts = (parts: string[], separator: string, maxSize: number, split: (part: string) => string[]): string[] => {
+  const chunks: string[] = []
+  let current = ''
+
+  parts.forEach(part => {
+    if (part.length > maxSize) {
+      if (current) chunks.push(current)
+      current = ''
+      chunks.push(...split(part))
+      return
+    }
+    if (current && current.length + separator.length + part.length > maxSize) {
+      chunks.push(current)
+      current = ''
+    }
+    current = current ? current + separator + part : part
+  })
+  if (current) chunks.push(current)
+
+  return chunks
+}
+
+/**
+ * Split statement content into chunks of at most maxSize characters. Cuts fall between
+ * pages (PDF text separates pages with a blank line) and otherwise between rows, so no
+ * transaction line is cut in half. With repeatHeader, the first row (a CSV header) starts
+ * every chunk so each one can be read on its own.
+ */
+export const splitIntoChunks = (content: string, maxSize: number, repeatHeader = false): ContentChunk[] => {
+  const text = content.replace(/\r\n/g, '\n').trim()
+  if (text.length <= maxSize) return [{ index: 0, content: text }]
+
+  let header = ''
+  let body = text
+  const firstBreak = text.indexOf('\n')
+  if (repeatHeader && firstBreak > 0) {
+    header = text.slice(0, firstBreak)
+    body = text.slice(firstBreak + 1)
+  }
+  const size = Math.max(1, maxSize - (header ? header.length + 1 : 0))
+
+  // A single row longer than a chunk is the only thing cut mid-line
+  const splitLine = (line: string) => line.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g')) || []
+  const splitPage = (page: string) => packParts(page.split('\n'), '\n', size, splitLine)
+  const pieces = packParts(body.split(/\n\s*\n/), '\n\n', size, splitPage)
+
+  return pieces.map((piece, index) => ({ index, content: header ? `${header}\n${piece}` : piece }))
+}
+
+/**
+ * Run task on every item with at most limit running at once. Results keep the items' order.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await task(items[index] as T, index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+type ChunkLine = AIParseResponse['transactions'][number]
+
+// Lines at each side of a cut that can be the same row read by both chunks
+const BOUNDARY_LINES = 3
+
+const getLineKey = (t: ChunkLine) =>
+  [t.date, t.type, Math.abs(t.amount).toFixed(2), t.description.trim().toLowerCase().replace(/\s+/g, ' ')].join('|')
+
+/**
+ * Merge the transactions parsed from each chunk, in chunk order. A row at a cut (one that
+ * wraps across it, or a balance carried forward) can be read by both chunks, so a line among
+ * the first few of a chunk is dropped when it repeats one of the last few lines kept from the
+ * chunk before. Repeats anywhere else are real (two coffees on the same day) and are kept.
+ * Returns the merged lines and how many repeats were dropped.
+ */
+export const mergeChunkTransactions = (
+  chunks: ChunkLine[][]
+): { transactions: ChunkLine[]; duplicatesRemoved: number } => {
+  const transactions: ChunkLine[] = []
+  let duplicatesRemoved = 0
+
+  chunks.forEach(chunkTransactions => {
+    const tail = transactions.slice(-BOUNDARY_LINES).map(getLineKey)
+    chunkTransactions.forEach((t, index) => {
+      const match = index < BOUNDARY_LINES ? tail.indexOf(getLineKey(t)) : -1
+      if (match >= 0) {
+        // Each line before the cut stands in for one repeat only
+        tail.splice(match, 1)
+        duplicatesRemoved++
+      } else {
+        transactions.push(t)
+      }
+    })
+  })
+
+  return { transactions, duplicatesRemoved }
+}
@@ -0,0 +1,209 @@
+// A small PDF writer for text reports: titles, paragraphs and tables on A4 pages in the
+// standard Helvetica fonts, so reports need no PDF library or embedded fonts
+
+export interface PdfTableColumn {
+  label: string
+  width: number // Share of the page width (0-1)
+  align?: 'left' | 'right'
+}
+
+export type PdfBlock =
+  | { type: 'title'; text: string }
+  | { type: 'heading'; text: string }
+  | { type: 'text'; text: string; muted?: boolean }
+  | { type: 'table'; columns: PdfTableColumn[]; rows: string[][]; boldLastRow?: boolean }
+  | { type: 'spacer' }
+
+// A4 in points, with 50pt margins
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 50
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+const FONT_SIZES = { title: 18, heading: 13, text: 10, table: 9 }
+const CELL_PADDING = 4
+
+// Helvetica widths (1/1000 em) of the characters amounts are made of, for right alignment;
+// other characters are estimated
+const CHARACTER_WIDTHS: Record<string, number> = {
+  ' ': 278, ',': 278, '.': 278, '-': 333, '(': 333, ')': 333, '%': 889, '$': 556, '/': 278, ':': 278
+}
+const DEFAULT_CHARACTER_WIDTH = 556
+const NARROW_CHARACTERS = /[iljtfrI!|']/
+
+const textWidth = (text: string, size: number, bold = false): number => {
+  const units = Array.from(text).reduce((sum, character) => {
+    if (CHARACTER_WIDTHS[character] !== undefined) return sum + CHARACTER_WIDTHS[character]
+    if (NARROW_CHARACTERS.test(character)) return sum + 250
+    if (/[mwMW]/.test(character)) return sum + 833
+    return sum + DEFAULT_CHARACTER_WIDTH
+  }, 0)
+  return (units * size * (bold ? 1.05 : 1)) / 1000
+}
+
+// Longest start of text that fits the width, ending in an ellipsis when cut
+const fitText = (text: string, width: number, size: number, bold = false): string => {
+  if (textWidth(text, size, bold) <= width) return text
+  let fitted = text
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > width) fitted = fitted.slice(0, -1)
+  return `${fitted.trimEnd()}...`
+}
+
+// Words of text wrapped into lines no wider than width
+const wrapText = (text: string, width: number, size: number): string[] => {
+  const lines: string[] = []
+  text.split('\n').forEach(paragraph => {
+    let line = ''
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const next = line ? `${line} ${word}` : word
+      if (line && textWidth(next, size) > width) {
+        lines.push(line)
+        line = word
+      } else {
+        line = next
+      }
+    })
+    lines.push(line)
+  })
+  return lines
+}
+
+// Text as a PDF string literal. The standard fonts cover Latin-1; anything else prints as '?'.
+const escapeText = (text: string): string =>
+  Array.from(text)
+    .map(character => {
+      if (character === '\\' || character === '(' || character === ')') return `\\${character}`
+      if (character === '€') return '\\200'
+      if (character === '—' || character === '–') return '-'
+      if (/\s/.test(character)) return ' '
+      return character.charCodeAt(0) > 255 ? '?' : character
+    })
+    .join('')
+
+/**
+ * Lay the blocks out on as many pages as they need and return the PDF file. Tables repeat
+ * their header on every page they continue onto, and pages are numbered in the footer.
+ */
+export const createPdfDocument = (blocks: PdfBlock[], footer = ''): Uint8Array<ArrayBuffer> => {
+  const pages: string[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+
+  const page = () => pages[pages.length - 1] as string[]
+  const newPage = () => {
+    pages.push([])
+    y = PAGE_HEIGHT - MARGIN
+  }
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + 20) newPage()
+  }
+  const write = (text: string, x: number, size: number, bold = false, gray = 0) => {
+    page().push(
+      `${gray} g BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(text)}) Tj ET`
+    )
+  }
+  const rule = (gray: number) => {
+    page().push(`${gray} G 0.5 w ${MARGIN} ${(y - 4).toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${(y - 4).toFixed(2)} l S`)
+  }
+
+  const writeRow = (columns: PdfTableColumn[], cells: string[], bold: boolean) => {
+    let x = MARGIN
+    columns.forEach((column, index) => {
+      const width = column.width * CONTENT_WIDTH
+      const text = fitText(cells[index] || '', width - CELL_PADDING * 2, FONT_SIZES.table, bold)
+      const left = column.align === 'right'
+        ? x + width - CELL_PADDING - textWidth(text, FONT_SIZES.table, bold)
+        : x + CELL_PADDING
+      write(text, left, FONT_SIZES.table, bold)
+      x += width
+    })
+  }
+
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'title':
+        ensureSpace(FONT_SIZES.title * 2)
+        y -= FONT_SIZES.title
+        write(block.text, MARGIN, FONT_SIZES.title, true)
+        y -= FONT_SIZES.title * 0.8
+        break
+
+      case 'heading':
+        // Keep a heading with at least a few lines of what follows
+        ensureSpace(FONT_SIZES.heading * 2 + FONT_SIZES.text * 4)
+        y -= FONT_SIZES.heading * 1.2
+        write(block.text, MARGIN, FONT_SIZES.heading, true)
+        rule(0.8)
+        y -= FONT_SIZES.heading * 0.8
+        break
+
+      case 'text':
+        wrapText(block.text, CONTENT_WIDTH, FONT_SIZES.text).forEach(line => {
+          ensureSpace(FONT_SIZES.text * 1.4)
+          y -= FONT_SIZES.text * 1.4
+          write(line, MARGIN, FONT_SIZES.text, false, block.muted ? 0.45 : 0)
+        })
+        break
+
+      case 'table': {
+        const rowHeight = FONT_SIZES.table * 1.6
+        const header = () => {
+          y -= rowHeight
+          writeRow(block.columns, block.columns.map(column => column.label), true)
+          rule(0.6)
+        }
+        ensureSpace(rowHeight * 3)
+        header()
+        block.rows.forEach((row, index) => {
+          if (y - rowHeight < MARGIN + 20) {
+            newPage()
+            header()
+          }
+          y -= rowHeight
+          writeRow(block.columns, row, !!block.boldLastRow && index === block.rows.length - 1)
+        })
+        y -= rowHeight * 0.5
+        break
+      }
+
+      case 'spacer':
+        y -= FONT_SIZES.text
+        break
+    }
+  })
+
+  // Objects: catalog, page tree, two fonts, then a page and its content stream per page
+  const fontIds = [3, 4]
+  const pageIds = pages.map((_, index) => 5 + index * 2)
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ]
+  pages.forEach((commands, index) => {
+    const footerText = `${footer ? `${footer} - ` : ''}Page ${index + 1} of ${pages.length}`
+    const content = [
+      ...commands,
+      `0.45 g BT /F1 8 Tf ${MARGIN} ${MARGIN - 20} Td (${escapeText(footerText)}) Tj ET`
+    ].join('\n')
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${fontIds[0]} 0 R /F2 ${fontIds[1]} 0 R >> >> /Contents ${(pageIds[index] as number) + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    )
+  })
+
+  // Every character is a single byte, so string lengths are byte offsets
+  let output = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((object, index) => {
+    offsets.push(output.length)
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`
+  })
+  const xref = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  return Uint8Array.from(output, character => character.charCodeAt(0) & 0xff)
+}
@@ -0,0 +1,297 @@
+import { parseAmount } from './statementParsers'
+
+// Rebuilding the rows and columns of bank statement tables from the positioned text of a PDF
+// page, and checking amounts against the statement's running balance
+
+// A piece of text on a PDF page. x and y are the top-left corner in page units, y growing downwards.
+export interface PdfTextItem {
+  text: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface PdfPageLayout {
+  text: string
+  // Cells of every table row, one per column of the page's table
+  rows: string[][]
+  // Column holding the running balance, when one was found
+  balanceColumn?: number
+}
+
+interface Cell {
+  text: string
+  left: number
+  right: number
+}
+
+// Rows with at least this many separate cells are treated as part of a table
+const MIN_TABLE_CELLS = 3
+
+// A column needs text in this share of the table rows, so one long description doesn't make a column
+const MIN_COLUMN_COVERAGE = 0.1
+
+// Share of consecutive balances that must differ by an amount on the row to call a column the balance
+const MIN_BALANCE_MATCHES = 0.6
+
+// Money cells have cents, which tells them apart from dates, reference numbers and years
+const MONEY_PATTERN = /^\(?[-+]?[$€£¥]?\s?\d[\d,.\s]*[.,]\d{2}\)?-?$/
+
+/**
+ * Amount in a statement cell, or NaN when the cell isn't money. Balances marked CR/DR
+ * (credit/debit) are positive/negative.
+ */
+export const parseMoneyCell = (cell: string): number => {
+  const marker = cell.trim().match(/\s*(CR|DR)$/i)
+  const text = marker ? cell.trim().slice(0, -marker[0].length) : cell.trim()
+  if (!MONEY_PATTERN.test(text)) return NaN
+  const amount = parseAmount(text)
+  return marker && marker[1]?.toUpperCase() === 'DR' ? -Math.abs(amount) : amount
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)] ?? 0
+}
+
+/**
+ * Lines of a page, top to bottom, each split into cells left to right. Items on the same
+ * baseline belong to one line; items close together on a line are joined into one cell, so
+ * a wide gap is what separates columns.
+ */
+export const groupIntoLines = (items: PdfTextItem[]): Cell[][] => {
+  const textItems = items.filter(item => item.text.trim())
+  if (textItems.length === 0) return []
+
+  const lineHeight = median(textItems.map(item => item.height)) || 10
+  const tolerance = Math.max(2, lineHeight * 0.5)
+  const lines: Array<{ y: number; items: PdfTextItem[] }> = []
+
+  ;[...textItems].sort((a, b) => a.y - b.y || a.x - b.x).forEach(item => {
+    const line = lines[lines.length - 1]
+    if (line && Math.abs(item.y - line.y) <= tolerance) {
+      line.items.push(item)
+    } else {
+      lines.push({ y: item.y, items: [item] })
+    }
+  })
+
+  return lines.map(line => {
+    const cells: Cell[] = []
+    line.items.sort((a, b) => a.x - b.x).forEach(item => {
+      const cell = cells[cells.length - 1]
+      const gap = cell ? item.x - cell.right : Infinity
+      if (cell && gap < lineHeight) {
+        cell.text += (gap > lineHeight * 0.15 ? ' ' : '') + item.text.trim()
+        cell.right = Math.max(cell.right, item.x + item.width)
+      } else {
+        cells.push({ text: item.text.trim(), left: item.x, right: item.x + item.width })
+      }
+    })
+    return cells
+  })
+}
+
+/**
+ * Horizontal extents of the columns of a table: the stretches of the page covered by cells in
+ * enough of the table rows, with the gaps between them separating the columns.
+ */
+export const findColumns = (tableLines: Cell[][]): Array<[number, number]> => {
+  const cells = tableLines.flat()
+  if (cells.length === 0) return []
+
+  const start = Math.floor(Math.min(...cells.map(cell => cell.left)))
+  const end = Math.ceil(Math.max(...cells.map(cell => cell.right)))
+  const coverage = new Array<number>(end - start + 1).fill(0)
+  cells.forEach(cell => {
+    for (let x = Math.floor(cell.left); x < Math.ceil(cell.right); x++) {
+      coverage[x - start] = (coverage[x - start] as number) + 1
+    }
+  })
+
+  const minimum = Math.max(1, tableLines.length * MIN_COLUMN_COVERAGE)
+  const columns: Array<[number, number]> = []
+  let columnStart: number | null = null
+  coverage.forEach((count, offset) => {
+    if (count >= minimum && columnStart === null) columnStart = start + offset
+    if (count < minimum && columnStart !== null) {
+      columns.push([columnStart, start + offset])
+      columnStart = null
+    }
+  })
+  if (columnStart !== null) columns.push([columnStart, end])
+  return columns
+}
+
+// Column a cell falls in: the one it overlaps most, or the nearest one
+const getColumnIndex = (cell: Cell, columns: Array<[number, number]>): number => {
+  let best = 0
+  let bestScore = -Infinity
+  columns.forEach(([left, right], index) => {
+    const overlap = Math.min(right, cell.right) - Math.max(left, cell.left)
+    if (overlap > bestScore) {
+      bestScore = overlap
+      best = index
+    }
+  })
+  return best
+}
+
+/**
+ * The column whose consecutive values differ by an amount found on the same row: the running
+ * balance. Rows without a balance (wrapped descriptions) are skipped.
+ */
+export const findBalanceColumn = (rows: string[][]): number | undefined => {
+  const columnCount = Math.max(0, ...rows.map(row => row.length))
+  let best: { column: number; score: number } | undefined
+
+  for (let column = 0; column < columnCount; column++) {
+    const balances = rows
+      .map(row => ({ balance: parseMoneyCell(row[column] || ''), row }))
+      .filter(entry => !isNaN(entry.balance))
+    if (balances.length < 3) continue
+
+    let matches = 0
+    balances.slice(1).forEach((entry, i) => {
+      const change = Math.abs(entry.balance - (balances[i] as typeof entry).balance)
+      // Either row may hold the amount, depending on whether the statement is oldest or newest first
+      const amounts = [entry.row, (balances[i] as typeof entry).row].flatMap(row =>
+        row.filter((_, index) => index !== column).map(cell => Math.abs(parseMoneyCell(cell)))
+      )
+      if (amounts.some(amount => Math.abs(amount - change) < 0.01)) matches++
+    })
+
+    const score = matches / (balances.length - 1)
+    if (score >= MIN_BALANCE_MATCHES && (!best || score > best.score)) {
+      best = { column, score }
+    }
+  }
+
+  return best?.column
+}
+
+/**
+ * Text of a page with its table laid out row by row, cells separated by " | " and empty
+ * cells kept so every row has the same columns. Lines outside the table stay plain text.
+ */
+export const reconstructPage = (items: PdfTextItem[]): PdfPageLayout => {
+  const lines = groupIntoLines(items)
+  const tableLines = lines.filter(line => line.length >= MIN_TABLE_CELLS)
+  if (tableLines.length < 2) {
+    return { text: lines.map(line => line.map(cell => cell.text).join(' ')).join('\n'), rows: [] }
+  }
+
+  const columns = findColumns(tableLines)
+  const rows: string[][] = []
+  const text = lines.map(line => {
+    // Headings and notes between table rows are kept as they are
+    if (line.length < 2) return line.map(cell => cell.text).join(' ')
+
+    const row = columns.map(() => '')
+    line.forEach(cell => {
+      const index = getColumnIndex(cell, columns)
+      row[index] = row[index] ? `${row[index]} ${cell.text}` : cell.text
+    })
+    rows.push(row)
+    return row.join(' | ')
+  }).join('\n')
+
+  return { text, rows, balanceColumn: findBalanceColumn(rows) }
+}
+
+export interface BalanceChanges {
+  // Amounts the running balance moved by, from one balance to the next
+  changes: number[]
+  // Amounts on the first and last row of each run of balances. Depending on whether the
+  // statement is oldest or newest first, one of those rows has no earlier balance to check
+  openingRows: number[][]
+}
+
+const getRowAmounts = (row: string[], balanceColumn: number): number[] =>
+  row
+    .filter((_, index) => index !== balanceColumn)
+    .map(cell => Math.abs(parseMoneyCell(cell)))
+    .filter(amount => !isNaN(amount))
+
+/**
+ * Amounts the running balance moved by, from one balance to the next, across all pages of a
+ * statement. Balances carried over from the previous page don't move it and are skipped. A
+ * page without a balance column breaks the sequence, as its rows can't be followed.
+ */
+export const getBalanceChanges = (pages: PdfPageLayout[]): BalanceChanges => {
+  const changes: number[] = []
+  const openingRows: number[][] = []
+  let previous: number | undefined
+  let first: number[] | undefined
+  let last: number[] | undefined
+
+  const endRun = () => {
+    if (first && last) openingRows.push([...first, ...last])
+    first = undefined
+    last = undefined
+    previous = undefined
+  }
+
+  pages.forEach(page => {
+    if (page.balanceColumn === undefined) {
+      endRun()
+      return
+    }
+    const balanceColumn = page.balanceColumn
+    page.rows.forEach(row => {
+      const balance = parseMoneyCell(row[balanceColumn] || '')
+      if (isNaN(balance)) return
+      if (previous !== undefined && Math.abs(balance - previous) >= 0.01) {
+        changes.push(Math.round(Math.abs(balance - previous) * 100) / 100)
+        last = getRowAmounts(row, balanceColumn)
+      } else if (previous === undefined) {
+        first = getRowAmounts(row, balanceColumn)
+        last = first
+      }
+      previous = balance
+    })
+  })
+  endRun()
+
+  return { changes, openingRows }
+}
+
+/**
+ * Compare parsed amounts with the balance changes: every amount should account for one change.
+ * Returns the indexes of amounts no change accounts for, and the changes left without an amount.
+ * One amount per opening row group is let through, as no earlier balance can confirm it.
+ */
+export const matchBalanceChanges = (
+  amounts: number[],
+  changes: number[],
+  openingRows: number[][] = []
+): { unmatched: number[]; missing: number[] } => {
+  const remaining = new Map<number, number>()
+  changes.forEach(change => {
+    const cents = Math.round(change * 100)
+    remaining.set(cents, (remaining.get(cents) || 0) + 1)
+  })
+  const openings = openingRows.map(row => row.map(amount => Math.round(amount * 100)))
+
+  const unmatched: number[] = []
+  amounts.forEach((amount, index) => {
+    const cents = Math.round(Math.abs(amount) * 100)
+    const count = remaining.get(cents) || 0
+    if (count > 0) {
+      remaining.set(cents, count - 1)
+      return
+    }
+    const opening = openings.findIndex(row => row.includes(cents))
+    if (opening >= 0) {
+      openings.splice(opening, 1)
+    } else {
+      unmatched.push(index)
+    }
+  })
+
+  const missing = Array.from(remaining.entries()).flatMap(([cents, count]) =>
+    new Array<number>(count).fill(cents / 100)
+  )
+  return { unmatched, missing }
+}
@@ -0,0 +1,182 @@
+import { Category, Receipt, ReceiptLineItem, TransactionSplit } from '@/types'
+import { parseAmount, parseStatementDate } from './statementParsers'
+import { findCategory } from './categories'
+
+/**
+ * Reading a receipt out of OCR text, and proposing how its total splits across categories.
+ * Receipts print one item per line with its price at the end, followed by the subtotal,
+ * tax, tip and total; payment lines (card, cash, change) come after the total.
+ */
+
+// A price at the end of a line, optionally followed by a one-letter tax code ("4.99 A")
+const LINE_AMOUNT = /^(.*?)\s*(\(?-?[$€£¥]?\s?\d[\d.,]*[.,]\d{2}\)?-?)\s*[A-Z*]?$/
+
+const SUBTOTAL_LINE = /\bsub[\s-]*total\b/i
+const TAX_LINE = /\b(tax|vat|gst|hst|pst)\b/i
+const TIP_LINE = /\b(tip|gratuity)\b/i
+const TOTAL_LINE = /\b(total|amount\s+due|balance\s+due)\b/i
+
+// Lines that are not items even when they end with an amount
+const NON_ITEM_LINE = /\b(change|cash|tender(ed)?|visa|mastercard|amex|debit|payment|balance|savings|points)\b/i
+
+const DATE_PATTERN = /\b(\d{4}[/.-]\d{1,2}[/.-]\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})\b/
+
+// "2 x Milk", "2 @ 1.50 Milk" and "Milk 2 @ 1.50"
+const LEADING_QUANTITY = /^(\d{1,3})\s*[xX@]\s+(?:\d+[.,]\d{2}\s+)?/
+const TRAILING_QUANTITY = /\s+(\d{1,3})\s*[xX@]\s*\d+[.,]\d{2}$/
+
+/**
+ * Words common on receipts, by the default category they belong to. Only used for items no
+ * rule or earlier choice categorizes, and only when the user still has that category.
+ */
+const RECEIPT_ITEM_KEYWORDS: Array<{ category: string; pattern: RegExp }> = [
+  { category: 'Healthcare', pattern: /\b(pharm\w*|rx|vitamin\w*|ibuprofen|aspirin|bandage\w*|medic\w*|tylenol|advil)\b/i },
+  { category: 'Bills & Utilities', pattern: /\b(battery|batteries|light\s?bulbs?|stamps?|postage)\b/i },
+  { category: 'Shopping', pattern: /\b(shirt|socks|shoes?|jeans|towels?|detergent|shampoo|soap|toothpaste|tissues?|paper\s?towels?|toilet\s?paper|cable|charger|toys?)\b/i },
+  { category: 'Food & Dining', pattern: /\b(milk|bread|eggs?|cheese|butter|yogh?urt|banana\w*|apple\w*|fruit|vegetables?|chicken|beef|pork|fish|rice|pasta|cereal|coffee|tea|juice|water|soda|snacks?|chips|produce|deli|bakery|meat|sandwich|salad|burger|pizza|fries|drink)\b/i }
+]
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const getLineAmount = (line: string): { label: string; amount: number } | undefined => {
+  const match = line.match(LINE_AMOUNT)
+  if (!match) return undefined
+  const amount = parseAmount(match[2] as string)
+  if (Number.isNaN(amount)) return undefined
+  return { label: (match[1] as string).trim(), amount }
+}
+
+// First line that reads like a name rather than an address, phone number or date
+const findMerchant = (lines: string[]): string | undefined => {
+  for (const line of lines.slice(0, 5)) {
+    const letters = (line.match(/[a-z]/gi) || []).length
+    const characters = line.replace(/\s/g, '').length
+    if (letters >= 3 && letters / characters > 0.6 && !TOTAL_LINE.test(line)) {
+      return line.replace(/^[^a-z0-9]+|[^a-z0-9.)]+$/gi, '')
+    }
+  }
+  return undefined
+}
+
+const findDate = (text: string): Date | undefined => {
+  const value = text.match(DATE_PATTERN)?.[1]
+  if (!value) return undefined
+  // Month first unless that cannot be a date (13/02/2024)
+  const iso = parseStatementDate(value, false) || parseStatementDate(value, true)
+  return iso ? new Date(iso) : undefined
+}
+
+const parseLineItem = (label: string, amount: number): ReceiptLineItem => {
+  let description = label
+  let quantity: number | undefined
+
+  const leading = description.match(LEADING_QUANTITY)
+  const trailing = description.match(TRAILING_QUANTITY)
+  if (leading) {
+    quantity = Number(leading[1])
+    description = description.slice(leading[0].length)
+  } else if (trailing) {
+    quantity = Number(trailing[1])
+    description = description.slice(0, -trailing[0].length)
+  }
+
+  return { description: description.trim(), amount, ...(quantity && quantity > 1 && { quantity }) }
+}
+
+/**
+ * Read merchant, date, line items and the summary amounts from a receipt's OCR text. When
+ * the total is missing it is worked out from the subtotal (or the items), tax and tip.
+ */
+export const parseReceiptText = (text: string, confidence: number): Receipt => {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean)
+  const receipt: Receipt = {
+    merchant: findMerchant(lines),
+    date: findDate(text),
+    lineItems: [],
+    text,
+    confidence
+  }
+
+  let inSummary = false
+  lines.forEach(line => {
+    const parsed = getLineAmount(line)
+    if (!parsed) return
+    const { label, amount } = parsed
+
+    if (SUBTOTAL_LINE.test(label)) {
+      receipt.subtotal ??= Math.abs(amount)
+      inSummary = true
+    } else if (TAX_LINE.test(label)) {
+      // Receipts listing several taxes (GST and PST) charge their sum
+      receipt.tax = round((receipt.tax || 0) + Math.abs(amount))
+      inSummary = true
+    } else if (TIP_LINE.test(label)) {
+      receipt.tip ??= Math.abs(amount)
+      inSummary = true
+    } else if (TOTAL_LINE.test(label)) {
+      receipt.total ??= Math.abs(amount)
+      inSummary = true
+    } else if (!inSummary && label && !NON_ITEM_LINE.test(label) && amount !== 0) {
+      // Discounts and coupons print as negative lines and reduce the items' sum
+      receipt.lineItems.push(parseLineItem(label, amount))
+    }
+  })
+
+  if (receipt.total === undefined) {
+    const itemsTotal = receipt.lineItems.reduce((sum, item) => sum + item.amount, 0)
+    const base = receipt.subtotal ?? itemsTotal
+    if (base > 0) receipt.total = round(base + (receipt.tax || 0) + (receipt.tip || 0))
+  }
+
+  return receipt
+}
+
+/**
+ * Category for each line item: categorize (the user's rules and earlier choices) first,
+ * then common receipt words, then fallbackCategory.
+ */
+export const categorizeLineItems = (
+  items: ReceiptLineItem[],
+  categories: Category[],
+  categorize: (description: string, amount: number) => string | undefined,
+  fallbackCategory: string
+): ReceiptLineItem[] =>
+  items.map(item => {
+    const keyword = RECEIPT_ITEM_KEYWORDS.find(k => k.pattern.test(item.description) && findCategory(k.category, categories))
+    return {
+      ...item,
+      category: categorize(item.description, item.amount) || (keyword && findCategory(keyword.category, categories)?.name) || fallbackCategory
+    }
+  })
+
+/**
+ * Split of total across the categories of the categorized line items. Tax, tip and
+ * discounts are spread over the categories in proportion to their items, so the allocations
+ * add up to total exactly. Empty when the items share one category.
+ */
+export const proposeReceiptSplit = (items: ReceiptLineItem[], total: number): TransactionSplit[] => {
+  const groups = new Map<string, { amount: number; descriptions: string[] }>()
+  items.forEach(item => {
+    const category = item.category || ''
+    const group = groups.get(category) || { amount: 0, descriptions: [] }
+    group.amount += item.amount
+    group.descriptions.push(item.description)
+    groups.set(category, group)
+  })
+
+  const entries = Array.from(groups.entries()).filter(([category, group]) => category && group.amount > 0)
+  const itemsTotal = entries.reduce((sum, [, group]) => sum + group.amount, 0)
+  if (entries.length < 2 || !(total > 0) || itemsTotal <= 0) return []
+
+  let allocated = 0
+  return entries.map(([category, group], index) => {
+    const amount = index === entries.length - 1
+      ? round(total - allocated)
+      : round(group.amount * total / itemsTotal)
+    allocated = round(allocated + amount)
+    const note = group.descriptions.length > 3
+      ? `${group.descriptions.slice(0, 3).join(', ')} +${group.descriptions.length - 3} more`
+      : group.descriptions.join(', ')
+    return { category, amount, note }
+  })
+}
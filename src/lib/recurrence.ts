@@ -0,0 +1,93 @@
+import { RecurringFrequency, RecurringTransaction } from '@/types'
+
+// Date arithmetic for recurring transaction rules.
+// Dates are handled in UTC because transactions are stored as plain YYYY-MM-DD dates.
+
+export const RECURRING_FREQUENCIES: Array<{ value: RecurringFrequency; label: string }> = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' }
+]
+
+// Safety limit so a rule that has been paused for years cannot flood the ledger in one run
+export const MAX_OCCURRENCES_PER_RUN = 60
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+const toUTCDate = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+
+const addMonths = (date: Date, months: number, anchorDay: number): Date => {
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth() + months
+  // Clamp to the last day of the target month (e.g. Jan 31 -> Feb 28)
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month, Math.min(anchorDay, lastDay)))
+}
+
+// Next occurrence after the given one. anchorDay keeps month-based rules on
+// their original day of month after passing through shorter months.
+export const getNextOccurrence = (date: Date, frequency: RecurringFrequency, anchorDay?: number): Date => {
+  const current = toUTCDate(date)
+  const day = anchorDay || current.getUTCDate()
+
+  switch (frequency) {
+    case 'weekly':
+      return new Date(current.getTime() + 7 * MS_PER_DAY)
+    case 'biweekly':
+      return new Date(current.getTime() + 14 * MS_PER_DAY)
+    case 'monthly':
+      return addMonths(current, 1, day)
+    case 'quarterly':
+      return addMonths(current, 3, day)
+    case 'yearly':
+      return addMonths(current, 12, day)
+  }
+}
+
+// Occurrences of a rule that are due on or before the given date, plus the
+// occurrence that follows them
+export const getDueOccurrences = (
+  rule: Pick<RecurringTransaction, 'frequency' | 'startDate' | 'endDate' | 'nextOccurrence' | 'isActive'>,
+  asOf: Date = new Date()
+): { dates: Date[]; nextOccurrence: Date } => {
+  const dates: Date[] = []
+  const limit = toUTCDate(asOf)
+  const anchorDay = toUTCDate(rule.startDate).getUTCDate()
+  let next = toUTCDate(rule.nextOccurrence)
+
+  if (!rule.isActive) {
+    return { dates, nextOccurrence: next }
+  }
+
+  while (next <= limit && dates.length < MAX_OCCURRENCES_PER_RUN) {
+    if (rule.endDate && next > toUTCDate(rule.endDate)) break
+    dates.push(next)
+    next = getNextOccurrence(next, rule.frequency, anchorDay)
+  }
+
+  return { dates, nextOccurrence: next }
+}
+
+// Whether an existing amount falls within the rule's variance of its nominal amount
+export const isWithinVariance = (amount: number, nominalAmount: number, variancePercent: number): boolean => {
+  const tolerance = Math.max(Math.abs(nominalAmount) * (variancePercent / 100), 0.01)
+  return Math.abs(amount - nominalAmount) <= tolerance
+}
+
+// Approximate monthly amount of a rule, for forecasts and summaries
+export const getMonthlyEquivalent = (amount: number, frequency: RecurringFrequency): number => {
+  switch (frequency) {
+    case 'weekly':
+      return amount * 52 / 12
+    case 'biweekly':
+      return amount * 26 / 12
+    case 'monthly':
+      return amount
+    case 'quarterly':
+      return amount / 3
+    case 'yearly':
+      return amount / 12
+  }
+}
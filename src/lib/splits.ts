@@ -0,0 +1,50 @@
+import { Transaction, TransactionSplit } from '@/types'
+
+// A split transaction keeps one amount but spreads it across several categories
+
+export const SPLIT_CATEGORY = 'Split'
+
+// Allocations may differ from the total by rounding only
+const SPLIT_TOLERANCE = 0.01
+
+export const isSplit = (transaction: Pick<Transaction, 'splits'>): boolean =>
+  (transaction.splits?.length ?? 0) > 0
+
+// Category amounts a transaction contributes to spending totals: its allocations when split,
+// otherwise its whole amount under its own category
+export const getCategoryAllocations = (transaction: Transaction): Array<{ category: string; amount: number }> =>
+  transaction.splits && transaction.splits.length > 0
+    ? transaction.splits.map(split => ({ category: split.category, amount: split.amount }))
+    : [{ category: transaction.category, amount: transaction.amount }]
+
+// Amount of a transaction allocated to one category
+export const getCategoryAmount = (transaction: Transaction, category: string): number =>
+  getCategoryAllocations(transaction)
+    .filter(allocation => allocation.category === category)
+    .reduce((sum, allocation) => sum + allocation.amount, 0)
+
+// Sum spent per category across expense transactions
+export const calculateCategoryTotals = (transactions: Transaction[]): Record<string, number> => {
+  const totals: Record<string, number> = {}
+  transactions
+    .filter(t => t.type === 'expense')
+    .forEach(t => {
+      getCategoryAllocations(t).forEach(({ category, amount }) => {
+        totals[category] = (totals[category] || 0) + amount
+      })
+    })
+  return totals
+}
+
+// Error message when the allocations cannot be saved for the given total, otherwise null
+export const validateSplits = (splits: TransactionSplit[], total: number): string | null => {
+  if (splits.length < 2) return 'A split needs at least two categories'
+  if (splits.some(split => !split.category)) return 'Choose a category for every split'
+  if (splits.some(split => !(split.amount > 0))) return 'Every split needs an amount greater than zero'
+
+  const allocated = splits.reduce((sum, split) => sum + split.amount, 0)
+  if (Math.abs(allocated - total) >= SPLIT_TOLERANCE) {
+    return `Splits add up to ${allocated.toFixed(2)} but the transaction total is ${total.toFixed(2)}`
+  }
+  return null
+}
@@ -0,0 +1,240 @@
+import { ImportOptions } from '@/types'
+
+/**
+ * Deterministic parsers for bank statement exports that follow a published format.
+ * They produce the same line shape the AI parser does, without sending anything to it.
+ */
+
+export const STATEMENT_FILE_EXTENSIONS = ['ofx', 'qfx', 'qif']
+
+export interface StatementLine {
+  date: string // YYYY-MM-DD
+  description: string
+  amount: number // Positive; the direction is in type
+  type: 'income' | 'expense'
+  category?: string // Only QIF files carry categories
+  externalId?: string // The bank's id for the line (OFX FITID), stable across exports
+}
+
+export interface ParsedStatement {
+  transactions: StatementLine[]
+  errors: string[]
+  warnings: string[]
+}
+
+export const isStatementFile = (fileName: string): boolean =>
+  STATEMENT_FILE_EXTENSIONS.includes(fileName.toLowerCase().split('.').pop() || '')
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+const toISODate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return `${year}-${pad(month)}-${pad(day)}`
+}
+
+/**
+ * Parse an amount as banks write it: "1,234.56", "-12.50", "12,50", "1.234,56", "$12.00",
+ * "(12.00)" and "12.00-" all parse, the last two as negative. Anything else is NaN.
+ */
+export const parseAmount = (value: string): number => {
+  let text = value.trim().replace(/[\s$€£¥]/g, '')
+  let sign = 1
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1
+    text = text.slice(1, -1)
+  }
+  if (text.endsWith('-')) {
+    sign = -sign
+    text = text.slice(0, -1)
+  }
+
+  const normalized = /^[-+]?(\d+|\d{1,3}(\.\d{3})+),\d{1,2}$/.test(text)
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '')
+  return normalized ? sign * Number(normalized) : NaN
+}
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&amp;/gi, '&')
+    .trim()
+
+// Value of an OFX element, written either SGML style (<NAME>value) or XML style (<NAME>value</NAME>)
+const getOFXField = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  const value = match?.[1] && decodeEntities(match[1])
+  return value || undefined
+}
+
+// OFX dates are YYYYMMDD, optionally followed by a time and a timezone we don't need
+const parseOFXDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  return match ? toISODate(Number(match[1]), Number(match[2]), Number(match[3])) : null
+}
+
+/**
+ * Parse an OFX or QFX (Quicken's OFX) statement. Both the SGML (1.x) and XML (2.x)
+ * flavours are read; lines repeated with the same FITID are kept once.
+ */
+export const parseOFX = (content: string): ParsedStatement => {
+  const result: ParsedStatement = { transactions: [], errors: [], warnings: [] }
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || []
+
+  if (blocks.length === 0) {
+    result.errors.push('No transactions found in the OFX file')
+    return result
+  }
+
+  const seenIds = new Set<string>()
+  blocks.forEach((block, index) => {
+    const line = `Transaction ${index + 1}`
+    const fitId = getOFXField(block, 'FITID')
+    const postedAt = getOFXField(block, 'DTPOSTED')
+    const amount = parseAmount(getOFXField(block, 'TRNAMT') || '')
+    const name = getOFXField(block, 'NAME')
+    const memo = getOFXField(block, 'MEMO')
+
+    const date = postedAt && parseOFXDate(postedAt)
+    if (!date) {
+      result.errors.push(`${line}: missing or invalid date`)
+      return
+    }
+    if (isNaN(amount)) {
+      result.errors.push(`${line}: missing or invalid amount`)
+      return
+    }
+    if (amount === 0) {
+      result.warnings.push(`${line}: skipped a zero amount line`)
+      return
+    }
+    if (fitId) {
+      if (seenIds.has(fitId)) {
+        result.warnings.push(`${line}: skipped a repeated transaction (FITID ${fitId})`)
+        return
+      }
+      seenIds.add(fitId)
+    }
+
+    result.transactions.push({
+      date,
+      description: name || memo || getOFXField(block, 'TRNTYPE') || 'Transaction',
+      amount: Math.abs(amount),
+      type: amount > 0 ? 'income' : 'expense',
+      externalId: fitId
+    })
+  })
+
+  return result
+}
+
+// Statement dates come as M/D/YY, M/D'YY (QIF, years from 2000), MM/DD/YYYY, D/M/YYYY or YYYY-MM-DD
+export const parseStatementDate = (value: string, dayFirst: boolean): string | null => {
+  const parts = value.replace(/'/g, '/').split(/[/.-]/).map(part => part.trim())
+  if (parts.length !== 3 || parts.some(part => !/^\d+$/.test(part))) return null
+
+  const [first, second, third] = parts.map(Number) as [number, number, number]
+  if ((parts[0] as string).length === 4) return toISODate(first, second, third)
+
+  const year = third < 100 ? (third < 50 || value.includes("'") ? 2000 + third : 1900 + third) : third
+  return dayFirst ? toISODate(year, second, first) : toISODate(year, first, second)
+}
+
+// Account types we can import; investment and list sections are skipped
+const QIF_TRANSACTION_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l']
+
+/**
+ * Parse a QIF (Quicken Interchange Format) export. Categories are kept; a category in
+ * brackets names a transfer account and is dropped, leaving transfer detection to validation.
+ */
+export const parseQIF = (content: string, dateFormat: ImportOptions['dateFormat'] = 'auto'): ParsedStatement => {
+  const result: ParsedStatement = { transactions: [], errors: [], warnings: [] }
+  const dayFirst = dateFormat === 'DD/MM/YYYY'
+
+  let section = 'bank'
+  let record: Record<string, string> = {}
+  let recordNumber = 0
+  let hasSplits = false
+
+  const finishRecord = () => {
+    if (Object.keys(record).length === 0) return
+    if (!QIF_TRANSACTION_TYPES.includes(section)) {
+      record = {}
+      return
+    }
+
+    recordNumber++
+    const line = `Transaction ${recordNumber}`
+
+    const date = record.D ? parseStatementDate(record.D, dayFirst) : null
+    const amount = parseAmount(record.T || record.U || '')
+    if (!date) {
+      result.errors.push(`${line}: missing or invalid date "${record.D || ''}"`)
+    } else if (isNaN(amount)) {
+      result.errors.push(`${line}: missing or invalid amount`)
+    } else if (amount === 0) {
+      result.warnings.push(`${line}: skipped a zero amount line`)
+    } else {
+      // "Parent:Child/Class" names the subcategory, which is the most specific match for the user's categories
+      const category = record.L && !record.L.startsWith('[') ? record.L.split('/')[0]?.split(':').pop()?.trim() : undefined
+      result.transactions.push({
+        date,
+        description: record.P || record.M || 'Transaction',
+        amount: Math.abs(amount),
+        type: amount > 0 ? 'income' : 'expense',
+        category: category || undefined
+      })
+    }
+    record = {}
+  }
+
+  content.split(/\r?\n/).forEach(rawLine => {
+    const text = rawLine.trim()
+    if (!text) return
+
+    if (text.startsWith('!')) {
+      finishRecord()
+      const header = text.toLowerCase()
+      if (header.startsWith('!type:')) {
+        section = header.slice('!type:'.length).trim()
+        if (!QIF_TRANSACTION_TYPES.includes(section)) {
+          result.warnings.push(`Skipped the unsupported "${text.slice(6)}" section`)
+        }
+      } else if (header.startsWith('!account')) {
+        section = 'account'
+      }
+      return
+    }
+
+    if (text === '^') {
+      finishRecord()
+      return
+    }
+
+    const code = text[0] as string
+    const value = text.slice(1).trim()
+    if (code === 'S' || code === '$') hasSplits = true
+    // Split lines (S, E, $) repeat; the first value of every other field is the one we need
+    if (!(code in record)) record[code] = value
+  })
+  finishRecord()
+
+  if (hasSplits) {
+    result.warnings.push('Split transactions were imported as single transactions under their main category')
+  }
+  if (result.transactions.length === 0 && result.errors.length === 0) {
+    result.errors.push('No transactions found in the QIF file')
+  }
+
+  return result
+}
+
+// Parse a statement file by its extension
+export const parseStatement = (content: string, fileName: string, options: ImportOptions = {}): ParsedStatement => {
+  const extension = fileName.toLowerCase().split('.').pop()
+  return extension === 'qif' ? parseQIF(content, options.dateFormat) : parseOFX(content)
+}
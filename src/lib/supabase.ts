@@ -95,7 +95,13 @@ export interface Database {
           description: string
           category: string
           amount: number
-          type: 'income' | 'expense'
+          type: 'income' | 'expense' | 'transfer'
+          account_id: string | null
+          transfer_account_id: string | null
+          recurring_transaction_id: string | null
+          external_id: string | null
+          import_batch_id: string | null
+          currency: string | null
           created_at: string
           updated_at: string
         }
@@ -106,7 +112,13 @@ export interface Database {
           description: string
           category: string
           amount: number
-          type: 'income' | 'expense'
+          type: 'income' | 'expense' | 'transfer'
+          account_id?: string | null
+          transfer_account_id?: string | null
+          recurring_transaction_id?: string | null
+          external_id?: string | null
+          import_batch_id?: string | null
+          currency?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -117,7 +129,45 @@ export interface Database {
           description?: string
           category?: string
           amount?: number
-          type?: 'income' | 'expense'
+          type?: 'income' | 'expense' | 'transfer'
+          account_id?: string | null
+          transfer_account_id?: string | null
+          recurring_transaction_id?: string | null
+          external_id?: string | null
+          import_batch_id?: string | null
+          currency?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      transaction_splits: {
+        Row: {
+          id: string
+          transaction_id: string
+          user_id: string
+          category: string
+          amount: number
+          note: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          transaction_id: string
+          user_id: string
+          category: string
+          amount: number
+          note?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          transaction_id?: string
+          user_id?: string
+          category?: string
+          amount?: number
+          note?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -130,6 +180,11 @@ export interface Database {
           budget_amount: number
           spent_amount: number
           period: string
+          period_start_day: number
+          current_period_start: string | null
+          rollover_policy: string
+          rollover_cap: number | null
+          rollover_amount: number
           created_at: string
           updated_at: string
         }
@@ -140,6 +195,11 @@ export interface Database {
           budget_amount: number
           spent_amount?: number
           period: string
+          period_start_day?: number
+          current_period_start?: string | null
+          rollover_policy?: string
+          rollover_cap?: number | null
+          rollover_amount?: number
           created_at?: string
           updated_at?: string
         }
@@ -150,10 +210,50 @@ export interface Database {
           budget_amount?: number
           spent_amount?: number
           period?: string
+          period_start_day?: number
+          current_period_start?: string | null
+          rollover_policy?: string
+          rollover_cap?: number | null
+          rollover_amount?: number
           created_at?: string
           updated_at?: string
         }
       }
+      budget_periods: {
+        Row: {
+          id: string
+          budget_id: string
+          user_id: string
+          period_start: string
+          period_end: string
+          budget_amount: number
+          spent_amount: number
+          rollover_amount: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          budget_id: string
+          user_id: string
+          period_start: string
+          period_end: string
+          budget_amount: number
+          spent_amount?: number
+          rollover_amount?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          budget_id?: string
+          user_id?: string
+          period_start?: string
+          period_end?: string
+          budget_amount?: number
+          spent_amount?: number
+          rollover_amount?: number
+          created_at?: string
+        }
+      }
       goals: {
         Row: {
           id: string
@@ -198,6 +298,442 @@ export interface Database {
           updated_at?: string
         }
       }
+      debts: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          type: string
+          balance: number
+          interest_rate: number
+          minimum_payment: number
+          credit_limit: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          type: string
+          balance: number
+          interest_rate?: number
+          minimum_payment?: number
+          credit_limit?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          type?: string
+          balance?: number
+          interest_rate?: number
+          minimum_payment?: number
+          credit_limit?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      recurring_transactions: {
+        Row: {
+          id: string
+          user_id: string
+          description: string
+          category: string
+          amount: number
+          type: 'income' | 'expense'
+          frequency: string
+          account_id: string | null
+          start_date: string
+          end_date: string | null
+          next_occurrence: string
+          amount_variance: number
+          is_active: boolean
+          last_materialized_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          description: string
+          category: string
+          amount: number
+          type: 'income' | 'expense'
+          frequency: string
+          account_id?: string | null
+          start_date: string
+          end_date?: string | null
+          next_occurrence: string
+          amount_variance?: number
+          is_active?: boolean
+          last_materialized_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          description?: string
+          category?: string
+          amount?: number
+          type?: 'income' | 'expense'
+          frequency?: string
+          account_id?: string | null
+          start_date?: string
+          end_date?: string | null
+          next_occurrence?: string
+          amount_variance?: number
+          is_active?: boolean
+          last_materialized_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      categories: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          parent_id: string | null
+          color: string
+          icon: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          parent_id?: string | null
+          color?: string
+          icon?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          parent_id?: string | null
+          color?: string
+          icon?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      categorization_rules: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          match_type: string
+          pattern: string | null
+          amount_min: number | null
+          amount_max: number | null
+          account_id: string | null
+          transaction_type: string | null
+          category: string
+          priority: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          match_type?: string
+          pattern?: string | null
+          amount_min?: number | null
+          amount_max?: number | null
+          account_id?: string | null
+          transaction_type?: string | null
+          category: string
+          priority?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          match_type?: string
+          pattern?: string | null
+          amount_min?: number | null
+          amount_max?: number | null
+          account_id?: string | null
+          transaction_type?: string | null
+          category?: string
+          priority?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      category_corrections: {
+        Row: {
+          id: string
+          user_id: string
+          description_key: string
+          description: string
+          category: string
+          times_corrected: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          description_key: string
+          description: string
+          category: string
+          times_corrected?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          description_key?: string
+          description?: string
+          category?: string
+          times_corrected?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      import_batches: {
+        Row: {
+          id: string
+          user_id: string
+          file_names: string[]
+          options: Record<string, unknown>
+          imported_count: number
+          duplicate_count: number
+          error_count: number
+          reverted_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          file_names?: string[]
+          options?: Record<string, unknown>
+          imported_count?: number
+          duplicate_count?: number
+          error_count?: number
+          reverted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          file_names?: string[]
+          options?: Record<string, unknown>
+          imported_count?: number
+          duplicate_count?: number
+          error_count?: number
+          reverted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      transaction_attachments: {
+        Row: {
+          id: string
+          user_id: string
+          transaction_id: string
+          file_name: string
+          content_type: string
+          size_bytes: number
+          storage_path: string
+          ocr_text: string | null
+          storage_backend: 'supabase' | 'local'
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          transaction_id: string
+          file_name: string
+          content_type: string
+          size_bytes: number
+          storage_path: string
+          ocr_text?: string | null
+          storage_backend?: 'supabase' | 'local'
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          transaction_id?: string
+          file_name?: string
+          content_type?: string
+          size_bytes?: number
+          storage_path?: string
+          ocr_text?: string | null
+          storage_backend?: 'supabase' | 'local'
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      bank_profiles: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          header_fingerprint: string
+          mapping: Record<string, unknown>
+          category_mapping: Record<string, string>
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          header_fingerprint: string
+          mapping: Record<string, unknown>
+          category_mapping?: Record<string, string>
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          header_fingerprint?: string
+          mapping?: Record<string, unknown>
+          category_mapping?: Record<string, string>
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      user_preferences: {
+        Row: {
+          user_id: string
+          currency: string
+          locale: string
+          date_format: string
+          notifications: boolean
+          email_reports: boolean
+          budget_alerts: boolean
+          theme: string
+          accent_color: string
+          font_size: string
+          compact_mode: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          currency?: string
+          locale?: string
+          date_format?: string
+          notifications?: boolean
+          email_reports?: boolean
+          budget_alerts?: boolean
+          theme?: string
+          accent_color?: string
+          font_size?: string
+          compact_mode?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          currency?: string
+          locale?: string
+          date_format?: string
+          notifications?: boolean
+          email_reports?: boolean
+          budget_alerts?: boolean
+          theme?: string
+          accent_color?: string
+          font_size?: string
+          compact_mode?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      exchange_rates: {
+        Row: {
+          id: string
+          user_id: string
+          date: string
+          from_currency: string
+          to_currency: string
+          rate: number
+          source: 'csv' | 'manual' | 'local'
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          date: string
+          from_currency: string
+          to_currency: string
+          rate: number
+          source?: 'csv' | 'manual' | 'local'
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          date?: string
+          from_currency?: string
+          to_currency?: string
+          rate?: number
+          source?: 'csv' | 'manual' | 'local'
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      accounts: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          type: string
+          institution: string | null
+          opening_balance: number
+          currency: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          type?: string
+          institution?: string | null
+          opening_balance?: number
+          currency?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          type?: string
+          institution?: string | null
+          opening_balance?: number
+          currency?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -206,9 +742,11 @@ export interface Database {
       [_ in never]: never
     }
     Enums: {
-      transaction_type: 'income' | 'expense'
+      transaction_type: 'income' | 'expense' | 'transfer'
       goal_type: 'savings' | 'debt_payoff' | 'investment' | 'emergency_fund' | 'major_purchase' | 'retirement' | 'custom'
       goal_priority: 'low' | 'medium' | 'high' | 'critical'
+      debt_type: 'credit_card' | 'student_loan' | 'personal_loan' | 'mortgage' | 'auto_loan' | 'other'
+      account_type: 'checking' | 'savings' | 'credit_card' | 'cash' | 'investment' | 'other'
     }
   }
 }
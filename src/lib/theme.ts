@@ -0,0 +1,47 @@
+import { ResolvedTheme } from '@/types'
+
+// Light and dark themes. The ThemeProvider puts the "dark" class on <html> for Tailwind's dark:
+// variants and remembers the theme in the browser, so the script below can apply it before
+// the page paints instead of flashing the light theme while the preferences load.
+
+export const THEME_STORAGE_KEY = 'financeai-theme'
+export const DARK_MODE_QUERY = '(prefers-color-scheme: dark)'
+
+// Runs in <head> before anything renders
+export const THEME_SCRIPT = `try {
+  var theme = localStorage.getItem('${THEME_STORAGE_KEY}');
+  if (theme === 'dark' || (theme === 'system' && window.matchMedia('${DARK_MODE_QUERY}').matches)) {
+    document.documentElement.classList.add('dark');
+  }
+} catch (e) {}`
+
+// Colors the Recharts components draw with; lighter in the dark theme to keep their contrast
+// on dark cards
+
+export interface ChartPalette {
+  income: string
+  expense: string
+  net: string
+  grid: string
+  axis: string
+  outline: string // Border of the selected pie slice
+}
+
+export const CHART_PALETTES: Record<ResolvedTheme, ChartPalette> = {
+  light: {
+    income: '#10b981',
+    expense: '#ef4444',
+    net: '#6366f1',
+    grid: '#e2e8f0',
+    axis: '#64748b',
+    outline: '#1f2937'
+  },
+  dark: {
+    income: '#34d399',
+    expense: '#f87171',
+    net: '#818cf8',
+    grid: '#334155',
+    axis: '#94a3b8',
+    outline: '#f1f5f9'
+  }
+}
@@ -0,0 +1,72 @@
+import { Transaction, TransferMatch } from '@/types'
+
+// Transfers move money between the user's own accounts, so they are never income or expenses
+
+export const TRANSFER_CATEGORY = 'Transfer'
+
+// Statement lines this many days apart can still be the two sides of one transfer
+export const TRANSFER_MATCH_DAYS = 3
+
+export type CashFlowTransaction = Transaction & { type: 'income' | 'expense' }
+
+export const isTransfer = (transaction: Pick<Transaction, 'type'>): boolean => transaction.type === 'transfer'
+
+// Income and expense transactions only
+export const excludeTransfers = <T extends Transaction>(transactions: T[]): Array<T & CashFlowTransaction> =>
+  transactions.filter((t): t is T & CashFlowTransaction => t.type !== 'transfer')
+
+// Single transfer recorded in place of an outgoing and an incoming statement line
+export const combineIntoTransfer = (outgoing: Transaction, incoming: Transaction): Omit<Transaction, 'id'> => ({
+  date: outgoing.date,
+  description: outgoing.description,
+  category: TRANSFER_CATEGORY,
+  amount: outgoing.amount,
+  ...(outgoing.currency && { currency: outgoing.currency, originalAmount: outgoing.originalAmount }),
+  type: 'transfer',
+  accountId: outgoing.accountId,
+  transferAccountId: incoming.accountId
+})
+
+// Whether two lines look like the two sides of one transfer: opposite directions in different
+// accounts, the same amount and close dates
+const isTransferPair = (a: Transaction, b: Transaction): boolean => {
+  if (!a.accountId || !b.accountId || a.accountId === b.accountId) return false
+  if (a.type === 'transfer' || b.type === 'transfer' || a.type === b.type) return false
+  if (Math.abs(a.amount - b.amount) >= 0.01) return false
+
+  const daysApart = Math.abs(a.date.getTime() - b.date.getTime()) / (24 * 60 * 60 * 1000)
+  return daysApart <= TRANSFER_MATCH_DAYS
+}
+
+/**
+ * Find imported lines that pair up with another imported line, or with an existing
+ * transaction, as the two sides of a transfer. Each line is used in at most one match.
+ */
+export const findTransferMatches = (imported: Transaction[], existing: Transaction[]): TransferMatch[] => {
+  const matches: TransferMatch[] = []
+  const used = new Set<string>()
+
+  for (const line of imported) {
+    if (used.has(line.id)) continue
+
+    const importedPair = imported.find(other => other.id !== line.id && !used.has(other.id) && isTransferPair(line, other))
+    const existingPair = importedPair
+      ? undefined
+      : existing.find(other => !used.has(other.id) && isTransferPair(line, other))
+    const pair = importedPair || existingPair
+    if (!pair) continue
+
+    const [outgoing, incoming] = line.type === 'expense' ? [line, pair] : [pair, line]
+    used.add(line.id)
+    used.add(pair.id)
+
+    matches.push({
+      id: `transfer_${line.id}`,
+      transfer: combineIntoTransfer(outgoing, incoming),
+      imported: importedPair ? [line, importedPair] : [line],
+      existingTransactionId: existingPair?.id
+    })
+  }
+
+  return matches
+}
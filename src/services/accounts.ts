@@ -0,0 +1,151 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { Account } from '@/types'
+
+export interface DatabaseAccount {
+  id: string
+  user_id: string
+  name: string
+  type: string
+  institution: string | null
+  opening_balance: number
+  currency: string
+  created_at: string
+  updated_at: string
+}
+
+// Convert database account to app account
+const mapDatabaseToAccount = (dbAccount: DatabaseAccount): Account => ({
+  id: dbAccount.id,
+  name: dbAccount.name,
+  type: dbAccount.type as Account['type'],
+  institution: dbAccount.institution ?? undefined,
+  openingBalance: dbAccount.opening_balance,
+  currency: dbAccount.currency,
+  createdAt: new Date(dbAccount.created_at),
+  updatedAt: new Date(dbAccount.updated_at)
+})
+
+// Convert app account to database format
+const mapAccountToDatabase = (account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>, userId: string) => ({
+  user_id: userId,
+  name: account.name,
+  type: account.type,
+  institution: account.institution || null,
+  opening_balance: account.openingBalance,
+  currency: account.currency
+})
+
+export class AccountService {
+  // Get all accounts for the current user
+  static async getAccounts(): Promise<Account[]> {
+    try {
+      console.log('AccountService: Getting accounts...')
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        console.log('AccountService: No authenticated user')
+        return []
+      }
+
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('*')
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('AccountService: Error fetching accounts:', error)
+        // Return empty array instead of throwing to handle missing table gracefully
+        return []
+      }
+
+      console.log('AccountService: Fetched accounts:', data?.length || 0)
+      return (data as unknown as DatabaseAccount[])?.map(mapDatabaseToAccount) || []
+    } catch (error) {
+      console.error('AccountService: Error in getAccounts:', error)
+      return []
+    }
+  }
+
+  // Add a new account
+  static async addAccount(account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>): Promise<Account> {
+    try {
+      console.log('AccountService: Adding account:', account)
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      const { data, error } = await supabase
+        .from('accounts')
+        .insert([mapAccountToDatabase(account, user.id)])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('AccountService: Database error:', error)
+        throw new Error(`Failed to add account: ${error.message}`)
+      }
+
+      console.log('AccountService: Account added successfully:', data)
+      return mapDatabaseToAccount(data as unknown as DatabaseAccount)
+    } catch (error) {
+      console.error('AccountService: Error in addAccount:', error)
+      throw error
+    }
+  }
+
+  // Update an account
+  static async updateAccount(id: string, updates: Partial<Omit<Account, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Account> {
+    try {
+      const updateData: any = {}
+
+      if (updates.name !== undefined) updateData.name = updates.name
+      if (updates.type !== undefined) updateData.type = updates.type
+      if ('institution' in updates) updateData.institution = updates.institution || null
+      if (updates.openingBalance !== undefined) updateData.opening_balance = updates.openingBalance
+      if (updates.currency !== undefined) updateData.currency = updates.currency
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('accounts')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating account:', error)
+        throw new Error(`Failed to update account: ${error.message}`)
+      }
+
+      return mapDatabaseToAccount(data as unknown as DatabaseAccount)
+    } catch (error) {
+      console.error('Error in updateAccount:', error)
+      throw error
+    }
+  }
+
+  // Delete an account (its transactions are kept without an account)
+  static async deleteAccount(id: string): Promise<void> {
+    try {
+      const supabase = createSupabaseClient()
+      const { error } = await supabase
+        .from('accounts')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting account:', error)
+        throw new Error(`Failed to delete account: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error in deleteAccount:', error)
+      throw error
+    }
+  }
+}
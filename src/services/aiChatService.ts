@@ -1,5 +1,6 @@
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import { Transaction, Budget, ChatMessage, ChatResponse, ChatOptions, FinancialContext, ChatConversation } from '@/types'
+import { DEFAULT_PREFERENCES, createFormatters } from '@/lib/formatting'
 
 /**
  * Enhanced AI Chat Service using Google Gemini
@@ -107,13 +108,15 @@ class AIChatService {
     options: ChatOptions
   ): string {
     const conversationHistory = this.getConversationHistory(options.conversationId, options.maxContextMessages)
+    // Runs on the server, so the user's preferences come with the context rather than from the browser
+    const { formatCurrency, formatDate } = createFormatters(financialContext.preferences || DEFAULT_PREFERENCES)
     
     return `You are an expert personal financial advisor with access to the user's real financial data. Your role is to provide personalized, actionable financial advice in a conversational, friendly tone.
 
 **FINANCIAL CONTEXT:**
-- Total Income: $${financialContext.totalIncome.toFixed(2)}
-- Total Expenses: $${financialContext.totalExpenses.toFixed(2)}
-- Net Income: $${financialContext.netIncome.toFixed(2)}
+- Total Income: ${formatCurrency(financialContext.totalIncome)}
+- Total Expenses: ${formatCurrency(financialContext.totalExpenses)}
+- Net Income: ${formatCurrency(financialContext.netIncome)}
 - Savings Rate: ${financialContext.savingsRate.toFixed(1)}%
 - Total Transactions: ${financialContext.transactions.length}
 
@@ -121,18 +124,18 @@ class AIChatService {
 ${Object.entries(financialContext.categoryBreakdown)
   .sort(([,a], [,b]) => b - a)
   .slice(0, 5)
-  .map(([category, amount]) => `- ${category}: $${amount.toFixed(2)}`)
+  .map(([category, amount]) => `- ${category}: ${formatCurrency(amount)}`)
   .join('\n')}
 
 **RECENT TRANSACTIONS (Last 5):**
 ${financialContext.recentTransactions.slice(0, 5).map(t => 
-  `- ${t.date.toLocaleDateString()}: ${t.description} - $${t.amount.toFixed(2)} (${t.category})`
+  `- ${formatDate(t.date)}: ${t.description} - ${formatCurrency(t.amount)} (${t.category})`
 ).join('\n')}
 
 **BUDGET PERFORMANCE:**
 ${financialContext.budgetPerformance
   .filter(bp => isFinite(bp.spent) && isFinite(bp.budgeted))
-  .map(bp => `- ${bp.category}: ${isFinite(bp.percentageUsed) ? bp.percentageUsed.toFixed(1) : '0.0'}% used ($${bp.spent.toFixed(2)}/$${bp.budgeted.toFixed(2)})`)
+  .map(bp => `- ${bp.category}: ${isFinite(bp.percentageUsed) ? bp.percentageUsed.toFixed(1) : '0.0'}% used (${formatCurrency(bp.spent)}/${formatCurrency(bp.budgeted)})`)
   .join('\n')}
 
 ${conversationHistory ? `**CONVERSATION HISTORY:**\n${conversationHistory}\n` : ''}
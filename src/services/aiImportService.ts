@@ -1,6 +1,42 @@
 import { GoogleGenerativeAI } from '@google/generative-ai'
-import { Transaction, ImportResult, FileProcessingResult, AIParseResponse, ValidationResult, ImportOptions } from '@/types'
+import { Transaction, ImportResult, FileProcessingResult, AIParseResponse, ValidationResult, ImportOptions, ImportProgress, DuplicateMatch } from '@/types'
 import { ocrService } from './ocrService'
+import { findTransferMatches } from '@/lib/transfers'
+import { getRuleCategory } from '@/lib/categorizationRules'
+import { classifyFromCorrections, getFewShotExamples } from '@/lib/categoryLearning'
+import { UNCATEGORIZED_CATEGORY } from '@/lib/categories'
+import { ParsedStatement, StatementLine, isStatementFile, parseStatement } from '@/lib/statementParsers'
+import { isCSVFile, matchesMapping, parseMappedCSV } from '@/lib/csvMapping'
+import { mapWithConcurrency, mergeChunkTransactions, splitIntoChunks } from '@/lib/importChunks'
+import { DUPLICATE_SCORE, findDuplicateMatch } from '@/lib/duplicates'
+import { BalanceChanges, PdfPageLayout, PdfTextItem, getBalanceChanges, matchBalanceChanges, reconstructPage } from '@/lib/pdfTables'
+
+// Earlier review choices included in the prompt, most frequent first
+const FEW_SHOT_EXAMPLE_LIMIT = 20
+
+// Statement lines the file didn't categorize are flagged for review
+const STATEMENT_UNCATEGORIZED_CONFIDENCE = 0.5
+
+// Content above this many characters is parsed in chunks of at most this size
+const MAX_CHUNK_SIZE = 40000 // 40KB, ~10k tokens - well inside a single request's limits
+
+// Chunks parsed at the same time; more runs into Gemini's rate limits
+const MAX_CONCURRENT_CHUNKS = 2
+
+// A year of daily statements is a few dozen chunks; beyond this the file is likely not a statement
+const MAX_CHUNKS = 60
+
+// PDF pages with less text than this are taken to be scanned images and read with OCR
+const MIN_PDF_PAGE_TEXT = 20
+
+// Scanned PDF pages are rendered at this scale for OCR (72dpi x 2)
+const PDF_OCR_SCALE = 2
+
+// Balance changes needed before a PDF's amounts are checked against its running balance
+const MIN_BALANCE_CHANGES = 3
+
+// Transactions the running balance doesn't account for are flagged for review
+const UNVERIFIED_BALANCE_CONFIDENCE = 0.5
 
 /**
  * AI-Powered Import Service using Google Gemini
@@ -23,7 +59,11 @@ class AIImportService {
   /**
    * Process multiple files for transaction import
    */
-  async processFiles(files: File[], options: ImportOptions = {}): Promise<ImportResult> {
+  async processFiles(
+    files: File[],
+    options: ImportOptions = {},
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportResult> {
     const result: ImportResult = {
       transactions: [],
       errors: [],
@@ -33,11 +73,29 @@ class AIImportService {
         successfullyParsed: 0,
         failed: 0,
         duplicatesFound: 0
-      }
+      },
+      fileNames: files.map(file => file.name),
+      options
     }
 
     for (const file of files) {
       try {
+        // OFX, QFX and QIF follow a published format and are parsed locally, without the AI
+        if (isStatementFile(file.name)) {
+          this.addStatement(result, parseStatement(await file.text(), file.name, options), file.name, options)
+          continue
+        }
+
+        // CSV files with the mapped columns are read through the mapping; other CSVs go to the AI
+        if (options.csvMapping && isCSVFile(file.name)) {
+          const content = await file.text()
+          if (matchesMapping(content, options.csvMapping)) {
+            this.addStatement(result, parseMappedCSV(content, options.csvMapping, options.categoryMapping), file.name, options)
+            continue
+          }
+          result.warnings.push(`${file.name}: columns don't match the column mapping, so the file was parsed with AI`)
+        }
+
         // Extract content from file
         const extractResult = await this.extractFileContent(file)
         
@@ -47,35 +105,30 @@ class AIImportService {
           continue
         }
 
-        // Validate request size before processing
-        const sizeValidation = this.validateRequestSize(extractResult.content, file.name)
-        if (!sizeValidation.isValid) {
-          result.errors.push(`${file.name}: ${sizeValidation.error}`)
-          if (sizeValidation.warning) {
-            result.warnings.push(`${file.name}: ${sizeValidation.warning}`)
-          }
-          result.summary.failed++
-          continue
-        }
+        // Parse content with AI, in chunks when it is too large for one request
+        const aiResult = await this.parseInChunks(extractResult.content, file.name, options, onProgress)
 
-        if (sizeValidation.warning) {
-          result.warnings.push(`${file.name}: ${sizeValidation.warning}`)
-        }
-
-        // Parse content with AI
-        const aiResult = await this.parseWithAI(extractResult.content, file.name, options)
-        
-        // Add transactions to result
-        result.transactions.push(...aiResult.transactions.map(t => ({
+        const transactions: Transaction[] = aiResult.transactions.map(t => ({
           id: this.generateImportId(),
           date: new Date(t.date),
           description: t.description,
           amount: Math.abs(t.amount),
-          category: t.category,
-          type: t.type
-        })))
+          ...this.categorize(t, options),
+          type: t.type,
+          accountId: options.accountId,
+          currency: options.currency
+        }))
+
+        // PDF statements with a running balance show which amounts were read right
+        if (extractResult.balanceChanges && extractResult.balanceChanges.length >= MIN_BALANCE_CHANGES) {
+          this.verifyBalances(result, transactions, extractResult.balanceChanges, extractResult.openingRows || [], file.name)
+        }
+
+        // Add transactions to result
+        result.transactions.push(...transactions)
 
         result.errors.push(...aiResult.errors)
+        result.warnings.push(...(extractResult.warnings || []).map(warning => `${file.name}: ${warning}`))
         result.warnings.push(...aiResult.warnings)
         result.summary.successfullyParsed++
 
@@ -91,7 +144,11 @@ class AIImportService {
   /**
    * Process text input for transaction import
    */
-  async processText(text: string, options: ImportOptions = {}): Promise<ImportResult> {
+  async processText(
+    text: string,
+    options: ImportOptions = {},
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportResult> {
     const result: ImportResult = {
       transactions: [],
       errors: [],
@@ -101,34 +158,23 @@ class AIImportService {
         successfullyParsed: 0,
         failed: 0,
         duplicatesFound: 0
-      }
+      },
+      fileNames: ['Pasted text'],
+      options
     }
 
     try {
-      // Validate request size before processing
-      const sizeValidation = this.validateRequestSize(text, 'text-input')
-      if (!sizeValidation.isValid) {
-        result.errors.push(sizeValidation.error!)
-        if (sizeValidation.warning) {
-          result.warnings.push(sizeValidation.warning)
-        }
-        result.summary.failed = 1
-        return result
-      }
-
-      if (sizeValidation.warning) {
-        result.warnings.push(sizeValidation.warning)
-      }
-
-      const aiResult = await this.parseWithAI(text, 'text-input', options)
+      const aiResult = await this.parseInChunks(text, 'text-input', options, onProgress)
       
       result.transactions = aiResult.transactions.map(t => ({
         id: this.generateImportId(),
         date: new Date(t.date),
         description: t.description,
         amount: Math.abs(t.amount),
-        category: t.category,
-        type: t.type
+        ...this.categorize(t, options),
+        type: t.type,
+        accountId: options.accountId,
+        currency: options.currency
       }))
 
       result.errors = aiResult.errors
@@ -167,9 +213,14 @@ class AIImportService {
           result.content = await file.text()
           break
           
-        case 'pdf':
-          result.content = await this.extractPDFContent(file)
+        case 'pdf': {
+          const pdf = await this.extractPDFContent(file)
+          result.content = pdf.content
+          result.balanceChanges = pdf.balanceChanges.changes
+          result.openingRows = pdf.balanceChanges.openingRows
+          result.warnings = pdf.warnings
           break
+        }
           
         case 'jpg':
         case 'jpeg':
@@ -191,9 +242,10 @@ class AIImportService {
   }
 
   /**
-   * Extract text content from PDF files using PDF.js
+   * Extract text content from PDF files using PDF.js. Text is laid out by position so statement
+   * tables keep their rows and columns, and pages that are scanned images are read with OCR.
    */
-  private async extractPDFContent(file: File): Promise<string> {
+  private async extractPDFContent(file: File): Promise<{ content: string; balanceChanges: BalanceChanges; warnings: string[] }> {
     try {
       // Check if we're in a browser environment
       if (typeof window === 'undefined') {
@@ -202,51 +254,84 @@ class AIImportService {
 
       // Dynamically import PDF.js to avoid SSR issues
       const pdfjsLib = await import('pdfjs-dist')
-      
+
       // Configure PDF.js worker for Next.js with environment check
       if (typeof window !== 'undefined') {
         pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`
       }
-      
+
       // Convert file to ArrayBuffer
       const arrayBuffer = await file.arrayBuffer()
-      
+
       // Load the PDF document
       const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
-      
-      let extractedText = ''
-      
+
+      const pages: PdfPageLayout[] = []
+      const scannedPages: number[] = []
+      const warnings: string[] = []
+      let ocrError: Error | undefined
+
       // Extract text from each page
       for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
         const page = await pdf.getPage(pageNum)
         const textContent = await page.getTextContent()
-        
-        // Combine text items into readable format
-        const pageText = textContent.items
-          .map((item: any) => item.str)
-          .join(' ')
-          .replace(/\s+/g, ' ') // Normalize whitespace
-          .trim()
-        
-        if (pageText) {
-          extractedText += pageText + '\n\n'
+        const viewport = page.getViewport({ scale: 1 })
+
+        // PDF coordinates start at the bottom of the page; items are measured from the top
+        const items: PdfTextItem[] = textContent.items
+          .filter((item: any) => typeof item.str === 'string')
+          .map((item: any) => ({
+            text: item.str,
+            x: item.transform[4],
+            y: viewport.height - item.transform[5] - item.height,
+            width: item.width,
+            height: item.height
+          }))
+
+        const layout = reconstructPage(items)
+        if (layout.text.replace(/\s/g, '').length >= MIN_PDF_PAGE_TEXT) {
+          pages.push(layout)
+          continue
+        }
+
+        // Little or no text: the page is an image of a statement, or blank
+        try {
+          const ocr = await this.readScannedPage(page, `${file.name} page ${pageNum}`)
+          if (ocr.text.trim()) {
+            scannedPages.push(pageNum)
+            if (ocr.confidence < 0.5) {
+              warnings.push(`Page ${pageNum} was hard to read (${Math.round(ocr.confidence * 100)}% OCR confidence)`)
+            }
+          }
+          pages.push({ text: ocr.text.trim(), rows: [] })
+        } catch (error) {
+          ocrError = error instanceof Error ? error : new Error('OCR failed')
+          pages.push({ text: layout.text, rows: [] })
         }
       }
-      
+
+      const extractedText = pages.map(page => page.text).filter(Boolean).join('\n\n')
       if (!extractedText.trim()) {
-        throw new Error('No text content found in PDF. This might be a scanned document that requires OCR.')
+        throw ocrError || new Error('No text content found in PDF, including on scanned pages.')
       }
-      
-      return extractedText.trim()
-      
+      if (ocrError) {
+        warnings.push(`Some pages look scanned and couldn't be read: ${ocrError.message}`)
+      }
+
+      if (scannedPages.length > 0) {
+        warnings.push(`${scannedPages.length === 1 ? 'Page' : 'Pages'} ${scannedPages.join(', ')} read with OCR. Check the amounts.`)
+      }
+
+      return { content: extractedText.trim(), balanceChanges: getBalanceChanges(pages), warnings }
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      
+
       // Provide helpful error messages
       if (errorMessage.includes('Invalid PDF') || errorMessage.includes('corrupted')) {
         throw new Error('Invalid or corrupted PDF file. Please check the file and try again.')
-      } else if (errorMessage.includes('OCR')) {
-        throw new Error('This PDF appears to be a scanned document. OCR functionality is coming soon - for now, please copy the text manually.')
+      } else if (errorMessage.includes('OCR is not supported')) {
+        throw new Error('This PDF appears to be a scanned document, and OCR is not supported in this browser. Please use a modern browser or copy the text manually.')
       } else if (errorMessage.includes('browser environment')) {
         throw new Error('PDF processing is only available on the client side. Please try again.')
       } else {
@@ -255,6 +340,71 @@ class AIImportService {
     }
   }
 
+  /**
+   * Render a PDF page to an image and read it with OCR
+   */
+  private async readScannedPage(page: any, name: string): Promise<{ text: string; confidence: number }> {
+    if (!ocrService.isSupported()) {
+      throw new Error('OCR is not supported in this browser')
+    }
+
+    const viewport = page.getViewport({ scale: PDF_OCR_SCALE })
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.ceil(viewport.width)
+    canvas.height = Math.ceil(viewport.height)
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas is not available to render the scanned page')
+    }
+
+    await page.render({ canvasContext: context, canvas, viewport }).promise
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+    if (!blob) {
+      throw new Error('Failed to render the scanned page')
+    }
+
+    const result = await ocrService.processImage(new File([blob], `${name}.png`, { type: 'image/png' }))
+    return { text: result.text, confidence: result.confidence }
+  }
+
+  /**
+   * Check transactions read from a PDF against the changes of its running balance. Amounts
+   * the balance never moved by are flagged for review, and balance changes without a
+   * transaction point at rows the AI missed. The row each run of balances opens with has no
+   * earlier balance, so its amount isn't flagged.
+   */
+  private verifyBalances(
+    result: ImportResult,
+    transactions: Transaction[],
+    balanceChanges: number[],
+    openingRows: number[][],
+    fileName: string
+  ) {
+    const { unmatched, missing } = matchBalanceChanges(transactions.map(t => t.amount), balanceChanges, openingRows)
+
+    unmatched.forEach(index => {
+      const transaction = transactions[index]
+      if (transaction) {
+        transaction.confidence = Math.min(transaction.confidence ?? 1, UNVERIFIED_BALANCE_CONFIDENCE)
+      }
+    })
+
+    if (unmatched.length > 0) {
+      const descriptions = unmatched.slice(0, 5).map(index => transactions[index]?.description).join(', ')
+      result.warnings.push(
+        `${fileName}: ${unmatched.length} ${unmatched.length === 1 ? 'transaction doesn\'t' : 'transactions don\'t'} match the running balance ` +
+        `(${descriptions}${unmatched.length > 5 ? ` and ${unmatched.length - 5} more` : ''}). Check the amounts.`
+      )
+    }
+    if (missing.length > 0) {
+      const amounts = missing.slice(0, 5).map(amount => amount.toFixed(2)).join(', ')
+      result.warnings.push(
+        `${fileName}: the running balance changes by ${amounts}${missing.length > 5 ? ` and ${missing.length - 5} more` : ''} ` +
+        'with no matching transaction. Some rows may have been missed.'
+      )
+    }
+  }
+
   /**
    * Extract text content from images using OCR
    */
@@ -370,6 +520,69 @@ class AIImportService {
     throw new Error('Unexpected error in retry logic')
   }
 
+  /**
+   * Parse content with the AI, splitting content too large for one request into page- or
+   * row-aligned chunks. Chunks run a few at a time, each with parseWithAI's retries, and
+   * their transactions are merged without the lines read twice where chunks meet.
+   */
+  private async parseInChunks(
+    content: string,
+    source: string,
+    options: ImportOptions,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<AIParseResponse> {
+    const startTime = Date.now()
+    const chunks = splitIntoChunks(content, MAX_CHUNK_SIZE, isCSVFile(source))
+
+    if (chunks.length > MAX_CHUNKS) {
+      return {
+        transactions: [],
+        errors: [`File is too large to process (${Math.round(content.length / 1000)}KB). Maximum supported size is ${Math.round(MAX_CHUNKS * MAX_CHUNK_SIZE / 1000)}KB. Consider breaking the file into smaller parts.`],
+        warnings: [],
+        metadata: { totalFound: 0, processingTime: Date.now() - startTime, model: 'gemini-1.5-flash' }
+      }
+    }
+
+    if (chunks.length === 1) {
+      return this.parseWithAI(content, source, options)
+    }
+
+    const statuses: ImportProgress['chunks'] = chunks.map(() => 'pending')
+    const report = (index: number, status: ImportProgress['chunks'][number]) => {
+      statuses[index] = status
+      onProgress?.({ fileName: source, chunks: [...statuses] })
+    }
+
+    console.log(`AIImportService: Parsing ${source} in ${chunks.length} chunks`)
+    const responses = await mapWithConcurrency(chunks, MAX_CONCURRENT_CHUNKS, async chunk => {
+      report(chunk.index, 'processing')
+      const response = await this.parseWithAI(chunk.content, source, options)
+      report(chunk.index, response.transactions.length === 0 && response.errors.length > 0 ? 'failed' : 'done')
+      return response
+    })
+
+    const { transactions, duplicatesRemoved } = mergeChunkTransactions(responses.map(response => response.transactions))
+    const label = (index: number) => `Part ${index + 1} of ${chunks.length}`
+    const warnings = [
+      `Large file split into ${chunks.length} parts for processing`,
+      ...responses.flatMap((response, index) => response.warnings.map(warning => `${label(index)}: ${warning}`))
+    ]
+    if (duplicatesRemoved > 0) {
+      warnings.push(`Removed ${duplicatesRemoved} transaction${duplicatesRemoved === 1 ? '' : 's'} read twice where parts meet`)
+    }
+
+    return {
+      transactions,
+      errors: responses.flatMap((response, index) => response.errors.map(error => `${label(index)}: ${error}`)),
+      warnings,
+      metadata: {
+        totalFound: transactions.length,
+        processingTime: Date.now() - startTime,
+        model: 'gemini-1.5-flash'
+      }
+    }
+  }
+
   /**
    * Check if an error is retryable (temporary server issues)
    */
@@ -400,12 +613,93 @@ class AIImportService {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
 
+  /**
+   * Category for a parsed transaction: the first of the user's rules that matches it, then
+   * the category the user chose for the same merchant in an earlier review, otherwise the
+   * category the AI picked. Known merchants are imported with at least the learned confidence.
+   */
+  private categorize(
+    transaction: AIParseResponse['transactions'][number],
+    options: ImportOptions
+  ): { category: string; confidence: number } {
+    const ruleCategory = options.rules && getRuleCategory(options.rules, {
+      description: transaction.description,
+      amount: Math.abs(transaction.amount),
+      type: transaction.type,
+      accountId: options.accountId
+    })
+    if (ruleCategory) {
+      return { category: ruleCategory, confidence: 1 }
+    }
+
+    const learned = options.corrections && classifyFromCorrections(transaction.description, options.corrections)
+    if (learned) {
+      return { category: learned.category, confidence: Math.max(transaction.confidence ?? 0, learned.confidence) }
+    }
+
+    return { category: this.matchCategory(transaction.category, options), confidence: transaction.confidence }
+  }
+
+  /**
+   * Add a locally parsed file to the import result
+   */
+  private addStatement(result: ImportResult, statement: ParsedStatement, fileName: string, options: ImportOptions): void {
+    result.transactions.push(...statement.transactions.map(line => this.mapStatementLine(line, options)))
+    result.errors.push(...statement.errors.map(error => `${fileName}: ${error}`))
+    result.warnings.push(...statement.warnings.map(warning => `${fileName}: ${warning}`))
+    if (statement.transactions.length > 0) {
+      result.summary.successfullyParsed++
+    } else {
+      result.summary.failed++
+    }
+  }
+
+  /**
+   * Turn a locally parsed statement line into an imported transaction
+   */
+  private mapStatementLine(line: StatementLine, options: ImportOptions): Transaction {
+    return {
+      id: this.generateImportId(),
+      date: new Date(line.date),
+      description: line.description,
+      amount: line.amount,
+      ...this.categorize({
+        ...line,
+        category: line.category || UNCATEGORIZED_CATEGORY,
+        confidence: line.category ? 1 : STATEMENT_UNCATEGORIZED_CONFIDENCE
+      }, options),
+      type: line.type,
+      accountId: options.accountId,
+      currency: options.currency,
+      externalId: line.externalId
+    }
+  }
+
+  /**
+   * Spell a parsed category the way the user's category list does, so "food & dining"
+   * doesn't become a category of its own. Unknown names are kept for the user to review.
+   */
+  private matchCategory(category: string, options: ImportOptions): string {
+    const key = category.trim().toLowerCase()
+    return options.categories?.find(name => name.toLowerCase() === key) || category
+  }
+
   /**
    * Build the AI prompt for transaction parsing
    */
   private buildPrompt(content: string, options: ImportOptions): string {
     const dateFormat = options.dateFormat === 'auto' ? 'any common format' : options.dateFormat || 'any common format'
     const currency = options.currency || 'USD'
+    const categoryRule = options.categories?.length
+      ? `Assign each transaction exactly one of these categories: ${options.categories.join(', ')}`
+      : 'Categorize transactions appropriately (Food & Dining, Transportation, Income, etc.)'
+    // Categories the user picked for earlier imports, so the same merchants are categorized the same way
+    const examples = getFewShotExamples(options.corrections || [], FEW_SHOT_EXAMPLE_LIMIT)
+    const examplesSection = examples.length
+      ? `\nThe user categorized these transactions before. Categorize similar ones the same way:\n${examples
+        .map(e => `- "${e.description}" → ${e.category}`)
+        .join('\n')}\n`
+      : ''
     
     return `You are a financial data parser. Parse the following financial data and extract transactions.
 
@@ -429,11 +723,12 @@ Rules:
 1. Extract ALL financial transactions you can identify
 2. Convert dates to YYYY-MM-DD format (expected input format: ${dateFormat})
 3. Use positive numbers for amounts (we'll handle income/expense in the type field)
-4. Categorize transactions appropriately (Food & Dining, Transportation, Income, etc.)
+4. ${categoryRule}
 5. Set confidence between 0.0 and 1.0 based on how certain you are about the parsing
 6. If you can't parse something, add it to errors array
 7. Currency: ${currency}
-
+8. Table rows may have their cells separated by " | ", one cell per column; a running balance column is not a transaction amount
+${examplesSection}
 Data to parse:
 ${content}
 
@@ -495,35 +790,49 @@ Remember: Respond ONLY with the JSON object, no additional text.`
     const valid: Transaction[] = []
     const duplicates: Transaction[] = []
     const conflicts: Transaction[] = []
+    const matches: Record<string, DuplicateMatch> = {}
     const errors: string[] = []
     const warnings: string[] = []
+    const importedExternalIds = new Set<string>()
+    // Existing transactions already matched to an imported line
+    const claimedIds = new Set<string>()
 
     for (const imported of importedTransactions) {
       try {
-        // Check for exact duplicates
-        const exactDuplicate = existingTransactions.find(existing =>
-          existing.date.toDateString() === imported.date.toDateString() &&
-          existing.description.toLowerCase() === imported.description.toLowerCase() &&
-          Math.abs(existing.amount - imported.amount) < 0.01
-        )
+        // Statement lines the bank identified are duplicates when that id was imported before,
+        // into the same account or earlier in this import
+        if (imported.externalId) {
+          if (importedExternalIds.has(imported.externalId)) {
+            duplicates.push(imported)
+            continue
+          }
+          const sameLine = existingTransactions.find(existing =>
+            existing.externalId === imported.externalId && existing.accountId === imported.accountId
+          )
+          if (sameLine) {
+            duplicates.push(imported)
+            matches[imported.id] = { existing: sameLine, score: 1 }
+            claimedIds.add(sameLine.id)
+            continue
+          }
+          importedExternalIds.add(imported.externalId)
+        }
 
-        if (exactDuplicate) {
-          duplicates.push(imported)
+        // Lines close in date, amount and merchant to an existing transaction are likely repeats
+        const match = findDuplicateMatch(imported, existingTransactions, claimedIds)
+
+        if (!match) {
+          valid.push(imported)
           continue
         }
 
-        // Check for potential conflicts (same date/description, different amount)
-        const conflict = existingTransactions.find(existing =>
-          existing.date.toDateString() === imported.date.toDateString() &&
-          existing.description.toLowerCase().includes(imported.description.toLowerCase().substring(0, 10)) &&
-          Math.abs(existing.amount - imported.amount) >= 0.01
-        )
-
-        if (conflict) {
-          conflicts.push(imported)
-          warnings.push(`Potential conflict found for transaction: ${imported.description}`)
+        matches[imported.id] = match
+        claimedIds.add(match.existing.id)
+        if (match.score >= DUPLICATE_SCORE) {
+          duplicates.push(imported)
         } else {
-          valid.push(imported)
+          conflicts.push(imported)
+          warnings.push(`Possible duplicate (${Math.round(match.score * 100)}% similar) found for transaction: ${imported.description}`)
         }
 
       } catch (error) {
@@ -531,49 +840,21 @@ Remember: Respond ONLY with the JSON object, no additional text.`
       }
     }
 
+    // Lines that pair up with a line in another account are one transfer, not income and expense
+    const transfers = findTransferMatches(valid, existingTransactions)
+    const transferLineIds = new Set(transfers.flatMap(match => match.imported.map(t => t.id)))
+
     return {
-      valid,
+      valid: valid.filter(t => !transferLineIds.has(t.id)),
       duplicates,
       conflicts,
+      transfers,
+      matches,
       errors,
       warnings
     }
   }
 
-  /**
-   * Validate request size to prevent API overload
-   */
-  private validateRequestSize(content: string, source: string): { isValid: boolean; error?: string; warning?: string } {
-    const contentLength = content.length
-    const estimatedTokens = Math.ceil(contentLength / 4) // Rough estimate: 4 chars per token
-
-    // Define size thresholds
-    const MAX_SAFE_SIZE = 50000 // 50KB - safe for most requests
-    const MAX_ALLOWED_SIZE = 200000 // 200KB - absolute maximum
-    const MAX_SAFE_TOKENS = 12000 // Conservative token limit
-    const MAX_ALLOWED_TOKENS = 30000 // Gemini's context window is larger, but we're being conservative
-
-
-
-    // Check absolute limits
-    if (contentLength > MAX_ALLOWED_SIZE || estimatedTokens > MAX_ALLOWED_TOKENS) {
-      return {
-        isValid: false,
-        error: `File is too large to process (${Math.round(contentLength / 1000)}KB, ~${estimatedTokens} tokens). Maximum supported size is ${Math.round(MAX_ALLOWED_SIZE / 1000)}KB. Consider breaking the file into smaller parts.`
-      }
-    }
-
-    // Check if file is large but still processable
-    if (contentLength > MAX_SAFE_SIZE || estimatedTokens > MAX_SAFE_TOKENS) {
-      return {
-        isValid: true,
-        warning: `Large file detected (${Math.round(contentLength / 1000)}KB). Processing may take longer and could fail if Google's servers are busy. Consider processing during off-peak hours for better reliability.`
-      }
-    }
-
-    return { isValid: true }
-  }
-
   /**
    * Generate unique ID for imported transactions
    */
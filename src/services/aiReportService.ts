@@ -1,5 +1,8 @@
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import { Transaction, Budget, AIReport, ReportType, ReportGenerationOptions, ReportAnalysisData, AIReportResponse } from '@/types'
+import { calculateCategoryTotals, getCategoryAmount } from '@/lib/splits'
+import { formatCurrency, formatDateLabel } from '@/lib/formatting'
+import { excludeTransfers } from '@/lib/transfers'
 
 /**
  * AI-Powered Report Service using Google Gemini
@@ -101,13 +104,8 @@ class AIReportService {
       .filter(t => t.type === 'expense')
       .reduce((sum, t) => sum + t.amount, 0)
 
-    // Category breakdown
-    const categoryBreakdown: Record<string, number> = {}
-    filteredTransactions.forEach(t => {
-      if (t.type === 'expense') {
-        categoryBreakdown[t.category] = (categoryBreakdown[t.category] || 0) + t.amount
-      }
-    })
+    // Category breakdown (split transactions count towards each of their categories)
+    const categoryBreakdown = calculateCategoryTotals(filteredTransactions)
 
     // Monthly trends (last 6 months)
     const monthlyTrends = this.calculateMonthlyTrends(filteredTransactions)
@@ -197,21 +195,21 @@ Remember: Respond ONLY with the JSON object, no additional text.`
   private buildMonthlySummaryPrompt(data: ReportAnalysisData): string {
     return `
 DATA ANALYSIS:
-- Total Income: $${data.totalIncome.toFixed(2)}
-- Total Expenses: $${data.totalExpenses.toFixed(2)}
-- Net Income: $${data.netIncome.toFixed(2)}
+- Total Income: ${formatCurrency(data.totalIncome)}
+- Total Expenses: ${formatCurrency(data.totalExpenses)}
+- Net Income: ${formatCurrency(data.netIncome)}
 - Transactions Analyzed: ${data.transactions.length}
 
 TOP SPENDING CATEGORIES:
 ${Object.entries(data.categoryBreakdown)
   .sort(([,a], [,b]) => b - a)
   .slice(0, 5)
-  .map(([category, amount]) => `- ${category}: $${amount.toFixed(2)}`)
+  .map(([category, amount]) => `- ${category}: ${formatCurrency(amount)}`)
   .join('\n')}
 
 MONTHLY TRENDS (Last 6 months):
 ${data.monthlyTrends.map(trend => 
-  `- ${trend.month}: Income $${trend.income.toFixed(2)}, Expenses $${trend.expenses.toFixed(2)}, Net $${trend.net.toFixed(2)}`
+  `- ${trend.month}: Income ${formatCurrency(trend.income)}, Expenses ${formatCurrency(trend.expenses)}, Net ${formatCurrency(trend.net)}`
 ).join('\n')}
 
 Create a comprehensive monthly financial summary that covers:
@@ -231,11 +229,11 @@ Create a comprehensive monthly financial summary that covers:
 SPENDING BREAKDOWN:
 ${Object.entries(data.categoryBreakdown)
   .sort(([,a], [,b]) => b - a)
-  .map(([category, amount]) => `- ${category}: $${amount.toFixed(2)} (${((amount/data.totalExpenses)*100).toFixed(1)}%)`)
+  .map(([category, amount]) => `- ${category}: ${formatCurrency(amount)} (${((amount/data.totalExpenses)*100).toFixed(1)}%)`)
   .join('\n')}
 
 TRANSACTION PATTERNS:
-- Average transaction amount: $${(data.totalExpenses / data.transactions.filter(t => t.type === 'expense').length).toFixed(2)}
+- Average transaction amount: ${formatCurrency(data.totalExpenses / data.transactions.filter(t => t.type === 'expense').length)}
 - Most frequent categories: ${Object.entries(data.categoryBreakdown).sort(([,a], [,b]) => b - a).slice(0, 3).map(([cat]) => cat).join(', ')}
 
 Create a detailed spending analysis that includes:
@@ -254,7 +252,7 @@ Create a detailed spending analysis that includes:
     return `
 BUDGET PERFORMANCE:
 ${data.budgetPerformance.map(bp => 
-  `- ${bp.category}: Budgeted $${bp.budgeted.toFixed(2)}, Spent $${bp.spent.toFixed(2)}, ${bp.percentageUsed.toFixed(1)}% used`
+  `- ${bp.category}: Budgeted ${formatCurrency(bp.budgeted)}, Spent ${formatCurrency(bp.spent)}, ${bp.percentageUsed.toFixed(1)}% used`
 ).join('\n')}
 
 BUDGET SUMMARY:
@@ -319,7 +317,7 @@ Create a comprehensive budget performance analysis that covers:
   }> {
     const monthlyData: Record<string, { income: number; expenses: number }> = {}
     
-    transactions.forEach(t => {
+    excludeTransfers(transactions).forEach(t => {
       const monthKey = t.date.toISOString().substring(0, 7) // YYYY-MM format
       if (!monthlyData[monthKey]) {
         monthlyData[monthKey] = { income: 0, expenses: 0 }
@@ -337,7 +335,7 @@ Create a comprehensive budget performance analysis that covers:
       .slice(0, 6) // Last 6 months
       .reverse() // Oldest first
       .map(([month, data]) => ({
-        month: new Date(month + '-01').toLocaleDateString('en-US', { year: 'numeric', month: 'short' }),
+        month: formatDateLabel(new Date(month + '-01'), { year: 'numeric', month: 'short' }),
         income: data.income,
         expenses: data.expenses,
         net: data.income - data.expenses
@@ -356,8 +354,8 @@ Create a comprehensive budget performance analysis that covers:
   }> {
     return budgets.map(budget => {
       const spent = transactions
-        .filter(t => t.type === 'expense' && t.category === budget.category)
-        .reduce((sum, t) => sum + t.amount, 0)
+        .filter(t => t.type === 'expense')
+        .reduce((sum, t) => sum + getCategoryAmount(t, budget.category), 0)
       
       return {
         category: budget.category,
@@ -0,0 +1,92 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { AttachmentStorageBackend } from '@/types'
+
+/**
+ * Where attachment files are kept. Supabase Storage is the default; self-hosted installs
+ * can set NEXT_PUBLIC_ATTACHMENT_STORAGE=local to keep them on the server's disk through
+ * /api/attachments. Each attachment records its backend, so switching later keeps older
+ * files reachable.
+ */
+
+export interface AttachmentStorage {
+  upload: (path: string, file: File) => Promise<void>
+  getUrl: (path: string) => Promise<string> // Temporary or same-origin URL for previews
+  remove: (paths: string[]) => Promise<void>
+}
+
+// Private bucket created by 016_transaction_attachments.sql
+const ATTACHMENTS_BUCKET = 'attachments'
+
+// How long a preview link to a Supabase file stays valid
+const SIGNED_URL_SECONDS = 60 * 60
+
+export const ATTACHMENT_STORAGE_BACKEND: AttachmentStorageBackend =
+  process.env.NEXT_PUBLIC_ATTACHMENT_STORAGE === 'local' ? 'local' : 'supabase'
+
+const supabaseStorage: AttachmentStorage = {
+  async upload(path, file) {
+    const supabase = createSupabaseClient()
+    const { error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(path, file, { contentType: file.type || undefined })
+
+    if (error) {
+      throw new Error(`Failed to upload attachment: ${error.message}`)
+    }
+  },
+
+  async getUrl(path) {
+    const supabase = createSupabaseClient()
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrl(path, SIGNED_URL_SECONDS)
+
+    if (error || !data) {
+      throw new Error(`Failed to load attachment: ${error?.message || 'No URL returned'}`)
+    }
+    return data.signedUrl
+  },
+
+  async remove(paths) {
+    const supabase = createSupabaseClient()
+    const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths)
+
+    if (error) {
+      throw new Error(`Failed to delete attachment file: ${error.message}`)
+    }
+  }
+}
+
+const diskStorage: AttachmentStorage = {
+  async upload(path, file) {
+    const body = new FormData()
+    body.append('path', path)
+    body.append('file', file)
+
+    const response = await fetch('/api/attachments', { method: 'POST', body })
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}))
+      throw new Error(`Failed to upload attachment: ${result.error || response.statusText}`)
+    }
+  },
+
+  // The route checks the signed-in user's cookie, so a plain same-origin URL works in <img>
+  async getUrl(path) {
+    return `/api/attachments?path=${encodeURIComponent(path)}`
+  },
+
+  async remove(paths) {
+    const response = await fetch('/api/attachments', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ paths })
+    })
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}))
+      throw new Error(`Failed to delete attachment file: ${result.error || response.statusText}`)
+    }
+  }
+}
+
+export const getAttachmentStorage = (backend: AttachmentStorageBackend = ATTACHMENT_STORAGE_BACKEND): AttachmentStorage =>
+  backend === 'local' ? diskStorage : supabaseStorage
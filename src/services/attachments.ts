@@ -0,0 +1,174 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { AttachmentStorageBackend, TransactionAttachment } from '@/types'
+import { ATTACHMENT_STORAGE_BACKEND, getAttachmentStorage } from './attachmentStorage'
+import { ocrService } from './ocrService'
+
+// Largest file that can be attached, the same limit as receipt OCR
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+
+// Receipts and documents: photos and PDFs
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf'
+
+export interface DatabaseTransactionAttachment {
+  id: string
+  user_id: string
+  transaction_id: string
+  file_name: string
+  content_type: string
+  size_bytes: number
+  storage_path: string
+  storage_backend: AttachmentStorageBackend
+  ocr_text: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Convert database attachment to app attachment
+const mapDatabaseToAttachment = (dbAttachment: DatabaseTransactionAttachment): TransactionAttachment => ({
+  id: dbAttachment.id,
+  transactionId: dbAttachment.transaction_id,
+  fileName: dbAttachment.file_name,
+  contentType: dbAttachment.content_type,
+  size: dbAttachment.size_bytes,
+  storagePath: dbAttachment.storage_path,
+  storageBackend: dbAttachment.storage_backend || 'supabase',
+  ocrText: dbAttachment.ocr_text || undefined,
+  createdAt: new Date(dbAttachment.created_at)
+})
+
+// Text of an image attachment for search; attachments without readable text just aren't searchable
+const readAttachmentText = async (file: File): Promise<string | undefined> => {
+  if (!file.type.startsWith('image/') || !ocrService.isSupported()) return undefined
+  try {
+    const { text } = await ocrService.processImage(file)
+    return text || undefined
+  } catch (error) {
+    console.warn('AttachmentService: Could not read text from attachment:', error)
+    return undefined
+  }
+}
+
+export class AttachmentService {
+  // Get the current user's attachments, newest first
+  static async getAttachments(): Promise<TransactionAttachment[]> {
+    try {
+      console.log('AttachmentService: Getting attachments...')
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('transaction_attachments')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('AttachmentService: Error fetching attachments:', error)
+        // Return empty array instead of throwing to handle missing table gracefully
+        return []
+      }
+
+      console.log('AttachmentService: Fetched attachments:', data.length)
+      return (data as unknown as DatabaseTransactionAttachment[]).map(mapDatabaseToAttachment)
+    } catch (error) {
+      console.error('AttachmentService: Error in getAttachments:', error)
+      return []
+    }
+  }
+
+  /**
+   * Store a file under the user's folder and record it against a transaction. Images are
+   * read with OCR unless their text is already known (a scanned receipt). The file is
+   * removed again if it cannot be recorded.
+   */
+  static async uploadAttachment(transactionId: string, file: File, ocrText?: string): Promise<TransactionAttachment> {
+    try {
+      console.log('AttachmentService: Uploading attachment:', file.name)
+
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        throw new Error('Attachments can be at most 10MB')
+      }
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_')
+      const storagePath = `${user.id}/${transactionId}/${Date.now()}-${safeName}`
+      const storage = getAttachmentStorage()
+      const text = ocrText ?? await readAttachmentText(file)
+
+      await storage.upload(storagePath, file)
+
+      const { data, error } = await supabase
+        .from('transaction_attachments')
+        .insert([{
+          user_id: user.id,
+          transaction_id: transactionId,
+          file_name: file.name,
+          content_type: file.type || 'application/octet-stream',
+          size_bytes: file.size,
+          storage_path: storagePath,
+          storage_backend: ATTACHMENT_STORAGE_BACKEND,
+          ocr_text: text || null
+        }])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('AttachmentService: Database error:', error)
+        await storage.remove([storagePath]).catch(() => undefined)
+        throw new Error(`Failed to save attachment: ${error.message}`)
+      }
+
+      return mapDatabaseToAttachment(data as unknown as DatabaseTransactionAttachment)
+    } catch (error) {
+      console.error('AttachmentService: Error in uploadAttachment:', error)
+      throw error
+    }
+  }
+
+  // URL an attachment can be previewed or downloaded from
+  static async getAttachmentUrl(attachment: TransactionAttachment): Promise<string> {
+    return getAttachmentStorage(attachment.storageBackend).getUrl(attachment.storagePath)
+  }
+
+  // Delete an attachment and its file
+  static async deleteAttachment(attachment: TransactionAttachment): Promise<void> {
+    try {
+      const supabase = createSupabaseClient()
+      const { error } = await supabase
+        .from('transaction_attachments')
+        .delete()
+        .eq('id', attachment.id)
+
+      if (error) {
+        console.error('Error deleting attachment:', error)
+        throw new Error(`Failed to delete attachment: ${error.message}`)
+      }
+
+      await AttachmentService.removeFiles([attachment])
+    } catch (error) {
+      console.error('Error in deleteAttachment:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Remove the stored files of attachments whose rows are gone, e.g. after their transaction
+   * was deleted (the rows cascade, the files do not). Failures leave an unreferenced file
+   * behind and are only logged.
+   */
+  static async removeFiles(attachments: TransactionAttachment[]): Promise<void> {
+    const backends = Array.from(new Set(attachments.map(a => a.storageBackend)))
+    await Promise.all(backends.map(async backend => {
+      const paths = attachments.filter(a => a.storageBackend === backend).map(a => a.storagePath)
+      try {
+        await getAttachmentStorage(backend).remove(paths)
+      } catch (error) {
+        console.warn('AttachmentService: Failed to remove attachment files:', error)
+      }
+    }))
+  }
+}
@@ -0,0 +1,160 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { clampPeriodStartDay, getBudgetPeriodWindow, toDateString } from '@/lib/budgetPeriods'
+import { SPLIT_CATEGORY } from '@/lib/splits'
+import {
+  Budget,
+  CategorizationRule,
+  CategoryCorrection,
+  FinancialGoal,
+  RecurringTransaction,
+  RestoreChange,
+  RestorePlan,
+  Transaction,
+  UserPreferences
+} from '@/types'
+
+// Rows as restore_backup (migrations/022_restore_backup_settings.sql) reads them
+const mapTransactionToRow = (transaction: Transaction) => ({
+  id: transaction.id,
+  date: toDateString(transaction.date),
+  description: transaction.description,
+  category: transaction.splits?.length ? SPLIT_CATEGORY : transaction.category,
+  amount: transaction.amount,
+  type: transaction.type,
+  account_id: transaction.accountId || null,
+  transfer_account_id: transaction.type === 'transfer' ? transaction.transferAccountId || null : null,
+  recurring_transaction_id: transaction.recurringTransactionId || null,
+  external_id: transaction.externalId || null,
+  import_batch_id: transaction.importBatchId || null,
+  currency: transaction.currency || null,
+  splits: (transaction.splits || []).map(split => ({
+    category: split.category,
+    amount: split.amount,
+    note: split.note || null
+  }))
+})
+
+const mapBudgetToRow = (budget: Budget) => ({
+  id: budget.id,
+  category: budget.category,
+  budget_amount: budget.budgetAmount,
+  period: budget.period,
+  period_start_day: clampPeriodStartDay(budget.period, budget.periodStartDay),
+  current_period_start: toDateString(getBudgetPeriodWindow(budget.period, budget.periodStartDay).start),
+  rollover_policy: budget.rolloverPolicy || 'none',
+  rollover_cap: budget.rolloverPolicy === 'cap' ? budget.rolloverCap ?? 0 : null
+})
+
+const mapGoalToRow = (goal: FinancialGoal) => ({
+  id: goal.id,
+  name: goal.name,
+  type: goal.type,
+  target_amount: goal.targetAmount,
+  current_amount: goal.currentAmount,
+  target_date: toDateString(goal.targetDate),
+  priority: goal.priority,
+  category: goal.category || null,
+  description: goal.description || null
+})
+
+const mapRecurringTransactionToRow = (recurring: RecurringTransaction) => ({
+  id: recurring.id,
+  description: recurring.description,
+  category: recurring.category,
+  amount: recurring.amount,
+  currency: recurring.currency,
+  type: recurring.type,
+  frequency: recurring.frequency,
+  account_id: recurring.accountId || null,
+  start_date: toDateString(recurring.startDate),
+  end_date: recurring.endDate ? toDateString(recurring.endDate) : null,
+  next_occurrence: toDateString(recurring.nextOccurrence),
+  amount_variance: recurring.amountVariance,
+  is_active: recurring.isActive
+})
+
+const mapCategorizationRuleToRow = (rule: CategorizationRule) => ({
+  id: rule.id,
+  name: rule.name,
+  match_type: rule.matchType,
+  pattern: rule.pattern || null,
+  amount_min: rule.amountMin ?? null,
+  amount_max: rule.amountMax ?? null,
+  account_id: rule.accountId || null,
+  transaction_type: rule.transactionType || null,
+  category: rule.category,
+  priority: rule.priority,
+  is_active: rule.isActive
+})
+
+const mapCategoryCorrectionToRow = (correction: CategoryCorrection) => ({
+  id: correction.id,
+  description_key: correction.descriptionKey,
+  description: correction.description,
+  category: correction.category,
+  times_corrected: correction.timesCorrected
+})
+
+const mapPreferencesToRow = (preferences: UserPreferences) => ({
+  currency: preferences.currency,
+  locale: preferences.locale,
+  date_format: preferences.dateFormat,
+  notifications: preferences.notifications,
+  email_reports: preferences.emailReports,
+  budget_alerts: preferences.budgetAlerts,
+  theme: preferences.theme,
+  accent_color: preferences.accentColor,
+  font_size: preferences.fontSize,
+  compact_mode: preferences.compactMode
+})
+
+// Skipped records are left as they are
+const toApply = <T>(changes: RestoreChange<T>[]): T[] => changes.filter(change => change.action !== 'skip').map(change => change.record)
+
+export class BackupService {
+  /**
+   * Apply the creates and updates of a restore plan. They run in one database function, so a
+   * failure part way restores nothing.
+   */
+  static async restoreBackup(plan: RestorePlan): Promise<void> {
+    try {
+      const transactions = toApply(plan.transactions)
+      const budgets = toApply(plan.budgets)
+      const goals = toApply(plan.goals)
+      const recurringTransactions = toApply(plan.recurringTransactions)
+      const categorizationRules = toApply(plan.categorizationRules)
+      const categoryCorrections = toApply(plan.categoryCorrections)
+      const preferences = plan.preferences?.action === 'update' ? plan.preferences.record : null
+      console.log('BackupService: Restoring backup:', {
+        transactions: transactions.length,
+        budgets: budgets.length,
+        goals: goals.length,
+        recurringTransactions: recurringTransactions.length,
+        categorizationRules: categorizationRules.length,
+        categoryCorrections: categoryCorrections.length,
+        preferences: Boolean(preferences)
+      })
+
+      const supabase = createSupabaseClient()
+      const { error } = await supabase.rpc('restore_backup', {
+        p_transactions: transactions.map(mapTransactionToRow),
+        p_budgets: budgets.map(mapBudgetToRow),
+        p_goals: goals.map(mapGoalToRow),
+        p_recurring_transactions: recurringTransactions.map(mapRecurringTransactionToRow),
+        p_categorization_rules: categorizationRules.map(mapCategorizationRuleToRow),
+        p_category_corrections: categoryCorrections.map(mapCategoryCorrectionToRow),
+        p_preferences: preferences ? mapPreferencesToRow(preferences) : null
+      })
+
+      if (error) {
+        console.error('BackupService: Database error:', error)
+        throw new Error(`Failed to restore backup: ${error.message}. Nothing was changed.`)
+      }
+
+      console.log('BackupService: Backup restored')
+    } catch (error) {
+      console.error('Error in restoreBackup:', error)
+      throw error
+    }
+  }
+}
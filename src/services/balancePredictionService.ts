@@ -1,5 +1,6 @@
 import { Transaction, Budget } from '@/types'
 import { cashFlowForecastingService } from './cashFlowForecastingService'
+import { excludeTransfers } from '@/lib/transfers'
 
 // Balance Prediction Types
 export interface BalancePrediction {
@@ -69,10 +70,12 @@ class BalancePredictionService {
    * Generate detailed balance predictions with multiple scenarios
    */
   generateBalancePredictions(
-    transactions: Transaction[],
+    allTransactions: Transaction[],
     currentBalance: number,
     predictionDays: number = 365
   ): BalancePrediction[] {
+    // Transfers between the user's accounts don't change the overall balance
+    const transactions = excludeTransfers(allTransactions)
     const predictions: BalancePrediction[] = []
     
     // Get base forecast from cash flow service
@@ -113,9 +116,10 @@ class BalancePredictionService {
    * Perform comprehensive scenario analysis
    */
   performScenarioAnalysis(
-    transactions: Transaction[],
+    allTransactions: Transaction[],
     currentBalance: number
   ): ScenarioAnalysis {
+    const transactions = excludeTransfers(allTransactions)
     const basePredicttions = this.generateBalancePredictions(transactions, currentBalance)
     
     // Calculate scenarios
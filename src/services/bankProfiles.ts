@@ -0,0 +1,110 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { BankProfile, CsvColumnMapping } from '@/types'
+
+export interface DatabaseBankProfile {
+  id: string
+  user_id: string
+  name: string
+  header_fingerprint: string
+  mapping: CsvColumnMapping
+  category_mapping: Record<string, string>
+  created_at: string
+  updated_at: string
+}
+
+// Convert database profile to app profile
+const mapDatabaseToProfile = (dbProfile: DatabaseBankProfile): BankProfile => ({
+  id: dbProfile.id,
+  name: dbProfile.name,
+  headerFingerprint: dbProfile.header_fingerprint,
+  mapping: dbProfile.mapping,
+  categoryMapping: dbProfile.category_mapping || {},
+  createdAt: new Date(dbProfile.created_at),
+  updatedAt: new Date(dbProfile.updated_at)
+})
+
+export class BankProfileService {
+  // Get all saved bank profiles for the current user
+  static async getProfiles(): Promise<BankProfile[]> {
+    try {
+      console.log('BankProfileService: Getting profiles...')
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('bank_profiles')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) {
+        console.error('BankProfileService: Error fetching profiles:', error)
+        // Return empty array instead of throwing to handle missing table gracefully
+        return []
+      }
+
+      console.log('BankProfileService: Fetched profiles:', data.length)
+      return (data as unknown as DatabaseBankProfile[]).map(mapDatabaseToProfile)
+    } catch (error) {
+      console.error('BankProfileService: Error in getProfiles:', error)
+      return []
+    }
+  }
+
+  /**
+   * Save a mapping for a bank's export format. A profile already saved for the same
+   * columns is replaced, so each format has one mapping.
+   */
+  static async saveProfile(profile: Omit<BankProfile, 'id' | 'headerFingerprint' | 'createdAt' | 'updatedAt'>): Promise<BankProfile> {
+    try {
+      console.log('BankProfileService: Saving profile:', profile.name)
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      const { data, error } = await supabase
+        .from('bank_profiles')
+        .upsert({
+          user_id: user.id,
+          name: profile.name.trim(),
+          header_fingerprint: profile.mapping.headerFingerprint,
+          mapping: profile.mapping,
+          category_mapping: profile.categoryMapping
+        }, { onConflict: 'user_id,header_fingerprint' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('BankProfileService: Database error:', error)
+        throw new Error(`Failed to save bank profile: ${error.message}`)
+      }
+
+      console.log('BankProfileService: Profile saved successfully:', data)
+      return mapDatabaseToProfile(data as unknown as DatabaseBankProfile)
+    } catch (error) {
+      console.error('BankProfileService: Error in saveProfile:', error)
+      throw error
+    }
+  }
+
+  // Delete a bank profile
+  static async deleteProfile(id: string): Promise<void> {
+    try {
+      const supabase = createSupabaseClient()
+      const { error } = await supabase
+        .from('bank_profiles')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting bank profile:', error)
+        throw new Error(`Failed to delete bank profile: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error in deleteProfile:', error)
+      throw error
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { createSupabaseClient } from '@/lib/supabase'
-import { Budget } from '@/types'
+import { Budget, BudgetPeriodHistory, BudgetRolloverPolicy } from '@/types'
+import { clampPeriodStartDay, getBudgetPeriodWindow, toDateString } from '@/lib/budgetPeriods'
 
 export interface DatabaseBudget {
   id: string
@@ -8,26 +9,70 @@ export interface DatabaseBudget {
   budget_amount: number
   spent_amount: number
   period: string
+  period_start_day: number | null
+  current_period_start: string | null
+  rollover_policy: string | null
+  rollover_cap: number | null
+  rollover_amount: number | null
   created_at: string
   updated_at: string
 }
 
+export interface DatabaseBudgetPeriod {
+  id: string
+  budget_id: string
+  user_id: string
+  period_start: string
+  period_end: string
+  budget_amount: number
+  spent_amount: number
+  rollover_amount: number
+  created_at: string
+}
+
 // Convert database budget to app budget
 const mapDatabaseToBudget = (dbBudget: DatabaseBudget): Budget => ({
   id: dbBudget.id,
   category: dbBudget.category,
   budgetAmount: dbBudget.budget_amount,
   spentAmount: dbBudget.spent_amount,
-  period: dbBudget.period
+  period: dbBudget.period,
+  periodStartDay: dbBudget.period_start_day ?? 1,
+  currentPeriodStart: dbBudget.current_period_start ? new Date(dbBudget.current_period_start) : undefined,
+  rolloverPolicy: (dbBudget.rollover_policy || 'none') as BudgetRolloverPolicy,
+  rolloverCap: dbBudget.rollover_cap ?? undefined,
+  rolloverAmount: dbBudget.rollover_amount ?? 0
 })
 
+// Convert database budget period to app budget period history entry
+const mapDatabaseToBudgetPeriod = (dbPeriod: DatabaseBudgetPeriod): BudgetPeriodHistory => ({
+  id: dbPeriod.id,
+  budgetId: dbPeriod.budget_id,
+  periodStart: new Date(dbPeriod.period_start),
+  periodEnd: new Date(dbPeriod.period_end),
+  budgetAmount: dbPeriod.budget_amount,
+  spentAmount: dbPeriod.spent_amount,
+  rolloverAmount: dbPeriod.rollover_amount ?? 0
+})
+
+// A budget is stale when its stored period no longer matches today's window
+const isBudgetPeriodStale = (budget: Budget): boolean => {
+  if (!budget.currentPeriodStart) return true
+  const window = getBudgetPeriodWindow(budget.period, budget.periodStartDay)
+  return toDateString(window.start) !== toDateString(budget.currentPeriodStart)
+}
+
 // Convert app budget to database format
 const mapBudgetToDatabase = (budget: Omit<Budget, 'id' | 'spentAmount'>, userId: string) => ({
   user_id: userId,
   category: budget.category,
   budget_amount: budget.budgetAmount,
   spent_amount: 0, // Initialize spent amount to 0
-  period: budget.period
+  period: budget.period,
+  period_start_day: clampPeriodStartDay(budget.period, budget.periodStartDay),
+  current_period_start: toDateString(getBudgetPeriodWindow(budget.period, budget.periodStartDay).start),
+  rollover_policy: budget.rolloverPolicy || 'none',
+  rollover_cap: budget.rolloverPolicy === 'cap' ? budget.rolloverCap ?? 0 : null
 })
 
 export class BudgetService {
@@ -57,7 +102,32 @@ export class BudgetService {
       }
 
       console.log('BudgetService: Fetched budgets:', data.length)
-      return (data as unknown as DatabaseBudget[]).map(mapDatabaseToBudget)
+      const budgets = (data as unknown as DatabaseBudget[]).map(mapDatabaseToBudget)
+
+      // Roll budgets whose period has ended into their next period
+      if (budgets.some(isBudgetPeriodStale)) {
+        console.log('BudgetService: Budget period rolled over, refreshing spent amounts...')
+        try {
+          await this.refreshSpentAmounts()
+        } catch (refreshError) {
+          console.error('BudgetService: Error rolling over budget periods:', refreshError)
+          return budgets
+        }
+
+        const { data: refreshed, error: refreshError } = await supabase
+          .from('budgets')
+          .select('*')
+          .order('category', { ascending: true })
+
+        if (refreshError) {
+          console.error('BudgetService: Error re-fetching budgets:', refreshError)
+          return budgets
+        }
+
+        return (refreshed as unknown as DatabaseBudget[]).map(mapDatabaseToBudget)
+      }
+
+      return budgets
     } catch (error) {
       console.error('BudgetService: Error in getBudgets:', error)
       throw error
@@ -133,7 +203,16 @@ export class BudgetService {
       }
 
       console.log('BudgetService: Budget added successfully:', data)
-      return mapDatabaseToBudget(data as unknown as DatabaseBudget)
+      const newBudget = mapDatabaseToBudget(data as unknown as DatabaseBudget)
+
+      // Pick up spending already recorded in the current period
+      try {
+        await this.refreshSpentAmounts()
+        return (await this.getBudgetById(newBudget.id)) || newBudget
+      } catch (refreshError) {
+        console.error('BudgetService: Error refreshing new budget:', refreshError)
+        return newBudget
+      }
     } catch (error) {
       console.error('BudgetService: Error in addBudget:', error)
       console.error('BudgetService: Error type:', typeof error)
@@ -145,6 +224,7 @@ export class BudgetService {
   // Update a budget
   static async updateBudget(id: string, updates: Partial<Omit<Budget, 'id'>>): Promise<Budget> {
     try {
+      const supabase = createSupabaseClient()
       const updateData: any = {}
 
       if (updates.category !== undefined) {
@@ -159,8 +239,34 @@ export class BudgetService {
       if (updates.period !== undefined) {
         updateData.period = updates.period
       }
+      if (updates.period !== undefined || updates.periodStartDay !== undefined) {
+        // The start day's range depends on the period, so whichever isn't changing comes from the stored budget
+        let period = updates.period
+        let periodStartDay = updates.periodStartDay
+        if (period === undefined || periodStartDay === undefined) {
+          const { data: stored, error: storedError } = await supabase
+            .from('budgets')
+            .select('period, period_start_day')
+            .eq('id', id)
+            .single()
+
+          if (storedError) {
+            console.error('Error fetching budget:', storedError)
+            throw new Error(`Failed to fetch budget: ${storedError.message}`)
+          }
+          const storedBudget = stored as unknown as Pick<DatabaseBudget, 'period' | 'period_start_day'>
+          period = period ?? storedBudget.period
+          periodStartDay = periodStartDay ?? storedBudget.period_start_day ?? undefined
+        }
+        updateData.period_start_day = clampPeriodStartDay(period || 'Monthly', periodStartDay)
+      }
+      if (updates.rolloverPolicy !== undefined) {
+        updateData.rollover_policy = updates.rolloverPolicy
+      }
+      if (updates.rolloverCap !== undefined) {
+        updateData.rollover_cap = updates.rolloverCap
+      }
 
-      const supabase = createSupabaseClient()
       const { data, error } = await supabase
         .from('budgets')
         .update(updateData)
@@ -173,7 +279,28 @@ export class BudgetService {
         throw new Error(`Failed to update budget: ${error.message}`)
       }
 
-      return mapDatabaseToBudget(data as unknown as DatabaseBudget)
+      const updatedBudget = mapDatabaseToBudget(data as unknown as DatabaseBudget)
+
+      // A new period or start day moves the window and a new policy changes what carries
+      // forward, so spent and rollover amounts must be recalculated
+      if (
+        updates.period !== undefined ||
+        updates.periodStartDay !== undefined ||
+        updates.category !== undefined ||
+        updates.budgetAmount !== undefined ||
+        updates.rolloverPolicy !== undefined ||
+        updates.rolloverCap !== undefined
+      ) {
+        try {
+          await this.refreshSpentAmounts()
+          return (await this.getBudgetById(id)) || updatedBudget
+        } catch (refreshError) {
+          console.error('Error refreshing updated budget:', refreshError)
+          return updatedBudget
+        }
+      }
+
+      return updatedBudget
     } catch (error) {
       console.error('Error in updateBudget:', error)
       throw error
@@ -254,47 +381,78 @@ export class BudgetService {
     }
   }
 
-  // Refresh spent amounts for all budgets (useful for data consistency)
-  static async refreshSpentAmounts(): Promise<void> {
+  // Get a single budget by id
+  static async getBudgetById(id: string): Promise<Budget | null> {
     try {
-      // This will trigger the database function to recalculate spent amounts
-      // The trigger function will automatically update spent amounts when transactions change
-      // This method is mainly for manual refresh if needed
-
       const supabase = createSupabaseClient()
-      const { data: budgets, error: budgetsError } = await supabase
+      const { data, error } = await supabase
         .from('budgets')
-        .select('id, category')
+        .select('*')
+        .eq('id', id)
+        .single()
 
-      if (budgetsError) {
-        console.error('Error fetching budgets for refresh:', budgetsError)
-        throw new Error(`Failed to refresh spent amounts: ${budgetsError.message}`)
+      if (error) {
+        if (error.code === 'PGRST116') {
+          // No rows returned
+          return null
+        }
+        console.error('Error fetching budget by id:', error)
+        throw new Error(`Failed to fetch budget: ${error.message}`)
       }
 
-      // For each budget, get the current spent amount from transactions
-      for (const budget of budgets) {
-        const supabase = createSupabaseClient()
-        const { data: transactions, error: transactionsError } = await supabase
-          .from('transactions')
-          .select('amount')
-          .eq('category', (budget as any).category)
-          .eq('type', 'expense')
-
-        if (transactionsError) {
-          console.error('Error fetching transactions for budget refresh:', transactionsError)
-          continue
-        }
+      return mapDatabaseToBudget(data as unknown as DatabaseBudget)
+    } catch (error) {
+      console.error('Error in getBudgetById:', error)
+      throw error
+    }
+  }
 
-        const spentAmount = (transactions as any[]).reduce((sum, t) => sum + (t.amount || 0), 0)
+  // Get closed periods for a budget, most recent first
+  static async getBudgetHistory(budgetId: string): Promise<BudgetPeriodHistory[]> {
+    try {
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('budget_periods')
+        .select('*')
+        .eq('budget_id', budgetId)
+        .order('period_start', { ascending: false })
 
-        const { error: updateError } = await supabase
-          .from('budgets')
-          .update({ spent_amount: spentAmount })
-          .eq('id', (budget as any).id)
+      if (error) {
+        console.error('Error fetching budget history:', error)
+        // Return empty array instead of throwing to handle missing table gracefully
+        return []
+      }
 
-        if (updateError) {
-          console.error('Error updating spent amount:', updateError)
-        }
+      return (data as unknown as DatabaseBudgetPeriod[]).map(mapDatabaseToBudgetPeriod)
+    } catch (error) {
+      console.error('Error in getBudgetHistory:', error)
+      return []
+    }
+  }
+
+  // Refresh spent amounts for all budgets (useful for data consistency)
+  static async refreshSpentAmounts(): Promise<void> {
+    try {
+      // The database computes each budget's current period window, closes any
+      // periods that have ended into budget_periods, recalculates spent amounts
+      // and carries leftovers forward according to each budget's rollover policy.
+      // The transaction trigger does the same automatically when transactions change;
+      // this method covers period rollovers and manual refreshes.
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      const { error } = await supabase.rpc('refresh_all_budget_spent_amounts', {
+        target_user_id: user.id
+      })
+
+      if (error) {
+        console.error('Error refreshing spent amounts:', error)
+        throw new Error(`Failed to refresh spent amounts: ${error.message}`)
       }
     } catch (error) {
       console.error('Error in refreshSpentAmounts:', error)
@@ -1,4 +1,6 @@
 import { Transaction, Budget } from '@/types'
+import { CashFlowTransaction, excludeTransfers } from '@/lib/transfers'
+import { formatCurrency } from '@/lib/formatting'
 
 // Forecasting types
 export interface ForecastPeriod {
@@ -27,6 +29,7 @@ export interface CashFlowForecast {
 export interface RecurringPattern {
   type: 'income' | 'expense'
   description: string
+  category?: string
   amount: number
   frequency: 'weekly' | 'monthly' | 'quarterly' | 'yearly'
   confidence: number
@@ -50,10 +53,13 @@ class CashFlowForecastingService {
    * Generate cash flow forecast for the next 90 days
    */
   generateForecast(
-    transactions: Transaction[], 
+    allTransactions: Transaction[], 
     currentBalance: number = 0,
     forecastDays: number = 90
   ): CashFlowForecast {
+    // Transfers between the user's accounts don't change cash flow
+    const transactions = excludeTransfers(allTransactions)
+
     try {
       // Analyze historical patterns
       const recurringPatterns = this.identifyRecurringPatterns(transactions)
@@ -104,14 +110,27 @@ class CashFlowForecastingService {
     }
   }
 
+  /**
+   * Detect recurring patterns that a user can confirm as recurring rules
+   */
+  detectRecurringPatterns(transactions: Transaction[]): RecurringPattern[] {
+    const latestFirst = [...transactions].sort((a, b) => b.date.getTime() - a.date.getTime())
+
+    // Report the most recent original description rather than the normalized grouping key
+    return this.identifyRecurringPatterns(excludeTransfers(transactions)).map(pattern => {
+      const latest = latestFirst.find(t => this.normalizeDescription(t.description) === pattern.description)
+      return latest ? { ...pattern, description: latest.description, category: latest.category } : pattern
+    })
+  }
+
   /**
    * Identify recurring income and expense patterns
    */
-  private identifyRecurringPatterns(transactions: Transaction[]): RecurringPattern[] {
+  private identifyRecurringPatterns(transactions: CashFlowTransaction[]): RecurringPattern[] {
     const patterns: RecurringPattern[] = []
     
     // Group transactions by description (simplified matching)
-    const transactionGroups = new Map<string, Transaction[]>()
+    const transactionGroups = new Map<string, CashFlowTransaction[]>()
     
     transactions.forEach(transaction => {
       const key = this.normalizeDescription(transaction.description)
@@ -379,7 +398,7 @@ class CashFlowForecastingService {
     return description.toLowerCase().replace(/[0-9]/g, '').trim()
   }
 
-  private analyzeTransactionGroup(transactions: Transaction[], description: string): RecurringPattern | null {
+  private analyzeTransactionGroup(transactions: CashFlowTransaction[], description: string): RecurringPattern | null {
     if (transactions.length < 3) return null
 
     const amounts = transactions.map(t => t.amount)
@@ -411,6 +430,7 @@ class CashFlowForecastingService {
     return {
       type: transactions[0].type,
       description,
+      category: transactions[0]?.category,
       amount: averageAmount,
       frequency,
       confidence: Math.min(confidence, 1),
@@ -477,9 +497,9 @@ class CashFlowForecastingService {
     if (periods.length >= 30) {
       const balanceChange = periods[29].predictedBalance - periods[0].predictedBalance
       if (balanceChange > 0) {
-        insights.push(`Your balance is projected to grow by $${balanceChange.toFixed(2)} over the next 30 days`)
+        insights.push(`Your balance is projected to grow by ${formatCurrency(balanceChange)} over the next 30 days`)
       } else {
-        insights.push(`Your balance is projected to decrease by $${Math.abs(balanceChange).toFixed(2)} over the next 30 days`)
+        insights.push(`Your balance is projected to decrease by ${formatCurrency(Math.abs(balanceChange))} over the next 30 days`)
       }
     }
 
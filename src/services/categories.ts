@@ -0,0 +1,199 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { DEFAULT_CATEGORIES } from '@/lib/categories'
+import { Category } from '@/types'
+
+export interface DatabaseCategory {
+  id: string
+  user_id: string
+  name: string
+  parent_id: string | null
+  color: string
+  icon: string
+  created_at: string
+  updated_at: string
+}
+
+// Convert database category to app category
+const mapDatabaseToCategory = (dbCategory: DatabaseCategory): Category => ({
+  id: dbCategory.id,
+  name: dbCategory.name,
+  parentId: dbCategory.parent_id ?? undefined,
+  color: dbCategory.color,
+  icon: dbCategory.icon,
+  createdAt: new Date(dbCategory.created_at),
+  updatedAt: new Date(dbCategory.updated_at)
+})
+
+// Convert app category to database format
+const mapCategoryToDatabase = (category: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>, userId: string) => ({
+  user_id: userId,
+  name: category.name.trim(),
+  parent_id: category.parentId || null,
+  color: category.color,
+  icon: category.icon
+})
+
+export class CategoryService {
+  // Get all categories for the current user, creating the defaults on first use
+  static async getCategories(): Promise<Category[]> {
+    try {
+      console.log('CategoryService: Getting categories...')
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        console.log('CategoryService: No authenticated user')
+        return []
+      }
+
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) {
+        console.error('CategoryService: Error fetching categories:', error)
+        // Return empty array instead of throwing to handle missing table gracefully
+        return []
+      }
+
+      if (data.length === 0) {
+        console.log('CategoryService: Creating default categories')
+        const { data: created, error: createError } = await supabase
+          .from('categories')
+          .insert(DEFAULT_CATEGORIES.map(category => ({ ...category, user_id: user.id })))
+          .select()
+
+        if (createError) {
+          console.error('CategoryService: Error creating default categories:', createError)
+          return []
+        }
+        return (created as unknown as DatabaseCategory[]).map(mapDatabaseToCategory)
+      }
+
+      console.log('CategoryService: Fetched categories:', data.length)
+      return (data as unknown as DatabaseCategory[]).map(mapDatabaseToCategory)
+    } catch (error) {
+      console.error('CategoryService: Error in getCategories:', error)
+      return []
+    }
+  }
+
+  // Add a new category
+  static async addCategory(category: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>): Promise<Category> {
+    try {
+      console.log('CategoryService: Adding category:', category)
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      const { data, error } = await supabase
+        .from('categories')
+        .insert([mapCategoryToDatabase(category, user.id)])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('CategoryService: Database error:', error)
+        throw new Error(`Failed to add category: ${error.message}`)
+      }
+
+      console.log('CategoryService: Category added successfully:', data)
+      return mapDatabaseToCategory(data as unknown as DatabaseCategory)
+    } catch (error) {
+      console.error('CategoryService: Error in addCategory:', error)
+      throw error
+    }
+  }
+
+  // Update a category's parent, color or icon (names change through renameCategory)
+  static async updateCategory(id: string, updates: Partial<Pick<Category, 'parentId' | 'color' | 'icon'>>): Promise<Category> {
+    try {
+      const updateData: any = {}
+
+      if ('parentId' in updates) updateData.parent_id = updates.parentId || null
+      if (updates.color !== undefined) updateData.color = updates.color
+      if (updates.icon !== undefined) updateData.icon = updates.icon
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('categories')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating category:', error)
+        throw new Error(`Failed to update category: ${error.message}`)
+      }
+
+      return mapDatabaseToCategory(data as unknown as DatabaseCategory)
+    } catch (error) {
+      console.error('Error in updateCategory:', error)
+      throw error
+    }
+  }
+
+  // Rename a category and every transaction, split, budget and recurring rule using it
+  static async renameCategory(id: string, name: string): Promise<void> {
+    try {
+      const supabase = createSupabaseClient()
+      const { error } = await supabase.rpc('rename_category', {
+        p_category_id: id,
+        p_new_name: name
+      })
+
+      if (error) {
+        console.error('Error renaming category:', error)
+        throw new Error(`Failed to rename category: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error in renameCategory:', error)
+      throw error
+    }
+  }
+
+  // Move everything in one category into another and remove the first
+  static async mergeCategories(sourceId: string, targetId: string): Promise<void> {
+    try {
+      const supabase = createSupabaseClient()
+      const { error } = await supabase.rpc('merge_categories', {
+        p_source_id: sourceId,
+        p_target_id: targetId
+      })
+
+      if (error) {
+        console.error('Error merging categories:', error)
+        throw new Error(`Failed to merge categories: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error in mergeCategories:', error)
+      throw error
+    }
+  }
+
+  // Delete a category (transactions keep its name; subcategories become top-level)
+  static async deleteCategory(id: string): Promise<void> {
+    try {
+      const supabase = createSupabaseClient()
+      const { error } = await supabase
+        .from('categories')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting category:', error)
+        throw new Error(`Failed to delete category: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error in deleteCategory:', error)
+      throw error
+    }
+  }
+}
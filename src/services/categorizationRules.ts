@@ -0,0 +1,165 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { CategorizationRule, RuleMatchType } from '@/types'
+
+export interface DatabaseCategorizationRule {
+  id: string
+  user_id: string
+  name: string
+  match_type: RuleMatchType
+  pattern: string | null
+  amount_min: number | null
+  amount_max: number | null
+  account_id: string | null
+  transaction_type: 'income' | 'expense' | null
+  category: string
+  priority: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// Convert database rule to app rule
+const mapDatabaseToRule = (dbRule: DatabaseCategorizationRule): CategorizationRule => ({
+  id: dbRule.id,
+  name: dbRule.name,
+  matchType: dbRule.match_type,
+  pattern: dbRule.pattern || undefined,
+  amountMin: dbRule.amount_min ?? undefined,
+  amountMax: dbRule.amount_max ?? undefined,
+  accountId: dbRule.account_id || undefined,
+  transactionType: dbRule.transaction_type || undefined,
+  category: dbRule.category,
+  priority: dbRule.priority,
+  isActive: dbRule.is_active,
+  createdAt: new Date(dbRule.created_at),
+  updatedAt: new Date(dbRule.updated_at)
+})
+
+// Convert app rule to database format
+const mapRuleToDatabase = (rule: Omit<CategorizationRule, 'id' | 'createdAt' | 'updatedAt'>, userId: string) => ({
+  user_id: userId,
+  name: rule.name,
+  match_type: rule.matchType,
+  pattern: rule.pattern?.trim() || null,
+  amount_min: rule.amountMin ?? null,
+  amount_max: rule.amountMax ?? null,
+  account_id: rule.accountId || null,
+  transaction_type: rule.transactionType || null,
+  category: rule.category,
+  priority: rule.priority,
+  is_active: rule.isActive
+})
+
+export class CategorizationRuleService {
+  // Get all rules for the current user in evaluation order
+  static async getRules(): Promise<CategorizationRule[]> {
+    try {
+      console.log('CategorizationRuleService: Getting rules...')
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('categorization_rules')
+        .select('*')
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('CategorizationRuleService: Error fetching rules:', error)
+        // Return empty array instead of throwing to handle missing table gracefully
+        return []
+      }
+
+      console.log('CategorizationRuleService: Fetched rules:', data.length)
+      return (data as unknown as DatabaseCategorizationRule[]).map(mapDatabaseToRule)
+    } catch (error) {
+      console.error('CategorizationRuleService: Error in getRules:', error)
+      return []
+    }
+  }
+
+  // Add a new rule
+  static async addRule(rule: Omit<CategorizationRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<CategorizationRule> {
+    try {
+      console.log('CategorizationRuleService: Adding rule:', rule)
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      const { data, error } = await supabase
+        .from('categorization_rules')
+        .insert([mapRuleToDatabase(rule, user.id)])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('CategorizationRuleService: Database error:', error)
+        throw new Error(`Failed to add rule: ${error.message}`)
+      }
+
+      console.log('CategorizationRuleService: Rule added successfully:', data)
+      return mapDatabaseToRule(data as unknown as DatabaseCategorizationRule)
+    } catch (error) {
+      console.error('CategorizationRuleService: Error in addRule:', error)
+      throw error
+    }
+  }
+
+  // Update a rule
+  static async updateRule(id: string, updates: Partial<CategorizationRule>): Promise<CategorizationRule> {
+    try {
+      const updateData: any = {}
+
+      if (updates.name !== undefined) updateData.name = updates.name
+      if (updates.matchType !== undefined) updateData.match_type = updates.matchType
+      if ('pattern' in updates) updateData.pattern = updates.pattern?.trim() || null
+      if ('amountMin' in updates) updateData.amount_min = updates.amountMin ?? null
+      if ('amountMax' in updates) updateData.amount_max = updates.amountMax ?? null
+      if ('accountId' in updates) updateData.account_id = updates.accountId || null
+      if ('transactionType' in updates) updateData.transaction_type = updates.transactionType || null
+      if (updates.category !== undefined) updateData.category = updates.category
+      if (updates.priority !== undefined) updateData.priority = updates.priority
+      if (updates.isActive !== undefined) updateData.is_active = updates.isActive
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('categorization_rules')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating rule:', error)
+        throw new Error(`Failed to update rule: ${error.message}`)
+      }
+
+      return mapDatabaseToRule(data as unknown as DatabaseCategorizationRule)
+    } catch (error) {
+      console.error('Error in updateRule:', error)
+      throw error
+    }
+  }
+
+  // Delete a rule
+  static async deleteRule(id: string): Promise<void> {
+    try {
+      const supabase = createSupabaseClient()
+      const { error } = await supabase
+        .from('categorization_rules')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting rule:', error)
+        throw new Error(`Failed to delete rule: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error in deleteRule:', error)
+      throw error
+    }
+  }
+}
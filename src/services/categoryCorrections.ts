@@ -0,0 +1,117 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { normalizeDescription } from '@/lib/categoryLearning'
+import { CategoryCorrection } from '@/types'
+
+export interface DatabaseCategoryCorrection {
+  id: string
+  user_id: string
+  description_key: string
+  description: string
+  category: string
+  times_corrected: number
+  created_at: string
+  updated_at: string
+}
+
+// Convert database correction to app correction
+const mapDatabaseToCorrection = (dbCorrection: DatabaseCategoryCorrection): CategoryCorrection => ({
+  id: dbCorrection.id,
+  descriptionKey: dbCorrection.description_key,
+  description: dbCorrection.description,
+  category: dbCorrection.category,
+  timesCorrected: dbCorrection.times_corrected,
+  updatedAt: new Date(dbCorrection.updated_at)
+})
+
+export class CategoryCorrectionService {
+  // Get everything learned from the current user's import reviews
+  static async getCorrections(): Promise<CategoryCorrection[]> {
+    try {
+      console.log('CategoryCorrectionService: Getting corrections...')
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('category_corrections')
+        .select('*')
+        .order('updated_at', { ascending: false })
+
+      if (error) {
+        console.error('CategoryCorrectionService: Error fetching corrections:', error)
+        // Return empty array instead of throwing to handle missing table gracefully
+        return []
+      }
+
+      console.log('CategoryCorrectionService: Fetched corrections:', data.length)
+      return (data as unknown as DatabaseCategoryCorrection[]).map(mapDatabaseToCorrection)
+    } catch (error) {
+      console.error('CategoryCorrectionService: Error in getCorrections:', error)
+      return []
+    }
+  }
+
+  /**
+   * Remember the categories chosen for these descriptions. A merchant corrected again
+   * takes the latest category and counts one more correction.
+   */
+  static async recordCorrections(corrections: Array<{ description: string; category: string }>): Promise<CategoryCorrection[]> {
+    try {
+      console.log('CategoryCorrectionService: Recording corrections:', corrections.length)
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      // One row per merchant, counting every correction in this batch
+      const byKey = new Map<string, { description: string; category: string; count: number }>()
+      corrections.forEach(({ description, category }) => {
+        const key = normalizeDescription(description)
+        if (!key) return
+        byKey.set(key, { description, category, count: (byKey.get(key)?.count || 0) + 1 })
+      })
+      if (byKey.size === 0) return []
+
+      const keys = Array.from(byKey.keys())
+      const { data: existing, error: fetchError } = await supabase
+        .from('category_corrections')
+        .select('description_key, times_corrected')
+        .in('description_key', keys)
+
+      if (fetchError) {
+        console.error('CategoryCorrectionService: Database error:', fetchError)
+        throw new Error(`Failed to record corrections: ${fetchError.message}`)
+      }
+
+      const previousCounts = new Map(
+        (existing as Array<Pick<DatabaseCategoryCorrection, 'description_key' | 'times_corrected'>>)
+          .map(row => [row.description_key, row.times_corrected])
+      )
+
+      const { data, error } = await supabase
+        .from('category_corrections')
+        .upsert(keys.map(key => {
+          const correction = byKey.get(key)!
+          return {
+            user_id: user.id,
+            description_key: key,
+            description: correction.description,
+            category: correction.category,
+            times_corrected: (previousCounts.get(key) || 0) + correction.count
+          }
+        }), { onConflict: 'user_id,description_key' })
+        .select()
+
+      if (error) {
+        console.error('CategoryCorrectionService: Database error:', error)
+        throw new Error(`Failed to record corrections: ${error.message}`)
+      }
+
+      return (data as unknown as DatabaseCategoryCorrection[]).map(mapDatabaseToCorrection)
+    } catch (error) {
+      console.error('CategoryCorrectionService: Error in recordCorrections:', error)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { DebtAccount } from '@/types'
+
+export interface DatabaseDebt {
+  id: string
+  user_id: string
+  name: string
+  type: string
+  balance: number
+  interest_rate: number
+  minimum_payment: number
+  credit_limit: number | null
+  created_at: string
+  updated_at: string
+}
+
+// Convert database debt to app debt
+const mapDatabaseToDebt = (dbDebt: DatabaseDebt): DebtAccount => ({
+  id: dbDebt.id,
+  name: dbDebt.name,
+  type: dbDebt.type as DebtAccount['type'],
+  balance: dbDebt.balance,
+  interestRate: dbDebt.interest_rate,
+  minimumPayment: dbDebt.minimum_payment,
+  creditLimit: dbDebt.credit_limit ?? undefined
+})
+
+// Convert app debt to database format
+const mapDebtToDatabase = (debt: Omit<DebtAccount, 'id'>, userId: string) => ({
+  user_id: userId,
+  name: debt.name,
+  type: debt.type,
+  balance: debt.balance,
+  interest_rate: debt.interestRate,
+  minimum_payment: debt.minimumPayment,
+  credit_limit: debt.creditLimit ?? null
+})
+
+export class DebtService {
+  // Get all debts for the current user
+  static async getDebts(): Promise<DebtAccount[]> {
+    try {
+      console.log('DebtService: Getting debts...')
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        console.log('DebtService: No authenticated user')
+        return []
+      }
+
+      const { data, error } = await supabase
+        .from('debts')
+        .select('*')
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('DebtService: Error fetching debts:', error)
+        // Return empty array instead of throwing to handle missing table gracefully
+        return []
+      }
+
+      console.log('DebtService: Fetched debts:', data?.length || 0)
+      return (data as unknown as DatabaseDebt[])?.map(mapDatabaseToDebt) || []
+    } catch (error) {
+      console.error('DebtService: Error in getDebts:', error)
+      return []
+    }
+  }
+
+  // Add a new debt
+  static async addDebt(debt: Omit<DebtAccount, 'id'>): Promise<DebtAccount> {
+    try {
+      console.log('DebtService: Adding debt:', debt)
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      const dbDebt = mapDebtToDatabase(debt, user.id)
+
+      const { data, error } = await supabase
+        .from('debts')
+        .insert([dbDebt])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('DebtService: Database error:', error)
+        throw new Error(`Failed to add debt: ${error.message}`)
+      }
+
+      console.log('DebtService: Debt added successfully:', data)
+      return mapDatabaseToDebt(data as unknown as DatabaseDebt)
+    } catch (error) {
+      console.error('DebtService: Error in addDebt:', error)
+      throw error
+    }
+  }
+
+  // Update a debt
+  static async updateDebt(id: string, updates: Partial<Omit<DebtAccount, 'id'>>): Promise<DebtAccount> {
+    try {
+      const updateData: any = {}
+
+      if (updates.name !== undefined) updateData.name = updates.name
+      if (updates.type !== undefined) updateData.type = updates.type
+      if (updates.balance !== undefined) updateData.balance = updates.balance
+      if (updates.interestRate !== undefined) updateData.interest_rate = updates.interestRate
+      if (updates.minimumPayment !== undefined) updateData.minimum_payment = updates.minimumPayment
+      if ('creditLimit' in updates) updateData.credit_limit = updates.creditLimit ?? null
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('debts')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating debt:', error)
+        throw new Error(`Failed to update debt: ${error.message}`)
+      }
+
+      return mapDatabaseToDebt(data as unknown as DatabaseDebt)
+    } catch (error) {
+      console.error('Error in updateDebt:', error)
+      throw error
+    }
+  }
+
+  // Delete a debt
+  static async deleteDebt(id: string): Promise<void> {
+    try {
+      const supabase = createSupabaseClient()
+      const { error } = await supabase
+        .from('debts')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting debt:', error)
+        throw new Error(`Failed to delete debt: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error in deleteDebt:', error)
+      throw error
+    }
+  }
+
+  // Get total outstanding balance across all debts
+  static async getTotalDebt(): Promise<number> {
+    try {
+      const debts = await this.getDebts()
+      return debts.reduce((sum, debt) => sum + debt.balance, 0)
+    } catch (error) {
+      console.error('Error in getTotalDebt:', error)
+      throw error
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Transaction, Budget } from '@/types'
+import { formatCurrency } from '@/lib/formatting'
 
 // Emergency Fund Types
 export interface EmergencyFundRecommendation {
@@ -433,9 +434,10 @@ class EmergencyFundService {
     })
   }
 
-  // Private helper methods
-
-  private calculateMonthlyExpenses(transactions: Transaction[]): number {
+  /**
+   * Average monthly expenses over the span of the transactions
+   */
+  calculateMonthlyExpenses(transactions: Transaction[]): number {
     const expenseTransactions = transactions.filter(t => t.type === 'expense')
     if (expenseTransactions.length === 0) return 0
 
@@ -445,6 +447,21 @@ class EmergencyFundService {
     return totalExpenses / Math.max(monthsSpan, 1)
   }
 
+  /**
+   * Average monthly income over the span of the transactions
+   */
+  calculateMonthlyIncome(transactions: Transaction[]): number {
+    const incomeTransactions = transactions.filter(t => t.type === 'income')
+    if (incomeTransactions.length === 0) return 0
+
+    const totalIncome = incomeTransactions.reduce((sum, t) => sum + t.amount, 0)
+    const monthsSpan = this.getMonthsSpan(incomeTransactions)
+    
+    return totalIncome / Math.max(monthsSpan, 1)
+  }
+
+  // Private helper methods
+
   private calculateTargetMonths(
     riskAssessment: RiskAssessment,
     userProfile?: { dependents?: number; jobType?: string }
@@ -495,7 +512,7 @@ class EmergencyFundService {
     } else if (progressPercentage >= 25) {
       return `You've made a start with ${progressPercentage.toFixed(0)}% of your target. Given your ${riskAssessment.overallRisk} risk level, prioritize building your emergency fund to ${targetMonths} months of expenses.`
     } else {
-      return `Building an emergency fund should be a priority. With your ${riskAssessment.overallRisk} risk profile, aim for ${targetMonths} months of expenses (${this.formatCurrency(recommendedAmount)}) to protect against financial emergencies.`
+      return `Building an emergency fund should be a priority. With your ${riskAssessment.overallRisk} risk profile, aim for ${targetMonths} months of expenses (${formatCurrency(recommendedAmount)}) to protect against financial emergencies.`
     }
   }
 
@@ -641,16 +658,6 @@ class EmergencyFundService {
     return 'high'
   }
 
-  private calculateMonthlyIncome(transactions: Transaction[]): number {
-    const incomeTransactions = transactions.filter(t => t.type === 'income')
-    if (incomeTransactions.length === 0) return 0
-
-    const totalIncome = incomeTransactions.reduce((sum, t) => sum + t.amount, 0)
-    const monthsSpan = this.getMonthsSpan(incomeTransactions)
-    
-    return totalIncome / Math.max(monthsSpan, 1)
-  }
-
   private getMonthsSpan(transactions: Transaction[]): number {
     if (transactions.length === 0) return 1
 
@@ -673,13 +680,6 @@ class EmergencyFundService {
     return monthlyData
   }
 
-  private formatCurrency(amount: number): string {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount)
-  }
-
   private getDefaultRecommendation(currentAmount: number): EmergencyFundRecommendation {
     return {
       recommendedAmount: 15000, // Default $15k recommendation
@@ -0,0 +1,109 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { ExchangeRate, ExchangeRateSource, NewExchangeRate } from '@/types'
+
+export interface DatabaseExchangeRate {
+  id: string
+  user_id: string
+  date: string
+  from_currency: string
+  to_currency: string
+  rate: number
+  source: ExchangeRateSource
+  created_at: string
+  updated_at: string
+}
+
+// Convert database rate to app rate
+export const mapDatabaseToExchangeRate = (dbRate: DatabaseExchangeRate): ExchangeRate => ({
+  id: dbRate.id,
+  date: new Date(dbRate.date),
+  fromCurrency: dbRate.from_currency,
+  toCurrency: dbRate.to_currency,
+  rate: Number(dbRate.rate),
+  source: dbRate.source,
+  createdAt: new Date(dbRate.created_at)
+})
+
+export class ExchangeRateService {
+  // Get all saved exchange rates for the current user, oldest first
+  static async getRates(): Promise<ExchangeRate[]> {
+    try {
+      console.log('ExchangeRateService: Getting rates...')
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .order('date', { ascending: true })
+
+      if (error) {
+        console.error('ExchangeRateService: Error fetching rates:', error)
+        // Return empty array instead of throwing to handle missing table gracefully
+        return []
+      }
+
+      console.log('ExchangeRateService: Fetched rates:', data.length)
+      return (data as unknown as DatabaseExchangeRate[]).map(mapDatabaseToExchangeRate)
+    } catch (error) {
+      console.error('ExchangeRateService: Error in getRates:', error)
+      return []
+    }
+  }
+
+  // Save rates, replacing any already saved for the same pair and day
+  static async saveRates(rates: NewExchangeRate[]): Promise<ExchangeRate[]> {
+    try {
+      if (rates.length === 0) return []
+      console.log('ExchangeRateService: Saving rates:', rates.length)
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .upsert(rates.map(rate => ({
+          user_id: user.id,
+          date: rate.date.toISOString().split('T')[0],
+          from_currency: rate.fromCurrency,
+          to_currency: rate.toCurrency,
+          rate: rate.rate,
+          source: rate.source
+        })), { onConflict: 'user_id,date,from_currency,to_currency' })
+        .select()
+
+      if (error) {
+        console.error('ExchangeRateService: Database error:', error)
+        throw new Error(`Failed to save exchange rates: ${error.message}`)
+      }
+
+      console.log('ExchangeRateService: Rates saved successfully')
+      return (data as unknown as DatabaseExchangeRate[]).map(mapDatabaseToExchangeRate)
+    } catch (error) {
+      console.error('ExchangeRateService: Error in saveRates:', error)
+      throw error
+    }
+  }
+
+  // Delete an exchange rate
+  static async deleteRate(id: string): Promise<void> {
+    try {
+      const supabase = createSupabaseClient()
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('ExchangeRateService: Error deleting rate:', error)
+        throw new Error(`Failed to delete exchange rate: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('ExchangeRateService: Error in deleteRate:', error)
+      throw error
+    }
+  }
+}
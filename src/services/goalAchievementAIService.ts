@@ -1,4 +1,5 @@
 import { Transaction, Budget } from '@/types'
+import { formatCurrency } from '@/lib/formatting'
 
 // Goal Achievement AI Types
 export interface FinancialGoal {
@@ -427,12 +428,12 @@ class GoalAchievementAIService {
         
         optimizations.push({
           goalId: goal.id,
-          currentStrategy: `Contributing $${progress.currentMonthlyAmount.toFixed(0)}/month`,
-          optimizedStrategy: `Increase to $${progress.recommendedMonthlyAmount.toFixed(0)}/month`,
+          currentStrategy: `Contributing ${formatCurrency(progress.currentMonthlyAmount, { decimals: 0 })}/month`,
+          optimizedStrategy: `Increase to ${formatCurrency(progress.recommendedMonthlyAmount, { decimals: 0 })}/month`,
           potentialTimeSaving: Math.max(0, progress.monthsRemaining * 0.3),
           potentialCostSaving: 0,
           actionSteps: [
-            `Find an additional $${currentGap.toFixed(0)}/month in budget`,
+            `Find an additional ${formatCurrency(currentGap, { decimals: 0 })}/month in budget`,
             'Consider automating increased contributions',
             'Review and reduce non-essential expenses',
             'Look for opportunities to increase income'
@@ -504,7 +505,7 @@ class GoalAchievementAIService {
       insights.push({
         type: 'opportunity',
         title: 'High surplus income detected',
-        description: `You have approximately $${surplus.toFixed(0)} monthly surplus that could accelerate your goals.`,
+        description: `You have approximately ${formatCurrency(surplus, { decimals: 0 })} monthly surplus that could accelerate your goals.`,
         impact: 'high',
         actionable: true,
         suggestions: [
@@ -0,0 +1,261 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { toDateString } from '@/lib/budgetPeriods'
+import { ImportBatch, ImportBatchOptions, Transaction } from '@/types'
+import { TransactionService } from './transactions'
+
+export interface DatabaseImportBatch {
+  id: string
+  user_id: string
+  file_names: string[]
+  options: ImportBatchOptions
+  imported_count: number
+  duplicate_count: number
+  error_count: number
+  changed_transactions: DatabaseTransactionSnapshot[] | null
+  reverted_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// The fields an import can change on an existing transaction, as they were before it
+export interface DatabaseTransactionSnapshot {
+  id: string
+  date: string
+  description: string
+  category: string
+  amount: number
+  currency: string | null
+  type: Transaction['type']
+  account_id: string | null
+  transfer_account_id: string | null
+  external_id: string | null
+}
+
+const mapSnapshotToTransaction = (snapshot: DatabaseTransactionSnapshot): Transaction => ({
+  id: snapshot.id,
+  date: new Date(snapshot.date),
+  description: snapshot.description,
+  category: snapshot.category,
+  amount: snapshot.amount,
+  currency: snapshot.currency || undefined,
+  type: snapshot.type,
+  accountId: snapshot.account_id || undefined,
+  transferAccountId: snapshot.transfer_account_id || undefined,
+  externalId: snapshot.external_id || undefined
+})
+
+const mapTransactionToSnapshot = (transaction: Transaction): DatabaseTransactionSnapshot => ({
+  id: transaction.id,
+  date: toDateString(transaction.date),
+  description: transaction.description,
+  category: transaction.category,
+  amount: transaction.amount,
+  currency: transaction.currency || null,
+  type: transaction.type,
+  account_id: transaction.accountId || null,
+  transfer_account_id: transaction.transferAccountId || null,
+  external_id: transaction.externalId || null
+})
+
+// Convert database batch to app batch
+const mapDatabaseToBatch = (dbBatch: DatabaseImportBatch): ImportBatch => ({
+  id: dbBatch.id,
+  fileNames: dbBatch.file_names || [],
+  options: dbBatch.options || {},
+  importedCount: dbBatch.imported_count,
+  duplicateCount: dbBatch.duplicate_count,
+  errorCount: dbBatch.error_count,
+  changedTransactions: (dbBatch.changed_transactions || []).map(mapSnapshotToTransaction),
+  revertedAt: dbBatch.reverted_at ? new Date(dbBatch.reverted_at) : undefined,
+  createdAt: new Date(dbBatch.created_at)
+})
+
+export class ImportBatchService {
+  // Get the current user's imports, newest first
+  static async getBatches(): Promise<ImportBatch[]> {
+    try {
+      console.log('ImportBatchService: Getting import batches...')
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('import_batches')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('ImportBatchService: Error fetching import batches:', error)
+        // Return empty array instead of throwing to handle missing table gracefully
+        return []
+      }
+
+      console.log('ImportBatchService: Fetched import batches:', data.length)
+      return (data as unknown as DatabaseImportBatch[]).map(mapDatabaseToBatch)
+    } catch (error) {
+      console.error('ImportBatchService: Error in getBatches:', error)
+      return []
+    }
+  }
+
+  // Record an import before its transactions are added, so they can be tagged with its id
+  static async createBatch(batch: Omit<ImportBatch, 'id' | 'changedTransactions' | 'revertedAt' | 'createdAt'>): Promise<ImportBatch> {
+    try {
+      console.log('ImportBatchService: Creating import batch:', batch.fileNames)
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      const { data, error } = await supabase
+        .from('import_batches')
+        .insert([{
+          user_id: user.id,
+          file_names: batch.fileNames,
+          options: batch.options,
+          imported_count: batch.importedCount,
+          duplicate_count: batch.duplicateCount,
+          error_count: batch.errorCount
+        }])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('ImportBatchService: Database error:', error)
+        throw new Error(`Failed to create import batch: ${error.message}`)
+      }
+
+      return mapDatabaseToBatch(data as unknown as DatabaseImportBatch)
+    } catch (error) {
+      console.error('ImportBatchService: Error in createBatch:', error)
+      throw error
+    }
+  }
+
+  // Update the counts of an import, and the transactions it changed, once its transactions are added
+  static async updateBatch(
+    id: string,
+    updates: Partial<Pick<ImportBatch, 'importedCount' | 'duplicateCount' | 'errorCount' | 'changedTransactions'>>
+  ): Promise<ImportBatch> {
+    try {
+      const updateData: any = {}
+
+      if (updates.importedCount !== undefined) updateData.imported_count = updates.importedCount
+      if (updates.duplicateCount !== undefined) updateData.duplicate_count = updates.duplicateCount
+      if (updates.errorCount !== undefined) updateData.error_count = updates.errorCount
+      if (updates.changedTransactions !== undefined) {
+        updateData.changed_transactions = updates.changedTransactions.map(mapTransactionToSnapshot)
+      }
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('import_batches')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating import batch:', error)
+        throw new Error(`Failed to update import batch: ${error.message}`)
+      }
+
+      return mapDatabaseToBatch(data as unknown as DatabaseImportBatch)
+    } catch (error) {
+      console.error('Error in updateBatch:', error)
+      throw error
+    }
+  }
+
+  // Delete an import from the history; its transactions are kept
+  static async deleteBatch(id: string): Promise<void> {
+    try {
+      const supabase = createSupabaseClient()
+      const { error } = await supabase
+        .from('import_batches')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting import batch:', error)
+        throw new Error(`Failed to delete import batch: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error in deleteBatch:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Revert an import: put back the existing transactions it changed as they were before it,
+   * delete exactly the transactions it added (the budget triggers recalculate spent amounts)
+   * and mark it reverted. Transactions deleted since are not brought back. Returns the
+   * restored transactions and the ids deleted.
+   */
+  static async revertBatch(id: string): Promise<{ batch: ImportBatch; deletedIds: string[]; restored: Transaction[] }> {
+    try {
+      console.log('ImportBatchService: Reverting import batch:', id)
+
+      const supabase = createSupabaseClient()
+      const { data: dbBatch, error: fetchError } = await supabase
+        .from('import_batches')
+        .select('*')
+        .eq('id', id)
+        .single()
+
+      if (fetchError) {
+        console.error('ImportBatchService: Database error:', fetchError)
+        throw new Error(`Failed to revert import: ${fetchError.message}`)
+      }
+
+      const changed = mapDatabaseToBatch(dbBatch as unknown as DatabaseImportBatch).changedTransactions
+      const { data: existing, error: existingError } = await supabase
+        .from('transactions')
+        .select('id')
+        .in('id', changed.map(t => t.id))
+
+      if (existingError) {
+        console.error('ImportBatchService: Database error:', existingError)
+        throw new Error(`Failed to revert import: ${existingError.message}`)
+      }
+
+      const existingIds = new Set((existing as Array<{ id: string }>).map(row => row.id))
+      const restored: Transaction[] = []
+      for (const { id: transactionId, ...before } of changed.filter(t => existingIds.has(t.id))) {
+        // The snapshot names every field, so values the import added (an external id) are cleared
+        restored.push(await TransactionService.updateTransaction(transactionId, before))
+      }
+
+      const { data: deleted, error: deleteError } = await supabase
+        .from('transactions')
+        .delete()
+        .eq('import_batch_id', id)
+        .select('id')
+
+      if (deleteError) {
+        console.error('ImportBatchService: Database error:', deleteError)
+        throw new Error(`Failed to revert import: ${deleteError.message}`)
+      }
+
+      const { data, error } = await supabase
+        .from('import_batches')
+        .update({ reverted_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('ImportBatchService: Database error:', error)
+        throw new Error(`Failed to revert import: ${error.message}`)
+      }
+
+      const deletedIds = (deleted as Array<{ id: string }>).map(row => row.id)
+      console.log('ImportBatchService: Reverted import batch, deleted transactions:', deletedIds.length, 'restored:', restored.length)
+      return { batch: mapDatabaseToBatch(data as unknown as DatabaseImportBatch), deletedIds, restored }
+    } catch (error) {
+      console.error('ImportBatchService: Error in revertBatch:', error)
+      throw error
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Transaction, Budget } from '@/types'
+import { formatCurrency } from '@/lib/formatting'
 
 // Investment Recommendation Types
 export interface InvestmentRecommendation {
@@ -370,7 +371,7 @@ class InvestmentRecommendationsService {
         timeframe: 'immediate',
         actionSteps: [
           'Set up automatic monthly investments',
-          `Start with $${Math.min(profile.monthlyInvestmentCapacity, 500)} per month`,
+          `Start with ${formatCurrency(Math.min(profile.monthlyInvestmentCapacity, 500), { decimals: 0 })} per month`,
           'Increase amount annually or with income growth'
         ],
         expectedBenefit: 'Reduced market timing risk and disciplined wealth building'
@@ -393,7 +394,7 @@ class InvestmentRecommendationsService {
   private generateNextSteps(profile: InvestorProfile, portfolio: PortfolioAllocation): string[] {
     return [
       'Open investment accounts (401k, IRA, or taxable brokerage)',
-      `Start with $${Math.min(profile.monthlyInvestmentCapacity * 3, 1000)} initial investment`,
+      `Start with ${formatCurrency(Math.min(profile.monthlyInvestmentCapacity * 3, 1000), { decimals: 0 })} initial investment`,
       'Set up automatic monthly contributions',
       'Review and rebalance portfolio quarterly',
       'Continue learning through books, courses, or financial advisor consultation',
@@ -1,4 +1,58 @@
 import { createWorker, Worker, PSM } from 'tesseract.js'
+import { ImagePreprocessing, OCRConfidenceComparison, Receipt } from '@/types'
+import { parseReceiptText } from '@/lib/receipts'
+import { adaptiveThreshold, estimateSkewAngle, getScaledSize, normalizeContrast, toGrayscale } from '@/lib/imagePreprocessing'
+
+// Larger photos are scaled down before OCR; more pixels only slow Tesseract down
+const MAX_OCR_DIMENSION = 2000
+
+// Skew below this many degrees is left alone
+const MIN_DESKEW_DEGREES = 0.5
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) {
+    throw new Error('Canvas is not available')
+  }
+  return { canvas, context }
+}
+
+// Draw gray levels onto a canvas
+const putGray = (context: CanvasRenderingContext2D, gray: Uint8ClampedArray, width: number, height: number) => {
+  const image = context.createImageData(width, height)
+  gray.forEach((value, i) => {
+    image.data[i * 4] = value
+    image.data[i * 4 + 1] = value
+    image.data[i * 4 + 2] = value
+    image.data[i * 4 + 3] = 255
+  })
+  context.putImageData(image, 0, 0)
+}
+
+// Rotate a gray image by -degrees around its center onto a white canvas large enough to hold it
+const rotateGray = (gray: Uint8ClampedArray, width: number, height: number, degrees: number) => {
+  const source = createCanvas(width, height)
+  putGray(source.context, gray, width, height)
+
+  const radians = (-degrees * Math.PI) / 180
+  const rotatedWidth = Math.ceil(Math.abs(width * Math.cos(radians)) + Math.abs(height * Math.sin(radians)))
+  const rotatedHeight = Math.ceil(Math.abs(width * Math.sin(radians)) + Math.abs(height * Math.cos(radians)))
+  const target = createCanvas(rotatedWidth, rotatedHeight)
+  target.context.fillStyle = '#ffffff'
+  target.context.fillRect(0, 0, rotatedWidth, rotatedHeight)
+  target.context.translate(rotatedWidth / 2, rotatedHeight / 2)
+  target.context.rotate(radians)
+  target.context.drawImage(source.canvas, -width / 2, -height / 2)
+
+  return {
+    gray: toGrayscale(target.context.getImageData(0, 0, rotatedWidth, rotatedHeight).data),
+    width: rotatedWidth,
+    height: rotatedHeight
+  }
+}
 
 /**
  * OCR Service for processing scanned documents and images
@@ -28,7 +82,7 @@ class OCRService {
 
       // Optimize for financial documents
       await this.worker.setParameters({
-        tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz .,/-+()$€£¥₹',
+        tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz .,/-+()@$€£¥₹',
         tessedit_pageseg_mode: PSM.SINGLE_BLOCK, // Uniform block of text
       })
 
@@ -40,14 +94,18 @@ class OCRService {
   }
 
   /**
-   * Process an image file and extract text using OCR
+   * Process an image file and extract text using OCR. The image is preprocessed first; with
+   * compare (the default) the original is read too and the more confident reading is used.
    */
-  async processImage(file: File): Promise<{
+  async processImage(file: File, options: { preprocess?: boolean; compare?: boolean } = {}): Promise<{
     text: string
     confidence: number
     processingTime: number
+    preprocessing?: ImagePreprocessing
+    comparison?: OCRConfidenceComparison
   }> {
     const startTime = Date.now()
+    const { preprocess = true, compare = true } = options
 
     try {
       // Validate file type
@@ -67,15 +125,41 @@ class OCRService {
         throw new Error('OCR worker not initialized')
       }
 
+      // Preprocessing only helps; when it fails the original image is read as it is
+      let preprocessing: ImagePreprocessing | undefined
+      if (preprocess) {
+        try {
+          preprocessing = await this.preprocessImage(file)
+        } catch (error) {
+          console.warn('OCR preprocessing failed, reading the original image:', error)
+        }
+      }
+
       // Process the image
-      const result = await this.worker.recognize(file)
-      
+      const processed = preprocessing && await this.worker.recognize(preprocessing.file)
+      const original = !processed || compare ? await this.worker.recognize(file) : undefined
+
+      const comparison: OCRConfidenceComparison | undefined = processed && original && {
+        original: original.data.confidence / 100,
+        preprocessed: processed.data.confidence / 100,
+        used: processed.data.confidence >= original.data.confidence ? 'preprocessed' : 'original'
+      }
+      if (comparison) {
+        console.log(`OCR confidence: ${Math.round(comparison.original * 100)}% original, ${Math.round(comparison.preprocessed * 100)}% preprocessed`)
+      }
+
+      const result = processed && comparison?.used !== 'original' ? processed : original
+      if (!result) {
+        throw new Error('OCR produced no result')
+      }
       const processingTime = Date.now() - startTime
       
       return {
         text: result.data.text.trim(),
         confidence: result.data.confidence / 100, // Convert to 0-1 scale
-        processingTime
+        processingTime,
+        preprocessing,
+        comparison
       }
 
     } catch (error) {
@@ -100,6 +184,29 @@ class OCRService {
     }
   }
 
+  /**
+   * Process a photo of a receipt into its merchant, date, line items and totals
+   */
+  async processReceipt(file: File): Promise<{
+    receipt: Receipt
+    processingTime: number
+    preprocessing?: ImagePreprocessing
+    comparison?: OCRConfidenceComparison
+  }> {
+    const { text, confidence, processingTime, preprocessing, comparison } = await this.processImage(file)
+
+    if (!text) {
+      throw new Error('No text found in the image. Try a sharper, well-lit photo of the receipt.')
+    }
+
+    return {
+      receipt: parseReceiptText(text, confidence),
+      processingTime,
+      preprocessing,
+      comparison
+    }
+  }
+
   /**
    * Process multiple images in sequence
    */
@@ -162,22 +269,60 @@ class OCRService {
   }
 
   /**
-   * Preprocess image for better OCR results
-   * This could include noise reduction, contrast enhancement, etc.
+   * Preprocess image for better OCR results: downscale huge photos, convert to grayscale,
+   * stretch the contrast, straighten skewed text and threshold to black and white.
+   * Needs a browser canvas.
    */
-  async preprocessImage(file: File): Promise<File> {
-    // For now, return the original file
-    // In the future, we could add image preprocessing here
-    return file
+  async preprocessImage(file: File): Promise<ImagePreprocessing> {
+    if (typeof document === 'undefined' || typeof createImageBitmap !== 'function') {
+      throw new Error('Image preprocessing needs a browser canvas')
+    }
+
+    const bitmap = await createImageBitmap(file)
+    const originalWidth = bitmap.width
+    const originalHeight = bitmap.height
+    const { width, height } = getScaledSize(originalWidth, originalHeight, MAX_OCR_DIMENSION)
+
+    const { context } = createCanvas(width, height)
+    context.drawImage(bitmap, 0, 0, width, height)
+    bitmap.close()
+
+    let image = {
+      gray: normalizeContrast(toGrayscale(context.getImageData(0, 0, width, height).data)),
+      width,
+      height
+    }
+
+    const skewAngle = estimateSkewAngle(adaptiveThreshold(image.gray, width, height), width, height)
+    if (Math.abs(skewAngle) >= MIN_DESKEW_DEGREES) {
+      image = rotateGray(image.gray, width, height, skewAngle)
+    }
+
+    const output = createCanvas(image.width, image.height)
+    putGray(output.context, adaptiveThreshold(image.gray, image.width, image.height), image.width, image.height)
+
+    const blob = await new Promise<Blob | null>(resolve => output.canvas.toBlob(resolve, 'image/png'))
+    if (!blob) {
+      throw new Error('Failed to encode the preprocessed image')
+    }
+
+    return {
+      file: new File([blob], file.name.replace(/\.[^.]+$/, '') + '-preprocessed.png', { type: 'image/png' }),
+      originalWidth,
+      originalHeight,
+      width,
+      height,
+      skewAngle
+    }
   }
 
   /**
    * Estimate processing time based on image size
    */
   estimateProcessingTime(file: File): number {
-    // Rough estimate: 1-3 seconds per MB
+    // Rough estimate: 1-3 seconds per MB, read twice to compare with the preprocessed image
     const sizeMB = file.size / (1024 * 1024)
-    return Math.max(2, Math.min(30, sizeMB * 2)) // Between 2-30 seconds
+    return Math.max(4, Math.min(60, sizeMB * 4)) // Between 4-60 seconds
   }
 }
 
@@ -0,0 +1,102 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { DEFAULT_PREFERENCES } from '@/lib/formatting'
+import { DateFormat, UserPreferences } from '@/types'
+
+export interface DatabaseUserPreferences {
+  user_id: string
+  currency: string
+  locale: string
+  date_format: DateFormat
+  notifications: boolean
+  email_reports: boolean
+  budget_alerts: boolean
+  theme: UserPreferences['theme']
+  accent_color: string
+  font_size: UserPreferences['fontSize']
+  compact_mode: boolean
+  created_at: string
+  updated_at: string
+}
+
+// Convert database preferences to app preferences
+export const mapDatabaseToPreferences = (dbPreferences: DatabaseUserPreferences): UserPreferences => ({
+  currency: dbPreferences.currency,
+  locale: dbPreferences.locale,
+  dateFormat: dbPreferences.date_format,
+  notifications: dbPreferences.notifications,
+  emailReports: dbPreferences.email_reports,
+  budgetAlerts: dbPreferences.budget_alerts,
+  theme: dbPreferences.theme,
+  accentColor: dbPreferences.accent_color,
+  fontSize: dbPreferences.font_size,
+  compactMode: dbPreferences.compact_mode
+})
+
+export class PreferencesService {
+  // Get the current user's preferences; the defaults until they save any
+  static async getPreferences(): Promise<UserPreferences> {
+    try {
+      console.log('PreferencesService: Getting preferences...')
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .select('*')
+        .maybeSingle()
+
+      if (error) {
+        console.error('PreferencesService: Error fetching preferences:', error)
+        // Fall back to the defaults instead of throwing to handle missing table gracefully
+        return DEFAULT_PREFERENCES
+      }
+
+      return data ? mapDatabaseToPreferences(data as unknown as DatabaseUserPreferences) : DEFAULT_PREFERENCES
+    } catch (error) {
+      console.error('PreferencesService: Error in getPreferences:', error)
+      return DEFAULT_PREFERENCES
+    }
+  }
+
+  // Save the current user's preferences, creating their row the first time
+  static async savePreferences(preferences: UserPreferences): Promise<UserPreferences> {
+    try {
+      console.log('PreferencesService: Saving preferences...')
+
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .upsert({
+          user_id: user.id,
+          currency: preferences.currency,
+          locale: preferences.locale,
+          date_format: preferences.dateFormat,
+          notifications: preferences.notifications,
+          email_reports: preferences.emailReports,
+          budget_alerts: preferences.budgetAlerts,
+          theme: preferences.theme,
+          accent_color: preferences.accentColor,
+          font_size: preferences.fontSize,
+          compact_mode: preferences.compactMode
+        }, { onConflict: 'user_id' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('PreferencesService: Database error:', error)
+        throw new Error(`Failed to save preferences: ${error.message}`)
+      }
+
+      console.log('PreferencesService: Preferences saved successfully')
+      return mapDatabaseToPreferences(data as unknown as DatabaseUserPreferences)
+    } catch (error) {
+      console.error('PreferencesService: Error in savePreferences:', error)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { toDateString } from '@/lib/budgetPeriods'
+import { RecurringMaterializationResult, RecurringTransaction } from '@/types'
+
+export interface DatabaseRecurringTransaction {
+  id: string
+  user_id: string
+  description: string
+  category: string
+  amount: number
+  currency: string
+  type: 'income' | 'expense'
+  frequency: string
+  account_id: string | null
+  start_date: string
+  end_date: string | null
+  next_occurrence: string
+  amount_variance: number
+  is_active: boolean
+  last_materialized_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type NewRecurringTransaction = Omit<RecurringTransaction, 'id' | 'nextOccurrence' | 'isActive' | 'lastMaterializedAt' | 'createdAt' | 'updatedAt'>
+
+// Convert database recurring transaction to app recurring transaction
+export const mapDatabaseToRecurringTransaction = (dbRecurring: DatabaseRecurringTransaction): RecurringTransaction => ({
+  id: dbRecurring.id,
+  description: dbRecurring.description,
+  category: dbRecurring.category,
+  amount: dbRecurring.amount,
+  currency: dbRecurring.currency,
+  type: dbRecurring.type,
+  frequency: dbRecurring.frequency as RecurringTransaction['frequency'],
+  accountId: dbRecurring.account_id || undefined,
+  startDate: new Date(dbRecurring.start_date),
+  endDate: dbRecurring.end_date ? new Date(dbRecurring.end_date) : undefined,
+  nextOccurrence: new Date(dbRecurring.next_occurrence),
+  amountVariance: dbRecurring.amount_variance,
+  isActive: dbRecurring.is_active,
+  lastMaterializedAt: dbRecurring.last_materialized_at ? new Date(dbRecurring.last_materialized_at) : undefined,
+  createdAt: new Date(dbRecurring.created_at),
+  updatedAt: new Date(dbRecurring.updated_at)
+})
+
+// Convert app recurring transaction to database format
+const mapRecurringTransactionToDatabase = (recurring: NewRecurringTransaction, userId: string) => ({
+  user_id: userId,
+  description: recurring.description,
+  category: recurring.category,
+  amount: recurring.amount,
+  currency: recurring.currency,
+  type: recurring.type,
+  frequency: recurring.frequency,
+  account_id: recurring.accountId || null,
+  start_date: toDateString(recurring.startDate),
+  end_date: recurring.endDate ? toDateString(recurring.endDate) : null,
+  // The first occurrence is the start date itself
+  next_occurrence: toDateString(recurring.startDate),
+  amount_variance: recurring.amountVariance
+})
+
+export class RecurringTransactionService {
+  // Get all recurring rules for the current user
+  static async getRecurringTransactions(): Promise<RecurringTransaction[]> {
+    try {
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        return []
+      }
+
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .select('*')
+        .order('next_occurrence', { ascending: true })
+
+      if (error) {
+        console.error('RecurringTransactionService: Error fetching recurring transactions:', error)
+        // Return empty array instead of throwing to handle missing table gracefully
+        return []
+      }
+
+      return (data as unknown as DatabaseRecurringTransaction[]).map(mapDatabaseToRecurringTransaction)
+    } catch (error) {
+      console.error('RecurringTransactionService: Error in getRecurringTransactions:', error)
+      return []
+    }
+  }
+
+  // Add a new recurring rule
+  static async addRecurringTransaction(recurring: NewRecurringTransaction): Promise<RecurringTransaction> {
+    try {
+      const supabase = createSupabaseClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        throw new Error('User not authenticated')
+      }
+
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .insert([mapRecurringTransactionToDatabase(recurring, user.id)])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('RecurringTransactionService: Database error:', error)
+        throw new Error(`Failed to add recurring transaction: ${error.message}`)
+      }
+
+      return mapDatabaseToRecurringTransaction(data as unknown as DatabaseRecurringTransaction)
+    } catch (error) {
+      console.error('RecurringTransactionService: Error in addRecurringTransaction:', error)
+      throw error
+    }
+  }
+
+  // Update a recurring rule
+  static async updateRecurringTransaction(id: string, updates: Partial<Omit<RecurringTransaction, 'id' | 'createdAt' | 'updatedAt'>>): Promise<RecurringTransaction> {
+    try {
+      const updateData: any = {}
+
+      if (updates.description !== undefined) updateData.description = updates.description
+      if (updates.category !== undefined) updateData.category = updates.category
+      if (updates.amount !== undefined) updateData.amount = updates.amount
+      if (updates.type !== undefined) updateData.type = updates.type
+      if (updates.frequency !== undefined) updateData.frequency = updates.frequency
+      if ('accountId' in updates) updateData.account_id = updates.accountId || null
+      if (updates.startDate !== undefined) updateData.start_date = toDateString(updates.startDate)
+      if ('endDate' in updates) updateData.end_date = updates.endDate ? toDateString(updates.endDate) : null
+      if (updates.nextOccurrence !== undefined) updateData.next_occurrence = toDateString(updates.nextOccurrence)
+      if (updates.amountVariance !== undefined) updateData.amount_variance = updates.amountVariance
+      if (updates.isActive !== undefined) updateData.is_active = updates.isActive
+
+      const supabase = createSupabaseClient()
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating recurring transaction:', error)
+        throw new Error(`Failed to update recurring transaction: ${error.message}`)
+      }
+
+      return mapDatabaseToRecurringTransaction(data as unknown as DatabaseRecurringTransaction)
+    } catch (error) {
+      console.error('Error in updateRecurringTransaction:', error)
+      throw error
+    }
+  }
+
+  // Delete a recurring rule (transactions it already created are kept)
+  static async deleteRecurringTransaction(id: string): Promise<void> {
+    try {
+      const supabase = createSupabaseClient()
+      const { error } = await supabase
+        .from('recurring_transactions')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('Error deleting recurring transaction:', error)
+        throw new Error(`Failed to delete recurring transaction: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error in deleteRecurringTransaction:', error)
+      throw error
+    }
+  }
+
+  // Ask the server to create transactions for every occurrence that is due
+  static async materializeDueOccurrences(): Promise<RecurringMaterializationResult> {
+    const response = await fetch('/api/recurring-transactions/materialize', {
+      method: 'POST',
+      credentials: 'include'
+    })
+
+    const result = await response.json()
+
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to materialize recurring transactions')
+    }
+
+    return result as RecurringMaterializationResult
+  }
+}
@@ -1,4 +1,6 @@
-import { Transaction, Budget } from '@/types'
+import { Transaction, Budget, Category } from '@/types'
+import { getRootCategoryName } from '@/lib/categories'
+import { getCategoryAllocations } from '@/lib/splits'
 import { goalAchievementAIService } from './goalAchievementAIService'
 
 // Savings Optimization Types
@@ -124,7 +126,8 @@ class SavingsOptimizationService {
       currentAmount: number
       targetDate: Date
       priority: number
-    }>
+    }>,
+    categories: Category[] = []
   ): SavingsOptimization {
     try {
       // Calculate current financial metrics
@@ -140,7 +143,7 @@ class SavingsOptimizationService {
       )
 
       // Identify optimization opportunities
-      const optimizationOpportunities = this.identifyOptimizationOpportunities(transactions)
+      const optimizationOpportunities = this.identifyOptimizationOpportunities(transactions, categories)
 
       // Generate automation strategies
       const automationStrategies = this.generateAutomationStrategies(
@@ -303,11 +306,11 @@ class SavingsOptimizationService {
     return Math.max(this.MIN_SAVINGS_RATE, Math.min(targetRate, 0.5)) // Cap at 50%
   }
 
-  private identifyOptimizationOpportunities(transactions: Transaction[]): OptimizationOpportunity[] {
+  private identifyOptimizationOpportunities(transactions: Transaction[], categories: Category[]): OptimizationOpportunity[] {
     const opportunities: OptimizationOpportunity[] = []
     
     // Analyze spending by category
-    const categorySpending = this.analyzeCategorySpending(transactions)
+    const categorySpending = this.analyzeCategorySpending(transactions, categories)
     
     // Dining out optimization
     const diningSpending = categorySpending.get('dining') || 0
@@ -509,15 +512,17 @@ class SavingsOptimizationService {
     return Math.max((maxDate - minDate) / (1000 * 60 * 60 * 24 * 30), 1)
   }
 
-  private analyzeCategorySpending(transactions: Transaction[]): Map<string, number> {
+  private analyzeCategorySpending(transactions: Transaction[], categories: Category[]): Map<string, number> {
     const categoryMap = new Map<string, number>()
     const expenseTransactions = transactions.filter(t => t.type === 'expense')
     const monthsSpan = this.getMonthsSpan(expenseTransactions)
 
     expenseTransactions.forEach(transaction => {
-      const category = this.normalizeCategory(transaction.category)
-      const currentAmount = categoryMap.get(category) || 0
-      categoryMap.set(category, currentAmount + transaction.amount)
+      getCategoryAllocations(transaction).forEach(allocation => {
+        const category = this.normalizeCategory(allocation.category, categories)
+        const currentAmount = categoryMap.get(category) || 0
+        categoryMap.set(category, currentAmount + allocation.amount)
+      })
     })
 
     // Convert to monthly averages
@@ -528,7 +533,16 @@ class SavingsOptimizationService {
     return categoryMap
   }
 
-  private normalizeCategory(category: string): string {
+  /**
+   * Map a category to the spending group used for recommendations. A subcategory is matched by
+   * its own name first, then by the top-level category it rolls up into in the user's taxonomy.
+   */
+  private normalizeCategory(category: string, categories: Category[] = []): string {
+    const rootCategory = getRootCategoryName(category, categories)
+    return this.matchSpendingGroup(category) || this.matchSpendingGroup(rootCategory) || rootCategory.toLowerCase()
+  }
+
+  private matchSpendingGroup(category: string): string | null {
     const lowerCategory = category.toLowerCase()
     
     if (lowerCategory.includes('food') || lowerCategory.includes('restaurant') || lowerCategory.includes('dining')) {
@@ -544,7 +558,7 @@ class SavingsOptimizationService {
       return 'utilities'
     }
     
-    return lowerCategory
+    return null
   }
 
   private getDefaultOptimization(currentSavings: number): SavingsOptimization {
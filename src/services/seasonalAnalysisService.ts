@@ -1,4 +1,5 @@
 import { Transaction } from '@/types'
+import { formatCurrency } from '@/lib/formatting'
 
 // Seasonal Analysis Types
 export interface SeasonalSpendingPattern {
@@ -163,7 +164,7 @@ class SeasonalAnalysisService {
     )
     
     if (holidayImpact) {
-      recommendations.push(`${holidayImpact.holiday} affects spending this month. Budget an extra $${holidayImpact.averageSpending.toFixed(0)}.`)
+      recommendations.push(`${holidayImpact.holiday} affects spending this month. Budget an extra ${formatCurrency(holidayImpact.averageSpending, { decimals: 0 })}.`)
     }
 
     return recommendations.length > 0 ? recommendations : ['Spending patterns are relatively stable for this month.']
@@ -212,12 +213,12 @@ class SeasonalAnalysisService {
     
     // Find highest/lowest spending seasons
     const expenseRanking = seasonNames.sort((a, b) => seasonalData[b].expenses - seasonalData[a].expenses)
-    insights.push(`Highest spending season: ${expenseRanking[0]} ($${seasonalData[expenseRanking[0]].expenses.toFixed(0)}/month)`)
-    insights.push(`Lowest spending season: ${expenseRanking[expenseRanking.length - 1]} ($${seasonalData[expenseRanking[expenseRanking.length - 1]].expenses.toFixed(0)}/month)`)
+    insights.push(`Highest spending season: ${expenseRanking[0]} (${formatCurrency(seasonalData[expenseRanking[0]].expenses, { decimals: 0 })}/month)`)
+    insights.push(`Lowest spending season: ${expenseRanking[expenseRanking.length - 1]} (${formatCurrency(seasonalData[expenseRanking[expenseRanking.length - 1]].expenses, { decimals: 0 })}/month)`)
     
     // Find best cash flow season
     const netRanking = seasonNames.sort((a, b) => seasonalData[b].net - seasonalData[a].net)
-    insights.push(`Best cash flow season: ${netRanking[0]} (net $${seasonalData[netRanking[0]].net.toFixed(0)}/month)`)
+    insights.push(`Best cash flow season: ${netRanking[0]} (net ${formatCurrency(seasonalData[netRanking[0]].net, { decimals: 0 })}/month)`)
 
     return {
       ...seasonalData,
@@ -335,7 +336,7 @@ class SeasonalAnalysisService {
         insights.push({
           type: 'anomaly',
           month: pattern.month,
-          description: `${pattern.monthName} shows negative cash flow of $${Math.abs(pattern.netCashFlow).toFixed(0)}`,
+          description: `${pattern.monthName} shows negative cash flow of ${formatCurrency(Math.abs(pattern.netCashFlow), { decimals: 0 })}`,
           impact: pattern.netCashFlow,
           severity: Math.abs(pattern.netCashFlow) > 2000 ? 'high' : 'medium',
           recommendations: [
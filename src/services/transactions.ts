@@ -1,5 +1,11 @@
 import { createSupabaseClient } from '@/lib/supabase'
-import { Transaction } from '@/types'
+import { SPLIT_CATEGORY, calculateCategoryTotals } from '@/lib/splits'
+import { UNCATEGORIZED_CATEGORY } from '@/lib/categories'
+import { getRuleCategory } from '@/lib/categorizationRules'
+import { CategorizationRuleService } from './categorizationRules'
+import { classifyFromCorrections } from '@/lib/categoryLearning'
+import { CategoryCorrectionService } from './categoryCorrections'
+import { Transaction, TransactionSplit } from '@/types'
 
 // Transaction service with comprehensive input validation and security checks
 
@@ -10,11 +16,30 @@ export interface DatabaseTransaction {
   description: string
   category: string
   amount: number
-  type: 'income' | 'expense'
+  type: 'income' | 'expense' | 'transfer'
+  account_id?: string | null
+  transfer_account_id?: string | null
+  recurring_transaction_id?: string | null
+  external_id?: string | null
+  import_batch_id?: string | null
+  currency: string
+  transaction_splits?: DatabaseTransactionSplit[]
   created_at: string
   updated_at: string
 }
 
+export interface DatabaseTransactionSplit {
+  id: string
+  transaction_id: string
+  user_id: string
+  category: string
+  amount: number
+  note: string | null
+}
+
+// Transactions are always loaded together with their split allocations
+const TRANSACTION_SELECT = '*, transaction_splits(*)'
+
 // Convert database transaction to app transaction
 const mapDatabaseToTransaction = (dbTransaction: DatabaseTransaction): Transaction => ({
   id: dbTransaction.id,
@@ -22,7 +47,21 @@ const mapDatabaseToTransaction = (dbTransaction: DatabaseTransaction): Transacti
   description: dbTransaction.description,
   category: dbTransaction.category,
   amount: dbTransaction.amount,
-  type: dbTransaction.type
+  type: dbTransaction.type,
+  accountId: dbTransaction.account_id || undefined,
+  transferAccountId: dbTransaction.transfer_account_id || undefined,
+  recurringTransactionId: dbTransaction.recurring_transaction_id || undefined,
+  externalId: dbTransaction.external_id || undefined,
+  importBatchId: dbTransaction.import_batch_id || undefined,
+  currency: dbTransaction.currency,
+  ...(dbTransaction.transaction_splits?.length && {
+    splits: dbTransaction.transaction_splits.map(split => ({
+      id: split.id,
+      category: split.category,
+      amount: split.amount,
+      note: split.note || undefined
+    }))
+  })
 })
 
 // Convert app transaction to database format
@@ -30,11 +69,57 @@ const mapTransactionToDatabase = (transaction: Omit<Transaction, 'id'>, userId:
   user_id: userId,
   date: transaction.date.toISOString().split('T')[0], // Convert to YYYY-MM-DD format
   description: transaction.description,
-  category: transaction.category,
+  category: transaction.splits?.length ? SPLIT_CATEGORY : transaction.category,
   amount: transaction.amount,
-  type: transaction.type
+  type: transaction.type,
+  ...(transaction.accountId && { account_id: transaction.accountId }),
+  ...(transaction.type === 'transfer' && { transfer_account_id: transaction.transferAccountId }),
+  ...(transaction.recurringTransactionId && { recurring_transaction_id: transaction.recurringTransactionId }),
+  ...(transaction.externalId && { external_id: transaction.externalId }),
+  ...(transaction.importBatchId && { import_batch_id: transaction.importBatchId }),
+  ...(transaction.currency && { currency: transaction.currency })
 })
 
+// Replace the allocations of a transaction; an empty list leaves it unsplit
+const saveSplits = async (
+  supabase: ReturnType<typeof createSupabaseClient>,
+  transactionId: string,
+  userId: string,
+  splits: TransactionSplit[]
+): Promise<TransactionSplit[]> => {
+  const { error: deleteError } = await supabase
+    .from('transaction_splits')
+    .delete()
+    .eq('transaction_id', transactionId)
+
+  if (deleteError) {
+    throw new Error(`Failed to save splits: ${deleteError.message}`)
+  }
+  if (splits.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('transaction_splits')
+    .insert(splits.map(split => ({
+      transaction_id: transactionId,
+      user_id: userId,
+      category: split.category,
+      amount: split.amount,
+      note: split.note || null
+    })))
+    .select()
+
+  if (error) {
+    throw new Error(`Failed to save splits: ${error.message}`)
+  }
+
+  return (data as unknown as DatabaseTransactionSplit[]).map(split => ({
+    id: split.id,
+    category: split.category,
+    amount: split.amount,
+    note: split.note || undefined
+  }))
+}
+
 export class TransactionService {
   // Get all transactions for the current user
   static async getTransactions(): Promise<Transaction[]> {
@@ -54,7 +139,7 @@ export class TransactionService {
 
       const { data, error } = await supabase
         .from('transactions')
-        .select('*')
+        .select(TRANSACTION_SELECT)
         .order('date', { ascending: false })
 
       if (error) {
@@ -76,7 +161,7 @@ export class TransactionService {
       const supabase = createSupabaseClient()
       const { data, error } = await supabase
         .from('transactions')
-        .select('*')
+        .select(TRANSACTION_SELECT)
         .gte('date', startDate.toISOString().split('T')[0])
         .lte('date', endDate.toISOString().split('T')[0])
         .order('date', { ascending: false })
@@ -99,7 +184,7 @@ export class TransactionService {
       const supabase = createSupabaseClient()
       const { data, error } = await supabase
         .from('transactions')
-        .select('*')
+        .select(TRANSACTION_SELECT)
         .eq('category', category)
         .order('date', { ascending: false })
 
@@ -151,6 +236,20 @@ export class TransactionService {
       }
 
       console.log('TransactionService: User authenticated:', user.id)
+
+      // Transactions added without a category are categorized by the user's rules, then by what
+      // the user chose for the same merchant before
+      if (!transaction.category.trim() && transaction.type !== 'transfer' && !transaction.splits?.length) {
+        const rules = await CategorizationRuleService.getRules()
+        let category = getRuleCategory(rules, transaction)
+        if (!category) {
+          const corrections = await CategoryCorrectionService.getCorrections()
+          category = classifyFromCorrections(transaction.description, corrections)?.category || UNCATEGORIZED_CATEGORY
+        }
+        console.log('TransactionService: Categorized automatically as:', category)
+        transaction = { ...transaction, category }
+      }
+
       const dbTransaction = mapTransactionToDatabase(transaction, user.id)
       console.log('TransactionService: Database transaction:', dbTransaction)
 
@@ -166,7 +265,19 @@ export class TransactionService {
       }
 
       console.log('TransactionService: Transaction added successfully:', data)
-      return mapDatabaseToTransaction(data as unknown as DatabaseTransaction)
+      const added = mapDatabaseToTransaction(data as unknown as DatabaseTransaction)
+
+      if (transaction.splits?.length) {
+        try {
+          added.splits = await saveSplits(supabase, added.id, user.id, transaction.splits)
+        } catch (splitError) {
+          // Don't leave a 'Split' transaction behind without its allocations
+          await supabase.from('transactions').delete().eq('id', added.id)
+          throw splitError
+        }
+      }
+
+      return added
     } catch (error) {
       console.error('TransactionService: Error in addTransaction:', error)
       throw error
@@ -187,11 +298,28 @@ export class TransactionService {
       if (updates.category !== undefined) {
         updateData.category = updates.category
       }
+      if (updates.splits?.length) {
+        updateData.category = SPLIT_CATEGORY
+      }
       if (updates.amount !== undefined) {
         updateData.amount = updates.amount
       }
+      if (updates.currency) {
+        updateData.currency = updates.currency
+      }
       if (updates.type !== undefined) {
         updateData.type = updates.type
+        // Only transfers have a destination account
+        if (updates.type !== 'transfer') updateData.transfer_account_id = null
+      }
+      if ('accountId' in updates) {
+        updateData.account_id = updates.accountId || null
+      }
+      if ('transferAccountId' in updates) {
+        updateData.transfer_account_id = updates.transferAccountId || null
+      }
+      if ('externalId' in updates) {
+        updateData.external_id = updates.externalId || null
       }
 
       const supabase = createSupabaseClient()
@@ -199,7 +327,7 @@ export class TransactionService {
         .from('transactions')
         .update(updateData)
         .eq('id', id)
-        .select()
+        .select(TRANSACTION_SELECT)
         .single()
 
       if (error) {
@@ -207,13 +335,41 @@ export class TransactionService {
         throw new Error(`Failed to update transaction: ${error.message}`)
       }
 
-      return mapDatabaseToTransaction(data as unknown as DatabaseTransaction)
+      const dbTransaction = data as unknown as DatabaseTransaction
+      const updated = mapDatabaseToTransaction(dbTransaction)
+      if (updates.splits !== undefined) {
+        const splits = await saveSplits(supabase, id, dbTransaction.user_id, updates.splits)
+        updated.splits = splits.length > 0 ? splits : undefined
+      }
+
+      return updated
     } catch (error) {
       console.error('Error in updateTransaction:', error)
       throw error
     }
   }
 
+  // Move several transactions to one category, e.g. when applying categorization rules
+  static async recategorizeTransactions(ids: string[], category: string): Promise<void> {
+    try {
+      if (ids.length === 0) return
+
+      const supabase = createSupabaseClient()
+      const { error } = await supabase
+        .from('transactions')
+        .update({ category })
+        .in('id', ids)
+
+      if (error) {
+        console.error('Error recategorizing transactions:', error)
+        throw new Error(`Failed to recategorize transactions: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error in recategorizeTransactions:', error)
+      throw error
+    }
+  }
+
   // Delete a transaction
   static async deleteTransaction(id: string): Promise<void> {
     try {
@@ -271,13 +427,13 @@ export class TransactionService {
     }
   }
 
-  // Get spending by category
+  // Get spending by category (split transactions count towards each of their categories)
   static async getSpendingByCategory(): Promise<{ category: string; amount: number }[]> {
     try {
       const supabase = createSupabaseClient()
       const { data, error } = await supabase
         .from('transactions')
-        .select('category, amount')
+        .select(TRANSACTION_SELECT)
         .eq('type', 'expense')
 
       if (error) {
@@ -285,15 +441,8 @@ export class TransactionService {
         throw new Error(`Failed to fetch spending by category: ${error.message}`)
       }
 
-      const categorySpending = (data as any[]).reduce((acc: { category: string; amount: number }[], transaction: any) => {
-        const existing = acc.find((item: { category: string; amount: number }) => item.category === transaction.category)
-        if (existing) {
-          existing.amount += (transaction.amount || 0)
-        } else {
-          acc.push({ category: transaction.category, amount: transaction.amount || 0 })
-        }
-        return acc
-      }, [] as { category: string; amount: number }[])
+      const totals = calculateCategoryTotals((data as unknown as DatabaseTransaction[]).map(mapDatabaseToTransaction))
+      const categorySpending = Object.entries(totals).map(([category, amount]) => ({ category, amount }))
 
       return categorySpending.sort((a, b) => b.amount - a.amount)
     } catch (error) {
@@ -6,15 +6,137 @@ export interface Transaction {
   description: string
   category: string
   amount: number
+  type: TransactionType
+  accountId?: string // Source account for transfers
+  transferAccountId?: string // Destination account, only set on transfers
+  recurringTransactionId?: string // Set when materialized from a recurring rule
+  externalId?: string // The bank's id for an imported statement line (OFX FITID), used to skip re-imports
+  splits?: TransactionSplit[] // Category allocations summing to amount; category is 'Split' when set
+  confidence?: number // How sure the import was about this line (0-1), only set while importing
+  importBatchId?: string // The import that added this transaction
+  currency?: string // ISO 4217 code the transaction was made in; saved ones always have it, new ones without are in the base currency
+  originalAmount?: number // Amount in that currency; amount and splits are converted to the base currency
+}
+
+// Transfers move money between two of the user's accounts and are neither income nor expense
+export type TransactionType = 'income' | 'expense' | 'transfer'
+
+// Part of a split transaction's amount allocated to one category
+export interface TransactionSplit {
+  id?: string
+  category: string
+  amount: number
+  note?: string
+}
+
+// User-managed category; subcategories roll up into their parent in charts and reports
+export interface Category {
+  id: string
+  name: string
+  parentId?: string
+  color: string // Hex color used in charts
+  icon: string // lucide-react icon name, see CATEGORY_ICONS
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type RuleMatchType = 'contains' | 'equals' | 'starts_with' | 'regex'
+
+// Assigns a category to transactions meeting every condition that is set
+export interface CategorizationRule {
+  id: string
+  name: string
+  matchType: RuleMatchType
+  pattern?: string // Matched against the description; empty matches any description
+  amountMin?: number
+  amountMax?: number
+  accountId?: string
+  transactionType?: 'income' | 'expense'
+  category: string
+  priority: number // Lower runs first; the first matching rule wins
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+// A category the user chose for an imported merchant, used to categorize later imports
+export interface CategoryCorrection {
+  id: string
+  descriptionKey: string // Normalized description, see normalizeDescription
+  description: string // Last description seen with this key, shown to the AI as an example
+  category: string
+  timesCorrected: number
+  updatedAt: Date
+}
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash' | 'investment' | 'other'
+
+export interface Account {
+  id: string
+  name: string
+  type: AccountType
+  institution?: string
+  openingBalance: number // Negative for money owed on credit cards
+  currency: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type RecurringFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly'
+
+// A confirmed recurring rule that materializes into transactions when due
+export interface RecurringTransaction {
+  id: string
+  description: string
+  category: string
+  amount: number
+  currency: string // ISO 4217 code the occurrences are created in
   type: 'income' | 'expense'
+  frequency: RecurringFrequency
+  accountId?: string
+  startDate: Date
+  endDate?: Date
+  nextOccurrence: Date
+  amountVariance: number // Percent
+  isActive: boolean
+  lastMaterializedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface RecurringMaterializationResult {
+  created: number
+  matched: number // Occurrences already present as transactions
+  rulesProcessed: number
+  errors: string[]
 }
 
 export interface Budget {
   id: string
   category: string
   budgetAmount: number
-  spentAmount: number
+  spentAmount: number // Spent in the current period
   period: string
+  periodStartDay?: number // ISO weekday (1-7) for weekly budgets, day of month (1-28) otherwise
+  currentPeriodStart?: Date
+  rolloverPolicy?: BudgetRolloverPolicy
+  rolloverCap?: number // Only used by the 'cap' policy
+  rolloverAmount?: number // Carried into the current period from earlier ones
+}
+
+export type BudgetPeriod = 'Weekly' | 'Monthly' | 'Quarterly' | 'Yearly'
+
+export type BudgetRolloverPolicy = 'none' | 'carry_surplus' | 'carry_both' | 'cap'
+
+// A closed budget period
+export interface BudgetPeriodHistory {
+  id: string
+  budgetId: string
+  periodStart: Date
+  periodEnd: Date // Exclusive
+  budgetAmount: number
+  spentAmount: number
+  rolloverAmount: number // Carried into this period
 }
 
 // New AI Import System Types
@@ -28,6 +150,14 @@ export interface ImportResult {
     failed: number
     duplicatesFound: number
   }
+  fileNames?: string[] // What was imported, recorded with the import batch
+  options?: ImportOptions
+}
+
+// Progress of a file parsed in chunks, reported as each chunk starts and finishes
+export interface ImportProgress {
+  fileName: string
+  chunks: Array<'pending' | 'processing' | 'done' | 'failed'>
 }
 
 export interface FileProcessingResult {
@@ -38,6 +168,11 @@ export interface FileProcessingResult {
     fileType: string
     extractedAt: Date
   }
+  // Amounts a PDF statement's running balance moved by, to check parsed transactions against
+  balanceChanges?: number[]
+  // Amounts on the rows each run of balances starts or ends with, which no change can confirm
+  openingRows?: number[][]
+  warnings?: string[]
   error?: string
 }
 
@@ -61,18 +196,227 @@ export interface AIParseResponse {
 
 export interface ValidationResult {
   valid: Transaction[]
-  duplicates: Transaction[]
-  conflicts: Transaction[]
+  duplicates: Transaction[] // Almost certainly imported before
+  conflicts: Transaction[] // Possible duplicates for the user to decide on
+  transfers: TransferMatch[]
+  matches: Record<string, DuplicateMatch> // Existing transaction each duplicate or conflict resembles, by imported id
   errors: string[]
   warnings: string[]
 }
 
+// An existing transaction an imported line resembles, with how alike they are (0-1)
+export interface DuplicateMatch {
+  existing: Transaction
+  score: number
+}
+
+// Imported statement lines recognised as the two sides of one transfer
+export interface TransferMatch {
+  id: string
+  transfer: Omit<Transaction, 'id'>
+  imported: Transaction[] // Imported lines the transfer replaces
+  existingTransactionId?: string // Existing line converted into the transfer instead of adding a new one
+}
+
 export interface ImportOptions {
   skipDuplicates?: boolean
   dateFormat?: 'auto' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD'
   currency?: string
   confidenceThreshold?: number
   categoryMapping?: Record<string, string>
+  accountId?: string // Account the imported transactions are posted to
+  categories?: string[] // The user's category names parsed transactions are assigned to
+  rules?: CategorizationRule[] // Take precedence over the category the AI picks
+  corrections?: CategoryCorrection[] // Earlier review choices, used as examples and to pre-fill categories
+  csvMapping?: CsvColumnMapping // CSV files with these columns are parsed locally instead of by the AI
+}
+
+// Which CSV column holds what; column numbers are zero-based
+export interface CsvColumnMapping {
+  headerFingerprint: string // Identifies the bank export the mapping was made for, see getHeaderFingerprint
+  delimiter: string
+  hasHeader: boolean
+  dateFormat: 'auto' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD'
+  dateColumn: number
+  descriptionColumn: number
+  amountColumn?: number // Signed amount; when unset, debitColumn and creditColumn are used
+  debitColumn?: number
+  creditColumn?: number
+  balanceColumn?: number // Used to check the running balance
+  categoryColumn?: number
+  negateAmounts?: boolean // The bank writes spending as positive amounts
+}
+
+// A saved CSV mapping, picked automatically for files with the same header
+export interface BankProfile {
+  id: string
+  name: string
+  headerFingerprint: string
+  mapping: CsvColumnMapping
+  categoryMapping: Record<string, string> // Bank category -> user category
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Import options recorded with a batch
+export type ImportBatchOptions = Pick<ImportOptions, 'accountId' | 'dateFormat' | 'currency' | 'skipDuplicates' | 'confidenceThreshold'> & {
+  csvMapping?: string // Fingerprint of the CSV column mapping used
+}
+
+// One confirmed import; reverting it deletes the transactions it added and restores the ones it changed
+export interface ImportBatch {
+  id: string
+  fileNames: string[]
+  options: ImportBatchOptions
+  importedCount: number
+  duplicateCount: number // Lines skipped as already imported
+  errorCount: number
+  changedTransactions: Transaction[] // Existing transactions as they were before the import changed them, in their own currency
+  revertedAt?: Date
+  createdAt: Date
+}
+
+// Complete JSON backup from the Data tab; schemaVersion is BACKUP_SCHEMA_VERSION when written
+export interface DataBackup {
+  app: string
+  schemaVersion: number
+  exportedAt: string
+  data: {
+    transactions: Transaction[]
+    budgets: Budget[]
+    goals: FinancialGoal[]
+    debts: DebtAccount[]
+    accounts: Account[]
+    categories: Category[]
+    recurringTransactions: RecurringTransaction[]
+    categorizationRules: CategorizationRule[]
+    categoryCorrections: CategoryCorrection[]
+    preferences?: UserPreferences // Missing in backups from before schema version 2
+  }
+}
+
+// What restoring a backup does with one record; updates and skips are matched to an existing record
+export interface RestoreChange<T> {
+  action: 'create' | 'update' | 'skip'
+  record: T
+  existing?: T
+  reason?: string // Why a record is skipped
+}
+
+// Restoring keeps the current version of records that differ from the backup, or overwrites them
+export type RestoreConflictPolicy = 'overwrite' | 'keep'
+
+export interface RestorePlan {
+  transactions: RestoreChange<Transaction>[]
+  budgets: RestoreChange<Budget>[]
+  goals: RestoreChange<FinancialGoal>[]
+  recurringTransactions: RestoreChange<RecurringTransaction>[]
+  categorizationRules: RestoreChange<CategorizationRule>[]
+  categoryCorrections: RestoreChange<CategoryCorrection>[]
+  preferences?: RestoreChange<UserPreferences> // When the backup has them
+  warnings: string[]
+}
+
+// Receipt read from a photo; anything OCR could not find is left out
+export interface Receipt {
+  merchant?: string
+  date?: Date
+  subtotal?: number
+  tax?: number
+  tip?: number
+  total?: number
+  lineItems: ReceiptLineItem[]
+  text: string // Raw OCR text the receipt was read from
+  confidence: number // OCR confidence (0-1)
+}
+
+export interface ReceiptLineItem {
+  description: string
+  amount: number // Line total, i.e. quantity times unit price
+  quantity?: number
+  category?: string // Proposed category, set when a split is proposed
+}
+
+// What was done to an image before OCR read it
+export interface ImagePreprocessing {
+  file: File // The straightened black and white image
+  originalWidth: number
+  originalHeight: number
+  width: number // After downscaling, before deskewing
+  height: number
+  skewAngle: number // Degrees the text sloped by; the image was rotated back by this much
+}
+
+// OCR confidence (0-1) reading the image as it was and after preprocessing; the more confident reading is used
+export interface OCRConfidenceComparison {
+  original: number
+  preprocessed: number
+  used: 'original' | 'preprocessed'
+}
+
+// File stored alongside a transaction, such as the photo of its receipt
+export interface TransactionAttachment {
+  id: string
+  transactionId: string
+  fileName: string
+  contentType: string
+  size: number // Bytes
+  storagePath: string
+  storageBackend: AttachmentStorageBackend
+  ocrText?: string // Text read from an image attachment, matched by transaction search
+  createdAt: Date
+}
+
+// Where attachment files are kept: Supabase Storage, or the server's disk when self-hosting
+export type AttachmentStorageBackend = 'supabase' | 'local'
+
+// How dates are written wherever the app shows one
+export type DateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD'
+
+// 'system' follows the operating system's light or dark setting
+export type ThemeMode = 'light' | 'dark' | 'system'
+export type ResolvedTheme = Exclude<ThemeMode, 'system'>
+
+// Settings saved per user from the Preferences and Appearance tabs
+export interface UserPreferences {
+  currency: string // ISO 4217 code amounts are shown in
+  locale: string // BCP 47 tag for number separators and month names
+  dateFormat: DateFormat
+  notifications: boolean
+  emailReports: boolean
+  budgetAlerts: boolean
+  theme: ThemeMode
+  accentColor: string
+  fontSize: 'small' | 'medium' | 'large'
+  compactMode: boolean
+}
+
+// The preferences amounts and dates are formatted with
+export type FormatPreferences = Pick<UserPreferences, 'currency' | 'locale' | 'dateFormat'>
+
+// Where an exchange rate came from: a CSV file, entered by hand, or the built-in reference rates
+export type ExchangeRateSource = 'csv' | 'manual' | 'local'
+
+// What one unit of fromCurrency was worth in toCurrency on a day
+export interface ExchangeRate {
+  id: string
+  date: Date
+  fromCurrency: string
+  toCurrency: string
+  rate: number
+  source: ExchangeRateSource
+  createdAt: Date
+}
+
+export type NewExchangeRate = Omit<ExchangeRate, 'id' | 'createdAt'>
+
+// Converts amounts between currencies at the rate of a given day
+export interface CurrencyConverter {
+  baseCurrency: string // The user's preferred currency, which totals, budgets and reports are in
+  // The imported rate closest to the date (preferring earlier days), else a reference rate
+  getRate: (fromCurrency: string, toCurrency: string, date: Date) => { rate: number; source: ExchangeRateSource } | undefined
+  // Amounts in currencies without any rate are left as they are
+  convert: (amount: number, fromCurrency: string, toCurrency: string, date: Date) => number
 }
 
 // AI Reports System Types
@@ -179,6 +523,7 @@ export interface FinancialContext {
     spent: number
     percentageUsed: number
   }>
+  preferences?: FormatPreferences // Amounts and dates in the prompt follow these; US dollars when missing
 }
 
 export interface ChatResponse {
@@ -213,11 +558,22 @@ export interface AppContextType {
   transactions: Transaction[]
   budgets: Budget[]
   goals: FinancialGoal[]
+  debts: DebtAccount[]
+  recurringTransactions: RecurringTransaction[]
+  accounts: Account[]
+  categories: Category[]
+  categorizationRules: CategorizationRule[]
+  categoryCorrections: CategoryCorrection[]
+  bankProfiles: BankProfile[]
+  importBatches: ImportBatch[]
+  attachments: TransactionAttachment[]
+  exchangeRates: ExchangeRate[]
+  currencyConverter: CurrencyConverter
   loading: boolean
   error: string | null
 
-  // Transaction methods
-  addTransaction: (transaction: Omit<Transaction, 'id'>) => Promise<void>
+  // Transaction methods (amounts are saved in the transaction's own currency, its originalAmount when given)
+  addTransaction: (transaction: Omit<Transaction, 'id'>) => Promise<Transaction>
   updateTransaction: (id: string, transaction: Partial<Transaction>) => Promise<void>
   deleteTransaction: (id: string) => Promise<void>
 
@@ -232,12 +588,67 @@ export interface AppContextType {
   deleteGoal: (id: string) => Promise<void>
   updateGoalProgress: (id: string, currentAmount: number) => Promise<void>
 
+  // Debt methods
+  addDebt: (debt: Omit<DebtAccount, 'id'>) => Promise<void>
+  updateDebt: (id: string, debt: Partial<DebtAccount>) => Promise<void>
+  deleteDebt: (id: string) => Promise<void>
+
+  // Recurring transaction methods
+  addRecurringTransaction: (recurring: Omit<RecurringTransaction, 'id' | 'nextOccurrence' | 'isActive' | 'lastMaterializedAt' | 'createdAt' | 'updatedAt'>) => Promise<void>
+  updateRecurringTransaction: (id: string, recurring: Partial<RecurringTransaction>) => Promise<void>
+  deleteRecurringTransaction: (id: string) => Promise<void>
+
+  // Account methods
+  addAccount: (account: Omit<Account, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>
+  updateAccount: (id: string, account: Partial<Account>) => Promise<void>
+  deleteAccount: (id: string) => Promise<void>
+
+  // Category methods (renames and merges rewrite transactions, splits, budgets and recurring rules)
+  addCategory: (category: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>
+  updateCategory: (id: string, category: Partial<Pick<Category, 'parentId' | 'color' | 'icon'>>) => Promise<void>
+  renameCategory: (id: string, name: string) => Promise<void>
+  mergeCategories: (sourceId: string, targetId: string) => Promise<void>
+  deleteCategory: (id: string) => Promise<void>
+
+  // Categorization rule methods
+  addCategorizationRule: (rule: Omit<CategorizationRule, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>
+  updateCategorizationRule: (id: string, rule: Partial<CategorizationRule>) => Promise<void>
+  deleteCategorizationRule: (id: string) => Promise<void>
+  applyCategorizationRules: () => Promise<number> // Recategorizes existing transactions, returns how many changed
+
+  // Category learning methods
+  recordCategoryCorrections: (corrections: Array<{ description: string; category: string }>) => Promise<void>
+
+  // Bank profile methods (saving a profile for a header that already has one replaces it)
+  saveBankProfile: (profile: Omit<BankProfile, 'id' | 'headerFingerprint' | 'createdAt' | 'updatedAt'>) => Promise<void>
+  deleteBankProfile: (id: string) => Promise<void>
+
+  // Import batch methods (transactions added by an import carry its batch id)
+  createImportBatch: (batch: Omit<ImportBatch, 'id' | 'changedTransactions' | 'revertedAt' | 'createdAt'>) => Promise<ImportBatch>
+  updateImportBatch: (id: string, batch: Partial<Pick<ImportBatch, 'importedCount' | 'duplicateCount' | 'errorCount' | 'changedTransactions'>>) => Promise<void>
+  deleteImportBatch: (id: string) => Promise<void>
+  revertImportBatch: (id: string) => Promise<{ deleted: number; restored: number }> // Deletes the batch's transactions and restores the ones it changed
+
+  // Backup methods
+  restoreBackup: (plan: RestorePlan) => Promise<void> // Applies every change of the plan, or none of them
+
+  // Attachment methods
+  addTransactionAttachment: (transactionId: string, file: File, ocrText?: string) => Promise<TransactionAttachment>
+  deleteTransactionAttachment: (id: string) => Promise<void>
+
+  // Exchange rate methods (saving a rate for a day and currency pair that already has one replaces it)
+  saveExchangeRates: (rates: NewExchangeRate[]) => Promise<number> // Returns how many were saved
+  deleteExchangeRate: (id: string) => Promise<void>
+  addReferenceRates: () => Promise<number> // Saves reference rates for foreign transactions without an imported rate
+
   // Computed values
   getTotalIncome: () => number
   getTotalExpenses: () => number
   getNetIncome: () => number
   getSavingsRate: () => number
   getCategorySpending: (category: string) => number
+  getAccountBalance: (accountId: string, currency?: string) => number // In the account's own currency unless another is given
+  getTotalBalance: (types?: AccountType[]) => number // Liquid accounts unless other types are given, in the base currency
 }
 
 // Cash Flow Forecasting Types
@@ -267,6 +678,7 @@ export interface CashFlowForecast {
 export interface RecurringPattern {
   type: 'income' | 'expense'
   description: string
+  category?: string
   amount: number
   frequency: 'weekly' | 'monthly' | 'quarterly' | 'yearly'
   confidence: number